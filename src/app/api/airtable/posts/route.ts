@@ -1,26 +1,32 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createAirtableClient } from '@/lib/airtable'
+import { ContentWorkflowService, WorkflowError } from '@/lib/content-workflow'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { getRepository } from '@/lib/storage'
 
 export async function GET(request: NextRequest) {
   try {
+    const { workspaceId } = getAuthContext(request)
     const { searchParams } = new URL(request.url)
     const status = searchParams.get('status')
     const limit = searchParams.get('limit')
     
-    const airtableClient = createAirtableClient()
+    const contentPosts = await getRepository(workspaceId, 'contentPosts')
     
-    let posts
-    if (status) {
-      posts = await airtableClient.getPostsByStatus(status as any)
-    } else {
-      posts = await airtableClient.getRecentPosts(limit ? parseInt(limit) : 10)
-    }
+    const posts = await contentPosts.list({
+      filters: status ? [{ field: 'Status', op: 'eq', value: status }] : [],
+      sort: [{ field: 'Created', direction: 'desc' }],
+      limit: status ? undefined : limit ? parseInt(limit) : 10
+    })
 
     return NextResponse.json({ posts })
   } catch (error) {
-    console.error('Airtable API error:', error)
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Content posts API error:', error)
     return NextResponse.json(
-      { error: 'Failed to fetch posts from Airtable' },
+      { error: 'Failed to fetch posts' },
       { status: 500 }
     )
   }
@@ -28,6 +34,8 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const auth = getAuthContext(request)
+    const { workspaceId } = auth
     const body = await request.json()
     
     if (!body.content) {
@@ -37,23 +45,39 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const airtableClient = createAirtableClient()
+    // Approval goes through the workflow, so new posts can only start in Draft or Review
+    const status = body.status || 'Draft'
+    if (status !== 'Draft' && status !== 'Review') {
+      return NextResponse.json(
+        { error: 'New posts must start in Draft or Review' },
+        { status: 400 }
+      )
+    }
+
+    const actor = await ContentWorkflowService.resolveActor(auth)
+    const contentPosts = await getRepository(workspaceId, 'contentPosts')
     
-    const post = await airtableClient.createContentPost({
+    const post = await contentPosts.create({
       'Content': body.content,
       'Post Type': body.postType || 'Thought Leadership',
-      'Status': body.status || 'Draft',
+      'Status': status,
       'Hashtags': body.hashtags || [],
       'Scheduled Date': body.scheduledDate,
       'Created By': body.createdBy || 'Erska',
       'Created': new Date().toISOString(),
     })
 
+    await ContentWorkflowService.recordCreated({ backend: 'airtable', id: post.id!, workspaceId }, status, actor)
+
     return NextResponse.json({ post })
   } catch (error) {
-    console.error('Airtable create post error:', error)
+    if (error instanceof WorkflowError || error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Create post error:', error)
     return NextResponse.json(
-      { error: 'Failed to create post in Airtable' },
+      { error: 'Failed to create post' },
       { status: 500 }
     )
   }
@@ -61,6 +85,8 @@ export async function POST(request: NextRequest) {
 
 export async function PUT(request: NextRequest) {
   try {
+    const auth = getAuthContext(request)
+    const { workspaceId } = auth
     const body = await request.json()
     
     if (!body.id) {
@@ -70,24 +96,44 @@ export async function PUT(request: NextRequest) {
       )
     }
 
-    const airtableClient = createAirtableClient()
+    const contentPosts = await getRepository(workspaceId, 'contentPosts')
+    const ref = { backend: 'airtable' as const, id: body.id, workspaceId }
+
+    // Text and status changes are checked against the workflow and audited
+    if (body.content !== undefined || body.hashtags !== undefined || body.status !== undefined) {
+      const actor = await ContentWorkflowService.resolveActor(auth)
+
+      if (body.content !== undefined || body.hashtags !== undefined) {
+        await ContentWorkflowService.edit(ref, { body: body.content, hashtags: body.hashtags }, actor)
+      }
+
+      if (body.status !== undefined) {
+        const current = await ContentWorkflowService.getItem(ref)
+        if (current.status !== body.status) {
+          await ContentWorkflowService.transition(ref, body.status, actor, { note: body.note })
+        }
+      }
+    }
     
     const updateFields: any = {}
-    if (body.content !== undefined) updateFields['Content'] = body.content
-    if (body.status !== undefined) updateFields['Status'] = body.status
     if (body.scheduledDate !== undefined) updateFields['Scheduled Date'] = body.scheduledDate
-    if (body.hashtags !== undefined) updateFields['Hashtags'] = body.hashtags
     if (body.views !== undefined) updateFields['Views'] = body.views
     if (body.likes !== undefined) updateFields['Likes'] = body.likes
     if (body.comments !== undefined) updateFields['Comments'] = body.comments
 
-    const post = await airtableClient.updateContentPost(body.id, updateFields)
+    const post = Object.keys(updateFields).length > 0
+      ? await contentPosts.update(body.id, updateFields)
+      : await contentPosts.get(body.id)
 
     return NextResponse.json({ post })
   } catch (error) {
-    console.error('Airtable update post error:', error)
+    if (error instanceof WorkflowError || error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Update post error:', error)
     return NextResponse.json(
-      { error: 'Failed to update post in Airtable' },
+      { error: 'Failed to update post' },
       { status: 500 }
     )
   }
@@ -95,6 +141,7 @@ export async function PUT(request: NextRequest) {
 
 export async function DELETE(request: NextRequest) {
   try {
+    const { workspaceId } = getAuthContext(request)
     const { searchParams } = new URL(request.url)
     const id = searchParams.get('id')
     
@@ -105,14 +152,18 @@ export async function DELETE(request: NextRequest) {
       )
     }
 
-    const airtableClient = createAirtableClient()
-    await airtableClient.deleteContentPost(id)
+    const contentPosts = await getRepository(workspaceId, 'contentPosts')
+    await contentPosts.delete(id)
 
     return NextResponse.json({ success: true })
   } catch (error) {
-    console.error('Airtable delete post error:', error)
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Delete post error:', error)
     return NextResponse.json(
-      { error: 'Failed to delete post from Airtable' },
+      { error: 'Failed to delete post' },
       { status: 500 }
     )
   }
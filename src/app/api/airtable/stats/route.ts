@@ -1,15 +1,32 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createAirtableClient } from '@/lib/airtable'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { getRepository } from '@/lib/storage'
 
 export async function GET(request: NextRequest) {
   try {
-    const airtableClient = createAirtableClient()
+    const { workspaceId } = getAuthContext(request)
+    const contentPosts = await getRepository(workspaceId, 'contentPosts')
     
-    const stats = await airtableClient.getPostStats()
+    const [total, published, drafts, pending] = await Promise.all([
+      contentPosts.count(),
+      contentPosts.count([{ field: 'Status', op: 'eq', value: 'Published' }]),
+      contentPosts.count([{ field: 'Status', op: 'eq', value: 'Draft' }]),
+      contentPosts.count([{ field: 'Status', op: 'eq', value: 'Review' }])
+    ])
+    const stats = { total, published, drafts, pending }
     
     // Get additional stats
-    const scheduledPosts = await airtableClient.getScheduledPosts()
-    const recentPosts = await airtableClient.getRecentPosts(5)
+    const scheduledPosts = await contentPosts.list({
+      filters: [
+        { field: 'Status', op: 'eq', value: 'Approved' },
+        { field: 'Scheduled Date', op: 'notEmpty' }
+      ],
+      sort: [{ field: 'Scheduled Date', direction: 'asc' }]
+    })
+    const recentPosts = await contentPosts.list({
+      sort: [{ field: 'Created', direction: 'desc' }],
+      limit: 5
+    })
     
     // Calculate engagement metrics
     const publishedPosts = recentPosts.filter(post => post.fields.Status === 'Published')
@@ -28,9 +45,13 @@ export async function GET(request: NextRequest) {
       scheduledPosts: scheduledPosts.slice(0, 3),
     })
   } catch (error) {
-    console.error('Airtable stats API error:', error)
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Stats API error:', error)
     return NextResponse.json(
-      { error: 'Failed to fetch stats from Airtable' },
+      { error: 'Failed to fetch stats' },
       { status: 500 }
     )
   }
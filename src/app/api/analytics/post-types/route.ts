@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { AnalyticsQuerySchema, PostAnalyticsService } from '@/lib/post-analytics'
+
+export const dynamic = 'force-dynamic'
+
+// Engagement per post, grouped by post type
+export async function GET(request: NextRequest) {
+  try {
+    const { workspaceId } = getAuthContext(request)
+    const query = AnalyticsQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+    const range = PostAnalyticsService.resolveRange(query)
+
+    const types = await PostAnalyticsService.getPostTypePerformance(workspaceId, range, query.username)
+
+    return NextResponse.json({ success: true, types })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid analytics query', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Analytics post types error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch post type performance' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { AnalyticsQuerySchema, PostAnalyticsService } from '@/lib/post-analytics'
+
+export const dynamic = 'force-dynamic'
+
+// Totals for posts published in the range, with the change from the period before it
+export async function GET(request: NextRequest) {
+  try {
+    const { workspaceId } = getAuthContext(request)
+    const query = AnalyticsQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+    const range = PostAnalyticsService.resolveRange(query)
+
+    const summary = await PostAnalyticsService.getSummary(workspaceId, range, query.username)
+
+    return NextResponse.json({ success: true, ...summary })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid analytics query', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Analytics summary error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch analytics summary' },
+      { status: 500 }
+    )
+  }
+}
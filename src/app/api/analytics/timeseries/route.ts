@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { AnalyticsQuerySchema, PostAnalyticsService } from '@/lib/post-analytics'
+
+export const dynamic = 'force-dynamic'
+
+// Reactions, comments and reposts received per day or week
+export async function GET(request: NextRequest) {
+  try {
+    const { workspaceId } = getAuthContext(request)
+    const query = AnalyticsQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+    const range = PostAnalyticsService.resolveRange(query)
+
+    const interval = query.interval || PostAnalyticsService.defaultInterval(range)
+    const points = await PostAnalyticsService.getTimeseries(workspaceId, range, interval, query.username)
+
+    return NextResponse.json({ success: true, interval, points })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid analytics query', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Analytics timeseries error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch engagement over time' },
+      { status: 500 }
+    )
+  }
+}
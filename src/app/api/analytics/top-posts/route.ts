@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { AnalyticsQuerySchema, PostAnalyticsService } from '@/lib/post-analytics'
+
+export const dynamic = 'force-dynamic'
+
+// Best posts in the range, compared with the average post in the previous period
+export async function GET(request: NextRequest) {
+  try {
+    const { workspaceId } = getAuthContext(request)
+    const query = AnalyticsQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+    const range = PostAnalyticsService.resolveRange(query)
+
+    const topPosts = await PostAnalyticsService.getTopPosts(workspaceId, range, query.limit, query.username)
+
+    return NextResponse.json({ success: true, ...topPosts })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid analytics query', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Analytics top posts error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch top posts' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { PostVelocityService, VelocityQuerySchema } from '@/lib/post-velocity'
+
+export const dynamic = 'force-dynamic'
+
+// Growth curve and reaction velocity for one post, flagged against the baseline author's recent posts
+export async function GET(request: NextRequest) {
+  try {
+    const { workspaceId } = getAuthContext(request)
+    const query = VelocityQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+
+    const velocity = await PostVelocityService.getPostVelocity(workspaceId, query.urn, query.baseline)
+    if (!velocity) {
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, ...velocity })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid velocity query', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Analytics velocity error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch post velocity' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createAuthClient } from '@/lib/supabase'
+import { WorkspaceService } from '@/lib/workspaces'
+import { SESSION_COOKIE, SESSION_TTL_SECONDS, signSession } from '@/lib/session'
+
+export const dynamic = 'force-dynamic'
+
+const LoginSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(1, 'Password is required'),
+  workspaceId: z.string().uuid().optional()
+})
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { email, password, workspaceId } = LoginSchema.parse(body)
+
+    // Supabase Auth checks the password; the session itself is our own signed cookie
+    const { data, error } = await createAuthClient().auth.signInWithPassword({ email, password })
+    if (error || !data.user) {
+      return NextResponse.json(
+        { error: 'Invalid email or password' },
+        { status: 401 }
+      )
+    }
+
+    const memberships = await WorkspaceService.getMemberships(data.user.id)
+    const membership = workspaceId
+      ? memberships.find(candidate => candidate.workspace_id === workspaceId)
+      : memberships[0]
+
+    if (!membership) {
+      return NextResponse.json(
+        { error: 'Your account is not a member of any workspace' },
+        { status: 403 }
+      )
+    }
+
+    const token = await signSession({
+      userId: data.user.id,
+      email: data.user.email || email,
+      workspaceId: membership.workspace_id
+    })
+
+    const response = NextResponse.json({
+      success: true,
+      user: { id: data.user.id, email: data.user.email },
+      workspace: membership.workspace
+    })
+
+    response.cookies.set(SESSION_COOKIE, token, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/',
+      maxAge: SESSION_TTL_SECONDS
+    })
+
+    return response
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid login request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Login error:', error)
+    return NextResponse.json(
+      { error: 'Failed to sign in' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server'
+import { SESSION_COOKIE } from '@/lib/session'
+
+export const dynamic = 'force-dynamic'
+
+export async function POST() {
+  const response = NextResponse.json({ success: true })
+  response.cookies.set(SESSION_COOKIE, '', { path: '/', maxAge: 0 })
+  return response
+}
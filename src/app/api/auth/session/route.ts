@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { AuthError, getAuthContext, requireUser } from '@/lib/auth'
+import { WorkspaceService } from '@/lib/workspaces'
+import { SESSION_COOKIE, SESSION_TTL_SECONDS, signSession } from '@/lib/session'
+
+export const dynamic = 'force-dynamic'
+
+const SwitchWorkspaceSchema = z.object({
+  workspaceId: z.string().uuid()
+})
+
+// Who is signed in, the active workspace and the other workspaces they can switch to
+export async function GET(request: NextRequest) {
+  try {
+    const auth = getAuthContext(request)
+    const [workspace, memberships] = await Promise.all([
+      WorkspaceService.getWorkspace(auth.workspaceId),
+      auth.userId ? WorkspaceService.getMemberships(auth.userId) : Promise.resolve([])
+    ])
+
+    return NextResponse.json({
+      success: true,
+      method: auth.method,
+      user: auth.userId ? { id: auth.userId, email: auth.email } : null,
+      workspace: workspace ? { id: workspace.id, name: workspace.name, slug: workspace.slug } : { id: auth.workspaceId },
+      role: memberships.find(membership => membership.workspace_id === auth.workspaceId)?.role,
+      workspaces: memberships.map(membership => ({ ...membership.workspace, role: membership.role }))
+    })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Session fetch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch session' },
+      { status: 500 }
+    )
+  }
+}
+
+// Switch the active workspace; only to one the user belongs to
+export async function PATCH(request: NextRequest) {
+  try {
+    const auth = requireUser(request)
+    const { workspaceId } = SwitchWorkspaceSchema.parse(await request.json())
+
+    const membership = await WorkspaceService.getMembership(auth.userId, workspaceId)
+    if (!membership) {
+      return NextResponse.json(
+        { error: 'You are not a member of that workspace' },
+        { status: 403 }
+      )
+    }
+
+    const response = NextResponse.json({ success: true, workspace: membership.workspace })
+    response.cookies.set(SESSION_COOKIE, await signSession({
+      userId: auth.userId,
+      email: auth.email || '',
+      workspaceId
+    }), {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/',
+      maxAge: SESSION_TTL_SECONDS
+    })
+
+    return response
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid workspace', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Workspace switch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to switch workspace' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, requireUser } from '@/lib/auth'
+import { ApiTokenService } from '@/lib/api-tokens'
+import { WorkspaceService } from '@/lib/workspaces'
+
+export const dynamic = 'force-dynamic'
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = requireUser(request)
+
+    const membership = await WorkspaceService.getMembership(auth.userId, auth.workspaceId)
+    if (membership?.role !== 'owner' && membership?.role !== 'admin') {
+      throw new AuthError('Only workspace owners and admins can revoke API tokens', 403)
+    }
+
+    const revoked = await ApiTokenService.revokeToken(auth.workspaceId, params.id)
+    if (!revoked) {
+      return NextResponse.json(
+        { error: 'Token not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('API token revoke error:', error)
+    return NextResponse.json(
+      { error: 'Failed to revoke API token' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { AuthError, requireUser } from '@/lib/auth'
+import { ApiTokenService } from '@/lib/api-tokens'
+import { WorkspaceService } from '@/lib/workspaces'
+
+export const dynamic = 'force-dynamic'
+
+const CreateTokenSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100)
+})
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = requireUser(request)
+    const tokens = await ApiTokenService.listTokens(auth.workspaceId)
+
+    return NextResponse.json({ success: true, tokens })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('API token list error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch API tokens' },
+      { status: 500 }
+    )
+  }
+}
+
+// The plain token is only in this response
+export async function POST(request: NextRequest) {
+  try {
+    const auth = requireUser(request)
+    const { name } = CreateTokenSchema.parse(await request.json())
+
+    const membership = await WorkspaceService.getMembership(auth.userId, auth.workspaceId)
+    if (membership?.role !== 'owner' && membership?.role !== 'admin') {
+      throw new AuthError('Only workspace owners and admins can create API tokens', 403)
+    }
+
+    const { token, apiToken } = await ApiTokenService.createToken(auth.workspaceId, name, auth.userId)
+
+    return NextResponse.json({ success: true, token, apiToken }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid token request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('API token create error:', error)
+    return NextResponse.json(
+      { error: 'Failed to create API token' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getRepository } from '@/lib/storage'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { PublicationService } from '@/lib/publications'
+
+export const dynamic = 'force-dynamic'
+
+// null moves the post back to the unscheduled queue
+const RescheduleSchema = z.object({
+  scheduledDate: z.string().datetime().nullable()
+})
+
+// Posts the publisher has already picked up can't be moved
+const LOCKED_STATUSES = ['submitting', 'submitted', 'unknown', 'published']
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json()
+    const { scheduledDate } = RescheduleSchema.parse(body)
+
+    if (scheduledDate && new Date(scheduledDate) <= new Date()) {
+      return NextResponse.json(
+        { error: 'Posts can only be scheduled in the future' },
+        { status: 400 }
+      )
+    }
+
+    const contentPosts = await getRepository(getAuthContext(request).workspaceId, 'contentPosts')
+    const post = await contentPosts.get(params.id)
+
+    if (!post) {
+      return NextResponse.json(
+        { error: 'Post not found' },
+        { status: 404 }
+      )
+    }
+
+    const [publication] = await PublicationService.getPublications([params.id])
+    if (post.fields['Status'] === 'Published' || (publication && LOCKED_STATUSES.includes(publication.status))) {
+      return NextResponse.json(
+        { error: 'This post has already been published or is being published' },
+        { status: 409 }
+      )
+    }
+
+    // Every backend clears a field when it's set to null
+    const updated = await contentPosts.update(params.id, {
+      'Scheduled Date': scheduledDate as string | undefined
+    })
+
+    if (scheduledDate && publication) {
+      await PublicationService.resetForReschedule(params.id)
+    }
+
+    return NextResponse.json({ success: true, post: updated })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid schedule', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Calendar reschedule error:', error)
+    return NextResponse.json(
+      { error: 'Failed to reschedule post' },
+      { status: 500 }
+    )
+  }
+}
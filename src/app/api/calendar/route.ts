@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getRepository } from '@/lib/storage'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { PublicationService } from '@/lib/publications'
+
+export const dynamic = 'force-dynamic'
+
+const RangeSchema = z.object({
+  start: z.string().datetime(),
+  end: z.string().datetime()
+}).refine(range => new Date(range.start) < new Date(range.end), 'start must be before end')
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl
+    const { start, end } = RangeSchema.parse({
+      start: searchParams.get('start'),
+      end: searchParams.get('end')
+    })
+
+    const contentPosts = await getRepository(getAuthContext(request).workspaceId, 'contentPosts')
+    const [scheduled, unscheduled] = await Promise.all([
+      contentPosts.list({
+        filters: [
+          { field: 'Scheduled Date', op: 'gte', value: new Date(start).toISOString() },
+          { field: 'Scheduled Date', op: 'lt', value: new Date(end).toISOString() }
+        ],
+        sort: [{ field: 'Scheduled Date', direction: 'asc' }],
+        limit: 500
+      }),
+      contentPosts.list({
+        filters: [
+          { field: 'Status', op: 'eq', value: 'Approved' },
+          { field: 'Scheduled Date', op: 'empty' }
+        ],
+        sort: [{ field: 'Created', direction: 'desc' }]
+      })
+    ])
+
+    // Publication state tells the calendar which posts are already out (or going out) and locked
+    const publications = await PublicationService.getPublications(scheduled.map(post => post.id!))
+
+    return NextResponse.json({
+      success: true,
+      scheduled,
+      unscheduled,
+      publications: Object.fromEntries(publications.map(publication => [publication.airtable_post_id, publication]))
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid calendar range', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Calendar fetch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch calendar' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { PostingSlotService } from '@/lib/posting-slots'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  try {
+    const suggestions = await PostingSlotService.getSuggestions(getAuthContext(request).workspaceId)
+
+    return NextResponse.json({ success: true, ...suggestions })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Posting slot suggestion error:', error)
+    return NextResponse.json(
+      { error: 'Failed to compute posting slots' },
+      { status: 500 }
+    )
+  }
+}
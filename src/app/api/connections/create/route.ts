@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createConnection } from '@/lib/airtable-http'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { getRepository } from '@/lib/storage'
 
 export const runtime = 'nodejs'
 
@@ -24,7 +25,8 @@ export async function POST(req: NextRequest) {
 
     console.log(`Creating connection: Name="${name}", Username="${username}", LinkedIn URL="${linkedinUrl}"`)
 
-    const record = await createConnection({
+    const connections = await getRepository(getAuthContext(req).workspaceId, 'connections')
+    const record = await connections.create({
       'Full Name': name,
       'Username': username,
       // Don't set Profile Picture URL here - that should be the actual image URL, not LinkedIn profile URL
@@ -36,6 +38,10 @@ export async function POST(req: NextRequest) {
 
     return NextResponse.json(record, { status: 201 })
   } catch (error: any) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error('Create connection error:', error)
     return NextResponse.json({ error: error.message || 'Server error' }, { status: 500 })
   }
@@ -1,14 +1,20 @@
-import { NextResponse } from 'next/server'
-import { getConnections } from '@/lib/airtable-http'
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { getRepositories } from '@/lib/storage'
 
 export const dynamic = 'force-dynamic'
 export const runtime = 'nodejs'
 
-export async function GET() {
+// Connections from whichever backend the workspace keeps them in
+export async function GET(request: NextRequest) {
   try {
-    // Use the simplified Airtable client
-    const rows = await getConnections(200)
-    console.log(`Fetched ${rows.length} connections from Airtable`)
+    const { connections: repository } = await getRepositories(getAuthContext(request).workspaceId)
+
+    const rows = await repository.list({
+      sort: [{ field: 'Full Name', direction: 'asc' }],
+      limit: 200
+    })
+    console.log(`Fetched ${rows.length} connections from ${repository.backend}`)
     
     // map to front-end friendly shape with error handling for each record
     const connections = rows.map((r, index) => {
@@ -18,16 +24,18 @@ export async function GET() {
         const connectionCount = r.fields['Connection Count'] || 0
         const engagementScore = Math.min(100, Math.round((followerCount + connectionCount) / 100))
         
-        // Extract tags from headline or other fields
+        // Extract tags from profile flags
         const tags: string[] = []
         if (r.fields['Is Influencer'] === true) tags.push('Influencer')
         if (r.fields['Is Creator'] === true) tags.push('Creator')
         if (r.fields['Is Premium'] === true) tags.push('Premium')
         
-        const title = r.fields['Title'] // Fixed: was 'Current Company Title'
+        // Add decision maker tag based on title
+        const title = r.fields['Title']
         if (title && typeof title === 'string') {
           const lowerTitle = title.toLowerCase()
-          if (lowerTitle.includes('founder') || lowerTitle.includes('ceo')) {
+          if (lowerTitle.includes('founder') || lowerTitle.includes('ceo') ||
+              lowerTitle.includes('president') || lowerTitle.includes('owner')) {
             tags.push('Decision Maker')
           }
         }
@@ -35,17 +43,16 @@ export async function GET() {
         return {
           id: r.id || `connection-${index}`,
           name: r.fields['Full Name'] || 'Unknown',
-          role: r.fields['Title'] || '', // Fixed: was 'Current Company Title'
-          company: r.fields['Current Company'] || '', // Fixed: was 'Company Name'
+          role: r.fields['Title'] || '',
+          company: r.fields['Current Company'] || '',
           linkedinUrl: r.fields['Username'] ? `https://linkedin.com/in/${r.fields['Username']}` : '',
-          profilePictureUrl: r.fields['Profile Picture URL']?.[0]?.url || '', // Handle Airtable attachment
-          lastEngagement: 'Never', // This field doesn't exist in Airtable yet
+          profilePictureUrl: r.fields['Profile Picture URL']?.[0]?.url || '', // Attachment shape on every backend
           engagementScore,
           tags,
           notes: r.fields['Headline'] || '',
           startDate: r.fields['Start Date'] || '',
-          followerCount: r.fields['Follower Count'] || 0,
-          connectionCount: r.fields['Connection Count'] || 0,
+          followerCount,
+          connectionCount,
           companyLinkedinUrl: r.fields['Company LinkedIn URL'] || '',
           location: r.fields['Full Location'] || ''
         }
@@ -58,7 +65,7 @@ export async function GET() {
           role: '',
           company: '',
           linkedinUrl: '',
-          lastEngagement: 'Never',
+          profilePictureUrl: '',
           engagementScore: 0,
           tags: [],
           notes: 'Error loading record data',
@@ -74,6 +81,10 @@ export async function GET() {
     console.log(`Successfully mapped ${connections.length} connections`)
     return NextResponse.json(connections)
   } catch (error: any) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error('Error fetching connections - Full details:', {
       message: error.message,
       statusCode: error.statusCode,
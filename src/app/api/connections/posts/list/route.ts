@@ -1,11 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseLinkedIn, type DBConnectionPost } from '../../../../../lib/supabase-linkedin'
+import { AuthError, getAuthContext } from '../../../../../lib/auth'
 
 export const dynamic = 'force-dynamic'
 export const runtime = 'nodejs'
 
 export async function GET(request: NextRequest) {
   try {
+    const { workspaceId } = getAuthContext(request)
     const searchParams = request.nextUrl.searchParams
     const connectionId = searchParams.get('connectionId')
     const limit = parseInt(searchParams.get('limit') || '100')
@@ -29,10 +31,10 @@ export async function GET(request: NextRequest) {
     
     if (connectionId) {
       // Fetch posts for specific connection
-      connectionPosts = await supabaseLinkedIn.getConnectionPosts(connectionId)
+      connectionPosts = await supabaseLinkedIn.forWorkspace(workspaceId).getConnectionPosts(connectionId)
     } else {
       // Fetch all connection posts with pagination
-      connectionPosts = await fetchAllConnectionPosts(limit, offset)
+      connectionPosts = await fetchAllConnectionPosts(workspaceId, limit, offset)
     }
 
     // Transform to match ConnectionPost interface
@@ -61,6 +63,10 @@ export async function GET(request: NextRequest) {
     })
 
   } catch (error: any) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error('Error fetching connection posts:', {
       message: error.message,
       stack: error.stack?.split('\n').slice(0, 5)
@@ -88,7 +94,7 @@ export async function GET(request: NextRequest) {
 }
 
 // Helper function to fetch all connection posts with pagination using efficient JOIN
-async function fetchAllConnectionPosts(limit: number, offset: number): Promise<any[]> {
+async function fetchAllConnectionPosts(workspaceId: string, limit: number, offset: number): Promise<any[]> {
   if (!supabaseLinkedIn) return []
   
   try {
@@ -117,6 +123,7 @@ async function fetchAllConnectionPosts(limit: number, offset: number): Promise<a
           headline
         )
       `)
+      .eq('workspace_id', workspaceId)
       .order('posted_date', { ascending: false })
       .range(offset, offset + limit - 1)
 
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseLinkedIn } from '../../../../../lib/supabase-linkedin'
+import { AuthError, getAuthContext } from '../../../../../lib/auth'
 
 export const dynamic = 'force-dynamic'
 export const runtime = 'nodejs'
@@ -16,7 +17,7 @@ export async function GET(request: NextRequest) {
 
     console.log('🔍 Calculating connection posts statistics...')
 
-    const stats = await calculateConnectionPostsStats()
+    const stats = await calculateConnectionPostsStats(getAuthContext(request).workspaceId)
     
     console.log('✅ Connection posts statistics calculated:', stats)
 
@@ -26,6 +27,10 @@ export async function GET(request: NextRequest) {
     })
 
   } catch (error: any) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error('Error calculating connection posts stats:', {
       message: error.message,
       stack: error.stack?.split('\n').slice(0, 5)
@@ -50,7 +55,7 @@ export async function GET(request: NextRequest) {
 }
 
 // Calculate comprehensive statistics for connection posts
-async function calculateConnectionPostsStats() {
+async function calculateConnectionPostsStats(workspaceId: string) {
   const { createClient } = require('@supabase/supabase-js')
   const supabaseUrl = process.env.SUPABASE_URL
   const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
@@ -65,6 +70,7 @@ async function calculateConnectionPostsStats() {
   const { data: posts, error: postsError } = await supabase
     .from('connection_posts')
     .select('*')
+    .eq('workspace_id', workspaceId)
 
   if (postsError) {
     throw new Error(`Failed to fetch connection posts: ${postsError.message}`)
@@ -76,6 +82,7 @@ async function calculateConnectionPostsStats() {
   const { data: connections, error: connectionsError } = await supabase
     .from('linkedin_connections')
     .select('id, full_name, current_company')
+    .eq('workspace_id', workspaceId)
 
   if (connectionsError) {
     console.warn('Failed to fetch connections for stats:', connectionsError)
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { linkedInScraper, extractUsernameFromLinkedInUrl } from '../../../../../lib/linkedin-scraper'
 import { supabaseLinkedIn } from '../../../../../lib/supabase-linkedin'
+import { AuthError, getAuthContext } from '../../../../../lib/auth'
+import { PostSyncService } from '../../../../../lib/post-sync'
 
 export const dynamic = 'force-dynamic'
 export const runtime = 'nodejs'
@@ -39,8 +41,11 @@ export async function POST(request: NextRequest) {
       }, { status: 500 })
     }
 
+    const { workspaceId } = getAuthContext(request)
+    const linkedIn = supabaseLinkedIn.forWorkspace(workspaceId)
+
     // Fetch LinkedIn profile data
-    const profile = await linkedInScraper.getProfile(usernameToUse)
+    const profile = await linkedInScraper.getProfile(usernameToUse, { workspaceId })
     console.log(`✅ LinkedIn profile fetched successfully:`, {
       name: profile.data.basic_info.fullname,
       company: profile.data.basic_info.current_company,
@@ -59,23 +64,31 @@ export async function POST(request: NextRequest) {
     })
 
     let supabaseRecord = null
+    let postsQueued = false
     
     if (createRecord) {
       console.log(`💾 Creating Supabase connection record...`)
       
       try {
-        supabaseRecord = await supabaseLinkedIn.upsertConnection(connectionData)
+        supabaseRecord = await linkedIn.upsertConnection(connectionData)
         console.log(`🎉 Supabase connection created successfully:`, {
           id: supabaseRecord.id,
           username: supabaseRecord.username,
           fullName: supabaseRecord.full_name
         })
 
-        // After successful connection creation, fetch and save posts
+        // After successful connection creation, sync the connection's posts in the background
         if (supabaseRecord?.id) {
-          console.log(`🚀 Triggering posts fetch for connection: ${supabaseRecord.id}`)
-          await fetchAndSaveConnectionPosts(usernameToUse, supabaseRecord.id)
-          console.log(`✅ Posts fetch completed`)
+          try {
+            const queued = await PostSyncService.queueProfiles(workspaceId, [
+              { username: usernameToUse, kind: 'connection', connectionId: supabaseRecord.id }
+            ])
+            postsQueued = queued.queued.length > 0
+            console.log(`🚀 Posts sync for connection ${supabaseRecord.id}:`, postsQueued ? 'queued' : queued.failed)
+          } catch (queueError: any) {
+            // The connection is saved either way; its posts come in with the next scheduled sync
+            console.error(`⚠️ Failed to queue posts sync for ${usernameToUse}:`, queueError.message)
+          }
         }
       } catch (supabaseError: any) {
         console.error(`💥 Supabase creation failed:`, {
@@ -97,13 +110,17 @@ export async function POST(request: NextRequest) {
       mappedData: connectionData,
       supabaseRecord,
       profilePictureUrl: profile.data.basic_info.profile_picture_url,
-      postsEnabled: true,
-      postsMessage: 'Posts fetching completed for Supabase'
+      postsEnabled: postsQueued,
+      postsMessage: postsQueued ? 'Posts sync queued' : 'Posts sync not queued'
     }
 
     return NextResponse.json(response)
 
   } catch (error: any) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error('Error enriching LinkedIn profile:', {
       message: error.message,
       stack: error.stack,
@@ -221,66 +238,6 @@ function getMonthNumber(monthName: string): number {
   return months[monthName] || 1
 }
 
-// Helper function to fetch and save connection posts  
-async function fetchAndSaveConnectionPosts(username: string, connectionId: string): Promise<void> {
-  console.log(`🟢 Starting posts fetch for username: ${username}, connection: ${connectionId}`)
-  
-  try {
-    if (!supabaseLinkedIn) {
-      console.log(`⚠️ Supabase not available, skipping posts fetch`)
-      return
-    }
-
-    console.log(`📡 Fetching posts from LinkedIn API...`)
-    // Fetch posts from LinkedIn API (limit to 50 for connections)
-    const posts = await linkedInScraper.getAllPosts(username, 50)
-    console.log(`📊 LinkedIn API response: ${posts.length} posts fetched for ${username}`)
-
-    if (posts.length === 0) {
-      console.log(`ℹ️ No posts found for ${username}`)
-      return
-    }
-
-    // Log first post details for debugging
-    const firstPost = posts[0]
-    console.log(`🔍 First post sample:`, {
-      urn: firstPost?.urn,
-      textPreview: firstPost?.text?.substring(0, 100),
-      posted_at: firstPost?.posted_at,
-      engagement: {
-        likes: firstPost?.stats?.like,
-        comments: firstPost?.stats?.comments,
-        reposts: firstPost?.stats?.reposts
-      }
-    })
-
-    // Save posts to Supabase
-    console.log(`💾 Saving ${posts.length} posts to Supabase...`)
-    let savedCount = 0
-    
-    for (const post of posts) {
-      try {
-        await supabaseLinkedIn.upsertConnectionPost(connectionId, post)
-        savedCount++
-      } catch (postError: any) {
-        console.error(`Failed to save post ${post.urn}:`, postError.message)
-        // Continue with other posts
-      }
-    }
-    
-    console.log(`✅ Successfully saved ${savedCount}/${posts.length} connection posts`)
-
-  } catch (postsError: any) {
-    console.error(`💥 Failed to fetch/save posts for ${username}:`, {
-      errorMessage: postsError.message,
-      connectionId,
-      username
-    })
-    
-    console.log(`⚠️ Connection created successfully but posts fetching failed for ${username}`)
-  }
-}
-
 // GET endpoint for testing
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams
@@ -1,12 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
-import OpenAI from 'openai'
-import { createAirtableClient } from '@/lib/airtable'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { getRepositories, getRepository } from '@/lib/storage'
+import { createLLMProvider, LLMProviderError } from '@/lib/llm'
+import { UsageLedgerService } from '@/lib/usage-ledger'
+import { CommentReplyError, CommentReplyService, ReplyGenerationSchema } from '@/lib/comment-replies'
 
 const CommentGenerationSchema = z.object({
   postId: z.string(), // Airtable record ID for the influencer post
-  postContent: z.string().optional(), // If not provided, will fetch from Airtable
-  influencerName: z.string().optional(), // If not provided, will fetch from Airtable
+  postContent: z.string().optional(), // If not provided, will fetch from storage
+  influencerName: z.string().optional(), // If not provided, will fetch from storage
   commentStyle: z.enum(['professional', 'engaging', 'thoughtful', 'supportive']).optional().default('professional'),
   maxLength: z.number().min(20).max(500).optional().default(200),
   includeCall2Action: z.boolean().optional().default(false),
@@ -65,9 +68,41 @@ Focus on:
 Keep comments between 50-200 characters unless specifically requested otherwise.
 `
 
+// Reply mode: drafts replies to a comment on one of Andrew's own posts, keyed by the comment id
+async function generateReplies(workspaceId: string, body: unknown) {
+  const input = ReplyGenerationSchema.parse(body)
+  const { reply, context } = await CommentReplyService.generateReplies(workspaceId, input)
+
+  return NextResponse.json({
+    success: true,
+    mode: 'reply',
+    commentId: input.commentId,
+    replyId: reply.id,
+    comments: reply.variations.map((variation, index) => ({
+      ...variation,
+      style: input.commentStyle,
+      id: `reply_${reply.id}_${index}`
+    })),
+    context,
+    metadata: {
+      postPreview: context.postPreview,
+      generatedAt: reply.created_at,
+      voice: context.voiceProfile || 'andrew_tallents',
+      style: input.commentStyle
+    }
+  })
+}
+
 export async function POST(request: NextRequest) {
   try {
+    const { workspaceId } = getAuthContext(request)
     const body = await request.json()
+
+    if (body?.mode === 'reply') {
+      return await generateReplies(workspaceId, body)
+    }
+
+    const repositories = await getRepositories(workspaceId)
     const {
       postId,
       postContent: providedContent,
@@ -81,40 +116,31 @@ export async function POST(request: NextRequest) {
     let postContent = providedContent
     let influencerName = providedName
 
-    // If content not provided, fetch from Airtable
+    // If content not provided, fetch from storage
     if (!postContent || !influencerName) {
-      const airtable = createAirtableClient()
-      
       try {
-        const posts = await airtable.getInfluencerPosts({
-          filterByFormula: `RECORD_ID() = "${postId}"`,
-          maxRecords: 1
-        })
+        const post = await repositories.influencerPosts.get(postId)
 
-        if (posts.length === 0) {
+        if (!post) {
           return NextResponse.json(
             { error: 'Post not found' },
             { status: 404 }
           )
         }
 
-        const post = posts[0]
         postContent = post.fields['Content'] || ''
         
         // Get influencer name if we have the link
         if (post.fields['Influencer'] && post.fields['Influencer'].length > 0) {
-          const influencers = await airtable.getInfluencers({
-            filterByFormula: `RECORD_ID() = "${post.fields['Influencer'][0]}"`,
-            maxRecords: 1
-          })
+          const influencer = await repositories.influencers.get(post.fields['Influencer'][0])
           
-          if (influencers.length > 0) {
-            influencerName = influencers[0].fields['Full Name']
+          if (influencer) {
+            influencerName = influencer.fields['Full Name']
           }
         }
 
-      } catch (airtableError) {
-        console.error('Failed to fetch post from Airtable:', airtableError)
+      } catch (storageError) {
+        console.error('Failed to fetch post:', storageError)
         return NextResponse.json(
           { error: 'Failed to fetch post details' },
           { status: 500 }
@@ -129,10 +155,7 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Initialize OpenAI
-    const openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    })
+    const llm = createLLMProvider()
 
     // Prepare the prompt
     const basePrompt = andrew_voice ? ANDREW_VOICE_PROMPT : GENERIC_PROFESSIONAL_PROMPT
@@ -176,27 +199,26 @@ Return as JSON array with this structure:
 }`
 
     // Generate comments
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4',
+    const { data, completion } = await llm.completeJSON({
       messages: [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: userPrompt }
       ],
       temperature: 0.8, // Allow for creative variation
-      max_tokens: 1000,
+      maxTokens: 1000,
     })
 
-    const responseContent = completion.choices[0]?.message?.content
+    await UsageLedgerService.recordLLMUsage(completion, { route: '/api/content/comment', workspaceId })
+
+    const responseContent = completion.content
     if (!responseContent) {
-      throw new Error('No response from OpenAI')
+      throw new Error('No response from LLM provider')
     }
 
     // Parse the response
-    let commentData
-    try {
-      commentData = JSON.parse(responseContent)
-    } catch (parseError) {
-      console.error('Failed to parse OpenAI response:', responseContent)
+    let commentData = data
+    if (!commentData) {
+      console.error('Failed to parse LLM response:', responseContent)
       
       // Fallback: treat response as single comment
       commentData = {
@@ -217,18 +239,17 @@ Return as JSON array with this structure:
       style: commentStyle
     })) || []
 
-    // Save to Airtable if valid comments were generated
+    // Save if valid comments were generated
     if (comments.length > 0) {
       try {
-        const airtable = createAirtableClient()
-        await airtable.createGeneratedComment({
+        await repositories.generatedComments.create({
           'Post': [postId],
           'Comment Variations': JSON.stringify(comments),
           'Posted Status': false,
           'Created': new Date().toISOString(),
         })
-      } catch (airtableError) {
-        console.error('Failed to save comments to Airtable:', airtableError)
+      } catch (storageError) {
+        console.error('Failed to save comments:', storageError)
         // Continue anyway - comments were generated successfully
       }
     }
@@ -272,13 +293,17 @@ Return as JSON array with this structure:
         influencerName,
         postPreview: postContent.substring(0, 100) + '...',
         generatedAt: new Date().toISOString(),
-        model: 'gpt-4',
+        model: completion.model,
         voice: andrew_voice ? 'andrew_tallents' : 'professional',
         style: commentStyle
       }
     })
 
   } catch (error) {
+    if (error instanceof AuthError || error instanceof CommentReplyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error('Comment generation error:', error)
 
     if (error instanceof z.ZodError) {
@@ -288,7 +313,7 @@ Return as JSON array with this structure:
       )
     }
 
-    if (error instanceof OpenAI.APIError) {
+    if (error instanceof LLMProviderError) {
       return NextResponse.json(
         { error: 'AI service temporarily unavailable' },
         { status: 503 }
@@ -302,24 +327,30 @@ Return as JSON array with this structure:
   }
 }
 
-// GET method to retrieve generated comments for a post
+// GET method to retrieve generated comments for a post, or reply drafts for a comment
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
     const postId = searchParams.get('postId')
+    const commentId = searchParams.get('commentId')
+
+    if (commentId) {
+      const replies = await CommentReplyService.listReplies(getAuthContext(request).workspaceId, commentId)
+      return NextResponse.json({ success: true, commentId, replies })
+    }
 
     if (!postId) {
       return NextResponse.json(
-        { error: 'Post ID is required' },
+        { error: 'Post ID or comment ID is required' },
         { status: 400 }
       )
     }
 
-    const airtable = createAirtableClient()
-    const comments = await airtable.getGeneratedComments({
-      filterByFormula: `FIND("${postId}", ARRAYJOIN({Post}))`,
+    const generatedComments = await getRepository(getAuthContext(request).workspaceId, 'generatedComments')
+    const comments = await generatedComments.list({
+      filters: [{ field: 'Post', op: 'has', value: postId }],
       sort: [{ field: 'Created', direction: 'desc' }],
-      maxRecords: 10
+      limit: 10
     })
 
     const parsedComments = comments.map(comment => ({
@@ -338,6 +369,10 @@ export async function GET(request: NextRequest) {
     })
 
   } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error('Get comments error:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -1,22 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { SupabaseService, supabaseAdmin } from '../../../../lib/supabase'
 import { supabase } from '../../../../lib/supabase'
+import { AuthError, getAuthContext } from '../../../../lib/auth'
 
 export const dynamic = 'force-dynamic'
 
 export async function GET(request: NextRequest) {
   try {
+    const auth = getAuthContext(request)
     console.log('🔍 Debug: Inspecting database contents')
 
     // Get recent jobs
-    const recentJobs = await SupabaseService.getRecentJobs(10)
+    const recentJobs = await SupabaseService.getRecentJobs(10, auth.workspaceId)
     console.log('Recent jobs:', recentJobs.length)
 
     // Try to get drafts directly from content_drafts table using admin client
     const client = supabaseAdmin || supabase
     const { data: allDrafts, error: draftsError } = await client
       .from('content_drafts')
-      .select('*')
+      .select('*, content_jobs!inner(workspace_id)')
+      .eq('content_jobs.workspace_id', auth.workspaceId)
       .order('created_at', { ascending: false })
       .limit(10)
 
@@ -26,6 +29,7 @@ export async function GET(request: NextRequest) {
     const { data: jobsWithQueueId, error: queueIdError } = await client
       .from('content_jobs')
       .select('id, topic, status, queue_job_id, created_at')
+      .eq('workspace_id', auth.workspaceId)
       .order('created_at', { ascending: false })
       .limit(5)
 
@@ -70,6 +74,10 @@ export async function GET(request: NextRequest) {
     })
 
   } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error('Database debug error:', error)
     return NextResponse.json(
       { 
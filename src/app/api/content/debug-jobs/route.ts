@@ -1,11 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { QueueService } from '../../../../lib/queue'
 import { SupabaseService } from '../../../../lib/supabase'
+import { AuthError, getAuthContext } from '../../../../lib/auth'
 
 export const dynamic = 'force-dynamic'
 
 export async function GET(request: NextRequest) {
   try {
+    const auth = getAuthContext(request)
     console.log('🔍 Debug: Getting queue and database job information')
 
     // Get queue stats
@@ -13,7 +15,7 @@ export async function GET(request: NextRequest) {
     console.log('Queue stats:', queueStats)
 
     // Get recent database jobs
-    const recentJobs = await SupabaseService.getRecentJobs(5)
+    const recentJobs = await SupabaseService.getRecentJobs(5, auth.workspaceId)
     console.log('Recent database jobs:', recentJobs)
 
     // Test getting a specific job if provided
@@ -24,13 +26,13 @@ export async function GET(request: NextRequest) {
     if (testJobId) {
       console.log(`Testing job ID: ${testJobId}`)
       
-      // Test queue job status
-      const queueStatus = await QueueService.getJobStatus(testJobId)
-      console.log('Queue status:', queueStatus)
-      
       // Test database job
-      const dbResult = await SupabaseService.getJobWithDrafts(testJobId)
+      const dbResult = await SupabaseService.getJobWithDrafts(testJobId, auth.workspaceId)
       console.log('Database result:', dbResult)
+
+      // Test queue job status, only for the workspace's own jobs
+      const queueStatus = dbResult.job ? await QueueService.getJobStatus(testJobId) : null
+      console.log('Queue status:', queueStatus)
       
       jobTest = {
         jobId: testJobId,
@@ -60,6 +62,10 @@ export async function GET(request: NextRequest) {
     })
 
   } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error('Debug jobs error:', error)
     return NextResponse.json(
       { 
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { SupabaseService } from '@/lib/supabase'
+import { getRepository } from '@/lib/storage'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { IdeaBacklogService } from '@/lib/idea-backlog'
+import { ContentWorkflowService, WorkflowError } from '@/lib/content-workflow'
+
+export const dynamic = 'force-dynamic'
+
+// The signed-in member must be an approver and the draft must be in Review
+const ApproveDraftSchema = z.object({
+  scheduledDate: z.string().datetime().optional(),
+  // Unsupported claims block approval unless the reviewer has checked them by hand
+  acknowledgeUnsupportedClaims: z.boolean().optional().default(false)
+})
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = getAuthContext(request)
+    const body = await request.json().catch(() => ({}))
+    const { scheduledDate, acknowledgeUnsupportedClaims } = ApproveDraftSchema.parse(body)
+    const actor = await ContentWorkflowService.resolveActor(auth)
+
+    const draft = await SupabaseService.getDraft(params.id, auth.workspaceId)
+    if (!draft) {
+      return NextResponse.json(
+        { error: 'Draft not found' },
+        { status: 404 }
+      )
+    }
+
+    const unsupportedClaims = draft.metadata.fact_check?.claims.filter(claim => claim.status === 'unsupported') || []
+    if (unsupportedClaims.length > 0 && !acknowledgeUnsupportedClaims) {
+      return NextResponse.json(
+        {
+          error: `Draft has ${unsupportedClaims.length} claim${unsupportedClaims.length === 1 ? '' : 's'} not found in its research`,
+          unsupportedClaims
+        },
+        { status: 409 }
+      )
+    }
+
+    const ref = { backend: 'supabase' as const, id: draft.id, workspaceId: auth.workspaceId }
+    await ContentWorkflowService.assertCanTransition(ref, 'Approved', actor)
+
+    const contentPosts = await getRepository(auth.workspaceId, 'contentPosts')
+    const post = await contentPosts.create({
+      'Content': draft.content.body,
+      'Post Type': 'Thought Leadership',
+      'Status': 'Approved',
+      'Hashtags': draft.content.hashtags,
+      'Scheduled Date': scheduledDate,
+      'Created By': 'AI Assistant',
+      'Created': new Date().toISOString(),
+    })
+
+    await ContentWorkflowService.transition(ref, 'Approved', actor, { details: { airtable_post_id: post.id } })
+    await ContentWorkflowService.recordCreated({ backend: 'airtable', id: post.id!, workspaceId: auth.workspaceId }, 'Approved', actor, { draft_id: draft.id })
+
+    // The research ideas this draft didn't use go to the backlog instead of being lost with the job
+    const chosenIdea = draft.metadata.idea_number
+    let backlogIdeas: string[] = []
+    if (chosenIdea) {
+      try {
+        const ideas = await IdeaBacklogService.importResearchIdeas(
+          auth.workspaceId,
+          draft.job_id,
+          [1, 2, 3].filter(ideaNumber => ideaNumber !== chosenIdea)
+        )
+        backlogIdeas = ideas.map(idea => idea.id)
+      } catch (error) {
+        console.error('Failed to save unused research ideas to backlog:', error)
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      draftId: draft.id,
+      post,
+      backlogIdeas
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid approval request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof WorkflowError || error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Draft approval error:', error)
+    return NextResponse.json(
+      { error: 'Failed to approve draft' },
+      { status: 500 }
+    )
+  }
+}
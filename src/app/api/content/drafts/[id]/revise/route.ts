@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { QueueService } from '@/lib/queue'
+import { SupabaseService } from '@/lib/supabase'
+import { AuthError, getAuthContext } from '@/lib/auth'
+
+export const dynamic = 'force-dynamic'
+
+const ReviseDraftSchema = z.object({
+  feedback: z.string().trim().min(1, 'Feedback is required').max(2000)
+})
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = getAuthContext(request)
+    const body = await request.json()
+    const { feedback } = ReviseDraftSchema.parse(body)
+
+    const draft = await SupabaseService.getDraft(params.id, auth.workspaceId)
+    if (!draft) {
+      return NextResponse.json(
+        { error: 'Draft not found' },
+        { status: 404 }
+      )
+    }
+
+    const result = await QueueService.addDraftRevisionJob({
+      draftId: draft.id,
+      feedback,
+      userId: auth.userId,
+      workspaceId: auth.workspaceId
+    })
+
+    if (!result.success && 'budgetExceeded' in result) {
+      return NextResponse.json(
+        { error: result.error, budget: result.budget },
+        { status: 402 }
+      )
+    }
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Failed to queue draft revision', details: result.error },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      draftId: draft.id,
+      queueJobId: result.jobId
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid revision request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Draft revision error:', error)
+    return NextResponse.json(
+      { error: 'Failed to revise draft' },
+      { status: 500 }
+    )
+  }
+}
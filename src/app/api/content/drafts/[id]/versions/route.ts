@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SupabaseService } from '@/lib/supabase'
+import { AuthError, getAuthContext } from '@/lib/auth'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { workspaceId } = getAuthContext(request)
+    const versions = await SupabaseService.getDraftVersions(params.id, workspaceId)
+
+    if (versions.length === 0) {
+      return NextResponse.json(
+        { error: 'Draft not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true, versions })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Draft versions fetch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch draft versions' },
+      { status: 500 }
+    )
+  }
+}
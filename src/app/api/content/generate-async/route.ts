@@ -1,11 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { QueueService } from '../../../../lib/queue'
+import { QueueService, type JobData } from '../../../../lib/queue'
 import { SupabaseService } from '../../../../lib/supabase'
+import { IdeaBacklogService } from '../../../../lib/idea-backlog'
+import { AuthError, getAuthContext } from '../../../../lib/auth'
 
 export const dynamic = 'force-dynamic'
 
 export async function POST(request: NextRequest) {
   try {
+    const auth = getAuthContext(request)
     const body = await request.json()
     
     if (!body.topic) {
@@ -18,38 +21,87 @@ export async function POST(request: NextRequest) {
     const {
       topic,
       platform = 'linkedin',
+      platforms,
       voiceGuidelines,
       postType = 'Thought Leadership',
       tone = 'professional',
-      userId
+      userId,
+      voiceProfileId,
+      researchProviders,
+      sourceUrls,
+      rssFeeds,
+      ideaId
     } = body
 
-    // Validate platform
-    const validPlatforms = ['linkedin', 'twitter', 'facebook', 'instagram']
-    if (!validPlatforms.includes(platform)) {
+    // Validate platforms (platforms fans out one research run; platform alone keeps the old single-platform behaviour)
+    const validPlatforms: JobData['platform'][] = ['linkedin', 'twitter', 'facebook', 'instagram']
+    const requestedPlatforms: JobData['platform'][] = Array.isArray(platforms) && platforms.length > 0 ? platforms : [platform]
+    const invalidPlatform = requestedPlatforms.find(p => !validPlatforms.includes(p))
+    if (invalidPlatform) {
       return NextResponse.json(
         { error: 'Invalid platform. Must be one of: ' + validPlatforms.join(', ') },
         { status: 400 }
       )
     }
 
+    // Research providers can be combined; pasted URLs are read directly by the manual provider
+    const validResearchProviders: NonNullable<JobData['researchProviders']> = ['firecrawl', 'perplexity', 'rss', 'manual']
+    if (researchProviders !== undefined && (!Array.isArray(researchProviders) || researchProviders.some((p: string) => !validResearchProviders.includes(p as any)))) {
+      return NextResponse.json(
+        { error: 'Invalid research provider. Must be any of: ' + validResearchProviders.join(', ') },
+        { status: 400 }
+      )
+    }
+
+    const isHttpUrl = (value: unknown) => {
+      try {
+        return typeof value === 'string' && ['http:', 'https:'].includes(new URL(value).protocol)
+      } catch {
+        return false
+      }
+    }
+    for (const [field, urls] of [['sourceUrls', sourceUrls], ['rssFeeds', rssFeeds]] as const) {
+      if (urls !== undefined && (!Array.isArray(urls) || urls.length > 10 || !urls.every(isHttpUrl))) {
+        return NextResponse.json(
+          { error: `${field} must be a list of up to 10 http(s) URLs` },
+          { status: 400 }
+        )
+      }
+    }
+
     console.log('🚀 Creating async content generation job:', {
       topic: topic.substring(0, 50) + '...',
-      platform,
+      platforms: requestedPlatforms,
       postType,
-      hasVoiceGuidelines: !!voiceGuidelines
+      hasVoiceGuidelines: !!voiceGuidelines,
+      voiceProfileId,
+      researchProviders,
+      sourceUrlCount: sourceUrls?.length || 0
     })
 
     // Add job to queue
     const result = await QueueService.addContentGenerationJob({
       topic,
-      platform,
+      platform: requestedPlatforms[0],
+      platforms: requestedPlatforms,
       voiceGuidelines,
       postType,
       tone,
-      userId
+      userId: userId || auth.userId,
+      workspaceId: auth.workspaceId,
+      voiceGuideId: voiceProfileId,
+      researchProviders,
+      sourceUrls,
+      rssFeeds
     })
 
+    if (!result.success && 'budgetExceeded' in result) {
+      return NextResponse.json(
+        { error: result.error, budget: result.budget },
+        { status: 402 }
+      )
+    }
+
     if (!result.success) {
       console.error('Failed to add job to queue:', result.error)
       return NextResponse.json(
@@ -74,7 +126,7 @@ export async function POST(request: NextRequest) {
       console.log(`Attempt ${attempts}/${maxAttempts}: Looking for database job with queue_job_id=${result.jobId}`)
       
       try {
-        const jobData = await SupabaseService.getJobWithDrafts(result.jobId!)
+        const jobData = await SupabaseService.getJobWithDrafts(result.jobId!, auth.workspaceId)
         if (jobData.job) {
           dbJob = jobData.job
           console.log(`✅ Found database job on attempt ${attempts}:`, dbJob.id, 'queue_job_id:', (dbJob as any).queue_job_id)
@@ -98,6 +150,15 @@ export async function POST(request: NextRequest) {
       console.log('⚠️ Could not find database job after all attempts, using queue job ID only')
       console.log('💡 The job will still process, but frontend will rely on API polling to get results')
     }
+
+    // Generating from a backlog idea uses it up; a failure here shouldn't fail the job
+    if (ideaId) {
+      try {
+        await IdeaBacklogService.markUsed(auth.workspaceId, ideaId, dbJob?.id)
+      } catch (error) {
+        console.error('Failed to mark backlog idea used:', error)
+      }
+    }
     
     return NextResponse.json({
       success: true,
@@ -116,6 +177,10 @@ export async function POST(request: NextRequest) {
     })
 
   } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error('Content generation job creation error:', error)
     return NextResponse.json(
       { 
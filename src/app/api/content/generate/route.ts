@@ -1,19 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { OpenAI } from 'openai'
 import { createAirtableClient } from '@/lib/airtable'
-
-// Initialize OpenAI client only when needed to avoid build-time errors
-const createOpenAIClient = () => {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error('OPENAI_API_KEY environment variable is required')
-  }
-  return new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
-  })
-}
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { createLLMProvider } from '@/lib/llm'
+import { UsageLedgerService } from '@/lib/usage-ledger'
+import { VoiceProfileService, renderVoiceGuidelines } from '@/lib/voice-profiles'
 
 export async function POST(request: NextRequest) {
   try {
+    const { workspaceId } = getAuthContext(request)
     const body = await request.json()
     
     if (!body.topic) {
@@ -23,10 +17,37 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const { topic, postType = 'Thought Leadership', tone = 'professional', voiceGuidelines = '', platform = 'linkedin' } = body
+    const { topic, postType = 'Thought Leadership', tone = 'professional', voiceGuidelines = '', platform = 'linkedin', voiceProfileId } = body
+
+    // Resolve the stored voice profile (explicit id first, then the default profile)
+    let voiceProfile = null
+    try {
+      voiceProfile = voiceProfileId
+        ? await VoiceProfileService.getProfile(workspaceId, voiceProfileId)
+        : await VoiceProfileService.getDefaultProfile(workspaceId)
+    } catch (error) {
+      console.warn('Voice profile not available, using built-in guidelines:', error)
+    }
+
+    const resolvedGuidelines = [
+      voiceProfile ? renderVoiceGuidelines(voiceProfile) : '',
+      voiceGuidelines
+    ].filter(Boolean).join('\n\n')
 
-    // Andrew's authentic voice and post structure
-    const systemPrompt = `You are Andrew Tallents, an experienced CEO coach who helps successful leaders develop self-leadership. Write ${platform} posts in Andrew's authentic voice.
+    // A stored profile sets the persona, voice and audience; Andrew's voice and post structure are the fallback
+    const voicePrompt = voiceProfile
+      ? `You write ${platform} posts in the ${voiceProfile.name} voice.
+
+**CRITICAL INSTRUCTIONS:**
+- Write the post directly without any headers, sections, or template markers
+- Use natural paragraph breaks and spacing
+- Follow the tone rules, hooks, calls to action and banned phrases in the voice profile below
+
+${resolvedGuidelines}
+
+**Target Audience Context:**
+${voiceProfile.description?.trim() || `The readers the ${voiceProfile.name} voice profile and its example posts are written for.`}`
+      : `You are Andrew Tallents, an experienced CEO coach who helps successful leaders develop self-leadership. Write ${platform} posts in Andrew's authentic voice.
 
 **CRITICAL INSTRUCTIONS:**
 - Write the post directly without any headers, sections, or template markers
@@ -34,7 +55,7 @@ export async function POST(request: NextRequest) {
 - Make it feel like Andrew is speaking directly to the reader
 
 **Andrew's Voice Guidelines:**
-${voiceGuidelines ? voiceGuidelines : `- Conversational yet professional
+${resolvedGuidelines ? resolvedGuidelines : `- Conversational yet professional
 - Uses personal anecdotes and real client stories
 - Vulnerable and authentic about struggles
 - Direct and impactful
@@ -84,11 +105,13 @@ ${voiceGuidelines ? voiceGuidelines : `- Conversational yet professional
 - YES to rhetorical questions
 
 **Target Audience Context:**
-CEOs and Founders ($5M-$100M revenue) who are outwardly successful but privately struggling. They're burned out, disconnected from purpose, and know they're the bottleneck in their own success.
+CEOs and Founders ($5M-$100M revenue) who are outwardly successful but privately struggling. They're burned out, disconnected from purpose, and know they're the bottleneck in their own success.`
+
+    const systemPrompt = `${voicePrompt}
 
 **Topic to address:** ${topic}
 
-Write 3 variations, each taking a different angle or story approach. Make each feel like a genuine Andrew post - personal, insightful, and transformative.
+Write 3 variations, each taking a different angle or story approach. Make each feel like a genuine ${voiceProfile ? `${voiceProfile.name} post` : 'Andrew post - personal, insightful, and transformative'}.
 
 IMPORTANT: Return ONLY valid JSON without any markdown formatting or code blocks. Do not include \`\`\`json or any other text.
 
@@ -116,82 +139,54 @@ Use this exact structure:
   ]
 }`
 
-    const openai = createOpenAIClient()
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4-turbo-preview",
+    const llm = createLLMProvider()
+    const { data, completion } = await llm.completeJSON({
       messages: [
         { role: "system", content: systemPrompt },
         { role: "user", content: `Write LinkedIn posts about: ${topic}` }
       ],
       temperature: 0.7,
-      max_tokens: 1000,
+      maxTokens: 1000,
     })
 
-    const response = completion.choices[0]?.message?.content
+    await UsageLedgerService.recordLLMUsage(completion, { route: '/api/content/generate', userId: body.userId, workspaceId })
+
+    const response = completion.content
 
     if (!response) {
-      throw new Error('No response from OpenAI')
+      throw new Error('No response from LLM provider')
     }
 
-    let parsedResponse
+    let parsedResponse = data
     
-    // Clean up the response text for better JSON parsing
-    const cleanResponse = (text: string) => {
-      // Remove markdown code blocks
-      let cleaned = text.replace(/```json\n?/g, '').replace(/```\n?/g, '')
-      // Remove any leading/trailing whitespace
-      cleaned = cleaned.trim()
-      // Remove any extra text before the JSON
-      const jsonStart = cleaned.indexOf('{')
-      if (jsonStart > 0) {
-        cleaned = cleaned.substring(jsonStart)
-      }
-      // Remove any extra text after the JSON
-      const jsonEnd = cleaned.lastIndexOf('}')
-      if (jsonEnd > 0) {
-        cleaned = cleaned.substring(0, jsonEnd + 1)
-      }
-      return cleaned
-    }
-    
-    // Try to parse JSON with multiple attempts
-    try {
-      parsedResponse = JSON.parse(response)
-    } catch (parseError) {
-      console.log('First JSON parse failed, trying cleanup...')
-      try {
-        const cleanedResponse = cleanResponse(response)
-        parsedResponse = JSON.parse(cleanedResponse)
-      } catch (secondParseError) {
-        console.log('Second JSON parse failed, creating fallback...')
+    if (!parsedResponse) {
+      console.log('JSON parse failed, creating fallback...')
+      // Smart fallback: try to extract multiple posts from the response
+      const createFallbackVariations = (text: string) => {
+        // Try to split the response into multiple posts
+        const segments = text.split(/\n\n(?=\d+\.|Variation|Post)/i)
+        const variations = []
         
-        // Smart fallback: try to extract multiple posts from the response
-        const createFallbackVariations = (text: string) => {
-          // Try to split the response into multiple posts
-          const segments = text.split(/\n\n(?=\d+\.|Variation|Post)/i)
-          const variations = []
+        for (let i = 0; i < 3; i++) {
+          const segment = segments[i] || text
+          const cleanContent = segment
+            .replace(/^\d+\.\s*/, '') // Remove numbering
+            .replace(/^Variation \d+:?\s*/i, '') // Remove "Variation X:"
+            .replace(/^Post \d+:?\s*/i, '') // Remove "Post X:"
+            .trim()
           
-          for (let i = 0; i < 3; i++) {
-            const segment = segments[i] || text
-            const cleanContent = segment
-              .replace(/^\d+\.\s*/, '') // Remove numbering
-              .replace(/^Variation \d+:?\s*/i, '') // Remove "Variation X:"
-              .replace(/^Post \d+:?\s*/i, '') // Remove "Post X:"
-              .trim()
-            
-            variations.push({
-              content: cleanContent || `LinkedIn post about ${topic} (Variation ${i + 1})`,
-              hashtags: ['#leadership', '#coaching', '#growth'],
-              estimated_voice_score: Math.floor(Math.random() * 20) + 70 // Random score 70-90
-            })
-          }
-          
-          return variations
+          variations.push({
+            content: cleanContent || `LinkedIn post about ${topic} (Variation ${i + 1})`,
+            hashtags: ['#leadership', '#coaching', '#growth'],
+            estimated_voice_score: Math.floor(Math.random() * 20) + 70 // Random score 70-90
+          })
         }
         
-        parsedResponse = {
-          variations: createFallbackVariations(response)
-        }
+        return variations
+      }
+      
+      parsedResponse = {
+        variations: createFallbackVariations(response)
       }
     }
 
@@ -239,6 +234,10 @@ Use this exact structure:
     return NextResponse.json(validatedResponse)
 
   } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error('Content generation error:', error)
     return NextResponse.json(
       { error: 'Failed to generate content' },
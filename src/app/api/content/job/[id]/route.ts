@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { QueueService } from '../../../../../lib/queue'
 import { SupabaseService } from '../../../../../lib/supabase'
+import { AuthError, DEFAULT_WORKSPACE_ID, getAuthContext } from '../../../../../lib/auth'
 
 export const dynamic = 'force-dynamic'
 
@@ -9,6 +10,7 @@ export async function GET(
   { params }: { params: { id: string } }
 ) {
   try {
+    const auth = getAuthContext(request)
     const jobId = params.id
 
     if (!jobId) {
@@ -25,7 +27,7 @@ export async function GET(
     console.log('Queue status:', queueStatus ? 'found' : 'not found', queueStatus?.state)
     
     // Get database job with drafts (now searches by queue_job_id first)
-    const { job: dbJob, drafts } = await SupabaseService.getJobWithDrafts(jobId)
+    const { job: dbJob, drafts } = await SupabaseService.getJobWithDrafts(jobId, auth.workspaceId)
     console.log('Database job search result:')
     console.log('- Job found:', !!dbJob)
     console.log('- Job status:', dbJob?.status)
@@ -44,7 +46,7 @@ export async function GET(
       console.log('- No drafts found. Investigating...')
       
       // Additional debugging: try to find recent jobs to see what's in the database
-      const recentJobs = await SupabaseService.getRecentJobs(5)
+      const recentJobs = await SupabaseService.getRecentJobs(5, auth.workspaceId)
       console.log('- Recent jobs in database:', recentJobs.length)
       recentJobs.forEach((job, index) => {
         console.log(`  ${index + 1}. Job ${job.id}: ${job.status} - ${job.topic} (queue_id: ${(job as any).queue_job_id})`)
@@ -86,8 +88,8 @@ export async function GET(
       })
     }
 
-    // Fall back to queue status only
-    if (queueStatus) {
+    // Fall back to queue status only, for jobs queued by this workspace
+    if (queueStatus && (queueStatus.data?.workspaceId || DEFAULT_WORKSPACE_ID) === auth.workspaceId) {
       return NextResponse.json({
         success: true,
         job: {
@@ -123,6 +125,10 @@ export async function GET(
     )
 
   } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error('Error getting job status:', error)
     return NextResponse.json(
       { 
@@ -1,18 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { QueueService } from '../../../../lib/queue'
 import { SupabaseService } from '../../../../lib/supabase'
+import { AuthError, getAuthContext } from '../../../../lib/auth'
 
 export const dynamic = 'force-dynamic'
 
 export async function GET(request: NextRequest) {
   try {
+    const auth = getAuthContext(request)
     console.log('📈 Getting queue and database stats')
 
     // Get queue statistics
     const queueStats = await QueueService.getQueueStats()
     
     // Get recent jobs from database
-    const recentJobs = await SupabaseService.getRecentJobs(10)
+    const recentJobs = await SupabaseService.getRecentJobs(10, auth.workspaceId)
 
     // Calculate database stats
     const dbStats = {
@@ -40,6 +42,10 @@ export async function GET(request: NextRequest) {
     })
 
   } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error('Error getting queue stats:', error)
     return NextResponse.json(
       { 
@@ -1,11 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { QueueService } from '../../../../lib/queue'
 import { SupabaseService } from '../../../../lib/supabase'
+import { AuthError, getAuthContext } from '../../../../lib/auth'
 
 export const dynamic = 'force-dynamic'
 
 export async function POST(request: NextRequest) {
   try {
+    const auth = getAuthContext(request)
     console.log('🧪 Testing complete job creation and retrieval flow')
 
     // Step 1: Create a test job in the queue
@@ -14,7 +16,8 @@ export async function POST(request: NextRequest) {
       topic: 'Test async content generation flow',
       platform: 'linkedin',
       postType: 'Test',
-      tone: 'professional'
+      tone: 'professional',
+      workspaceId: auth.workspaceId
     })
 
     if (!result.success) {
@@ -46,13 +49,13 @@ export async function POST(request: NextRequest) {
 
     // Step 4: Try to find database job by queue job ID
     console.log('Step 4: Looking for database job by queue job ID...')
-    const { job: dbJob, drafts } = await SupabaseService.getJobWithDrafts(queueJobId)
+    const { job: dbJob, drafts } = await SupabaseService.getJobWithDrafts(queueJobId, auth.workspaceId)
     console.log('Database job found:', !!dbJob, dbJob?.status)
     console.log('Drafts found:', drafts.length)
 
     // Step 5: Get recent jobs to see what's in the database
     console.log('Step 5: Getting recent database jobs...')
-    const recentJobs = await SupabaseService.getRecentJobs(5)
+    const recentJobs = await SupabaseService.getRecentJobs(5, auth.workspaceId)
     console.log('Recent jobs count:', recentJobs.length)
 
     return NextResponse.json({
@@ -85,6 +88,10 @@ export async function POST(request: NextRequest) {
     })
 
   } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error('Test job flow error:', error)
     return NextResponse.json(
       { 
@@ -98,6 +105,7 @@ export async function POST(request: NextRequest) {
 
 export async function GET(request: NextRequest) {
   try {
+    const auth = getAuthContext(request)
     // Just get current state without creating new jobs
     console.log('🔍 Getting current job state...')
 
@@ -105,7 +113,7 @@ export async function GET(request: NextRequest) {
     const queueStats = await QueueService.getQueueStats()
     
     // Get recent database jobs
-    const recentJobs = await SupabaseService.getRecentJobs(10)
+    const recentJobs = await SupabaseService.getRecentJobs(10, auth.workspaceId)
 
     return NextResponse.json({
       success: true,
@@ -125,6 +133,10 @@ export async function GET(request: NextRequest) {
     })
 
   } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error('Get job state error:', error)
     return NextResponse.json(
       { 
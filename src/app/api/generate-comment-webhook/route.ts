@@ -1,11 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { getOptionalAuthContext } from '@/lib/auth'
+import { verifyWebhook, WebhookVerificationError } from '@/lib/webhook-verification'
 
 export const dynamic = 'force-dynamic'
 export const runtime = 'nodejs'
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json()
+    // The dashboard calls this with a session; automations must sign their deliveries
+    const auth = getOptionalAuthContext(request)
+    const body = auth && auth.method !== 'token'
+      ? await request.json()
+      : (await verifyWebhook(request, 'comment_generation')).body
     const { postContent, authorName, postUrl, postId } = body
 
     if (!postContent || !authorName) {
@@ -72,6 +78,10 @@ export async function POST(request: NextRequest) {
     })
 
   } catch (error: any) {
+    if (error instanceof WebhookVerificationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error('💥 Error in comment generation webhook:', error)
     
     return NextResponse.json({ 
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { ICPDefinitionError } from '@/lib/icp-definitions'
+import { CalibrationWeightsSchema, ICPCalibrationService } from '@/lib/icp-calibration'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+// Saves the weights as a new ICP definition version
+export async function POST(request: NextRequest) {
+  try {
+    const { workspaceId } = getAuthContext(request)
+    const { weights } = CalibrationWeightsSchema.parse(await request.json())
+
+    const current = await ICPCalibrationService.applyWeights(workspaceId, weights)
+
+    console.log(`🎯 Applied calibrated ICP weights as v${current.version}`)
+
+    return NextResponse.json({ success: true, current })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid weights', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AuthError || error instanceof ICPDefinitionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('ICP weight apply error:', error)
+    return NextResponse.json(
+      { error: 'Failed to apply weights' },
+      { status: 500 }
+    )
+  }
+}
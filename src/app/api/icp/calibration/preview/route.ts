@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { CalibrationWeightsSchema, ICPCalibrationService } from '@/lib/icp-calibration'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+// How recorded outcomes would score and categorize under the given weights; nothing is saved
+export async function POST(request: NextRequest) {
+  try {
+    const { workspaceId } = getAuthContext(request)
+    const { weights } = CalibrationWeightsSchema.parse(await request.json())
+
+    const preview = await ICPCalibrationService.previewWeights(workspaceId, weights)
+
+    return NextResponse.json({ success: true, preview })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid weights', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('ICP weight preview error:', error)
+    return NextResponse.json(
+      { error: 'Failed to preview weights' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { ICPCalibrationService } from '@/lib/icp-calibration'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+// Conversion by score band and by criterion for recorded outcomes, with suggested weights once there's enough data
+export async function GET(request: NextRequest) {
+  try {
+    const { workspaceId } = getAuthContext(request)
+
+    const report = await ICPCalibrationService.getReport(workspaceId)
+
+    return NextResponse.json({ success: true, report })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('ICP calibration report error:', error)
+    return NextResponse.json(
+      { error: 'Failed to build calibration report' },
+      { status: 500 }
+    )
+  }
+}
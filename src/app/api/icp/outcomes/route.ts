@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { ICPCalibrationError, ICPCalibrationService, RecordOutcomeSchema } from '@/lib/icp-calibration'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+const OutcomeQuerySchema = z.object({
+  subjectType: z.enum(['lead', 'connection']).optional(),
+  subjectId: z.string().min(1).optional()
+})
+
+// A subject's outcome history, or the latest outcome of every subject (optionally of one type)
+export async function GET(request: NextRequest) {
+  try {
+    const { workspaceId } = getAuthContext(request)
+    const { searchParams } = new URL(request.url)
+    const { subjectType, subjectId } = OutcomeQuerySchema.parse({
+      subjectType: searchParams.get('subjectType') || undefined,
+      subjectId: searchParams.get('subjectId') || undefined
+    })
+
+    const outcomes = subjectId
+      ? await ICPCalibrationService.listOutcomes(workspaceId, { subjectType, subjectId })
+      : await ICPCalibrationService.latestOutcomes(workspaceId, subjectType)
+
+    return NextResponse.json({ success: true, outcomes })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid query', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('ICP outcomes fetch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch outcomes' },
+      { status: 500 }
+    )
+  }
+}
+
+// Records what happened with a lead or connection, with their ICP score at this moment
+export async function POST(request: NextRequest) {
+  try {
+    const { workspaceId } = getAuthContext(request)
+    const input = RecordOutcomeSchema.parse(await request.json())
+
+    const outcome = await ICPCalibrationService.recordOutcome(workspaceId, input)
+
+    return NextResponse.json({ success: true, outcome })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid outcome', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AuthError || error instanceof ICPCalibrationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('ICP outcome record error:', error)
+    return NextResponse.json(
+      { error: 'Failed to record outcome' },
+      { status: 500 }
+    )
+  }
+}
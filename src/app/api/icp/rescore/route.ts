@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { ICPRescoreError, ICPRescoreService } from '@/lib/icp-rescore'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+// Rescores every commenter and lead in the workspace against the current ICP definition.
+// Returns once the run finishes; GET reports the latest run's progress meanwhile.
+export async function POST(request: NextRequest) {
+  try {
+    const { workspaceId } = getAuthContext(request)
+
+    const run = await ICPRescoreService.rescoreAll(workspaceId)
+
+    if (run.status === 'failed') {
+      return NextResponse.json(
+        { error: run.error, run },
+        { status: 500 }
+      )
+    }
+
+    console.log(`🎯 Rescored ${run.commenters_rescored} commenters and ${run.leads_rescored} leads against ICP v${run.icp_version}`)
+
+    return NextResponse.json({ success: true, run })
+  } catch (error) {
+    if (error instanceof AuthError || error instanceof ICPRescoreError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('ICP rescore error:', error)
+    return NextResponse.json(
+      { error: 'Failed to rescore' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { workspaceId } = getAuthContext(request)
+
+    const run = await ICPRescoreService.getLatestRun(workspaceId)
+
+    return NextResponse.json({ success: true, run })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('ICP rescore status error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch rescore status' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { ICPDefinitionError, ICPDefinitionInputSchema, ICPDefinitionService } from '@/lib/icp-definitions'
+
+export const dynamic = 'force-dynamic'
+
+// The workspace's current ICP definition and its recent versions
+export async function GET(request: NextRequest) {
+  try {
+    const { workspaceId } = getAuthContext(request)
+
+    const current = await ICPDefinitionService.getCurrent(workspaceId)
+    const versions = await ICPDefinitionService.listVersions(workspaceId)
+
+    return NextResponse.json({
+      success: true,
+      current,
+      versions: versions.map(({ definition, ...version }) => version)
+    })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('ICP definition fetch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch ICP definition' },
+      { status: 500 }
+    )
+  }
+}
+
+// Saves an edited definition as the next version; existing scores keep the version they were made with
+export async function PUT(request: NextRequest) {
+  try {
+    const { workspaceId } = getAuthContext(request)
+    const input = ICPDefinitionInputSchema.parse(await request.json())
+
+    const current = await ICPDefinitionService.saveVersion(workspaceId, input)
+
+    return NextResponse.json({ success: true, current })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid ICP definition', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AuthError || error instanceof ICPDefinitionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('ICP definition save error:', error)
+    return NextResponse.json(
+      { error: 'Failed to save ICP definition' },
+      { status: 500 }
+    )
+  }
+}
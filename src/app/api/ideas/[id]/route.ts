@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { IdeaBacklogService, IdeaInputSchema } from '@/lib/idea-backlog'
+
+export const dynamic = 'force-dynamic'
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { workspaceId } = getAuthContext(request)
+    const body = await request.json()
+    const input = IdeaInputSchema.partial().parse(body)
+
+    const idea = await IdeaBacklogService.updateIdea(workspaceId, params.id, input)
+
+    if (!idea) {
+      return NextResponse.json(
+        { error: 'Idea not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true, idea, warning: idea.overlap.warning })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid idea', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Idea update error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update idea' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await IdeaBacklogService.deleteIdea(getAuthContext(request).workspaceId, params.id)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Idea delete error:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete idea' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { IdeaBacklogService } from '@/lib/idea-backlog'
+
+export const dynamic = 'force-dynamic'
+
+const ImportIdeasSchema = z.discriminatedUnion('source', [
+  z.object({
+    source: z.literal('research'),
+    jobId: z.string().uuid(),
+    ideaNumbers: z.array(z.number().int().min(1).max(3)).min(1).optional()
+  }),
+  z.object({
+    source: z.literal('influencer_post'),
+    postId: z.string().regex(/^[A-Za-z0-9-]{1,64}$/, 'Invalid influencer post id') // A record id in the workspace's storage backend
+  })
+])
+
+export async function POST(request: NextRequest) {
+  try {
+    const { workspaceId } = getAuthContext(request)
+    const body = await request.json()
+    const input = ImportIdeasSchema.parse(body)
+
+    const ideas = input.source === 'research'
+      ? await IdeaBacklogService.importResearchIdeas(workspaceId, input.jobId, input.ideaNumbers)
+      : [await IdeaBacklogService.importInfluencerPost(workspaceId, input.postId)]
+
+    return NextResponse.json({ success: true, ideas }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid import request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Idea import error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to import ideas' },
+      { status: 500 }
+    )
+  }
+}
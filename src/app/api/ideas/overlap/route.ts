@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { IdeaBacklogService, IdeaInputSchema } from '@/lib/idea-backlog'
+
+export const dynamic = 'force-dynamic'
+
+// Check a topic before generating or saving it; nothing is written
+export async function POST(request: NextRequest) {
+  try {
+    const { workspaceId } = getAuthContext(request)
+    const body = await request.json()
+    const input = IdeaInputSchema.pick({ topic: true, angle: true, notes: true }).parse(body)
+    // The idea being generated from shouldn't be reported as its own duplicate
+    const ideaId = z.string().uuid().optional().parse(body.ideaId)
+
+    const overlap = await IdeaBacklogService.checkOverlap(workspaceId, input, ideaId)
+
+    return NextResponse.json({ success: true, overlap })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid topic', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Idea overlap check error:', error)
+    return NextResponse.json(
+      { error: 'Failed to check topic overlap' },
+      { status: 500 }
+    )
+  }
+}
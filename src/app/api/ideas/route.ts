@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { IdeaBacklogService, IdeaInputSchema } from '@/lib/idea-backlog'
+
+export const dynamic = 'force-dynamic'
+
+const StatusSchema = z.enum(['new', 'planned', 'used', 'dismissed']).optional()
+
+export async function GET(request: NextRequest) {
+  try {
+    const { workspaceId } = getAuthContext(request)
+    const status = StatusSchema.parse(request.nextUrl.searchParams.get('status') || undefined)
+    const ideas = await IdeaBacklogService.listIdeas(workspaceId, status)
+
+    return NextResponse.json({ success: true, ideas })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid status filter', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Idea backlog list error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch ideas' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { workspaceId } = getAuthContext(request)
+    const body = await request.json()
+    const input = IdeaInputSchema.parse(body)
+
+    const idea = await IdeaBacklogService.createIdea(workspaceId, input)
+
+    // The idea is saved either way; the warning tells the user it may repeat recent content
+    return NextResponse.json({ success: true, idea, warning: idea.overlap.warning }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid idea', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Idea create error:', error)
+    return NextResponse.json(
+      { error: 'Failed to create idea' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { IdeaBacklogService } from '@/lib/idea-backlog'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  try {
+    const coverage = await IdeaBacklogService.getThemeCoverage(getAuthContext(request).workspaceId)
+
+    return NextResponse.json({ success: true, ...coverage })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Idea theme coverage error:', error)
+    return NextResponse.json(
+      { error: 'Failed to build theme coverage' },
+      { status: 500 }
+    )
+  }
+}
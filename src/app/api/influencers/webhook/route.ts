@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
-import { createAirtableClient } from '@/lib/airtable'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { getRepositories, type Repositories } from '@/lib/storage'
+import type { Influencer } from '@/lib/airtable'
+import { verifyWebhook, WebhookVerificationError } from '@/lib/webhook-verification'
 
 // Webhook payload schema from automation platform for influencer posts
 const InfluencerWebhookSchema = z.object({
@@ -25,18 +28,9 @@ const InfluencerWebhookSchema = z.object({
 
 export async function POST(request: NextRequest) {
   try {
-    // Verify webhook authenticity
-    const webhookToken = process.env.INFLUENCER_AUTOMATION_TOKEN
-    const authHeader = request.headers.get('authorization')
-    
-    if (webhookToken && (!authHeader || authHeader !== `Bearer ${webhookToken}`)) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
-
-    const body = await request.json()
+    // Verify webhook authenticity: HMAC signature, timestamp and nonce; rejections are logged to webhook_events
+    const { body, event } = await verifyWebhook(request, 'influencers')
+    const workspaceId = event.workspace_id
     const payload = InfluencerWebhookSchema.parse(body)
 
     console.log('Received influencer posts webhook:', { 
@@ -56,7 +50,7 @@ export async function POST(request: NextRequest) {
       })
     }
 
-    const airtable = createAirtableClient()
+    const repositories = await getRepositories(workspaceId)
     let processedPosts = 0
     let skippedPosts = 0
     let newInfluencers = 0
@@ -65,7 +59,7 @@ export async function POST(request: NextRequest) {
     for (const influencerData of payload.influencers) {
       try {
         // Check if influencer exists, if not create them
-        let influencer = await findOrCreateInfluencer(airtable, influencerData)
+        let influencer = await findOrCreateInfluencer(repositories, influencerData)
         if (!influencer.existed) {
           newInfluencers++
         }
@@ -76,17 +70,16 @@ export async function POST(request: NextRequest) {
         for (const postData of influencerData.posts) {
           try {
             // Check if post already exists to avoid duplicates
-            const existingPosts = await airtable.getInfluencerPosts({
-              filterByFormula: `{LinkedIn Post ID} = "${postData.linkedinPostId}"`,
-              maxRecords: 1
-            })
+            const existingPosts = await repositories.influencerPosts.count([
+              { field: 'LinkedIn Post ID', op: 'eq', value: postData.linkedinPostId }
+            ])
 
-            if (existingPosts.length > 0) {
+            if (existingPosts > 0) {
               skippedPosts++
               continue
             }
 
-            // Prepare post data for Airtable
+            // Prepare post data for storage
             const postFields = {
               'Influencer': [influencer.id],
               'Content': postData.content,
@@ -107,15 +100,17 @@ export async function POST(request: NextRequest) {
           }
         }
 
-        // Batch create posts for this influencer if any new posts
+        // Create posts for this influencer if any new posts
         if (newPosts.length > 0) {
-          await airtable.batchCreateInfluencerPosts(newPosts)
+          for (const postFields of newPosts) {
+            await repositories.influencerPosts.create(postFields)
+          }
           console.log(`Created ${newPosts.length} posts for ${influencerData.name}`)
         }
 
         // Update influencer engagement count
         if (influencer.existed) {
-          await airtable.updateInfluencer(influencer.id, {
+          await repositories.influencers.update(influencer.id, {
             'Last Engaged': new Date().toISOString(),
             'Engagement Count': (influencer.fields['Engagement Count'] || 0) + newPosts.length
           })
@@ -148,6 +143,10 @@ export async function POST(request: NextRequest) {
     })
 
   } catch (error) {
+    if (error instanceof WebhookVerificationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error('Influencer webhook error:', error)
 
     if (error instanceof z.ZodError) {
@@ -165,24 +164,24 @@ export async function POST(request: NextRequest) {
 }
 
 // Helper function to find or create influencer
-async function findOrCreateInfluencer(airtable: any, influencerData: any): Promise<{ id: string, fields: any, existed: boolean }> {
+async function findOrCreateInfluencer(repositories: Repositories, influencerData: any): Promise<{ id: string, fields: Influencer['fields'], existed: boolean }> {
   try {
     // Try to find existing influencer by profile URL
-    const existing = await airtable.getInfluencers({
-      filterByFormula: `{Username} = "${influencerData.profileUrl}"`,
-      maxRecords: 1
+    const existing = await repositories.influencers.list({
+      filters: [{ field: 'Username', op: 'eq', value: influencerData.profileUrl }],
+      limit: 1
     })
 
     if (existing.length > 0) {
       return {
-        id: existing[0].id,
+        id: existing[0].id!,
         fields: existing[0].fields,
         existed: true
       }
     }
 
     // Create new influencer
-    const newInfluencer = await airtable.createInfluencer({
+    const newInfluencer = await repositories.influencers.create({
       'Full Name': influencerData.name,
       'Username': influencerData.profileUrl,
       'Priority Rank': 10, // Default priority
@@ -208,26 +207,23 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url)
     const influencerIds = searchParams.get('influencers')?.split(',') || []
     
-    // Get influencers from Airtable
-    const airtable = createAirtableClient()
-    let influencersToScrape = []
+    // Get influencers from storage
+    const { influencers } = await getRepositories(getAuthContext(request).workspaceId)
+    let influencersToScrape: Influencer[] = []
 
     if (influencerIds.length > 0) {
       // Specific influencers requested
       for (const id of influencerIds) {
-        const influencer = await airtable.getInfluencers({
-          filterByFormula: `RECORD_ID() = "${id}"`,
-          maxRecords: 1
-        })
-        if (influencer.length > 0) {
-          influencersToScrape.push(influencer[0])
+        const influencer = await influencers.get(id)
+        if (influencer) {
+          influencersToScrape.push(influencer)
         }
       }
     } else {
       // Get all influencers (or recent ones)
-      influencersToScrape = await airtable.getInfluencers({
+      influencersToScrape = await influencers.list({
         sort: [{ field: 'Priority Rank', direction: 'asc' }],
-        maxRecords: 50
+        limit: 50
       })
     }
 
@@ -297,6 +293,10 @@ export async function GET(request: NextRequest) {
     })
 
   } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error('Trigger influencer scraping error:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
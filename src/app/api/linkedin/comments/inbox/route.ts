@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { CommentInboxQuerySchema, CommentInboxSyncSchema, CommentThreadService } from '@/lib/comment-threads'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+// Comment threads on recent posts still waiting on a reply, highest-scoring commenter first
+export async function GET(request: NextRequest) {
+  try {
+    const { workspaceId } = getAuthContext(request)
+    const query = CommentInboxQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+
+    const inbox = await CommentThreadService.getInbox(workspaceId, query.days, query.limit)
+
+    return NextResponse.json({ success: true, ...inbox })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid inbox query', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Comment inbox error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch unanswered comments' },
+      { status: 500 }
+    )
+  }
+}
+
+// Re-syncs comments on recent posts whose comment count has moved since their last sync
+export async function POST(request: NextRequest) {
+  try {
+    const { workspaceId } = getAuthContext(request)
+    const body = CommentInboxSyncSchema.parse(await request.json().catch(() => ({})))
+
+    if (!process.env.RAPIDAPI_KEY) {
+      return NextResponse.json(
+        { error: 'Missing RapidAPI configuration' },
+        { status: 500 }
+      )
+    }
+
+    const budgetError = await CommentThreadService.checkBudget(workspaceId)
+    if (budgetError) {
+      return NextResponse.json(
+        { success: false, error: budgetError, budgetExceeded: true },
+        { status: 402 }
+      )
+    }
+
+    const result = await CommentThreadService.syncRecentPosts(workspaceId, body.days, body.maxPosts)
+
+    return NextResponse.json({ success: true, data: result })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid inbox sync request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Comment inbox sync error:', error)
+    return NextResponse.json(
+      { error: 'Failed to sync comments' },
+      { status: 500 }
+    )
+  }
+}
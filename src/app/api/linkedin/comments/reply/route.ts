@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { CommentReplyError, CommentReplyService, ReplySendSchema } from '@/lib/comment-replies'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+// Sends an approved reply draft (see /api/content/comment reply mode) to LinkedIn via Lindy
+export async function POST(request: NextRequest) {
+  try {
+    const { workspaceId } = getAuthContext(request)
+    const body = ReplySendSchema.parse(await request.json())
+
+    const reply = await CommentReplyService.sendReply(workspaceId, body.replyId, body.text)
+
+    if (reply.status === 'failed') {
+      return NextResponse.json(
+        { error: reply.error, reply },
+        { status: 500 }
+      )
+    }
+
+    // Lindy may have posted it; the reply can't be resent until someone has checked LinkedIn
+    if (reply.status === 'unknown') {
+      return NextResponse.json(
+        { error: `Lindy didn't confirm the reply (${reply.error}); check LinkedIn before replying again`, reply },
+        { status: 502 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      jobId: reply.lindy_job_id,
+      reply,
+      message: 'Reply sent to LinkedIn via Lindy'
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid reply', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AuthError || error instanceof CommentReplyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('LinkedIn comment reply error:', error)
+    return NextResponse.json(
+      { error: 'Failed to send reply' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createLindyClient } from '@/lib/lindy'
+import { PublicationService } from '@/lib/publications'
+import { ContentWorkflowService, WorkflowError } from '@/lib/content-workflow'
+import { AuthError, getAuthContext } from '@/lib/auth'
 
 export async function POST(request: NextRequest) {
   try {
+    const { workspaceId } = getAuthContext(request)
     const body = await request.json()
     
     // Validate required fields
@@ -16,6 +20,24 @@ export async function POST(request: NextRequest) {
     // Create Lindy client
     const lindyClient = createLindyClient()
 
+    // Only posts that made it through review can go out
+    const post = await ContentWorkflowService.getItem({ backend: 'airtable', id: body.postId, workspaceId })
+    if (post.status !== 'Approved') {
+      return NextResponse.json(
+        { error: `Only approved posts can be published (this post is ${post.status})` },
+        { status: 409 }
+      )
+    }
+
+    // Share the scheduler's publication ledger so a post can't go out twice
+    const publication = await PublicationService.claimForManualPublish(body.postId)
+    if (!publication) {
+      return NextResponse.json(
+        { error: 'This post has already been published or is being published' },
+        { status: 409 }
+      )
+    }
+
     // Trigger Lindy webhook to post to LinkedIn
     const result = await lindyClient.postToLinkedIn({
       content: body.content,
@@ -26,6 +48,11 @@ export async function POST(request: NextRequest) {
       postId: body.postId,
     })
 
+    await PublicationService.recordManualSubmission(publication.id, {
+      externalId: result.jobId,
+      error: result.error
+    })
+
     if (!result.success) {
       return NextResponse.json(
         { error: result.error },
@@ -40,6 +67,10 @@ export async function POST(request: NextRequest) {
     })
 
   } catch (error) {
+    if (error instanceof WorkflowError || error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error('LinkedIn post API error:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
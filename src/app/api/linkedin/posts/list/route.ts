@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseLinkedIn } from '@/lib/supabase-linkedin'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { PostSyncService } from '@/lib/post-sync'
 
 export const dynamic = 'force-dynamic'
 export const runtime = 'nodejs'
@@ -15,6 +17,8 @@ export async function GET(request: NextRequest) {
       }, { status: 500 })
     }
 
+    const linkedIn = supabaseLinkedIn.forWorkspace(getAuthContext(request).workspaceId)
+
     const searchParams = request.nextUrl.searchParams
     const username = searchParams.get('username') || 'andrewtallents'
     const maxRecords = parseInt(searchParams.get('maxRecords') || '50')
@@ -24,7 +28,7 @@ export async function GET(request: NextRequest) {
     console.log(`📡 Requesting posts for ${username}, limit: ${maxRecords}`)
 
     // Fetch posts from Supabase
-    const dbPosts = await supabaseLinkedIn.getPostsByUsername(username, maxRecords)
+    const dbPosts = await linkedIn.getPostsByUsername(username, maxRecords)
     
     console.log(`✅ Successfully fetched ${dbPosts.length} posts from Supabase`)
 
@@ -124,6 +128,10 @@ export async function GET(request: NextRequest) {
     })
 
   } catch (error: any) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error('Error fetching LinkedIn posts from Supabase:', error)
     return NextResponse.json({ 
       success: false,
@@ -133,82 +141,49 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// POST endpoint for triggering data sync
+// POST endpoint for triggering data sync; the sync itself runs in the worker (see /api/linkedin/posts/sync)
 export async function POST(request: NextRequest) {
   try {
-    if (!supabaseLinkedIn) {
-      return NextResponse.json({ 
+    const { workspaceId } = getAuthContext(request)
+    const body = await request.json().catch(() => ({}))
+    const profiles = await PostSyncService.getProfiles(workspaceId, 'own', body.username)
+    if (profiles.length === 0) {
+      return NextResponse.json({
         success: false,
-        error: 'Supabase LinkedIn service not available. Please check environment variables.' 
-      }, { status: 500 })
+        error: 'No LinkedIn profile set for this workspace'
+      }, { status: 400 })
     }
 
-    const body = await request.json().catch(() => ({}))
-    const username = body.username || 'andrewtallents'
-    
-    console.log(`🔄 Triggering sync for ${username}...`)
-    
-    // Trigger posts sync
-    const syncResponse = await fetch(`${request.nextUrl.origin}/api/linkedin/posts/sync`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ username, maxPages: 2 })
-    })
-    
-    if (!syncResponse.ok) {
-      throw new Error('Failed to sync posts')
-    }
-    
-    const syncData = await syncResponse.json()
-    
-    // After posts sync, trigger comments sync for new posts
-    let commentsResults = []
-    if (syncData.success && syncData.data.posts) {
-      const newPosts = syncData.data.posts.filter((p: any) => p.status === 'new').slice(0, 5) // Limit to 5 new posts
-      
-      for (const post of newPosts) {
-        try {
-          console.log(`🔄 Syncing comments for post: ${post.urn}`)
-          
-          const commentsResponse = await fetch(`${request.nextUrl.origin}/api/linkedin/comments/sync/${post.urn}`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' }
-          })
-          
-          if (commentsResponse.ok) {
-            const commentsData = await commentsResponse.json()
-            commentsResults.push({
-              postUrn: post.urn,
-              comments: commentsData.data?.summary?.totalComments || 0,
-              prospects: commentsData.data?.summary?.highValueProspects || 0
-            })
-          }
-          
-          // Add delay between requests
-          await new Promise(resolve => setTimeout(resolve, 2000))
-          
-        } catch (commentsError) {
-          console.warn(`Failed to sync comments for ${post.urn}:`, commentsError)
-        }
-      }
+    console.log(`🔄 Queueing sync for ${profiles[0].username}...`)
+
+    const result = await PostSyncService.queueProfiles(workspaceId, profiles)
+
+    if (result.queued.length === 0) {
+      return NextResponse.json({
+        success: false,
+        error: result.failed[0]?.error || 'Failed to queue sync',
+        budgetExceeded: result.budgetExceeded
+      }, { status: result.budgetExceeded ? 402 : 503 })
     }
-    
+
     return NextResponse.json({
       success: true,
-      message: 'Sync completed successfully',
+      message: 'Sync queued',
       data: {
-        postSync: syncData.data,
-        commentSync: commentsResults,
-        summary: {
-          postsProcessed: syncData.data?.summary?.totalFetched || 0,
-          newPosts: syncData.data?.summary?.newPosts || 0,
-          totalComments: commentsResults.reduce((sum, r) => sum + r.comments, 0),
-          totalProspects: commentsResults.reduce((sum, r) => sum + r.prospects, 0)
+        progress: result.queued,
+        // Comments for new posts can be synced once the posts are in
+        actions: {
+          syncProgress: `/api/linkedin/posts/sync`,
+          syncComments: `/api/linkedin/comments/sync/{post_urn}`
         }
       }
-    })
+    }, { status: 202 })
     
   } catch (error: any) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error('Error in sync operation:', error)
     return NextResponse.json({ 
       success: false,
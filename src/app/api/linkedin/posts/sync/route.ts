@@ -1,211 +1,59 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { supabaseLinkedIn, type LinkedInPost } from '@/lib/supabase-linkedin'
+import { z } from 'zod'
+import { supabaseLinkedIn } from '@/lib/supabase-linkedin'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { PostSyncRequestSchema, PostSyncService } from '@/lib/post-sync'
 
 export const dynamic = 'force-dynamic'
 export const runtime = 'nodejs'
 
-interface RapidAPIResponse {
-  success?: boolean
-  message?: string
-  data?: {
-    posts?: LinkedInPost[]
-    pagination_token?: string
-  }
-  posts?: LinkedInPost[] // Allow posts at root level
-  [key: string]: any // Allow any additional properties for flexibility
-}
-
+// Queues a background sync per profile; the worker pages through each feed from its saved cursor.
+// Poll GET for progress.
 export async function POST(request: NextRequest) {
   try {
-    console.log('🔄 Starting LinkedIn posts sync...')
-
-    // Check environment variables
-    if (!process.env.RAPIDAPI_KEY || !process.env.RAPIDAPI_HOST) {
-      return NextResponse.json({ 
-        error: 'Missing RapidAPI configuration' 
-      }, { status: 500 })
+    const { workspaceId } = getAuthContext(request)
+    const body = PostSyncRequestSchema.parse(await request.json().catch(() => ({})))
+
+    const profiles = await PostSyncService.getProfiles(workspaceId, body.scope, body.username)
+    const result = await PostSyncService.queueProfiles(workspaceId, profiles)
+
+    if (result.budgetExceeded) {
+      return NextResponse.json({
+        success: false,
+        error: result.failed[0]?.error || 'Budget cap reached',
+        budgetExceeded: true,
+        data: result
+      }, { status: 402 })
     }
 
-    if (!supabaseLinkedIn) {
-      return NextResponse.json({ 
-        error: 'Supabase LinkedIn service not available. Please check environment variables.' 
-      }, { status: 500 })
+    if (result.queued.length === 0 && result.failed.length > 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'Failed to queue LinkedIn posts sync',
+        data: result
+      }, { status: 503 })
     }
 
-    // Get request parameters
-    const body = await request.json().catch(() => ({}))
-    const username = body.username || 'andrewtallents'
-    const pageNumber = body.pageNumber || 1
-    const maxPages = body.maxPages || 3 // Limit to prevent API overuse
-
-    let allPosts: LinkedInPost[] = []
-    let currentPage = pageNumber
-    let hasMorePages = true
-    let processedPages = 0
-
-    while (hasMorePages && processedPages < maxPages) {
-      console.log(`📡 Fetching posts page ${currentPage} for ${username}...`)
-      
-      const rapidApiUrl = `https://${process.env.RAPIDAPI_HOST}/profile/posts?username=${username}&page_number=${currentPage}`
-      console.log(`🔗 Request URL: ${rapidApiUrl}`)
-      console.log(`🔑 Using host: ${process.env.RAPIDAPI_HOST}`)
-      
-      const response = await fetch(rapidApiUrl, {
-        method: 'GET',
-        headers: {
-          'x-rapidapi-host': process.env.RAPIDAPI_HOST,
-          'x-rapidapi-key': process.env.RAPIDAPI_KEY,
-          'Content-Type': 'application/json'
-        }
-      })
-
-      if (!response.ok) {
-        const errorText = await response.text()
-        console.error(`RapidAPI error on page ${currentPage}:`, response.status, errorText)
-        
-        if (response.status === 429) {
-          console.log(`⏸️ Rate limited on page ${currentPage}, stopping pagination but keeping existing posts`)
-          hasMorePages = false
-          break
-        }
-        
-        if (response.status === 502 || response.status === 503) {
-          console.log(`⚠️ API temporarily unavailable on page ${currentPage} (${response.status}), stopping pagination but keeping existing posts`)
-          hasMorePages = false
-          break
-        }
-        
-        // For other errors, stop pagination but don't fail the entire sync
-        console.log(`❌ Failed to fetch page ${currentPage}, stopping pagination but keeping existing posts`)
-        hasMorePages = false
-        break
-      }
-
-      let data: RapidAPIResponse
-      try {
-        data = await response.json()
-      } catch (parseError) {
-        console.error(`❌ Failed to parse JSON response on page ${currentPage}:`, parseError)
-        hasMorePages = false
-        break
-      }
-      
-      // Handle different response structures like the working standalone script
-      const posts = data.data?.posts || data.posts || (Array.isArray(data) ? data : [])
-      
-      // More flexible success checking
-      if (data.success === false) {
-        console.log(`⚠️ API returned success=false on page ${currentPage}: ${data.message || 'Unknown error'}`)
-        hasMorePages = false
-        break
-      }
-      console.log(`✅ Fetched ${posts.length} posts from page ${currentPage}`)
-      
-      // Validate that posts is actually an array
-      if (!Array.isArray(posts)) {
-        console.warn(`⚠️ Posts data is not an array on page ${currentPage}:`, typeof posts)
-        hasMorePages = false
-        break
-      }
-
-      if (posts.length === 0) {
-        console.log(`ℹ️ No posts found on page ${currentPage}, stopping pagination`)
-        hasMorePages = false
-        break
-      }
-
-      allPosts.push(...posts)
-      currentPage++
-      processedPages++
-
-      // Check pagination - simpler logic like the working script
-      // If we got fewer posts than expected or no pagination token, likely last page
-      if (posts.length < 10 || (!data.data?.pagination_token && processedPages >= 1)) {
-        console.log(`📄 Reached end of available posts (got ${posts.length} posts, no pagination token)`)
-        hasMorePages = false
-      }
-
-      // Add longer delay between requests to be respectful to API
-      if (hasMorePages && processedPages < maxPages) {
-        console.log(`⏳ Waiting 3 seconds before fetching page ${currentPage + 1}...`)
-        await new Promise(resolve => setTimeout(resolve, 3000))
-      }
-    }
+    console.log(`🔄 Queued LinkedIn posts sync for ${result.queued.length} profiles`)
 
-    console.log(`📊 Total posts fetched: ${allPosts.length} from ${processedPages} pages`)
-    
-    // If we have no posts at all, that's a real error
-    if (allPosts.length === 0) {
-      throw new Error('No posts were fetched from any page. Please check API credentials and try again.')
-    }
-
-    // Process and save posts to Supabase
-    const results = []
-    let newPosts = 0
-    let updatedPosts = 0
-    let errors = 0
-
-    for (const post of allPosts) {
-      try {
-        // Check if post already exists
-        const existingPost = await supabaseLinkedIn.getPostByUrn(post.urn)
-        const isNewPost = !existingPost
-
-        // Save/update post
-        const savedPost = await supabaseLinkedIn.upsertPost(post)
-        
-        results.push({
-          urn: post.urn,
-          status: isNewPost ? 'new' : 'updated',
-          posted_at: post.posted_at,
-          engagement: post.stats.total_reactions
-        })
-
-        if (isNewPost) {
-          newPosts++
-        } else {
-          updatedPosts++
-        }
+    return NextResponse.json({
+      success: true,
+      message: `Queued post sync for ${result.queued.length} profiles`,
+      data: result
+    }, { status: 202 })
 
-        console.log(`✅ ${isNewPost ? 'Saved new' : 'Updated'} post: ${post.urn}`)
-        
-      } catch (error: any) {
-        console.error(`❌ Error processing post ${post.urn}:`, error.message)
-        errors++
-        
-        results.push({
-          urn: post.urn,
-          status: 'error',
-          error: error.message
-        })
-      }
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid sync request', details: error.errors },
+        { status: 400 }
+      )
     }
 
-    const summary = {
-      totalFetched: allPosts.length,
-      newPosts,
-      updatedPosts,
-      errors,
-      pagesProcessed: processedPages
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
     }
 
-    console.log('📈 Sync Summary:', summary)
-
-    return NextResponse.json({
-      success: true,
-      message: `Successfully synced ${allPosts.length} posts`,
-      data: {
-        posts: results,
-        summary,
-        nextActions: [
-          'Sync comments for new posts',
-          'Research comment authors for ICP scoring',
-          'Update engagement metrics'
-        ]
-      }
-    })
-
-  } catch (error: any) {
     console.error('❌ LinkedIn posts sync failed:', error)
     
     return NextResponse.json({ 
@@ -217,7 +65,7 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// GET endpoint for checking sync status
+// GET endpoint for checking sync status and per-profile progress
 export async function GET(request: NextRequest) {
   try {
     if (!supabaseLinkedIn) {
@@ -226,10 +74,14 @@ export async function GET(request: NextRequest) {
       }, { status: 500 })
     }
 
+    const { workspaceId } = getAuthContext(request)
+    const linkedIn = supabaseLinkedIn.forWorkspace(workspaceId)
+
     const username = request.nextUrl.searchParams.get('username') || 'andrewtallents'
     
     // Get latest posts from database
-    const posts = await supabaseLinkedIn.getPostsByUsername(username, 10)
+    const posts = await linkedIn.getPostsByUsername(username, 10)
+    const progress = await PostSyncService.getProgress(workspaceId)
     
     const stats = {
       totalPosts: posts.length,
@@ -251,11 +103,16 @@ export async function GET(request: NextRequest) {
           posted_at: post.posted_at,
           total_reactions: post.total_reactions,
           comments_count: post.comments_count
-        }))
+        })),
+        progress
       }
     })
     
   } catch (error: any) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error('Error getting sync status:', error)
     
     return NextResponse.json({ 
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { LeadPipelineService, PipelineError } from '@/lib/lead-pipeline'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+// Leads and connections not on the board yet, filtered by ?q= on name, company and headline
+export async function GET(request: NextRequest) {
+  try {
+    const { workspaceId } = getAuthContext(request)
+    const { searchParams } = new URL(request.url)
+
+    const candidates = await LeadPipelineService.searchCandidates(workspaceId, searchParams.get('q') || '')
+
+    return NextResponse.json({ success: true, candidates })
+  } catch (error) {
+    if (error instanceof AuthError || error instanceof PipelineError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Pipeline candidate search error:', error)
+    return NextResponse.json(
+      { error: 'Failed to search candidates' },
+      { status: 500 }
+    )
+  }
+}
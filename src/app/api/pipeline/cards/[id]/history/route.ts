@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { LeadPipelineService, PipelineError } from '@/lib/lead-pipeline'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+// The card's stays in each stage, oldest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { workspaceId } = getAuthContext(request)
+
+    const visits = await LeadPipelineService.getHistory(workspaceId, params.id)
+
+    return NextResponse.json({ success: true, visits })
+  } catch (error) {
+    if (error instanceof AuthError || error instanceof PipelineError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Pipeline history fetch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch stage history' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { LeadPipelineService, MoveCardSchema, PipelineError } from '@/lib/lead-pipeline'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+// Drops a card into a stage (or reorders it within one); a stage change starts a new visit
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = getAuthContext(request)
+    const input = MoveCardSchema.parse(await request.json())
+
+    const card = await LeadPipelineService.moveCard(auth.workspaceId, params.id, input, auth.userId)
+
+    return NextResponse.json({ success: true, card })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid move', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AuthError || error instanceof PipelineError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Pipeline card move error:', error)
+    return NextResponse.json(
+      { error: 'Failed to move card' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { LeadPipelineService, PipelineError, UpdateCardSchema } from '@/lib/lead-pipeline'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+// Owner and next action; stage changes go through /move so they're recorded
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { workspaceId } = getAuthContext(request)
+    const input = UpdateCardSchema.parse(await request.json())
+
+    const card = await LeadPipelineService.updateCard(workspaceId, params.id, input)
+
+    return NextResponse.json({ success: true, card })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid card', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AuthError || error instanceof PipelineError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Pipeline card update error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update card' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { workspaceId } = getAuthContext(request)
+
+    await LeadPipelineService.removeCard(workspaceId, params.id)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof AuthError || error instanceof PipelineError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Pipeline card remove error:', error)
+    return NextResponse.json(
+      { error: 'Failed to remove card' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { AddCardSchema, LeadPipelineService, PipelineError } from '@/lib/lead-pipeline'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+// Puts a lead, connection or researched profile on the board
+export async function POST(request: NextRequest) {
+  try {
+    const auth = getAuthContext(request)
+    const input = AddCardSchema.parse(await request.json())
+
+    const card = await LeadPipelineService.addCard(auth.workspaceId, input, auth.userId)
+
+    return NextResponse.json({ success: true, card })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid card', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AuthError || error instanceof PipelineError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Pipeline card add error:', error)
+    return NextResponse.json(
+      { error: 'Failed to add to pipeline' },
+      { status: 500 }
+    )
+  }
+}
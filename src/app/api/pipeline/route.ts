@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { LeadPipelineService, PipelineError } from '@/lib/lead-pipeline'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+// Stages, cards and workspace members (for owner assignment) for the pipeline board
+export async function GET(request: NextRequest) {
+  try {
+    const { workspaceId } = getAuthContext(request)
+
+    const board = await LeadPipelineService.getBoard(workspaceId)
+
+    return NextResponse.json({ success: true, ...board })
+  } catch (error) {
+    if (error instanceof AuthError || error instanceof PipelineError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Pipeline fetch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch pipeline' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { LeadPipelineService, PipelineError, StageInputSchema } from '@/lib/lead-pipeline'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { workspaceId } = getAuthContext(request)
+    const { name } = StageInputSchema.parse(await request.json())
+
+    const stage = await LeadPipelineService.renameStage(workspaceId, params.id, name)
+
+    return NextResponse.json({ success: true, stage })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid stage', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AuthError || error instanceof PipelineError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Pipeline stage rename error:', error)
+    return NextResponse.json(
+      { error: 'Failed to rename stage' },
+      { status: 500 }
+    )
+  }
+}
+
+// Empty stages only; cards have to be moved out first
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { workspaceId } = getAuthContext(request)
+
+    await LeadPipelineService.deleteStage(workspaceId, params.id)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof AuthError || error instanceof PipelineError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Pipeline stage delete error:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete stage' },
+      { status: 500 }
+    )
+  }
+}
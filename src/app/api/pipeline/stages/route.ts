@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { LeadPipelineService, PipelineError, StageInputSchema, StageOrderSchema } from '@/lib/lead-pipeline'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+// Adds a stage at the end of the pipeline
+export async function POST(request: NextRequest) {
+  try {
+    const { workspaceId } = getAuthContext(request)
+    const { name } = StageInputSchema.parse(await request.json())
+
+    const stage = await LeadPipelineService.createStage(workspaceId, name)
+
+    return NextResponse.json({ success: true, stage })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid stage', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AuthError || error instanceof PipelineError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Pipeline stage create error:', error)
+    return NextResponse.json(
+      { error: 'Failed to create stage' },
+      { status: 500 }
+    )
+  }
+}
+
+// Reorders the columns; stageIds lists every stage in the new order
+export async function PUT(request: NextRequest) {
+  try {
+    const { workspaceId } = getAuthContext(request)
+    const { stageIds } = StageOrderSchema.parse(await request.json())
+
+    const stages = await LeadPipelineService.reorderStages(workspaceId, stageIds)
+
+    return NextResponse.json({ success: true, stages })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid stage order', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AuthError || error instanceof PipelineError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Pipeline stage reorder error:', error)
+    return NextResponse.json(
+      { error: 'Failed to reorder stages' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { linkedInScraper, extractUsernameFromLinkedInUrl } from '../../../../lib/linkedin-scraper'
-import { icpScorer, ProspectProfile } from '../../../../lib/icp-scorer'
+import { ICPScorer, ProspectProfile } from '../../../../lib/icp-scorer'
+import { ICPDefinitionService } from '../../../../lib/icp-definitions'
+import { AuthError, getAuthContext } from '../../../../lib/auth'
 
 export const dynamic = 'force-dynamic'
 export const runtime = 'nodejs'
@@ -8,6 +10,7 @@ export const runtime = 'nodejs'
 export async function POST(request: NextRequest) {
   try {
     console.log('🔍 Researching LinkedIn commenter...')
+    const { workspaceId } = getAuthContext(request)
 
     // Check required environment variables
     if (!process.env.RAPIDAPI_KEY) {
@@ -39,17 +42,18 @@ export async function POST(request: NextRequest) {
     // For now, fetch fresh data each time
 
     // Fetch LinkedIn profile data
-    const profileData = await linkedInScraper.getProfile(username)
+    const profileData = await linkedInScraper.getProfile(username, { workspaceId })
     
     if (!profileData.success) {
       throw new Error(profileData.message || 'Failed to fetch LinkedIn profile')
     }
 
-    // Score the profile using ICP criteria
+    // Score the profile against the workspace's ICP definition
+    const icpScorer = new ICPScorer(await ICPDefinitionService.getEngine(workspaceId))
     const prospectProfile: ProspectProfile = icpScorer.createProspectProfile(profileData, profileUrl)
     
     console.log(`✅ Research completed for ${prospectProfile.name}`)
-    console.log(`📊 ICP Score: ${prospectProfile.icpScore.totalScore} (${prospectProfile.icpScore.category})`)
+    console.log(`📊 ICP Score: ${prospectProfile.icpScore.totalScore} (${prospectProfile.icpScore.category}, ICP v${prospectProfile.icpScore.icpVersion})`)
 
     // TODO: Cache the result in Airtable "Researched Prospects" table
     // This would help avoid duplicate API calls and provide research history
@@ -65,6 +69,10 @@ export async function POST(request: NextRequest) {
     })
 
   } catch (error: any) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error('Error researching commenter:', error)
     
     // Handle specific LinkedIn API errors
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { ResearchJobError, ResearchJobService } from '@/lib/research-jobs'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+// Sends a failed, partial or timed out job again
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { workspaceId } = getAuthContext(request)
+
+    const job = await ResearchJobService.retryJob(workspaceId, params.id)
+
+    return NextResponse.json({ success: true, job })
+  } catch (error) {
+    if (error instanceof AuthError || error instanceof ResearchJobError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Research job retry error:', error)
+    return NextResponse.json(
+      { error: 'Failed to retry research job' },
+      { status: 500 }
+    )
+  }
+}
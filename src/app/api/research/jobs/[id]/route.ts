@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { getRepository } from '@/lib/storage'
+import { ResearchJobError, ResearchJobService } from '@/lib/research-jobs'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+// Polled by the research sheet: the job's state (with any due retry or timeout applied) and, once done, its lead
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { workspaceId } = getAuthContext(request)
+
+    const job = await ResearchJobService.getJob(workspaceId, params.id)
+
+    const finished = job.status === 'completed' || job.status === 'partial'
+    const lead = finished && job.lead_id
+      ? await (await getRepository(workspaceId, 'leads')).get(job.lead_id)
+      : null
+
+    return NextResponse.json({ success: true, job, lead })
+  } catch (error) {
+    if (error instanceof AuthError || error instanceof ResearchJobError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Research job fetch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch research job' },
+      { status: 500 }
+    )
+  }
+}
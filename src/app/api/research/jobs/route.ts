@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { ResearchJobService, type ResearchJobStatus } from '@/lib/research-jobs'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+// Recent research jobs, optionally for one lead (?leadId=) or in one state (?status=)
+export async function GET(request: NextRequest) {
+  try {
+    const { workspaceId } = getAuthContext(request)
+    const { searchParams } = new URL(request.url)
+
+    const jobs = await ResearchJobService.listJobs(workspaceId, {
+      leadId: searchParams.get('leadId') || undefined,
+      status: (searchParams.get('status') as ResearchJobStatus) || undefined,
+      limit: parseInt(searchParams.get('limit') || '50')
+    })
+
+    return NextResponse.json({ success: true, jobs })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Research jobs fetch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch research jobs' },
+      { status: 500 }
+    )
+  }
+}
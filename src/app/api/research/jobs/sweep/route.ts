@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { ResearchJobService } from '@/lib/research-jobs'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+// Resends due retries and times out jobs that never called back. Jobs are also checked whenever they're polled,
+// so this only matters for jobs nobody is watching; call it on a schedule with a workspace API token.
+export async function POST(request: NextRequest) {
+  try {
+    const { workspaceId } = getAuthContext(request)
+
+    const result = await ResearchJobService.sweep(workspaceId)
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Research job sweep error:', error)
+    return NextResponse.json(
+      { error: 'Failed to sweep research jobs' },
+      { status: 500 }
+    )
+  }
+}
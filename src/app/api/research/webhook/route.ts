@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
-import { createAirtableClient } from '@/lib/airtable'
-import { ResearchDataSchema, createLeadScoringEngine } from '@/lib/lead-scoring'
+import { ICPDefinitionService } from '@/lib/icp-definitions'
+import { createLeadScoringEngine, leadStatusFor } from '@/lib/lead-scoring'
+import { ResearchJobError, ResearchJobService } from '@/lib/research-jobs'
+import { verifyWebhook, WebhookVerificationError } from '@/lib/webhook-verification'
 
 // Webhook payload schema from automation platform
 const WebhookPayloadSchema = z.object({
@@ -62,49 +64,54 @@ const WebhookPayloadSchema = z.object({
 
 export async function POST(request: NextRequest) {
   try {
-    // Verify webhook authenticity
-    const webhookToken = process.env.RESEARCH_AUTOMATION_TOKEN
-    const authHeader = request.headers.get('authorization')
-    
-    if (webhookToken && (!authHeader || authHeader !== `Bearer ${webhookToken}`)) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
-
-    const body = await request.json()
+    // Verify webhook authenticity: HMAC signature, timestamp and nonce; rejections are logged to webhook_events
+    const { body } = await verifyWebhook(request, 'research')
     const payload = WebhookPayloadSchema.parse(body)
 
+    // Jobs are dispatched from any workspace; the callback lands in the one that owns the job
+    const { workspace_id: workspaceId } = await ResearchJobService.getCallbackJob(payload.jobId)
+
     console.log('Received research webhook:', { jobId: payload.jobId, status: payload.status })
 
     // Handle failed research
     if (payload.status === 'failed') {
       console.error('Research failed:', { jobId: payload.jobId, error: payload.error })
-      
-      // You could store failed attempts in Airtable for tracking
+
+      const { job } = await ResearchJobService.completeJob(workspaceId, payload.jobId, {
+        status: 'failed',
+        error: payload.error || 'Research automation reported a failure',
+        payload: body
+      })
+
       return NextResponse.json({
         success: true,
+        jobId: job.id,
         message: 'Failed research recorded'
       })
     }
 
     // Combine research data from all sources
-    const researchData = combineResearchData(payload.data)
+    const researchData = combineResearchData(payload.data, payload.profileUrl)
     
     if (!researchData) {
       console.error('No valid research data received')
+      await ResearchJobService.completeJob(workspaceId, payload.jobId, {
+        status: 'failed',
+        error: 'No valid research data received',
+        payload: body
+      })
+
       return NextResponse.json(
         { error: 'No valid research data received' },
         { status: 400 }
       )
     }
 
-    // Calculate ICP score
-    const scoringEngine = createLeadScoringEngine()
+    // Calculate ICP score against the workspace's current ICP definition
+    const scoringEngine = createLeadScoringEngine(await ICPDefinitionService.getEngine(workspaceId))
     const scoreResult = scoringEngine.calculateICPScore(researchData)
 
-    // Prepare lead data for Airtable
+    // Prepare lead data for storage
     const leadFields = {
       'Name': researchData.profile.name,
       'Profile URL': researchData.profile.profileUrl,
@@ -113,37 +120,55 @@ export async function POST(request: NextRequest) {
       'Company Size': mapCompanySize(researchData.companyInfo?.size),
       'Tenure Months': researchData.currentRole?.tenure || 0,
       'ICP Score': scoreResult.totalScore,
+      'ICP Version': scoreResult.icpVersion,
       'Score Breakdown': JSON.stringify(scoreResult.breakdown),
       'Tags': scoreResult.tags,
       'Notes': generateLeadNotes(researchData, scoreResult),
-      'Status': mapScoreToStatus(scoreResult.totalScore) as 'New' | 'Qualified' | 'Engaged' | 'Not ICP',
+      'Status': leadStatusFor(scoreResult.recommendation),
       'Research Data': JSON.stringify(researchData),
       'Created': new Date().toISOString(),
     }
 
-    // Save to Airtable
-    const airtable = createAirtableClient()
-    const lead = await airtable.createLead(leadFields)
+    // Save onto the job's lead (the one research was requested for, or a match by profile URL, or a new one)
+    const { job, leadId, duplicate } = await ResearchJobService.completeJob(workspaceId, payload.jobId, {
+      status: payload.status,
+      error: payload.error,
+      payload: body,
+      lead: {
+        fields: leadFields,
+        score: scoreResult.totalScore,
+        recommendation: scoreResult.recommendation
+      }
+    })
 
-    console.log('Lead created successfully:', { 
-      id: lead.id, 
+    console.log(duplicate ? 'Duplicate research callback ignored:' : 'Lead saved from research:', {
+      id: leadId,
+      jobId: job.id,
       name: leadFields.Name, 
       score: scoreResult.totalScore,
-      recommendation: scoreResult.recommendation
+      recommendation: scoreResult.recommendation,
+      icpVersion: scoreResult.icpVersion
     })
 
     // Return success response
     return NextResponse.json({
       success: true,
-      leadId: lead.id,
-      jobId: payload.jobId,
+      leadId,
+      jobId: job.id,
+      jobStatus: job.status,
+      duplicate,
       score: scoreResult.totalScore,
       recommendation: scoreResult.recommendation,
       tags: scoreResult.tags,
+      icpVersion: scoreResult.icpVersion,
       message: `Lead research completed. Score: ${scoreResult.totalScore}/100 (${scoreResult.recommendation})`
     })
 
   } catch (error) {
+    if (error instanceof ResearchJobError || error instanceof WebhookVerificationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error('Research webhook error:', error)
 
     if (error instanceof z.ZodError) {
@@ -161,7 +186,7 @@ export async function POST(request: NextRequest) {
 }
 
 // Combine data from different sources into unified format
-function combineResearchData(data: any): any {
+function combineResearchData(data: any, profileUrl: string): any {
   const firecrawl = data.firecrawl
   const perplexity = data.perplexity
   const linkedinSearch = data.linkedinSearch
@@ -173,7 +198,7 @@ function combineResearchData(data: any): any {
   return {
     profile: {
       name: firecrawl.profile.name,
-      profileUrl: firecrawl.profile.profileUrl || '',
+      profileUrl: firecrawl.profile.profileUrl || profileUrl,
       headline: firecrawl.profile.headline,
       location: firecrawl.profile.location,
       summary: firecrawl.profile.summary,
@@ -199,14 +224,6 @@ function mapCompanySize(size?: string): '1-50' | '51-200' | '201-500' | '501-100
   return '1000+'
 }
 
-// Map ICP score to lead status
-function mapScoreToStatus(score: number): string {
-  if (score >= 80) return 'Qualified'
-  if (score >= 60) return 'New'
-  if (score >= 40) return 'New'
-  return 'Not ICP'
-}
-
 // Generate lead notes based on research data and scoring
 function generateLeadNotes(data: any, scoreResult: any): string {
   const notes = []
@@ -244,16 +261,3 @@ function generateLeadNotes(data: any, scoreResult: any): string {
   
   return notes.join('\n')
 }
-
-// Verify webhook signature (if using signed webhooks)
-function verifyWebhookSignature(payload: string, signature: string, secret: string): boolean {
-  // Implementation depends on your automation platform
-  // Example for GitHub-style webhooks:
-  // const crypto = require('crypto')
-  // const expectedSignature = crypto
-  //   .createHmac('sha256', secret)
-  //   .update(payload)
-  //   .digest('hex')
-  // return `sha256=${expectedSignature}` === signature
-  return true // Simplified for now
-}
\ No newline at end of file
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { ContentWorkflowService, WorkflowError } from '@/lib/content-workflow'
+import { ReviewCommentService } from '@/lib/review-comments'
+
+export const dynamic = 'force-dynamic'
+
+const ResolveCommentSchema = z.object({
+  resolved: z.boolean()
+})
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = getAuthContext(request)
+    const { resolved } = ResolveCommentSchema.parse(await request.json())
+    const actor = await ContentWorkflowService.resolveActor(auth)
+
+    const comment = await ReviewCommentService.setResolved(auth.workspaceId, params.id, resolved, actor)
+
+    return NextResponse.json({ success: true, comment })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof WorkflowError || error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Review comment update error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update review comment' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { AuthError, requireUser } from '@/lib/auth'
+import { WorkspaceService } from '@/lib/workspaces'
+import { ENTITY_NAMES, resolveBackend } from '@/lib/storage'
+import { migrateAirtableToSupabase } from '@/lib/storage/migrate'
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300
+
+const MigrateSchema = z.object({
+  entities: z.array(z.enum(ENTITY_NAMES)).optional(),
+  dryRun: z.boolean().optional(),
+  switchBackend: z.boolean().optional()
+})
+
+const requireAdmin = async (request: NextRequest) => {
+  const auth = requireUser(request)
+  const membership = await WorkspaceService.getMembership(auth.userId, auth.workspaceId)
+  if (membership?.role !== 'owner' && membership?.role !== 'admin') {
+    throw new AuthError('Only workspace owners and admins can migrate storage', 403)
+  }
+  return auth
+}
+
+// Which backend each entity currently reads from
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request)
+    const workspace = await WorkspaceService.getWorkspace(auth.workspaceId)
+    const backends = Object.fromEntries(
+      ENTITY_NAMES.map(entity => [entity, resolveBackend(entity, workspace?.settings?.storage)])
+    )
+
+    return NextResponse.json({ success: true, backends })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Storage backend fetch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch storage backends' },
+      { status: 500 }
+    )
+  }
+}
+
+// Copies the workspace's Airtable tables into Supabase; safe to re-run, records are matched on their Airtable id
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request)
+    const options = MigrateSchema.parse(await request.json().catch(() => ({})))
+
+    const results = await migrateAirtableToSupabase(auth.workspaceId, options)
+    const verified = results.every(result => result.status === 'skipped' || result.verified)
+
+    return NextResponse.json({ success: verified, results }, { status: verified ? 200 : 207 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid migration request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Storage migration error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to migrate storage' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { UsageLedgerService } from '@/lib/usage-ledger'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  try {
+    const budget = await UsageLedgerService.checkBudget(getAuthContext(request).workspaceId)
+
+    return NextResponse.json({
+      success: true,
+      budget,
+      ...(!budget.allowed && { message: UsageLedgerService.describeBudget(budget) })
+    })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Budget status error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch budget status' },
+      { status: 500 }
+    )
+  }
+}
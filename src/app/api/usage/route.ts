@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { UsageLedgerService } from '@/lib/usage-ledger'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { workspaceId } = getAuthContext(request)
+    const { searchParams } = new URL(request.url)
+    const days = Math.min(Math.max(parseInt(searchParams.get('days') || '30') || 30, 1), 90)
+
+    const summary = await UsageLedgerService.getSummary(workspaceId, days)
+
+    return NextResponse.json({
+      success: true,
+      ...summary
+    })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Usage summary error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch usage summary' },
+      { status: 500 }
+    )
+  }
+}
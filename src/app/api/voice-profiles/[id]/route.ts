@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { VoiceProfileService, VoiceProfileInputSchema } from '@/lib/voice-profiles'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const profile = await VoiceProfileService.getProfile(getAuthContext(request).workspaceId, params.id)
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: 'Voice profile not found' },
+        { status: 404 }
+      )
+    }
+
+    const versions = await VoiceProfileService.getVersions(params.id)
+
+    return NextResponse.json({ success: true, profile, versions })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Voice profile fetch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch voice profile' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { workspaceId } = getAuthContext(request)
+    const body = await request.json()
+    const input = VoiceProfileInputSchema.parse(body)
+
+    const profile = await VoiceProfileService.updateProfile(workspaceId, params.id, input)
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: 'Voice profile not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true, profile })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid voice profile', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Voice profile update error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update voice profile' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await VoiceProfileService.deleteProfile(getAuthContext(request).workspaceId, params.id)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Voice profile delete error:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete voice profile' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { VoiceProfileService, VoiceProfileInputSchema } from '@/lib/voice-profiles'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  try {
+    const profiles = await VoiceProfileService.listProfiles(getAuthContext(request).workspaceId)
+
+    return NextResponse.json({ success: true, profiles })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Voice profiles list error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch voice profiles' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { workspaceId } = getAuthContext(request)
+    const body = await request.json()
+    const input = VoiceProfileInputSchema.parse(body)
+
+    const profile = await VoiceProfileService.createProfile(workspaceId, input)
+
+    return NextResponse.json({ success: true, profile }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid voice profile', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Voice profile create error:', error)
+    return NextResponse.json(
+      { error: 'Failed to create voice profile' },
+      { status: 500 }
+    )
+  }
+}
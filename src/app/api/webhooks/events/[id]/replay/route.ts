@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, requireUser } from '@/lib/auth'
+import { WorkspaceService } from '@/lib/workspaces'
+import { WebhookEventService, WebhookVerificationError } from '@/lib/webhook-verification'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+// Delivers a rejected body to its webhook again, re-signed; the replay shows up as a new event pointing back here
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Replays re-sign deliveries with the source's secret, so only a signed-in owner or admin can send them
+    const auth = requireUser(request)
+    const membership = await WorkspaceService.getMembership(auth.userId, auth.workspaceId)
+    if (membership?.role !== 'owner' && membership?.role !== 'admin') {
+      throw new AuthError('Only workspace owners and admins can replay webhook deliveries', 403)
+    }
+
+    const result = await WebhookEventService.replay(auth.workspaceId, params.id)
+
+    return NextResponse.json({ success: result.status < 400, ...result })
+  } catch (error) {
+    if (error instanceof AuthError || error instanceof WebhookVerificationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Webhook event replay error:', error)
+    return NextResponse.json(
+      { error: 'Failed to replay webhook event' },
+      { status: 500 }
+    )
+  }
+}
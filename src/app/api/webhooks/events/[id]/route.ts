@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { WebhookEventService, WebhookVerificationError } from '@/lib/webhook-verification'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+// One delivery with its raw body, for inspection
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { workspaceId } = getAuthContext(request)
+
+    const event = await WebhookEventService.getEvent(workspaceId, params.id)
+
+    return NextResponse.json({ success: true, event })
+  } catch (error) {
+    if (error instanceof AuthError || error instanceof WebhookVerificationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Webhook event fetch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch webhook event' },
+      { status: 500 }
+    )
+  }
+}
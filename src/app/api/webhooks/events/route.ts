@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { WEBHOOK_SOURCES, WebhookEventService, type WebhookEventStatus, type WebhookSource } from '@/lib/webhook-verification'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+// Recent webhook deliveries (without bodies), optionally by ?source= and ?status=accepted|rejected
+export async function GET(request: NextRequest) {
+  try {
+    const { workspaceId } = getAuthContext(request)
+    const { searchParams } = new URL(request.url)
+    const source = searchParams.get('source') as WebhookSource | null
+    const status = searchParams.get('status') as WebhookEventStatus | null
+
+    const events = await WebhookEventService.listEvents(workspaceId, {
+      source: source && WEBHOOK_SOURCES.includes(source) ? source : undefined,
+      status: status === 'accepted' || status === 'rejected' ? status : undefined,
+      limit: Math.min(parseInt(searchParams.get('limit') || '50'), 200)
+    })
+
+    return NextResponse.json({ success: true, events })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Webhook events fetch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch webhook events' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,29 +1,30 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { handleLindyWebhook } from '@/lib/lindy'
+import { verifyWebhook, WebhookVerificationError } from '@/lib/webhook-verification'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
 
 // Handle incoming webhooks from Lindy
 export async function POST(request: NextRequest) {
   try {
-    // Verify webhook signature if needed
-    const signature = request.headers.get('lindy-signature')
-    
-    if (!signature) {
-      return NextResponse.json(
-        { error: 'Missing webhook signature' },
-        { status: 401 }
-      )
-    }
+    // Checks the lindy-signature HMAC, timestamp and nonce; rejections are logged to webhook_events
+    const { body } = await verifyWebhook(request, 'lindy')
 
     // Use the Lindy webhook handler
-    const response = await handleLindyWebhook(request)
+    const response = await handleLindyWebhook(body)
     
     return response
 
   } catch (error) {
+    if (error instanceof WebhookVerificationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error('Lindy webhook error:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
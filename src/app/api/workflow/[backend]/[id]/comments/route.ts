@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { ContentWorkflowService, WorkflowBackendSchema, WorkflowError } from '@/lib/content-workflow'
+import { ReviewCommentInputSchema, ReviewCommentService } from '@/lib/review-comments'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { backend: string; id: string } }
+) {
+  try {
+    const { workspaceId } = getAuthContext(request)
+    const ref = { backend: WorkflowBackendSchema.parse(params.backend), id: params.id, workspaceId }
+    await ContentWorkflowService.getItem(ref)
+    const comments = await ReviewCommentService.listThreads(ref)
+
+    return NextResponse.json({ success: true, comments })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid content reference', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof WorkflowError || error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Review comments fetch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch review comments' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { backend: string; id: string } }
+) {
+  try {
+    const auth = getAuthContext(request)
+    const ref = { backend: WorkflowBackendSchema.parse(params.backend), id: params.id, workspaceId: auth.workspaceId }
+    const input = ReviewCommentInputSchema.parse(await request.json())
+    const actor = await ContentWorkflowService.resolveActor(auth)
+
+    const comment = await ReviewCommentService.addComment(ref, input, actor)
+
+    return NextResponse.json({ success: true, comment }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid comment', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof WorkflowError || error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Review comment create error:', error)
+    return NextResponse.json(
+      { error: 'Failed to add review comment' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { ContentWorkflowService, WorkflowBackendSchema, WorkflowError } from '@/lib/content-workflow'
+import { ReviewCommentService } from '@/lib/review-comments'
+
+export const dynamic = 'force-dynamic'
+
+const EditContentSchema = z.object({
+  body: z.string().trim().min(1).optional(),
+  hashtags: z.array(z.string()).optional()
+})
+
+// Status, what the signed-in member may do next, the audit trail and review comments
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { backend: string; id: string } }
+) {
+  try {
+    const auth = getAuthContext(request)
+    const ref = { backend: WorkflowBackendSchema.parse(params.backend), id: params.id, workspaceId: auth.workspaceId }
+    const actor = await ContentWorkflowService.resolveActor(auth)
+
+    const [state, history, comments] = await Promise.all([
+      ContentWorkflowService.getState(ref, actor),
+      ContentWorkflowService.getAuditLog(ref),
+      ReviewCommentService.listThreads(ref)
+    ])
+
+    return NextResponse.json({ success: true, ...state, actor, history, comments })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid content reference', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof WorkflowError || error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Workflow fetch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch workflow state' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { backend: string; id: string } }
+) {
+  try {
+    const auth = getAuthContext(request)
+    const ref = { backend: WorkflowBackendSchema.parse(params.backend), id: params.id, workspaceId: auth.workspaceId }
+    const changes = EditContentSchema.parse(await request.json())
+    const actor = await ContentWorkflowService.resolveActor(auth)
+
+    const item = await ContentWorkflowService.edit(ref, changes, actor)
+
+    return NextResponse.json({ success: true, item })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid edit', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof WorkflowError || error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Workflow edit error:', error)
+    return NextResponse.json(
+      { error: 'Failed to edit content' },
+      { status: 500 }
+    )
+  }
+}
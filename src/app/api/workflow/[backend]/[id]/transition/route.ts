@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import {
+  ContentWorkflowService,
+  WorkflowBackendSchema,
+  WorkflowError,
+  WorkflowStatusSchema
+} from '@/lib/content-workflow'
+
+export const dynamic = 'force-dynamic'
+
+const TransitionSchema = z.object({
+  to: WorkflowStatusSchema,
+  note: z.string().trim().max(2000).optional()
+})
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { backend: string; id: string } }
+) {
+  try {
+    const auth = getAuthContext(request)
+    const ref = { backend: WorkflowBackendSchema.parse(params.backend), id: params.id, workspaceId: auth.workspaceId }
+    const { to, note } = TransitionSchema.parse(await request.json())
+    const actor = await ContentWorkflowService.resolveActor(auth)
+
+    // Approving a draft also creates its Airtable post, which only the draft approval route does
+    if (ref.backend === 'supabase' && to === 'Approved') {
+      return NextResponse.json(
+        { error: `Approve drafts with /api/content/drafts/${ref.id}/approve` },
+        { status: 409 }
+      )
+    }
+
+    const item = await ContentWorkflowService.transition(ref, to, actor, { note })
+
+    return NextResponse.json({ success: true, item })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid transition', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof WorkflowError || error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Workflow transition error:', error)
+    return NextResponse.json(
+      { error: 'Failed to change status' },
+      { status: 500 }
+    )
+  }
+}
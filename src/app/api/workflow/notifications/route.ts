@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { ContentWorkflowService, WorkflowError } from '@/lib/content-workflow'
+
+export const dynamic = 'force-dynamic'
+
+const MarkReadSchema = z.object({
+  // Omit to mark everything read
+  ids: z.array(z.string().uuid()).optional()
+})
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const auth = getAuthContext(request)
+    const actor = await ContentWorkflowService.resolveActor(auth)
+
+    const notifications = await ContentWorkflowService.getNotifications(
+      auth.workspaceId,
+      actor.id,
+      searchParams.get('unread') === 'true'
+    )
+
+    return NextResponse.json({
+      success: true,
+      notifications,
+      unreadCount: notifications.filter(notification => !notification.read_at).length
+    })
+  } catch (error) {
+    if (error instanceof WorkflowError || error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Workflow notifications fetch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch notifications' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const { ids } = MarkReadSchema.parse(await request.json())
+    const auth = getAuthContext(request)
+    const actor = await ContentWorkflowService.resolveActor(auth)
+
+    await ContentWorkflowService.markNotificationsRead(auth.workspaceId, actor.id, ids)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof WorkflowError || error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Workflow notifications update error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update notifications' },
+      { status: 500 }
+    )
+  }
+}
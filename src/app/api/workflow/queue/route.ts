@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { ContentWorkflowService, WorkflowStatusSchema } from '@/lib/content-workflow'
+import { AuthError, getAuthContext } from '@/lib/auth'
+
+export const dynamic = 'force-dynamic'
+
+// ?status=Review,Draft (defaults to Review)
+export async function GET(request: NextRequest) {
+  try {
+    const { workspaceId } = getAuthContext(request)
+    const { searchParams } = new URL(request.url)
+    const statuses = z.array(WorkflowStatusSchema).min(1).parse(
+      (searchParams.get('status') || 'Review').split(',').map(status => status.trim())
+    )
+
+    const items = await ContentWorkflowService.listByStatus(statuses, workspaceId)
+
+    return NextResponse.json({ success: true, items })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid status filter', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Workflow queue fetch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch review queue' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, getAuthContext } from '@/lib/auth'
+import { ContentWorkflowService, TRANSITIONS, WorkflowError } from '@/lib/content-workflow'
+
+export const dynamic = 'force-dynamic'
+
+// The workspace's content team and who the caller acts as
+export async function GET(request: NextRequest) {
+  try {
+    const auth = getAuthContext(request)
+    const [team, actor] = await Promise.all([
+      ContentWorkflowService.getTeam(auth.workspaceId),
+      ContentWorkflowService.resolveActor(auth)
+    ])
+
+    return NextResponse.json({
+      success: true,
+      team,
+      actor,
+      transitions: TRANSITIONS
+    })
+  } catch (error) {
+    if (error instanceof WorkflowError || error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Content team fetch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch content team' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,122 +1,184 @@
 'use client'
 
+import { useCallback, useEffect, useMemo, useState } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
-import { TrendingUp, Eye, Heart, MessageSquare, Users, Calendar, BarChart, LineChart } from 'lucide-react'
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { TrendingUp, Heart, MessageSquare, Repeat2, FileText, Calendar, ExternalLink } from 'lucide-react'
 import { Line, LineChart as RechartsLineChart, Bar, BarChart as RechartsBarChart, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
+import { format, subDays } from 'date-fns'
+import type { AnalyticsSummary, EngagementPoint, EngagementTotals, HookPerformance, HookStyle, PostTypePerformance, TopPost } from '@/lib/post-analytics'
 
-// Mock data for charts
-const engagementData = [
-  { day: 'Mon', views: 245, likes: 45, comments: 12 },
-  { day: 'Tue', views: 312, likes: 67, comments: 18 },
-  { day: 'Wed', views: 278, likes: 52, comments: 15 },
-  { day: 'Thu', views: 389, likes: 78, comments: 23 },
-  { day: 'Fri', views: 456, likes: 89, comments: 28 },
-  { day: 'Sat', views: 234, likes: 43, comments: 9 },
-  { day: 'Sun', views: 198, likes: 38, comments: 7 },
-]
+type RangePreset = '7' | '30' | '90' | 'custom'
 
-const postTypeData = [
-  { type: 'Thought Leadership', posts: 12, avgEngagement: 234 },
-  { type: 'Tips', posts: 8, avgEngagement: 189 },
-  { type: 'Story', posts: 15, avgEngagement: 312 },
-  { type: 'Question', posts: 6, avgEngagement: 456 },
-  { type: 'Announcement', posts: 4, avgEngagement: 167 },
-]
+interface AnalyticsData {
+  summary: AnalyticsSummary
+  points: EngagementPoint[]
+  interval: 'day' | 'week'
+  types: PostTypePerformance[]
+  hooks: HookPerformance[]
+  hookStyles: Array<{ style: HookStyle; posts: number; engagementRate: number }>
+  topPosts: TopPost[]
+  previousAverage: number
+}
+
+const HOOK_STYLE_LABELS: Record<HookStyle, string> = {
+  question: 'Question',
+  number: 'Number / list',
+  personal: 'Personal',
+  statement: 'Statement'
+}
+
+const toDateInput = (date: Date) => format(date, 'yyyy-MM-dd')
+
+const fetchJson = async (path: string, params: URLSearchParams) => {
+  const response = await fetch(`${path}?${params}`)
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load analytics')
+  }
+  return data
+}
+
+function ChangeLabel({ value, suffix = 'from previous period' }: { value: number | null; suffix?: string }) {
+  if (value === null) {
+    return <p className="text-xs text-muted-foreground">No posts in previous period</p>
+  }
+  return (
+    <p className={`text-xs ${value >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+      {value >= 0 ? '+' : ''}{value}% <span className="text-muted-foreground">{suffix}</span>
+    </p>
+  )
+}
 
-const topPosts = [
-  {
-    id: '1',
-    content: '3 Leadership lessons I learned from failing my first startup...',
-    date: 'Dec 15, 2024',
-    views: 4567,
-    likes: 234,
-    comments: 45,
-    engagement: 5.8,
-  },
-  {
-    id: '2',
-    content: 'The one question every CEO should ask their team weekly...',
-    date: 'Dec 10, 2024',
-    views: 3890,
-    likes: 189,
-    comments: 38,
-    engagement: 5.3,
-  },
-  {
-    id: '3',
-    content: 'Why emotional intelligence matters more than IQ in leadership...',
-    date: 'Dec 5, 2024',
-    views: 3234,
-    likes: 167,
-    comments: 29,
-    engagement: 4.9,
-  },
+const METRICS: Array<{ key: keyof EngagementTotals; title: string; icon: typeof Heart; unit?: string }> = [
+  { key: 'posts', title: 'Posts', icon: FileText },
+  { key: 'reactions', title: 'Reactions', icon: Heart },
+  { key: 'comments', title: 'Comments', icon: MessageSquare },
+  { key: 'engagementRate', title: 'Engagement Rate', icon: TrendingUp, unit: ' per post' }
 ]
 
 export default function AnalyticsPage() {
+  const [preset, setPreset] = useState<RangePreset>('30')
+  const [customStart, setCustomStart] = useState(toDateInput(subDays(new Date(), 30)))
+  const [customEnd, setCustomEnd] = useState(toDateInput(new Date()))
+  const [data, setData] = useState<AnalyticsData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  // Whole days: custom ranges include the end date
+  const range = useMemo(() => {
+    if (preset === 'custom') {
+      const start = new Date(`${customStart}T00:00:00`)
+      const end = new Date(`${customEnd}T00:00:00`)
+      end.setDate(end.getDate() + 1)
+      return start < end ? { start, end } : null
+    }
+    const end = new Date()
+    end.setHours(0, 0, 0, 0)
+    end.setDate(end.getDate() + 1)
+    return { start: subDays(end, Number(preset)), end }
+  }, [preset, customStart, customEnd])
+
+  const fetchAnalytics = useCallback(async () => {
+    if (!range) return
+
+    setLoading(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams({ start: range.start.toISOString(), end: range.end.toISOString() })
+      const [summary, timeseries, postTypes, hooks, topPosts] = await Promise.all([
+        fetchJson('/api/analytics/summary', params),
+        fetchJson('/api/analytics/timeseries', params),
+        fetchJson('/api/analytics/post-types', params),
+        fetchJson('/api/analytics/hooks', params),
+        fetchJson('/api/analytics/top-posts', params)
+      ])
+
+      setData({
+        summary,
+        points: timeseries.points,
+        interval: timeseries.interval,
+        types: postTypes.types,
+        hooks: hooks.hooks,
+        hookStyles: hooks.styles,
+        topPosts: topPosts.posts,
+        previousAverage: topPosts.previousAverage
+      })
+    } catch (error) {
+      console.error('Error fetching analytics:', error)
+      setError(error instanceof Error ? error.message : 'Failed to load analytics')
+    } finally {
+      setLoading(false)
+    }
+  }, [range])
+
+  useEffect(() => {
+    fetchAnalytics()
+  }, [fetchAnalytics])
+
+  const chartData = (data?.points || []).map(point => ({
+    ...point,
+    label: format(new Date(`${point.date}T00:00:00`), data?.interval === 'week' ? "'w/c' MMM d" : 'MMM d')
+  }))
+
   return (
     <div className="flex-1 space-y-4 p-8 pt-6">
       <div className="flex items-center justify-between space-y-2">
         <h2 className="text-3xl font-bold tracking-tight">Analytics</h2>
         <div className="flex items-center space-x-2">
           <Calendar className="h-4 w-4 text-muted-foreground" />
-          <span className="text-sm text-muted-foreground">Last 30 days</span>
+          <Select value={preset} onValueChange={(value) => setPreset(value as RangePreset)}>
+            <SelectTrigger className="w-[150px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="7">Last 7 days</SelectItem>
+              <SelectItem value="30">Last 30 days</SelectItem>
+              <SelectItem value="90">Last 90 days</SelectItem>
+              <SelectItem value="custom">Custom range</SelectItem>
+            </SelectContent>
+          </Select>
+          {preset === 'custom' && (
+            <>
+              <Input type="date" className="w-[150px]" value={customStart} max={customEnd} onChange={(e) => setCustomStart(e.target.value)} />
+              <span className="text-sm text-muted-foreground">to</span>
+              <Input type="date" className="w-[150px]" value={customEnd} min={customStart} onChange={(e) => setCustomEnd(e.target.value)} />
+            </>
+          )}
         </div>
       </div>
 
-      {/* Key Metrics */}
-      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Views</CardTitle>
-            <Eye className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">24,567</div>
-            <p className="text-xs text-muted-foreground">
-              +12.5% from last month
-            </p>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Likes</CardTitle>
-            <Heart className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">1,234</div>
-            <p className="text-xs text-muted-foreground">
-              +8.2% from last month
-            </p>
-          </CardContent>
-        </Card>
-
+      {error && (
         <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Comments</CardTitle>
-            <MessageSquare className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">287</div>
-            <p className="text-xs text-muted-foreground">
-              +15.7% from last month
-            </p>
-          </CardContent>
+          <CardContent className="pt-6 text-sm text-red-600">{error}</CardContent>
         </Card>
+      )}
 
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Engagement Rate</CardTitle>
-            <TrendingUp className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">5.4%</div>
-            <p className="text-xs text-muted-foreground">
-              +0.8% from last month
-            </p>
-          </CardContent>
-        </Card>
+      {/* Key Metrics */}
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        {METRICS.map(metric => (
+          <Card key={metric.key}>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">{metric.title}</CardTitle>
+              <metric.icon className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              {loading || !data ? (
+                <div className="h-8 w-24 rounded bg-muted animate-pulse" />
+              ) : (
+                <>
+                  <div className="text-2xl font-bold">
+                    {data.summary.current[metric.key].toLocaleString()}
+                    {metric.unit && <span className="text-sm font-normal text-muted-foreground">{metric.unit}</span>}
+                  </div>
+                  <ChangeLabel value={data.summary.change[metric.key]} />
+                </>
+              )}
+            </CardContent>
+          </Card>
+        ))}
       </div>
 
       {/* Engagement Over Time */}
@@ -124,36 +186,36 @@ export default function AnalyticsPage() {
         <CardHeader>
           <CardTitle>Engagement Over Time</CardTitle>
           <CardDescription>
-            Daily views, likes, and comments for the past week
+            Reactions, comments and reposts received per {data?.interval || 'day'}, from engagement snapshots
           </CardDescription>
         </CardHeader>
         <CardContent>
           <ResponsiveContainer width="100%" height={350}>
-            <RechartsLineChart data={engagementData}>
+            <RechartsLineChart data={chartData}>
               <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
-              <XAxis dataKey="day" className="text-xs" />
-              <YAxis className="text-xs" />
+              <XAxis dataKey="label" className="text-xs" />
+              <YAxis className="text-xs" allowDecimals={false} />
               <Tooltip />
-              <Line 
-                type="monotone" 
-                dataKey="views" 
-                stroke="#3b82f6" 
+              <Line
+                type="monotone"
+                dataKey="reactions"
+                stroke="#3b82f6"
                 strokeWidth={2}
-                name="Views"
+                name="Reactions"
               />
-              <Line 
-                type="monotone" 
-                dataKey="likes" 
-                stroke="#10b981" 
+              <Line
+                type="monotone"
+                dataKey="comments"
+                stroke="#10b981"
                 strokeWidth={2}
-                name="Likes"
+                name="Comments"
               />
-              <Line 
-                type="monotone" 
-                dataKey="comments" 
-                stroke="#f59e0b" 
+              <Line
+                type="monotone"
+                dataKey="reposts"
+                stroke="#f59e0b"
                 strokeWidth={2}
-                name="Comments"
+                name="Reposts"
               />
             </RechartsLineChart>
           </ResponsiveContainer>
@@ -166,19 +228,23 @@ export default function AnalyticsPage() {
           <CardHeader>
             <CardTitle>Performance by Post Type</CardTitle>
             <CardDescription>
-              Average engagement by content category
+              Engagements (reactions + comments + reposts) per post
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <ResponsiveContainer width="100%" height={300}>
-              <RechartsBarChart data={postTypeData}>
-                <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
-                <XAxis dataKey="type" className="text-xs" angle={-45} textAnchor="end" height={80} />
-                <YAxis className="text-xs" />
-                <Tooltip />
-                <Bar dataKey="avgEngagement" fill="#3b82f6" name="Avg Engagement" />
-              </RechartsBarChart>
-            </ResponsiveContainer>
+            {data && data.types.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No posts in this period</p>
+            ) : (
+              <ResponsiveContainer width="100%" height={300}>
+                <RechartsBarChart data={data?.types || []}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                  <XAxis dataKey="type" className="text-xs" angle={-45} textAnchor="end" height={80} />
+                  <YAxis className="text-xs" />
+                  <Tooltip />
+                  <Bar dataKey="engagementRate" fill="#3b82f6" name="Engagements per post" />
+                </RechartsBarChart>
+              </ResponsiveContainer>
+            )}
           </CardContent>
         </Card>
 
@@ -187,29 +253,44 @@ export default function AnalyticsPage() {
           <CardHeader>
             <CardTitle>Top Performing Posts</CardTitle>
             <CardDescription>
-              Your best content from the past 30 days
+              Compared with the previous period&apos;s average of {data?.previousAverage ?? 0} engagements per post
             </CardDescription>
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
-              {topPosts.map((post) => (
-                <div key={post.id} className="space-y-2">
-                  <p className="text-sm font-medium line-clamp-2">{post.content}</p>
+              {data && data.topPosts.length === 0 && (
+                <p className="text-sm text-muted-foreground">No posts in this period</p>
+              )}
+              {data?.topPosts.map((post) => (
+                <div key={post.urn} className="space-y-2">
+                  <p className="text-sm font-medium line-clamp-2">{post.text}</p>
                   <div className="flex items-center justify-between text-xs text-muted-foreground">
-                    <span>{post.date}</span>
+                    <span className="flex items-center gap-2">
+                      {format(new Date(post.postedAt), 'MMM d, yyyy')}
+                      {post.vsPreviousAverage !== null && (
+                        <Badge variant={post.vsPreviousAverage >= 0 ? 'default' : 'secondary'} className="text-[10px]">
+                          {post.vsPreviousAverage >= 0 ? '+' : ''}{post.vsPreviousAverage}%
+                        </Badge>
+                      )}
+                    </span>
                     <div className="flex items-center gap-3">
-                      <span className="flex items-center gap-1">
-                        <Eye className="h-3 w-3" />
-                        {post.views}
-                      </span>
                       <span className="flex items-center gap-1">
                         <Heart className="h-3 w-3" />
-                        {post.likes}
+                        {post.reactions}
                       </span>
                       <span className="flex items-center gap-1">
                         <MessageSquare className="h-3 w-3" />
                         {post.comments}
                       </span>
+                      <span className="flex items-center gap-1">
+                        <Repeat2 className="h-3 w-3" />
+                        {post.reposts}
+                      </span>
+                      {post.url && (
+                        <a href={post.url} target="_blank" rel="noopener noreferrer" className="hover:text-foreground">
+                          <ExternalLink className="h-3 w-3" />
+                        </a>
+                      )}
                     </div>
                   </div>
                   <div className="h-px bg-border" />
@@ -220,44 +301,40 @@ export default function AnalyticsPage() {
         </Card>
       </div>
 
-      {/* Insights */}
+      {/* Best Hooks */}
       <Card>
         <CardHeader>
-          <CardTitle>Key Insights</CardTitle>
+          <CardTitle>Best Hooks</CardTitle>
           <CardDescription>
-            AI-generated recommendations based on your analytics
+            Opening lines of your best posts, and how each style of hook performs
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className="flex items-start space-x-3">
-            <div className="h-2 w-2 rounded-full bg-green-500 mt-1.5" />
-            <div>
-              <p className="text-sm font-medium">Question posts drive 2.4x more engagement</p>
-              <p className="text-xs text-muted-foreground">
-                Your question-based posts receive significantly more comments and shares
-              </p>
-            </div>
-          </div>
-          <div className="flex items-start space-x-3">
-            <div className="h-2 w-2 rounded-full bg-blue-500 mt-1.5" />
-            <div>
-              <p className="text-sm font-medium">Thursday and Friday are your best posting days</p>
-              <p className="text-xs text-muted-foreground">
-                Engagement peaks on these days, with 45% higher views on average
-              </p>
+          {data && data.hookStyles.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {data.hookStyles.map(style => (
+                <Badge key={style.style} variant="outline">
+                  {HOOK_STYLE_LABELS[style.style]}: {style.engagementRate} per post ({style.posts})
+                </Badge>
+              ))}
             </div>
-          </div>
-          <div className="flex items-start space-x-3">
-            <div className="h-2 w-2 rounded-full bg-yellow-500 mt-1.5" />
-            <div>
-              <p className="text-sm font-medium">Story-based content creates deeper connections</p>
-              <p className="text-xs text-muted-foreground">
-                Personal stories receive 3x more meaningful comments and DMs
-              </p>
+          )}
+          {data && data.hooks.length === 0 && (
+            <p className="text-sm text-muted-foreground">No posts in this period</p>
+          )}
+          {data?.hooks.map((hook, index) => (
+            <div key={`${hook.postedAt}-${index}`} className="flex items-start space-x-3">
+              <div className="h-2 w-2 rounded-full bg-blue-500 mt-1.5" />
+              <div>
+                <p className="text-sm font-medium">{hook.hook}</p>
+                <p className="text-xs text-muted-foreground">
+                  {hook.engagements} engagements · {HOOK_STYLE_LABELS[hook.style]} · {format(new Date(hook.postedAt), 'MMM d')}
+                </p>
+              </div>
             </div>
-          </div>
+          ))}
         </CardContent>
       </Card>
     </div>
   )
-}
\ No newline at end of file
+}
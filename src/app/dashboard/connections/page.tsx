@@ -6,10 +6,12 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Badge } from "@/components/ui/badge"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { User, UserPlus, Search, Building, Calendar, MessageSquare, TrendingUp, Star, RefreshCw, MapPin, Users, ExternalLink, FileText } from 'lucide-react'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { User, UserPlus, Search, Building, MessageSquare, TrendingUp, Star, RefreshCw, MapPin, Users, ExternalLink, FileText } from 'lucide-react'
 import { toast } from "sonner"
 import { AddConnectionModal } from '@/components/add-connection-modal'
 import { ConnectionPostsTable, type ConnectionPost, type PostStats } from '@/components/connection-posts-table'
+import { ICP_OUTCOMES, ICP_OUTCOME_LABELS, type ICPOutcome } from '@/lib/icp-outcomes'
 
 interface Connection {
   id: string
@@ -18,7 +20,6 @@ interface Connection {
   company: string
   linkedinUrl: string
   profilePictureUrl?: string
-  lastEngagement: string
   engagementScore: number
   tags: string[]
   notes?: string
@@ -49,12 +50,14 @@ export default function NetworkPage() {
   })
   const [isLoadingPosts, setIsLoadingPosts] = useState(false)
   const [activeTab, setActiveTab] = useState('connections')
+  // Latest recorded outcome per connection id, for ICP calibration
+  const [outcomes, setOutcomes] = useState<Record<string, ICPOutcome>>({})
 
   const loadConnections = async (showLoading = true) => {
     try {
       if (showLoading) setIsLoading(true)
       // Use Supabase endpoint instead of Airtable
-      const res = await fetch('/api/connections/supabase/list', { cache: 'no-store' })
+      const res = await fetch('/api/connections/list', { cache: 'no-store' })
       if (!res.ok) {
         const errorData = await res.json()
         throw new Error(errorData.error || 'Failed to load connections')
@@ -107,6 +110,43 @@ export default function NetworkPage() {
     }
   }
 
+  const loadOutcomes = async () => {
+    try {
+      const res = await fetch('/api/icp/outcomes?subjectType=connection', { cache: 'no-store' })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to load outcomes')
+      }
+      setOutcomes(Object.fromEntries(data.outcomes.map((record: { subject_id: string; outcome: ICPOutcome }) => [record.subject_id, record.outcome])))
+    } catch (e: any) {
+      console.error('Error loading connection outcomes:', e)
+    }
+  }
+
+  const recordOutcome = async (connection: Connection, outcome: ICPOutcome) => {
+    const previous = outcomes[connection.id]
+    setOutcomes(current => ({ ...current, [connection.id]: outcome }))
+    try {
+      const res = await fetch('/api/icp/outcomes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ subjectType: 'connection', subjectId: connection.id, outcome })
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to record outcome')
+      }
+      toast.success(`${connection.name}: ${ICP_OUTCOME_LABELS[outcome]} (scored ${data.outcome.icp_score}, ${data.outcome.icp_category})`)
+    } catch (e: any) {
+      console.error('Error recording outcome:', e)
+      toast.error(e.message || 'Failed to record outcome')
+      setOutcomes(current => {
+        const { [connection.id]: _, ...rest } = current
+        return previous ? { ...rest, [connection.id]: previous } : rest
+      })
+    }
+  }
+
   const handleRefresh = () => {
     loadConnections(true)
     if (activeTab === 'posts') {
@@ -116,6 +156,7 @@ export default function NetworkPage() {
 
   useEffect(() => {
     loadConnections()
+    loadOutcomes()
   }, [])
 
   // Load posts when posts tab is activated
@@ -249,7 +290,7 @@ export default function NetworkPage() {
         <TabsContent value="connections" className="space-y-4">
 
       {/* Stats */}
-      <div className="grid gap-4 md:grid-cols-4">
+      <div className="grid gap-4 md:grid-cols-3">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Total Connections</CardTitle>
@@ -272,17 +313,6 @@ export default function NetworkPage() {
           </CardContent>
         </Card>
 
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Recent Activity</CardTitle>
-            <Calendar className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">{connections.filter(c => c.lastEngagement?.includes('day')).length}</div>
-            <p className="text-xs text-muted-foreground">This week</p>
-          </CardContent>
-        </Card>
-
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Potential Clients</CardTitle>
@@ -376,9 +406,18 @@ export default function NetworkPage() {
                   
                   {connection.notes && <p className="text-sm text-muted-foreground">{connection.notes}</p>}
                   
-                  <div className="flex items-center justify-between pt-2">
-                    <span className="text-xs text-muted-foreground">Last engagement: {connection.lastEngagement}</span>
+                  <div className="flex items-center justify-end pt-2">
                     <div className="flex items-center gap-2">
+                      <Select value={outcomes[connection.id]} onValueChange={(value) => recordOutcome(connection, value as ICPOutcome)}>
+                        <SelectTrigger className="h-9 w-[150px]">
+                          <SelectValue placeholder="Outcome..." />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ICP_OUTCOMES.map(outcome => (
+                            <SelectItem key={outcome} value={outcome}>{ICP_OUTCOME_LABELS[outcome]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
                       <Button size="sm" variant="outline"><MessageSquare className="mr-2 h-4 w-4" />View Activity</Button>
                       <Button size="sm" variant="outline" asChild>
                         <a href={connection.linkedinUrl} target="_blank" rel="noreferrer">
@@ -0,0 +1,20 @@
+"use client"
+
+import { IdeaBacklog } from "@/components/idea-backlog"
+
+export default function IdeasPage() {
+  return (
+    <div className="flex-1 space-y-8 p-8 pt-6">
+      <div className="flex items-center justify-between space-y-2">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">Idea Backlog</h2>
+          <p className="text-muted-foreground">
+            Save topics for later, spot overlap with recent posts and find themes that have gone quiet
+          </p>
+        </div>
+      </div>
+
+      <IdeaBacklog />
+    </div>
+  )
+}
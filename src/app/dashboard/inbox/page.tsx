@@ -0,0 +1,210 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { formatDistanceToNow } from 'date-fns'
+import { ExternalLink, Inbox, KanbanSquare, RefreshCw } from 'lucide-react'
+import { toast } from 'sonner'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Comment, ownerCommentIdsOf, replyStatusOf, threadToComment } from '@/components/comment'
+import { CommentReplyComposer } from '@/components/comment-reply-composer'
+import type { InboxThread } from '@/lib/comment-threads'
+
+const INBOX_DAYS = 30
+
+// Reply to whoever had the last word, which may be someone replying in the thread
+const replyTargetOf = (thread: InboxThread) =>
+  [...thread.replies].reverse().find(reply => !reply.is_owner_comment) || thread.comment
+
+const icpBadgeClass = (score?: number) => {
+  if (score === undefined || score === null) return 'border-muted text-muted-foreground'
+  if (score >= 80) return 'border-green-300 bg-green-50 text-green-700'
+  if (score >= 60) return 'border-blue-300 bg-blue-50 text-blue-700'
+  return 'border-muted text-muted-foreground'
+}
+
+export default function CommentInboxPage() {
+  const [threads, setThreads] = useState<InboxThread[]>([])
+  const [total, setTotal] = useState(0)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSyncing, setIsSyncing] = useState(false)
+
+  const fetchInbox = async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch(`/api/linkedin/comments/inbox?days=${INBOX_DAYS}`)
+      const data = await response.json().catch(() => ({}))
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `HTTP ${response.status}`)
+      }
+
+      setThreads(data.threads)
+      setTotal(data.total)
+    } catch (error: any) {
+      console.error('Error fetching comment inbox:', error)
+      toast.error(`Failed to load unanswered comments: ${error.message}`)
+      setThreads([])
+      setTotal(0)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // Pulls new comments on recent posts, then reloads the inbox
+  const syncComments = async () => {
+    setIsSyncing(true)
+    try {
+      const response = await fetch('/api/linkedin/comments/inbox', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({})
+      })
+      const data = await response.json().catch(() => ({}))
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `HTTP ${response.status}`)
+      }
+
+      const { synced, failed, skipped } = data.data
+      toast.success(`Synced comments on ${synced.length} posts${skipped > 0 ? ` (${skipped} unchanged)` : ''}`)
+      if (failed.length > 0) {
+        toast.error(`Comment sync failed for ${failed.length} posts`)
+      }
+
+      await fetchInbox()
+    } catch (error: any) {
+      console.error('Error syncing comments:', error)
+      toast.error(`Failed to sync comments: ${error.message}`)
+    } finally {
+      setIsSyncing(false)
+    }
+  }
+
+  // A sent reply answers the thread; the next comment sync confirms it from LinkedIn
+  const removeThread = (commentId: string) => {
+    setThreads(current => current.filter(thread => thread.comment.comment_id !== commentId))
+    setTotal(current => Math.max(0, current - 1))
+  }
+
+  // Commenters go on the pipeline from their researched profile
+  const addToPipeline = async (thread: InboxThread) => {
+    try {
+      const response = await fetch('/api/pipeline/cards', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ subjectType: 'profile', subjectId: thread.comment.author_profile_url })
+      })
+      const data = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP ${response.status}`)
+      }
+
+      toast.success(`${thread.comment.author_name} added to the pipeline`)
+    } catch (error: any) {
+      console.error('Error adding commenter to pipeline:', error)
+      toast.error(`Failed to add to pipeline: ${error.message}`)
+    }
+  }
+
+  useEffect(() => {
+    fetchInbox()
+  }, [])
+
+  return (
+    <div className="flex-1 space-y-4 p-8 pt-6">
+      <div className="flex items-center justify-between space-y-2">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">Comment Inbox</h2>
+          <p className="text-muted-foreground">
+            Comments on your last {INBOX_DAYS} days of posts still waiting on a reply, best-fit commenters first
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Button variant="outline" onClick={fetchInbox} disabled={isLoading}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+          <Button onClick={syncComments} disabled={isSyncing}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${isSyncing ? 'animate-spin' : ''}`} />
+            {isSyncing ? 'Syncing...' : 'Sync Comments'}
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <Badge variant="outline">
+          {total} unanswered thread{total !== 1 ? 's' : ''}
+        </Badge>
+        {threads.length < total && (
+          <span className="text-sm text-muted-foreground">Showing the top {threads.length}</span>
+        )}
+      </div>
+
+      {!isLoading && threads.length === 0 && (
+        <Card>
+          <CardContent className="p-6 text-center">
+            <Inbox className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <CardTitle className="text-lg mb-2">All caught up</CardTitle>
+            <CardDescription>
+              No comments are waiting on a reply. Sync comments to check for new ones.
+            </CardDescription>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="space-y-4">
+        {threads.map(thread => (
+          <Card key={thread.comment.comment_id}>
+            <CardHeader className="pb-3">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0 space-y-1">
+                  <CardTitle className="text-sm font-medium line-clamp-1">
+                    {thread.post.text}
+                  </CardTitle>
+                  <CardDescription className="text-xs">
+                    Posted {formatDistanceToNow(new Date(thread.post.postedAt), { addSuffix: true })}
+                    {thread.comment.last_activity_at && (
+                      <> • last activity {formatDistanceToNow(new Date(thread.comment.last_activity_at), { addSuffix: true })}</>
+                    )}
+                  </CardDescription>
+                </div>
+                <div className="flex items-center space-x-2 shrink-0">
+                  <Badge variant="outline" className={icpBadgeClass(thread.comment.icp_score)}>
+                    ICP {thread.comment.icp_score ?? '—'}
+                  </Badge>
+                  {thread.comment.author_profile_url && (
+                    <Button variant="ghost" size="sm" onClick={() => addToPipeline(thread)}>
+                      <KanbanSquare className="mr-1 h-3 w-3" />
+                      Add to Pipeline
+                    </Button>
+                  )}
+                  {thread.comment.comment_url && (
+                    <Button variant="ghost" size="sm" onClick={() => window.open(thread.comment.comment_url, '_blank')}>
+                      <ExternalLink className="mr-1 h-3 w-3" />
+                      Open on LinkedIn
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Comment
+                comment={threadToComment(thread)}
+                replyStatus={replyStatusOf(thread)}
+                ownerCommentIds={ownerCommentIdsOf([thread])}
+              />
+              <CommentReplyComposer
+                commentId={replyTargetOf(thread).comment_id}
+                commenterName={replyTargetOf(thread).author_name}
+                onSent={() => removeThread(thread.comment.comment_id)}
+              />
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -1,4 +1,5 @@
 import { SidebarNav } from "@/components/sidebar-nav"
+import { UserMenu } from "@/components/user-menu"
 
 export default function DashboardLayout({
   children,
@@ -22,13 +23,7 @@ export default function DashboardLayout({
           
           {/* User Info */}
           <div className="border-t p-4">
-            <div className="flex items-center gap-3">
-              <div className="h-8 w-8 rounded-full bg-muted" />
-              <div className="flex-1">
-                <p className="text-sm font-medium">Andrew Tallents</p>
-                <p className="text-xs text-muted-foreground">CEO Coach</p>
-              </div>
-            </div>
+            <UserMenu />
           </div>
         </div>
       </div>
@@ -6,10 +6,16 @@ import { Button } from "@/components/ui/button"
 import { RefreshCw, Plus, Settings, TrendingUp, Download } from 'lucide-react'
 import { toast } from "sonner"
 import { ConnectionPostsTable, type ConnectionPost, type PostStats } from '@/components/connection-posts-table'
+import type { SyncCursor } from '@/lib/post-sync'
+
+const SYNC_POLL_INTERVAL_MS = 3000
+const SYNC_POLL_ATTEMPTS = 60
 
 export default function MyPostsPage() {
   const [posts, setPosts] = useState<ConnectionPost[]>([])
   const [isLoading, setIsLoading] = useState(true)
+  const [isSyncing, setIsSyncing] = useState(false)
+  const [syncProgress, setSyncProgress] = useState<string | null>(null)
   const [stats, setStats] = useState<PostStats>({
     totalPosts: 0,
     totalLikes: 0,
@@ -69,14 +75,13 @@ export default function MyPostsPage() {
   }
 
 
-  // Refresh posts data - this will sync Andrew's posts from LinkedIn
+  // Refresh posts data - queues a background sync of Andrew's posts and follows its progress
   const refreshPosts = async () => {
-    setIsLoading(true)
+    setIsSyncing(true)
     try {
-      console.log('🔄 Refreshing Andrew\'s posts from LinkedIn...')
+      console.log('🔄 Queueing sync of Andrew\'s posts from LinkedIn...')
       toast.info('Fetching latest posts from LinkedIn...')
       
-      // Call the sync API to fetch Andrew's posts from RapidAPI
       const syncResponse = await fetch('/api/linkedin/posts/sync', {
         method: 'POST',
         headers: {
@@ -84,7 +89,7 @@ export default function MyPostsPage() {
         },
         body: JSON.stringify({ 
           username: 'andrewtallents',
-          maxPages: 1 // Fetch only page 1 as requested
+          scope: 'own'
         })
       })
 
@@ -93,26 +98,51 @@ export default function MyPostsPage() {
         throw new Error(errorData.error || `Sync failed: HTTP ${syncResponse.status}`)
       }
 
-      const syncData = await syncResponse.json()
-      
-      if (syncData.success) {
-        const summary = syncData.data.summary
-        toast.success(`Sync completed! ${summary.newPosts} new posts, ${summary.updatedPosts} updated posts`)
-        
-        // Now fetch the updated data from Supabase
-        await fetchPosts()
-      } else {
-        throw new Error(syncData.error || 'Sync operation failed')
+      const cursor = await waitForSync('andrewtallents')
+
+      if (cursor.status === 'failed') {
+        throw new Error(cursor.last_error || 'Sync failed')
       }
 
+      toast.success(cursor.status === 'partial'
+        ? `Synced ${cursor.posts_synced} posts so far; the rest will follow in the background`
+        : `Sync completed! ${cursor.new_posts} new posts, ${cursor.posts_synced - cursor.new_posts} updated posts`)
+
+      // Now fetch the updated data from Supabase
+      await fetchPosts()
+
     } catch (error: any) {
       console.error('Error refreshing posts from LinkedIn:', error)
       toast.error(`Failed to refresh posts: ${error.message}`)
     } finally {
-      setIsLoading(false)
+      setIsSyncing(false)
+      setSyncProgress(null)
     }
   }
 
+  // Polls the profile's sync cursor until the worker finishes the run
+  const waitForSync = async (username: string): Promise<SyncCursor> => {
+    for (let attempt = 0; attempt < SYNC_POLL_ATTEMPTS; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, SYNC_POLL_INTERVAL_MS))
+
+      const response = await fetch(`/api/linkedin/posts/sync?username=${username}`)
+      if (!response.ok) continue
+
+      const data = await response.json()
+      const cursor = (data.data?.progress as SyncCursor[] | undefined)?.find(entry => entry.username === username)
+      if (!cursor) continue
+
+      if (['completed', 'partial', 'failed'].includes(cursor.status)) {
+        return cursor
+      }
+      setSyncProgress(cursor.status === 'running'
+        ? `Page ${cursor.resume_page || 1}: ${cursor.posts_synced} posts synced`
+        : 'Waiting for the sync worker...')
+    }
+
+    throw new Error('Sync is still running in the background; refresh again later')
+  }
+
   // Load posts on component mount
   useEffect(() => {
     fetchPosts()
@@ -135,10 +165,10 @@ export default function MyPostsPage() {
           <Button 
             variant="outline" 
             onClick={refreshPosts}
-            disabled={isLoading}
+            disabled={isLoading || isSyncing}
           >
-            <RefreshCw className={`mr-2 h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
-            {isLoading ? 'Fetching Posts...' : 'Refresh from LinkedIn'}
+            <RefreshCw className={`mr-2 h-4 w-4 ${isLoading || isSyncing ? 'animate-spin' : ''}`} />
+            {isSyncing ? (syncProgress || 'Syncing Posts...') : isLoading ? 'Fetching Posts...' : 'Refresh from LinkedIn'}
           </Button>
           <Button variant="outline" onClick={() => window.open('/dashboard/content', '_self')}>
             <Plus className="mr-2 h-4 w-4" />
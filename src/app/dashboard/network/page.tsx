@@ -6,7 +6,7 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Badge } from "@/components/ui/badge"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { User, UserPlus, Search, Building, Calendar, MessageSquare, TrendingUp, Star, RefreshCw, MapPin, Users, ExternalLink, FileText } from 'lucide-react'
+import { User, UserPlus, Search, Building, MessageSquare, TrendingUp, Star, RefreshCw, MapPin, Users, ExternalLink, FileText } from 'lucide-react'
 import { toast } from "sonner"
 import { AddConnectionModal } from '@/components/add-connection-modal'
 import { ConnectionPostsTable, type ConnectionPost, type PostStats } from '@/components/connection-posts-table'
@@ -18,7 +18,6 @@ interface Connection {
   company: string
   linkedinUrl: string
   profilePictureUrl?: string
-  lastEngagement: string
   engagementScore: number
   tags: string[]
   notes?: string
@@ -54,7 +53,7 @@ export default function NetworkPage() {
     try {
       if (showLoading) setIsLoading(true)
       // Use Supabase endpoint instead of Airtable
-      const res = await fetch('/api/connections/supabase/list', { cache: 'no-store' })
+      const res = await fetch('/api/connections/list', { cache: 'no-store' })
       if (!res.ok) {
         const errorData = await res.json()
         throw new Error(errorData.error || 'Failed to load connections')
@@ -249,7 +248,7 @@ export default function NetworkPage() {
         <TabsContent value="connections" className="space-y-4">
 
       {/* Stats */}
-      <div className="grid gap-4 md:grid-cols-4">
+      <div className="grid gap-4 md:grid-cols-3">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Total Connections</CardTitle>
@@ -272,17 +271,6 @@ export default function NetworkPage() {
           </CardContent>
         </Card>
 
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Recent Activity</CardTitle>
-            <Calendar className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">{connections.filter(c => c.lastEngagement?.includes('day')).length}</div>
-            <p className="text-xs text-muted-foreground">This week</p>
-          </CardContent>
-        </Card>
-
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Potential Clients</CardTitle>
@@ -376,8 +364,7 @@ export default function NetworkPage() {
                   
                   {connection.notes && <p className="text-sm text-muted-foreground">{connection.notes}</p>}
                   
-                  <div className="flex items-center justify-between pt-2">
-                    <span className="text-xs text-muted-foreground">Last engagement: {connection.lastEngagement}</span>
+                  <div className="flex items-center justify-end pt-2">
                     <div className="flex items-center gap-2">
                       <Button size="sm" variant="outline"><MessageSquare className="mr-2 h-4 w-4" />View Activity</Button>
                       <Button size="sm" variant="outline" asChild>
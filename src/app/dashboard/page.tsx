@@ -1,6 +1,7 @@
 import Link from "next/link"
 import { Button } from "@/components/ui/button"
 import { AirtableStats } from "@/components/airtable-stats"
+import { UsagePanel } from "@/components/usage-panel"
 
 export default function DashboardPage() {
   return (
@@ -15,6 +16,8 @@ export default function DashboardPage() {
       </div>
       
       <AirtableStats />
+
+      <UsagePanel />
     </div>
   )
 }
\ No newline at end of file
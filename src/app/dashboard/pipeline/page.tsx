@@ -0,0 +1,401 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { differenceInCalendarDays, format, formatDistanceToNowStrict, parseISO } from 'date-fns'
+import { ChevronLeft, ChevronRight, Clock, Plus, RefreshCw, Search, Trash2, User } from 'lucide-react'
+import { toast } from 'sonner'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { PipelineCardDialog, memberName } from '@/components/pipeline-card-dialog'
+import type { PipelineBoard, PipelineCandidate, PipelineCard, PipelineStage } from '@/lib/lead-pipeline'
+
+const EMPTY_BOARD: PipelineBoard = { stages: [], cards: [], members: [] }
+
+// Negative when the next action is overdue, 0 when it's due today
+const daysUntilDue = (card: PipelineCard) =>
+  card.next_action_at ? differenceInCalendarDays(parseISO(card.next_action_at), new Date()) : null
+
+const dueClass = (days: number | null) => {
+  if (days === null) return 'text-muted-foreground'
+  if (days < 0) return 'text-red-600 font-medium'
+  if (days === 0) return 'text-amber-600 font-medium'
+  return 'text-muted-foreground'
+}
+
+const byPosition = (a: PipelineCard, b: PipelineCard) => a.position - b.position
+
+export default function PipelinePage() {
+  const [board, setBoard] = useState<PipelineBoard>(EMPTY_BOARD)
+  const [isLoading, setIsLoading] = useState(true)
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+  const [selectedCard, setSelectedCard] = useState<PipelineCard | null>(null)
+  const [newStage, setNewStage] = useState('')
+  const [addOpen, setAddOpen] = useState(false)
+  const [query, setQuery] = useState('')
+  const [candidates, setCandidates] = useState<PipelineCandidate[]>([])
+  const [ownerFilter, setOwnerFilter] = useState<string | null>(null)
+
+  const fetchBoard = async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch('/api/pipeline')
+      const data = await response.json().catch(() => ({}))
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `HTTP ${response.status}`)
+      }
+
+      setBoard({ stages: data.stages, cards: data.cards, members: data.members })
+    } catch (error: any) {
+      console.error('Error fetching pipeline:', error)
+      toast.error(`Failed to load pipeline: ${error.message}`)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchBoard()
+  }, [])
+
+  // Search runs as the add dialog's query changes
+  useEffect(() => {
+    if (!addOpen) return
+
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/pipeline/candidates?q=${encodeURIComponent(query)}`)
+        const data = await response.json()
+        setCandidates(response.ok ? data.candidates : [])
+      } catch (error) {
+        console.error('Error searching pipeline candidates:', error)
+      }
+    }, 300)
+
+    return () => clearTimeout(timeout)
+  }, [addOpen, query])
+
+  const cardsIn = (stageId: string) =>
+    board.cards
+      .filter(card => card.stage_id === stageId && (!ownerFilter || card.owner_user_id === ownerFilter))
+      .sort(byPosition)
+
+  const replaceCard = (card: PipelineCard) =>
+    setBoard(current => ({ ...current, cards: current.cards.map(existing => existing.id === card.id ? card : existing) }))
+
+  const handleDragStart = (event: React.DragEvent, card: PipelineCard) => {
+    event.dataTransfer.setData('text/plain', card.id)
+    event.dataTransfer.effectAllowed = 'move'
+  }
+
+  const handleDragOver = (event: React.DragEvent, target: string) => {
+    event.preventDefault()
+    event.dataTransfer.dropEffect = 'move'
+    if (dropTarget !== target) setDropTarget(target)
+  }
+
+  // Dropping on a card puts the dragged one just above it; dropping on the column puts it at the bottom
+  const moveCard = async (cardId: string, stage: PipelineStage, before?: PipelineCard) => {
+    setDropTarget(null)
+    const card = board.cards.find(existing => existing.id === cardId)
+    if (!card || card.id === before?.id) return
+
+    const column = cardsIn(stage.id).filter(existing => existing.id !== cardId)
+    let position: number
+    if (before) {
+      const index = column.findIndex(existing => existing.id === before.id)
+      position = index > 0 ? (column[index - 1].position + before.position) / 2 : before.position - 1
+    } else {
+      position = column.length > 0 ? column[column.length - 1].position + 1 : 0
+    }
+
+    const changesStage = card.stage_id !== stage.id
+    const previous = board
+    replaceCard({ ...card, stage_id: stage.id, position, ...(changesStage && { stage_entered_at: new Date().toISOString() }) })
+
+    try {
+      const response = await fetch(`/api/pipeline/cards/${cardId}/move`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ stageId: stage.id, position })
+      })
+      const data = await response.json()
+
+      if (response.status === 409) {
+        // Someone else moved the card first; show the board as it is now
+        toast.error(data.error)
+        await fetchBoard()
+        return
+      }
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to move card')
+      }
+
+      replaceCard(data.card)
+      if (changesStage) toast.success(`${card.name} moved to ${stage.name}`)
+    } catch (error) {
+      console.error('Error moving pipeline card:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to move card')
+      setBoard(previous)
+    }
+  }
+
+  const dropOnStage = (event: React.DragEvent, stage: PipelineStage, before?: PipelineCard) => {
+    event.preventDefault()
+    event.stopPropagation()
+    moveCard(event.dataTransfer.getData('text/plain'), stage, before)
+  }
+
+  const addCard = async (candidate: PipelineCandidate) => {
+    try {
+      const response = await fetch('/api/pipeline/cards', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ subjectType: candidate.subjectType, subjectId: candidate.subjectId })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to add to pipeline')
+      }
+
+      setBoard(current => ({ ...current, cards: [...current.cards, data.card] }))
+      setCandidates(current => current.filter(existing => existing !== candidate))
+      toast.success(`${candidate.name} added to ${board.stages[0]?.name || 'the pipeline'}`)
+    } catch (error) {
+      console.error('Error adding to pipeline:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to add to pipeline')
+    }
+  }
+
+  const stageRequest = async (url: string, method: string, body?: object) => {
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to update stages')
+      }
+
+      await fetchBoard()
+      return true
+    } catch (error) {
+      console.error('Error updating pipeline stages:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to update stages')
+      return false
+    }
+  }
+
+  const addStage = async () => {
+    if (!newStage.trim()) return
+    if (await stageRequest('/api/pipeline/stages', 'POST', { name: newStage.trim() })) setNewStage('')
+  }
+
+  const renameStage = (stage: PipelineStage) => {
+    const name = prompt('Stage name', stage.name)
+    if (name && name.trim() !== stage.name) stageRequest(`/api/pipeline/stages/${stage.id}`, 'PATCH', { name: name.trim() })
+  }
+
+  const shiftStage = (index: number, offset: number) => {
+    const stageIds = board.stages.map(stage => stage.id)
+    const [moved] = stageIds.splice(index, 1)
+    stageIds.splice(index + offset, 0, moved)
+    stageRequest('/api/pipeline/stages', 'PUT', { stageIds })
+  }
+
+  const deleteStage = (stage: PipelineStage) => {
+    if (confirm(`Delete the "${stage.name}" stage?`)) stageRequest(`/api/pipeline/stages/${stage.id}`, 'DELETE')
+  }
+
+  const overdue = board.cards.filter(card => (daysUntilDue(card) ?? 0) < 0).length
+
+  return (
+    <div className="flex-1 space-y-4 p-8 pt-6">
+      <div className="flex items-center justify-between space-y-2">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">Pipeline</h2>
+          <p className="text-muted-foreground">
+            Leads, connections and commenters by stage; drag cards to move them
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Button variant="outline" onClick={fetchBoard} disabled={isLoading}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+          <Button onClick={() => setAddOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add to Pipeline
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge variant="outline">{board.cards.length} in pipeline</Badge>
+        {overdue > 0 && <Badge variant="destructive">{overdue} overdue</Badge>}
+        <span className="text-sm text-muted-foreground ml-2">Owner:</span>
+        <Button size="sm" variant={ownerFilter === null ? 'secondary' : 'ghost'} onClick={() => setOwnerFilter(null)}>
+          Everyone
+        </Button>
+        {board.members.map(member => (
+          <Button
+            key={member.user_id}
+            size="sm"
+            variant={ownerFilter === member.user_id ? 'secondary' : 'ghost'}
+            onClick={() => setOwnerFilter(member.user_id)}
+          >
+            {memberName(member)}
+          </Button>
+        ))}
+      </div>
+
+      <div className="flex gap-4 overflow-x-auto pb-4" onDragLeave={() => setDropTarget(null)}>
+        {board.stages.map((stage, index) => {
+          const cards = cardsIn(stage.id)
+
+          return (
+            <Card
+              key={stage.id}
+              className={`w-72 shrink-0 ${dropTarget === stage.id ? 'ring-2 ring-primary' : ''}`}
+              onDragOver={(event) => handleDragOver(event, stage.id)}
+              onDrop={(event) => dropOnStage(event, stage)}
+            >
+              <CardHeader className="pb-3">
+                <div className="flex items-center justify-between">
+                  <CardTitle className="text-sm font-medium cursor-pointer" onClick={() => renameStage(stage)} title="Rename">
+                    {stage.name}
+                    <span className="ml-2 text-muted-foreground">{cards.length}</span>
+                  </CardTitle>
+                  <div className="flex items-center">
+                    <Button variant="ghost" size="icon" className="h-6 w-6" disabled={index === 0} onClick={() => shiftStage(index, -1)}>
+                      <ChevronLeft className="h-3 w-3" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-6 w-6" disabled={index === board.stages.length - 1} onClick={() => shiftStage(index, 1)}>
+                      <ChevronRight className="h-3 w-3" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-6 w-6" disabled={cards.length > 0} onClick={() => deleteStage(stage)}>
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-2 min-h-[120px]">
+                {cards.map(card => {
+                  const days = daysUntilDue(card)
+                  const owner = board.members.find(member => member.user_id === card.owner_user_id)
+
+                  return (
+                    <div
+                      key={card.id}
+                      draggable
+                      onDragStart={(event) => handleDragStart(event, card)}
+                      onDragOver={(event) => handleDragOver(event, stage.id)}
+                      onDrop={(event) => dropOnStage(event, stage, card)}
+                      onClick={() => setSelectedCard(card)}
+                      className={`rounded-md border bg-background p-3 space-y-1 cursor-grab hover:bg-gray-50 ${days !== null && days < 0 ? 'border-red-300 bg-red-50' : ''}`}
+                    >
+                      <div className="flex items-start justify-between gap-2">
+                        <p className="text-sm font-medium line-clamp-1">{card.name}</p>
+                        {card.icp_score !== null && card.icp_score !== undefined && (
+                          <Badge variant="outline" className="shrink-0">ICP {card.icp_score}</Badge>
+                        )}
+                      </div>
+                      {(card.headline || card.company) && (
+                        <p className="text-xs text-muted-foreground line-clamp-2">
+                          {[card.headline, card.company].filter(Boolean).join(' · ')}
+                        </p>
+                      )}
+                      {card.next_action && (
+                        <p className={`text-xs ${dueClass(days)}`}>
+                          {card.next_action}
+                          {card.next_action_at && ` · ${days !== null && days < 0 ? 'overdue since' : 'due'} ${format(parseISO(card.next_action_at), 'd MMM')}`}
+                        </p>
+                      )}
+                      {!card.next_action && card.next_action_at && (
+                        <p className={`text-xs ${dueClass(days)}`}>Follow up {format(parseISO(card.next_action_at), 'd MMM')}</p>
+                      )}
+                      <div className="flex items-center justify-between text-xs text-muted-foreground">
+                        <span className="flex items-center gap-1">
+                          <Clock className="h-3 w-3" />
+                          {formatDistanceToNowStrict(new Date(card.stage_entered_at))} in stage
+                        </span>
+                        <span className="flex items-center gap-1">
+                          <User className="h-3 w-3" />
+                          {memberName(owner)}
+                        </span>
+                      </div>
+                    </div>
+                  )
+                })}
+              </CardContent>
+            </Card>
+          )
+        })}
+
+        {!isLoading && (
+          <div className="w-56 shrink-0 space-y-2">
+            <Input
+              placeholder="New stage"
+              value={newStage}
+              onChange={(e) => setNewStage(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addStage()}
+            />
+            <Button variant="outline" className="w-full" onClick={addStage} disabled={!newStage.trim()}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Stage
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <Dialog open={addOpen} onOpenChange={setAddOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Add to Pipeline</DialogTitle>
+            <DialogDescription>
+              Leads and connections not on the board yet. Commenters can be added from the Comment Inbox.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="relative">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input className="pl-8" placeholder="Search by name, company or headline" value={query} onChange={(e) => setQuery(e.target.value)} />
+          </div>
+          <div className="max-h-80 space-y-2 overflow-y-auto">
+            {candidates.length === 0 && <p className="text-sm text-muted-foreground">No matches</p>}
+            {candidates.map(candidate => (
+              <div key={`${candidate.subjectType}:${candidate.subjectId}`} className="flex items-center justify-between gap-2 rounded-md border p-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium line-clamp-1">{candidate.name}</p>
+                  <p className="text-xs text-muted-foreground line-clamp-1">
+                    {candidate.subjectType === 'lead' ? 'Lead' : 'Connection'}
+                    {candidate.icpScore !== undefined && ` · ICP ${candidate.icpScore}`}
+                    {(candidate.headline || candidate.company) && ` · ${[candidate.headline, candidate.company].filter(Boolean).join(', ')}`}
+                  </p>
+                </div>
+                <Button size="sm" variant="outline" onClick={() => addCard(candidate)}>
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <PipelineCardDialog
+        card={selectedCard}
+        members={board.members}
+        onOpenChange={(open) => !open && setSelectedCard(null)}
+        onUpdated={replaceCard}
+        onRemoved={(cardId) => setBoard(current => ({ ...current, cards: current.cards.filter(card => card.id !== cardId) }))}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,20 @@
+"use client"
+
+import { ReviewQueue } from "@/components/review-queue"
+
+export default function ReviewPage() {
+  return (
+    <div className="flex-1 space-y-8 p-8 pt-6">
+      <div className="flex items-center justify-between space-y-2">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">Review</h2>
+          <p className="text-muted-foreground">
+            Posts and drafts waiting for approval, with review threads and a full change history
+          </p>
+        </div>
+      </div>
+
+      <ReviewQueue />
+    </div>
+  )
+}
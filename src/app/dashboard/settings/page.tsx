@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useEffect } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -8,8 +8,32 @@ import { Label } from "@/components/ui/label"
 import { Textarea } from "@/components/ui/textarea"
 import { Switch } from "@/components/ui/switch"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Badge } from "@/components/ui/badge"
 import { Key, Bot, Bell, Database, Shield, Save } from 'lucide-react'
 import { toast } from "sonner"
+import type { VoiceProfile } from '@/lib/voice-profiles'
+import { ApiTokensPanel } from '@/components/api-tokens-panel'
+import { WebhookEventsPanel } from '@/components/webhook-events-panel'
+import { ICPDefinitionPanel } from '@/components/icp-definition-panel'
+import { ICPCalibrationPanel } from '@/components/icp-calibration-panel'
+
+const NEW_PROFILE = 'new'
+const EXAMPLE_SEPARATOR = '\n---\n'
+
+const emptyVoiceForm = {
+  name: '',
+  description: '',
+  isDefault: false,
+  toneRules: '',
+  hooks: '',
+  ctaPatterns: '',
+  bannedPhrases: '',
+  examplePosts: ''
+}
+
+// One rule per line in the form, arrays in the API
+const toLines = (value: string) => value.split('\n').map(line => line.trim()).filter(Boolean)
+const toExamples = (value: string) => value.split(/\n-{3,}\n/).map(post => post.trim()).filter(Boolean)
 
 export default function SettingsPage() {
   const [apiKeys, setApiKeys] = useState({
@@ -18,11 +42,10 @@ export default function SettingsPage() {
     lindy: ''
   })
   
-  const [voiceSettings, setVoiceSettings] = useState({
-    tone: 'professional',
-    examples: '',
-    guidelines: ''
-  })
+  const [voiceProfiles, setVoiceProfiles] = useState<VoiceProfile[]>([])
+  const [selectedProfileId, setSelectedProfileId] = useState<string>(NEW_PROFILE)
+  const [voiceForm, setVoiceForm] = useState(emptyVoiceForm)
+  const [isSavingVoice, setIsSavingVoice] = useState(false)
   
   const [notifications, setNotifications] = useState({
     emailNotifications: true,
@@ -36,10 +59,110 @@ export default function SettingsPage() {
     toast.success('API keys saved successfully')
   }
 
-  const saveVoiceSettings = () => {
-    toast.success('Voice settings updated')
+  const loadVoiceProfiles = async (selectId?: string) => {
+    try {
+      const response = await fetch('/api/voice-profiles')
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load voice profiles')
+      }
+
+      const profiles: VoiceProfile[] = result.profiles || []
+      setVoiceProfiles(profiles)
+
+      const selected = profiles.find(profile => profile.id === selectId)
+        || profiles.find(profile => profile.is_default)
+        || profiles[0]
+      selectVoiceProfile(selected)
+    } catch (error) {
+      console.error('Error loading voice profiles:', error)
+      toast.error('Failed to load voice profiles')
+    }
   }
 
+  const selectVoiceProfile = (profile?: VoiceProfile) => {
+    if (!profile) {
+      setSelectedProfileId(NEW_PROFILE)
+      setVoiceForm(emptyVoiceForm)
+      return
+    }
+
+    setSelectedProfileId(profile.id)
+    setVoiceForm({
+      name: profile.name,
+      description: profile.description || '',
+      isDefault: profile.is_default,
+      toneRules: profile.tone_rules.join('\n'),
+      hooks: profile.hooks.join('\n'),
+      ctaPatterns: profile.cta_patterns.join('\n'),
+      bannedPhrases: profile.banned_phrases.join('\n'),
+      examplePosts: profile.example_posts.join(EXAMPLE_SEPARATOR)
+    })
+  }
+
+  useEffect(() => {
+    loadVoiceProfiles()
+  }, [])
+
+  const saveVoiceSettings = async () => {
+    if (!voiceForm.name.trim()) {
+      toast.error('Profile name is required')
+      return
+    }
+
+    setIsSavingVoice(true)
+    try {
+      const isNew = selectedProfileId === NEW_PROFILE
+      const response = await fetch(isNew ? '/api/voice-profiles' : `/api/voice-profiles/${selectedProfileId}`, {
+        method: isNew ? 'POST' : 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: voiceForm.name.trim(),
+          description: voiceForm.description.trim() || undefined,
+          is_default: voiceForm.isDefault,
+          tone_rules: toLines(voiceForm.toneRules),
+          hooks: toLines(voiceForm.hooks),
+          cta_patterns: toLines(voiceForm.ctaPatterns),
+          banned_phrases: toLines(voiceForm.bannedPhrases),
+          example_posts: toExamples(voiceForm.examplePosts)
+        })
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save voice profile')
+      }
+
+      toast.success(`Voice profile saved (version ${result.profile.current_version})`)
+      await loadVoiceProfiles(result.profile.id)
+    } catch (error) {
+      console.error('Error saving voice profile:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to save voice profile')
+    } finally {
+      setIsSavingVoice(false)
+    }
+  }
+
+  const deleteVoiceProfile = async () => {
+    if (selectedProfileId === NEW_PROFILE) return
+
+    try {
+      const response = await fetch(`/api/voice-profiles/${selectedProfileId}`, { method: 'DELETE' })
+      if (!response.ok) {
+        throw new Error('Failed to delete voice profile')
+      }
+
+      toast.success('Voice profile deleted')
+      await loadVoiceProfiles()
+    } catch (error) {
+      console.error('Error deleting voice profile:', error)
+      toast.error('Failed to delete voice profile')
+    }
+  }
+
+  const selectedProfile = voiceProfiles.find(profile => profile.id === selectedProfileId)
+
   const saveNotifications = () => {
     toast.success('Notification preferences saved')
   }
@@ -51,9 +174,10 @@ export default function SettingsPage() {
       </div>
 
       <Tabs defaultValue="api-keys" className="space-y-4">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="api-keys">API Keys</TabsTrigger>
           <TabsTrigger value="voice">Voice Training</TabsTrigger>
+          <TabsTrigger value="icp">ICP</TabsTrigger>
           <TabsTrigger value="notifications">Notifications</TabsTrigger>
           <TabsTrigger value="security">Security</TabsTrigger>
         </TabsList>
@@ -169,48 +293,158 @@ export default function SettingsPage() {
             </CardHeader>
             <CardContent className="space-y-6">
               <div className="space-y-2">
-                <Label>Writing Tone</Label>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="voice-profile">Voice Profile</Label>
+                  {selectedProfile && (
+                    <Badge variant="outline">Version {selectedProfile.current_version}</Badge>
+                  )}
+                </div>
                 <select
+                  id="voice-profile"
                   className="w-full p-2 border rounded"
-                  value={voiceSettings.tone}
-                  onChange={(e) => setVoiceSettings({ ...voiceSettings, tone: e.target.value })}
+                  value={selectedProfileId}
+                  onChange={(e) => selectVoiceProfile(voiceProfiles.find(profile => profile.id === e.target.value))}
                 >
-                  <option value="professional">Professional & Authoritative</option>
-                  <option value="friendly">Friendly & Approachable</option>
-                  <option value="inspirational">Inspirational & Motivating</option>
-                  <option value="educational">Educational & Informative</option>
+                  {voiceProfiles.map(profile => (
+                    <option key={profile.id} value={profile.id}>
+                      {profile.name}{profile.is_default ? ' (default)' : ''}
+                    </option>
+                  ))}
+                  <option value={NEW_PROFILE}>+ New profile</option>
                 </select>
               </div>
 
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="voice-name">Profile Name</Label>
+                  <Input
+                    id="voice-name"
+                    placeholder="Andrew Tallents"
+                    value={voiceForm.name}
+                    onChange={(e) => setVoiceForm({ ...voiceForm, name: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="voice-description">Description</Label>
+                  <Input
+                    id="voice-description"
+                    placeholder="CEO coaching voice for LinkedIn"
+                    value={voiceForm.description}
+                    onChange={(e) => setVoiceForm({ ...voiceForm, description: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label>Default Profile</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Used when a generation job doesn't name a profile
+                  </p>
+                </div>
+                <Switch
+                  checked={voiceForm.isDefault}
+                  onCheckedChange={(checked) => setVoiceForm({ ...voiceForm, isDefault: checked })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="tone-rules">Tone Rules</Label>
+                <Textarea
+                  id="tone-rules"
+                  placeholder={"Conversational but authoritative\nShort paragraphs (1-3 sentences)"}
+                  rows={4}
+                  value={voiceForm.toneRules}
+                  onChange={(e) => setVoiceForm({ ...voiceForm, toneRules: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">One rule per line</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="hooks">Opening Hooks</Label>
+                <Textarea
+                  id="hooks"
+                  placeholder={"What if your biggest leadership advantage... was the thing you're most ashamed of?\nMost CEOs won't admit this:"}
+                  rows={3}
+                  value={voiceForm.hooks}
+                  onChange={(e) => setVoiceForm({ ...voiceForm, hooks: e.target.value })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="cta-patterns">Call to Action Patterns</Label>
+                <Textarea
+                  id="cta-patterns"
+                  placeholder="♻️ Repost if this might help another Founder today"
+                  rows={3}
+                  value={voiceForm.ctaPatterns}
+                  onChange={(e) => setVoiceForm({ ...voiceForm, ctaPatterns: e.target.value })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="banned-phrases">Banned Phrases</Label>
+                <Textarea
+                  id="banned-phrases"
+                  placeholder={"game-changer\nsynergy"}
+                  rows={3}
+                  value={voiceForm.bannedPhrases}
+                  onChange={(e) => setVoiceForm({ ...voiceForm, bannedPhrases: e.target.value })}
+                />
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="examples">Example Posts (Andrew's Writing)</Label>
                 <Textarea
                   id="examples"
-                  placeholder="Paste 3-5 examples of Andrew's LinkedIn posts here..."
-                  rows={6}
-                  value={voiceSettings.examples}
-                  onChange={(e) => setVoiceSettings({ ...voiceSettings, examples: e.target.value })}
+                  placeholder="Paste 3-5 examples of Andrew's LinkedIn posts here, separated by a line containing ---"
+                  rows={8}
+                  value={voiceForm.examplePosts}
+                  onChange={(e) => setVoiceForm({ ...voiceForm, examplePosts: e.target.value })}
                 />
                 <p className="text-xs text-muted-foreground">
                   These examples help the AI learn Andrew's writing style
                 </p>
               </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="guidelines">Writing Guidelines</Label>
-                <Textarea
-                  id="guidelines"
-                  placeholder="Add specific guidelines like: Always include a question at the end, Use personal anecdotes, etc."
-                  rows={4}
-                  value={voiceSettings.guidelines}
-                  onChange={(e) => setVoiceSettings({ ...voiceSettings, guidelines: e.target.value })}
-                />
+              <div className="flex gap-2">
+                <Button onClick={saveVoiceSettings} className="flex-1" disabled={isSavingVoice}>
+                  <Save className="mr-2 h-4 w-4" />
+                  {isSavingVoice ? 'Saving...' : 'Save Voice Profile'}
+                </Button>
+                {selectedProfileId !== NEW_PROFILE && (
+                  <Button variant="outline" onClick={deleteVoiceProfile} disabled={isSavingVoice}>
+                    Delete
+                  </Button>
+                )}
               </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
 
-              <Button onClick={saveVoiceSettings} className="w-full">
-                <Save className="mr-2 h-4 w-4" />
-                Save Voice Settings
-              </Button>
+        {/* ICP Tab */}
+        <TabsContent value="icp" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Ideal Customer Profile</CardTitle>
+              <CardDescription>
+                The roles, industries, weights and red flags prospects are scored against
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ICPDefinitionPanel />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Calibration</CardTitle>
+              <CardDescription>
+                How often each score band and criterion led to a call or a client, and weights that would fit better
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ICPCalibrationPanel />
             </CardContent>
           </Card>
         </TabsContent>
@@ -297,37 +531,25 @@ export default function SettingsPage() {
         <TabsContent value="security" className="space-y-4">
           <Card>
             <CardHeader>
-              <CardTitle>Security Settings</CardTitle>
+              <CardTitle>API Tokens</CardTitle>
               <CardDescription>
-                Manage access and security preferences
+                Let automations and webhooks call this workspace&apos;s API
               </CardDescription>
             </CardHeader>
-            <CardContent className="space-y-6">
-              <div className="space-y-4 text-sm">
-                <div className="p-4 border rounded-lg">
-                  <h4 className="font-medium mb-2">Two-Factor Authentication</h4>
-                  <p className="text-muted-foreground mb-3">
-                    Add an extra layer of security to your account
-                  </p>
-                  <Button variant="outline">Enable 2FA</Button>
-                </div>
-
-                <div className="p-4 border rounded-lg">
-                  <h4 className="font-medium mb-2">API Key Rotation</h4>
-                  <p className="text-muted-foreground mb-3">
-                    Regularly rotate your API keys for better security
-                  </p>
-                  <Button variant="outline">Rotate Keys</Button>
-                </div>
+            <CardContent>
+              <ApiTokensPanel />
+            </CardContent>
+          </Card>
 
-                <div className="p-4 border rounded-lg">
-                  <h4 className="font-medium mb-2">Activity Log</h4>
-                  <p className="text-muted-foreground mb-3">
-                    View recent activity and API usage
-                  </p>
-                  <Button variant="outline">View Activity</Button>
-                </div>
-              </div>
+          <Card>
+            <CardHeader>
+              <CardTitle>Webhook Deliveries</CardTitle>
+              <CardDescription>
+                Inspect and replay deliveries to the Lindy, research, influencer and comment webhooks
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <WebhookEventsPanel />
             </CardContent>
           </Card>
         </TabsContent>
@@ -0,0 +1,155 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { toast } from "sonner"
+import { formatDistanceToNow } from "date-fns"
+import { Copy, KeyRound, Trash2 } from "lucide-react"
+import type { ApiToken } from "@/lib/api-tokens"
+
+export function ApiTokensPanel() {
+  const [tokens, setTokens] = useState<ApiToken[]>([])
+  const [name, setName] = useState('')
+  const [newToken, setNewToken] = useState<string | null>(null)
+  const [creating, setCreating] = useState(false)
+  const [loading, setLoading] = useState(true)
+
+  const fetchTokens = async () => {
+    try {
+      const response = await fetch('/api/auth/tokens')
+      if (response.ok) {
+        const data = await response.json()
+        setTokens(data.tokens)
+      }
+    } catch (error) {
+      console.error('Error fetching API tokens:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchTokens()
+  }, [])
+
+  const createToken = async () => {
+    if (!name.trim()) return
+
+    setCreating(true)
+    try {
+      const response = await fetch('/api/auth/tokens', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create API token')
+      }
+
+      setNewToken(data.token)
+      setName('')
+      fetchTokens()
+    } catch (error) {
+      console.error('Error creating API token:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to create API token')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const revokeToken = async (token: ApiToken) => {
+    if (!confirm(`Revoke "${token.name}"? Automations using it will stop working.`)) return
+
+    try {
+      const response = await fetch(`/api/auth/tokens/${token.id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to revoke API token')
+      }
+      toast.success('Token revoked')
+      fetchTokens()
+    } catch (error) {
+      console.error('Error revoking API token:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to revoke API token')
+    }
+  }
+
+  const copyToken = async () => {
+    if (!newToken) return
+    await navigator.clipboard.writeText(newToken)
+    toast.success('Token copied')
+  }
+
+  return (
+    <div className="space-y-4 text-sm">
+      <p className="text-muted-foreground">
+        Automations such as Lindy webhooks call the API with{' '}
+        <code className="text-xs bg-muted px-1 py-0.5 rounded">Authorization: Bearer &lt;token&gt;</code>.
+        Tokens act on this workspace only.
+      </p>
+
+      <div className="flex items-end gap-2">
+        <div className="flex-1 space-y-2">
+          <Label htmlFor="token-name">New token</Label>
+          <Input
+            id="token-name"
+            placeholder="e.g. Lindy research webhook"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+        </div>
+        <Button onClick={createToken} disabled={creating || !name.trim()}>
+          <KeyRound className="mr-2 h-4 w-4" />
+          Create
+        </Button>
+      </div>
+
+      {newToken && (
+        <div className="p-3 border rounded-lg bg-muted/50 space-y-2">
+          <p className="font-medium">Copy this token now; it won&apos;t be shown again</p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 text-xs break-all">{newToken}</code>
+            <Button variant="outline" size="sm" onClick={copyToken}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-muted-foreground">Loading...</p>
+      ) : tokens.length === 0 ? (
+        <p className="text-muted-foreground">No API tokens yet</p>
+      ) : (
+        <div className="space-y-2">
+          {tokens.map(token => (
+            <div key={token.id} className="flex items-center justify-between p-3 border rounded-lg">
+              <div>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{token.name}</span>
+                  {token.revoked_at && <Badge variant="secondary">Revoked</Badge>}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  <code>{token.token_prefix}…</code>
+                  {' · created '}{formatDistanceToNow(new Date(token.created_at), { addSuffix: true })}
+                  {' · '}{token.last_used_at
+                    ? `last used ${formatDistanceToNow(new Date(token.last_used_at), { addSuffix: true })}`
+                    : 'never used'}
+                </p>
+              </div>
+              {!token.revoked_at && (
+                <Button variant="ghost" size="sm" onClick={() => revokeToken(token)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
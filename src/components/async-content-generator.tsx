@@ -8,13 +8,40 @@ import { Label } from "@/components/ui/label"
 import { Textarea } from "@/components/ui/textarea"
 import { Progress } from "@/components/ui/progress"
 import { toast } from "sonner"
-import { Sparkles, Copy, Clock, CheckCircle, XCircle, RefreshCw } from "lucide-react"
-import { SupabaseService, ContentJob, ContentDraft } from "../lib/supabase"
+import { Sparkles, Copy, Clock, CheckCircle, XCircle, RefreshCw, AlertTriangle, Lightbulb } from "lucide-react"
+import { SupabaseService, ContentJob, ContentDraft, VoiceScoreRule, Platform, ResearchProviderName } from "../lib/supabase"
+import type { VoiceProfile } from "../lib/voice-profiles"
+import type { IdeaOverlap } from "../lib/idea-backlog"
+import { DraftRevisionPanel } from "./draft-revision-panel"
+import { DraftClaims, HighlightedDraftBody } from "./draft-claims"
 
 interface AsyncContentGeneratorProps {
   onContentGenerated?: (drafts: ContentDraft[]) => void
 }
 
+const VOICE_RULE_LABELS: Record<VoiceScoreRule['rule'], string> = {
+  hashtags: 'Hashtags',
+  paragraph_length: 'Paragraph length',
+  em_dash_density: 'Em-dashes',
+  question_density: 'Questions',
+  signature_cta: 'Signature CTA',
+  hook_pattern: 'Hook pattern'
+}
+
+const PLATFORM_LABELS: Record<Platform, string> = {
+  linkedin: 'LinkedIn',
+  twitter: 'X',
+  instagram: 'Instagram',
+  facebook: 'Facebook'
+}
+
+// Providers that search for news; pasted URLs are handled separately by the manual provider
+const RESEARCH_PROVIDER_LABELS: Record<Exclude<ResearchProviderName, 'manual'>, string> = {
+  firecrawl: 'Web search',
+  perplexity: 'Perplexity',
+  rss: 'RSS feeds'
+}
+
 interface JobStatus {
   id: string
   queueJobId?: string
@@ -31,13 +58,19 @@ interface JobStatus {
 export function AsyncContentGenerator({ onContentGenerated }: AsyncContentGeneratorProps) {
   const [topic, setTopic] = useState("")
   const [voiceGuidelines, setVoiceGuidelines] = useState("")
-  const [platform, setPlatform] = useState("linkedin")
+  const [platforms, setPlatforms] = useState<Platform[]>(["linkedin"])
+  const [researchProviders, setResearchProviders] = useState<ResearchProviderName[]>(["firecrawl"])
+  const [sourceUrls, setSourceUrls] = useState("")
   const [isGenerating, setIsGenerating] = useState(false)
   const [currentJob, setCurrentJob] = useState<JobStatus | null>(null)
   const [jobDrafts, setJobDrafts] = useState<ContentDraft[]>([])
   const [subscription, setSubscription] = useState<any>(null)
   const [pollingInterval, setPollingInterval] = useState<NodeJS.Timeout | null>(null)
   const [isSavingVoice, setIsSavingVoice] = useState(false)
+  const [voiceProfiles, setVoiceProfiles] = useState<VoiceProfile[]>([])
+  const [voiceProfileId, setVoiceProfileId] = useState("")
+  const [ideaId, setIdeaId] = useState("")
+  const [topicOverlap, setTopicOverlap] = useState<IdeaOverlap | null>(null)
 
   // Load saved voice guidelines
   useEffect(() => {
@@ -47,6 +80,79 @@ export function AsyncContentGenerator({ onContentGenerated }: AsyncContentGenera
     }
   }, [])
 
+  // Load stored voice profiles (an empty selection lets the worker use the default profile)
+  useEffect(() => {
+    const loadVoiceProfiles = async () => {
+      try {
+        const response = await fetch('/api/voice-profiles')
+        if (response.ok) {
+          const result = await response.json()
+          setVoiceProfiles(result.profiles || [])
+        }
+      } catch (error) {
+        console.error('Error loading voice profiles:', error)
+      }
+    }
+
+    loadVoiceProfiles()
+  }, [])
+
+  // Arriving from the idea backlog prefills the topic and links the job back to the idea
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+    const ideaTopic = params.get('topic')
+    if (ideaTopic) {
+      setTopic(ideaTopic)
+      setIdeaId(params.get('ideaId') || "")
+    }
+  }, [])
+
+  // Warn while typing if the topic repeats something posted recently
+  useEffect(() => {
+    if (topic.trim().length < 10) {
+      setTopicOverlap(null)
+      return
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch('/api/ideas/overlap', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ topic: topic.trim().substring(0, 300), ideaId: ideaId || undefined })
+        })
+        if (response.ok) {
+          const result = await response.json()
+          setTopicOverlap(result.overlap)
+        }
+      } catch (error) {
+        console.error('Error checking topic overlap:', error)
+      }
+    }, 800)
+
+    return () => clearTimeout(timeout)
+  }, [topic, ideaId])
+
+  const handleSaveIdea = async (draft: ContentDraft) => {
+    try {
+      const response = await fetch('/api/ideas/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ source: 'research', jobId: draft.job_id, ideaNumbers: [draft.metadata.idea_number] })
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to save idea')
+      }
+
+      toast.success('Idea saved to the backlog')
+    } catch (error) {
+      console.error('Error saving idea to backlog:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to save idea')
+    }
+  }
+
   const handleSaveVoiceGuidelines = () => {
     setIsSavingVoice(true)
     try {
@@ -204,6 +310,12 @@ export function AsyncContentGenerator({ onContentGenerated }: AsyncContentGenera
       return
     }
 
+    const pastedUrls = sourceUrls.split(/\s+/).map(url => url.trim()).filter(Boolean)
+    if (researchProviders.length === 0 && pastedUrls.length === 0) {
+      toast.error("Choose a research source or paste some URLs")
+      return
+    }
+
     setIsGenerating(true)
     setCurrentJob(null)
     setJobDrafts([])
@@ -222,10 +334,14 @@ export function AsyncContentGenerator({ onContentGenerated }: AsyncContentGenera
         },
         body: JSON.stringify({
           topic,
-          platform,
+          platforms,
+          researchProviders: researchProviders.length > 0 ? researchProviders : undefined,
+          sourceUrls: pastedUrls.length > 0 ? pastedUrls : undefined,
           voiceGuidelines: voiceGuidelines.trim() || undefined,
+          voiceProfileId: voiceProfileId || undefined,
           postType: 'Thought Leadership',
-          tone: 'professional'
+          tone: 'professional',
+          ideaId: ideaId || undefined
         })
       })
 
@@ -249,7 +365,7 @@ export function AsyncContentGenerator({ onContentGenerated }: AsyncContentGenera
           status: 'pending',
           progress: 0,
           topic,
-          platform,
+          platform: platforms.map(p => PLATFORM_LABELS[p]).join(', '),
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString()
         })
@@ -289,6 +405,32 @@ export function AsyncContentGenerator({ onContentGenerated }: AsyncContentGenera
     }
   }
 
+  const getScoreColor = (score: number) => {
+    if (score >= 80) return 'text-green-600'
+    if (score >= 60) return 'text-yellow-600'
+    return 'text-red-600'
+  }
+
+  const bestDraftId = jobDrafts.reduce<ContentDraft | null>((best, draft) =>
+    !best || (draft.content.estimated_voice_score || 0) > (best.content.estimated_voice_score || 0) ? draft : best
+  , null)?.id
+
+  const togglePlatform = (value: Platform) => {
+    setPlatforms(current => {
+      if (current.includes(value)) {
+        // Keep at least one platform selected
+        return current.length > 1 ? current.filter(p => p !== value) : current
+      }
+      return [...current, value]
+    })
+  }
+
+  const toggleResearchProvider = (value: ResearchProviderName) => {
+    setResearchProviders(current =>
+      current.includes(value) ? current.filter(p => p !== value) : [...current, value]
+    )
+  }
+
   const handleCopyContent = (content: string) => {
     navigator.clipboard.writeText(content)
     toast.success("Content copied to clipboard!")
@@ -305,7 +447,7 @@ export function AsyncContentGenerator({ onContentGenerated }: AsyncContentGenera
               AI Content Generator
             </CardTitle>
             <CardDescription>
-              Generate LinkedIn content with real-time progress updates
+              Generate content for LinkedIn, X, Instagram and Facebook with real-time progress updates
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
@@ -316,11 +458,95 @@ export function AsyncContentGenerator({ onContentGenerated }: AsyncContentGenera
                 value={topic}
                 onChange={(e) => setTopic(e.target.value)}
                 className="min-h-[175px]"
-                placeholder="Enter your topic, idea, or key message for the LinkedIn post..."
+                placeholder="Enter your topic, idea, or key message for the post..."
                 disabled={isGenerating}
               />
+              {topicOverlap?.warning && (
+                <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md text-xs text-yellow-800 space-y-1">
+                  <p className="flex items-center gap-1 font-medium">
+                    <AlertTriangle className="h-3.5 w-3.5" />
+                    {topicOverlap.warning}
+                  </p>
+                  {topicOverlap.recent_posts.map(post => (
+                    <a
+                      key={post.urn}
+                      href={post.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="block truncate hover:underline"
+                    >
+                      {new Date(post.posted_at).toLocaleDateString()}: {post.excerpt}
+                    </a>
+                  ))}
+                  {topicOverlap.similar_ideas.map(idea => (
+                    <p key={idea.id} className="truncate">Backlog: {idea.topic}</p>
+                  ))}
+                </div>
+              )}
             </div>
             
+            <div className="space-y-2">
+              <Label>Platforms</Label>
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(PLATFORM_LABELS) as Platform[]).map(value => (
+                  <Button
+                    key={value}
+                    type="button"
+                    variant={platforms.includes(value) ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => togglePlatform(value)}
+                    disabled={isGenerating}
+                  >
+                    {PLATFORM_LABELS[value]}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Research Sources</Label>
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(RESEARCH_PROVIDER_LABELS) as Array<keyof typeof RESEARCH_PROVIDER_LABELS>).map(value => (
+                  <Button
+                    key={value}
+                    type="button"
+                    variant={researchProviders.includes(value) ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => toggleResearchProvider(value)}
+                    disabled={isGenerating}
+                  >
+                    {RESEARCH_PROVIDER_LABELS[value]}
+                  </Button>
+                ))}
+              </div>
+              <Textarea
+                id="sourceUrls"
+                value={sourceUrls}
+                onChange={(e) => setSourceUrls(e.target.value)}
+                className="min-h-[80px] text-sm"
+                placeholder="Optional: paste article URLs to research (one per line)"
+                disabled={isGenerating}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="voiceProfile">Voice Profile</Label>
+              <select
+                id="voiceProfile"
+                className="w-full p-2 border rounded text-sm"
+                value={voiceProfileId}
+                onChange={(e) => setVoiceProfileId(e.target.value)}
+                disabled={isGenerating}
+              >
+                <option value="">Default voice profile</option>
+                {voiceProfiles.map(profile => (
+                  <option key={profile.id} value={profile.id}>
+                    {profile.name} (v{profile.current_version})
+                  </option>
+                ))}
+              </select>
+            </div>
+
             <div className="space-y-2">
               <div className="flex items-center justify-between">
                 <Label htmlFor="voiceGuidelines">Voice Guidelines</Label>
@@ -424,11 +650,28 @@ export function AsyncContentGenerator({ onContentGenerated }: AsyncContentGenera
               <Card key={draft.id}>
                 <CardHeader>
                   <CardTitle className="flex items-center justify-between">
-                    <span>Variation {draft.variant_number}: {draft.agent_name.replace('_', ' ')}</span>
+                    <span>Variation {draft.metadata.idea_number || draft.variant_number}: {draft.agent_name.replace('_', ' ')}</span>
                     <div className="flex items-center gap-2">
+                      {draft.content.platform && (
+                        <Badge variant="secondary">{PLATFORM_LABELS[draft.content.platform]}</Badge>
+                      )}
+                      {jobDrafts.length > 1 && draft.id === bestDraftId && (
+                        <Badge>Best voice match</Badge>
+                      )}
                       <Badge variant="outline">
                         Score: {draft.content.estimated_voice_score}%
                       </Badge>
+                      {draft.metadata.idea_number && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleSaveIdea(draft)}
+                          title="Keep this research idea in the backlog for a later post"
+                        >
+                          <Lightbulb className="h-4 w-4 mr-1" />
+                          Save idea
+                        </Button>
+                      )}
                       <Button
                         variant="outline"
                         size="sm"
@@ -441,12 +684,72 @@ export function AsyncContentGenerator({ onContentGenerated }: AsyncContentGenera
                   </CardTitle>
                   <CardDescription>
                     {draft.content.approach} • {draft.metadata.token_count} tokens • {draft.metadata.generation_time_ms}ms
+                    {draft.metadata.style_lint?.revised && ' • revised for style'}
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
-                  <div className="whitespace-pre-wrap text-sm mb-4">
-                    {draft.content.body}
-                  </div>
+                  {draft.content.platform_content?.platform === 'twitter' ? (
+                    <div className="space-y-2 mb-4">
+                      {draft.content.platform_content.tweets.map((tweet, tweetIndex) => (
+                        <div key={tweetIndex} className="p-2 border rounded-md text-sm whitespace-pre-wrap">
+                          {tweet}
+                          <span className={`block text-right text-xs ${tweet.length > 280 ? 'text-red-600' : 'text-muted-foreground'}`}>
+                            {tweet.length}/280
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="whitespace-pre-wrap text-sm mb-4">
+                      <HighlightedDraftBody body={draft.content.body} report={draft.metadata.fact_check} />
+                    </div>
+                  )}
+                  {draft.metadata.platform_validation && draft.metadata.platform_validation.length > 0 && (
+                    <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-xs text-red-800 space-y-1">
+                      {draft.metadata.platform_validation.map((issue, issueIndex) => (
+                        <p key={issueIndex}>⛔ {issue.message}</p>
+                      ))}
+                    </div>
+                  )}
+                  {draft.metadata.style_lint && draft.metadata.style_lint.remaining.length > 0 && (
+                    <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-md text-xs text-yellow-800 space-y-1">
+                      {draft.metadata.style_lint.remaining.map((issue) => (
+                        <p key={issue.rule}>⚠️ {issue.message}</p>
+                      ))}
+                    </div>
+                  )}
+                  {draft.metadata.voice_score_breakdown && (
+                    <div className="mb-4 p-3 bg-muted/50 rounded-md space-y-2">
+                      <div className="flex justify-between text-xs text-muted-foreground">
+                        <span className="font-medium">Voice match breakdown</span>
+                        <span>vs {draft.metadata.voice_score_breakdown.baseline_post_count} historical posts</span>
+                      </div>
+                      {draft.metadata.voice_score_breakdown.rules.map((rule) => (
+                        <div key={rule.rule} className="grid grid-cols-[120px_1fr_40px] items-center gap-2 text-xs" title={rule.detail}>
+                          <span>{VOICE_RULE_LABELS[rule.rule]}</span>
+                          <Progress value={rule.score} className="h-1.5" />
+                          <span className={`text-right ${getScoreColor(rule.score)}`}>{rule.score}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  <DraftClaims report={draft.metadata.fact_check} />
+                  {draft.metadata.research_provenance && draft.metadata.research_provenance.length > 0 && (
+                    <div className="mb-4 space-y-1 text-xs">
+                      <p className="font-medium text-muted-foreground">Sources</p>
+                      {draft.metadata.research_provenance.map((source) => (
+                        <a
+                          key={source.url}
+                          href={source.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="block truncate text-blue-600 hover:underline"
+                        >
+                          {source.title || source.url}
+                        </a>
+                      ))}
+                    </div>
+                  )}
                   {draft.content.hashtags.length > 0 && (
                     <div className="flex flex-wrap gap-1">
                       {draft.content.hashtags.map((tag, tagIndex) => (
@@ -456,6 +759,7 @@ export function AsyncContentGenerator({ onContentGenerated }: AsyncContentGenera
                       ))}
                     </div>
                   )}
+                  <DraftRevisionPanel draft={draft} onCopy={handleCopyContent} />
                 </CardContent>
               </Card>
             ))}
@@ -0,0 +1,140 @@
+"use client"
+
+import { useState } from "react"
+import { Loader2, Send, Sparkles } from "lucide-react"
+import { toast } from "sonner"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import type { ReplyContext, ReplyVariation } from "@/lib/comment-replies"
+
+interface CommentReplyComposerProps {
+  commentId: string
+  commenterName: string
+  onSent?: () => void
+}
+
+export function CommentReplyComposer({ commentId, commenterName, onSent }: CommentReplyComposerProps) {
+  const [replyId, setReplyId] = useState<string | null>(null)
+  const [variations, setVariations] = useState<ReplyVariation[]>([])
+  const [context, setContext] = useState<ReplyContext | null>(null)
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null)
+  const [text, setText] = useState("")
+  const [isGenerating, setIsGenerating] = useState(false)
+  const [isSending, setIsSending] = useState(false)
+
+  const generateReplies = async () => {
+    setIsGenerating(true)
+    try {
+      const response = await fetch('/api/content/comment', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ mode: 'reply', commentId })
+      })
+      const data = await response.json().catch(() => ({}))
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `HTTP ${response.status}`)
+      }
+
+      setReplyId(data.replyId)
+      setVariations(data.comments)
+      setContext(data.context)
+      setSelectedIndex(null)
+      setText("")
+    } catch (error: any) {
+      console.error('Error generating replies:', error)
+      toast.error(`Failed to draft replies: ${error.message}`)
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  const selectVariation = (index: number) => {
+    setSelectedIndex(index)
+    setText(variations[index].text)
+  }
+
+  const sendReply = async () => {
+    if (!replyId || !text.trim()) return
+
+    setIsSending(true)
+    try {
+      const response = await fetch('/api/linkedin/comments/reply', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ replyId, text: text.trim() })
+      })
+      const data = await response.json().catch(() => ({}))
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `HTTP ${response.status}`)
+      }
+
+      toast.success(`Reply to ${commenterName} sent to LinkedIn`)
+      onSent?.()
+    } catch (error: any) {
+      console.error('Error sending reply:', error)
+      toast.error(`Failed to send reply: ${error.message}`)
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  if (!replyId) {
+    return (
+      <Button variant="outline" size="sm" onClick={generateReplies} disabled={isGenerating}>
+        {isGenerating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Sparkles className="mr-2 h-4 w-4" />}
+        {isGenerating ? 'Drafting replies...' : 'Draft reply'}
+      </Button>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      {context && (
+        <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+          <span>Drafted for {context.commenter.name}</span>
+          {context.commenter.role && (
+            <span>• {context.commenter.role}{context.commenter.company ? ` at ${context.commenter.company}` : ''}</span>
+          )}
+          {context.voiceProfile && <Badge variant="outline" className="text-xs">{context.voiceProfile}</Badge>}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {variations.map((variation, index) => (
+          <button
+            key={index}
+            type="button"
+            onClick={() => selectVariation(index)}
+            className={`w-full rounded-md border p-3 text-left text-sm transition-colors hover:bg-muted ${
+              selectedIndex === index ? 'border-primary bg-muted' : ''
+            }`}
+          >
+            <p className="whitespace-pre-wrap">{variation.text}</p>
+            <p className="mt-1 text-xs text-muted-foreground">{variation.approach} • {variation.length} chars</p>
+          </button>
+        ))}
+      </div>
+
+      <Textarea
+        value={text}
+        onChange={(event) => setText(event.target.value)}
+        placeholder="Pick a variation above, then edit it here before sending"
+        rows={4}
+      />
+
+      <div className="flex items-center justify-end space-x-2">
+        <Button variant="ghost" size="sm" onClick={generateReplies} disabled={isGenerating || isSending}>
+          {isGenerating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Sparkles className="mr-2 h-4 w-4" />}
+          Regenerate
+        </Button>
+        <Button size="sm" onClick={sendReply} disabled={!text.trim() || isSending}>
+          {isSending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+          Send reply
+        </Button>
+      </div>
+    </div>
+  )
+}
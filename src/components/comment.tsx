@@ -1,7 +1,7 @@
 "use client"
 
 import { useState } from "react"
-import { format } from "date-fns"
+import { format, formatDistanceToNow } from "date-fns"
 import { ThumbsUp, Heart, Lightbulb, Trophy, Users, MessageSquare, User, ChevronDown, ChevronUp, Search, Loader2 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
@@ -9,14 +9,73 @@ import { Card, CardContent } from "@/components/ui/card"
 import { Separator } from "@/components/ui/separator"
 import { LinkedInComment } from "../lib/linkedin-scraper"
 import { ProspectProfile } from "../lib/icp-scorer"
+import type { CommentThread } from "../lib/comment-threads"
+import type { DBLinkedInComment } from "../lib/supabase-linkedin"
 import { toast } from "sonner"
 
+export type ReplyStatus = "needs_reply" | "replied"
+
 interface CommentProps {
   comment: LinkedInComment
   isReply?: boolean
+  replyStatus?: ReplyStatus
+  // Comments written by the post's author, badged in the thread
+  ownerCommentIds?: Set<string>
   onResearchCommenter?: (prospect: ProspectProfile) => void
 }
 
+const rowToComment = (row: DBLinkedInComment): LinkedInComment => {
+  const postedAt = new Date(row.posted_at)
+  return {
+    comment_id: row.comment_id,
+    text: row.text,
+    posted_at: {
+      timestamp: postedAt.getTime(),
+      date: row.posted_at,
+      relative: formatDistanceToNow(postedAt, { addSuffix: true })
+    },
+    is_edited: row.is_edited,
+    is_pinned: row.is_pinned,
+    comment_url: row.comment_url,
+    author: {
+      name: row.author_name,
+      headline: row.author_headline,
+      profile_url: row.author_profile_url,
+      profile_picture: row.author_profile_picture
+    },
+    stats: {
+      total_reactions: row.total_reactions || 0,
+      reactions: {
+        like: row.like_reactions || 0,
+        appreciation: row.appreciation_reactions || 0,
+        empathy: row.empathy_reactions || 0,
+        interest: row.interest_reactions || 0,
+        praise: row.praise_reactions || 0
+      },
+      comments: row.comments_count || 0
+    }
+  }
+}
+
+// Stored comment rows in the scraper's shape, with replies nested under their comment
+export function threadToComment({ comment, replies }: CommentThread): LinkedInComment {
+  return { ...rowToComment(comment), replies: replies.map(rowToComment) }
+}
+
+export function replyStatusOf({ comment }: CommentThread): ReplyStatus | undefined {
+  if (comment.needs_reply) return "needs_reply"
+  return comment.owner_replied_at ? "replied" : undefined
+}
+
+export function ownerCommentIdsOf(threads: CommentThread[]): Set<string> {
+  return new Set(
+    threads
+      .flatMap(({ comment, replies }) => [comment, ...replies])
+      .filter(row => row.is_owner_comment)
+      .map(row => row.comment_id)
+  )
+}
+
 const REACTION_ICONS = {
   like: ThumbsUp,
   appreciation: Users,
@@ -33,7 +92,7 @@ const REACTION_COLORS = {
   praise: "text-green-500",
 }
 
-export function Comment({ comment, isReply = false, onResearchCommenter }: CommentProps) {
+export function Comment({ comment, isReply = false, replyStatus, ownerCommentIds, onResearchCommenter }: CommentProps) {
   const [showReplies, setShowReplies] = useState(false)
   const [imageError, setImageError] = useState(false)
   const [isResearching, setIsResearching] = useState(false)
@@ -144,11 +203,26 @@ export function Comment({ comment, isReply = false, onResearchCommenter }: Comme
                   <h4 className="font-semibold text-sm truncate">
                     {comment.author.name}
                   </h4>
+                  {ownerCommentIds?.has(comment.comment_id) && (
+                    <Badge variant="outline" className="text-xs">
+                      Author
+                    </Badge>
+                  )}
                   {comment.is_pinned && (
                     <Badge variant="secondary" className="text-xs">
                       Pinned
                     </Badge>
                   )}
+                  {replyStatus === "needs_reply" && (
+                    <Badge variant="outline" className="text-xs border-amber-300 bg-amber-50 text-amber-700">
+                      Needs reply
+                    </Badge>
+                  )}
+                  {replyStatus === "replied" && (
+                    <Badge variant="outline" className="text-xs border-green-300 bg-green-50 text-green-700">
+                      Replied
+                    </Badge>
+                  )}
                   {comment.is_edited && (
                     <span className="text-xs text-muted-foreground">
                       (edited)
@@ -239,6 +313,7 @@ export function Comment({ comment, isReply = false, onResearchCommenter }: Comme
                   key={reply.comment_id}
                   comment={reply}
                   isReply={true}
+                  ownerCommentIds={ownerCommentIds}
                   onResearchCommenter={onResearchCommenter}
                 />
               ))}
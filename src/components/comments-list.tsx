@@ -7,13 +7,16 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Separator } from "@/components/ui/separator"
 import { Badge } from "@/components/ui/badge"
 import { toast } from "sonner"
-import { Comment } from "./comment"
+import { Comment, ownerCommentIdsOf, replyStatusOf, threadToComment } from "./comment"
 import { ProspectResearchCard } from "./prospect-research-card"
 import { LinkedInComment } from "../lib/linkedin-scraper"
 import { ProspectProfile } from "../lib/icp-scorer"
+import type { CommentThread } from "../lib/comment-threads"
 
 interface CommentsListProps {
   postUrl: string
+  // Own posts have their comments stored as threads; other posts are read live from LinkedIn
+  postUrn?: string
   initialCommentsCount?: number
 }
 
@@ -36,8 +39,11 @@ interface CommentsApiResponse {
   details?: string
 }
 
-export function CommentsList({ postUrl, initialCommentsCount = 0 }: CommentsListProps) {
+export function CommentsList({ postUrl, postUrn, initialCommentsCount = 0 }: CommentsListProps) {
   const [comments, setComments] = useState<LinkedInComment[]>([])
+  // Stored threads; null until loaded, or when the post isn't synced and comments are read live
+  const [threads, setThreads] = useState<CommentThread[] | null>(null)
+  const [source, setSource] = useState<'stored' | 'live'>(postUrn ? 'stored' : 'live')
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [isExpanded, setIsExpanded] = useState(true)
@@ -48,6 +54,77 @@ export function CommentsList({ postUrl, initialCommentsCount = 0 }: CommentsList
   const [researchedProspect, setResearchedProspect] = useState<ProspectProfile | null>(null)
   const [researchCardOpen, setResearchCardOpen] = useState(false)
 
+  const applyThreads = (storedThreads: CommentThread[]) => {
+    setThreads(storedThreads)
+    setComments(storedThreads.map(threadToComment))
+    setTotalComments(storedThreads.length)
+    setHasLoaded(true)
+  }
+
+  const loadStoredComments = async () => {
+    if (!postUrn) return
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/linkedin/comments/sync/${encodeURIComponent(postUrn)}`)
+
+      // Not one of our synced posts; fall back to reading comments live
+      if (response.status === 404) {
+        setSource('live')
+        return
+      }
+
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `HTTP ${response.status}`)
+      }
+
+      applyThreads(data.data.threads)
+    } catch (error: any) {
+      console.error('Error loading stored comments:', error)
+      setError(error.message)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const syncComments = async () => {
+    if (!postUrn) return
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/linkedin/comments/sync/${encodeURIComponent(postUrn)}`, {
+        method: 'POST'
+      })
+
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `HTTP ${response.status}`)
+      }
+
+      applyThreads(data.data.threads)
+      toast.success(data.message || 'Comments synced')
+    } catch (error: any) {
+      console.error('Error syncing comments:', error)
+      setError(error.message)
+      toast.error(`Failed to sync comments: ${error.message}`)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    setThreads(null)
+    setComments([])
+    setHasLoaded(false)
+    setSource(postUrn ? 'stored' : 'live')
+    loadStoredComments()
+  }, [postUrn])
+
   const fetchComments = async (showToast = true) => {
     if (!postUrl) {
       setError('No post URL provided')
@@ -103,7 +180,11 @@ export function CommentsList({ postUrl, initialCommentsCount = 0 }: CommentsList
   }
 
   const handleRefreshComments = () => {
-    fetchComments()
+    if (threads) {
+      syncComments()
+    } else {
+      fetchComments()
+    }
   }
 
   const handleResearchCommenter = (prospect: ProspectProfile) => {
@@ -139,6 +220,8 @@ export function CommentsList({ postUrl, initialCommentsCount = 0 }: CommentsList
 
   const totalReplies = getTotalReplies(comments)
   const displayTotal = hasLoaded ? comments.length : totalComments
+  const needsReply = threads?.filter(thread => thread.comment.needs_reply).length || 0
+  const ownerCommentIds = threads ? ownerCommentIdsOf(threads) : undefined
 
   return (
     <div className="space-y-4">
@@ -150,6 +233,11 @@ export function CommentsList({ postUrl, initialCommentsCount = 0 }: CommentsList
             {displayTotal} comment{displayTotal !== 1 ? 's' : ''}
             {totalReplies > 0 && ` • ${totalReplies} repl${totalReplies !== 1 ? 'ies' : 'y'}`}
           </Badge>
+          {needsReply > 0 && (
+            <Badge variant="outline" className="border-amber-300 bg-amber-50 text-amber-700">
+              {needsReply} awaiting reply
+            </Badge>
+          )}
         </div>
 
         <div className="flex items-center space-x-2">
@@ -161,14 +249,14 @@ export function CommentsList({ postUrl, initialCommentsCount = 0 }: CommentsList
               disabled={isLoading}
             >
               <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
-              Refresh
+              {threads ? 'Sync from LinkedIn' : 'Refresh'}
             </Button>
           )}
         </div>
       </div>
 
       <div className="space-y-4">
-          {!hasLoaded && !isLoading && (
+          {!hasLoaded && !isLoading && source === 'live' && (
             <Card>
               <CardContent className="p-6 text-center">
                 <MessageSquare className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
@@ -207,7 +295,7 @@ export function CommentsList({ postUrl, initialCommentsCount = 0 }: CommentsList
                     <Button
                       variant="outline"
                       size="sm"
-                      onClick={() => fetchComments()}
+                      onClick={() => (source === 'stored' ? loadStoredComments() : fetchComments())}
                       className="border-red-300 text-red-700 hover:bg-red-100"
                     >
                       Try Again
@@ -224,7 +312,9 @@ export function CommentsList({ postUrl, initialCommentsCount = 0 }: CommentsList
                 <MessageSquare className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
                 <CardTitle className="text-lg mb-2">No Comments</CardTitle>
                 <CardDescription>
-                  This post doesn't have any comments yet.
+                  {threads
+                    ? "No comments stored for this post yet. Sync from LinkedIn to pull them in."
+                    : "This post doesn't have any comments yet."}
                 </CardDescription>
               </CardContent>
             </Card>
@@ -234,10 +324,12 @@ export function CommentsList({ postUrl, initialCommentsCount = 0 }: CommentsList
             <div className="space-y-4">
               <Separator />
               <div className="space-y-4">
-                {comments.map((comment) => (
+                {comments.map((comment, index) => (
                   <Comment
                     key={comment.comment_id}
                     comment={comment}
+                    replyStatus={threads ? replyStatusOf(threads[index]) : undefined}
+                    ownerCommentIds={ownerCommentIds}
                     onResearchCommenter={handleResearchCommenter}
                   />
                 ))}
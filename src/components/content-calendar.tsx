@@ -0,0 +1,522 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { toast } from "sonner"
+import { Calendar, ChevronLeft, ChevronRight, Clock, FileText, Inbox, TrendingUp, ExternalLink } from "lucide-react"
+import {
+  format,
+  startOfMonth,
+  endOfMonth,
+  startOfWeek,
+  endOfWeek,
+  eachDayOfInterval,
+  addMonths,
+  subMonths,
+  addWeeks,
+  subWeeks,
+  addDays,
+  isSameMonth,
+  isSameDay,
+  parseISO,
+  setHours,
+  setMinutes,
+  startOfDay
+} from "date-fns"
+import type { ContentPost } from "@/lib/airtable"
+import type { PostPublication } from "@/lib/publications"
+import type { PostingSlotSuggestions } from "@/lib/posting-slots"
+
+type CalendarView = 'month' | 'week'
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+const WEEK_HOURS = Array.from({ length: 17 }, (_, index) => index + 6) // 06:00-22:00
+const DEFAULT_HOUR = 9
+const LOCKED_STATUSES: PostPublication['status'][] = ['submitting', 'submitted', 'unknown', 'published']
+
+const hourKey = (date: Date) => format(date, "yyyy-MM-dd'T'H")
+
+interface CalendarData {
+  scheduled: ContentPost[]
+  unscheduled: ContentPost[]
+  publications: Record<string, PostPublication>
+}
+
+function PostChip({
+  post,
+  publication,
+  compact,
+  onDragStart
+}: {
+  post: ContentPost
+  publication?: PostPublication
+  compact?: boolean
+  onDragStart: (event: React.DragEvent, post: ContentPost) => void
+}) {
+  const locked = post.fields['Status'] === 'Published' || (!!publication && LOCKED_STATUSES.includes(publication.status))
+  const linkedInUrl = post.fields['LinkedIn URL'] || publication?.linkedin_url
+  const scheduled = post.fields['Scheduled Date'] ? parseISO(post.fields['Scheduled Date']) : null
+
+  return (
+    <div
+      draggable={!locked}
+      onDragStart={(event) => onDragStart(event, post)}
+      className={`text-xs rounded px-1 py-0.5 truncate ${
+        locked ? 'bg-gray-200 text-gray-700 cursor-default' : 'bg-green-200 text-green-800 cursor-grab active:cursor-grabbing'
+      }`}
+      title={`${post.fields['Content']}${locked ? '\n\nAlready published or publishing - locked' : ''}`}
+    >
+      {linkedInUrl ? (
+        <a href={linkedInUrl} target="_blank" rel="noopener noreferrer" className="inline-flex items-center hover:underline">
+          <ExternalLink className="h-3 w-3 mr-1" />
+        </a>
+      ) : (
+        <Clock className="inline h-3 w-3 mr-1" />
+      )}
+      {!compact && scheduled && `${format(scheduled, 'HH:mm')} `}
+      {post.fields['Post Type'] || 'Post'}
+    </div>
+  )
+}
+
+export function ContentCalendar() {
+  const [view, setView] = useState<CalendarView>('month')
+  const [currentDate, setCurrentDate] = useState(new Date())
+  const [data, setData] = useState<CalendarData>({ scheduled: [], unscheduled: [], publications: {} })
+  const [suggestions, setSuggestions] = useState<PostingSlotSuggestions | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+
+  const range = useMemo(() => view === 'month'
+    ? { start: startOfWeek(startOfMonth(currentDate)), end: endOfWeek(endOfMonth(currentDate)) }
+    : { start: startOfWeek(currentDate), end: endOfWeek(currentDate) },
+  [view, currentDate])
+
+  const days = eachDayOfInterval(range)
+
+  useEffect(() => {
+    fetchCalendar()
+  }, [range])
+
+  useEffect(() => {
+    fetchSuggestions()
+  }, [])
+
+  const fetchCalendar = async () => {
+    try {
+      const params = new URLSearchParams({
+        start: range.start.toISOString(),
+        end: addDays(range.end, 1).toISOString()
+      })
+      const response = await fetch(`/api/calendar?${params}`)
+      if (response.ok) {
+        const result = await response.json()
+        setData({ scheduled: result.scheduled, unscheduled: result.unscheduled, publications: result.publications })
+      }
+    } catch (error) {
+      console.error('Error fetching calendar:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchSuggestions = async () => {
+    try {
+      const response = await fetch('/api/calendar/slots')
+      if (response.ok) {
+        setSuggestions(await response.json())
+      }
+    } catch (error) {
+      console.error('Error fetching posting slots:', error)
+    }
+  }
+
+  // Suggested upcoming times, keyed by local day and hour for highlighting
+  const suggestedHours = useMemo(() => {
+    const map = new Map<string, number>()
+    for (const slot of suggestions?.upcoming || []) {
+      map.set(hourKey(parseISO(slot.at)), slot.score)
+    }
+    return map
+  }, [suggestions])
+
+  const getPostsForDate = (date: Date) =>
+    data.scheduled.filter(post => post.fields['Scheduled Date'] && isSameDay(parseISO(post.fields['Scheduled Date']), date))
+
+  const getPostsForHour = (date: Date, hour: number) =>
+    getPostsForDate(date).filter(post => parseISO(post.fields['Scheduled Date']!).getHours() === hour)
+
+  // Dropping on a day keeps the post's time; queued posts take the day's best suggested hour
+  const timeForDay = (day: Date, post: ContentPost): Date => {
+    if (post.fields['Scheduled Date']) {
+      const current = parseISO(post.fields['Scheduled Date'])
+      return setMinutes(setHours(startOfDay(day), current.getHours()), current.getMinutes())
+    }
+
+    const best = (suggestions?.upcoming || [])
+      .filter(slot => isSameDay(parseISO(slot.at), day))
+      .sort((a, b) => b.score - a.score)[0]
+
+    return best ? parseISO(best.at) : setHours(startOfDay(day), DEFAULT_HOUR)
+  }
+
+  const findPost = (postId: string) =>
+    data.scheduled.find(post => post.id === postId) || data.unscheduled.find(post => post.id === postId)
+
+  const handleDragStart = (event: React.DragEvent, post: ContentPost) => {
+    event.dataTransfer.setData('text/plain', post.id!)
+    event.dataTransfer.effectAllowed = 'move'
+  }
+
+  const handleDragOver = (event: React.DragEvent, target: string) => {
+    event.preventDefault()
+    event.dataTransfer.dropEffect = 'move'
+    if (dropTarget !== target) setDropTarget(target)
+  }
+
+  const reschedule = async (postId: string, scheduledDate: Date | null) => {
+    setDropTarget(null)
+    const post = findPost(postId)
+    if (!post) return
+
+    if (scheduledDate && scheduledDate <= new Date()) {
+      toast.error('Posts can only be scheduled in the future')
+      return
+    }
+
+    const previous = data
+    const moved = { ...post, fields: { ...post.fields, 'Scheduled Date': scheduledDate?.toISOString() } }
+
+    // Optimistic move; rolled back if Airtable refuses
+    setData(current => ({
+      ...current,
+      scheduled: scheduledDate
+        ? [...current.scheduled.filter(existing => existing.id !== postId), moved]
+        : current.scheduled.filter(existing => existing.id !== postId),
+      unscheduled: scheduledDate
+        ? current.unscheduled.filter(existing => existing.id !== postId)
+        : [moved, ...current.unscheduled.filter(existing => existing.id !== postId)]
+    }))
+
+    try {
+      const response = await fetch(`/api/calendar/posts/${postId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ scheduledDate: scheduledDate?.toISOString() ?? null })
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to reschedule post')
+      }
+
+      toast.success(scheduledDate ? `Scheduled for ${format(scheduledDate, 'EEE d MMM, HH:mm')}` : 'Moved back to the queue')
+    } catch (error) {
+      console.error('Error rescheduling post:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to reschedule post')
+      setData(previous)
+    }
+  }
+
+  const dropOnDay = (event: React.DragEvent, day: Date) => {
+    event.preventDefault()
+    const post = findPost(event.dataTransfer.getData('text/plain'))
+    if (post) reschedule(post.id!, timeForDay(day, post))
+  }
+
+  const dropOnHour = (event: React.DragEvent, day: Date, hour: number) => {
+    event.preventDefault()
+    reschedule(event.dataTransfer.getData('text/plain'), setHours(startOfDay(day), hour))
+  }
+
+  const dropOnQueue = (event: React.DragEvent) => {
+    event.preventDefault()
+    const postId = event.dataTransfer.getData('text/plain')
+    if (data.scheduled.some(post => post.id === postId)) reschedule(postId, null)
+  }
+
+  const navigate = (direction: number) => {
+    if (view === 'month') {
+      setCurrentDate(direction > 0 ? addMonths(currentDate, 1) : subMonths(currentDate, 1))
+    } else {
+      setCurrentDate(direction > 0 ? addWeeks(currentDate, 1) : subWeeks(currentDate, 1))
+    }
+  }
+
+  // Next suggested times on days with nothing scheduled yet
+  const openSlots = (suggestions?.upcoming || [])
+    .filter(slot => getPostsForDate(parseISO(slot.at)).length === 0)
+    .slice(0, 6)
+
+  const upcomingPosts = data.scheduled
+    .filter(post => {
+      const postDate = parseISO(post.fields['Scheduled Date']!)
+      const now = new Date()
+      return postDate >= now && postDate <= addDays(now, 7)
+    })
+    .sort((a, b) =>
+      parseISO(a.fields['Scheduled Date']!).getTime() - parseISO(b.fields['Scheduled Date']!).getTime()
+    )
+
+  const dropClass = (target: string) => dropTarget === target ? 'ring-2 ring-blue-400' : ''
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-4">
+      <div className="lg:col-span-3 space-y-4">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-xl">
+                {view === 'month'
+                  ? format(currentDate, 'MMMM yyyy')
+                  : `${format(range.start, 'd MMM')} - ${format(range.end, 'd MMM yyyy')}`}
+              </CardTitle>
+              <div className="flex items-center gap-2">
+                <Button variant={view === 'month' ? 'default' : 'outline'} size="sm" onClick={() => setView('month')}>
+                  Month
+                </Button>
+                <Button variant={view === 'week' ? 'default' : 'outline'} size="sm" onClick={() => setView('week')}>
+                  Week
+                </Button>
+                <Button variant="outline" size="icon" onClick={() => navigate(-1)}>
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <Button variant="outline" size="icon" onClick={() => setCurrentDate(new Date())}>
+                  <Calendar className="h-4 w-4" />
+                </Button>
+                <Button variant="outline" size="icon" onClick={() => navigate(1)}>
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+            <CardDescription>
+              Drag posts between days to reschedule, or drag approved posts in from the queue
+            </CardDescription>
+          </CardHeader>
+          <CardContent onDragLeave={() => setDropTarget(null)}>
+            {loading ? (
+              <div className="text-center py-8">
+                <p className="text-muted-foreground">Loading scheduled posts...</p>
+              </div>
+            ) : view === 'month' ? (
+              <div className="grid grid-cols-7 gap-2">
+                {WEEKDAY_NAMES.map((day) => (
+                  <div key={day} className="text-center text-sm font-medium text-muted-foreground py-2">
+                    {day}
+                  </div>
+                ))}
+
+                {days.map((day) => {
+                  const posts = getPostsForDate(day)
+                  const isToday = isSameDay(day, new Date())
+                  const target = `day-${day.toISOString()}`
+                  const hasSuggestion = (suggestions?.upcoming || []).some(slot => isSameDay(parseISO(slot.at), day))
+
+                  return (
+                    <div
+                      key={day.toISOString()}
+                      onDragOver={(event) => handleDragOver(event, target)}
+                      onDrop={(event) => dropOnDay(event, day)}
+                      className={`
+                        min-h-[96px] border rounded-lg p-2
+                        ${isToday ? 'border-blue-500 bg-blue-50' : 'border-gray-200'}
+                        ${!isSameMonth(day, currentDate) ? 'opacity-50' : ''}
+                        ${dropClass(target)}
+                      `}
+                    >
+                      <div className="flex items-center justify-between text-sm font-medium">
+                        {format(day, 'd')}
+                        {hasSuggestion && <TrendingUp className="h-3 w-3 text-green-600" aria-label="Suggested posting slot" />}
+                      </div>
+                      <div className="mt-1 space-y-1">
+                        {posts.map((post) => (
+                          <PostChip
+                            key={post.id}
+                            post={post}
+                            publication={data.publications[post.id!]}
+                            onDragStart={handleDragStart}
+                          />
+                        ))}
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+            ) : (
+              <div className="grid grid-cols-[48px_repeat(7,1fr)] gap-px bg-gray-200 border rounded-lg overflow-hidden">
+                <div className="bg-white" />
+                {days.map(day => (
+                  <div
+                    key={day.toISOString()}
+                    className={`bg-white text-center text-sm font-medium py-2 ${isSameDay(day, new Date()) ? 'text-blue-600' : ''}`}
+                  >
+                    {format(day, 'EEE d')}
+                  </div>
+                ))}
+
+                {WEEK_HOURS.map(hour => (
+                  <div key={hour} className="contents">
+                    <div className="bg-white text-xs text-muted-foreground text-right pr-1 pt-1">
+                      {String(hour).padStart(2, '0')}:00
+                    </div>
+                    {days.map(day => {
+                      const slotTime = setHours(startOfDay(day), hour)
+                      const target = `hour-${hourKey(slotTime)}`
+                      const suggested = suggestedHours.has(hourKey(slotTime))
+
+                      return (
+                        <div
+                          key={target}
+                          onDragOver={(event) => handleDragOver(event, target)}
+                          onDrop={(event) => dropOnHour(event, day, hour)}
+                          className={`min-h-[36px] p-0.5 space-y-0.5 ${suggested ? 'bg-green-50' : 'bg-white'} ${dropClass(target)}`}
+                          title={suggested ? 'Suggested slot: historically strong engagement' : undefined}
+                        >
+                          {getPostsForHour(day, hour).map(post => (
+                            <PostChip
+                              key={post.id}
+                              post={post}
+                              publication={data.publications[post.id!]}
+                              compact
+                              onDragStart={handleDragStart}
+                            />
+                          ))}
+                        </div>
+                      )
+                    })}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Upcoming Scheduled Posts</CardTitle>
+            <CardDescription>
+              Posts in view scheduled for the next 7 days
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {upcomingPosts.length === 0 ? (
+              <p className="text-muted-foreground">No scheduled posts</p>
+            ) : (
+              <div className="space-y-4">
+                {upcomingPosts.map((post) => (
+                  <div key={post.id} className="flex items-start space-x-4 p-4 border rounded-lg">
+                    <FileText className="h-5 w-5 text-muted-foreground mt-0.5" />
+                    <div className="flex-1 space-y-1">
+                      <p className="text-sm font-medium line-clamp-2">
+                        {post.fields['Content']}
+                      </p>
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <Clock className="h-3 w-3" />
+                        <span>
+                          {format(parseISO(post.fields['Scheduled Date']!), 'MMM d, yyyy h:mm a')}
+                        </span>
+                        <span className="px-2 py-1 bg-blue-100 text-blue-800 rounded">
+                          {post.fields['Post Type'] || 'Post'}
+                        </span>
+                        {data.publications[post.id!] && (
+                          <Badge variant="outline">{data.publications[post.id!].status}</Badge>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="space-y-4">
+        <Card
+          onDragOver={(event) => handleDragOver(event, 'queue')}
+          onDrop={dropOnQueue}
+          className={dropClass('queue')}
+        >
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <Inbox className="h-4 w-4" />
+              Unscheduled
+              <Badge variant="secondary">{data.unscheduled.length}</Badge>
+            </CardTitle>
+            <CardDescription>Approved posts without a date. Drop a post here to unschedule it.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {data.unscheduled.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nothing waiting</p>
+            ) : (
+              data.unscheduled.map(post => (
+                <div
+                  key={post.id}
+                  draggable
+                  onDragStart={(event) => handleDragStart(event, post)}
+                  className="p-2 border rounded-md text-xs cursor-grab active:cursor-grabbing hover:bg-muted/50"
+                >
+                  <div className="flex items-center gap-1 font-medium mb-1">
+                    <FileText className="h-3 w-3" />
+                    {post.fields['Post Type'] || 'Post'}
+                  </div>
+                  <p className="line-clamp-3 text-muted-foreground">{post.fields['Content']}</p>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <TrendingUp className="h-4 w-4" />
+              Best Times to Post
+            </CardTitle>
+            <CardDescription>
+              {suggestions && suggestions.basedOnPosts > 0
+                ? `From reactions on ${suggestions.basedOnPosts} past posts (${suggestions.timezone})`
+                : 'Sync LinkedIn posts to get suggestions'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {suggestions?.slots.map(slot => (
+              <div key={`${slot.weekday}-${slot.hour}`} className="flex items-center justify-between text-sm">
+                <span className="font-medium">
+                  {WEEKDAY_NAMES[slot.weekday]} {String(slot.hour).padStart(2, '0')}:00
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  {slot.avgReactions} avg reactions · {slot.postCount} posts
+                </span>
+              </div>
+            ))}
+
+            {openSlots.length > 0 && (
+              <div className="space-y-1 pt-2 border-t">
+                <p className="text-xs font-medium text-muted-foreground">Next open slots (drop a post here)</p>
+                {openSlots.map(slot => {
+                  const target = `slot-${slot.at}`
+                  return (
+                    <div
+                      key={slot.at}
+                      onDragOver={(event) => handleDragOver(event, target)}
+                      onDrop={(event) => {
+                        event.preventDefault()
+                        reschedule(event.dataTransfer.getData('text/plain'), parseISO(slot.at))
+                      }}
+                      className={`p-2 border border-dashed rounded-md text-xs ${dropClass(target)}`}
+                    >
+                      {format(parseISO(slot.at), 'EEE d MMM, HH:mm')}
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
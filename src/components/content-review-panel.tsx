@@ -0,0 +1,351 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Textarea } from "@/components/ui/textarea"
+import { toast } from "sonner"
+import { formatDistanceToNow } from "date-fns"
+import { CheckCircle, History, MessageSquare, Reply, Send, Undo2 } from "lucide-react"
+import type {
+  ContentAuditEntry,
+  WorkflowActor,
+  WorkflowBackend,
+  WorkflowItem,
+  WorkflowStatus
+} from "@/lib/content-workflow"
+import type { ReviewCommentThread } from "@/lib/review-comments"
+
+export const STATUS_COLORS: Record<WorkflowStatus, string> = {
+  Draft: 'bg-yellow-100 text-yellow-800',
+  Review: 'bg-purple-100 text-purple-800',
+  Approved: 'bg-blue-100 text-blue-800',
+  Published: 'bg-green-100 text-green-800'
+}
+
+// The signed-in member and their workflow role in the current workspace
+export function useReviewer() {
+  const [team, setTeam] = useState<WorkflowActor[]>([])
+  const [reviewer, setReviewer] = useState<WorkflowActor | null>(null)
+
+  useEffect(() => {
+    fetch('/api/workflow/team')
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        if (!data) return
+        setTeam(data.team)
+        setReviewer(data.actor)
+      })
+      .catch(error => console.error('Error fetching content team:', error))
+  }, [])
+
+  return { team, reviewer }
+}
+
+export function ReviewerBadge({ reviewer }: { reviewer: WorkflowActor | null }) {
+  if (!reviewer) return null
+
+  return (
+    <Badge variant="outline">
+      {reviewer.name} ({reviewer.role})
+    </Badge>
+  )
+}
+
+// Approves a draft in Review as the signed-in member and creates its Airtable post. Throws with the server's message on failure.
+export async function approveDraft(draftId: string): Promise<void> {
+  const approve = (acknowledgeUnsupportedClaims: boolean) =>
+    fetch(`/api/content/drafts/${draftId}/approve`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ acknowledgeUnsupportedClaims })
+    })
+
+  let response = await approve(false)
+  let data = await response.json()
+
+  // Unsupported claims need an explicit sign-off from the reviewer
+  if (response.status === 409 && data.unsupportedClaims) {
+    const claims = data.unsupportedClaims.map((claim: { text: string }) => `• ${claim.text}`).join('\n')
+    if (!window.confirm(`${data.error}:\n\n${claims}\n\nApprove anyway?`)) {
+      throw new Error('Approval cancelled')
+    }
+    response = await approve(true)
+    data = await response.json()
+  }
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to approve draft')
+  }
+}
+
+interface WorkflowResponse {
+  item: WorkflowItem
+  allowedTransitions: Array<{ to: WorkflowStatus; label: string }>
+  canEdit: boolean
+  history: ContentAuditEntry[]
+  comments: ReviewCommentThread[]
+}
+
+const describeEntry = (entry: ContentAuditEntry): string => {
+  switch (entry.action) {
+    case 'created':
+      return `created in ${entry.to_status}`
+    case 'status_change':
+      return `moved ${entry.from_status} → ${entry.to_status}${entry.details?.note ? `: "${entry.details.note}"` : ''}`
+    case 'edit':
+      return `edited ${Object.keys(entry.details?.after || {}).join(' and ') || 'content'}`
+    case 'comment':
+      return entry.details?.resolved === undefined
+        ? 'commented'
+        : entry.details.resolved ? 'resolved a thread' : 'reopened a thread'
+  }
+}
+
+function CommentNode({
+  comment,
+  depth,
+  onReply,
+  onResolve
+}: {
+  comment: ReviewCommentThread
+  depth: number
+  onReply: (parentId: string) => void
+  onResolve: (comment: ReviewCommentThread) => void
+}) {
+  return (
+    <div className={depth > 0 ? 'ml-4 pl-3 border-l' : 'p-3 border rounded-md'}>
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>
+          <span className="font-medium text-foreground">{comment.author}</span>
+          {' · '}
+          {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
+        </span>
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => onReply(comment.id)}>
+            <Reply className="h-3 w-3 mr-1" />
+            Reply
+          </Button>
+          {depth === 0 && (
+            <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => onResolve(comment)}>
+              {comment.resolved_at ? <Undo2 className="h-3 w-3 mr-1" /> : <CheckCircle className="h-3 w-3 mr-1" />}
+              {comment.resolved_at ? 'Reopen' : 'Resolve'}
+            </Button>
+          )}
+        </div>
+      </div>
+      <p className={`text-sm whitespace-pre-wrap mt-1 ${comment.resolved_at ? 'text-muted-foreground line-through' : ''}`}>
+        {comment.body}
+      </p>
+      {comment.resolved_at && (
+        <p className="text-xs text-muted-foreground">Resolved by {comment.resolved_by}</p>
+      )}
+      {comment.replies.length > 0 && (
+        <div className="mt-2 space-y-2">
+          {comment.replies.map(reply => (
+            <CommentNode key={reply.id} comment={reply} depth={depth + 1} onReply={onReply} onResolve={onResolve} />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface ContentReviewPanelProps {
+  backend: WorkflowBackend
+  id: string
+  reviewer: WorkflowActor | null
+  // Drafts are approved through their own route, which also creates the Airtable post
+  onApprove?: () => Promise<void>
+  onStatusChange?: (status: WorkflowStatus) => void
+}
+
+export function ContentReviewPanel({ backend, id, reviewer, onApprove, onStatusChange }: ContentReviewPanelProps) {
+  const [state, setState] = useState<WorkflowResponse | null>(null)
+  const [comment, setComment] = useState("")
+  const [replyTo, setReplyTo] = useState<string | null>(null)
+  const [note, setNote] = useState("")
+  const [showHistory, setShowHistory] = useState(false)
+  const [isWorking, setIsWorking] = useState(false)
+
+  const load = async () => {
+    try {
+      const response = await fetch(`/api/workflow/${backend}/${id}`)
+      if (response.ok) {
+        setState(await response.json())
+      }
+    } catch (error) {
+      console.error('Error fetching workflow state:', error)
+    }
+  }
+
+  useEffect(() => {
+    load()
+  }, [backend, id, reviewer?.id])
+
+  const changeStatus = async (to: WorkflowStatus) => {
+    if (!reviewer) return
+    setIsWorking(true)
+
+    try {
+      if (to === 'Approved' && onApprove) {
+        await onApprove()
+      } else {
+        const response = await fetch(`/api/workflow/${backend}/${id}/transition`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ to, note: note.trim() || undefined })
+        })
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to change status')
+        }
+        toast.success(`Moved to ${to}`)
+      }
+
+      setNote("")
+      onStatusChange?.(to)
+      await load()
+    } catch (error) {
+      console.error('Error changing status:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to change status')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const addComment = async () => {
+    if (!reviewer || !comment.trim()) return
+    setIsWorking(true)
+
+    try {
+      const response = await fetch(`/api/workflow/${backend}/${id}/comments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ body: comment.trim(), parentId: replyTo || undefined })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to add comment')
+      }
+
+      setComment("")
+      setReplyTo(null)
+      await load()
+    } catch (error) {
+      console.error('Error adding review comment:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to add comment')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const toggleResolved = async (thread: ReviewCommentThread) => {
+    if (!reviewer) return
+
+    try {
+      const response = await fetch(`/api/review-comments/${thread.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ resolved: !thread.resolved_at })
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to update thread')
+      }
+      await load()
+    } catch (error) {
+      console.error('Error resolving review thread:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to update thread')
+    }
+  }
+
+  if (!state) {
+    return <p className="text-sm text-muted-foreground">Loading review...</p>
+  }
+
+  const openThreads = state.comments.filter(thread => !thread.resolved_at).length
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge variant="outline" className={STATUS_COLORS[state.item.status]}>
+          {state.item.status}
+        </Badge>
+        {openThreads > 0 && (
+          <Badge variant="outline">
+            <MessageSquare className="h-3 w-3 mr-1" />
+            {openThreads} open
+          </Badge>
+        )}
+        <div className="flex-1" />
+        {state.allowedTransitions.map(transition => (
+          <Button
+            key={transition.to}
+            size="sm"
+            variant={transition.to === 'Approved' || transition.to === 'Review' ? 'default' : 'outline'}
+            disabled={isWorking || !reviewer}
+            onClick={() => changeStatus(transition.to)}
+          >
+            {transition.label}
+          </Button>
+        ))}
+      </div>
+
+      {state.allowedTransitions.some(transition => transition.to === 'Draft') && (
+        <Textarea
+          placeholder="Note for the status change (optional), e.g. what needs to change"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          rows={1}
+        />
+      )}
+
+      <div className="space-y-2">
+        {state.comments.map(thread => (
+          <CommentNode key={thread.id} comment={thread} depth={0} onReply={setReplyTo} onResolve={toggleResolved} />
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        {replyTo && (
+          <p className="text-xs text-muted-foreground">
+            Replying to a comment ·{' '}
+            <button className="underline" onClick={() => setReplyTo(null)}>cancel</button>
+          </p>
+        )}
+        <div className="flex gap-2">
+          <Textarea
+            placeholder={reviewer ? 'Add a review comment...' : 'Loading your workspace role...'}
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            rows={2}
+            disabled={!reviewer || isWorking}
+          />
+          <Button size="icon" onClick={addComment} disabled={!reviewer || isWorking || !comment.trim()}>
+            <Send className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div>
+        <Button variant="ghost" size="sm" onClick={() => setShowHistory(!showHistory)}>
+          <History className="h-4 w-4 mr-1" />
+          {showHistory ? 'Hide history' : `History (${state.history.length})`}
+        </Button>
+        {showHistory && (
+          <ul className="mt-2 space-y-1 text-xs text-muted-foreground">
+            {state.history.map(entry => (
+              <li key={entry.id}>
+                <span className="font-medium text-foreground">{entry.actor}</span>
+                {' '}({entry.actor_role}) {describeEntry(entry)}
+                {' · '}
+                {formatDistanceToNow(new Date(entry.created_at), { addSuffix: true })}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,94 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { CheckCircle, AlertTriangle } from "lucide-react"
+import type { FactCheckClaim, FactCheckReport } from "../lib/supabase"
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// Draft text with unsupported figures and quotes marked so reviewers can't miss them
+export function HighlightedDraftBody({ body, report }: { body: string; report?: FactCheckReport }) {
+  const unsupported = (report?.claims || []).filter(claim => claim.status === 'unsupported')
+
+  if (unsupported.length === 0) {
+    return <>{body}</>
+  }
+
+  const pattern = new RegExp(`(${unsupported.map(claim => escapeRegExp(claim.text)).join('|')})`, 'g')
+  const unsupportedTexts = new Set(unsupported.map(claim => claim.text))
+
+  return (
+    <>
+      {body.split(pattern).map((part, index) =>
+        unsupportedTexts.has(part) ? (
+          <mark key={index} className="bg-red-100 text-red-900 rounded px-0.5" title="Not found in the research for this draft">
+            {part}
+          </mark>
+        ) : (
+          <span key={index}>{part}</span>
+        )
+      )}
+    </>
+  )
+}
+
+function ClaimRow({ claim }: { claim: FactCheckClaim }) {
+  const supported = claim.status === 'supported'
+
+  return (
+    <div className={`p-2 rounded-md border text-xs space-y-1 ${supported ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'}`}>
+      <div className="flex items-start gap-2">
+        {supported ? (
+          <CheckCircle className="h-3.5 w-3.5 mt-0.5 text-green-600 shrink-0" />
+        ) : (
+          <AlertTriangle className="h-3.5 w-3.5 mt-0.5 text-red-600 shrink-0" />
+        )}
+        <div className="space-y-1 min-w-0">
+          <p>
+            <span className="font-medium">{claim.kind === 'quote' ? `"${claim.text}"` : claim.text}</span>
+            <span className="text-muted-foreground"> - {claim.sentence}</span>
+          </p>
+          {claim.source ? (
+            <>
+              <p className="italic text-muted-foreground">{claim.source.excerpt}</p>
+              <a
+                href={claim.source.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="block truncate text-blue-600 hover:underline"
+              >
+                {claim.source.title || claim.source.url}
+              </a>
+            </>
+          ) : (
+            <p className="text-red-700">No matching figure or quote in this draft's research sources</p>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export function DraftClaims({ report }: { report?: FactCheckReport }) {
+  if (!report || report.claims.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="mb-4 space-y-2">
+      <div className="flex items-center gap-2 text-xs">
+        <span className="font-medium text-muted-foreground">Claims</span>
+        <Badge variant="outline" className="text-green-700">{report.supported_count} sourced</Badge>
+        {report.unsupported_count > 0 && (
+          <Badge variant="destructive">{report.unsupported_count} unsupported</Badge>
+        )}
+      </div>
+      {/* Unsupported claims first: they are the ones that need a reviewer */}
+      {[...report.claims]
+        .sort((a, b) => (a.status === b.status ? 0 : a.status === 'unsupported' ? -1 : 1))
+        .map((claim, index) => (
+          <ClaimRow key={`${claim.kind}-${claim.text}-${index}`} claim={claim} />
+        ))}
+    </div>
+  )
+}
@@ -0,0 +1,241 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Textarea } from "@/components/ui/textarea"
+import { toast } from "sonner"
+import { Copy, RefreshCw, Wand2, Columns2 } from "lucide-react"
+import type { ContentDraft } from "../lib/supabase"
+import { DraftClaims, HighlightedDraftBody } from "./draft-claims"
+import { ContentReviewPanel, ReviewerBadge, approveDraft, useReviewer } from "./content-review-panel"
+
+interface DraftRevisionPanelProps {
+  draft: ContentDraft
+  onCopy: (content: string) => void
+}
+
+// Revisions usually finish well within a minute
+const REVISION_POLL_INTERVAL_MS = 5000
+const REVISION_POLL_TIMEOUT_MS = 3 * 60 * 1000
+
+export function DraftRevisionPanel({ draft, onCopy }: DraftRevisionPanelProps) {
+  const [versions, setVersions] = useState<ContentDraft[]>([draft])
+  const [selectedId, setSelectedId] = useState(draft.id)
+  const [feedback, setFeedback] = useState("")
+  const [isRevising, setIsRevising] = useState(false)
+  const reviewerState = useReviewer()
+  const [pendingSince, setPendingSince] = useState<{ count: number; startedAt: number } | null>(null)
+  const [showCompare, setShowCompare] = useState(false)
+
+  const fetchVersions = async (): Promise<ContentDraft[] | null> => {
+    try {
+      const response = await fetch(`/api/content/drafts/${draft.id}/versions`)
+      if (!response.ok) {
+        return null
+      }
+      const data = await response.json()
+      return data.versions || []
+    } catch (error) {
+      console.error('Error fetching draft versions:', error)
+      return null
+    }
+  }
+
+  // Load existing revisions when the draft changes
+  useEffect(() => {
+    setVersions([draft])
+    setSelectedId(draft.id)
+
+    fetchVersions().then((loaded) => {
+      if (loaded && loaded.length > 0) {
+        setVersions(loaded)
+      }
+    })
+  }, [draft.id])
+
+  // Poll until the worker saves the new revision
+  useEffect(() => {
+    if (!pendingSince) return
+
+    const interval = setInterval(async () => {
+      const loaded = await fetchVersions()
+
+      if (loaded && loaded.length > pendingSince.count) {
+        const latest = loaded[loaded.length - 1]
+        setVersions(loaded)
+        setSelectedId(latest.id)
+        setPendingSince(null)
+        setIsRevising(false)
+        toast.success(`Revision v${latest.revision_number} ready`)
+        return
+      }
+
+      if (Date.now() - pendingSince.startedAt > REVISION_POLL_TIMEOUT_MS) {
+        setPendingSince(null)
+        setIsRevising(false)
+        toast.error('Revision is taking longer than expected. Check back shortly.')
+      }
+    }, REVISION_POLL_INTERVAL_MS)
+
+    return () => clearInterval(interval)
+  }, [pendingSince])
+
+  const selectedIndex = Math.max(0, versions.findIndex((version) => version.id === selectedId))
+  const selected = versions[selectedIndex]
+  const previous = selectedIndex > 0 ? versions[selectedIndex - 1] : null
+
+  const handleRevise = async () => {
+    if (!feedback.trim()) {
+      toast.error('Please describe what to change')
+      return
+    }
+
+    setIsRevising(true)
+
+    try {
+      // Revise the version being viewed, so feedback applies to what the user just read
+      const response = await fetch(`/api/content/drafts/${selected.id}/revise`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ feedback: feedback.trim() })
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to queue revision')
+      }
+
+      setFeedback("")
+      setPendingSince({ count: versions.length, startedAt: Date.now() })
+      toast.success('Revision queued')
+    } catch (error) {
+      console.error('Error requesting revision:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to queue revision')
+      setIsRevising(false)
+    }
+  }
+
+  const handleApprove = async () => {
+    if (!reviewerState.reviewer) return
+    await approveDraft(selected.id)
+    toast.success(`${versionLabel(selected)} approved`)
+  }
+
+  const versionLabel = (version: ContentDraft) =>
+    version.revision_number ? `v${version.revision_number}` : 'Original'
+
+  return (
+    <div className="mt-4 pt-4 border-t space-y-3">
+      {versions.length > 1 && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="flex flex-wrap gap-1">
+              {versions.map((version) => (
+                <Badge
+                  key={version.id}
+                  variant={version.id === selected.id ? 'default' : 'outline'}
+                  className="cursor-pointer"
+                  onClick={() => setSelectedId(version.id)}
+                >
+                  {versionLabel(version)}
+                </Badge>
+              ))}
+            </div>
+            <div className="flex items-center gap-2">
+              {previous && (
+                <Button variant="ghost" size="sm" onClick={() => setShowCompare(!showCompare)}>
+                  <Columns2 className="h-4 w-4 mr-1" />
+                  {showCompare ? 'Hide compare' : 'Compare'}
+                </Button>
+              )}
+              <Button variant="outline" size="sm" onClick={() => onCopy(selected.content.body)}>
+                <Copy className="h-4 w-4 mr-1" />
+                Copy {versionLabel(selected)}
+              </Button>
+            </div>
+          </div>
+
+          {selected.feedback && (
+            <p className="text-xs text-muted-foreground">
+              <span className="font-medium">Feedback:</span> {selected.feedback}
+            </p>
+          )}
+
+          {showCompare && previous ? (
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <p className="text-xs font-medium text-muted-foreground mb-1">{versionLabel(previous)}</p>
+                <div className="whitespace-pre-wrap text-sm p-3 bg-muted/50 rounded-md">
+                  {previous.content.body}
+                </div>
+              </div>
+              <div>
+                <p className="text-xs font-medium text-muted-foreground mb-1">{versionLabel(selected)}</p>
+                <div className="whitespace-pre-wrap text-sm p-3 bg-muted/50 rounded-md">
+                  {selected.content.body}
+                </div>
+              </div>
+            </div>
+          ) : selected.id !== draft.id && (
+            <div className="whitespace-pre-wrap text-sm p-3 bg-muted/50 rounded-md">
+              <HighlightedDraftBody body={selected.content.body} report={selected.metadata.fact_check} />
+            </div>
+          )}
+
+          {selected.id !== draft.id && <DraftClaims report={selected.metadata.fact_check} />}
+
+          {selected.id !== draft.id && selected.content.estimated_voice_score !== undefined && (
+            <p className="text-xs text-muted-foreground">
+              Voice score: {selected.content.estimated_voice_score}%
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Textarea
+          placeholder={`What should change in ${versionLabel(selected).toLowerCase()}? e.g. "punchier hook, drop the statistic"`}
+          value={feedback}
+          onChange={(e) => setFeedback(e.target.value)}
+          rows={2}
+          disabled={isRevising}
+        />
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleRevise}
+            disabled={isRevising || !feedback.trim()}
+          >
+            {isRevising ? (
+              <>
+                <RefreshCw className="h-4 w-4 mr-1 animate-spin" />
+                Revising...
+              </>
+            ) : (
+              <>
+                <Wand2 className="h-4 w-4 mr-1" />
+                Revise with feedback
+              </>
+            )}
+          </Button>
+        </div>
+      </div>
+
+      <div className="pt-3 border-t space-y-2">
+        <div className="flex items-center justify-between">
+          <p className="text-sm font-medium">Review {versionLabel(selected).toLowerCase()}</p>
+          <ReviewerBadge reviewer={reviewerState.reviewer} />
+        </div>
+        <ContentReviewPanel
+          backend="supabase"
+          id={selected.id}
+          reviewer={reviewerState.reviewer}
+          onApprove={handleApprove}
+        />
+      </div>
+    </div>
+  )
+}
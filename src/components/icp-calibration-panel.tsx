@@ -0,0 +1,297 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { BarChart3, Check, RefreshCw } from "lucide-react"
+import { toast } from "sonner"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Separator } from "@/components/ui/separator"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ICP_CRITERIA, ICP_CRITERION_LABELS, type ICPWeights } from "@/lib/icp-engine"
+import { ICP_OUTCOMES, ICP_OUTCOME_LABELS } from "@/lib/icp-outcomes"
+import type { CalibrationReport, ConversionBand, WeightPreview } from "@/lib/icp-calibration"
+
+const BandRows = ({ bands }: { bands: ConversionBand[] }) => (
+  <>
+    {bands.map(band => (
+      <TableRow key={band.label}>
+        <TableCell>{band.label}</TableCell>
+        <TableCell className="text-muted-foreground">{band.min}-{band.max}</TableCell>
+        <TableCell className="text-right">{band.total}</TableCell>
+        <TableCell className="text-right">{band.converted}</TableCell>
+        <TableCell className="text-right font-medium">{band.total > 0 ? `${band.conversionRate}%` : '—'}</TableCell>
+      </TableRow>
+    ))}
+  </>
+)
+
+const correlationColor = (correlation: number) => {
+  if (correlation >= 0.2) return 'text-green-600'
+  if (correlation <= -0.2) return 'text-red-600'
+  return 'text-muted-foreground'
+}
+
+export function ICPCalibrationPanel() {
+  const [report, setReport] = useState<CalibrationReport | null>(null)
+  const [weights, setWeights] = useState<ICPWeights | null>(null)
+  const [preview, setPreview] = useState<WeightPreview | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [isPreviewing, setIsPreviewing] = useState(false)
+  const [isApplying, setIsApplying] = useState(false)
+
+  const loadReport = async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch('/api/icp/calibration')
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load calibration report')
+      }
+
+      setReport(data.report)
+      setWeights(data.report.suggestion?.weights || data.report.weights)
+      setPreview(null)
+    } catch (error) {
+      console.error('Error loading calibration report:', error)
+      toast.error('Failed to load calibration report')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadReport()
+  }, [])
+
+  const previewWeights = async () => {
+    if (!weights) return
+
+    setIsPreviewing(true)
+    try {
+      const response = await fetch('/api/icp/calibration/preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ weights })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        const detail = data.details?.[0]
+        throw new Error(detail ? detail.message : data.error || 'Failed to preview weights')
+      }
+
+      setPreview(data.preview)
+    } catch (error) {
+      console.error('Error previewing weights:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to preview weights')
+    } finally {
+      setIsPreviewing(false)
+    }
+  }
+
+  const applyWeights = async () => {
+    if (!weights) return
+
+    setIsApplying(true)
+    try {
+      const response = await fetch('/api/icp/calibration/apply', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ weights })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to apply weights')
+      }
+
+      toast.success(`Weights saved as ICP version ${data.current.version}. Rescore to apply them to existing scores.`)
+      await loadReport()
+    } catch (error) {
+      console.error('Error applying weights:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to apply weights')
+    } finally {
+      setIsApplying(false)
+    }
+  }
+
+  if (!report || !weights) {
+    return <p className="text-sm text-muted-foreground">{isLoading ? 'Loading calibration report...' : 'No calibration report yet'}</p>
+  }
+
+  const { totals } = report
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="font-medium">{totals.outcomes} outcomes</span>
+          <span className="text-muted-foreground">·</span>
+          <span>{totals.converted} converted ({totals.conversionRate}%)</span>
+          {ICP_OUTCOMES.map(outcome => (
+            <Badge key={outcome} variant="outline">{ICP_OUTCOME_LABELS[outcome]}: {totals.byOutcome[outcome]}</Badge>
+          ))}
+        </div>
+        <Button variant="outline" size="sm" onClick={loadReport} disabled={isLoading}>
+          <RefreshCw className={`mr-2 h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {totals.outcomes === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Record outcomes on connections and leads (replied, booked call, became client, not interested) to see how well scores predict them.
+        </p>
+      ) : (
+        <>
+          <div className="space-y-2">
+            <Label>Conversion by Category</Label>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Score</TableHead>
+                  <TableHead className="text-right">Outcomes</TableHead>
+                  <TableHead className="text-right">Converted</TableHead>
+                  <TableHead className="text-right">Rate</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                <BandRows bands={report.byCategory} />
+              </TableBody>
+            </Table>
+            <p className="text-xs text-muted-foreground">
+              Everyone is rescored with version {report.icpVersion}; a booked call or a new client counts as converted
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Conversion by Criterion</Label>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Criterion</TableHead>
+                  <TableHead className="text-right">Weight</TableHead>
+                  <TableHead className="text-right">Correlation</TableHead>
+                  {report.byCriterion[0]?.bands.map(band => (
+                    <TableHead key={band.label} className="text-right">{band.label}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.byCriterion.map(row => (
+                  <TableRow key={row.criterion}>
+                    <TableCell>{row.label}</TableCell>
+                    <TableCell className="text-right">{row.weight}</TableCell>
+                    <TableCell className={`text-right font-medium ${correlationColor(row.correlation)}`}>
+                      {row.correlation > 0 ? '+' : ''}{row.correlation.toFixed(2)}
+                    </TableCell>
+                    {row.bands.map(band => (
+                      <TableCell key={band.label} className="text-right">
+                        {band.total > 0 ? `${band.conversionRate}% of ${band.total}` : '—'}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </>
+      )}
+
+      <Separator />
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Weights</Label>
+          {report.suggestion ? (
+            <Badge variant="secondary">Suggested from {report.suggestion.basedOn} outcomes</Badge>
+          ) : (
+            <span className="text-xs text-muted-foreground">{report.suggestionNote}</span>
+          )}
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {ICP_CRITERIA.map(criterion => (
+            <div key={criterion} className="space-y-1">
+              <Label htmlFor={`calibration-weight-${criterion}`} className="text-xs text-muted-foreground">
+                {ICP_CRITERION_LABELS[criterion]} (now {report.weights[criterion]})
+              </Label>
+              <Input
+                id={`calibration-weight-${criterion}`}
+                type="number"
+                min={0}
+                value={weights[criterion]}
+                onChange={(e) => {
+                  setWeights({ ...weights, [criterion]: Number(e.target.value) })
+                  setPreview(null)
+                }}
+              />
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={previewWeights} disabled={isPreviewing || totals.outcomes === 0}>
+            <BarChart3 className="mr-2 h-4 w-4" />
+            {isPreviewing ? 'Previewing...' : 'Preview'}
+          </Button>
+          <Button onClick={applyWeights} disabled={isApplying || !preview}>
+            <Check className="mr-2 h-4 w-4" />
+            {isApplying ? 'Applying...' : 'Apply as New Version'}
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">Preview the weights against recorded outcomes before applying them</p>
+      </div>
+
+      {preview && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {([['Current weights', preview.current], ['Proposed weights', preview.proposed]] as const).map(([title, side]) => (
+              <div key={title} className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>{title}</Label>
+                  <span className="text-xs text-muted-foreground">Converted score {side.separation >= 0 ? '+' : ''}{side.separation} vs the rest</span>
+                </div>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Category</TableHead>
+                      <TableHead>Score</TableHead>
+                      <TableHead className="text-right">Outcomes</TableHead>
+                      <TableHead className="text-right">Converted</TableHead>
+                      <TableHead className="text-right">Rate</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    <BandRows bands={side.byCategory} />
+                  </TableBody>
+                </Table>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-1">
+            <Label>Category Changes ({preview.changes.length} of {preview.outcomes})</Label>
+            {preview.changes.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No one changes category with these weights</p>
+            ) : (
+              preview.changes.map(change => (
+                <div key={`${change.subjectType}:${change.subjectId}`} className="flex items-center justify-between text-sm">
+                  <span>
+                    <span className="font-medium">{change.name}</span>
+                    <span className="text-muted-foreground"> — {ICP_OUTCOME_LABELS[change.outcome]}</span>
+                  </span>
+                  <span className="text-muted-foreground">
+                    {change.currentCategory} ({change.currentScore}) → {change.proposedCategory} ({change.proposedScore})
+                  </span>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
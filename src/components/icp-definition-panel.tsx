@@ -0,0 +1,430 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { formatDistanceToNow } from "date-fns"
+import { RefreshCw, Save } from "lucide-react"
+import { toast } from "sonner"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Separator } from "@/components/ui/separator"
+import { Textarea } from "@/components/ui/textarea"
+import { ICP_CRITERIA, ICP_CRITERION_LABELS, type ICPDefinition, type ICPKeywordCriterion } from "@/lib/icp-engine"
+import type { ICPDefinitionVersion } from "@/lib/icp-definitions"
+import type { ICPRescoreRun } from "@/lib/icp-rescore"
+
+const KEYWORD_CRITERIA = ['roleMatch', 'companySize', 'industry', 'careerTransition', 'leadership'] as const
+
+type KeywordKey = typeof KEYWORD_CRITERIA[number]
+
+const KEYWORD_HINTS: Record<KeywordKey, string> = {
+  roleMatch: 'Matched against the current title and headline',
+  companySize: 'Matched against company size, company name and headline',
+  industry: 'Matched against industry, company, headline and about',
+  careerTransition: 'Matched against headline and about',
+  leadership: 'Matched against headline, about, past titles and topics'
+}
+
+interface ListForm {
+  rules: Record<KeywordKey, string>
+  tenureBands: string
+  followerBands: string
+  redFlags: string
+}
+
+// Lists are edited one entry per line, fields separated by "|" and patterns by ","
+const splitLine = (line: string) => line.split('|').map(part => part.trim())
+const toLines = (value: string) => value.split('\n').map(line => line.trim()).filter(Boolean)
+const toPatterns = (value = '') => value.split(',').map(pattern => pattern.trim()).filter(Boolean)
+
+const toNumber = (value: string | undefined, line: string): number => {
+  const number = Number(value)
+  if (!value || Number.isNaN(number)) {
+    throw new Error(`Expected a number in "${line}"`)
+  }
+  return number
+}
+
+const formatRules = (criterion: ICPKeywordCriterion) =>
+  criterion.rules.map(rule => [rule.label, rule.score, rule.patterns.join(', '), rule.tag].filter(part => part !== undefined && part !== '').join(' | ')).join('\n')
+
+const parseRules = (value: string): ICPKeywordCriterion['rules'] =>
+  toLines(value).map(line => {
+    const [label, score, patterns, tag] = splitLine(line)
+    return { label, score: toNumber(score, line), patterns: toPatterns(patterns), ...(tag && { tag }) }
+  })
+
+const toListForm = (definition: ICPDefinition): ListForm => ({
+  rules: Object.fromEntries(KEYWORD_CRITERIA.map(key => [key, formatRules(definition.criteria[key])])) as Record<KeywordKey, string>,
+  tenureBands: definition.criteria.tenure.bands.map(band => [band.maxMonths, band.score, band.tag].filter(part => part !== undefined && part !== '').join(' | ')).join('\n'),
+  followerBands: definition.criteria.engagement.followerBands.map(band => `${band.minFollowers} | ${band.score}`).join('\n'),
+  redFlags: definition.redFlags.map(flag => `${flag.label} | ${flag.penalty} | ${flag.patterns.join(', ')}`).join('\n')
+})
+
+// Rebuilds the definition from the numeric fields plus the parsed lists; throws on a malformed line
+const fromListForm = (definition: ICPDefinition, lists: ListForm): ICPDefinition => ({
+  ...definition,
+  criteria: {
+    ...definition.criteria,
+    ...Object.fromEntries(KEYWORD_CRITERIA.map(key => [key, { ...definition.criteria[key], rules: parseRules(lists.rules[key]) }])),
+    tenure: {
+      ...definition.criteria.tenure,
+      bands: toLines(lists.tenureBands).map(line => {
+        const [maxMonths, score, tag] = splitLine(line)
+        return { maxMonths: toNumber(maxMonths, line), score: toNumber(score, line), ...(tag && { tag }) }
+      })
+    },
+    engagement: {
+      ...definition.criteria.engagement,
+      followerBands: toLines(lists.followerBands).map(line => {
+        const [minFollowers, score] = splitLine(line)
+        return { minFollowers: toNumber(minFollowers, line), score: toNumber(score, line) }
+      })
+    }
+  } as ICPDefinition['criteria'],
+  redFlags: toLines(lists.redFlags).map(line => {
+    const [label, penalty, patterns] = splitLine(line)
+    return { label, penalty: toNumber(penalty, line), patterns: toPatterns(patterns) }
+  })
+})
+
+const describeRun = (run: ICPRescoreRun) => {
+  const counts = `${run.commenters_rescored}/${run.commenters_total} commenters, ${run.leads_rescored}/${run.leads_total} leads`
+  if (run.status === 'running') return `Rescoring against v${run.icp_version}: ${counts}`
+  if (run.status === 'failed') return `Rescore against v${run.icp_version} failed: ${run.error || 'unknown error'}`
+  return `Rescored against v${run.icp_version} ${formatDistanceToNow(new Date(run.finished_at || run.updated_at), { addSuffix: true })}: ${counts}${run.skipped > 0 ? `, ${run.skipped} leads skipped` : ''}${run.failed > 0 ? `, ${run.failed} failed` : ''}`
+}
+
+export function ICPDefinitionPanel() {
+  const [current, setCurrent] = useState<ICPDefinitionVersion | null>(null)
+  const [versions, setVersions] = useState<Omit<ICPDefinitionVersion, 'definition'>[]>([])
+  const [definition, setDefinition] = useState<ICPDefinition | null>(null)
+  const [lists, setLists] = useState<ListForm | null>(null)
+  const [note, setNote] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [run, setRun] = useState<ICPRescoreRun | null>(null)
+  const [isRescoring, setIsRescoring] = useState(false)
+  const pollRef = useRef<ReturnType<typeof setInterval> | null>(null)
+
+  const loadDefinition = async () => {
+    try {
+      const response = await fetch('/api/icp')
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load ICP definition')
+      }
+
+      setCurrent(data.current)
+      setVersions(data.versions)
+      setDefinition(data.current.definition)
+      setLists(toListForm(data.current.definition))
+    } catch (error) {
+      console.error('Error loading ICP definition:', error)
+      toast.error('Failed to load ICP definition')
+    }
+  }
+
+  const loadRun = async () => {
+    try {
+      const response = await fetch('/api/icp/rescore')
+      const data = await response.json()
+      if (response.ok) {
+        setRun(data.run)
+      }
+    } catch (error) {
+      console.error('Error loading rescore status:', error)
+    }
+  }
+
+  useEffect(() => {
+    loadDefinition()
+    loadRun()
+    return () => {
+      if (pollRef.current) clearInterval(pollRef.current)
+    }
+  }, [])
+
+  const saveDefinition = async () => {
+    if (!definition || !lists) return
+
+    let next: ICPDefinition
+    try {
+      next = fromListForm(definition, lists)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Invalid ICP definition')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const response = await fetch('/api/icp', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ definition: next, note: note.trim() || undefined })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        const detail = data.details?.[0]
+        throw new Error(detail ? `${detail.path.join('.')}: ${detail.message}` : data.error || 'Failed to save ICP definition')
+      }
+
+      toast.success(`ICP definition saved (version ${data.current.version}). Rescore to apply it to existing scores.`)
+      setNote('')
+      await loadDefinition()
+    } catch (error) {
+      console.error('Error saving ICP definition:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to save ICP definition')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const rescoreEveryone = async () => {
+    setIsRescoring(true)
+    pollRef.current = setInterval(loadRun, 3000)
+    try {
+      const response = await fetch('/api/icp/rescore', { method: 'POST' })
+      const data = await response.json().catch(() => ({}))
+
+      if (data.run) setRun(data.run)
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP ${response.status}`)
+      }
+
+      toast.success(`Rescored ${data.run.commenters_rescored} commenters and ${data.run.leads_rescored} leads`)
+    } catch (error) {
+      console.error('Error rescoring:', error)
+      toast.error(`Rescore failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      if (pollRef.current) clearInterval(pollRef.current)
+      pollRef.current = null
+      setIsRescoring(false)
+    }
+  }
+
+  if (!definition || !lists || !current) {
+    return <p className="text-sm text-muted-foreground">Loading ICP definition...</p>
+  }
+
+  const setNumber = (update: (value: number) => ICPDefinition) => (event: React.ChangeEvent<HTMLInputElement>) =>
+    setDefinition(update(Number(event.target.value)))
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          Commenters, researched profiles and leads are all scored against this definition
+        </p>
+        <Badge variant="outline">Version {current.version}</Badge>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Weights</Label>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {ICP_CRITERIA.map(criterion => (
+            <div key={criterion} className="space-y-1">
+              <Label htmlFor={`weight-${criterion}`} className="text-xs text-muted-foreground">
+                {ICP_CRITERION_LABELS[criterion]}
+              </Label>
+              <Input
+                id={`weight-${criterion}`}
+                type="number"
+                min={0}
+                value={definition.weights[criterion]}
+                onChange={setNumber(value => ({ ...definition, weights: { ...definition.weights, [criterion]: value } }))}
+              />
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">Relative; they don&apos;t need to add up to 100</p>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Category Thresholds</Label>
+        <div className="grid grid-cols-3 gap-4">
+          {([['hotLead', 'Hot Lead'], ['warmLead', 'Warm Lead'], ['coldLead', 'Cold Lead']] as const).map(([key, label]) => (
+            <div key={key} className="space-y-1">
+              <Label htmlFor={`category-${key}`} className="text-xs text-muted-foreground">{label} from</Label>
+              <Input
+                id={`category-${key}`}
+                type="number"
+                min={0}
+                max={100}
+                value={definition.categories[key]}
+                onChange={setNumber(value => ({ ...definition, categories: { ...definition.categories, [key]: value } }))}
+              />
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">Anything below the Cold Lead threshold is Not ICP</p>
+      </div>
+
+      <Separator />
+
+      {KEYWORD_CRITERIA.map(key => (
+        <div key={key} className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor={`rules-${key}`}>{ICP_CRITERION_LABELS[key]}</Label>
+            <div className="flex items-center space-x-2">
+              <Label htmlFor={`unmatched-${key}`} className="text-xs text-muted-foreground">No match scores</Label>
+              <Input
+                id={`unmatched-${key}`}
+                type="number"
+                min={0}
+                max={100}
+                className="w-20"
+                value={definition.criteria[key].unmatchedScore}
+                onChange={setNumber(value => ({
+                  ...definition,
+                  criteria: { ...definition.criteria, [key]: { ...definition.criteria[key], unmatchedScore: value } }
+                }))}
+              />
+            </div>
+          </div>
+          <Textarea
+            id={`rules-${key}`}
+            rows={Math.max(3, lists.rules[key].split('\n').length)}
+            className="font-mono text-xs"
+            value={lists.rules[key]}
+            onChange={(e) => setLists({ ...lists, rules: { ...lists.rules, [key]: e.target.value } })}
+          />
+          <p className="text-xs text-muted-foreground">
+            {KEYWORD_HINTS[key]}. One rule per line: Label | score | patterns, comma separated | optional tag. The first matching line wins.
+          </p>
+        </div>
+      ))}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="tenure-bands">Tenure</Label>
+          <Textarea
+            id="tenure-bands"
+            rows={4}
+            className="font-mono text-xs"
+            value={lists.tenureBands}
+            onChange={(e) => setLists({ ...lists, tenureBands: e.target.value })}
+          />
+          <p className="text-xs text-muted-foreground">Up to N months in role | score | optional tag</p>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="tenure-beyond" className="text-xs text-muted-foreground">Longer scores</Label>
+              <Input
+                id="tenure-beyond"
+                type="number"
+                value={definition.criteria.tenure.beyondScore}
+                onChange={setNumber(value => ({ ...definition, criteria: { ...definition.criteria, tenure: { ...definition.criteria.tenure, beyondScore: value } } }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="tenure-unknown" className="text-xs text-muted-foreground">Unknown scores</Label>
+              <Input
+                id="tenure-unknown"
+                type="number"
+                value={definition.criteria.tenure.unknownScore}
+                onChange={setNumber(value => ({ ...definition, criteria: { ...definition.criteria, tenure: { ...definition.criteria.tenure, unknownScore: value } } }))}
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="follower-bands">Engagement</Label>
+          <Textarea
+            id="follower-bands"
+            rows={4}
+            className="font-mono text-xs"
+            value={lists.followerBands}
+            onChange={(e) => setLists({ ...lists, followerBands: e.target.value })}
+          />
+          <p className="text-xs text-muted-foreground">At least N followers | score</p>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="engagement-active" className="text-xs text-muted-foreground">Active poster scores</Label>
+              <Input
+                id="engagement-active"
+                type="number"
+                value={definition.criteria.engagement.activeScore}
+                onChange={setNumber(value => ({ ...definition, criteria: { ...definition.criteria, engagement: { ...definition.criteria.engagement, activeScore: value } } }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="engagement-unknown" className="text-xs text-muted-foreground">Unknown scores</Label>
+              <Input
+                id="engagement-unknown"
+                type="number"
+                value={definition.criteria.engagement.unknownScore}
+                onChange={setNumber(value => ({ ...definition, criteria: { ...definition.criteria, engagement: { ...definition.criteria.engagement, unknownScore: value } } }))}
+              />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="red-flags">Red Flags</Label>
+        <Textarea
+          id="red-flags"
+          rows={4}
+          className="font-mono text-xs"
+          value={lists.redFlags}
+          onChange={(e) => setLists({ ...lists, redFlags: e.target.value })}
+        />
+        <p className="text-xs text-muted-foreground">
+          Label | points taken off the total | patterns, comma separated. Matched against headline and title.
+        </p>
+      </div>
+
+      <div className="flex gap-2">
+        <Input
+          placeholder="What changed (optional)"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+        />
+        <Button onClick={saveDefinition} disabled={isSaving}>
+          <Save className="mr-2 h-4 w-4" />
+          {isSaving ? 'Saving...' : 'Save as New Version'}
+        </Button>
+      </div>
+
+      <Separator />
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label>Rescore Everyone</Label>
+            <p className="text-xs text-muted-foreground">
+              Scores every commenter and researched lead again with version {current.version}
+            </p>
+          </div>
+          <Button variant="outline" onClick={rescoreEveryone} disabled={isRescoring || run?.status === 'running'}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${isRescoring ? 'animate-spin' : ''}`} />
+            {isRescoring ? 'Rescoring...' : 'Rescore'}
+          </Button>
+        </div>
+        {run && <p className="text-sm text-muted-foreground">{describeRun(run)}</p>}
+      </div>
+
+      {versions.length > 1 && (
+        <div className="space-y-2">
+          <Label>Version History</Label>
+          <div className="space-y-1">
+            {versions.map(version => (
+              <div key={version.id} className="flex items-center justify-between text-sm">
+                <span>
+                  <span className="font-medium">v{version.version}</span>
+                  {version.note && <span className="text-muted-foreground"> — {version.note}</span>}
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  {formatDistanceToNow(new Date(version.created_at), { addSuffix: true })}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,392 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { toast } from "sonner"
+import { Lightbulb, Plus, AlertTriangle, Sparkles, Trash2, TrendingDown } from "lucide-react"
+import type { ContentIdea, IdeaSource, IdeaStatus, ThemeCoverage, ThemeSummary } from "@/lib/idea-backlog"
+
+const SOURCE_LABELS: Record<IdeaSource, string> = {
+  manual: 'Manual',
+  research: 'Research',
+  influencer_post: 'Influencer post'
+}
+
+const STATUS_LABELS: Record<IdeaStatus, string> = {
+  new: 'New',
+  planned: 'Planned',
+  used: 'Used',
+  dismissed: 'Dismissed'
+}
+
+const UNTHEMED = 'Unthemed'
+
+const generateHref = (idea: ContentIdea) =>
+  `/dashboard/content?ideaId=${idea.id}&topic=${encodeURIComponent([idea.topic, idea.angle].filter(Boolean).join('\n\n'))}`
+
+function IdeaRow({
+  idea,
+  onStatusChange,
+  onDelete
+}: {
+  idea: ContentIdea
+  onStatusChange: (idea: ContentIdea, status: IdeaStatus) => void
+  onDelete: (idea: ContentIdea) => void
+}) {
+  const overlap = 'checked_at' in idea.overlap ? idea.overlap : null
+
+  return (
+    <div className="p-3 border rounded-md space-y-2">
+      <div className="flex items-start justify-between gap-2">
+        <div className="space-y-1 min-w-0">
+          <p className="font-medium text-sm">{idea.topic}</p>
+          {idea.angle && <p className="text-xs text-muted-foreground">{idea.angle}</p>}
+        </div>
+        <div className="flex items-center gap-1 shrink-0">
+          <Badge variant="outline">{SOURCE_LABELS[idea.source]}</Badge>
+          <Badge variant={idea.status === 'planned' ? 'default' : 'secondary'}>{STATUS_LABELS[idea.status]}</Badge>
+        </div>
+      </div>
+      {overlap?.warning && (
+        <div className="p-2 bg-yellow-50 border border-yellow-200 rounded-md text-xs text-yellow-800 space-y-1">
+          <p className="flex items-center gap-1">
+            <AlertTriangle className="h-3.5 w-3.5" />
+            {overlap.warning}
+          </p>
+          {overlap.recent_posts.map(post => (
+            <a
+              key={post.urn}
+              href={post.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="block truncate hover:underline"
+            >
+              {new Date(post.posted_at).toLocaleDateString()}: {post.excerpt}
+            </a>
+          ))}
+        </div>
+      )}
+      {idea.source_url && (
+        <a
+          href={idea.source_url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="block truncate text-xs text-blue-600 hover:underline"
+        >
+          {idea.source_url}
+        </a>
+      )}
+      <div className="flex flex-wrap gap-2">
+        {(idea.status === 'new' || idea.status === 'planned') && (
+          <Button size="sm" asChild>
+            <Link href={generateHref(idea)}>
+              <Sparkles className="h-4 w-4 mr-1" />
+              Generate
+            </Link>
+          </Button>
+        )}
+        {idea.status === 'new' && (
+          <Button size="sm" variant="outline" onClick={() => onStatusChange(idea, 'planned')}>
+            Plan
+          </Button>
+        )}
+        {idea.status !== 'dismissed' && idea.status !== 'used' && (
+          <Button size="sm" variant="outline" onClick={() => onStatusChange(idea, 'dismissed')}>
+            Dismiss
+          </Button>
+        )}
+        {idea.status === 'dismissed' && (
+          <Button size="sm" variant="outline" onClick={() => onStatusChange(idea, 'new')}>
+            Restore
+          </Button>
+        )}
+        <Button size="sm" variant="ghost" onClick={() => onDelete(idea)}>
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+function ThemeSuggestion({ theme, windowDays }: { theme: ThemeSummary; windowDays: number }) {
+  return (
+    <div className="p-3 border rounded-md space-y-1 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium">{theme.label}</span>
+        {theme.ideaIds.length > 0 && (
+          <Badge variant="secondary">{theme.ideaIds.length} idea{theme.ideaIds.length === 1 ? '' : 's'} waiting</Badge>
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {theme.postCount > 0
+          ? `${theme.postCount} past post${theme.postCount === 1 ? '' : 's'}, none in the last ${windowDays} days` +
+            (theme.lastPostedAt ? ` (last ${new Date(theme.lastPostedAt).toLocaleDateString()})` : '')
+          : 'Never posted about'}
+      </p>
+      {theme.examplePost && (
+        <a
+          href={theme.examplePost.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="block truncate text-xs text-blue-600 hover:underline"
+        >
+          {theme.examplePost.excerpt}
+        </a>
+      )}
+    </div>
+  )
+}
+
+export function IdeaBacklog() {
+  const [ideas, setIdeas] = useState<ContentIdea[]>([])
+  const [coverage, setCoverage] = useState<ThemeCoverage | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [showClosed, setShowClosed] = useState(false)
+  const [form, setForm] = useState({ topic: '', angle: '', notes: '', sourceUrl: '' })
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    loadBacklog()
+  }, [])
+
+  const loadBacklog = async () => {
+    try {
+      const [ideasResponse, themesResponse] = await Promise.all([
+        fetch('/api/ideas'),
+        fetch('/api/ideas/themes')
+      ])
+
+      if (ideasResponse.ok) {
+        const result = await ideasResponse.json()
+        setIdeas(result.ideas || [])
+      }
+      if (themesResponse.ok) {
+        setCoverage(await themesResponse.json())
+      }
+    } catch (error) {
+      console.error('Error loading idea backlog:', error)
+      toast.error('Failed to load idea backlog')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleCreate = async () => {
+    if (!form.topic.trim()) {
+      toast.error('Please enter a topic')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const response = await fetch('/api/ideas', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          topic: form.topic,
+          angle: form.angle.trim() || undefined,
+          notes: form.notes.trim() || undefined,
+          source_url: form.sourceUrl.trim() || undefined
+        })
+      })
+
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save idea')
+      }
+
+      if (result.warning) {
+        toast.warning(`Saved, but: ${result.warning}`)
+      } else {
+        toast.success('Idea saved')
+      }
+
+      setForm({ topic: '', angle: '', notes: '', sourceUrl: '' })
+      await loadBacklog()
+    } catch (error) {
+      console.error('Error saving idea:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to save idea')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleStatusChange = async (idea: ContentIdea, status: IdeaStatus) => {
+    try {
+      const response = await fetch(`/api/ideas/${idea.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status })
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to update idea')
+      }
+
+      const result = await response.json()
+      setIdeas(current => current.map(existing => existing.id === idea.id ? result.idea : existing))
+    } catch (error) {
+      console.error('Error updating idea:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to update idea')
+    }
+  }
+
+  const handleDelete = async (idea: ContentIdea) => {
+    if (!window.confirm(`Delete "${idea.topic}"?`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/ideas/${idea.id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        throw new Error('Failed to delete idea')
+      }
+      setIdeas(current => current.filter(existing => existing.id !== idea.id))
+    } catch (error) {
+      console.error('Error deleting idea:', error)
+      toast.error('Failed to delete idea')
+    }
+  }
+
+  const visibleIdeas = ideas.filter(idea => showClosed || idea.status === 'new' || idea.status === 'planned')
+
+  // Group by the idea's theme so near-duplicates sit next to each other
+  const grouped = visibleIdeas.reduce<Record<string, ContentIdea[]>>((groups, idea) => {
+    const theme = idea.theme || UNTHEMED
+    groups[theme] = [...(groups[theme] || []), idea]
+    return groups
+  }, {})
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-3">
+      <div className="lg:col-span-2 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Plus className="h-5 w-5" />
+              Add Idea
+            </CardTitle>
+            <CardDescription>
+              Ideas are checked against recent posts and the rest of the backlog when saved
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="idea-topic">Topic</Label>
+              <Input
+                id="idea-topic"
+                value={form.topic}
+                onChange={(e) => setForm({ ...form, topic: e.target.value })}
+                placeholder="What's the post about?"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="idea-angle">Angle (optional)</Label>
+              <Input
+                id="idea-angle"
+                value={form.angle}
+                onChange={(e) => setForm({ ...form, angle: e.target.value })}
+                placeholder="The take or story that makes it Andrew's"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="idea-notes">Notes (optional)</Label>
+              <Textarea
+                id="idea-notes"
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                className="min-h-[80px]"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="idea-url">Source URL (optional)</Label>
+              <Input
+                id="idea-url"
+                value={form.sourceUrl}
+                onChange={(e) => setForm({ ...form, sourceUrl: e.target.value })}
+                placeholder="https://..."
+              />
+            </div>
+            <Button onClick={handleCreate} disabled={isSaving || !form.topic.trim()}>
+              {isSaving ? 'Saving...' : 'Save Idea'}
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <Lightbulb className="h-5 w-5" />
+                  Backlog
+                </CardTitle>
+                <CardDescription>
+                  {visibleIdeas.length} idea{visibleIdeas.length === 1 ? '' : 's'}, grouped by theme
+                </CardDescription>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => setShowClosed(!showClosed)}>
+                {showClosed ? 'Hide used & dismissed' : 'Show used & dismissed'}
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {loading ? (
+              <p className="text-sm text-muted-foreground">Loading...</p>
+            ) : visibleIdeas.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No ideas yet. Add one above, or save research ideas from generated drafts.
+              </p>
+            ) : (
+              Object.entries(grouped).map(([theme, themeIdeas]) => (
+                <div key={theme} className="space-y-2">
+                  <h4 className="text-sm font-semibold text-muted-foreground">{theme}</h4>
+                  {themeIdeas.map(idea => (
+                    <IdeaRow
+                      key={idea.id}
+                      idea={idea}
+                      onStatusChange={handleStatusChange}
+                      onDelete={handleDelete}
+                    />
+                  ))}
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="h-fit">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <TrendingDown className="h-5 w-5" />
+            Under-covered Themes
+          </CardTitle>
+          <CardDescription>
+            {coverage
+              ? `Themes with nothing posted in the last ${coverage.windowDays} days`
+              : 'Themes from past posts and the backlog'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {loading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : !coverage || coverage.suggestions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Every theme has had a recent post.</p>
+          ) : (
+            coverage.suggestions.map(theme => (
+              <ThemeSuggestion key={theme.label} theme={theme} windowDays={coverage.windowDays} />
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
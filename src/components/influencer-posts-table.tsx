@@ -15,7 +15,7 @@ import {
   useReactTable,
 } from "@tanstack/react-table"
 import { format } from "date-fns"
-import { MessageSquare, ThumbsUp, ExternalLink, Sparkles } from "lucide-react"
+import { MessageSquare, ThumbsUp, ExternalLink, Sparkles, Lightbulb } from "lucide-react"
 
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
@@ -177,6 +177,15 @@ export function InfluencerPostsTable({ posts, onRefresh, isLoading = false }: In
               <Sparkles className="h-4 w-4 mr-1" />
               {isGenerating && selectedPost?.id === post.id ? "Generating..." : "Generate Comment"}
             </Button>
+
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleSaveIdea(post)}
+              title="Save this post's topic to the idea backlog"
+            >
+              <Lightbulb className="h-4 w-4" />
+            </Button>
           </div>
         )
       },
@@ -245,6 +254,33 @@ export function InfluencerPostsTable({ posts, onRefresh, isLoading = false }: In
     }
   }
 
+  const handleSaveIdea = async (post: InfluencerPost) => {
+    try {
+      const response = await fetch('/api/ideas/import', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ source: 'influencer_post', postId: post.id }),
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to save idea')
+      }
+
+      const result = await response.json()
+      const warning = result.ideas?.[0]?.overlap?.warning
+      if (warning) {
+        toast.warning(`Saved to the idea backlog, but: ${warning}`)
+      } else {
+        toast.success('Saved to the idea backlog')
+      }
+    } catch (error) {
+      console.error('Error saving idea:', error)
+      toast.error('Failed to save idea. Please try again.')
+    }
+  }
+
   const handleSelectComment = (comment: GeneratedComment) => {
     setSelectedComment(comment)
   }
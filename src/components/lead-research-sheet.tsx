@@ -16,7 +16,8 @@ import {
   Loader2,
   Copy,
   MessageSquare,
-  Plus
+  Plus,
+  RotateCw
 } from "lucide-react"
 
 import { Button } from "@/components/ui/button"
@@ -29,6 +30,8 @@ import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTr
 import { Textarea } from "@/components/ui/textarea"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { toast } from "sonner"
+import { ICP_OUTCOMES, ICP_OUTCOME_LABELS, type ICPOutcome } from "@/lib/icp-outcomes"
+import type { ResearchJob as StoredResearchJob, ResearchJobStatus } from "@/lib/research-jobs"
 
 // Types for lead data
 export type Lead = {
@@ -50,12 +53,52 @@ export type Lead = {
 
 export type ResearchJob = {
   jobId: string
-  status: 'triggered' | 'processing' | 'completed' | 'failed'
+  status: ResearchJobStatus
   profileUrl: string
   estimatedCompletionTime?: string
   message: string
 }
 
+const POLL_INTERVAL_MS = 5000
+
+const RESEARCH_STATUS_LABELS: Record<ResearchJobStatus, string> = {
+  queued: 'Queued',
+  sent: 'Researching',
+  completed: 'Completed',
+  partial: 'Partial',
+  failed: 'Failed',
+  timed_out: 'Timed out'
+}
+
+const jobMessage = (job: StoredResearchJob): string => {
+  switch (job.status) {
+    case 'queued': return `Research automation unreachable${job.error ? ` (${job.error})` : ''}; retrying shortly`
+    case 'sent': return job.attempts > 1 ? `Research in progress (attempt ${job.attempts} of ${job.max_attempts})` : 'Research in progress'
+    case 'completed': return 'Research completed and saved to the lead'
+    case 'partial': return 'Research completed with partial data'
+    case 'failed': return job.error || 'Research failed'
+    case 'timed_out': return job.error || 'Research timed out'
+  }
+}
+
+// Stored lead record (Airtable field names) to the shape this sheet shows
+const toLead = (record: { id: string; fields: Record<string, any> }): Lead => ({
+  id: record.id,
+  name: record.fields['Name'] || '',
+  profileUrl: record.fields['Profile URL'] || '',
+  role: record.fields['Role'],
+  company: record.fields['Company'],
+  companySize: record.fields['Company Size'],
+  tenureMonths: record.fields['Tenure Months'],
+  icpScore: record.fields['ICP Score'] || 0,
+  scoreBreakdown: record.fields['Score Breakdown'] ? JSON.parse(record.fields['Score Breakdown']) : undefined,
+  tags: record.fields['Tags'] || [],
+  notes: record.fields['Notes'],
+  status: record.fields['Status'] || 'New',
+  researchData: record.fields['Research Data'],
+  createdAt: record.fields['Created'] || new Date().toISOString()
+})
+
 interface LeadResearchSheetProps {
   trigger: React.ReactNode
   onLeadCreated?: (lead: Lead) => void
@@ -81,30 +124,37 @@ export function LeadResearchSheet({
   const [researchJob, setResearchJob] = useState<ResearchJob | null>(null)
   const [researchResult, setResearchResult] = useState<Lead | null>(existingLead || null)
   const [error, setError] = useState<string | null>(null)
+  const [outcome, setOutcome] = useState<ICPOutcome | undefined>(undefined)
 
-  // Polling for research completion
+  // Poll the job until the automation calls back, it fails or it times out
   React.useEffect(() => {
-    let interval: NodeJS.Timeout | null = null
-
-    if (researchJob && researchJob.status === 'processing') {
-      interval = setInterval(async () => {
-        try {
-          // In a real implementation, you'd have an endpoint to check job status
-          // For now, we'll simulate completion after a delay
-          if (Date.now() - parseInt(researchJob.jobId.split('_')[1]) > 10000) {
-            // Simulate completed research - in reality this would come from webhook
-            setResearchJob(prev => prev ? { ...prev, status: 'completed' } : null)
-          }
-        } catch (error) {
-          console.error('Error polling research status:', error)
+    if (!researchJob || (researchJob.status !== 'queued' && researchJob.status !== 'sent')) return
+
+    const interval = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/research/jobs/${researchJob.jobId}`)
+        const data = await response.json()
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to check research status')
         }
-      }, 2000)
-    }
 
-    return () => {
-      if (interval) clearInterval(interval)
-    }
-  }, [researchJob])
+        const job: StoredResearchJob = data.job
+        setResearchJob(prev => prev ? { ...prev, status: job.status, message: jobMessage(job) } : null)
+
+        if ((job.status === 'completed' || job.status === 'partial') && data.lead) {
+          setResearchResult(toLead(data.lead))
+          toast.success('Research completed')
+        } else if (job.status === 'failed' || job.status === 'timed_out') {
+          toast.error(jobMessage(job))
+        }
+      } catch (error) {
+        console.error('Error polling research status:', error)
+      }
+    }, POLL_INTERVAL_MS)
+
+    return () => clearInterval(interval)
+  }, [researchJob?.jobId, researchJob?.status])
 
   const handleResearchTrigger = async () => {
     if (!profileUrl) {
@@ -129,37 +179,62 @@ export function LeadResearchSheet({
         },
         body: JSON.stringify({
           profileUrl,
+          leadId: existingLead?.id,
           priority,
           notes: customNotes,
           tags: customTags,
         }),
       })
 
+      const result = await response.json()
+
       if (!response.ok) {
-        throw new Error('Failed to trigger research')
+        throw new Error(result.error || 'Failed to trigger research')
       }
 
-      const result = await response.json()
-      
       setResearchJob({
         jobId: result.jobId,
-        status: 'processing',
+        status: result.status,
         profileUrl,
         estimatedCompletionTime: result.estimatedCompletionTime,
-        message: result.message
+        message: jobMessage(result.job)
       })
 
       toast.success('Research started! This will take 2-5 minutes.')
 
     } catch (error) {
       console.error('Error triggering research:', error)
-      setError('Failed to start research. Please try again.')
+      setError(error instanceof Error ? `${error.message}. Please try again.` : 'Failed to start research. Please try again.')
       toast.error('Failed to start research')
     } finally {
       setIsResearching(false)
     }
   }
 
+  const handleRetryResearch = async () => {
+    if (!researchJob) return
+
+    setIsResearching(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/research/jobs/${researchJob.jobId}/retry`, { method: 'POST' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to retry research')
+      }
+
+      setResearchJob({ ...researchJob, status: data.job.status, message: jobMessage(data.job) })
+      toast.success('Research restarted')
+    } catch (error) {
+      console.error('Error retrying research:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to retry research')
+    } finally {
+      setIsResearching(false)
+    }
+  }
+
   const handleAddTag = () => {
     if (newTag && !customTags.includes(newTag)) {
       setCustomTags([...customTags, newTag])
@@ -171,6 +246,30 @@ export function LeadResearchSheet({
     setCustomTags(customTags.filter(tag => tag !== tagToRemove))
   }
 
+  // Outcomes feed ICP calibration; only saved leads can have one
+  const handleRecordOutcome = async (value: ICPOutcome) => {
+    if (!existingLead) return
+
+    try {
+      const response = await fetch('/api/icp/outcomes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ subjectType: 'lead', subjectId: existingLead.id, outcome: value })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to record outcome')
+      }
+
+      setOutcome(value)
+      toast.success(`Outcome recorded: ${ICP_OUTCOME_LABELS[value]}`)
+    } catch (error) {
+      console.error('Error recording outcome:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to record outcome')
+    }
+  }
+
   const handleUpdateLead = async () => {
     if (!researchResult) return
 
@@ -264,8 +363,8 @@ export function LeadResearchSheet({
             </div>
           </div>
 
-          {/* Research Controls (only if no existing lead) */}
-          {!existingLead && (
+          {/* Research Controls (existing leads can be researched again; results update the same lead) */}
+          {(!existingLead || !researchJob) && (
             <div className="space-y-4">
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
@@ -296,7 +395,7 @@ export function LeadResearchSheet({
                 ) : (
                   <>
                     <Search className="mr-2 h-4 w-4" />
-                    Start Research
+                    {existingLead ? 'Research Again' : 'Start Research'}
                   </>
                 )}
               </Button>
@@ -308,9 +407,9 @@ export function LeadResearchSheet({
             <Card>
               <CardHeader>
                 <CardTitle className="flex items-center space-x-2">
-                  {researchJob.status === 'processing' && <Clock className="h-5 w-5 text-blue-500" />}
-                  {researchJob.status === 'completed' && <CheckCircle className="h-5 w-5 text-green-500" />}
-                  {researchJob.status === 'failed' && <AlertCircle className="h-5 w-5 text-red-500" />}
+                  {(researchJob.status === 'queued' || researchJob.status === 'sent') && <Clock className="h-5 w-5 text-blue-500" />}
+                  {(researchJob.status === 'completed' || researchJob.status === 'partial') && <CheckCircle className="h-5 w-5 text-green-500" />}
+                  {(researchJob.status === 'failed' || researchJob.status === 'timed_out') && <AlertCircle className="h-5 w-5 text-red-500" />}
                   <span>Research Status</span>
                 </CardTitle>
               </CardHeader>
@@ -320,14 +419,20 @@ export function LeadResearchSheet({
                     <span className="text-sm">Status:</span>
                     <Badge variant={
                       researchJob.status === 'completed' ? 'default' :
-                      researchJob.status === 'failed' ? 'destructive' :
+                      researchJob.status === 'failed' || researchJob.status === 'timed_out' ? 'destructive' :
                       'secondary'
                     }>
-                      {researchJob.status}
+                      {RESEARCH_STATUS_LABELS[researchJob.status]}
                     </Badge>
                   </div>
                   <p className="text-sm text-muted-foreground">{researchJob.message}</p>
-                  {researchJob.estimatedCompletionTime && (
+                  {(researchJob.status === 'failed' || researchJob.status === 'timed_out' || researchJob.status === 'partial') && (
+                    <Button variant="outline" size="sm" onClick={handleRetryResearch} disabled={isResearching}>
+                      <RotateCw className="mr-2 h-4 w-4" />
+                      Retry Research
+                    </Button>
+                  )}
+                  {researchJob.estimatedCompletionTime && (researchJob.status === 'queued' || researchJob.status === 'sent') && (
                     <p className="text-xs text-muted-foreground">
                       Estimated completion: {researchJob.estimatedCompletionTime}
                     </p>
@@ -486,6 +591,28 @@ export function LeadResearchSheet({
                 </CardContent>
               </Card>
 
+              {/* Outcome */}
+              {existingLead && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Outcome</CardTitle>
+                    <CardDescription>What happened with this lead, for ICP calibration</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <Select value={outcome} onValueChange={(value) => handleRecordOutcome(value as ICPOutcome)}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Record an outcome..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ICP_OUTCOMES.map(option => (
+                          <SelectItem key={option} value={option}>{ICP_OUTCOME_LABELS[option]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </CardContent>
+                </Card>
+              )}
+
               {/* Notes */}
               <Card>
                 <CardHeader>
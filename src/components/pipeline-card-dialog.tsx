@@ -0,0 +1,209 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { format, formatDistanceStrict, formatDistanceToNow } from "date-fns"
+import { ExternalLink, Save, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Separator } from "@/components/ui/separator"
+import type { PipelineCard, PipelineStageVisit } from "@/lib/lead-pipeline"
+import type { WorkspaceMember } from "@/lib/workspaces"
+
+const UNASSIGNED = 'unassigned'
+
+const SUBJECT_LABELS: Record<PipelineCard['subject_type'], string> = {
+  lead: 'Lead',
+  connection: 'Connection',
+  profile: 'Commenter'
+}
+
+export const memberName = (member?: WorkspaceMember) =>
+  member ? member.display_name || `Member ${member.user_id.slice(0, 8)}` : 'Unassigned'
+
+interface PipelineCardDialogProps {
+  card: PipelineCard | null
+  members: WorkspaceMember[]
+  onOpenChange: (open: boolean) => void
+  onUpdated: (card: PipelineCard) => void
+  onRemoved: (cardId: string) => void
+}
+
+// Owner, next action and stage history for one card
+export function PipelineCardDialog({ card, members, onOpenChange, onUpdated, onRemoved }: PipelineCardDialogProps) {
+  const [owner, setOwner] = useState(UNASSIGNED)
+  const [nextAction, setNextAction] = useState('')
+  const [nextActionAt, setNextActionAt] = useState('')
+  const [visits, setVisits] = useState<PipelineStageVisit[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (!card) return
+
+    setOwner(card.owner_user_id || UNASSIGNED)
+    setNextAction(card.next_action || '')
+    setNextActionAt(card.next_action_at || '')
+    setVisits([])
+
+    fetch(`/api/pipeline/cards/${card.id}/history`)
+      .then(response => response.json())
+      .then(data => setVisits(data.visits || []))
+      .catch(error => console.error('Error loading stage history:', error))
+  }, [card?.id])
+
+  const save = async () => {
+    if (!card) return
+
+    setIsSaving(true)
+    try {
+      const response = await fetch(`/api/pipeline/cards/${card.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ownerUserId: owner === UNASSIGNED ? null : owner,
+          nextAction: nextAction.trim() || null,
+          nextActionAt: nextActionAt || null
+        })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to save card')
+      }
+
+      onUpdated(data.card)
+      toast.success('Card saved')
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Error saving pipeline card:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to save card')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const remove = async () => {
+    if (!card || !confirm(`Remove ${card.name} from the pipeline? Their stage history goes too.`)) return
+
+    try {
+      const response = await fetch(`/api/pipeline/cards/${card.id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to remove card')
+      }
+
+      onRemoved(card.id)
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Error removing pipeline card:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to remove card')
+    }
+  }
+
+  return (
+    <Dialog open={!!card} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        {card && (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                {card.name}
+                <Badge variant="outline">{SUBJECT_LABELS[card.subject_type]}</Badge>
+                {card.icp_score !== null && card.icp_score !== undefined && <Badge variant="secondary">ICP {card.icp_score}</Badge>}
+              </DialogTitle>
+              <DialogDescription>
+                {[card.headline, card.company].filter(Boolean).join(' · ') || 'No headline'}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              <div className="space-y-1">
+                <Label>Owner</Label>
+                <Select value={owner} onValueChange={setOwner}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                    {members.map(member => (
+                      <SelectItem key={member.user_id} value={member.user_id}>{memberName(member)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="grid grid-cols-3 gap-2">
+                <div className="col-span-2 space-y-1">
+                  <Label htmlFor="next-action">Next action</Label>
+                  <Input
+                    id="next-action"
+                    placeholder="e.g. Send the case study"
+                    value={nextAction}
+                    onChange={(e) => setNextAction(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="next-action-at">Due</Label>
+                  <Input
+                    id="next-action-at"
+                    type="date"
+                    value={nextActionAt}
+                    onChange={(e) => setNextActionAt(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <Separator />
+
+              <div className="space-y-2">
+                <Label>Stage History</Label>
+                {visits.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No stage changes recorded</p>
+                ) : (
+                  <div className="space-y-1">
+                    {visits.map(visit => (
+                      <div key={visit.id} className="flex items-center justify-between text-sm">
+                        <span>
+                          <span className="font-medium">{visit.stage_name}</span>
+                          <span className="text-muted-foreground"> from {format(new Date(visit.entered_at), 'd MMM yyyy')}</span>
+                        </span>
+                        <span className="text-xs text-muted-foreground">
+                          {visit.exited_at
+                            ? formatDistanceStrict(new Date(visit.exited_at), new Date(visit.entered_at))
+                            : `${formatDistanceToNow(new Date(visit.entered_at))} so far`}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={remove}>
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Remove
+                  </Button>
+                  {card.profile_url && (
+                    <Button variant="outline" size="sm" onClick={() => window.open(card.profile_url!, '_blank')}>
+                      <ExternalLink className="mr-2 h-4 w-4" />
+                      Profile
+                    </Button>
+                  )}
+                </div>
+                <Button onClick={save} disabled={isSaving}>
+                  <Save className="mr-2 h-4 w-4" />
+                  {isSaving ? 'Saving...' : 'Save'}
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -12,6 +12,7 @@ import { Textarea } from "@/components/ui/textarea"
 import { toast } from "sonner"
 import { ConnectionPost } from "./connection-posts-table"
 import { CommentsList } from "./comments-list"
+import { PostVelocityCard } from "./post-velocity-card"
 
 interface PostDetailDialogProps {
   post: ConnectionPost | null
@@ -359,12 +360,22 @@ export function PostDetailDialog({
               </div>
             </div>
 
+            {post.postUrn && (
+              <>
+                <Separator />
+
+                {/* Growth Curve & Velocity */}
+                <PostVelocityCard postUrn={post.postUrn} />
+              </>
+            )}
+
             <Separator />
 
             {/* Comments Section */}
             <div className="space-y-4">
               <CommentsList 
                 postUrl={post.postUrl || ''}
+                postUrn={post.postUrn || undefined}
                 initialCommentsCount={post.commentsCount}
               />
             </div>
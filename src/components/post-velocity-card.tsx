@@ -0,0 +1,115 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Activity, TrendingDown, TrendingUp } from "lucide-react"
+import { Line, LineChart, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts"
+import { Badge } from "@/components/ui/badge"
+import type { PerformanceFlag, PostVelocity, VelocityCheckpoint } from "@/lib/post-velocity"
+
+interface PostVelocityCardProps {
+  postUrn: string
+}
+
+const CHECKPOINT_LABELS: Record<VelocityCheckpoint, string> = {
+  firstHour: "First hour",
+  firstDay: "24h",
+  firstWeek: "7d"
+}
+
+const FLAG_BADGES: Record<PerformanceFlag, { label: string; className: string }> = {
+  over: { label: "Over-performing", className: "bg-green-100 text-green-800 hover:bg-green-100" },
+  under: { label: "Under-performing", className: "bg-red-100 text-red-800 hover:bg-red-100" },
+  on_track: { label: "On baseline", className: "bg-blue-100 text-blue-800 hover:bg-blue-100" },
+  insufficient_data: { label: "Not enough data", className: "bg-muted text-muted-foreground hover:bg-muted" }
+}
+
+const formatAge = (hours: number) => hours < 48 ? `${Math.round(hours)}h` : `${Math.round(hours / 24)}d`
+
+// Reaction growth since posting, with first hour / day / week velocity against the baseline author
+export function PostVelocityCard({ postUrn }: PostVelocityCardProps) {
+  const [velocity, setVelocity] = useState<PostVelocity | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+    setIsLoading(true)
+    setVelocity(null)
+
+    fetch(`/api/analytics/velocity?urn=${encodeURIComponent(postUrn)}`)
+      .then(async response => {
+        // Posts that were never synced to Supabase have no history to show
+        if (!response.ok) return null
+        return response.json()
+      })
+      .then(data => {
+        if (!cancelled) setVelocity(data?.success ? data : null)
+      })
+      .catch(error => {
+        console.error('Error fetching post velocity:', error)
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [postUrn])
+
+  if (isLoading) {
+    return <div className="text-sm text-muted-foreground">Loading growth...</div>
+  }
+
+  if (!velocity) return null
+
+  const { performance, baseline } = velocity
+  const badge = FLAG_BADGES[performance.flag]
+  const FlagIcon = performance.flag === 'under' ? TrendingDown : performance.flag === 'over' ? TrendingUp : Activity
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold text-lg">Growth</h4>
+        <Badge className={badge.className}>
+          <FlagIcon className="h-3 w-3 mr-1" />
+          {badge.label}
+        </Badge>
+      </div>
+
+      {performance.checkpoint && performance.ratio !== undefined && (
+        <p className="text-xs text-muted-foreground">
+          {performance.ratio}x @{baseline.username}&apos;s median at {CHECKPOINT_LABELS[performance.checkpoint]}
+        </p>
+      )}
+
+      {velocity.growth.length > 0 ? (
+        <div className="h-40">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={velocity.growth.map(point => ({ ...point, age: formatAge(point.hoursSincePost) }))}>
+              <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+              <XAxis dataKey="age" className="text-xs" />
+              <YAxis className="text-xs" allowDecimals={false} width={32} />
+              <Tooltip />
+              <Line type="monotone" dataKey="reactions" stroke="#3b82f6" strokeWidth={2} dot={false} name="Reactions" />
+              <Line type="monotone" dataKey="comments" stroke="#10b981" strokeWidth={2} dot={false} name="Comments" />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">No engagement snapshots yet</p>
+      )}
+
+      <div className="grid grid-cols-3 gap-2 text-center text-sm">
+        {(Object.keys(CHECKPOINT_LABELS) as VelocityCheckpoint[]).map(checkpoint => (
+          <div key={checkpoint} className="bg-muted/30 p-2 rounded-lg">
+            <div className="text-xs text-muted-foreground">{CHECKPOINT_LABELS[checkpoint]}</div>
+            <div className="font-medium">{velocity.velocity[checkpoint] ?? '–'}</div>
+            <div className="text-xs text-muted-foreground">
+              median {baseline.velocity[checkpoint] ?? '–'}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
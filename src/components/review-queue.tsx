@@ -0,0 +1,215 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { toast } from "sonner"
+import { formatDistanceToNow } from "date-fns"
+import { Bell, CheckCheck, FileText, Sparkles } from "lucide-react"
+import type { WorkflowBackend, WorkflowItem, WorkflowNotification, WorkflowStatus } from "@/lib/content-workflow"
+import { ContentReviewPanel, ReviewerBadge, STATUS_COLORS, approveDraft, useReviewer } from "./content-review-panel"
+
+type QueueItem = WorkflowItem & { backend: WorkflowBackend }
+
+const BACKEND_LABELS: Record<WorkflowBackend, string> = {
+  airtable: 'Post',
+  supabase: 'Generated draft'
+}
+
+export function ReviewQueue() {
+  const { reviewer } = useReviewer()
+  const [status, setStatus] = useState<WorkflowStatus>('Review')
+  const [items, setItems] = useState<QueueItem[]>([])
+  const [selected, setSelected] = useState<QueueItem | null>(null)
+  const [notifications, setNotifications] = useState<WorkflowNotification[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const fetchQueue = async () => {
+    try {
+      const response = await fetch(`/api/workflow/queue?status=${status}`)
+      if (response.ok) {
+        const data = await response.json()
+        setItems(data.items)
+        setSelected(current => data.items.find((item: QueueItem) => item.id === current?.id) || data.items[0] || null)
+      }
+    } catch (error) {
+      console.error('Error fetching review queue:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchNotifications = async () => {
+    if (!reviewer) return
+
+    try {
+      const response = await fetch('/api/workflow/notifications?unread=true')
+      if (response.ok) {
+        const data = await response.json()
+        setNotifications(data.notifications)
+      }
+    } catch (error) {
+      console.error('Error fetching notifications:', error)
+    }
+  }
+
+  useEffect(() => {
+    fetchQueue()
+  }, [status])
+
+  useEffect(() => {
+    fetchNotifications()
+  }, [reviewer?.id])
+
+  const markAllRead = async () => {
+    if (!reviewer) return
+
+    try {
+      const response = await fetch('/api/workflow/notifications', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({})
+      })
+      if (!response.ok) {
+        throw new Error('Failed to update notifications')
+      }
+      setNotifications([])
+    } catch (error) {
+      console.error('Error marking notifications read:', error)
+      toast.error('Failed to update notifications')
+    }
+  }
+
+  const openNotification = (notification: WorkflowNotification) => {
+    const item = items.find(candidate => candidate.id === notification.content_id)
+    if (item) {
+      setSelected(item)
+    } else {
+      setStatus('Review')
+    }
+  }
+
+  const handleApprove = async () => {
+    if (!selected || !reviewer) return
+    await approveDraft(selected.id)
+    toast.success('Draft approved and added to Airtable')
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <Tabs value={status} onValueChange={(value) => setStatus(value as WorkflowStatus)}>
+          <TabsList>
+            <TabsTrigger value="Review">In review</TabsTrigger>
+            <TabsTrigger value="Draft">Drafts</TabsTrigger>
+            <TabsTrigger value="Approved">Approved</TabsTrigger>
+          </TabsList>
+        </Tabs>
+        <ReviewerBadge reviewer={reviewer} />
+      </div>
+
+      {notifications.length > 0 && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="flex items-center gap-2 text-base">
+              <Bell className="h-4 w-4" />
+              Review requests
+              <Badge variant="secondary">{notifications.length}</Badge>
+            </CardTitle>
+            <Button variant="ghost" size="sm" onClick={markAllRead}>
+              <CheckCheck className="h-4 w-4 mr-1" />
+              Mark all read
+            </Button>
+          </CardHeader>
+          <CardContent className="space-y-1">
+            {notifications.map(notification => (
+              <button
+                key={notification.id}
+                className="block w-full text-left text-sm p-2 rounded-md hover:bg-muted/50"
+                onClick={() => openNotification(notification)}
+              >
+                {notification.message}
+                <span className="text-xs text-muted-foreground ml-2">
+                  {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                </span>
+              </button>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid gap-4 lg:grid-cols-5">
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="text-base">{items.length} {status === 'Review' ? 'waiting for review' : status.toLowerCase()}</CardTitle>
+            <CardDescription>Airtable posts and generated drafts</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {loading ? (
+              <p className="text-sm text-muted-foreground">Loading...</p>
+            ) : items.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nothing here</p>
+            ) : (
+              items.map(item => (
+                <button
+                  key={`${item.backend}-${item.id}`}
+                  onClick={() => setSelected(item)}
+                  className={`block w-full text-left p-3 border rounded-md text-sm hover:bg-muted/50 ${
+                    selected?.id === item.id ? 'border-primary' : ''
+                  }`}
+                >
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground mb-1">
+                    {item.backend === 'airtable' ? <FileText className="h-3 w-3" /> : <Sparkles className="h-3 w-3" />}
+                    {BACKEND_LABELS[item.backend]}
+                  </div>
+                  <p className="line-clamp-2">{item.body}</p>
+                </button>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-3">
+          {selected ? (
+            <>
+              <CardHeader>
+                <div className="flex items-center gap-2">
+                  <CardTitle className="text-base">{BACKEND_LABELS[selected.backend]}</CardTitle>
+                  <Badge variant="outline" className={STATUS_COLORS[selected.status]}>{selected.status}</Badge>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="whitespace-pre-wrap text-sm p-3 bg-muted/50 rounded-md">
+                  {selected.body}
+                </div>
+                {selected.hashtags.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {selected.hashtags.map(tag => (
+                      <Badge key={tag} variant="secondary">{tag.startsWith('#') ? tag : `#${tag}`}</Badge>
+                    ))}
+                  </div>
+                )}
+                <ContentReviewPanel
+                  backend={selected.backend}
+                  id={selected.id}
+                  reviewer={reviewer}
+                  onApprove={selected.backend === 'supabase' ? handleApprove : undefined}
+                  onStatusChange={() => {
+                    fetchQueue()
+                    fetchNotifications()
+                  }}
+                />
+              </CardContent>
+            </>
+          ) : (
+            <CardContent className="py-12 text-center text-sm text-muted-foreground">
+              Select something to review
+            </CardContent>
+          )}
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -11,6 +11,10 @@ import {
   BarChart3,
   Settings,
   User2,
+  Lightbulb,
+  ClipboardCheck,
+  Inbox,
+  KanbanSquare,
 } from "lucide-react"
 
 const items = [
@@ -24,11 +28,31 @@ const items = [
     href: "/dashboard/content",
     icon: FileText,
   },
+  {
+    title: "Review",
+    href: "/dashboard/review",
+    icon: ClipboardCheck,
+  },
+  {
+    title: "Ideas",
+    href: "/dashboard/ideas",
+    icon: Lightbulb,
+  },
   {
     title: "My Posts",
     href: "/dashboard/my-posts",
     icon: User2,
   },
+  {
+    title: "Comment Inbox",
+    href: "/dashboard/inbox",
+    icon: Inbox,
+  },
+  {
+    title: "Pipeline",
+    href: "/dashboard/pipeline",
+    icon: KanbanSquare,
+  },
   {
     title: "LinkedIn Network",
     href: "/dashboard/network",
@@ -0,0 +1,155 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Progress } from "@/components/ui/progress"
+import { DollarSign, CalendarDays, AlertTriangle } from "lucide-react"
+import type { UsageSummary, BudgetPeriod } from "@/lib/usage-ledger"
+
+const formatUsd = (value: number) => `$${value.toFixed(value < 1 ? 4 : 2)}`
+
+function SpendCard({ title, period, icon }: { title: string; period: BudgetPeriod; icon: React.ReactNode }) {
+  const percent = period.capUsd ? Math.min((period.spentUsd / period.capUsd) * 100, 100) : 0
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-sm font-medium">{title}</CardTitle>
+        {icon}
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <div className="text-2xl font-bold">{formatUsd(period.spentUsd)}</div>
+        {period.capUsd !== undefined ? (
+          <>
+            <Progress value={percent} />
+            <p className="text-xs text-muted-foreground">
+              {Math.round(percent)}% of {formatUsd(period.capUsd)} cap
+            </p>
+          </>
+        ) : (
+          <p className="text-xs text-muted-foreground">No cap configured</p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export function UsagePanel() {
+  const [summary, setSummary] = useState<UsageSummary | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    fetchUsage()
+  }, [])
+
+  const fetchUsage = async () => {
+    try {
+      const response = await fetch('/api/usage?days=14')
+      if (response.ok) {
+        setSummary(await response.json())
+      }
+    } catch (error) {
+      console.error('Error fetching usage:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>AI & API Spend</CardTitle>
+          <CardDescription>Loading...</CardDescription>
+        </CardHeader>
+      </Card>
+    )
+  }
+
+  if (!summary) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-muted-foreground">Unable to load usage data</p>
+      </div>
+    )
+  }
+
+  const maxDailyCost = Math.max(...summary.daily.map(day => day.costUsd), 0)
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xl font-semibold tracking-tight">AI & API Spend</h3>
+        {!summary.budget.allowed && (
+          <Badge variant="destructive" className="flex items-center gap-1">
+            <AlertTriangle className="h-3 w-3" />
+            {summary.budget.exceeded === 'daily' ? 'Daily' : 'Monthly'} cap reached - new jobs paused
+          </Badge>
+        )}
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <SpendCard
+          title="Today"
+          period={summary.budget.daily}
+          icon={<DollarSign className="h-4 w-4 text-muted-foreground" />}
+        />
+        <SpendCard
+          title="This Month"
+          period={summary.budget.monthly}
+          icon={<CalendarDays className="h-4 w-4 text-muted-foreground" />}
+        />
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Daily Spend</CardTitle>
+            <CardDescription>Last {summary.days} days</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex h-32 items-end gap-1">
+              {summary.daily.map(day => (
+                <div
+                  key={day.day}
+                  className="flex-1 rounded-t bg-primary/70"
+                  style={{ height: `${maxDailyCost > 0 ? Math.max((day.costUsd / maxDailyCost) * 100, 2) : 2}%` }}
+                  title={`${day.day}: ${formatUsd(day.costUsd)} (${day.totalTokens.toLocaleString()} tokens)`}
+                />
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">By Agent</CardTitle>
+            <CardDescription>Where the spend went</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {summary.byAgent.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No usage recorded yet</p>
+            ) : (
+              summary.byAgent.slice(0, 6).map(row => (
+                <div key={row.key} className="flex items-center justify-between text-sm">
+                  <span className="truncate">{row.key}</span>
+                  <span className="text-muted-foreground">
+                    {formatUsd(row.costUsd)} · {row.requestCount} calls
+                  </span>
+                </div>
+              ))
+            )}
+            <div className="flex flex-wrap gap-2 pt-2">
+              {summary.byCategory.map(row => (
+                <Badge key={row.key} variant="secondary">
+                  {row.key}: {formatUsd(row.costUsd)}
+                </Badge>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
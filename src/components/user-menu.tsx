@@ -0,0 +1,98 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { toast } from "sonner"
+import { LogOut } from "lucide-react"
+
+interface SessionInfo {
+  method: 'session' | 'token' | 'disabled'
+  user: { id: string; email?: string } | null
+  workspace: { id: string; name?: string }
+  role?: string
+  workspaces: Array<{ id: string; name: string; role: string }>
+}
+
+export function UserMenu() {
+  const router = useRouter()
+  const [session, setSession] = useState<SessionInfo | null>(null)
+
+  useEffect(() => {
+    fetch('/api/auth/session')
+      .then(response => response.ok ? response.json() : null)
+      .then(data => data && setSession(data))
+      .catch(error => console.error('Error fetching session:', error))
+  }, [])
+
+  const switchWorkspace = async (workspaceId: string) => {
+    try {
+      const response = await fetch('/api/auth/session', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ workspaceId })
+      })
+      if (!response.ok) {
+        throw new Error('Failed to switch workspace')
+      }
+      // Everything on screen belongs to the old workspace
+      window.location.reload()
+    } catch (error) {
+      console.error('Error switching workspace:', error)
+      toast.error('Failed to switch workspace')
+    }
+  }
+
+  const logout = async () => {
+    await fetch('/api/auth/logout', { method: 'POST' })
+    router.replace('/login')
+  }
+
+  if (!session) {
+    return (
+      <div className="flex items-center gap-3">
+        <div className="h-8 w-8 rounded-full bg-muted" />
+        <div className="flex-1 h-4 rounded bg-muted" />
+      </div>
+    )
+  }
+
+  const name = session.user?.email || (session.method === 'disabled' ? 'Local development' : 'Automation')
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3">
+        <div className="h-8 w-8 rounded-full bg-muted flex items-center justify-center text-xs font-medium uppercase">
+          {name.charAt(0)}
+        </div>
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium truncate">{name}</p>
+          <p className="text-xs text-muted-foreground truncate">
+            {session.workspace.name || 'Default'}{session.role && ` · ${session.role}`}
+          </p>
+        </div>
+        {session.user && (
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={logout} title="Sign out">
+            <LogOut className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {session.workspaces.length > 1 && (
+        <Select value={session.workspace.id} onValueChange={switchWorkspace}>
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue placeholder="Workspace" />
+          </SelectTrigger>
+          <SelectContent>
+            {session.workspaces.map(workspace => (
+              <SelectItem key={workspace.id} value={workspace.id}>
+                {workspace.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  )
+}
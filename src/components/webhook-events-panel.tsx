@@ -0,0 +1,198 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { formatDistanceToNow } from "date-fns"
+import { Eye, RefreshCw, RotateCw } from "lucide-react"
+import { toast } from "sonner"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { WebhookEvent, WebhookSource } from "@/lib/webhook-verification"
+
+const ALL = 'all'
+
+const SOURCE_LABELS: Record<WebhookSource, string> = {
+  lindy: 'Lindy',
+  research: 'Lead research',
+  influencers: 'Influencer posts',
+  comment_generation: 'Comment generation'
+}
+
+type EventSummary = Omit<WebhookEvent, 'body'>
+
+// Recent inbound webhook deliveries; rejected ones can be inspected and replayed
+export function WebhookEventsPanel() {
+  const [events, setEvents] = useState<EventSummary[]>([])
+  const [source, setSource] = useState<string>(ALL)
+  const [status, setStatus] = useState<string>('rejected')
+  const [loading, setLoading] = useState(true)
+  const [selected, setSelected] = useState<WebhookEvent | null>(null)
+  const [replayingId, setReplayingId] = useState<string | null>(null)
+
+  const fetchEvents = async () => {
+    setLoading(true)
+    try {
+      const params = new URLSearchParams()
+      if (source !== ALL) params.set('source', source)
+      if (status !== ALL) params.set('status', status)
+
+      const response = await fetch(`/api/webhooks/events?${params}`)
+      if (response.ok) {
+        const data = await response.json()
+        setEvents(data.events)
+      }
+    } catch (error) {
+      console.error('Error fetching webhook events:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchEvents()
+  }, [source, status])
+
+  const inspect = async (event: EventSummary) => {
+    try {
+      const response = await fetch(`/api/webhooks/events/${event.id}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load webhook event')
+      }
+      setSelected(data.event)
+    } catch (error) {
+      console.error('Error loading webhook event:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to load webhook event')
+    }
+  }
+
+  const replay = async (event: EventSummary) => {
+    setReplayingId(event.id)
+    try {
+      const response = await fetch(`/api/webhooks/events/${event.id}/replay`, { method: 'POST' })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to replay webhook event')
+      }
+
+      if (data.success) {
+        toast.success(`Replayed to ${SOURCE_LABELS[event.source]} (${data.status})`)
+      } else {
+        toast.error(`Replay rejected (${data.status}): ${data.response?.error || 'unknown error'}`)
+      }
+      fetchEvents()
+    } catch (error) {
+      console.error('Error replaying webhook event:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to replay webhook event')
+    } finally {
+      setReplayingId(null)
+    }
+  }
+
+  const prettyBody = (body: string) => {
+    try {
+      return JSON.stringify(JSON.parse(body), null, 2)
+    } catch {
+      return body
+    }
+  }
+
+  return (
+    <div className="space-y-4 text-sm">
+      <p className="text-muted-foreground">
+        Senders sign each delivery with their source&apos;s secret in{' '}
+        <code className="text-xs bg-muted px-1 py-0.5 rounded">t=&lt;unix time&gt;,v1=&lt;HMAC-SHA256 of &quot;t.body&quot;&gt;</code>,
+        or of <code className="text-xs bg-muted px-1 py-0.5 rounded">&quot;t.nonce.body&quot;</code> when they send an X-Webhook-Nonce.
+        Unsigned, stale and repeated deliveries are rejected and kept here.
+      </p>
+
+      <div className="flex items-center gap-2">
+        <Select value={source} onValueChange={setSource}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All sources</SelectItem>
+            {(Object.keys(SOURCE_LABELS) as WebhookSource[]).map(key => (
+              <SelectItem key={key} value={key}>{SOURCE_LABELS[key]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={status} onValueChange={setStatus}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All deliveries</SelectItem>
+            <SelectItem value="rejected">Rejected</SelectItem>
+            <SelectItem value="accepted">Accepted</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="icon" onClick={fetchEvents} disabled={loading}>
+          <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+
+      {loading ? (
+        <p className="text-muted-foreground">Loading deliveries...</p>
+      ) : events.length === 0 ? (
+        <p className="text-muted-foreground">No deliveries</p>
+      ) : (
+        <div className="space-y-2">
+          {events.map(event => (
+            <div key={event.id} className="flex items-center justify-between p-3 border rounded-lg">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{SOURCE_LABELS[event.source]}</span>
+                  <Badge variant={event.status === 'rejected' ? 'destructive' : 'secondary'}>{event.status}</Badge>
+                  {!event.verified && event.status === 'accepted' && <Badge variant="outline">unsigned</Badge>}
+                  {event.replay_of && <Badge variant="outline">replay</Badge>}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {formatDistanceToNow(new Date(event.created_at), { addSuffix: true })}
+                  {event.reason && ` · ${event.reason}`}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => inspect(event)}>
+                  <Eye className="h-4 w-4" />
+                </Button>
+                {event.status === 'rejected' && (
+                  <Button variant="outline" size="sm" onClick={() => replay(event)} disabled={replayingId === event.id}>
+                    <RotateCw className={`mr-2 h-4 w-4 ${replayingId === event.id ? 'animate-spin' : ''}`} />
+                    Replay
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-2xl">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{SOURCE_LABELS[selected.source]} delivery</DialogTitle>
+                <DialogDescription>
+                  {selected.status === 'rejected' ? `Rejected: ${selected.reason}` : 'Accepted'}
+                  {selected.nonce && ` · nonce ${selected.nonce}`}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-3 text-sm">
+                <pre className="text-xs bg-muted p-3 rounded max-h-32 overflow-auto">
+                  {JSON.stringify(selected.headers, null, 2)}
+                </pre>
+                <pre className="text-xs bg-muted p-3 rounded max-h-80 overflow-auto">
+                  {prettyBody(selected.body)}
+                </pre>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -1,4 +1,4 @@
-import Airtable from 'airtable'
+import Airtable, { type FieldSet } from 'airtable'
 import { z } from 'zod'
 
 // Airtable record schemas
@@ -16,6 +16,9 @@ export const ContentPostSchema = z.object({
     'Likes': z.number().optional(),
     'Comments': z.number().optional(),
     'Created': z.string().optional(),
+    // Written back by the worker's scheduled publisher
+    'LinkedIn URL': z.string().optional(),
+    'Published At': z.string().optional(),
   })
 })
 
@@ -59,6 +62,7 @@ export const LeadSchema = z.object({
     'Company Size': z.enum(['1-50', '51-200', '201-500', '501-1000', '1000+']).optional(),
     'Tenure Months': z.number().optional(),
     'ICP Score': z.number().optional(),
+    'ICP Version': z.number().optional(), // ICP definition version behind the score
     'Score Breakdown': z.string().optional(), // JSON string
     'Tags': z.array(z.string()).optional(),
     'Notes': z.string().optional(),
@@ -88,19 +92,29 @@ export const ConnectionSchema = z.object({
     'Last Name': z.string().optional(),
     'Headline': z.string().optional(),
     'Username': z.string().optional(),
-    'Profile Picture About': z.string().optional(),
-    'Full Location Hashtags': z.string().optional(),
+    'About': z.string().optional(),
+    'Profile Picture URL': z.array(z.any()).optional(), // Attachments: [{ url, ... }]
+    'Full Location': z.string().optional(),
+    'Hashtags': z.string().optional(),
     'Is Creator': z.boolean().optional(),
     'Is Influencer': z.boolean().optional(),
     'Is Premium': z.boolean().optional(),
-    'Show Follow Background I URN': z.string().optional(),
+    'URN': z.string().optional(),
     'Follower Count': z.number().optional(),
     'Connection Count': z.number().optional(),
-    'Current Company Title': z.string().optional(),
+    'Current Company': z.string().optional(),
+    'Title': z.string().optional(),
     'Company Location': z.string().optional(),
     'Duration': z.string().optional(),
     'Start Date': z.string().optional(),
     'Is Current': z.boolean().optional(),
+    'Company LinkedIn URL': z.string().optional(),
+    'Current Company URN': z.string().optional(),
+    // Older field names, still present on some records
+    'Profile Picture About': z.string().optional(),
+    'Full Location Hashtags': z.string().optional(),
+    'Show Follow Background I URN': z.string().optional(),
+    'Current Company Title': z.string().optional(),
     'Company Name': z.string().optional(),
     'Current Company ID': z.string().optional(),
   })
@@ -113,26 +127,20 @@ export type Lead = z.infer<typeof LeadSchema>
 export type GeneratedComment = z.infer<typeof GeneratedCommentSchema>
 export type Connection = z.infer<typeof ConnectionSchema>
 
+export type AirtableTable = 'contentPosts' | 'influencers' | 'influencerPosts' | 'leads' | 'generatedComments' | 'connections'
+
+export interface AirtableSelectOptions {
+  maxRecords?: number
+  filterByFormula?: string
+  sort?: Array<{field: string, direction: 'asc' | 'desc'}>
+}
+
 // Airtable client
 export class AirtableClient {
   private base: Airtable.Base
-  private tables: {
-    contentPosts: string
-    influencers: string
-    influencerPosts: string
-    leads: string
-    generatedComments: string
-    connections: string
-  }
-
-  constructor(apiKey: string, baseId: string, tables: {
-    contentPosts: string
-    influencers: string
-    influencerPosts: string
-    leads: string
-    generatedComments: string
-    connections: string
-  }) {
+  private tables: Record<AirtableTable, string>
+
+  constructor(apiKey: string, baseId: string, tables: Record<AirtableTable, string>) {
     Airtable.configure({
       endpointUrl: 'https://api.airtable.com',
       apiKey: apiKey
@@ -241,6 +249,23 @@ export class AirtableClient {
     })
   }
 
+  // Get posts scheduled within a date range (calendar views)
+  async getPostsScheduledBetween(start: Date, end: Date): Promise<ContentPost[]> {
+    return this.getContentPosts({
+      maxRecords: 500,
+      filterByFormula: `AND({Scheduled Date} != "", NOT(IS_BEFORE({Scheduled Date}, "${start.toISOString()}")), IS_BEFORE({Scheduled Date}, "${end.toISOString()}"))`,
+      sort: [{ field: 'Scheduled Date', direction: 'asc' }]
+    })
+  }
+
+  // Approved posts waiting for a slot on the calendar
+  async getUnscheduledApprovedPosts(): Promise<ContentPost[]> {
+    return this.getContentPosts({
+      filterByFormula: `AND({Status} = "Approved", {Scheduled Date} = "")`,
+      sort: [{ field: 'Created', direction: 'desc' }]
+    })
+  }
+
   // Analytics helpers
   async getPostStats(): Promise<{
     total: number
@@ -599,6 +624,82 @@ export class AirtableClient {
     }
   }
 
+  // Generic record access by table, used by the storage layer's Airtable adapter (src/lib/storage)
+  hasTable(table: AirtableTable): boolean {
+    return !!this.tables[table]
+  }
+
+  // Unlike the per-table getters there's no default maxRecords: omitting it reads every page
+  async selectRecords<T extends { id?: string, fields: object }>(table: AirtableTable, options: AirtableSelectOptions = {}): Promise<T[]> {
+    try {
+      const selectOptions: any = {}
+
+      if (options.maxRecords) {
+        selectOptions.maxRecords = options.maxRecords
+      }
+
+      if (options.filterByFormula) {
+        selectOptions.filterByFormula = options.filterByFormula
+      }
+
+      if (options.sort) {
+        selectOptions.sort = options.sort
+      }
+
+      const records = await this.base(this.tables[table]).select(selectOptions).all()
+
+      return records.map(record => ({
+        id: record.id,
+        fields: record.fields
+      }) as T)
+    } catch (error) {
+      console.error(`Error fetching ${table} records:`, error)
+      throw error
+    }
+  }
+
+  async findRecord<T extends { id?: string, fields: object }>(table: AirtableTable, id: string): Promise<T | null> {
+    try {
+      const record = await this.base(this.tables[table]).find(id)
+      return { id: record.id, fields: record.fields } as T
+    } catch (error: any) {
+      if (error?.statusCode === 404) {
+        return null
+      }
+      console.error(`Error fetching ${table} record:`, error)
+      throw error
+    }
+  }
+
+  async createRecord<T extends { id?: string, fields: object }>(table: AirtableTable, fields: T['fields']): Promise<T> {
+    try {
+      const record = await this.base(this.tables[table]).create(fields as Partial<FieldSet>)
+      return { id: record.id, fields: record.fields } as T
+    } catch (error) {
+      console.error(`Error creating ${table} record:`, error)
+      throw error
+    }
+  }
+
+  async updateRecord<T extends { id?: string, fields: object }>(table: AirtableTable, id: string, fields: Partial<T['fields']>): Promise<T> {
+    try {
+      const record = await this.base(this.tables[table]).update(id, fields as Partial<FieldSet>)
+      return { id: record.id, fields: record.fields } as T
+    } catch (error) {
+      console.error(`Error updating ${table} record:`, error)
+      throw error
+    }
+  }
+
+  async destroyRecord(table: AirtableTable, id: string): Promise<void> {
+    try {
+      await this.base(this.tables[table]).destroy(id)
+    } catch (error) {
+      console.error(`Error deleting ${table} record:`, error)
+      throw error
+    }
+  }
+
   // Batch operations for performance
   async batchCreateInfluencerPosts(posts: InfluencerPost['fields'][]): Promise<InfluencerPost[]> {
     try {
@@ -637,19 +738,12 @@ export class AirtableClient {
 export const createAirtableClient = (
   apiKey?: string,
   baseId?: string,
-  tableIds?: {
-    contentPosts?: string
-    influencers?: string
-    influencerPosts?: string
-    leads?: string
-    generatedComments?: string
-    connections?: string
-  }
+  tableIds?: Partial<Record<AirtableTable, string>>
 ) => {
   const key = apiKey || process.env.AIRTABLE_API_KEY
   const base = baseId || process.env.AIRTABLE_BASE_ID
   
-  const tables = {
+  const tables: Record<AirtableTable, string> = {
     contentPosts: tableIds?.contentPosts || process.env.AIRTABLE_CONTENT_POSTS_TABLE_ID || process.env.AIRTABLE_TABLE_ID || '',
     influencers: tableIds?.influencers || process.env.AIRTABLE_INFLUENCERS_TABLE_ID || '',
     influencerPosts: tableIds?.influencerPosts || process.env.AIRTABLE_INFLUENCER_POSTS_TABLE_ID || process.env.AIRTABLE_CONNECTION_POSTS_TABLE_ID || '',
@@ -666,5 +760,5 @@ export const createAirtableClient = (
     throw new Error('Content posts table ID is required')
   }
 
-  return new AirtableClient(key, base, tables as any)
+  return new AirtableClient(key, base, tables)
 }
\ No newline at end of file
@@ -0,0 +1,112 @@
+import { supabase, supabaseAdmin } from './supabase'
+import { generateApiToken, hashToken } from './session'
+
+// Kept free of Node-only imports: middleware verifies bearer tokens with this at the edge
+
+export interface ApiToken {
+  id: string
+  workspace_id: string
+  name: string
+  token_prefix: string
+  created_by?: string
+  last_used_at?: string
+  revoked_at?: string
+  created_at: string
+}
+
+const TOKEN_PREFIX_LENGTH = 12
+
+const getClient = () => supabaseAdmin || supabase
+
+export class ApiTokenService {
+  // Returns the plain token once; only its hash is stored
+  static async createToken(workspaceId: string, name: string, createdBy?: string): Promise<{ token: string; apiToken: ApiToken }> {
+    const token = generateApiToken()
+    const client = getClient()
+
+    const { data, error } = await client
+      .from('api_tokens')
+      .insert({
+        workspace_id: workspaceId,
+        name,
+        token_hash: await hashToken(token),
+        token_prefix: token.slice(0, TOKEN_PREFIX_LENGTH),
+        created_by: createdBy
+      })
+      .select('id, workspace_id, name, token_prefix, created_by, last_used_at, revoked_at, created_at')
+      .single()
+
+    if (error) {
+      console.error('Error creating API token:', error)
+      throw new Error(`Failed to create API token: ${error.message}`)
+    }
+
+    return { token, apiToken: data }
+  }
+
+  static async listTokens(workspaceId: string): Promise<ApiToken[]> {
+    const client = getClient()
+    const { data, error } = await client
+      .from('api_tokens')
+      .select('id, workspace_id, name, token_prefix, created_by, last_used_at, revoked_at, created_at')
+      .eq('workspace_id', workspaceId)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching API tokens:', error)
+      throw new Error(`Failed to fetch API tokens: ${error.message}`)
+    }
+
+    return data || []
+  }
+
+  static async revokeToken(workspaceId: string, tokenId: string): Promise<boolean> {
+    const client = getClient()
+    const { data, error } = await client
+      .from('api_tokens')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', tokenId)
+      .eq('workspace_id', workspaceId)
+      .is('revoked_at', null)
+      .select('id')
+
+    if (error) {
+      console.error('Error revoking API token:', error)
+      throw new Error(`Failed to revoke API token: ${error.message}`)
+    }
+
+    return (data || []).length > 0
+  }
+
+  // Workspace the token belongs to, or null if it is unknown or revoked
+  static async verifyToken(token: string): Promise<{ tokenId: string; workspaceId: string } | null> {
+    if (!supabaseAdmin) {
+      console.error('API tokens need SUPABASE_SERVICE_ROLE_KEY to be verified')
+      return null
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('api_tokens')
+      .select('id, workspace_id')
+      .eq('token_hash', await hashToken(token))
+      .is('revoked_at', null)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error verifying API token:', error)
+      return null
+    }
+
+    if (!data) return null
+
+    // Best effort; a failed timestamp update shouldn't reject a valid token
+    await supabaseAdmin
+      .from('api_tokens')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', data.id)
+
+    return { tokenId: data.id, workspaceId: data.workspace_id }
+  }
+}
+
+export default ApiTokenService
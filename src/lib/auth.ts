@@ -0,0 +1,66 @@
+// Request identity, as established by src/middleware.ts. Edge-safe: no Node-only imports.
+
+// Rows created before workspaces existed were backfilled into this one (see supabase-workspaces-schema.sql)
+export const DEFAULT_WORKSPACE_ID = '00000000-0000-0000-0000-000000000001'
+
+// Set by the middleware once it has verified a session cookie or API token; copies sent by clients are stripped
+export const AUTH_HEADERS = {
+  userId: 'x-auth-user-id',
+  email: 'x-auth-email',
+  workspaceId: 'x-auth-workspace-id',
+  method: 'x-auth-method',
+  tokenId: 'x-auth-token-id'
+} as const
+
+// 'disabled' only happens in local development with AUTH_DISABLED=true
+export type AuthMethod = 'session' | 'token' | 'disabled'
+
+export interface AuthContext {
+  workspaceId: string
+  method: AuthMethod
+  userId?: string
+  email?: string
+  tokenId?: string
+}
+
+export class AuthError extends Error {
+  constructor(message: string, public readonly status: 401 | 403) {
+    super(message)
+    this.name = 'AuthError'
+  }
+}
+
+export const isAuthDisabled = (): boolean =>
+  process.env.AUTH_DISABLED === 'true' && process.env.NODE_ENV !== 'production'
+
+export const getAuthContext = (request: Request): AuthContext => {
+  const workspaceId = request.headers.get(AUTH_HEADERS.workspaceId)
+  const method = request.headers.get(AUTH_HEADERS.method) as AuthMethod | null
+
+  if (!workspaceId || !method) {
+    throw new AuthError('Authentication required', 401)
+  }
+
+  return {
+    workspaceId,
+    method,
+    userId: request.headers.get(AUTH_HEADERS.userId) || undefined,
+    email: request.headers.get(AUTH_HEADERS.email) || undefined,
+    tokenId: request.headers.get(AUTH_HEADERS.tokenId) || undefined
+  }
+}
+
+// For routes the middleware lets through without credentials (webhooks), which authenticate the request themselves
+export const getOptionalAuthContext = (request: Request): AuthContext | null =>
+  request.headers.get(AUTH_HEADERS.workspaceId) ? getAuthContext(request) : null
+
+// For account management routes that an automation token must not reach
+export const requireUser = (request: Request): AuthContext & { userId: string } => {
+  const auth = getAuthContext(request)
+
+  if (!auth.userId) {
+    throw new AuthError('This endpoint requires a signed-in user', 403)
+  }
+
+  return auth as AuthContext & { userId: string }
+}
@@ -0,0 +1,408 @@
+import { z } from 'zod'
+import { supabase, supabaseAdmin } from './supabase'
+import { supabaseLinkedIn, type DBLinkedInComment, type LinkedInComment } from './supabase-linkedin'
+import { CommentThreadService, type CommentThread } from './comment-threads'
+import { VoiceProfileService, renderVoiceGuidelines } from './voice-profiles'
+import { createLLMProvider } from './llm'
+import { createLindyClient } from './lindy'
+import { UsageLedgerService } from './usage-ledger'
+import { WorkspaceService } from './workspaces'
+import type { EnhancedProspectProfile } from './enhanced-icp-scorer'
+
+export type CommentReplyStatus = 'draft' | 'sending' | 'sent' | 'failed' | 'unknown'
+
+export interface ReplyVariation {
+  text: string
+  approach: string
+  length: number
+}
+
+// Row in comment_replies: the drafted variations for one comment and, once approved, what was sent
+export interface CommentReply {
+  id: string
+  workspace_id: string
+  comment_id: string
+  post_urn: string
+  style: string
+  voice_profile_id?: string | null
+  variations: ReplyVariation[]
+  selected_text?: string | null
+  status: CommentReplyStatus
+  lindy_job_id?: string | null
+  error?: string | null
+  sent_at?: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface ReplyContext {
+  postPreview: string
+  thread: CommentThread
+  commenter: {
+    name: string
+    headline: string
+    role?: string
+    company?: string
+    icpScore?: number
+    icpCategory?: string
+  }
+  voiceProfile?: string
+}
+
+export const ReplyGenerationSchema = z.object({
+  mode: z.literal('reply'),
+  commentId: z.string().min(1), // linkedin_comments.comment_id on one of the workspace's own posts
+  commentStyle: z.enum(['professional', 'engaging', 'thoughtful', 'supportive']).optional().default('engaging'),
+  maxLength: z.number().min(20).max(500).optional().default(250),
+  variants: z.number().int().min(1).max(5).optional().default(3),
+  voiceProfileId: z.string().uuid().optional() // Defaults to the default voice profile
+})
+
+export const ReplySendSchema = z.object({
+  replyId: z.string().uuid(),
+  text: z.string().min(1).max(1250) // The approved variation, edited or not
+})
+
+export type ReplyGenerationInput = z.infer<typeof ReplyGenerationSchema>
+
+// Thrown for requests the reply flow refuses; status is the HTTP status the routes return
+export class CommentReplyError extends Error {
+  constructor(message: string, public readonly status: 404 | 409) {
+    super(message)
+    this.name = 'CommentReplyError'
+  }
+}
+
+const ANDREW_REPLY_PROMPT = `
+You are Andrew Tallents, a seasoned CEO coach and leadership expert, replying to a comment on one of your own LinkedIn posts.
+
+REPLY APPROACH:
+- Speak directly to the commenter, by first name where it reads naturally
+- Respond to what they actually said, not to the post in general
+- Build on their point with a brief insight from coaching or executive experience
+- Where it fits, ask one question that keeps the conversation going
+- Keep it warm and human; a reply is part of a conversation, not a new post
+
+TONE: Professional yet personable, experienced but not condescending, coaching-oriented
+
+AVOID:
+- Generic replies like "Thanks for your comment!" or "Great point!"
+- Pitching coaching services or asking for a call
+- Repeating the post back to them
+- Hashtags
+`
+
+const STYLE_INSTRUCTIONS = {
+  professional: 'Keep the tone professional and business-focused.',
+  engaging: 'Make the reply engaging and conversational to encourage further discussion.',
+  thoughtful: 'Give a thoughtful, reflective reply that adds depth.',
+  supportive: 'Be encouraging and supportive while adding value.'
+}
+
+const POST_PREVIEW_LENGTH = 100
+
+const getClient = () => supabaseAdmin || supabase
+
+const getLinkedIn = (workspaceId: string) => {
+  if (!supabaseLinkedIn) {
+    throw new Error('Supabase LinkedIn service not available. Please check environment variables.')
+  }
+  return supabaseLinkedIn.forWorkspace(workspaceId)
+}
+
+const toLinkedInComment = (row: DBLinkedInComment): LinkedInComment => ({
+  comment_id: row.comment_id,
+  text: row.text,
+  posted_at: row.posted_at,
+  is_edited: row.is_edited,
+  is_pinned: row.is_pinned,
+  comment_url: row.comment_url,
+  author: {
+    name: row.author_name,
+    headline: row.author_headline,
+    profile_url: row.author_profile_url,
+    profile_picture: row.author_profile_picture
+  },
+  stats: {
+    total_reactions: row.total_reactions,
+    reactions: {
+      like: row.like_reactions,
+      appreciation: row.appreciation_reactions,
+      empathy: row.empathy_reactions,
+      interest: row.interest_reactions,
+      praise: row.praise_reactions
+    },
+    comments: row.comments_count
+  }
+})
+
+const describeCommenter = (row: DBLinkedInComment, profile: EnhancedProspectProfile | null): string => {
+  const lines = [`Name: ${row.author_name}`]
+  if (row.author_headline) lines.push(`Headline: ${row.author_headline}`)
+  if (profile?.role) lines.push(`Role: ${profile.role}${profile.company ? ` at ${profile.company}` : ''}`)
+  if (profile?.icpScore.tags.length) lines.push(`Notes: ${profile.icpScore.tags.join(', ')}`)
+  return lines.join('\n')
+}
+
+export class CommentReplyService {
+  // Loads the comment, its post and the whole thread; comments on other workspaces' posts are missing
+  private static async getThreadContext(workspaceId: string, commentId: string) {
+    const { data: comment, error } = await getClient()
+      .from('linkedin_comments')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .eq('comment_id', commentId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching comment:', error)
+      throw new Error(`Failed to fetch comment: ${error.message}`)
+    }
+
+    const post = comment ? await getLinkedIn(workspaceId).getPostByUrn(comment.post_urn) : null
+    if (!comment || !post) {
+      throw new CommentReplyError('Comment not found on your posts', 404)
+    }
+
+    const threads = await CommentThreadService.getThreads(workspaceId, post.urn) || []
+    const rootId = comment.parent_comment_id || comment.comment_id
+    const thread = threads.find(candidate => candidate.comment.comment_id === rootId)
+      || { comment: comment as DBLinkedInComment, replies: [] }
+
+    return { comment: comment as DBLinkedInComment, post, thread }
+  }
+
+  // Drafts reply variations in Andrew's voice from the post, the thread and the commenter's profile
+  static async generateReplies(workspaceId: string, input: ReplyGenerationInput): Promise<{ reply: CommentReply; context: ReplyContext }> {
+    const { comment, post, thread } = await this.getThreadContext(workspaceId, input.commentId)
+
+    const profile = await getLinkedIn(workspaceId).researchCommentAuthor(toLinkedInComment(comment))
+    const voiceProfile = input.voiceProfileId
+      ? await VoiceProfileService.getProfile(workspaceId, input.voiceProfileId)
+      : await VoiceProfileService.getDefaultProfile(workspaceId)
+
+    const systemPrompt = `${ANDREW_REPLY_PROMPT}
+${voiceProfile ? `\n${renderVoiceGuidelines(voiceProfile)}\n` : ''}
+STYLE: ${STYLE_INSTRUCTIONS[input.commentStyle]}
+MAX LENGTH: ${input.maxLength} characters
+
+Generate ${input.variants} different reply variations that follow these guidelines.`
+
+    const conversation = [thread.comment, ...thread.replies]
+      .map(row => `- ${row.is_owner_comment ? 'You' : row.author_name}: "${row.text}"`)
+      .join('\n')
+
+    const userPrompt = `Your post:
+"${post.text}"
+
+The comment thread so far, in order:
+${conversation}
+
+You are replying to this comment from ${comment.author_name}:
+"${comment.text}"
+
+About the commenter:
+${describeCommenter(comment, profile)}
+
+Requirements:
+- Generate exactly ${input.variants} different reply variations
+- Each reply should be unique in approach but consistent in quality
+- Stay within ${input.maxLength} characters per reply
+- Style: ${input.commentStyle}
+
+Return as JSON with this structure:
+{
+  "comments": [
+    {
+      "text": "reply text here",
+      "approach": "brief description of the approach"
+    }
+  ]
+}`
+
+    const llm = createLLMProvider()
+    const { data, completion } = await llm.completeJSON({
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt }
+      ],
+      temperature: 0.8,
+      maxTokens: 1000
+    })
+
+    await UsageLedgerService.recordLLMUsage(completion, { route: '/api/content/comment', workspaceId }, 'comment_reply')
+
+    if (!completion.content) {
+      throw new Error('No response from LLM provider')
+    }
+
+    // Fall back to the raw response as a single variation if it wasn't JSON
+    const drafts: Array<{ text?: string; approach?: string }> = data?.comments
+      || [{ text: completion.content.trim(), approach: 'Generated reply' }]
+
+    const variations: ReplyVariation[] = drafts
+      .filter(draft => draft.text?.trim())
+      .map((draft, index) => ({
+        text: draft.text!.trim(),
+        approach: draft.approach || `Approach ${index + 1}`,
+        length: draft.text!.trim().length
+      }))
+
+    const now = new Date().toISOString()
+    const { data: reply, error } = await getClient()
+      .from('comment_replies')
+      .insert({
+        workspace_id: workspaceId,
+        comment_id: comment.comment_id,
+        post_urn: post.urn,
+        style: input.commentStyle,
+        voice_profile_id: voiceProfile?.id || null,
+        variations,
+        status: 'draft',
+        created_at: now,
+        updated_at: now
+      })
+      .select('*')
+      .single()
+
+    if (error) {
+      console.error('Error saving reply drafts:', error)
+      throw new Error(`Failed to save reply drafts: ${error.message}`)
+    }
+
+    return {
+      reply: reply as CommentReply,
+      context: {
+        postPreview: post.text.length > POST_PREVIEW_LENGTH ? `${post.text.substring(0, POST_PREVIEW_LENGTH)}...` : post.text,
+        thread,
+        commenter: {
+          name: comment.author_name,
+          headline: comment.author_headline,
+          role: profile?.role || undefined,
+          company: profile?.company || undefined,
+          icpScore: profile?.icpScore.totalScore,
+          icpCategory: profile?.icpScore.category
+        },
+        voiceProfile: voiceProfile?.name
+      }
+    }
+  }
+
+  static async listReplies(workspaceId: string, commentId: string): Promise<CommentReply[]> {
+    const { data, error } = await getClient()
+      .from('comment_replies')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .eq('comment_id', commentId)
+      .order('created_at', { ascending: false })
+      .limit(10)
+
+    if (error) {
+      console.error('Error fetching comment replies:', error)
+      throw new Error(`Failed to fetch comment replies: ${error.message}`)
+    }
+
+    return (data || []) as CommentReply[]
+  }
+
+  // Sends the approved text through Lindy and returns the reply as sent, failed or unknown. The draft is claimed
+  // first so a double click can't post twice; the thread is marked answered straight away and the next
+  // comment sync confirms it from LinkedIn. Only replies Lindy refused go back to failed and can be resent:
+  // after a timeout or lost response the reply may be live, so it stays unknown until someone checks LinkedIn.
+  static async sendReply(workspaceId: string, replyId: string, text: string): Promise<CommentReply> {
+    const authorId = await WorkspaceService.getLindyAuthorId(workspaceId)
+    if (!authorId) {
+      throw new CommentReplyError('No Lindy author is set for this workspace (settings.linkedin.authorId)', 409)
+    }
+
+    const client = getClient()
+    const { data: claimed, error } = await client
+      .from('comment_replies')
+      .update({ status: 'sending', selected_text: text, error: null, updated_at: new Date().toISOString() })
+      .eq('workspace_id', workspaceId)
+      .eq('id', replyId)
+      .in('status', ['draft', 'failed'])
+      .select('*')
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error claiming reply:', error)
+      throw new Error(`Failed to claim reply: ${error.message}`)
+    }
+
+    if (!claimed) {
+      const { data: existing } = await client
+        .from('comment_replies')
+        .select('status')
+        .eq('workspace_id', workspaceId)
+        .eq('id', replyId)
+        .maybeSingle()
+
+      if (!existing) throw new CommentReplyError('Reply not found', 404)
+      if (existing.status === 'unknown') {
+        throw new CommentReplyError('This reply may already be on LinkedIn; check there before replying again', 409)
+      }
+      throw new CommentReplyError(`This reply has already been ${existing.status === 'sent' ? 'sent' : 'queued'}`, 409)
+    }
+
+    const reply = claimed as CommentReply
+    const finish = async (updates: Partial<CommentReply>) => {
+      const { data, error: updateError } = await client
+        .from('comment_replies')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('workspace_id', workspaceId)
+        .eq('id', reply.id)
+        .select('*')
+        .single()
+
+      if (updateError) {
+        console.error('Error updating reply:', updateError)
+        throw new Error(`Failed to update reply: ${updateError.message}`)
+      }
+
+      return data as CommentReply
+    }
+
+    let context: Awaited<ReturnType<typeof this.getThreadContext>>
+    try {
+      context = await this.getThreadContext(workspaceId, reply.comment_id)
+    } catch (contextError) {
+      // Nothing was sent yet
+      return finish({ status: 'failed', error: contextError instanceof Error ? contextError.message : 'Unknown error' })
+    }
+
+    const { comment, post, thread } = context
+    const threadCommentId = thread.comment.comment_id
+    const result = await createLindyClient().commentOnLinkedIn({
+      comment: text,
+      postUrl: post.url,
+      authorId,
+      replyToCommentId: thread.comment.comment_id,
+      replyToCommentUrl: thread.comment.comment_url || comment.comment_url || undefined
+    })
+
+    if (!result.success) {
+      return finish({
+        status: result.rejected ? 'failed' : 'unknown',
+        error: result.error || 'Failed to send reply'
+      })
+    }
+
+    const now = new Date().toISOString()
+    const sent = await finish({ status: 'sent', lindy_job_id: result.jobId || null, sent_at: now })
+
+    const { error: threadError } = await client
+      .from('linkedin_comments')
+      .update({ needs_reply: false, owner_replied_at: now, updated_at: now })
+      .eq('workspace_id', workspaceId)
+      .eq('comment_id', threadCommentId)
+
+    if (threadError) {
+      console.warn('Failed to mark comment thread answered:', threadError)
+    }
+
+    return sent
+  }
+}
+
+export default CommentReplyService
@@ -0,0 +1,384 @@
+import { z } from 'zod'
+import { supabase, supabaseAdmin } from './supabase'
+import {
+  commentICPFields,
+  supabaseLinkedIn,
+  toPostedAt,
+  type DBLinkedInComment,
+  type DBLinkedInPost,
+  type LinkedInComment
+} from './supabase-linkedin'
+import type { EnhancedProspectProfile } from './enhanced-icp-scorer'
+import { ICPDefinitionService } from './icp-definitions'
+import { UsageLedgerService } from './usage-ledger'
+
+// A top-level comment and its replies, oldest reply first
+export interface CommentThread {
+  comment: DBLinkedInComment
+  replies: DBLinkedInComment[]
+}
+
+export interface InboxThread extends CommentThread {
+  post: {
+    urn: string
+    url: string
+    text: string
+    postedAt: string
+  }
+}
+
+export interface CommentInbox {
+  threads: InboxThread[]
+  total: number
+}
+
+export interface CommentSyncResult {
+  postUrn: string
+  pagesFetched: number
+  threads: number
+  replies: number
+  needsReply: number
+  researchedProfiles: number
+  errors: number
+}
+
+export interface InboxSyncResult {
+  synced: CommentSyncResult[]
+  failed: Array<{ postUrn: string; error: string }>
+  // Recent posts whose comment count hasn't moved since their last sync
+  skipped: number
+}
+
+export interface ThreadState {
+  ownerRepliedAt: string | null
+  lastActivityAt: string | null
+  needsReply: boolean
+}
+
+export const CommentInboxQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(90).default(30),
+  limit: z.coerce.number().int().min(1).max(200).default(50)
+})
+
+export const CommentInboxSyncSchema = z.object({
+  days: z.number().int().min(1).max(90).default(14),
+  maxPosts: z.number().int().min(1).max(25).default(10)
+})
+
+// Newest first, so the comments most likely to need a reply come back on the first pages
+const COMMENT_SORT_ORDER = 'Most recent'
+const MAX_COMMENT_PAGES = 20
+const REQUEST_DELAY_MS = 1500
+
+type PostAuthor = Pick<DBLinkedInPost, 'author_username' | 'author_profile_url' | 'author_first_name' | 'author_last_name'>
+
+const getClient = () => supabaseAdmin || supabase
+
+const getLinkedIn = (workspaceId: string) => {
+  if (!supabaseLinkedIn) {
+    throw new Error('Supabase LinkedIn service not available. Please check environment variables.')
+  }
+  return supabaseLinkedIn.forWorkspace(workspaceId)
+}
+
+const profileSlug = (url?: string | null) => url?.match(/linkedin\.com\/in\/([^/?#]+)/i)?.[1]?.toLowerCase()
+
+const timeOf = (value?: string | null) => (value ? new Date(value).getTime() : NaN)
+
+// Comment authors come back with either the vanity profile URL or a member-id URL, so the
+// post author's name is the fallback when neither URL matches
+export const isPostAuthor = (author: LinkedInComment['author'], post: PostAuthor): boolean => {
+  const slug = profileSlug(author.profile_url)
+  if (slug && (slug === post.author_username?.toLowerCase() || slug === profileSlug(post.author_profile_url))) {
+    return true
+  }
+
+  const postAuthorName = `${post.author_first_name || ''} ${post.author_last_name || ''}`.trim().toLowerCase()
+  return !!postAuthorName && author.name?.trim().toLowerCase() === postAuthorName
+}
+
+// A thread needs a reply while someone other than the post author has the last word
+export const threadStateOf = (
+  comment: { postedAt?: string | null; byOwner: boolean },
+  replies: Array<{ postedAt?: string | null; byOwner: boolean }>
+): ThreadState => {
+  const latest = (messages: Array<{ postedAt?: string | null }>) => {
+    const times = messages.map(message => timeOf(message.postedAt)).filter(time => !Number.isNaN(time))
+    return times.length > 0 ? Math.max(...times) : null
+  }
+
+  const messages = [comment, ...replies]
+  const ownerReply = latest(replies.filter(reply => reply.byOwner))
+  const ownerLast = latest(messages.filter(message => message.byOwner))
+  const othersLast = latest(messages.filter(message => !message.byOwner))
+  const lastActivity = latest(messages)
+
+  return {
+    ownerRepliedAt: ownerReply !== null ? new Date(ownerReply).toISOString() : null,
+    lastActivityAt: lastActivity !== null ? new Date(lastActivity).toISOString() : null,
+    needsReply: othersLast !== null && (ownerLast === null || othersLast > ownerLast)
+  }
+}
+
+// Top-level comments newest first, each with its replies oldest first
+const toThreads = (rows: DBLinkedInComment[]): CommentThread[] => {
+  const topLevel = rows.filter(row => !row.parent_comment_id)
+  const ids = new Set(topLevel.map(row => row.comment_id))
+  const replies = new Map<string, DBLinkedInComment[]>()
+
+  for (const row of rows) {
+    if (!row.parent_comment_id) continue
+    // A reply whose parent wasn't stored still shows, as its own thread
+    if (!ids.has(row.parent_comment_id)) {
+      topLevel.push(row)
+      continue
+    }
+    replies.set(row.parent_comment_id, [...(replies.get(row.parent_comment_id) || []), row])
+  }
+
+  return topLevel
+    .sort((a, b) => timeOf(b.posted_at) - timeOf(a.posted_at))
+    .map(comment => ({
+      comment,
+      replies: (replies.get(comment.comment_id) || []).sort((a, b) => timeOf(a.posted_at) - timeOf(b.posted_at))
+    }))
+}
+
+export class CommentThreadService {
+  // Comment syncs spend RapidAPI calls; returns the refusal message once the workspace's spend cap is reached
+  static async checkBudget(workspaceId: string): Promise<string | null> {
+    const budget = await UsageLedgerService.checkBudget(workspaceId)
+    if (budget.allowed) return null
+
+    console.warn('Budget cap reached, refusing comment sync:', budget)
+    return UsageLedgerService.describeBudget(budget)
+  }
+
+  static async getPost(workspaceId: string, postUrn: string): Promise<DBLinkedInPost | null> {
+    return getLinkedIn(workspaceId).getPostByUrn(postUrn)
+  }
+
+  // Reads every page of the post's comments and stores each comment and reply as its own row
+  static async syncPostComments(workspaceId: string, post: DBLinkedInPost): Promise<CommentSyncResult> {
+    const linkedIn = getLinkedIn(workspaceId)
+    const { linkedInScraper } = await import('./linkedin-scraper')
+
+    const comments: LinkedInComment[] = []
+    const seen = new Set<string>()
+    let pagesFetched = 0
+
+    for (let page = 1; page <= MAX_COMMENT_PAGES; page++) {
+      if (page > 1) {
+        await new Promise(resolve => setTimeout(resolve, REQUEST_DELAY_MS))
+      }
+
+      const response = await linkedInScraper.getPostComments(post.url, page, COMMENT_SORT_ORDER, { workspaceId })
+      pagesFetched++
+
+      // Stop at an empty page, or one with nothing new in case the API repeats its last page
+      const fresh = (response.data.comments || []).filter(comment => comment.comment_id && !seen.has(comment.comment_id))
+      if (fresh.length === 0) break
+
+      fresh.forEach(comment => seen.add(comment.comment_id))
+      comments.push(...(fresh as unknown as LinkedInComment[]))
+
+      if (response.data.total && comments.length >= response.data.total) break
+    }
+
+    const result: CommentSyncResult = {
+      postUrn: post.urn,
+      pagesFetched,
+      threads: 0,
+      replies: 0,
+      needsReply: 0,
+      researchedProfiles: 0,
+      errors: 0
+    }
+
+    // One ICP lookup per commenter, however many times they comment
+    const icpEngine = await ICPDefinitionService.getEngine(workspaceId)
+    const profiles = new Map<string, EnhancedProspectProfile | null>()
+    const research = async (comment: LinkedInComment) => {
+      const url = comment.author.profile_url
+      if (!url) return null
+      if (!profiles.has(url)) {
+        const profile = await linkedIn.researchCommentAuthor(comment, icpEngine)
+        if (profile) result.researchedProfiles++
+        profiles.set(url, profile)
+      }
+      return profiles.get(url) || null
+    }
+
+    const save = async (comment: LinkedInComment, fields: Partial<DBLinkedInComment>) => {
+      try {
+        const profile = fields.is_owner_comment ? null : await research(comment)
+        await linkedIn.upsertComment(comment, post.urn, {
+          ...fields,
+          ...(profile && commentICPFields(profile))
+        })
+      } catch (error: any) {
+        console.error(`❌ Error saving comment ${comment.comment_id}:`, error.message)
+        result.errors++
+      }
+    }
+
+    for (const comment of comments) {
+      const replies = (comment.replies || []).filter(reply => reply.comment_id)
+      const byOwner = isPostAuthor(comment.author, post)
+      const repliesByOwner = replies.map(reply => isPostAuthor(reply.author, post))
+      const state = threadStateOf(
+        { postedAt: toPostedAt(comment.posted_at), byOwner },
+        replies.map((reply, index) => ({ postedAt: toPostedAt(reply.posted_at), byOwner: repliesByOwner[index] }))
+      )
+
+      await save(comment, {
+        parent_comment_id: null,
+        is_owner_comment: byOwner,
+        owner_replied_at: state.ownerRepliedAt,
+        needs_reply: state.needsReply,
+        last_activity_at: state.lastActivityAt
+      })
+
+      for (const [index, reply] of replies.entries()) {
+        await save(reply, {
+          parent_comment_id: comment.comment_id,
+          is_owner_comment: repliesByOwner[index],
+          owner_replied_at: null,
+          needs_reply: false,
+          last_activity_at: toPostedAt(reply.posted_at) || null
+        })
+      }
+
+      result.threads++
+      result.replies += replies.length
+      if (state.needsReply) result.needsReply++
+    }
+
+    const { error } = await getClient()
+      .from('linkedin_posts')
+      .update({ comments_synced_at: new Date().toISOString(), comments_synced_count: post.comments_count })
+      .eq('workspace_id', workspaceId)
+      .eq('urn', post.urn)
+
+    if (error) {
+      console.warn('Failed to record comment sync time:', error)
+    }
+
+    console.log('📈 Comments Sync Summary:', result)
+    return result
+  }
+
+  // Syncs recent posts whose comment count moved since their last comment sync, newest first
+  static async syncRecentPosts(workspaceId: string, days: number, maxPosts: number): Promise<InboxSyncResult> {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString()
+    const { data, error } = await getClient()
+      .from('linkedin_posts')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .gte('posted_at', since)
+      .gt('comments_count', 0)
+      .order('posted_at', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching recent posts for comment sync:', error)
+      throw new Error(`Failed to fetch recent posts: ${error.message}`)
+    }
+
+    const posts = (data || []) as DBLinkedInPost[]
+    const due = posts.filter(post => !post.comments_synced_at || post.comments_synced_count !== post.comments_count)
+    const result: InboxSyncResult = { synced: [], failed: [], skipped: posts.length - due.length }
+
+    for (const post of due.slice(0, maxPosts)) {
+      try {
+        result.synced.push(await this.syncPostComments(workspaceId, post))
+      } catch (error: any) {
+        console.error(`❌ Comment sync failed for ${post.urn}:`, error.message)
+        result.failed.push({ postUrn: post.urn, error: error.message })
+      }
+    }
+
+    return result
+  }
+
+  // Null when the post isn't one of the workspace's synced posts
+  static async getThreads(workspaceId: string, postUrn: string): Promise<CommentThread[] | null> {
+    const linkedIn = getLinkedIn(workspaceId)
+    if (!await linkedIn.getPostByUrn(postUrn)) {
+      return null
+    }
+
+    return toThreads(await linkedIn.getCommentsByPostUrn(postUrn))
+  }
+
+  // Unanswered threads on the workspace's recent posts, highest-scoring commenter first
+  static async getInbox(workspaceId: string, days: number, limit: number): Promise<CommentInbox> {
+    const client = getClient()
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString()
+
+    const { data: posts, error: postsError } = await client
+      .from('linkedin_posts')
+      .select('urn, url, text, posted_at')
+      .eq('workspace_id', workspaceId)
+      .gte('posted_at', since)
+
+    if (postsError) {
+      console.error('Error fetching recent posts for inbox:', postsError)
+      throw new Error(`Failed to fetch recent posts: ${postsError.message}`)
+    }
+
+    if (!posts || posts.length === 0) {
+      return { threads: [], total: 0 }
+    }
+
+    const { data: comments, count, error } = await client
+      .from('linkedin_comments')
+      .select('*', { count: 'exact' })
+      .eq('workspace_id', workspaceId)
+      .in('post_urn', posts.map(post => post.urn))
+      .is('parent_comment_id', null)
+      .eq('needs_reply', true)
+      .order('icp_score', { ascending: false, nullsFirst: false })
+      .order('last_activity_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      console.error('Error fetching unanswered comments:', error)
+      throw new Error(`Failed to fetch unanswered comments: ${error.message}`)
+    }
+
+    const threads = (comments || []) as DBLinkedInComment[]
+    let replies: DBLinkedInComment[] = []
+
+    if (threads.length > 0) {
+      const { data, error: repliesError } = await client
+        .from('linkedin_comments')
+        .select('*')
+        .eq('workspace_id', workspaceId)
+        .in('parent_comment_id', threads.map(comment => comment.comment_id))
+        .order('posted_at', { ascending: true })
+
+      if (repliesError) {
+        console.error('Error fetching comment replies:', repliesError)
+        throw new Error(`Failed to fetch comment replies: ${repliesError.message}`)
+      }
+
+      replies = (data || []) as DBLinkedInComment[]
+    }
+
+    const postsByUrn = new Map(posts.map(post => [post.urn, post]))
+
+    return {
+      threads: threads.map(comment => {
+        const post = postsByUrn.get(comment.post_urn)!
+        return {
+          comment,
+          replies: replies.filter(reply => reply.parent_comment_id === comment.comment_id),
+          post: { urn: post.urn, url: post.url, text: post.text, postedAt: post.posted_at }
+        }
+      }),
+      total: count ?? threads.length
+    }
+  }
+}
+
+export default CommentThreadService
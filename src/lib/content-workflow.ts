@@ -0,0 +1,581 @@
+import { z } from 'zod'
+import { supabase, supabaseAdmin } from './supabase'
+import { getRepository } from './storage'
+import type { ContentPost } from './airtable'
+import { AuthContext, DEFAULT_WORKSPACE_ID } from './auth'
+import { WorkspaceService, type WorkspaceRole } from './workspaces'
+
+// Same statuses as the Airtable content post Status field
+export type WorkflowStatus = 'Draft' | 'Review' | 'Approved' | 'Published'
+
+// Airtable content posts, or generated drafts in Supabase (content_drafts)
+export type WorkflowBackend = 'airtable' | 'supabase'
+
+// 'system' is only used server-side, e.g. when the scheduler publishes a post
+export type WorkflowRole = 'writer' | 'approver' | 'system'
+
+export const WorkflowBackendSchema = z.enum(['airtable', 'supabase'])
+export const WorkflowStatusSchema = z.enum(['Draft', 'Review', 'Approved', 'Published'])
+
+export interface WorkflowActor {
+  id: string // Supabase Auth user id for signed-in members; notifications are addressed to it
+  name: string
+  role: WorkflowRole
+}
+
+export interface ContentRef {
+  backend: WorkflowBackend
+  id: string
+  workspaceId?: string // Defaults to DEFAULT_WORKSPACE_ID
+}
+
+export interface WorkflowItem {
+  id: string
+  status: WorkflowStatus
+  body: string
+  hashtags: string[]
+}
+
+export interface WorkflowTransition {
+  from: WorkflowStatus
+  to: WorkflowStatus
+  roles: WorkflowRole[]
+  label: string
+}
+
+export type AuditAction = 'created' | 'status_change' | 'edit' | 'comment'
+
+export interface ContentAuditEntry {
+  id: string
+  backend: WorkflowBackend
+  content_id: string
+  action: AuditAction
+  from_status?: WorkflowStatus
+  to_status?: WorkflowStatus
+  actor: string
+  actor_role: WorkflowRole
+  details: Record<string, any>
+  created_at: string
+}
+
+export interface WorkflowNotification {
+  id: string
+  recipient: string
+  kind: 'review_requested'
+  backend: WorkflowBackend
+  content_id: string
+  message: string
+  read_at?: string
+  created_at: string
+}
+
+export interface WorkflowState {
+  ref: ContentRef
+  item: WorkflowItem
+  allowedTransitions: Array<{ to: WorkflowStatus; label: string }>
+  canEdit: boolean
+}
+
+export const TRANSITIONS: WorkflowTransition[] = [
+  { from: 'Draft', to: 'Review', roles: ['writer', 'approver'], label: 'Submit for review' },
+  { from: 'Review', to: 'Draft', roles: ['writer', 'approver'], label: 'Request changes' },
+  { from: 'Review', to: 'Approved', roles: ['approver'], label: 'Approve' },
+  { from: 'Approved', to: 'Draft', roles: ['approver'], label: 'Reopen' },
+  { from: 'Approved', to: 'Published', roles: ['approver', 'system'], label: 'Mark published' }
+]
+
+// Who may change the text in each status; approved and published posts must be reopened first
+const EDITABLE_BY: Record<WorkflowStatus, WorkflowRole[]> = {
+  Draft: ['writer', 'approver'],
+  Review: ['approver'],
+  Approved: [],
+  Published: []
+}
+
+export const SYSTEM_ACTOR: WorkflowActor = { id: 'system', name: 'system', role: 'system' }
+
+// Workspace owners and admins approve; other members write
+const WORKFLOW_ROLES: Record<WorkspaceRole, WorkflowRole> = {
+  owner: 'approver',
+  admin: 'approver',
+  member: 'writer'
+}
+
+const EXCERPT_LENGTH = 140
+const LIST_LIMIT = 50
+
+// Thrown for requests the workflow refuses; status is the HTTP status the routes return
+export class WorkflowError extends Error {
+  constructor(message: string, public readonly status: 400 | 403 | 404 | 409) {
+    super(message)
+    this.name = 'WorkflowError'
+  }
+}
+
+const getClient = () => supabaseAdmin || supabase
+
+const excerpt = (body: string) => body.length > EXCERPT_LENGTH ? `${body.slice(0, EXCERPT_LENGTH)}...` : body
+
+// Items outside `workspaceId` are treated as missing; writes only follow a successful get
+interface WorkflowStore {
+  get(id: string, workspaceId: string): Promise<WorkflowItem | null>
+  list(statuses: WorkflowStatus[], workspaceId: string): Promise<WorkflowItem[]>
+  // Compare-and-set: false if the item was no longer in `from`
+  setStatus(id: string, from: WorkflowStatus, to: WorkflowStatus, workspaceId: string): Promise<boolean>
+  setContent(id: string, changes: { body?: string; hashtags?: string[] }, workspaceId: string): Promise<void>
+}
+
+const toItem = (post: ContentPost): WorkflowItem => ({
+  id: post.id!,
+  status: post.fields['Status'] || 'Draft',
+  body: post.fields['Content'],
+  hashtags: post.fields['Hashtags'] || []
+})
+
+// Content posts, in whichever backend the workspace keeps them
+const airtableStore: WorkflowStore = {
+  async get(id, workspaceId) {
+    const contentPosts = await getRepository(workspaceId, 'contentPosts')
+    const post = await contentPosts.get(id)
+    return post ? toItem(post) : null
+  },
+
+  async list(statuses, workspaceId) {
+    const contentPosts = await getRepository(workspaceId, 'contentPosts')
+    const posts = await contentPosts.list({
+      filters: [{ field: 'Status', op: 'in', value: statuses }],
+      sort: [{ field: 'Created', direction: 'desc' }],
+      limit: LIST_LIMIT
+    })
+    return posts.map(toItem)
+  },
+
+  // Airtable has no conditional update, so this re-reads first; it narrows the race rather than closing it
+  async setStatus(id, from, to, workspaceId) {
+    const current = await this.get(id, workspaceId)
+    if (!current || current.status !== from) {
+      return false
+    }
+    const contentPosts = await getRepository(workspaceId, 'contentPosts')
+    await contentPosts.update(id, { 'Status': to })
+    return true
+  },
+
+  async setContent(id, changes, workspaceId) {
+    const contentPosts = await getRepository(workspaceId, 'contentPosts')
+    await contentPosts.update(id, {
+      ...(changes.body !== undefined && { 'Content': changes.body }),
+      ...(changes.hashtags !== undefined && { 'Hashtags': changes.hashtags })
+    })
+  }
+}
+
+// Drafts belong to a workspace through their job
+const supabaseStore: WorkflowStore = {
+  async get(id, workspaceId) {
+    const { data, error } = await getClient()
+      .from('content_drafts')
+      .select('id, workflow_status, content, content_jobs!inner(workspace_id)')
+      .eq('id', id)
+      .eq('content_jobs.workspace_id', workspaceId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch draft: ${error.message}`)
+    }
+
+    return data ? {
+      id: data.id,
+      status: data.workflow_status || 'Draft',
+      body: data.content?.body || '',
+      hashtags: data.content?.hashtags || []
+    } : null
+  },
+
+  // Drafts only join the workflow once someone submits them, so the untouched Draft default is left out
+  async list(statuses, workspaceId) {
+    const submitted = statuses.filter(status => status !== 'Draft')
+    if (submitted.length === 0) return []
+
+    const { data, error } = await getClient()
+      .from('content_drafts')
+      .select('id, workflow_status, content, content_jobs!inner(workspace_id)')
+      .eq('content_jobs.workspace_id', workspaceId)
+      .in('workflow_status', submitted)
+      .order('created_at', { ascending: false })
+      .limit(LIST_LIMIT)
+
+    if (error) {
+      throw new Error(`Failed to fetch drafts: ${error.message}`)
+    }
+
+    return (data || []).map(draft => ({
+      id: draft.id,
+      status: draft.workflow_status,
+      body: draft.content?.body || '',
+      hashtags: draft.content?.hashtags || []
+    }))
+  },
+
+  async setStatus(id, from, to) {
+    const { data, error } = await getClient()
+      .from('content_drafts')
+      .update({ workflow_status: to })
+      .eq('id', id)
+      .eq('workflow_status', from)
+      .select('id')
+
+    if (error) {
+      throw new Error(`Failed to update draft status: ${error.message}`)
+    }
+
+    return (data || []).length > 0
+  },
+
+  async setContent(id, changes) {
+    const client = getClient()
+    const { data: draft, error: fetchError } = await client
+      .from('content_drafts')
+      .select('content')
+      .eq('id', id)
+      .single()
+
+    if (fetchError) {
+      throw new Error(`Failed to fetch draft: ${fetchError.message}`)
+    }
+
+    const { error } = await client
+      .from('content_drafts')
+      .update({ content: { ...draft.content, ...changes } })
+      .eq('id', id)
+
+    if (error) {
+      throw new Error(`Failed to update draft: ${error.message}`)
+    }
+  }
+}
+
+const STORES: Record<WorkflowBackend, WorkflowStore> = {
+  airtable: airtableStore,
+  supabase: supabaseStore
+}
+
+export class ContentWorkflowService {
+  static async getTeam(workspaceId: string): Promise<WorkflowActor[]> {
+    const members = await WorkspaceService.listMembers(workspaceId)
+    return members.map(member => ({
+      id: member.user_id,
+      name: member.display_name || member.user_id,
+      role: WORKFLOW_ROLES[member.role]
+    }))
+  }
+
+  // The signed-in member's role in the request's workspace. API tokens act as writers, so an
+  // automation can draft and submit for review but never approve.
+  static async resolveActor(auth: AuthContext): Promise<WorkflowActor> {
+    if (auth.method === 'disabled') {
+      return { id: 'local', name: 'Local development', role: 'approver' }
+    }
+
+    if (auth.method === 'token') {
+      return { id: `token:${auth.tokenId}`, name: 'API token', role: 'writer' }
+    }
+
+    const membership = auth.userId ? await WorkspaceService.getMembership(auth.userId, auth.workspaceId) : null
+    if (!membership) {
+      throw new WorkflowError('You are not a member of this workspace', 403)
+    }
+
+    return {
+      id: membership.user_id,
+      name: membership.display_name || auth.email || membership.user_id,
+      role: WORKFLOW_ROLES[membership.role]
+    }
+  }
+
+  static allowedTransitions(status: WorkflowStatus, role: WorkflowRole): WorkflowTransition[] {
+    return TRANSITIONS.filter(transition => transition.from === status && transition.roles.includes(role))
+  }
+
+  static canEdit(status: WorkflowStatus, role: WorkflowRole): boolean {
+    return EDITABLE_BY[status].includes(role)
+  }
+
+  static async getItem(ref: ContentRef): Promise<WorkflowItem> {
+    const item = await STORES[ref.backend].get(ref.id, ref.workspaceId || DEFAULT_WORKSPACE_ID)
+    if (!item) {
+      throw new WorkflowError(ref.backend === 'airtable' ? 'Post not found' : 'Draft not found', 404)
+    }
+    return item
+  }
+
+  // Content from both backends in the given statuses, e.g. the review queue
+  static async listByStatus(
+    statuses: WorkflowStatus[],
+    workspaceId: string = DEFAULT_WORKSPACE_ID
+  ): Promise<Array<WorkflowItem & { backend: WorkflowBackend }>> {
+    const results = await Promise.all(
+      (Object.keys(STORES) as WorkflowBackend[]).map(async backend =>
+        (await STORES[backend].list(statuses, workspaceId)).map(item => ({ ...item, backend }))
+      )
+    )
+    return results.flat()
+  }
+
+  static async getState(ref: ContentRef, actor?: WorkflowActor): Promise<WorkflowState> {
+    const item = await this.getItem(ref)
+
+    return {
+      ref,
+      item,
+      allowedTransitions: actor
+        ? this.allowedTransitions(item.status, actor.role).map(({ to, label }) => ({ to, label }))
+        : [],
+      canEdit: actor ? this.canEdit(item.status, actor.role) : false
+    }
+  }
+
+  // Throws unless `actor` may move the item to `to` right now; returns the current item
+  static async assertCanTransition(ref: ContentRef, to: WorkflowStatus, actor: WorkflowActor): Promise<WorkflowItem> {
+    const item = await this.getItem(ref)
+
+    if (!TRANSITIONS.some(transition => transition.from === item.status && transition.to === to)) {
+      throw new WorkflowError(`Cannot move from ${item.status} to ${to}`, 409)
+    }
+
+    if (!this.allowedTransitions(item.status, actor.role).some(transition => transition.to === to)) {
+      throw new WorkflowError(`A ${actor.role} cannot move content from ${item.status} to ${to}`, 403)
+    }
+
+    return item
+  }
+
+  static async transition(
+    ref: ContentRef,
+    to: WorkflowStatus,
+    actor: WorkflowActor,
+    options: { note?: string; details?: Record<string, any> } = {}
+  ): Promise<WorkflowItem> {
+    const item = await this.assertCanTransition(ref, to, actor)
+
+    const changed = await STORES[ref.backend].setStatus(ref.id, item.status, to, ref.workspaceId || DEFAULT_WORKSPACE_ID)
+    if (!changed) {
+      throw new WorkflowError('Status was changed by someone else, reload and try again', 409)
+    }
+
+    await this.recordAudit(ref, actor, {
+      action: 'status_change',
+      from_status: item.status,
+      to_status: to,
+      details: { ...options.details, ...(options.note && { note: options.note }) }
+    })
+
+    if (to === 'Review') {
+      await this.notifyReviewRequested(ref, item, actor)
+    }
+
+    return { ...item, status: to }
+  }
+
+  static async edit(
+    ref: ContentRef,
+    changes: { body?: string; hashtags?: string[] },
+    actor: WorkflowActor
+  ): Promise<WorkflowItem> {
+    const item = await this.getItem(ref)
+
+    if (!this.canEdit(item.status, actor.role)) {
+      throw new WorkflowError(
+        EDITABLE_BY[item.status].length === 0
+          ? `${item.status} content is locked; reopen it to make changes`
+          : `A ${actor.role} cannot edit content in ${item.status}`,
+        403
+      )
+    }
+
+    // Only what actually changed goes in the audit entry
+    const before: Record<string, any> = {}
+    const after: Record<string, any> = {}
+    if (changes.body !== undefined && changes.body !== item.body) {
+      before.body = item.body
+      after.body = changes.body
+    }
+    if (changes.hashtags !== undefined && changes.hashtags.join(' ') !== item.hashtags.join(' ')) {
+      before.hashtags = item.hashtags
+      after.hashtags = changes.hashtags
+    }
+
+    if (Object.keys(after).length === 0) {
+      return item
+    }
+
+    await STORES[ref.backend].setContent(ref.id, after, ref.workspaceId || DEFAULT_WORKSPACE_ID)
+    await this.recordAudit(ref, actor, {
+      action: 'edit',
+      from_status: item.status,
+      to_status: item.status,
+      details: { before, after }
+    })
+
+    return { ...item, ...after }
+  }
+
+  static async recordCreated(
+    ref: ContentRef,
+    status: WorkflowStatus,
+    actor: WorkflowActor,
+    details: Record<string, any> = {}
+  ): Promise<void> {
+    await this.recordAudit(ref, actor, { action: 'created', to_status: status, details })
+
+    if (status === 'Review') {
+      const item = await STORES[ref.backend].get(ref.id, ref.workspaceId || DEFAULT_WORKSPACE_ID)
+      if (item) {
+        await this.notifyReviewRequested(ref, item, actor)
+      }
+    }
+  }
+
+  static async recordAudit(
+    ref: ContentRef,
+    actor: WorkflowActor,
+    entry: Pick<ContentAuditEntry, 'action'> & Partial<Pick<ContentAuditEntry, 'from_status' | 'to_status' | 'details'>>
+  ): Promise<void> {
+    const client = getClient()
+    const { error } = await client
+      .from('content_audit_log')
+      .insert({
+        workspace_id: ref.workspaceId || DEFAULT_WORKSPACE_ID,
+        backend: ref.backend,
+        content_id: ref.id,
+        action: entry.action,
+        from_status: entry.from_status,
+        to_status: entry.to_status,
+        actor: actor.name,
+        actor_role: actor.role,
+        details: entry.details || {}
+      })
+
+    if (error) {
+      console.error('Error recording content audit entry:', error)
+      throw new Error(`Failed to record audit entry: ${error.message}`)
+    }
+  }
+
+  static async getAuditLog(ref: ContentRef): Promise<ContentAuditEntry[]> {
+    const client = getClient()
+    const { data, error } = await client
+      .from('content_audit_log')
+      .select('*')
+      .eq('workspace_id', ref.workspaceId || DEFAULT_WORKSPACE_ID)
+      .eq('backend', ref.backend)
+      .eq('content_id', ref.id)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching content audit log:', error)
+      throw new Error(`Failed to fetch audit log: ${error.message}`)
+    }
+
+    return data || []
+  }
+
+  static async getNotifications(workspaceId: string, recipient: string, unreadOnly: boolean = false): Promise<WorkflowNotification[]> {
+    const client = getClient()
+    let query = client
+      .from('workflow_notifications')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .eq('recipient', recipient)
+      .order('created_at', { ascending: false })
+      .limit(50)
+
+    if (unreadOnly) {
+      query = query.is('read_at', null)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      console.error('Error fetching workflow notifications:', error)
+      throw new Error(`Failed to fetch notifications: ${error.message}`)
+    }
+
+    return data || []
+  }
+
+  // Marks the given notifications read, or all of the recipient's unread ones
+  static async markNotificationsRead(workspaceId: string, recipient: string, ids?: string[]): Promise<void> {
+    const client = getClient()
+    let query = client
+      .from('workflow_notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('workspace_id', workspaceId)
+      .eq('recipient', recipient)
+      .is('read_at', null)
+
+    if (ids) {
+      query = query.in('id', ids)
+    }
+
+    const { error } = await query
+
+    if (error) {
+      console.error('Error marking workflow notifications read:', error)
+      throw new Error(`Failed to update notifications: ${error.message}`)
+    }
+  }
+
+  // Every approver except the requester gets an inbox entry; REVIEW_NOTIFICATION_WEBHOOK_URL can relay it to email or Slack
+  private static async notifyReviewRequested(ref: ContentRef, item: WorkflowItem, actor: WorkflowActor): Promise<void> {
+    const message = `${actor.name} requested review: "${excerpt(item.body)}"`
+    const workspaceId = ref.workspaceId || DEFAULT_WORKSPACE_ID
+    const team = await this.getTeam(workspaceId)
+    const recipients = team.filter(member => member.role === 'approver' && member.id !== actor.id)
+
+    if (recipients.length > 0) {
+      const { error } = await getClient()
+        .from('workflow_notifications')
+        .insert(recipients.map(recipient => ({
+          workspace_id: workspaceId,
+          recipient: recipient.id,
+          kind: 'review_requested',
+          backend: ref.backend,
+          content_id: ref.id,
+          message
+        })))
+
+      // A missed notification shouldn't undo the status change
+      if (error) {
+        console.error('Error creating review notifications:', error)
+      }
+    }
+
+    const webhookUrl = process.env.REVIEW_NOTIFICATION_WEBHOOK_URL
+    if (!webhookUrl) return
+
+    try {
+      const response = await fetch(webhookUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          event: 'review_requested',
+          backend: ref.backend,
+          contentId: ref.id,
+          requestedBy: actor.name,
+          recipients: recipients.map(recipient => recipient.name),
+          message,
+          reviewUrl: `${process.env.NEXT_PUBLIC_APP_URL || ''}/dashboard/review`
+        })
+      })
+
+      if (!response.ok) {
+        console.error('Review notification webhook failed:', response.status, await response.text())
+      }
+    } catch (error) {
+      console.error('Review notification webhook error:', error)
+    }
+  }
+}
+
+export default ContentWorkflowService
@@ -0,0 +1,493 @@
+// ICP calibration: outcomes recorded against leads and connections, and how well the workspace's ICP scores predicted them.
+// Each outcome keeps the subject it was scored from, so reports and weight previews rescore the same people under the
+// current definition instead of trusting whatever score they had at the time.
+import { z } from 'zod'
+import { supabase, supabaseAdmin } from './supabase'
+import { ICPDefinitionService, type ICPDefinitionVersion } from './icp-definitions'
+import {
+  ICP_CRITERIA,
+  ICP_CRITERION_LABELS,
+  ICPWeightsSchema,
+  createICPEngine,
+  type ICPCategory,
+  type ICPCriterion,
+  type ICPEngine,
+  type ICPSubject,
+  type ICPWeights
+} from './icp-engine'
+import { parseResearchData, researchDataToSubject } from './lead-scoring'
+import { CONVERTED_OUTCOMES, ICP_OUTCOMES, type ICPOutcome } from './icp-outcomes'
+import { getRepository } from './storage'
+import type { Connection, Lead } from './airtable'
+
+export type OutcomeSubjectType = 'lead' | 'connection'
+
+export const RecordOutcomeSchema = z.object({
+  subjectType: z.enum(['lead', 'connection']),
+  subjectId: z.string().min(1),
+  outcome: z.enum(ICP_OUTCOMES),
+  note: z.string().max(500).optional()
+})
+
+export type RecordOutcomeInput = z.infer<typeof RecordOutcomeSchema>
+
+export const CalibrationWeightsSchema = z.object({
+  weights: ICPWeightsSchema
+})
+
+// Row in icp_outcomes; a subject can have several, the latest one counts
+export interface ICPOutcomeRecord {
+  id: string
+  workspace_id: string
+  subject_type: OutcomeSubjectType
+  subject_id: string
+  name: string
+  profile_url?: string | null
+  outcome: ICPOutcome
+  note?: string | null
+  subject: ICPSubject
+  // Score when the outcome was recorded
+  icp_score: number
+  icp_category: ICPCategory
+  icp_version: number
+  icp_version_id?: string | null
+  breakdown: Record<ICPCriterion, number>
+  recorded_at: string
+}
+
+export interface ConversionBand {
+  label: string
+  min: number
+  max: number
+  total: number
+  converted: number
+  conversionRate: number // 0-100, rounded
+}
+
+export interface CriterionCalibration {
+  criterion: ICPCriterion
+  label: string
+  weight: number
+  // Point-biserial correlation between the criterion's score and converting; positive means it predicts conversion
+  correlation: number
+  bands: ConversionBand[]
+}
+
+export interface WeightSuggestion {
+  weights: ICPWeights
+  basedOn: number
+}
+
+export interface CalibrationReport {
+  icpVersion: number
+  totals: {
+    outcomes: number
+    converted: number
+    conversionRate: number
+    byOutcome: Record<ICPOutcome, number>
+  }
+  byCategory: ConversionBand[]
+  byCriterion: CriterionCalibration[]
+  weights: ICPWeights
+  suggestion: WeightSuggestion | null
+  suggestionNote?: string // Why there is no suggestion yet
+}
+
+export interface WeightPreviewChange {
+  subjectType: OutcomeSubjectType
+  subjectId: string
+  name: string
+  outcome: ICPOutcome
+  currentScore: number
+  proposedScore: number
+  currentCategory: ICPCategory
+  proposedCategory: ICPCategory
+}
+
+export interface WeightPreview {
+  outcomes: number
+  current: WeightPreviewSide
+  proposed: WeightPreviewSide
+  changes: WeightPreviewChange[] // Subjects whose category moves
+}
+
+interface WeightPreviewSide {
+  weights: ICPWeights
+  byCategory: ConversionBand[]
+  // Mean score of converted minus everyone else; a bigger gap separates them better
+  separation: number
+}
+
+export class ICPCalibrationError extends Error {
+  constructor(message: string, public readonly status: 404) {
+    super(message)
+    this.name = 'ICPCalibrationError'
+  }
+}
+
+const PAGE_SIZE = 1000
+// Suggestions need enough of both kinds of outcome to say anything
+const MIN_OUTCOMES = 20
+const MIN_PER_SIDE = 3
+// Correlations from few outcomes are shrunk towards zero: n / (n + SHRINKAGE)
+const SHRINKAGE = 30
+const CRITERION_BANDS = [
+  { label: 'Low (0-49)', min: 0, max: 49 },
+  { label: 'Medium (50-79)', min: 50, max: 79 },
+  { label: 'High (80-100)', min: 80, max: 100 }
+]
+
+const getClient = () => supabaseAdmin || supabase
+
+const isConverted = (outcome: ICPOutcome) => CONVERTED_OUTCOMES.includes(outcome)
+
+const percent = (part: number, total: number) => total > 0 ? Math.round((part / total) * 100) : 0
+
+const mean = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0
+
+const MONTH_MS = 30.44 * 24 * 60 * 60 * 1000
+
+const monthsSince = (date?: string): number | undefined => {
+  const time = date ? Date.parse(date) : NaN
+  return Number.isNaN(time) ? undefined : Math.max(0, Math.floor((Date.now() - time) / MONTH_MS))
+}
+
+// Research data when the lead has it, otherwise the handful of fields on the lead itself
+const leadToSubject = (lead: Lead): ICPSubject => {
+  const researchData = parseResearchData(lead.fields['Research Data'])
+  if (researchData) return researchDataToSubject(researchData)
+
+  return {
+    name: lead.fields['Name'],
+    title: lead.fields['Role'],
+    company: lead.fields['Company'],
+    companySize: lead.fields['Company Size'],
+    tenureMonths: lead.fields['Tenure Months']
+  }
+}
+
+const connectionToSubject = (connection: Connection): ICPSubject => {
+  const fields = connection.fields
+
+  return {
+    name: fields['Full Name'],
+    headline: fields['Headline'],
+    title: fields['Title'] || fields['Current Company Title'],
+    company: fields['Current Company'] || fields['Company Name'],
+    about: fields['About'],
+    tenureMonths: fields['Is Current'] === false ? undefined : monthsSince(fields['Start Date']),
+    followerCount: fields['Follower Count'],
+    isActive: !!(fields['Is Creator'] || fields['Is Influencer'])
+  }
+}
+
+interface ScoredOutcome {
+  record: ICPOutcomeRecord
+  converted: boolean
+  score: number
+  category: ICPCategory
+  breakdown: Record<ICPCriterion, number>
+}
+
+export class ICPCalibrationService {
+  // Scores the subject with the current definition and stores the outcome alongside that snapshot
+  static async recordOutcome(workspaceId: string, input: RecordOutcomeInput): Promise<ICPOutcomeRecord> {
+    const { name, profileUrl, subject } = await this.loadSubject(workspaceId, input.subjectType, input.subjectId)
+    const engine = await ICPDefinitionService.getEngine(workspaceId)
+    const result = engine.score(subject)
+
+    const { data, error } = await getClient()
+      .from('icp_outcomes')
+      .insert({
+        workspace_id: workspaceId,
+        subject_type: input.subjectType,
+        subject_id: input.subjectId,
+        name,
+        profile_url: profileUrl || null,
+        outcome: input.outcome,
+        note: input.note || null,
+        subject,
+        icp_score: result.totalScore,
+        icp_category: result.category,
+        icp_version: result.icpVersion,
+        icp_version_id: result.icpVersionId,
+        breakdown: result.breakdown
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error recording ICP outcome:', error)
+      throw new Error(`Failed to record outcome: ${error.message}`)
+    }
+
+    return data
+  }
+
+  // Outcome history, newest first; with a subject, everything recorded for it
+  static async listOutcomes(
+    workspaceId: string,
+    filter: { subjectType?: OutcomeSubjectType; subjectId?: string; limit?: number } = {}
+  ): Promise<ICPOutcomeRecord[]> {
+    let query = getClient()
+      .from('icp_outcomes')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+
+    if (filter.subjectType) query = query.eq('subject_type', filter.subjectType)
+    if (filter.subjectId) query = query.eq('subject_id', filter.subjectId)
+
+    const { data, error } = await query
+      .order('recorded_at', { ascending: false })
+      .limit(filter.limit || 100)
+
+    if (error) {
+      console.error('Error fetching ICP outcomes:', error)
+      throw new Error(`Failed to fetch outcomes: ${error.message}`)
+    }
+
+    return data || []
+  }
+
+  // The latest outcome for each subject, which is what the report counts
+  static async latestOutcomes(workspaceId: string, subjectType?: OutcomeSubjectType): Promise<ICPOutcomeRecord[]> {
+    const latest = new Map<string, ICPOutcomeRecord>()
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      let query = getClient()
+        .from('icp_outcomes')
+        .select('*')
+        .eq('workspace_id', workspaceId)
+
+      if (subjectType) query = query.eq('subject_type', subjectType)
+
+      const { data, error } = await query
+        .order('recorded_at', { ascending: false })
+        .range(from, from + PAGE_SIZE - 1)
+
+      if (error) {
+        console.error('Error fetching ICP outcomes:', error)
+        throw new Error(`Failed to fetch outcomes: ${error.message}`)
+      }
+
+      for (const record of data || []) {
+        const key = `${record.subject_type}:${record.subject_id}`
+        if (!latest.has(key)) latest.set(key, record)
+      }
+
+      if (!data || data.length < PAGE_SIZE) break
+    }
+
+    return Array.from(latest.values())
+  }
+
+  // Conversion by category and by each criterion's score, rescored under the current definition, plus suggested weights
+  static async getReport(workspaceId: string): Promise<CalibrationReport> {
+    const current = await ICPDefinitionService.getCurrent(workspaceId)
+    const engine = this.engineFor(current, current.definition.weights)
+    const scored = this.scoreOutcomes(await this.latestOutcomes(workspaceId), engine)
+
+    const byOutcome = Object.fromEntries(ICP_OUTCOMES.map(outcome => [
+      outcome,
+      scored.filter(entry => entry.record.outcome === outcome).length
+    ])) as Record<ICPOutcome, number>
+    const converted = scored.filter(entry => entry.converted).length
+
+    const byCriterion = ICP_CRITERIA.map(criterion => ({
+      criterion,
+      label: ICP_CRITERION_LABELS[criterion],
+      weight: current.definition.weights[criterion],
+      correlation: Math.round(this.correlation(scored, criterion) * 100) / 100,
+      bands: CRITERION_BANDS.map(band => this.conversionBand(
+        band.label, band.min, band.max,
+        scored.filter(entry => entry.breakdown[criterion] >= band.min && entry.breakdown[criterion] <= band.max)
+      ))
+    }))
+
+    const report: CalibrationReport = {
+      icpVersion: current.version,
+      totals: {
+        outcomes: scored.length,
+        converted,
+        conversionRate: percent(converted, scored.length),
+        byOutcome
+      },
+      byCategory: this.categoryBands(current, scored),
+      byCriterion,
+      weights: current.definition.weights,
+      suggestion: null
+    }
+
+    const notConverted = scored.length - converted
+    if (scored.length < MIN_OUTCOMES || converted < MIN_PER_SIDE || notConverted < MIN_PER_SIDE) {
+      report.suggestionNote = `Weight suggestions need at least ${MIN_OUTCOMES} outcomes, including ${MIN_PER_SIDE} conversions and ${MIN_PER_SIDE} non-conversions`
+      return report
+    }
+
+    report.suggestion = {
+      weights: this.suggestWeights(current.definition.weights, scored),
+      basedOn: scored.length
+    }
+
+    return report
+  }
+
+  // Rescores the recorded outcomes with the proposed weights next to the current ones, without saving anything
+  static async previewWeights(workspaceId: string, weights: ICPWeights): Promise<WeightPreview> {
+    const current = await ICPDefinitionService.getCurrent(workspaceId)
+    const outcomes = await this.latestOutcomes(workspaceId)
+
+    const before = this.scoreOutcomes(outcomes, this.engineFor(current, current.definition.weights))
+    const after = this.scoreOutcomes(outcomes, this.engineFor(current, weights))
+
+    const changes: WeightPreviewChange[] = []
+    before.forEach((entry, index) => {
+      const proposed = after[index]
+      if (entry.category === proposed.category) return
+
+      changes.push({
+        subjectType: entry.record.subject_type,
+        subjectId: entry.record.subject_id,
+        name: entry.record.name,
+        outcome: entry.record.outcome,
+        currentScore: entry.score,
+        proposedScore: proposed.score,
+        currentCategory: entry.category,
+        proposedCategory: proposed.category
+      })
+    })
+
+    return {
+      outcomes: outcomes.length,
+      current: {
+        weights: current.definition.weights,
+        byCategory: this.categoryBands(current, before),
+        separation: this.separation(before)
+      },
+      proposed: {
+        weights,
+        byCategory: this.categoryBands(current, after),
+        separation: this.separation(after)
+      },
+      changes
+    }
+  }
+
+  // Saves the current definition with new weights as the next version; a rescore moves existing scores onto it
+  static async applyWeights(workspaceId: string, weights: ICPWeights): Promise<ICPDefinitionVersion> {
+    const current = await ICPDefinitionService.getCurrent(workspaceId)
+    const outcomes = await this.latestOutcomes(workspaceId)
+
+    return ICPDefinitionService.saveVersion(workspaceId, {
+      definition: { ...current.definition, weights },
+      note: `Calibrated weights from ${outcomes.length} outcomes`
+    })
+  }
+
+  private static async loadSubject(
+    workspaceId: string,
+    subjectType: OutcomeSubjectType,
+    subjectId: string
+  ): Promise<{ name: string; profileUrl?: string; subject: ICPSubject }> {
+    if (subjectType === 'lead') {
+      const lead = await (await getRepository(workspaceId, 'leads')).get(subjectId)
+      if (!lead) {
+        throw new ICPCalibrationError('Lead not found', 404)
+      }
+
+      return { name: lead.fields['Name'], profileUrl: lead.fields['Profile URL'], subject: leadToSubject(lead) }
+    }
+
+    const connection = await (await getRepository(workspaceId, 'connections')).get(subjectId)
+    if (!connection) {
+      throw new ICPCalibrationError('Connection not found', 404)
+    }
+
+    const username = connection.fields['Username']
+    return {
+      name: connection.fields['Full Name'],
+      profileUrl: username ? `https://linkedin.com/in/${username}` : undefined,
+      subject: connectionToSubject(connection)
+    }
+  }
+
+  private static engineFor(current: ICPDefinitionVersion, weights: ICPWeights): ICPEngine {
+    return createICPEngine({ ...current.definition, weights }, { id: current.id, version: current.version })
+  }
+
+  private static scoreOutcomes(outcomes: ICPOutcomeRecord[], engine: ICPEngine): ScoredOutcome[] {
+    return outcomes.map(record => {
+      const result = engine.score(record.subject || {})
+      return {
+        record,
+        converted: isConverted(record.outcome),
+        score: result.totalScore,
+        category: result.category,
+        breakdown: result.breakdown
+      }
+    })
+  }
+
+  // One band per category, using the definition's thresholds
+  private static categoryBands(current: ICPDefinitionVersion, scored: ScoredOutcome[]): ConversionBand[] {
+    const { hotLead, warmLead, coldLead } = current.definition.categories
+    const bands: Array<{ category: ICPCategory; min: number; max: number }> = [
+      { category: 'Hot Lead', min: hotLead, max: 100 },
+      { category: 'Warm Lead', min: warmLead, max: hotLead - 1 },
+      { category: 'Cold Lead', min: coldLead, max: warmLead - 1 },
+      { category: 'Not ICP', min: 0, max: coldLead - 1 }
+    ]
+
+    return bands.map(band => this.conversionBand(
+      band.category, band.min, Math.max(band.min, band.max),
+      scored.filter(entry => entry.category === band.category)
+    ))
+  }
+
+  private static conversionBand(label: string, min: number, max: number, entries: ScoredOutcome[]): ConversionBand {
+    const converted = entries.filter(entry => entry.converted).length
+    return { label, min, max, total: entries.length, converted, conversionRate: percent(converted, entries.length) }
+  }
+
+  private static correlation(scored: ScoredOutcome[], criterion: ICPCriterion): number {
+    const values = scored.map(entry => entry.breakdown[criterion])
+    const converted = scored.filter(entry => entry.converted).map(entry => entry.breakdown[criterion])
+    const others = scored.filter(entry => !entry.converted).map(entry => entry.breakdown[criterion])
+    if (converted.length === 0 || others.length === 0) return 0
+
+    const average = mean(values)
+    const deviation = Math.sqrt(mean(values.map(value => (value - average) ** 2)))
+    if (deviation === 0) return 0
+
+    const share = converted.length / values.length
+    return ((mean(converted) - mean(others)) / deviation) * Math.sqrt(share * (1 - share))
+  }
+
+  // Scales each weight by how well its criterion predicted conversion, then rescales so the weights keep their total
+  private static suggestWeights(weights: ICPWeights, scored: ScoredOutcome[]): ICPWeights {
+    const shrink = scored.length / (scored.length + SHRINKAGE)
+    const total = ICP_CRITERIA.reduce((sum, criterion) => sum + weights[criterion], 0)
+
+    const adjusted = Object.fromEntries(ICP_CRITERIA.map(criterion => [
+      criterion,
+      weights[criterion] * Math.max(0, 1 + this.correlation(scored, criterion) * shrink)
+    ])) as ICPWeights
+    const adjustedTotal = ICP_CRITERIA.reduce((sum, criterion) => sum + adjusted[criterion], 0)
+    if (adjustedTotal === 0) return weights
+
+    return Object.fromEntries(ICP_CRITERIA.map(criterion => [
+      criterion,
+      Math.round((adjusted[criterion] / adjustedTotal) * total)
+    ])) as ICPWeights
+  }
+
+  private static separation(scored: ScoredOutcome[]): number {
+    const converted = scored.filter(entry => entry.converted).map(entry => entry.score)
+    const others = scored.filter(entry => !entry.converted).map(entry => entry.score)
+    if (converted.length === 0 || others.length === 0) return 0
+
+    return Math.round(mean(converted) - mean(others))
+  }
+}
+
+export default ICPCalibrationService
@@ -0,0 +1,142 @@
+import { z } from 'zod'
+import { supabase, supabaseAdmin } from './supabase'
+import { DEFAULT_ICP_DEFINITION, ICPDefinitionSchema, ICPEngine, createICPEngine, type ICPDefinition } from './icp-engine'
+
+// Settings page payload: saving always writes a new version
+export const ICPDefinitionInputSchema = z.object({
+  definition: ICPDefinitionSchema,
+  note: z.string().max(500).optional()
+})
+
+export type ICPDefinitionInput = z.infer<typeof ICPDefinitionInputSchema>
+
+// Row in icp_definition_versions; rows are never edited, so old scores stay explainable
+export interface ICPDefinitionVersion {
+  id: string
+  workspace_id: string
+  version: number
+  definition: ICPDefinition
+  note?: string | null
+  created_at: string
+}
+
+export class ICPDefinitionError extends Error {
+  constructor(message: string, public readonly status: 409) {
+    super(message)
+    this.name = 'ICPDefinitionError'
+  }
+}
+
+const getClient = () => supabaseAdmin || supabase
+
+export class ICPDefinitionService {
+  // The workspace's latest version; a workspace that has never saved one gets the built-in default as version 1
+  static async getCurrent(workspaceId: string): Promise<ICPDefinitionVersion> {
+    const current = await this.getLatest(workspaceId)
+    if (current) return current
+
+    const { error } = await getClient()
+      .from('icp_definition_versions')
+      .upsert({
+        workspace_id: workspaceId,
+        version: 1,
+        definition: DEFAULT_ICP_DEFINITION,
+        note: 'Default ICP'
+      }, { onConflict: 'workspace_id,version', ignoreDuplicates: true })
+
+    if (error) {
+      console.error('Error seeding ICP definition:', error)
+      throw new Error(`Failed to seed ICP definition: ${error.message}`)
+    }
+
+    const seeded = await this.getLatest(workspaceId)
+    if (!seeded) {
+      throw new Error('Failed to seed ICP definition')
+    }
+
+    return seeded
+  }
+
+  static async getVersion(workspaceId: string, version: number): Promise<ICPDefinitionVersion | null> {
+    const { data, error } = await getClient()
+      .from('icp_definition_versions')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .eq('version', version)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching ICP definition version:', error)
+      throw new Error(`Failed to fetch ICP definition version: ${error.message}`)
+    }
+
+    return data
+  }
+
+  static async listVersions(workspaceId: string, limit: number = 20): Promise<ICPDefinitionVersion[]> {
+    const { data, error } = await getClient()
+      .from('icp_definition_versions')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .order('version', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      console.error('Error fetching ICP definition versions:', error)
+      throw new Error(`Failed to fetch ICP definition versions: ${error.message}`)
+    }
+
+    return data || []
+  }
+
+  static async saveVersion(workspaceId: string, input: ICPDefinitionInput): Promise<ICPDefinitionVersion> {
+    const current = await this.getCurrent(workspaceId)
+
+    const { data, error } = await getClient()
+      .from('icp_definition_versions')
+      .insert({
+        workspace_id: workspaceId,
+        version: current.version + 1,
+        definition: input.definition,
+        note: input.note || null
+      })
+      .select()
+      .single()
+
+    if (error?.code === '23505') {
+      throw new ICPDefinitionError('The ICP definition was changed by someone else; reload it and try again', 409)
+    }
+
+    if (error) {
+      console.error('Error saving ICP definition version:', error)
+      throw new Error(`Failed to save ICP definition: ${error.message}`)
+    }
+
+    return data
+  }
+
+  // Scoring engine for the workspace's current definition
+  static async getEngine(workspaceId: string): Promise<ICPEngine> {
+    const current = await this.getCurrent(workspaceId)
+    return createICPEngine(current.definition, { id: current.id, version: current.version })
+  }
+
+  private static async getLatest(workspaceId: string): Promise<ICPDefinitionVersion | null> {
+    const { data, error } = await getClient()
+      .from('icp_definition_versions')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching ICP definition:', error)
+      throw new Error(`Failed to fetch ICP definition: ${error.message}`)
+    }
+
+    return data
+  }
+}
+
+export default ICPDefinitionService
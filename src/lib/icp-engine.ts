@@ -0,0 +1,398 @@
+// Rule-based ICP (Ideal Customer Profile) scoring engine.
+// Every scorer in the app (profile research, comment authors, research webhook leads) normalizes its data into an
+// ICPSubject and scores it here, against the workspace's stored ICP definition (see icp-definitions.ts).
+import { z } from 'zod'
+
+export const ICP_CRITERIA = ['roleMatch', 'companySize', 'industry', 'tenure', 'careerTransition', 'leadership', 'engagement'] as const
+
+export type ICPCriterion = typeof ICP_CRITERIA[number]
+
+export type ICPCategory = 'Hot Lead' | 'Warm Lead' | 'Cold Lead' | 'Not ICP'
+
+export const ICP_CRITERION_LABELS: Record<ICPCriterion, string> = {
+  roleMatch: 'Role',
+  companySize: 'Company size',
+  industry: 'Industry',
+  tenure: 'Tenure',
+  careerTransition: 'Career transition',
+  leadership: 'Leadership',
+  engagement: 'Engagement'
+}
+
+const score = z.number().min(0).max(100)
+
+// Rules are checked in order and the first match wins, so list "vice president" before "president"
+const KeywordRuleSchema = z.object({
+  label: z.string().min(1),
+  patterns: z.array(z.string().min(1)).min(1),
+  score,
+  tag: z.string().optional()
+})
+
+const KeywordCriterionSchema = z.object({
+  rules: z.array(KeywordRuleSchema),
+  unmatchedScore: score
+})
+
+const TenureBandSchema = z.object({
+  maxMonths: z.number().min(0),
+  score,
+  tag: z.string().optional()
+})
+
+const FollowerBandSchema = z.object({
+  minFollowers: z.number().min(0),
+  score
+})
+
+const RedFlagSchema = z.object({
+  label: z.string().min(1),
+  patterns: z.array(z.string().min(1)).min(1),
+  penalty: z.number().min(0).max(100)
+})
+
+// Relative weights; the total score divides by their sum, so they needn't add up to 100
+export const ICPWeightsSchema = z.object({
+  roleMatch: z.number().min(0),
+  companySize: z.number().min(0),
+  industry: z.number().min(0),
+  tenure: z.number().min(0),
+  careerTransition: z.number().min(0),
+  leadership: z.number().min(0),
+  engagement: z.number().min(0)
+}).refine(weights => Object.values(weights).some(weight => weight > 0), 'At least one weight must be above zero')
+
+export const ICPDefinitionSchema = z.object({
+  criteria: z.object({
+    roleMatch: KeywordCriterionSchema,
+    companySize: KeywordCriterionSchema,
+    industry: KeywordCriterionSchema,
+    careerTransition: KeywordCriterionSchema,
+    leadership: KeywordCriterionSchema,
+    tenure: z.object({
+      bands: z.array(TenureBandSchema), // Months in the current role, shortest first
+      beyondScore: score,
+      unknownScore: score
+    }),
+    engagement: z.object({
+      followerBands: z.array(FollowerBandSchema),
+      activeScore: score, // Creators, influencers and regular posters
+      unknownScore: score
+    })
+  }),
+  weights: ICPWeightsSchema,
+  redFlags: z.array(RedFlagSchema),
+  // Minimum total score for each category; anything below coldLead is Not ICP
+  categories: z.object({
+    hotLead: score,
+    warmLead: score,
+    coldLead: score
+  }).refine(categories => categories.hotLead >= categories.warmLead && categories.warmLead >= categories.coldLead,
+    'Category thresholds must run hot >= warm >= cold')
+})
+
+export type ICPDefinition = z.infer<typeof ICPDefinitionSchema>
+export type ICPWeights = z.infer<typeof ICPWeightsSchema>
+export type ICPKeywordRule = z.infer<typeof KeywordRuleSchema>
+export type ICPKeywordCriterion = z.infer<typeof KeywordCriterionSchema>
+export type ICPRedFlag = z.infer<typeof RedFlagSchema>
+
+// Whatever a source knows about a person, normalized for scoring. Everything is optional; missing data scores as unknown.
+export interface ICPSubject {
+  name?: string
+  headline?: string
+  title?: string
+  company?: string
+  industry?: string
+  companySize?: string
+  about?: string
+  tenureMonths?: number
+  pastTitles?: string[]
+  topics?: string[]
+  followerCount?: number
+  isActive?: boolean
+}
+
+// The definition version a score was produced with; stored alongside every score
+export interface ICPVersionRef {
+  id: string
+  version: number
+}
+
+export interface ICPCriterionScore {
+  score: number
+  reasoning: string
+  matched: boolean // False when the criterion fell back to its unmatched/unknown score
+}
+
+export interface ICPResult {
+  totalScore: number
+  category: ICPCategory
+  breakdown: Record<ICPCriterion, number>
+  details: Record<ICPCriterion, ICPCriterionScore>
+  tags: string[]
+  reasoning: string[]
+  confidence: number // How much evidence the score rests on (0-100)
+  dataQuality: 'high' | 'medium' | 'low'
+  signals: string[]
+  redFlags: string[]
+  icpVersion: number
+  icpVersionId: string
+}
+
+// The criteria, lists and weights the three original scorers shared, merged into one definition.
+// Seeded as version 1 for every workspace.
+export const DEFAULT_ICP_DEFINITION: ICPDefinition = {
+  criteria: {
+    roleMatch: {
+      rules: [
+        { label: 'CEO', patterns: ['ceo', 'chief executive'], score: 100, tag: 'CEO' },
+        { label: 'Founder', patterns: ['founder', 'co-founder', 'founding partner'], score: 100, tag: 'Founder' },
+        { label: 'VP', patterns: ['vp', 'svp', 'vice president', 'senior vice president'], score: 85, tag: 'VP' },
+        { label: 'President / MD', patterns: ['president', 'managing director'], score: 100, tag: 'President' },
+        { label: 'COO', patterns: ['coo', 'chief operating', 'operations director'], score: 90 },
+        { label: 'General manager', patterns: ['general manager', 'gm', 'division head', 'business unit leader'], score: 85 },
+        { label: 'Director', patterns: ['director', 'head of'], score: 70, tag: 'Director' },
+        { label: 'Manager', patterns: ['manager'], score: 50 }
+      ],
+      unmatchedScore: 20
+    },
+    companySize: {
+      rules: [
+        { label: 'Enterprise', patterns: ['fortune 500', 'enterprise', 'global', 'multinational', '1000+', '1001-5000', '5001-10000', '10000+'], score: 100, tag: 'Enterprise' },
+        { label: 'Mid-market', patterns: ['mid-market', 'regional', '501-1000', '201-500'], score: 85, tag: 'Mid-Market' },
+        { label: 'Startup', patterns: ['startup', 'early stage', 'series a', 'series b', 'scale-up'], score: 80, tag: 'Startup' },
+        { label: 'SMB', patterns: ['small business', 'family business', '51-200', '11-50', '1-50', '1-10'], score: 60, tag: 'SMB' }
+      ],
+      unmatchedScore: 70
+    },
+    industry: {
+      rules: [
+        { label: 'Technology', patterns: ['technology', 'software', 'saas', 'tech', 'ai', 'artificial intelligence', 'cloud', 'digital transformation', 'fintech'], score: 100, tag: 'Technology' },
+        { label: 'Professional services', patterns: ['consulting', 'advisory', 'professional services'], score: 90, tag: 'Consulting' },
+        { label: 'Financial services', patterns: ['financial', 'bank', 'banking', 'investment', 'private equity', 'venture capital'], score: 90, tag: 'Financial Services' },
+        { label: 'Healthcare', patterns: ['healthcare', 'biotech', 'biotechnology', 'pharmaceutical', 'medical', 'health tech'], score: 80, tag: 'Healthcare' },
+        { label: 'Industrial & retail', patterns: ['manufacturing', 'industrial', 'supply chain', 'logistics', 'e-commerce', 'retail'], score: 80 }
+      ],
+      unmatchedScore: 40
+    },
+    careerTransition: {
+      rules: [
+        { label: 'New role', patterns: ['new role', 'recently joined', 'just started', 'new position'], score: 95, tag: 'Career Transition' },
+        { label: 'Promotion', patterns: ['promoted', 'newly appointed', 'appointed', 'new ceo'], score: 90, tag: 'Career Transition' },
+        { label: 'Career change', patterns: ['career change', 'pivot', 'transition'], score: 85, tag: 'Career Transition' }
+      ],
+      unmatchedScore: 50
+    },
+    leadership: {
+      rules: [
+        { label: 'Leadership development', patterns: ['leadership development', 'executive coaching', 'transformation', 'culture change', 'team building', 'scaling', 'growth mindset'], score: 90, tag: 'Leadership Focus' },
+        { label: 'Leadership & strategy', patterns: ['leadership', 'management', 'strategy', 'vision', 'culture', 'people', 'growth'], score: 60 },
+        { label: 'Team lead', patterns: ['leader', 'manage', 'team'], score: 45 }
+      ],
+      unmatchedScore: 30
+    },
+    tenure: {
+      bands: [
+        { maxMonths: 6, score: 100, tag: 'New Role' },
+        { maxMonths: 12, score: 90, tag: 'New Role' },
+        { maxMonths: 24, score: 80 }
+      ],
+      beyondScore: 50,
+      unknownScore: 60
+    },
+    engagement: {
+      followerBands: [
+        { minFollowers: 500, score: 65 },
+        { minFollowers: 2000, score: 75 },
+        { minFollowers: 5000, score: 90 }
+      ],
+      activeScore: 85,
+      unknownScore: 50
+    }
+  },
+  weights: {
+    roleMatch: 25,
+    companySize: 15,
+    industry: 10,
+    tenure: 15,
+    careerTransition: 15,
+    leadership: 10,
+    engagement: 10
+  },
+  redFlags: [
+    { label: 'Retired', patterns: ['retired', 'former', 'ex-', 'previously'], penalty: 25 },
+    { label: 'Seeking work', patterns: ['seeking opportunities', 'open to work', 'looking for', 'between roles'], penalty: 25 },
+    { label: 'Student', patterns: ['student', 'intern', 'mba candidate'], penalty: 25 },
+    { label: 'Freelancer', patterns: ['freelance', 'independent consultant', 'sole proprietor'], penalty: 25 }
+  ],
+  categories: {
+    hotLead: 80,
+    warmLead: 60,
+    coldLead: 40
+  }
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+const isWordChar = (char: string) => /[a-z0-9]/i.test(char)
+
+// Whole-word match, so "ai" doesn't fire on "maintain"; a pattern edge that is punctuation ("ex-", "1000+") matches as is
+const matchesPattern = (text: string, pattern: string): boolean => {
+  const needle = pattern.trim().toLowerCase()
+  if (!needle) return false
+
+  const start = isWordChar(needle[0]) ? '(?:^|[^a-z0-9])' : ''
+  const end = isWordChar(needle[needle.length - 1]) ? '(?:$|[^a-z0-9])' : ''
+  return new RegExp(`${start}${escapeRegExp(needle)}${end}`).test(text)
+}
+
+const joinText = (...parts: Array<string | undefined | null>) =>
+  parts.filter(Boolean).join(' \n ').toLowerCase()
+
+export class ICPEngine {
+  constructor(
+    private readonly definition: ICPDefinition,
+    private readonly versionRef: ICPVersionRef
+  ) {}
+
+  get version(): ICPVersionRef {
+    return this.versionRef
+  }
+
+  score(subject: ICPSubject): ICPResult {
+    const { criteria } = this.definition
+    const tags = new Set<string>()
+    const signals: string[] = []
+
+    const profileText = joinText(subject.headline, subject.about)
+    const keyword = (criterion: Exclude<ICPCriterion, 'tenure' | 'engagement'>, text: string): ICPCriterionScore => {
+      const { rule, ...result } = this.scoreKeywords(criteria[criterion], text)
+      if (rule) {
+        if (rule.tag) tags.add(rule.tag)
+        signals.push(`${ICP_CRITERION_LABELS[criterion]}: ${rule.label}`)
+      }
+      return result
+    }
+
+    const details: Record<ICPCriterion, ICPCriterionScore> = {
+      roleMatch: keyword('roleMatch', joinText(subject.title, subject.headline)),
+      companySize: keyword('companySize', joinText(subject.companySize, subject.company, subject.headline)),
+      industry: keyword('industry', joinText(subject.industry, subject.company, subject.headline, subject.about)),
+      tenure: this.scoreTenure(subject, tags, signals),
+      careerTransition: keyword('careerTransition', profileText),
+      leadership: keyword('leadership', joinText(subject.headline, subject.about, ...(subject.pastTitles || []), ...(subject.topics || []))),
+      engagement: this.scoreEngagement(subject, signals)
+    }
+
+    const weights = this.definition.weights
+    const totalWeight = ICP_CRITERIA.reduce((sum, criterion) => sum + weights[criterion], 0)
+    const weighted = ICP_CRITERIA.reduce((sum, criterion) => sum + details[criterion].score * weights[criterion], 0)
+
+    const redFlagText = joinText(subject.headline, subject.title)
+    const redFlags = this.definition.redFlags.filter(flag => flag.patterns.some(pattern => matchesPattern(redFlagText, pattern)))
+    const penalty = redFlags.reduce((sum, flag) => sum + flag.penalty, 0)
+
+    const totalScore = Math.max(0, Math.min(100, Math.round(weighted / totalWeight) - penalty))
+    const category = this.categorize(totalScore)
+    const breakdown = Object.fromEntries(ICP_CRITERIA.map(criterion => [criterion, details[criterion].score])) as Record<ICPCriterion, number>
+
+    // Confidence grows with each criterion backed by actual evidence and drops with every red flag
+    const evidence = ICP_CRITERIA.filter(criterion => details[criterion].matched).length
+    const thinHeadline = (subject.headline || '').length < 20
+    const confidence = Math.max(0, Math.min(100, 30 + evidence * 10 + (thinHeadline ? 0 : 10) - redFlags.length * 15))
+
+    if (totalScore >= this.definition.categories.hotLead) tags.add('High Priority')
+
+    const reasoning = ICP_CRITERIA
+      .filter(criterion => details[criterion].matched)
+      .sort((a, b) => details[b].score * weights[b] - details[a].score * weights[a])
+      .slice(0, 3)
+      .map(criterion => `${ICP_CRITERION_LABELS[criterion]}: ${details[criterion].reasoning}`)
+
+    if (redFlags.length > 0) {
+      reasoning.push(`Caution: ${redFlags.map(flag => flag.label).join(', ')} (-${penalty})`)
+    }
+
+    return {
+      totalScore,
+      category,
+      breakdown,
+      details,
+      tags: Array.from(tags),
+      reasoning,
+      confidence,
+      dataQuality: evidence >= 4 ? 'high' : evidence >= 2 ? 'medium' : 'low',
+      signals,
+      redFlags: redFlags.map(flag => flag.label),
+      icpVersion: this.versionRef.version,
+      icpVersionId: this.versionRef.id
+    }
+  }
+
+  categorize(totalScore: number): ICPCategory {
+    const { categories } = this.definition
+    if (totalScore >= categories.hotLead) return 'Hot Lead'
+    if (totalScore >= categories.warmLead) return 'Warm Lead'
+    if (totalScore >= categories.coldLead) return 'Cold Lead'
+    return 'Not ICP'
+  }
+
+  private scoreKeywords(criterion: ICPKeywordCriterion, text: string): ICPCriterionScore & { rule?: ICPKeywordRule } {
+    if (text) {
+      for (const rule of criterion.rules) {
+        const pattern = rule.patterns.find(candidate => matchesPattern(text, candidate))
+        if (pattern) {
+          return { score: rule.score, reasoning: `${rule.label} ("${pattern}")`, matched: true, rule }
+        }
+      }
+    }
+
+    return { score: criterion.unmatchedScore, reasoning: text ? 'No matching criteria' : 'Unknown', matched: false }
+  }
+
+  private scoreTenure(subject: ICPSubject, tags: Set<string>, signals: string[]): ICPCriterionScore {
+    const { tenure } = this.definition.criteria
+    const months = subject.tenureMonths
+
+    if (months === undefined || months === null || Number.isNaN(months)) {
+      return { score: tenure.unknownScore, reasoning: 'Tenure unknown', matched: false }
+    }
+
+    const band = [...tenure.bands]
+      .sort((a, b) => a.maxMonths - b.maxMonths)
+      .find(candidate => months <= candidate.maxMonths)
+
+    if (!band) {
+      return { score: tenure.beyondScore, reasoning: `${months} months in role`, matched: true }
+    }
+
+    if (band.tag) tags.add(band.tag)
+    signals.push(`Tenure: ${months} months in role`)
+    return { score: band.score, reasoning: `${months} months in role (up to ${band.maxMonths})`, matched: true }
+  }
+
+  private scoreEngagement(subject: ICPSubject, signals: string[]): ICPCriterionScore {
+    const { engagement } = this.definition.criteria
+    const followers = subject.followerCount
+
+    const band = followers
+      ? [...engagement.followerBands]
+        .sort((a, b) => b.minFollowers - a.minFollowers)
+        .find(candidate => followers >= candidate.minFollowers)
+      : undefined
+
+    if (subject.isActive && (!band || engagement.activeScore >= band.score)) {
+      signals.push('Engagement: active on LinkedIn')
+      return { score: engagement.activeScore, reasoning: 'Active on LinkedIn', matched: true }
+    }
+
+    if (band) {
+      return { score: band.score, reasoning: `${followers} followers`, matched: true }
+    }
+
+    return { score: engagement.unknownScore, reasoning: 'Activity unknown', matched: false }
+  }
+}
+
+export const createICPEngine = (definition: ICPDefinition, version: ICPVersionRef) =>
+  new ICPEngine(definition, version)
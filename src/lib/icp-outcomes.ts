@@ -0,0 +1,14 @@
+// What happened after a lead or connection was scored; shared by the calibration service and the pages that record outcomes
+export const ICP_OUTCOMES = ['replied', 'booked_call', 'became_client', 'not_interested'] as const
+
+export type ICPOutcome = typeof ICP_OUTCOMES[number]
+
+export const ICP_OUTCOME_LABELS: Record<ICPOutcome, string> = {
+  replied: 'Replied',
+  booked_call: 'Booked call',
+  became_client: 'Became client',
+  not_interested: 'Not interested'
+}
+
+// A reply alone isn't a conversion; calibration measures how often a score band gets to a call or further
+export const CONVERTED_OUTCOMES: readonly ICPOutcome[] = ['booked_call', 'became_client']
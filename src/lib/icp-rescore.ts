@@ -0,0 +1,277 @@
+import { supabase, supabaseAdmin } from './supabase'
+import { commentICPFields, supabaseLinkedIn, type LinkedInComment } from './supabase-linkedin'
+import { ICPDefinitionService } from './icp-definitions'
+import type { ICPEngine } from './icp-engine'
+import { createLeadScoringEngine, parseResearchData } from './lead-scoring'
+import { getRepository } from './storage'
+
+export type RescoreRunStatus = 'running' | 'completed' | 'failed'
+
+// Row in icp_rescore_runs; progress is written as the run goes, so the settings page can poll it
+export interface ICPRescoreRun {
+  id: string
+  workspace_id: string
+  icp_version_id: string
+  icp_version: number
+  status: RescoreRunStatus
+  commenters_total: number
+  commenters_rescored: number
+  leads_total: number
+  leads_rescored: number
+  skipped: number // Leads already on this version, or without research data to score
+  failed: number
+  error?: string | null
+  started_at: string
+  finished_at?: string | null
+  updated_at: string
+}
+
+type RunProgress = Pick<ICPRescoreRun, 'commenters_total' | 'commenters_rescored' | 'leads_total' | 'leads_rescored' | 'skipped' | 'failed'>
+
+export class ICPRescoreError extends Error {
+  constructor(message: string, public readonly status: 409 | 503) {
+    super(message)
+    this.name = 'ICPRescoreError'
+  }
+}
+
+const PAGE_SIZE = 1000
+const URN_BATCH_SIZE = 100
+const PROGRESS_EVERY = 25
+// A run still marked running after this long died with its request
+const STALE_RUN_MS = 30 * 60 * 1000
+
+const getClient = () => supabaseAdmin || supabase
+
+export class ICPRescoreService {
+  static async getLatestRun(workspaceId: string): Promise<ICPRescoreRun | null> {
+    const { data, error } = await getClient()
+      .from('icp_rescore_runs')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .order('started_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching ICP rescore run:', error)
+      throw new Error(`Failed to fetch rescore run: ${error.message}`)
+    }
+
+    return data
+  }
+
+  // Rescores everyone the workspace has scored (commenters on its posts and researched leads) against the
+  // current ICP definition. Runs to completion within the request; one run per workspace at a time.
+  static async rescoreAll(workspaceId: string): Promise<ICPRescoreRun> {
+    if (!supabaseLinkedIn) {
+      throw new ICPRescoreError('Supabase LinkedIn service not available', 503)
+    }
+
+    const engine = await ICPDefinitionService.getEngine(workspaceId)
+    const run = await this.startRun(workspaceId, engine)
+    const progress: RunProgress = {
+      commenters_total: 0,
+      commenters_rescored: 0,
+      leads_total: 0,
+      leads_rescored: 0,
+      skipped: 0,
+      failed: 0
+    }
+
+    try {
+      await this.rescoreCommenters(run, engine, progress)
+      await this.rescoreLeads(run, engine, progress)
+      return await this.saveRun(run.id, { ...progress, status: 'completed', finished_at: new Date().toISOString() })
+    } catch (error: any) {
+      console.error('ICP rescore failed:', error)
+      return this.saveRun(run.id, {
+        ...progress,
+        status: 'failed',
+        error: error.message || 'Rescore failed',
+        finished_at: new Date().toISOString()
+      })
+    }
+  }
+
+  private static async startRun(workspaceId: string, engine: ICPEngine): Promise<ICPRescoreRun> {
+    const client = getClient()
+
+    await client
+      .from('icp_rescore_runs')
+      .update({ status: 'failed', error: 'Interrupted', finished_at: new Date().toISOString() })
+      .eq('workspace_id', workspaceId)
+      .eq('status', 'running')
+      .lt('updated_at', new Date(Date.now() - STALE_RUN_MS).toISOString())
+
+    const { data, error } = await client
+      .from('icp_rescore_runs')
+      .insert({
+        workspace_id: workspaceId,
+        icp_version_id: engine.version.id,
+        icp_version: engine.version.version,
+        status: 'running'
+      })
+      .select()
+      .single()
+
+    if (error?.code === '23505') {
+      throw new ICPRescoreError('A rescore is already running for this workspace', 409)
+    }
+
+    if (error) {
+      console.error('Error starting ICP rescore run:', error)
+      throw new Error(`Failed to start rescore run: ${error.message}`)
+    }
+
+    return data
+  }
+
+  private static async saveRun(runId: string, fields: Partial<ICPRescoreRun>): Promise<ICPRescoreRun> {
+    const { data, error } = await getClient()
+      .from('icp_rescore_runs')
+      .update({ ...fields, updated_at: new Date().toISOString() })
+      .eq('id', runId)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error saving ICP rescore run:', error)
+      throw new Error(`Failed to save rescore run: ${error.message}`)
+    }
+
+    return data
+  }
+
+  // Each commenter's profile is rescored once, then the score is copied onto their comments on this workspace's posts
+  private static async rescoreCommenters(run: ICPRescoreRun, engine: ICPEngine, progress: RunProgress) {
+    const client = getClient()
+    const linkedIn = supabaseLinkedIn!.forWorkspace(run.workspace_id)
+
+    const urns: string[] = []
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await client
+        .from('linkedin_posts')
+        .select('urn')
+        .eq('workspace_id', run.workspace_id)
+        .order('urn', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1)
+
+      if (error) {
+        console.error('Error fetching posts for ICP rescore:', error)
+        throw new Error(`Failed to fetch posts: ${error.message}`)
+      }
+
+      urns.push(...(data || []).map(post => post.urn))
+      if (!data || data.length < PAGE_SIZE) break
+    }
+
+    // Newest comment per commenter, for their latest headline, and every post they commented on
+    const commenters = new Map<string, { comment: Pick<LinkedInComment, 'author'>; postUrns: Set<string> }>()
+    for (let index = 0; index < urns.length; index += URN_BATCH_SIZE) {
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await client
+          .from('linkedin_comments')
+          .select('post_urn, author_name, author_headline, author_profile_url, author_profile_picture')
+          .eq('workspace_id', run.workspace_id)
+          .in('post_urn', urns.slice(index, index + URN_BATCH_SIZE))
+          .eq('is_owner_comment', false)
+          .not('author_profile_url', 'is', null)
+          .order('posted_at', { ascending: false })
+          .range(from, from + PAGE_SIZE - 1)
+
+        if (error) {
+          console.error('Error fetching comments for ICP rescore:', error)
+          throw new Error(`Failed to fetch comments: ${error.message}`)
+        }
+
+        for (const row of data || []) {
+          const commenter = commenters.get(row.author_profile_url) || {
+            comment: {
+              author: {
+                name: row.author_name,
+                headline: row.author_headline || '',
+                profile_url: row.author_profile_url,
+                profile_picture: row.author_profile_picture
+              }
+            },
+            postUrns: new Set<string>()
+          }
+          commenter.postUrns.add(row.post_urn)
+          commenters.set(row.author_profile_url, commenter)
+        }
+
+        if (!data || data.length < PAGE_SIZE) break
+      }
+    }
+
+    progress.commenters_total = commenters.size
+    await this.saveRun(run.id, progress)
+
+    let processed = 0
+    for (const [profileUrl, commenter] of Array.from(commenters)) {
+      const profile = await linkedIn.researchCommentAuthor(commenter.comment, engine)
+
+      if (profile) {
+        const { error } = await client
+          .from('linkedin_comments')
+          .update(commentICPFields(profile))
+          .eq('workspace_id', run.workspace_id)
+          .eq('author_profile_url', profileUrl)
+          .in('post_urn', Array.from(commenter.postUrns))
+
+        if (error) {
+          console.error(`Error updating comment scores for ${profileUrl}:`, error)
+          progress.failed++
+        } else {
+          progress.commenters_rescored++
+        }
+      } else {
+        progress.failed++
+      }
+
+      if (++processed % PROGRESS_EVERY === 0) {
+        await this.saveRun(run.id, progress)
+      }
+    }
+  }
+
+  // Leads keep their status; only the score, breakdown and tags follow the new definition
+  private static async rescoreLeads(run: ICPRescoreRun, engine: ICPEngine, progress: RunProgress) {
+    const leads = await getRepository(run.workspace_id, 'leads')
+    const scoringEngine = createLeadScoringEngine(engine)
+    const records = await leads.list()
+
+    progress.leads_total = records.length
+    await this.saveRun(run.id, progress)
+
+    let processed = 0
+    for (const lead of records) {
+      const researchData = parseResearchData(lead.fields['Research Data'])
+
+      if (!lead.id || !researchData || lead.fields['ICP Version'] === engine.version.version) {
+        progress.skipped++
+      } else {
+        try {
+          const scoreResult = scoringEngine.calculateICPScore(researchData)
+          await leads.update(lead.id, {
+            'ICP Score': scoreResult.totalScore,
+            'ICP Version': scoreResult.icpVersion,
+            'Score Breakdown': JSON.stringify(scoreResult.breakdown),
+            'Tags': scoreResult.tags
+          })
+          progress.leads_rescored++
+        } catch (error: any) {
+          console.error(`Error rescoring lead ${lead.id}:`, error.message)
+          progress.failed++
+        }
+      }
+
+      if (++processed % PROGRESS_EVERY === 0) {
+        await this.saveRun(run.id, progress)
+      }
+    }
+  }
+}
+
+export default ICPRescoreService
@@ -0,0 +1,500 @@
+import { z } from 'zod'
+import { supabase, supabaseAdmin, SupabaseService } from './supabase'
+import { getRepository } from './storage'
+import { WorkspaceService } from './workspaces'
+import { TopicCorpus, TermVector, centroid, cosineSimilarity, topTerms } from './topic-similarity'
+
+// Idea payload schema (used by the create and update routes)
+export const IdeaInputSchema = z.object({
+  topic: z.string().trim().min(1, 'Topic is required').max(300),
+  angle: z.string().trim().max(500).optional(),
+  notes: z.string().trim().max(5000).optional(),
+  source_url: z.string().url().optional(),
+  status: z.enum(['new', 'planned', 'used', 'dismissed']).optional()
+})
+
+export type IdeaInput = z.infer<typeof IdeaInputSchema>
+
+export type IdeaSource = 'manual' | 'research' | 'influencer_post'
+export type IdeaStatus = 'new' | 'planned' | 'used' | 'dismissed'
+
+export interface IdeaOverlap {
+  checked_at: string
+  // Own posts inside the overlap window that cover the same ground
+  recent_posts: Array<{
+    urn: string
+    url: string
+    posted_at: string
+    excerpt: string
+    similarity: number
+  }>
+  // Other open ideas in the backlog on the same topic
+  similar_ideas: Array<{
+    id: string
+    topic: string
+    status: IdeaStatus
+    similarity: number
+  }>
+  warning?: string
+}
+
+export interface ContentIdea {
+  id: string
+  topic: string
+  angle?: string
+  notes?: string
+  source: IdeaSource
+  source_ref?: string
+  source_url?: string
+  job_id?: string
+  theme?: string
+  overlap: IdeaOverlap | Record<string, never>
+  status: IdeaStatus
+  used_job_id?: string
+  created_at: string
+  updated_at: string
+}
+
+export interface ThemeSummary {
+  label: string
+  terms: string[]
+  postCount: number
+  recentPostCount: number
+  lastPostedAt?: string
+  ideaIds: string[]
+  examplePost?: { url: string; excerpt: string }
+}
+
+export interface ThemeCoverage {
+  windowDays: number
+  themes: ThemeSummary[]
+  // Themes that have gone quiet, most neglected first
+  suggestions: ThemeSummary[]
+}
+
+// How far back past posts are clustered, and what counts as recent coverage
+const HISTORY_DAYS = 365
+const COVERAGE_WINDOW_DAYS = 30
+const OVERLAP_WINDOW_DAYS = 30
+const MAX_HISTORY_POSTS = 500
+
+// Cosine thresholds over TF-IDF vectors; topics are short, so these are deliberately low
+const OVERLAP_THRESHOLD = 0.25
+const CLUSTER_THRESHOLD = 0.2
+const MAX_SUGGESTIONS = 5
+
+interface PastPost {
+  urn: string
+  url: string
+  text: string
+  posted_at: string
+}
+
+interface ClusterMember {
+  kind: 'post' | 'idea'
+  id: string
+  vector: TermVector
+  post?: PastPost
+}
+
+const getClient = () => supabaseAdmin || supabase
+
+const ideaText = (idea: { topic: string; angle?: string | null; notes?: string | null }) =>
+  [idea.topic, idea.angle, idea.notes].filter(Boolean).join('\n')
+
+const excerpt = (text: string, length: number = 160) =>
+  text.length > length ? `${text.substring(0, length).trim()}...` : text
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+const isOpen = (idea: ContentIdea) => idea.status === 'new' || idea.status === 'planned'
+
+export class IdeaBacklogService {
+  static async listIdeas(workspaceId: string, status?: IdeaStatus): Promise<ContentIdea[]> {
+    const client = getClient()
+    let query = client
+      .from('content_ideas')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .order('created_at', { ascending: false })
+
+    if (status) {
+      query = query.eq('status', status)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      console.error('Error fetching content ideas:', error)
+      throw new Error(`Failed to fetch content ideas: ${error.message}`)
+    }
+
+    return data || []
+  }
+
+  static async getIdea(workspaceId: string, id: string): Promise<ContentIdea | null> {
+    const client = getClient()
+    const { data, error } = await client
+      .from('content_ideas')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching content idea:', error)
+      throw new Error(`Failed to fetch content idea: ${error.message}`)
+    }
+
+    return data
+  }
+
+  static async createIdea(
+    workspaceId: string,
+    input: IdeaInput,
+    origin: { source: IdeaSource; source_ref?: string; job_id?: string } = { source: 'manual' }
+  ): Promise<ContentIdea> {
+    const client = getClient()
+    const { overlap, theme } = await this.analyze(workspaceId, input)
+
+    const { data, error } = await client
+      .from('content_ideas')
+      .insert({
+        workspace_id: workspaceId,
+        topic: input.topic,
+        angle: input.angle,
+        notes: input.notes,
+        source_url: input.source_url,
+        status: input.status || 'new',
+        source: origin.source,
+        source_ref: origin.source_ref,
+        job_id: origin.job_id,
+        theme,
+        overlap
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error creating content idea:', error)
+      throw new Error(`Failed to create content idea: ${error.message}`)
+    }
+
+    return data
+  }
+
+  static async updateIdea(workspaceId: string, id: string, input: Partial<IdeaInput>): Promise<ContentIdea | null> {
+    const client = getClient()
+    const existing = await this.getIdea(workspaceId, id)
+
+    if (!existing) {
+      return null
+    }
+
+    const merged = {
+      topic: input.topic ?? existing.topic,
+      angle: input.angle ?? existing.angle,
+      notes: input.notes ?? existing.notes
+    }
+
+    // Only re-check overlap when the wording changed; status changes keep the saved analysis
+    const textChanged = ideaText(merged) !== ideaText(existing)
+    const analysis = textChanged ? await this.analyze(workspaceId, merged, id) : null
+
+    const { data, error } = await client
+      .from('content_ideas')
+      .update({
+        ...merged,
+        source_url: input.source_url ?? existing.source_url,
+        status: input.status ?? existing.status,
+        ...(analysis && { theme: analysis.theme, overlap: analysis.overlap }),
+        updated_at: new Date().toISOString()
+      })
+      .eq('workspace_id', workspaceId)
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error updating content idea:', error)
+      throw new Error(`Failed to update content idea: ${error.message}`)
+    }
+
+    return data
+  }
+
+  static async markUsed(workspaceId: string, id: string, jobId?: string): Promise<void> {
+    const client = getClient()
+    const { error } = await client
+      .from('content_ideas')
+      .update({ status: 'used', used_job_id: jobId, updated_at: new Date().toISOString() })
+      .eq('workspace_id', workspaceId)
+      .eq('id', id)
+
+    if (error) {
+      console.error('Error marking content idea used:', error)
+      throw new Error(`Failed to mark content idea used: ${error.message}`)
+    }
+  }
+
+  static async deleteIdea(workspaceId: string, id: string): Promise<void> {
+    const client = getClient()
+    const { error } = await client
+      .from('content_ideas')
+      .delete()
+      .eq('workspace_id', workspaceId)
+      .eq('id', id)
+
+    if (error) {
+      console.error('Error deleting content idea:', error)
+      throw new Error(`Failed to delete content idea: ${error.message}`)
+    }
+  }
+
+  // Save a job's research ideas for later. Already-imported ideas are returned as they are.
+  static async importResearchIdeas(workspaceId: string, jobId: string, ideaNumbers: number[] = [1, 2, 3]): Promise<ContentIdea[]> {
+    const job = await SupabaseService.getJob(jobId, workspaceId)
+    const researchIdeas = job?.research_data?.research_ideas
+
+    if (!job || !researchIdeas) {
+      throw new Error(`No research ideas found for job ${jobId}`)
+    }
+
+    const imported: ContentIdea[] = []
+
+    for (const ideaNumber of ideaNumbers) {
+      const idea = researchIdeas[`idea_${ideaNumber}`]
+      if (!idea?.concise_summary) continue
+
+      const sourceRef = `${jobId}:idea_${ideaNumber}`
+      const existing = await this.findBySourceRef(workspaceId, 'research', sourceRef)
+
+      imported.push(existing || await this.createIdea(
+        workspaceId,
+        {
+          topic: excerpt(idea.concise_summary, 300),
+          angle: idea.angle_approach ? excerpt(idea.angle_approach, 500) : undefined,
+          notes: idea.details,
+          source_url: idea.sources?.[0]?.url
+        },
+        { source: 'research', source_ref: sourceRef, job_id: jobId }
+      ))
+    }
+
+    return imported
+  }
+
+  static async importInfluencerPost(workspaceId: string, postId: string): Promise<ContentIdea> {
+    const existing = await this.findBySourceRef(workspaceId, 'influencer_post', postId)
+    if (existing) {
+      return existing
+    }
+
+    const influencerPosts = await getRepository(workspaceId, 'influencerPosts')
+    const post = await influencerPosts.get(postId)
+
+    if (!post) {
+      throw new Error(`Influencer post ${postId} not found`)
+    }
+
+    const content = post.fields['Content']
+    const firstLine = content.split('\n').map(line => line.trim()).find(Boolean) || content
+
+    return this.createIdea(
+      workspaceId,
+      {
+        topic: excerpt(firstLine, 300),
+        notes: content.substring(0, 5000)
+      },
+      { source: 'influencer_post', source_ref: postId }
+    )
+  }
+
+  // Compare a topic against recent own posts and the open backlog without saving anything
+  static async checkOverlap(
+    workspaceId: string,
+    input: { topic: string; angle?: string; notes?: string },
+    excludeIdeaId?: string
+  ): Promise<IdeaOverlap> {
+    const { overlap } = await this.analyze(workspaceId, input, excludeIdeaId)
+    return overlap
+  }
+
+  // Cluster past posts and open ideas into themes, and flag themes that have gone quiet
+  static async getThemeCoverage(workspaceId: string): Promise<ThemeCoverage> {
+    const [posts, ideas] = await Promise.all([this.getPastPosts(workspaceId), this.listIdeas(workspaceId)])
+    const openIdeas = ideas.filter(isOpen)
+    const corpus = new TopicCorpus([...posts.map(post => post.text), ...openIdeas.map(ideaText)])
+
+    const members: ClusterMember[] = [
+      ...posts.map(post => ({ kind: 'post' as const, id: post.urn, vector: corpus.vectorize(post.text), post })),
+      ...openIdeas.map(idea => ({ kind: 'idea' as const, id: idea.id, vector: corpus.vectorize(ideaText(idea)) }))
+    ]
+
+    const coverageSince = daysAgo(COVERAGE_WINDOW_DAYS)
+    const themes = this.cluster(members)
+      .map(cluster => {
+        const clusterPosts = cluster.filter(member => member.post).map(member => member.post!)
+        const terms = topTerms(centroid(cluster.map(member => member.vector)), 3)
+
+        return {
+          label: terms.join(' / '),
+          terms,
+          postCount: clusterPosts.length,
+          recentPostCount: clusterPosts.filter(post => new Date(post.posted_at) >= coverageSince).length,
+          lastPostedAt: clusterPosts[0]?.posted_at,
+          ideaIds: cluster.filter(member => member.kind === 'idea').map(member => member.id),
+          examplePost: clusterPosts[0] && { url: clusterPosts[0].url, excerpt: excerpt(clusterPosts[0].text) }
+        }
+      })
+      // Singleton posts are noise, not themes
+      .filter(theme => theme.label && (theme.postCount >= 2 || theme.ideaIds.length > 0))
+      .sort((a, b) => b.postCount + b.ideaIds.length - (a.postCount + a.ideaIds.length))
+
+    // Under-covered: nothing posted in the window, but either a proven theme or ideas waiting on it
+    const suggestions = themes
+      .filter(theme => theme.recentPostCount === 0)
+      .sort((a, b) =>
+        b.ideaIds.length - a.ideaIds.length ||
+        new Date(a.lastPostedAt || 0).getTime() - new Date(b.lastPostedAt || 0).getTime()
+      )
+      .slice(0, MAX_SUGGESTIONS)
+
+    return { windowDays: COVERAGE_WINDOW_DAYS, themes, suggestions }
+  }
+
+  private static async analyze(
+    workspaceId: string,
+    input: { topic: string; angle?: string | null; notes?: string | null },
+    excludeId?: string
+  ): Promise<{ overlap: IdeaOverlap; theme?: string }> {
+    const [posts, ideas] = await Promise.all([this.getPastPosts(workspaceId), this.listIdeas(workspaceId)])
+    const otherIdeas = ideas.filter(idea => idea.id !== excludeId && isOpen(idea))
+    const text = ideaText(input)
+    const corpus = new TopicCorpus([...posts.map(post => post.text), ...otherIdeas.map(ideaText), text])
+    const vector = corpus.vectorize(text)
+
+    const overlapSince = daysAgo(OVERLAP_WINDOW_DAYS)
+    const scoredPosts = posts.map(post => ({ post, similarity: cosineSimilarity(vector, corpus.vectorize(post.text)) }))
+
+    const recentPosts = scoredPosts
+      .filter(({ post, similarity }) => similarity >= OVERLAP_THRESHOLD && new Date(post.posted_at) >= overlapSince)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, 3)
+      .map(({ post, similarity }) => ({
+        urn: post.urn,
+        url: post.url,
+        posted_at: post.posted_at,
+        excerpt: excerpt(post.text),
+        similarity: round(similarity)
+      }))
+
+    const similarIdeas = otherIdeas
+      .map(idea => ({ idea, similarity: cosineSimilarity(vector, corpus.vectorize(ideaText(idea))) }))
+      .filter(({ similarity }) => similarity >= OVERLAP_THRESHOLD)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, 3)
+      .map(({ idea, similarity }) => ({
+        id: idea.id,
+        topic: idea.topic,
+        status: idea.status,
+        similarity: round(similarity)
+      }))
+
+    const warnings = [
+      recentPosts.length > 0 &&
+        `Overlaps ${recentPosts.length} post${recentPosts.length === 1 ? '' : 's'} from the last ${OVERLAP_WINDOW_DAYS} days`,
+      similarIdeas.length > 0 &&
+        `${similarIdeas.length} similar idea${similarIdeas.length === 1 ? ' is' : 's are'} already in the backlog`
+    ].filter(Boolean)
+
+    // Theme label comes from the closest past post's strongest terms, or the idea's own when it's new ground
+    const closest = scoredPosts.sort((a, b) => b.similarity - a.similarity)[0]
+    const themeVector = closest && closest.similarity >= CLUSTER_THRESHOLD
+      ? centroid([vector, corpus.vectorize(closest.post.text)])
+      : vector
+
+    return {
+      overlap: {
+        checked_at: new Date().toISOString(),
+        recent_posts: recentPosts,
+        similar_ideas: similarIdeas,
+        ...(warnings.length > 0 && { warning: warnings.join('; ') })
+      },
+      theme: topTerms(themeVector, 3).join(' / ') || undefined
+    }
+  }
+
+  // Greedy single-pass clustering: each item joins the closest cluster centroid above the threshold
+  private static cluster(members: ClusterMember[]): ClusterMember[][] {
+    const clusters: Array<{ members: ClusterMember[]; centroid: TermVector }> = []
+
+    for (const member of members) {
+      let bestIndex = -1
+      let bestSimilarity = CLUSTER_THRESHOLD
+
+      for (let index = 0; index < clusters.length; index++) {
+        const similarity = cosineSimilarity(member.vector, clusters[index].centroid)
+        if (similarity >= bestSimilarity) {
+          bestIndex = index
+          bestSimilarity = similarity
+        }
+      }
+
+      if (bestIndex !== -1) {
+        const cluster = clusters[bestIndex]
+        cluster.members.push(member)
+        cluster.centroid = centroid([cluster.centroid, member.vector])
+      } else {
+        clusters.push({ members: [member], centroid: new Map(member.vector) })
+      }
+    }
+
+    return clusters.map(cluster => cluster.members)
+  }
+
+  // The workspace's own synced posts; none until it has a LinkedIn profile configured
+  private static async getPastPosts(workspaceId: string): Promise<PastPost[]> {
+    const username = await WorkspaceService.getOwnUsername(workspaceId)
+    if (!username) return []
+
+    const client = getClient()
+    const { data, error } = await client
+      .from('linkedin_posts')
+      .select('urn, url, text, posted_at')
+      .eq('workspace_id', workspaceId)
+      .eq('author_username', username)
+      .gte('posted_at', daysAgo(HISTORY_DAYS).toISOString())
+      .order('posted_at', { ascending: false })
+      .limit(MAX_HISTORY_POSTS)
+
+    if (error) {
+      console.error('Error fetching past posts for idea backlog:', error)
+      throw new Error(`Failed to fetch past posts: ${error.message}`)
+    }
+
+    return (data || []).filter(post => post.text)
+  }
+
+  private static async findBySourceRef(workspaceId: string, source: IdeaSource, sourceRef: string): Promise<ContentIdea | null> {
+    const client = getClient()
+    const { data, error } = await client
+      .from('content_ideas')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .eq('source', source)
+      .eq('source_ref', sourceRef)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching content idea by source:', error)
+      throw new Error(`Failed to fetch content idea: ${error.message}`)
+    }
+
+    return data
+  }
+}
+
+export default IdeaBacklogService
@@ -0,0 +1,603 @@
+// Lead pipeline: a board of workspace-defined stages holding leads, connections and researched LinkedIn profiles.
+// Cards keep a snapshot of who they are so the board loads without calling Airtable; every stage change is kept
+// in pipeline_stage_visits, which is where time-in-stage comes from.
+import { z } from 'zod'
+import { supabase, supabaseAdmin } from './supabase'
+import { supabaseLinkedIn } from './supabase-linkedin'
+import { WorkspaceService, type WorkspaceMember } from './workspaces'
+import { getRepository } from './storage'
+
+export const DEFAULT_PIPELINE_STAGES = ['Identified', 'Engaging', 'Conversation', 'Call Booked', 'Client']
+
+export type PipelineSubjectType = 'lead' | 'connection' | 'profile'
+
+const StageNameSchema = z.string().trim().min(1, 'Stage name is required').max(50)
+
+export const StageInputSchema = z.object({
+  name: StageNameSchema
+})
+
+export const StageOrderSchema = z.object({
+  stageIds: z.array(z.string().uuid()).min(1)
+})
+
+export const AddCardSchema = z.object({
+  subjectType: z.enum(['lead', 'connection', 'profile']),
+  subjectId: z.string().min(1), // Record id for leads and connections, profile URL for profiles
+  stageId: z.string().uuid().optional() // First stage when unset
+})
+
+export const UpdateCardSchema = z.object({
+  ownerUserId: z.string().uuid().nullable().optional(),
+  nextAction: z.string().trim().max(200).nullable().optional(),
+  nextActionAt: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD').nullable().optional()
+})
+
+export const MoveCardSchema = z.object({
+  stageId: z.string().uuid(),
+  position: z.number().optional() // Sort key within the column; the end of the column when unset
+})
+
+export type AddCardInput = z.infer<typeof AddCardSchema>
+export type UpdateCardInput = z.infer<typeof UpdateCardSchema>
+export type MoveCardInput = z.infer<typeof MoveCardSchema>
+
+export interface PipelineStage {
+  id: string
+  workspace_id: string
+  name: string
+  position: number
+  created_at: string
+}
+
+export interface PipelineCard {
+  id: string
+  workspace_id: string
+  stage_id: string
+  position: number
+  subject_type: PipelineSubjectType
+  subject_id: string
+  // Snapshot of the subject when it was added
+  name: string
+  headline?: string | null
+  company?: string | null
+  profile_url?: string | null
+  profile_picture?: string | null
+  icp_score?: number | null
+  owner_user_id?: string | null
+  next_action?: string | null
+  next_action_at?: string | null // YYYY-MM-DD
+  stage_entered_at: string
+  created_at: string
+  updated_at: string
+}
+
+// One row per stay in a stage; exited_at is unset for the stage a card is in now
+export interface PipelineStageVisit {
+  id: string
+  card_id: string
+  stage_id?: string | null // Unset once the stage is deleted
+  stage_name: string
+  entered_at: string
+  exited_at?: string | null
+  moved_by?: string | null
+}
+
+export interface PipelineBoard {
+  stages: PipelineStage[]
+  cards: PipelineCard[]
+  members: WorkspaceMember[]
+}
+
+export interface PipelineCandidate {
+  subjectType: PipelineSubjectType
+  subjectId: string
+  name: string
+  headline?: string
+  company?: string
+  icpScore?: number
+}
+
+type CardSnapshot = Pick<PipelineCard, 'name' | 'headline' | 'company' | 'profile_url' | 'profile_picture' | 'icp_score'>
+
+export class PipelineError extends Error {
+  constructor(message: string, public readonly status: 400 | 404 | 409) {
+    super(message)
+    this.name = 'PipelineError'
+  }
+}
+
+const CANDIDATE_LIMIT = 20
+
+const getClient = () => supabaseAdmin || supabase
+
+const matches = (query: string, ...values: Array<string | undefined>) =>
+  values.some(value => value?.toLowerCase().includes(query))
+
+export class LeadPipelineService {
+  // The workspace's stages in board order; a workspace without any gets the default pipeline
+  static async getStages(workspaceId: string): Promise<PipelineStage[]> {
+    const stages = await this.listStages(workspaceId)
+    if (stages.length > 0) return stages
+
+    const { error } = await getClient()
+      .from('pipeline_stages')
+      .upsert(
+        DEFAULT_PIPELINE_STAGES.map((name, position) => ({ workspace_id: workspaceId, name, position })),
+        { onConflict: 'workspace_id,name', ignoreDuplicates: true }
+      )
+
+    if (error) {
+      console.error('Error seeding pipeline stages:', error)
+      throw new Error(`Failed to seed pipeline stages: ${error.message}`)
+    }
+
+    return this.listStages(workspaceId)
+  }
+
+  static async getBoard(workspaceId: string): Promise<PipelineBoard> {
+    const stages = await this.getStages(workspaceId)
+
+    const { data, error } = await getClient()
+      .from('pipeline_cards')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .order('position', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching pipeline cards:', error)
+      throw new Error(`Failed to fetch pipeline cards: ${error.message}`)
+    }
+
+    const members = await WorkspaceService.listMembers(workspaceId)
+
+    return { stages, cards: data || [], members }
+  }
+
+  static async createStage(workspaceId: string, name: string): Promise<PipelineStage> {
+    const stages = await this.getStages(workspaceId)
+
+    const { data, error } = await getClient()
+      .from('pipeline_stages')
+      .insert({
+        workspace_id: workspaceId,
+        name,
+        position: stages.length > 0 ? stages[stages.length - 1].position + 1 : 0
+      })
+      .select()
+      .single()
+
+    if (error?.code === '23505') {
+      throw new PipelineError(`There is already a "${name}" stage`, 409)
+    }
+
+    if (error) {
+      console.error('Error creating pipeline stage:', error)
+      throw new Error(`Failed to create stage: ${error.message}`)
+    }
+
+    return data
+  }
+
+  static async renameStage(workspaceId: string, stageId: string, name: string): Promise<PipelineStage> {
+    const { data, error } = await getClient()
+      .from('pipeline_stages')
+      .update({ name })
+      .eq('workspace_id', workspaceId)
+      .eq('id', stageId)
+      .select()
+      .maybeSingle()
+
+    if (error?.code === '23505') {
+      throw new PipelineError(`There is already a "${name}" stage`, 409)
+    }
+
+    if (error) {
+      console.error('Error renaming pipeline stage:', error)
+      throw new Error(`Failed to rename stage: ${error.message}`)
+    }
+
+    if (!data) {
+      throw new PipelineError('Stage not found', 404)
+    }
+
+    return data
+  }
+
+  // stageIds must list every stage of the workspace, in the new order
+  static async reorderStages(workspaceId: string, stageIds: string[]): Promise<PipelineStage[]> {
+    const stages = await this.getStages(workspaceId)
+    const known = new Set(stages.map(stage => stage.id))
+
+    if (stageIds.length !== stages.length || new Set(stageIds).size !== stageIds.length || !stageIds.every(id => known.has(id))) {
+      throw new PipelineError('Stage order must list every stage exactly once', 400)
+    }
+
+    const client = getClient()
+    for (const [position, id] of stageIds.entries()) {
+      const { error } = await client
+        .from('pipeline_stages')
+        .update({ position })
+        .eq('workspace_id', workspaceId)
+        .eq('id', id)
+
+      if (error) {
+        console.error('Error reordering pipeline stages:', error)
+        throw new Error(`Failed to reorder stages: ${error.message}`)
+      }
+    }
+
+    return this.listStages(workspaceId)
+  }
+
+  // Only empty stages can go, and a pipeline always keeps one
+  static async deleteStage(workspaceId: string, stageId: string): Promise<void> {
+    const client = getClient()
+    const stages = await this.getStages(workspaceId)
+
+    if (!stages.some(stage => stage.id === stageId)) {
+      throw new PipelineError('Stage not found', 404)
+    }
+
+    if (stages.length === 1) {
+      throw new PipelineError('The pipeline needs at least one stage', 409)
+    }
+
+    const { count, error: countError } = await client
+      .from('pipeline_cards')
+      .select('id', { count: 'exact', head: true })
+      .eq('workspace_id', workspaceId)
+      .eq('stage_id', stageId)
+
+    if (countError) {
+      console.error('Error counting pipeline cards:', countError)
+      throw new Error(`Failed to delete stage: ${countError.message}`)
+    }
+
+    if (count) {
+      throw new PipelineError(`Move the ${count} card${count !== 1 ? 's' : ''} out of this stage before deleting it`, 409)
+    }
+
+    const { error } = await client
+      .from('pipeline_stages')
+      .delete()
+      .eq('workspace_id', workspaceId)
+      .eq('id', stageId)
+
+    if (error) {
+      console.error('Error deleting pipeline stage:', error)
+      throw new Error(`Failed to delete stage: ${error.message}`)
+    }
+  }
+
+  static async addCard(workspaceId: string, input: AddCardInput, userId?: string): Promise<PipelineCard> {
+    const stages = await this.getStages(workspaceId)
+    const stage = input.stageId ? stages.find(candidate => candidate.id === input.stageId) : stages[0]
+    if (!stage) {
+      throw new PipelineError('Stage not found', 404)
+    }
+
+    const snapshot = await this.loadSnapshot(workspaceId, input.subjectType, input.subjectId)
+    const now = new Date().toISOString()
+
+    const { data, error } = await getClient()
+      .from('pipeline_cards')
+      .insert({
+        workspace_id: workspaceId,
+        stage_id: stage.id,
+        position: await this.endOfStage(workspaceId, stage.id),
+        subject_type: input.subjectType,
+        subject_id: input.subjectId,
+        ...snapshot,
+        stage_entered_at: now
+      })
+      .select()
+      .single()
+
+    if (error?.code === '23505') {
+      throw new PipelineError(`${snapshot.name} is already on the pipeline`, 409)
+    }
+
+    if (error) {
+      console.error('Error adding pipeline card:', error)
+      throw new Error(`Failed to add to pipeline: ${error.message}`)
+    }
+
+    await this.recordVisit(data, stage, now, userId)
+    return data
+  }
+
+  static async updateCard(workspaceId: string, cardId: string, input: UpdateCardInput): Promise<PipelineCard> {
+    if (input.ownerUserId) {
+      const members = await WorkspaceService.listMembers(workspaceId)
+      if (!members.some(member => member.user_id === input.ownerUserId)) {
+        throw new PipelineError('The owner must be a member of this workspace', 400)
+      }
+    }
+
+    const { data, error } = await getClient()
+      .from('pipeline_cards')
+      .update({
+        ...(input.ownerUserId !== undefined && { owner_user_id: input.ownerUserId }),
+        ...(input.nextAction !== undefined && { next_action: input.nextAction || null }),
+        ...(input.nextActionAt !== undefined && { next_action_at: input.nextActionAt }),
+        updated_at: new Date().toISOString()
+      })
+      .eq('workspace_id', workspaceId)
+      .eq('id', cardId)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error updating pipeline card:', error)
+      throw new Error(`Failed to update card: ${error.message}`)
+    }
+
+    if (!data) {
+      throw new PipelineError('Card not found', 404)
+    }
+
+    return data
+  }
+
+  // Moving within a stage only changes the order; moving to another stage closes the current visit and opens a new one
+  static async moveCard(workspaceId: string, cardId: string, input: MoveCardInput, userId?: string): Promise<PipelineCard> {
+    const card = await this.getCard(workspaceId, cardId)
+    const stage = (await this.getStages(workspaceId)).find(candidate => candidate.id === input.stageId)
+    if (!stage) {
+      throw new PipelineError('Stage not found', 404)
+    }
+
+    const fromStageId = card.stage_id
+    const changesStage = fromStageId !== input.stageId
+    const now = new Date().toISOString()
+    const position = input.position ?? await this.endOfStage(workspaceId, input.stageId)
+
+    const { data, error } = await getClient()
+      .from('pipeline_cards')
+      .update({
+        stage_id: input.stageId,
+        position,
+        ...(changesStage && { stage_entered_at: now }),
+        updated_at: now
+      })
+      .eq('workspace_id', workspaceId)
+      .eq('id', cardId)
+      .eq('stage_id', fromStageId)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error moving pipeline card:', error)
+      throw new Error(`Failed to move card: ${error.message}`)
+    }
+
+    // The card left its stage since it was read; a second move would open a duplicate visit
+    if (!data) {
+      throw new PipelineError('This card has already been moved - reload the board and try again', 409)
+    }
+
+    if (changesStage) {
+      const { error: closeError } = await getClient()
+        .from('pipeline_stage_visits')
+        .update({ exited_at: now })
+        .eq('card_id', cardId)
+        .is('exited_at', null)
+
+      if (closeError) {
+        console.error('Error closing pipeline stage visit:', closeError)
+        throw new Error(`Failed to record stage change: ${closeError.message}`)
+      }
+
+      await this.recordVisit(data, stage, now, userId)
+    }
+
+    return data
+  }
+
+  static async removeCard(workspaceId: string, cardId: string): Promise<void> {
+    const { error } = await getClient()
+      .from('pipeline_cards')
+      .delete()
+      .eq('workspace_id', workspaceId)
+      .eq('id', cardId)
+
+    if (error) {
+      console.error('Error removing pipeline card:', error)
+      throw new Error(`Failed to remove card: ${error.message}`)
+    }
+  }
+
+  // Every stay in a stage, oldest first
+  static async getHistory(workspaceId: string, cardId: string): Promise<PipelineStageVisit[]> {
+    await this.getCard(workspaceId, cardId)
+
+    const { data, error } = await getClient()
+      .from('pipeline_stage_visits')
+      .select('*')
+      .eq('card_id', cardId)
+      .order('entered_at', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching pipeline history:', error)
+      throw new Error(`Failed to fetch stage history: ${error.message}`)
+    }
+
+    return data || []
+  }
+
+  // Leads and connections matching the search that aren't on the board yet, best ICP score first
+  static async searchCandidates(workspaceId: string, query: string): Promise<PipelineCandidate[]> {
+    const term = query.trim().toLowerCase()
+    const { data: onBoard, error } = await getClient()
+      .from('pipeline_cards')
+      .select('subject_type, subject_id')
+      .eq('workspace_id', workspaceId)
+
+    if (error) {
+      console.error('Error fetching pipeline cards:', error)
+      throw new Error(`Failed to search candidates: ${error.message}`)
+    }
+
+    const taken = new Set((onBoard || []).map(card => `${card.subject_type}:${card.subject_id}`))
+
+    const [leads, connections] = await Promise.all([
+      getRepository(workspaceId, 'leads').then(repository => repository.list({ sort: [{ field: 'ICP Score', direction: 'desc' }] })),
+      getRepository(workspaceId, 'connections').then(repository => repository.list({ sort: [{ field: 'Full Name', direction: 'asc' }] }))
+    ])
+
+    const candidates: PipelineCandidate[] = [
+      ...leads
+        .filter(lead => lead.id && matches(term, lead.fields['Name'], lead.fields['Company'], lead.fields['Role']))
+        .map(lead => ({
+          subjectType: 'lead' as const,
+          subjectId: lead.id!,
+          name: lead.fields['Name'],
+          headline: lead.fields['Role'],
+          company: lead.fields['Company'],
+          icpScore: lead.fields['ICP Score']
+        })),
+      ...connections
+        .filter(connection => connection.id && matches(term, connection.fields['Full Name'], connection.fields['Current Company'], connection.fields['Headline']))
+        .map(connection => ({
+          subjectType: 'connection' as const,
+          subjectId: connection.id!,
+          name: connection.fields['Full Name'],
+          headline: connection.fields['Headline'] || connection.fields['Title'],
+          company: connection.fields['Current Company']
+        }))
+    ]
+
+    return candidates
+      .filter(candidate => !taken.has(`${candidate.subjectType}:${candidate.subjectId}`))
+      .sort((a, b) => (b.icpScore ?? -1) - (a.icpScore ?? -1))
+      .slice(0, CANDIDATE_LIMIT)
+  }
+
+  private static async listStages(workspaceId: string): Promise<PipelineStage[]> {
+    const { data, error } = await getClient()
+      .from('pipeline_stages')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .order('position', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching pipeline stages:', error)
+      throw new Error(`Failed to fetch pipeline stages: ${error.message}`)
+    }
+
+    return data || []
+  }
+
+  private static async getCard(workspaceId: string, cardId: string): Promise<PipelineCard> {
+    const { data, error } = await getClient()
+      .from('pipeline_cards')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .eq('id', cardId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching pipeline card:', error)
+      throw new Error(`Failed to fetch card: ${error.message}`)
+    }
+
+    if (!data) {
+      throw new PipelineError('Card not found', 404)
+    }
+
+    return data
+  }
+
+  private static async endOfStage(workspaceId: string, stageId: string): Promise<number> {
+    const { data, error } = await getClient()
+      .from('pipeline_cards')
+      .select('position')
+      .eq('workspace_id', workspaceId)
+      .eq('stage_id', stageId)
+      .order('position', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching pipeline positions:', error)
+      throw new Error(`Failed to place card: ${error.message}`)
+    }
+
+    return data ? data.position + 1 : 0
+  }
+
+  private static async recordVisit(card: PipelineCard, stage: PipelineStage, enteredAt: string, userId?: string) {
+    const { error } = await getClient()
+      .from('pipeline_stage_visits')
+      .insert({
+        workspace_id: card.workspace_id,
+        card_id: card.id,
+        stage_id: stage.id,
+        stage_name: stage.name,
+        entered_at: enteredAt,
+        moved_by: userId || null
+      })
+
+    if (error) {
+      console.error('Error recording pipeline stage visit:', error)
+      throw new Error(`Failed to record stage change: ${error.message}`)
+    }
+  }
+
+  private static async loadSnapshot(workspaceId: string, subjectType: PipelineSubjectType, subjectId: string): Promise<CardSnapshot> {
+    if (subjectType === 'lead') {
+      const lead = await (await getRepository(workspaceId, 'leads')).get(subjectId)
+      if (!lead) {
+        throw new PipelineError('Lead not found', 404)
+      }
+
+      return {
+        name: lead.fields['Name'],
+        headline: lead.fields['Role'] || null,
+        company: lead.fields['Company'] || null,
+        profile_url: lead.fields['Profile URL'],
+        profile_picture: null,
+        icp_score: lead.fields['ICP Score'] ?? null
+      }
+    }
+
+    if (subjectType === 'connection') {
+      const connection = await (await getRepository(workspaceId, 'connections')).get(subjectId)
+      if (!connection) {
+        throw new PipelineError('Connection not found', 404)
+      }
+
+      const username = connection.fields['Username']
+      return {
+        name: connection.fields['Full Name'],
+        headline: connection.fields['Headline'] || connection.fields['Title'] || null,
+        company: connection.fields['Current Company'] || null,
+        profile_url: username ? `https://linkedin.com/in/${username}` : null,
+        profile_picture: connection.fields['Profile Picture URL']?.[0]?.url || null,
+        icp_score: null
+      }
+    }
+
+    // Profiles are the ICP-scored commenters cached in linkedin_profiles, keyed by profile URL
+    if (!supabaseLinkedIn) {
+      throw new PipelineError('LinkedIn profiles are not available', 404)
+    }
+
+    const profile = await supabaseLinkedIn.forWorkspace(workspaceId).getProfileByUrl(subjectId)
+    if (!profile) {
+      throw new PipelineError('Profile not found', 404)
+    }
+
+    return {
+      name: profile.name,
+      headline: profile.headline || null,
+      company: profile.current_company && profile.current_company !== 'Unknown' ? profile.current_company : null,
+      profile_url: profile.profile_url,
+      profile_picture: profile.profile_picture || null,
+      icp_score: profile.icp_score ?? null
+    }
+  }
+}
+
+export default LeadPipelineService
@@ -14,7 +14,10 @@ export const LinkedInCommentSchema = z.object({
   comment: z.string().min(1, 'Comment is required'),
   postUrl: z.string().url('Valid LinkedIn post URL required'),
   authorId: z.string(),
-  connectionId: z.string(),
+  connectionId: z.string().optional(), // Set when commenting on a connection's post
+  // Set when replying to a comment rather than commenting on the post
+  replyToCommentId: z.string().optional(),
+  replyToCommentUrl: z.string().url().optional(),
 })
 
 export type LinkedInPostPayload = z.infer<typeof LinkedInPostSchema>
@@ -59,7 +62,8 @@ export class LindyClient {
     }
   }
 
-  async commentOnLinkedIn(payload: LinkedInCommentPayload): Promise<{ success: boolean; jobId?: string; error?: string }> {
+  // rejected is set when Lindy refused the request, so nothing was posted; other failures may have gone out
+  async commentOnLinkedIn(payload: LinkedInCommentPayload): Promise<{ success: boolean; jobId?: string; error?: string; rejected?: boolean }> {
     try {
       // Validate payload
       const validatedPayload = LinkedInCommentSchema.parse(payload)
@@ -75,7 +79,9 @@ export class LindyClient {
 
       if (!response.ok) {
         const error = await response.text()
-        return { success: false, error }
+        // 4xx means Lindy refused the request; a timeout, a conflict or a server error may mean it went out
+        const rejected = response.status >= 400 && response.status < 500 && response.status !== 408 && response.status !== 409
+        return { success: false, error, rejected }
       }
 
       const result = await response.json()
@@ -83,7 +89,8 @@ export class LindyClient {
     } catch (error) {
       return { 
         success: false, 
-        error: error instanceof Error ? error.message : 'Unknown error' 
+        error: error instanceof Error ? error.message : 'Unknown error',
+        rejected: error instanceof z.ZodError
       }
     }
   }
@@ -115,10 +122,9 @@ export class LindyClient {
 }
 
 // Webhook response handlers
-export const handleLindyWebhook = async (request: Request): Promise<Response> => {
+// Takes the body once the route has verified the delivery (see webhook-verification)
+export const handleLindyWebhook = async (body: any): Promise<Response> => {
   try {
-    const body = await request.json()
-    
     // Handle different webhook types
     switch (body.type) {
       case 'linkedin.post.completed':
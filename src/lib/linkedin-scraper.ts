@@ -1,4 +1,6 @@
 // LinkedIn scraper service using RapidAPI
+import { UsageLedgerService, type UsageTags } from './usage-ledger';
+
 export interface LinkedInProfile {
   success: boolean;
   message: string;
@@ -195,7 +197,8 @@ export class LinkedInScraperService {
     };
   }
 
-  async getProfile(username: string): Promise<LinkedInProfile> {
+  // `usage` tags the metered call, e.g. with the workspace it was made for
+  async getProfile(username: string, usage?: UsageTags): Promise<LinkedInProfile> {
     try {
       const url = `${this.baseUrl}/profile/detail?username=${encodeURIComponent(username)}`;
       
@@ -205,6 +208,7 @@ export class LinkedInScraperService {
         method: 'GET',
         headers: this.getHeaders(),
       });
+      await UsageLedgerService.recordServiceCall('rapidapi', 'profile_detail', { route: 'linkedin-scraper', ...usage });
 
       if (!response.ok) {
         const errorText = await response.text();
@@ -225,7 +229,7 @@ export class LinkedInScraperService {
     }
   }
 
-  async getPosts(username: string, pageNumber: number = 1): Promise<LinkedInPost> {
+  async getPosts(username: string, pageNumber: number = 1, usage?: UsageTags): Promise<LinkedInPost> {
     try {
       const url = `${this.baseUrl}/profile/posts?username=${encodeURIComponent(username)}&page_number=${pageNumber}`;
       
@@ -235,6 +239,7 @@ export class LinkedInScraperService {
         method: 'GET',
         headers: this.getHeaders(),
       });
+      await UsageLedgerService.recordServiceCall('rapidapi', 'profile_posts', { route: 'linkedin-scraper', ...usage });
 
       if (!response.ok) {
         const errorText = await response.text();
@@ -255,7 +260,7 @@ export class LinkedInScraperService {
     }
   }
 
-  async getAllPosts(username: string, maxPosts: number = 100): Promise<LinkedInPost['data']['posts']> {
+  async getAllPosts(username: string, maxPosts: number = 100, usage?: UsageTags): Promise<LinkedInPost['data']['posts']> {
     try {
       console.log(`Fetching up to ${maxPosts} LinkedIn posts for username: ${username}`);
       
@@ -264,7 +269,7 @@ export class LinkedInScraperService {
       let hasMore = true;
       
       while (hasMore && allPosts.length < maxPosts) {
-        const postsResponse = await this.getPosts(username, currentPage);
+        const postsResponse = await this.getPosts(username, currentPage, usage);
         
         if (postsResponse.data.posts && postsResponse.data.posts.length > 0) {
           const postsToAdd = postsResponse.data.posts.slice(0, maxPosts - allPosts.length);
@@ -292,7 +297,7 @@ export class LinkedInScraperService {
     }
   }
 
-  async getPostComments(postUrl: string, pageNumber: number = 1, sortOrder: string = 'Most relevant'): Promise<LinkedInPostComments> {
+  async getPostComments(postUrl: string, pageNumber: number = 1, sortOrder: string = 'Most relevant', usage?: UsageTags): Promise<LinkedInPostComments> {
     try {
       const encodedPostUrl = encodeURIComponent(postUrl);
       const encodedSortOrder = encodeURIComponent(sortOrder);
@@ -304,6 +309,7 @@ export class LinkedInScraperService {
         method: 'GET',
         headers: this.getHeaders(),
       });
+      await UsageLedgerService.recordServiceCall('rapidapi', 'post_comments', { route: 'linkedin-scraper', ...usage });
 
       if (!response.ok) {
         const errorText = await response.text();
@@ -0,0 +1,268 @@
+import { OpenAI } from 'openai'
+
+export type LLMProviderName = 'openai' | 'anthropic' | 'stub'
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export interface LLMCompletionRequest {
+  messages: LLMMessage[]
+  model?: string
+  maxTokens?: number
+  temperature?: number
+  json?: boolean
+}
+
+export interface LLMUsage {
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+}
+
+export interface LLMCompletion {
+  content: string
+  model: string
+  provider: LLMProviderName
+  usage: LLMUsage
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName
+  readonly model: string
+  complete(request: LLMCompletionRequest): Promise<LLMCompletion>
+  // data is null when the response could not be parsed; the raw completion is always returned
+  completeJSON<T = any>(request: Omit<LLMCompletionRequest, 'json'>): Promise<{ data: T | null; completion: LLMCompletion }>
+}
+
+export class LLMProviderError extends Error {
+  constructor(
+    public readonly provider: LLMProviderName,
+    message: string,
+    public readonly status?: number
+  ) {
+    super(message)
+    this.name = 'LLMProviderError'
+  }
+}
+
+const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  openai: 'gpt-4-turbo-preview',
+  anthropic: 'claude-3-5-sonnet-latest',
+  stub: 'stub-fixtures'
+}
+
+// Parse a model response that should be JSON, tolerating code fences and surrounding prose
+export const parseJSONContent = <T = any>(content: string): T | null => {
+  const attempts = [
+    content,
+    content.match(/```(?:json)?\s*([\s\S]*?)\s*```/)?.[1],
+    content.match(/(\{[\s\S]*\})/)?.[1]
+  ]
+
+  for (const attempt of attempts) {
+    if (!attempt) continue
+
+    try {
+      return JSON.parse(attempt.trim())
+    } catch {
+      continue
+    }
+  }
+
+  return null
+}
+
+abstract class BaseLLMProvider implements LLMProvider {
+  abstract readonly name: LLMProviderName
+
+  constructor(public readonly model: string) {}
+
+  abstract complete(request: LLMCompletionRequest): Promise<LLMCompletion>
+
+  async completeJSON<T = any>(request: Omit<LLMCompletionRequest, 'json'>) {
+    const completion = await this.complete({ ...request, json: true })
+    return { data: parseJSONContent<T>(completion.content), completion }
+  }
+}
+
+export class OpenAIProvider extends BaseLLMProvider {
+  readonly name = 'openai' as const
+  private client: OpenAI
+
+  constructor(apiKey: string, model: string) {
+    super(model)
+    this.client = new OpenAI({ apiKey })
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const model = request.model || this.model
+
+    try {
+      const completion = await this.client.chat.completions.create({
+        model,
+        messages: request.messages,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        ...(request.json && { response_format: { type: 'json_object' as const } })
+      })
+
+      return {
+        content: completion.choices[0]?.message?.content || '',
+        model: completion.model || model,
+        provider: this.name,
+        usage: {
+          promptTokens: completion.usage?.prompt_tokens || 0,
+          completionTokens: completion.usage?.completion_tokens || 0,
+          totalTokens: completion.usage?.total_tokens || 0
+        }
+      }
+    } catch (error) {
+      if (error instanceof OpenAI.APIError) {
+        throw new LLMProviderError(this.name, error.message, error.status)
+      }
+      throw error
+    }
+  }
+}
+
+// Talks to any endpoint that implements the Anthropic Messages API
+export class AnthropicProvider extends BaseLLMProvider {
+  readonly name = 'anthropic' as const
+
+  constructor(private apiKey: string, model: string, private baseUrl: string) {
+    super(model)
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const model = request.model || this.model
+    const system = request.messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n')
+    const messages: Array<{ role: 'user' | 'assistant'; content: string }> = []
+
+    // Consecutive turns from the same role are merged
+    for (const message of request.messages) {
+      if (message.role === 'system') continue
+      const previous = messages[messages.length - 1]
+      if (previous && previous.role === message.role) {
+        previous.content = `${previous.content}\n\n${message.content}`
+      } else {
+        messages.push({ role: message.role, content: message.content })
+      }
+    }
+
+    // No native JSON mode: instruct, then prefill the assistant turn with "{"
+    const prefill = request.json && messages[messages.length - 1]?.role === 'user' ? '{' : ''
+    const jsonInstruction = request.json
+      ? '\n\nRespond with a single valid JSON object only. No markdown, no code blocks, no commentary.'
+      : ''
+
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': '2023-06-01'
+      },
+      body: JSON.stringify({
+        model,
+        max_tokens: request.maxTokens || 1024,
+        temperature: request.temperature,
+        ...((system || jsonInstruction) && { system: `${system}${jsonInstruction}`.trim() }),
+        messages: prefill ? [...messages, { role: 'assistant', content: prefill }] : messages
+      })
+    })
+
+    if (!response.ok) {
+      throw new LLMProviderError(this.name, `Anthropic request failed: ${response.status} ${await response.text()}`, response.status)
+    }
+
+    const data = await response.json()
+    const text = (data.content || [])
+      .filter((block: { type: string }) => block.type === 'text')
+      .map((block: { text?: string }) => block.text || '')
+      .join('')
+
+    const promptTokens = data.usage?.input_tokens || 0
+    const completionTokens = data.usage?.output_tokens || 0
+
+    return {
+      content: `${prefill}${text}`,
+      model: data.model || model,
+      provider: this.name,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }
+    }
+  }
+}
+
+const STUB_POST = `Most founders won't admit this:
+
+They're exhausted. Not from the work - from carrying it alone.
+
+The key? Treat your own energy like a business asset - because it is.
+
+🔔 Follow me for more on self-leadership`
+
+// Deterministic, network-free provider for local development and tests
+export class StubLLMProvider extends BaseLLMProvider {
+  readonly name = 'stub' as const
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const prompt = request.messages.map(m => m.content).join('\n')
+    let content = STUB_POST
+
+    if (request.json && prompt.includes('"comments"')) {
+      content = JSON.stringify({
+        comments: [
+          { text: 'This resonates. What was the moment you realised it had to change?', approach: 'Curious question' },
+          { text: 'I\'ve seen the same pattern with the CEOs I coach - the breakthrough is rarely strategy.', approach: 'Shared experience' },
+          { text: 'Such an important point about leading yourself first.', approach: 'Supportive' }
+        ]
+      })
+    } else if (request.json && prompt.includes('"variations"')) {
+      content = JSON.stringify({
+        variations: [1, 2, 3].map(variant => ({
+          content: STUB_POST,
+          hashtags: [],
+          estimated_voice_score: 80,
+          approach: `Stub variation ${variant}`
+        }))
+      })
+    }
+
+    const promptTokens = Math.ceil(prompt.length / 4)
+    const completionTokens = Math.ceil(content.length / 4)
+
+    return {
+      content,
+      model: request.model || this.model,
+      provider: this.name,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }
+    }
+  }
+}
+
+// Initialize the provider only when needed to avoid build-time errors
+export const createLLMProvider = (): LLMProvider => {
+  const provider = (process.env.LLM_PROVIDER || 'openai') as LLMProviderName
+  const model = process.env.LLM_MODEL || DEFAULT_MODELS[provider] || DEFAULT_MODELS.openai
+
+  switch (provider) {
+    case 'stub':
+      return new StubLLMProvider(model)
+    case 'anthropic':
+      if (!process.env.ANTHROPIC_API_KEY) {
+        throw new Error('ANTHROPIC_API_KEY environment variable is required')
+      }
+      return new AnthropicProvider(
+        process.env.ANTHROPIC_API_KEY,
+        model,
+        process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com'
+      )
+    default:
+      if (!process.env.OPENAI_API_KEY) {
+        throw new Error('OPENAI_API_KEY environment variable is required')
+      }
+      return new OpenAIProvider(process.env.OPENAI_API_KEY, model)
+  }
+}
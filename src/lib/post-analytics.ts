@@ -0,0 +1,447 @@
+import { z } from 'zod'
+import { supabase, supabaseAdmin } from './supabase'
+
+export type AnalyticsInterval = 'day' | 'week'
+
+export interface AnalyticsRange {
+  start: Date
+  end: Date // Exclusive
+}
+
+export interface EngagementTotals {
+  posts: number
+  reactions: number
+  comments: number
+  reposts: number
+  engagements: number
+  // LinkedIn doesn't expose impressions for synced posts, so the rate is engagements per post
+  engagementRate: number
+}
+
+export interface AnalyticsSummary {
+  range: { start: string; end: string }
+  previousRange: { start: string; end: string }
+  current: EngagementTotals
+  previous: EngagementTotals
+  // Percentage change from the previous period; null when the previous period was zero
+  change: Record<keyof EngagementTotals, number | null>
+}
+
+export interface EngagementPoint {
+  date: string // Start of the bucket, YYYY-MM-DD (UTC)
+  reactions: number
+  comments: number
+  reposts: number
+}
+
+export interface PostTypePerformance {
+  type: string
+  posts: number
+  engagements: number
+  engagementRate: number
+}
+
+export interface HookPerformance {
+  hook: string
+  style: HookStyle
+  engagements: number
+  postedAt: string
+  url: string
+}
+
+export type HookStyle = 'question' | 'number' | 'personal' | 'statement'
+
+export interface TopPost {
+  urn: string
+  url: string
+  text: string
+  postedAt: string
+  type: string
+  reactions: number
+  comments: number
+  reposts: number
+  engagements: number
+  // Compared with the average post in the previous period; null when that period had no posts
+  vsPreviousAverage: number | null
+}
+
+// Query string shared by the analytics routes; end defaults to now and start to 30 days before end
+export const AnalyticsQuerySchema = z.object({
+  start: z.string().datetime().optional(),
+  end: z.string().datetime().optional(),
+  username: z.string().min(1).optional(),
+  interval: z.enum(['day', 'week']).optional(),
+  limit: z.coerce.number().int().min(1).max(50).optional()
+}).refine(query => !query.start || !query.end || new Date(query.start) < new Date(query.end), 'start must be before end')
+
+interface PostRow {
+  urn: string
+  url: string
+  text: string
+  posted_at: string
+  post_type: string
+  document_url?: string
+  total_reactions: number
+  comments_count: number
+  reposts_count: number
+  last_synced_at: string
+}
+
+export interface SnapshotRow {
+  post_urn: string
+  total_reactions: number
+  comments_count: number
+  reposts_count: number
+  recorded_at: string
+}
+
+interface Counts {
+  reactions: number
+  comments: number
+  reposts: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const DEFAULT_RANGE_DAYS = 30
+// Posts older than this before the range start are assumed to have stopped collecting engagement
+const ENGAGEMENT_TAIL_DAYS = 90
+const PAGE_SIZE = 1000
+const URN_BATCH_SIZE = 100
+const HOOK_LENGTH = 140
+
+const POST_COLUMNS = 'urn, url, text, posted_at, post_type, document_url, total_reactions, comments_count, reposts_count, last_synced_at'
+
+const getClient = () => supabaseAdmin || supabase
+
+const engagementsOf = (counts: Counts) => counts.reactions + counts.comments + counts.reposts
+
+const percentChange = (current: number, previous: number): number | null =>
+  previous === 0 ? null : Math.round(((current - previous) / previous) * 1000) / 10
+
+const round = (value: number) => Math.round(value * 10) / 10
+
+// Documents and carousels behave differently from text posts, whatever LinkedIn calls the post
+const postFormat = (post: PostRow) => post.document_url ? 'document' : post.post_type || 'regular'
+
+// First line of the post, which is all LinkedIn shows before "see more"
+export const extractHook = (text: string): string => {
+  const firstLine = (text || '').split('\n').map(line => line.trim()).find(Boolean) || ''
+  return firstLine.length > HOOK_LENGTH ? `${firstLine.slice(0, HOOK_LENGTH).trimEnd()}...` : firstLine
+}
+
+export const classifyHook = (hook: string): HookStyle => {
+  if (hook.includes('?')) return 'question'
+  if (/^\d|\b\d+\s+(ways|lessons|things|mistakes|reasons|tips|questions)\b/i.test(hook)) return 'number'
+  if (/^(i|i'm|i've|my|when i|last week i|yesterday i)\b/i.test(hook)) return 'personal'
+  return 'statement'
+}
+
+const bucketStart = (date: Date, interval: AnalyticsInterval): string => {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+  if (interval === 'week') {
+    // ISO weeks start on Monday
+    day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7))
+  }
+  return day.toISOString().slice(0, 10)
+}
+
+export class PostAnalyticsService {
+  static resolveRange(query: { start?: string; end?: string }): AnalyticsRange {
+    const end = query.end ? new Date(query.end) : new Date()
+    const start = query.start ? new Date(query.start) : new Date(end.getTime() - DEFAULT_RANGE_DAYS * DAY_MS)
+    return { start, end }
+  }
+
+  // The same length of time immediately before the range
+  static previousRange(range: AnalyticsRange): AnalyticsRange {
+    const length = range.end.getTime() - range.start.getTime()
+    return { start: new Date(range.start.getTime() - length), end: range.start }
+  }
+
+  // Days for short ranges, weeks once a daily chart would be too dense
+  static defaultInterval(range: AnalyticsRange): AnalyticsInterval {
+    return range.end.getTime() - range.start.getTime() > 62 * DAY_MS ? 'week' : 'day'
+  }
+
+  // Totals for posts published in the range, against the period before it
+  static async getSummary(workspaceId: string, range: AnalyticsRange, username?: string): Promise<AnalyticsSummary> {
+    const previousRange = this.previousRange(range)
+    const [currentPosts, previousPosts] = await Promise.all([
+      this.getPostsWithCounts(workspaceId, range, username),
+      this.getPostsWithCounts(workspaceId, previousRange, username)
+    ])
+
+    const current = this.totals(currentPosts.map(({ counts }) => counts))
+    const previous = this.totals(previousPosts.map(({ counts }) => counts))
+
+    const change = Object.fromEntries(
+      (Object.keys(current) as Array<keyof EngagementTotals>).map(key => [key, percentChange(current[key], previous[key])])
+    ) as AnalyticsSummary['change']
+
+    return {
+      range: { start: range.start.toISOString(), end: range.end.toISOString() },
+      previousRange: { start: previousRange.start.toISOString(), end: previousRange.end.toISOString() },
+      current,
+      previous,
+      change
+    }
+  }
+
+  // Engagement received in each bucket, from the growth between engagement snapshots.
+  // Counts a post had before its first snapshot are credited to the snapshot's bucket.
+  static async getTimeseries(
+    workspaceId: string,
+    range: AnalyticsRange,
+    interval: AnalyticsInterval = this.defaultInterval(range),
+    username?: string
+  ): Promise<EngagementPoint[]> {
+    const postedSince = new Date(range.start.getTime() - ENGAGEMENT_TAIL_DAYS * DAY_MS)
+    const posts = await this.getPosts(workspaceId, { start: postedSince, end: range.end }, username)
+    const history = await this.getHistory(posts.map(post => post.urn), range.end)
+
+    const buckets = new Map<string, EngagementPoint>()
+    for (let at = range.start.getTime(); at < range.end.getTime(); at += DAY_MS) {
+      const date = bucketStart(new Date(at), interval)
+      if (!buckets.has(date)) {
+        buckets.set(date, { date, reactions: 0, comments: 0, reposts: 0 })
+      }
+    }
+
+    for (const post of posts) {
+      const points: Array<Counts & { at: Date }> = [
+        { at: new Date(post.posted_at), reactions: 0, comments: 0, reposts: 0 },
+        ...(history.get(post.urn) || []).map(snapshot => ({
+          at: new Date(snapshot.recorded_at),
+          reactions: snapshot.total_reactions || 0,
+          comments: snapshot.comments_count || 0,
+          reposts: snapshot.reposts_count || 0
+        }))
+      ]
+
+      // The synced counts are the newest reading unless a snapshot came later
+      const synced = new Date(post.last_synced_at || post.posted_at)
+      if (synced > points[points.length - 1].at && synced < range.end) {
+        points.push({
+          at: synced,
+          reactions: post.total_reactions || 0,
+          comments: post.comments_count || 0,
+          reposts: post.reposts_count || 0
+        })
+      }
+
+      for (let index = 1; index < points.length; index++) {
+        const point = points[index]
+        if (point.at < range.start || point.at >= range.end) continue
+
+        const bucket = buckets.get(bucketStart(point.at, interval))
+        if (!bucket) continue
+
+        // Highest reading so far, so a dip in LinkedIn's counts isn't counted twice when it recovers
+        const before = points.slice(0, index).reduce((max, earlier) => ({
+          reactions: Math.max(max.reactions, earlier.reactions),
+          comments: Math.max(max.comments, earlier.comments),
+          reposts: Math.max(max.reposts, earlier.reposts)
+        }), { reactions: 0, comments: 0, reposts: 0 })
+
+        bucket.reactions += Math.max(0, point.reactions - before.reactions)
+        bucket.comments += Math.max(0, point.comments - before.comments)
+        bucket.reposts += Math.max(0, point.reposts - before.reposts)
+      }
+    }
+
+    return Array.from(buckets.values()).sort((a, b) => a.date.localeCompare(b.date))
+  }
+
+  static async getPostTypePerformance(workspaceId: string, range: AnalyticsRange, username?: string): Promise<PostTypePerformance[]> {
+    const posts = await this.getPostsWithCounts(workspaceId, range, username)
+    const byType = new Map<string, { posts: number; engagements: number }>()
+
+    for (const { post, counts } of posts) {
+      const type = postFormat(post)
+      const entry = byType.get(type) || { posts: 0, engagements: 0 }
+      entry.posts++
+      entry.engagements += engagementsOf(counts)
+      byType.set(type, entry)
+    }
+
+    return Array.from(byType.entries())
+      .map(([type, entry]) => ({
+        type,
+        posts: entry.posts,
+        engagements: entry.engagements,
+        engagementRate: round(entry.engagements / entry.posts)
+      }))
+      .sort((a, b) => b.engagementRate - a.engagementRate)
+  }
+
+  // Opening lines of the best-performing posts, plus how each style of hook does on average
+  static async getHooks(workspaceId: string, range: AnalyticsRange, limit: number = 5, username?: string): Promise<{
+    hooks: HookPerformance[]
+    styles: Array<{ style: HookStyle; posts: number; engagementRate: number }>
+  }> {
+    const posts = await this.getPostsWithCounts(workspaceId, range, username)
+
+    const scored = posts
+      .map(({ post, counts }) => {
+        const hook = extractHook(post.text)
+        return { hook, style: classifyHook(hook), engagements: engagementsOf(counts), postedAt: post.posted_at, url: post.url }
+      })
+      .filter(entry => entry.hook)
+
+    const styles = new Map<HookStyle, { posts: number; engagements: number }>()
+    for (const entry of scored) {
+      const style = styles.get(entry.style) || { posts: 0, engagements: 0 }
+      style.posts++
+      style.engagements += entry.engagements
+      styles.set(entry.style, style)
+    }
+
+    return {
+      hooks: scored.sort((a, b) => b.engagements - a.engagements).slice(0, limit),
+      styles: Array.from(styles.entries())
+        .map(([style, entry]) => ({ style, posts: entry.posts, engagementRate: round(entry.engagements / entry.posts) }))
+        .sort((a, b) => b.engagementRate - a.engagementRate)
+    }
+  }
+
+  static async getTopPosts(workspaceId: string, range: AnalyticsRange, limit: number = 5, username?: string): Promise<{
+    posts: TopPost[]
+    previousAverage: number
+  }> {
+    const [currentPosts, previousPosts] = await Promise.all([
+      this.getPostsWithCounts(workspaceId, range, username),
+      this.getPostsWithCounts(workspaceId, this.previousRange(range), username)
+    ])
+
+    const previousAverage = previousPosts.length > 0
+      ? previousPosts.reduce((sum, { counts }) => sum + engagementsOf(counts), 0) / previousPosts.length
+      : 0
+
+    const posts = currentPosts
+      .map(({ post, counts }) => ({
+        urn: post.urn,
+        url: post.url,
+        text: post.text || '',
+        postedAt: post.posted_at,
+        type: postFormat(post),
+        ...counts,
+        engagements: engagementsOf(counts),
+        vsPreviousAverage: previousPosts.length > 0 ? percentChange(engagementsOf(counts), previousAverage) : null
+      }))
+      .sort((a, b) => b.engagements - a.engagements)
+      .slice(0, limit)
+
+    return { posts, previousAverage: round(previousAverage) }
+  }
+
+  private static totals(counts: Counts[]): EngagementTotals {
+    const reactions = counts.reduce((sum, entry) => sum + entry.reactions, 0)
+    const comments = counts.reduce((sum, entry) => sum + entry.comments, 0)
+    const reposts = counts.reduce((sum, entry) => sum + entry.reposts, 0)
+    const engagements = reactions + comments + reposts
+
+    return {
+      posts: counts.length,
+      reactions,
+      comments,
+      reposts,
+      engagements,
+      engagementRate: counts.length > 0 ? round(engagements / counts.length) : 0
+    }
+  }
+
+  // Posts published in the range with their latest counts: the newest snapshot, or the synced counts if higher
+  private static async getPostsWithCounts(
+    workspaceId: string,
+    range: AnalyticsRange,
+    username?: string
+  ): Promise<Array<{ post: PostRow; counts: Counts }>> {
+    const posts = await this.getPosts(workspaceId, range, username)
+    const history = await this.getHistory(posts.map(post => post.urn))
+
+    return posts.map(post => {
+      const snapshots = history.get(post.urn) || []
+      const latest = snapshots[snapshots.length - 1]
+      return {
+        post,
+        counts: {
+          reactions: Math.max(post.total_reactions || 0, latest?.total_reactions || 0),
+          comments: Math.max(post.comments_count || 0, latest?.comments_count || 0),
+          reposts: Math.max(post.reposts_count || 0, latest?.reposts_count || 0)
+        }
+      }
+    })
+  }
+
+  private static async getPosts(workspaceId: string, range: AnalyticsRange, username?: string): Promise<PostRow[]> {
+    const client = getClient()
+    const posts: PostRow[] = []
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      let query = client
+        .from('linkedin_posts')
+        .select(POST_COLUMNS)
+        .eq('workspace_id', workspaceId)
+        .gte('posted_at', range.start.toISOString())
+        .lt('posted_at', range.end.toISOString())
+
+      if (username) {
+        query = query.eq('author_username', username)
+      }
+
+      const { data, error } = await query
+        .order('posted_at', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1)
+
+      if (error) {
+        console.error('Error fetching posts for analytics:', error)
+        throw new Error(`Failed to fetch posts: ${error.message}`)
+      }
+
+      posts.push(...((data || []) as PostRow[]))
+      if (!data || data.length < PAGE_SIZE) break
+    }
+
+    return posts
+  }
+
+  // Snapshots per post, oldest first
+  static async getHistory(urns: string[], before?: Date): Promise<Map<string, SnapshotRow[]>> {
+    const client = getClient()
+    const history = new Map<string, SnapshotRow[]>()
+
+    for (let index = 0; index < urns.length; index += URN_BATCH_SIZE) {
+      for (let from = 0; ; from += PAGE_SIZE) {
+        let query = client
+          .from('post_engagement_history')
+          .select('post_urn, total_reactions, comments_count, reposts_count, recorded_at')
+          .in('post_urn', urns.slice(index, index + URN_BATCH_SIZE))
+
+        if (before) {
+          query = query.lt('recorded_at', before.toISOString())
+        }
+
+        const { data, error } = await query
+          .order('recorded_at', { ascending: true })
+          .range(from, from + PAGE_SIZE - 1)
+
+        if (error) {
+          console.error('Error fetching engagement history for analytics:', error)
+          throw new Error(`Failed to fetch engagement history: ${error.message}`)
+        }
+
+        for (const snapshot of (data || []) as SnapshotRow[]) {
+          const snapshots = history.get(snapshot.post_urn) || []
+          snapshots.push(snapshot)
+          history.set(snapshot.post_urn, snapshots)
+        }
+
+        if (!data || data.length < PAGE_SIZE) break
+      }
+    }
+
+    return history
+  }
+}
+
+export default PostAnalyticsService
@@ -0,0 +1,166 @@
+import { z } from 'zod'
+import { supabase, supabaseAdmin } from './supabase'
+import { QueueService } from './queue'
+import { WorkspaceService } from './workspaces'
+
+export type SyncScope = 'own' | 'connections' | 'all'
+
+export type SyncCursorStatus = 'idle' | 'queued' | 'running' | 'partial' | 'completed' | 'failed'
+
+// Row in linkedin_sync_cursors, written by the worker as it pages through a profile's feed
+export interface SyncCursor {
+  id: string
+  workspace_id: string
+  username: string
+  kind: 'own' | 'connection'
+  connection_id?: string | null
+  status: SyncCursorStatus
+  newest_urn?: string | null
+  resume_page?: number | null
+  pagination_token?: string | null
+  run_started_at?: string | null
+  pages_fetched: number
+  posts_synced: number
+  new_posts: number
+  last_error?: string | null
+  queued_at?: string | null
+  started_at?: string | null
+  finished_at?: string | null
+  last_completed_at?: string | null
+  updated_at: string
+}
+
+export interface SyncProfile {
+  username: string
+  kind: SyncCursor['kind']
+  connectionId?: string
+}
+
+export interface QueueSyncResult {
+  queued: SyncCursor[]
+  failed: Array<{ username: string; error: string }>
+  budgetExceeded?: boolean
+}
+
+export const PostSyncRequestSchema = z.object({
+  username: z.string().min(1).optional(),
+  scope: z.enum(['own', 'connections', 'all']).default('own')
+})
+
+const getClient = () => supabaseAdmin || supabase
+
+export class PostSyncService {
+  // Own posts for the given profile (the workspace's own by default), plus every connection with a LinkedIn username
+  static async getProfiles(workspaceId: string, scope: SyncScope, username?: string): Promise<SyncProfile[]> {
+    const profiles: SyncProfile[] = []
+    const ownUsername = username || await WorkspaceService.getOwnUsername(workspaceId)
+
+    if (scope !== 'connections' && ownUsername) {
+      profiles.push({ username: ownUsername, kind: 'own' })
+    }
+
+    if (scope !== 'own') {
+      const { data, error } = await getClient()
+        .from('linkedin_connections')
+        .select('id, username')
+        .eq('workspace_id', workspaceId)
+        .not('username', 'is', null)
+        .neq('username', '')
+
+      if (error) {
+        console.error('Error fetching connections for post sync:', error)
+        throw new Error(`Failed to fetch connections: ${error.message}`)
+      }
+
+      for (const connection of data || []) {
+        if (connection.username === ownUsername) continue
+        profiles.push({ username: connection.username, kind: 'connection', connectionId: connection.id })
+      }
+    }
+
+    return profiles
+  }
+
+  // Records each profile's cursor as queued and hands the sync to the worker
+  static async queueProfiles(workspaceId: string, profiles: SyncProfile[]): Promise<QueueSyncResult> {
+    const result: QueueSyncResult = { queued: [], failed: [] }
+    if (profiles.length === 0) return result
+
+    const client = getClient()
+    const existing = await this.getProgress(workspaceId)
+    const requested = new Set(profiles.map(profile => profile.username))
+    // A running profile keeps its cursor as is; the worker is reporting progress on it
+    const running = existing.filter(cursor => cursor.status === 'running' && requested.has(cursor.username))
+    const runningUsernames = new Set(running.map(cursor => cursor.username))
+    const now = new Date().toISOString()
+    const cursors = [...running]
+
+    const toQueue = profiles.filter(profile => !runningUsernames.has(profile.username))
+    if (toQueue.length > 0) {
+      const { data, error } = await client
+        .from('linkedin_sync_cursors')
+        .upsert(toQueue.map(profile => ({
+          workspace_id: workspaceId,
+          username: profile.username,
+          kind: profile.kind,
+          connection_id: profile.connectionId || null,
+          status: 'queued',
+          queued_at: now,
+          updated_at: now
+        })), { onConflict: 'workspace_id,username' })
+        .select('*')
+
+      if (error) {
+        console.error('Error saving sync cursors:', error)
+        throw new Error(`Failed to save sync cursors: ${error.message}`)
+      }
+
+      cursors.push(...((data || []) as SyncCursor[]))
+    }
+
+    for (const cursor of cursors) {
+      const queued = await QueueService.addPostSyncJob({ workspaceId, username: cursor.username })
+
+      if (queued.success) {
+        result.queued.push(cursor)
+        continue
+      }
+
+      const message = queued.error || 'Failed to queue post sync'
+      result.failed.push({ username: cursor.username, error: message })
+      await client
+        .from('linkedin_sync_cursors')
+        .update({ status: 'failed', last_error: message, updated_at: new Date().toISOString() })
+        .eq('id', cursor.id)
+
+      if ('budgetExceeded' in queued && queued.budgetExceeded) {
+        result.budgetExceeded = true
+        break
+      }
+    }
+
+    return result
+  }
+
+  static async getProgress(workspaceId: string, username?: string): Promise<SyncCursor[]> {
+    let query = getClient()
+      .from('linkedin_sync_cursors')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+
+    if (username) {
+      query = query.eq('username', username)
+    }
+
+    const { data, error } = await query.order('kind', { ascending: false }).order('username', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching sync progress:', error)
+      throw new Error(`Failed to fetch sync progress: ${error.message}`)
+    }
+
+    return (data || []) as SyncCursor[]
+  }
+}
+
+export default PostSyncService
@@ -0,0 +1,189 @@
+import { z } from 'zod'
+import { supabase, supabaseAdmin } from './supabase'
+import { PostAnalyticsService, type SnapshotRow } from './post-analytics'
+
+export type VelocityCheckpoint = 'firstHour' | 'firstDay' | 'firstWeek'
+
+// Reactions are read this many hours after the post went out
+export const VELOCITY_CHECKPOINTS: Record<VelocityCheckpoint, number> = {
+  firstHour: 1,
+  firstDay: 24,
+  firstWeek: 168
+}
+
+export type VelocityMetrics = Record<VelocityCheckpoint, number | null>
+
+export interface GrowthPoint {
+  recordedAt: string
+  hoursSincePost: number
+  reactions: number
+  comments: number
+  reposts: number
+}
+
+export type PerformanceFlag = 'over' | 'under' | 'on_track' | 'insufficient_data'
+
+export interface PostVelocity {
+  urn: string
+  postedAt: string
+  growth: GrowthPoint[]
+  velocity: VelocityMetrics
+  baseline: {
+    username: string
+    posts: number
+    // Median of the baseline posts at each checkpoint, and how many posts had a reading there
+    velocity: VelocityMetrics
+    samples: Record<VelocityCheckpoint, number>
+  }
+  // Judged at the latest checkpoint both the post and the baseline have reached
+  performance: {
+    flag: PerformanceFlag
+    checkpoint?: VelocityCheckpoint
+    ratio?: number
+  }
+}
+
+export const VelocityQuerySchema = z.object({
+  urn: z.string().min(1),
+  baseline: z.string().min(1).optional()
+})
+
+const DEFAULT_BASELINE_USERNAME = 'andrewtallents'
+const BASELINE_POSTS = 20
+const MIN_BASELINE_SAMPLES = 3
+const OVER_RATIO = 1.25
+const UNDER_RATIO = 0.75
+// A checkpoint is only read when a snapshot landed within this factor of it; interpolating
+// from the first snapshot of a post synced weeks later would invent a curve
+const CHECKPOINT_SLACK = 1.5
+const HOUR_MS = 60 * 60 * 1000
+
+const CHECKPOINTS = Object.keys(VELOCITY_CHECKPOINTS) as VelocityCheckpoint[]
+
+const getClient = () => supabaseAdmin || supabase
+
+const toGrowth = (postedAt: string, snapshots: SnapshotRow[]): GrowthPoint[] =>
+  snapshots.map(snapshot => ({
+    recordedAt: snapshot.recorded_at,
+    hoursSincePost: Math.max(0, (new Date(snapshot.recorded_at).getTime() - new Date(postedAt).getTime()) / HOUR_MS),
+    reactions: snapshot.total_reactions || 0,
+    comments: snapshot.comments_count || 0,
+    reposts: snapshot.reposts_count || 0
+  }))
+
+// Reactions at a given age, interpolated between the snapshots either side (a post starts at zero)
+export const reactionsAt = (growth: GrowthPoint[], hours: number): number | null => {
+  const afterIndex = growth.findIndex(point => point.hoursSincePost >= hours)
+  if (afterIndex === -1) return null
+
+  const after = growth[afterIndex]
+  if (after.hoursSincePost > hours * CHECKPOINT_SLACK) return null
+
+  const before = afterIndex > 0 ? growth[afterIndex - 1] : { hoursSincePost: 0, reactions: 0 }
+  if (after.hoursSincePost === before.hoursSincePost) return after.reactions
+
+  const share = (hours - before.hoursSincePost) / (after.hoursSincePost - before.hoursSincePost)
+  return Math.round(before.reactions + share * (after.reactions - before.reactions))
+}
+
+export const velocityOf = (growth: GrowthPoint[]): VelocityMetrics =>
+  Object.fromEntries(
+    CHECKPOINTS.map(checkpoint => [checkpoint, reactionsAt(growth, VELOCITY_CHECKPOINTS[checkpoint])])
+  ) as VelocityMetrics
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[middle] : Math.round((sorted[middle - 1] + sorted[middle]) / 2)
+}
+
+export class PostVelocityService {
+  // Growth curve and velocity for one synced post, against the baseline author's recent posts
+  static async getPostVelocity(
+    workspaceId: string,
+    urn: string,
+    baselineUsername: string = DEFAULT_BASELINE_USERNAME
+  ): Promise<PostVelocity | null> {
+    const client = getClient()
+
+    const { data: post, error } = await client
+      .from('linkedin_posts')
+      .select('urn, posted_at')
+      .eq('workspace_id', workspaceId)
+      .eq('urn', urn)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching post for velocity:', error)
+      throw new Error(`Failed to fetch post: ${error.message}`)
+    }
+
+    if (!post) return null
+
+    const { data: baselinePosts, error: baselineError } = await client
+      .from('linkedin_posts')
+      .select('urn, posted_at')
+      .eq('workspace_id', workspaceId)
+      .eq('author_username', baselineUsername)
+      .neq('urn', urn)
+      .order('posted_at', { ascending: false })
+      .limit(BASELINE_POSTS)
+
+    if (baselineError) {
+      console.error('Error fetching baseline posts for velocity:', baselineError)
+      throw new Error(`Failed to fetch baseline posts: ${baselineError.message}`)
+    }
+
+    const baselineRows = (baselinePosts || []) as Array<{ urn: string; posted_at: string }>
+    const history = await PostAnalyticsService.getHistory([urn, ...baselineRows.map(row => row.urn)])
+
+    const growth = toGrowth(post.posted_at, history.get(urn) || [])
+    const velocity = velocityOf(growth)
+
+    const baselineVelocities = baselineRows.map(row => velocityOf(toGrowth(row.posted_at, history.get(row.urn) || [])))
+    const baselineVelocity = {} as VelocityMetrics
+    const samples = {} as Record<VelocityCheckpoint, number>
+    for (const checkpoint of CHECKPOINTS) {
+      const values = baselineVelocities
+        .map(metrics => metrics[checkpoint])
+        .filter((value): value is number => value !== null)
+      baselineVelocity[checkpoint] = median(values)
+      samples[checkpoint] = values.length
+    }
+
+    return {
+      urn,
+      postedAt: post.posted_at,
+      growth,
+      velocity,
+      baseline: {
+        username: baselineUsername,
+        posts: baselineRows.length,
+        velocity: baselineVelocity,
+        samples
+      },
+      performance: this.comparePerformance(velocity, baselineVelocity, samples)
+    }
+  }
+
+  private static comparePerformance(
+    velocity: VelocityMetrics,
+    baseline: VelocityMetrics,
+    samples: Record<VelocityCheckpoint, number>
+  ): PostVelocity['performance'] {
+    for (const checkpoint of [...CHECKPOINTS].reverse()) {
+      const actual = velocity[checkpoint]
+      const expected = baseline[checkpoint]
+      if (actual === null || expected === null || expected === 0 || samples[checkpoint] < MIN_BASELINE_SAMPLES) continue
+
+      const ratio = Math.round((actual / expected) * 100) / 100
+      const flag = ratio >= OVER_RATIO ? 'over' : ratio <= UNDER_RATIO ? 'under' : 'on_track'
+      return { flag, checkpoint, ratio }
+    }
+
+    return { flag: 'insufficient_data' }
+  }
+}
+
+export default PostVelocityService
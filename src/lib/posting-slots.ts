@@ -0,0 +1,175 @@
+import { supabase, supabaseAdmin } from './supabase'
+import { WorkspaceService } from './workspaces'
+
+export interface PostingSlot {
+  weekday: number // 0 = Sunday, in the posting timezone
+  hour: number // 0-23, in the posting timezone
+  postCount: number
+  avgReactions: number
+  // avgReactions shrunk toward the overall average so one viral post doesn't make a slot
+  score: number
+}
+
+export interface PostingSlotSuggestions {
+  timezone: string
+  basedOnPosts: number
+  averageReactions: number
+  slots: PostingSlot[]
+  // Concrete upcoming times that fall in the best slots
+  upcoming: Array<{ at: string; weekday: number; hour: number; score: number }>
+}
+
+const DEFAULT_TIMEZONE = 'Europe/London'
+
+const HISTORY_DAYS = 365
+const MAX_HISTORY_POSTS = 500
+// Prior weight, in posts, pulling each slot toward the overall average
+const SMOOTHING_POSTS = 3
+const MIN_POSTS_PER_SLOT = 2
+const TOP_SLOTS = 5
+const UPCOMING_DAYS = 35
+const HOUR_MS = 60 * 60 * 1000
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+const getClient = () => supabaseAdmin || supabase
+
+// Weekday and hour of an instant as seen in the given timezone (DST-aware via Intl)
+export const zonedWeekdayHour = (date: Date, timeZone: string): { weekday: number; hour: number } => {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    weekday: 'short',
+    hour: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date)
+
+  return {
+    weekday: WEEKDAYS.indexOf(parts.find(part => part.type === 'weekday')?.value || 'Sun'),
+    hour: Number(parts.find(part => part.type === 'hour')?.value || 0)
+  }
+}
+
+export class PostingSlotService {
+  static get timezone(): string {
+    return process.env.POSTING_TIMEZONE || DEFAULT_TIMEZONE
+  }
+
+  // Rank weekday/hour slots by the reactions the workspace's own posts earned when published in them
+  static async getSuggestions(workspaceId: string): Promise<PostingSlotSuggestions> {
+    const timezone = this.timezone
+    const username = await WorkspaceService.getOwnUsername(workspaceId)
+    const posts = username ? await this.getPostReactions(workspaceId, username) : []
+
+    const averageReactions = posts.length
+      ? posts.reduce((sum, post) => sum + post.reactions, 0) / posts.length
+      : 0
+
+    const buckets = new Map<string, { weekday: number; hour: number; reactions: number[] }>()
+    for (const post of posts) {
+      const { weekday, hour } = zonedWeekdayHour(new Date(post.posted_at), timezone)
+      const key = `${weekday}:${hour}`
+      const bucket = buckets.get(key) || { weekday, hour, reactions: [] }
+      bucket.reactions.push(post.reactions)
+      buckets.set(key, bucket)
+    }
+
+    const slots: PostingSlot[] = Array.from(buckets.values())
+      .filter(bucket => bucket.reactions.length >= MIN_POSTS_PER_SLOT)
+      .map(bucket => {
+        const total = bucket.reactions.reduce((sum, reactions) => sum + reactions, 0)
+        return {
+          weekday: bucket.weekday,
+          hour: bucket.hour,
+          postCount: bucket.reactions.length,
+          avgReactions: Math.round(total / bucket.reactions.length),
+          score: Math.round((total + SMOOTHING_POSTS * averageReactions) / (bucket.reactions.length + SMOOTHING_POSTS))
+        }
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, TOP_SLOTS)
+
+    return {
+      timezone,
+      basedOnPosts: posts.length,
+      averageReactions: Math.round(averageReactions),
+      slots,
+      upcoming: this.upcomingTimes(slots, timezone)
+    }
+  }
+
+  // Walk forward hour by hour so DST changes are handled by Intl rather than by offset arithmetic
+  private static upcomingTimes(slots: PostingSlot[], timezone: string): PostingSlotSuggestions['upcoming'] {
+    if (slots.length === 0) return []
+
+    const bySlot = new Map(slots.map(slot => [`${slot.weekday}:${slot.hour}`, slot]))
+    const start = new Date(Math.ceil(Date.now() / HOUR_MS) * HOUR_MS)
+    const upcoming: PostingSlotSuggestions['upcoming'] = []
+
+    for (let offset = 0; offset < UPCOMING_DAYS * 24; offset++) {
+      const at = new Date(start.getTime() + offset * HOUR_MS)
+      const { weekday, hour } = zonedWeekdayHour(at, timezone)
+      const slot = bySlot.get(`${weekday}:${hour}`)
+      if (slot) {
+        upcoming.push({ at: at.toISOString(), weekday, hour, score: slot.score })
+      }
+    }
+
+    return upcoming
+  }
+
+  // Latest engagement snapshot wins over the count stored when the post was synced
+  private static async getPostReactions(
+    workspaceId: string,
+    username: string
+  ): Promise<Array<{ urn: string; posted_at: string; reactions: number }>> {
+    const client = getClient()
+    const since = new Date(Date.now() - HISTORY_DAYS * 24 * HOUR_MS).toISOString()
+
+    const { data: posts, error } = await client
+      .from('linkedin_posts')
+      .select('urn, posted_at, total_reactions')
+      .eq('workspace_id', workspaceId)
+      .eq('author_username', username)
+      .gte('posted_at', since)
+      .order('posted_at', { ascending: false })
+      .limit(MAX_HISTORY_POSTS)
+
+    if (error) {
+      console.error('Error fetching posts for posting slots:', error)
+      throw new Error(`Failed to fetch posts: ${error.message}`)
+    }
+
+    const latest = new Map<string, number>()
+    const urns = (posts || []).map(post => post.urn)
+
+    for (let index = 0; index < urns.length; index += 100) {
+      const { data: history, error: historyError } = await client
+        .from('post_engagement_history')
+        .select('post_urn, total_reactions, recorded_at')
+        .in('post_urn', urns.slice(index, index + 100))
+        .order('recorded_at', { ascending: false })
+
+      if (historyError) {
+        // History is a refinement; fall back to the synced counts
+        console.error('Error fetching engagement history for posting slots:', historyError)
+        break
+      }
+
+      for (const snapshot of history || []) {
+        if (!latest.has(snapshot.post_urn)) {
+          latest.set(snapshot.post_urn, snapshot.total_reactions || 0)
+        }
+      }
+    }
+
+    return (posts || [])
+      .filter(post => post.posted_at)
+      .map(post => ({
+        urn: post.urn,
+        posted_at: post.posted_at,
+        reactions: Math.max(post.total_reactions || 0, latest.get(post.urn) || 0)
+      }))
+  }
+}
+
+export default PostingSlotService
@@ -0,0 +1,102 @@
+import { supabase, supabaseAdmin } from './supabase'
+
+export type PublicationStatus = 'pending' | 'submitting' | 'submitted' | 'published' | 'failed' | 'unknown' | 'cancelled'
+
+// Written by the worker's scheduled publisher (see worker-service/src/services/publishing.ts)
+export interface PostPublication {
+  id: string
+  airtable_post_id: string
+  publisher: 'lindy' | 'mock'
+  status: PublicationStatus
+  scheduled_for?: string
+  attempts: number
+  external_id?: string
+  linkedin_url?: string
+  error?: string
+  published_at?: string
+  created_at: string
+  updated_at: string
+}
+
+const getClient = () => supabaseAdmin || supabase
+
+export class PublicationService {
+  static async getPublications(airtablePostIds: string[]): Promise<PostPublication[]> {
+    if (airtablePostIds.length === 0) {
+      return []
+    }
+
+    const client = getClient()
+    const { data, error } = await client
+      .from('post_publications')
+      .select('*')
+      .in('airtable_post_id', airtablePostIds)
+
+    if (error) {
+      console.error('Error fetching post publications:', error)
+      throw new Error(`Failed to fetch post publications: ${error.message}`)
+    }
+
+    return data || []
+  }
+
+  // Claim a post for a manual publish. Returns null if the scheduler (or an earlier click)
+  // already has it, so the same post can't be sent to LinkedIn twice.
+  static async claimForManualPublish(airtablePostId: string): Promise<PostPublication | null> {
+    const client = getClient()
+
+    await client
+      .from('post_publications')
+      .upsert({
+        airtable_post_id: airtablePostId,
+        publisher: 'lindy',
+        status: 'pending'
+      }, { onConflict: 'airtable_post_id', ignoreDuplicates: true })
+
+    const { data, error } = await client
+      .from('post_publications')
+      .update({ status: 'submitting', updated_at: new Date().toISOString() })
+      .eq('airtable_post_id', airtablePostId)
+      .in('status', ['pending', 'failed', 'cancelled'])
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error claiming post publication:', error)
+      throw new Error(`Failed to claim post publication: ${error.message}`)
+    }
+
+    return data
+  }
+
+  // A failed or cancelled post that gets a new slot should go out at that time, so hand it back to the scheduler
+  static async resetForReschedule(airtablePostId: string): Promise<void> {
+    const client = getClient()
+    const { error } = await client
+      .from('post_publications')
+      .update({ status: 'pending', error: null, updated_at: new Date().toISOString() })
+      .eq('airtable_post_id', airtablePostId)
+      .in('status', ['failed', 'cancelled'])
+
+    if (error) {
+      console.error('Error resetting post publication:', error)
+      throw new Error(`Failed to reset post publication: ${error.message}`)
+    }
+  }
+
+  static async recordManualSubmission(id: string, result: { externalId?: string; error?: string }): Promise<void> {
+    const client = getClient()
+    const { error } = await client
+      .from('post_publications')
+      .update(result.externalId
+        ? { status: 'submitted', external_id: result.externalId, error: null, updated_at: new Date().toISOString() }
+        : { status: 'failed', error: result.error, updated_at: new Date().toISOString() })
+      .eq('id', id)
+
+    if (error) {
+      console.error('Error recording manual publication:', error)
+    }
+  }
+}
+
+export default PublicationService
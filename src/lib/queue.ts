@@ -1,5 +1,7 @@
 import { Queue } from 'bullmq'
 import Redis from 'ioredis'
+import { UsageLedgerService } from './usage-ledger'
+import { DEFAULT_WORKSPACE_ID } from './auth'
 
 // Parse Redis URL to extract components
 function parseRedisUrl(url: string) {
@@ -86,17 +88,72 @@ export const contentGenerationQueue = new Queue(
   }
 )
 
+// Background LinkedIn post sync, processed by the worker's post sync worker
+export const postSyncQueue = new Queue(
+  'post-sync',
+  {
+    connection: redis,
+    defaultJobOptions: {
+      attempts: 5,
+      backoff: {
+        type: 'exponential',
+        delay: 60000
+      },
+      removeOnComplete: true,
+      removeOnFail: true
+    }
+  }
+)
+
 export interface JobData {
   topic: string
   platform: 'linkedin' | 'twitter' | 'facebook' | 'instagram'
+  platforms?: JobData['platform'][] // Fan the same research out to several platforms
   voiceGuidelines?: string
   postType?: string
   tone?: string
   userId?: string
+  workspaceId?: string // Jobs are created in the requesting workspace; the default workspace when unset
+  voiceGuideId?: string
+  researchProviders?: Array<'firecrawl' | 'perplexity' | 'rss' | 'manual'> // Defaults to Firecrawl, or to sourceUrls alone
+  sourceUrls?: string[]
+  rssFeeds?: string[]
+}
+
+export interface RevisionJobData {
+  draftId: string
+  feedback: string
+  userId?: string
+  workspaceId?: string
+}
+
+export interface PostSyncJobData {
+  workspaceId: string
+  username: string
+}
+
+// BullMQ rejects custom job ids containing ':'; kept in step with worker-service/src/services/post-sync.ts
+export const postSyncJobId = (data: PostSyncJobData) => `post-sync-${data.workspaceId}-${data.username}`
+
+// Refuse new work once the workspace's spend cap is reached
+async function checkBudgetBeforeEnqueue(workspaceId: string = DEFAULT_WORKSPACE_ID) {
+  const budget = await UsageLedgerService.checkBudget(workspaceId)
+  if (budget.allowed) return null
+
+  console.warn('Budget cap reached, refusing job:', budget)
+  return {
+    success: false as const,
+    error: UsageLedgerService.describeBudget(budget),
+    budgetExceeded: true,
+    budget
+  }
 }
 
 export class QueueService {
   static async addContentGenerationJob(data: JobData) {
+    const overBudget = await checkBudgetBeforeEnqueue(data.workspaceId)
+    if (overBudget) return overBudget
+
     let retries = 3
     
     while (retries > 0) {
@@ -134,6 +191,54 @@ export class QueueService {
     }
   }
 
+  static async addDraftRevisionJob(data: RevisionJobData) {
+    const overBudget = await checkBudgetBeforeEnqueue(data.workspaceId)
+    if (overBudget) return overBudget
+
+    try {
+      const job = await contentGenerationQueue.add('revise-draft', data, {
+        priority: 0,
+        attempts: 2
+      })
+
+      return {
+        success: true,
+        jobId: job.id,
+        data: job.data
+      }
+    } catch (error) {
+      console.error('Failed to add revision job to queue:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+  }
+
+  // One job per profile; queueing a profile that is already queued or running is a no-op
+  static async addPostSyncJob(data: PostSyncJobData) {
+    const overBudget = await checkBudgetBeforeEnqueue(data.workspaceId)
+    if (overBudget) return overBudget
+
+    try {
+      const job = await postSyncQueue.add('sync-profile-posts', data, {
+        jobId: postSyncJobId(data)
+      })
+
+      return {
+        success: true as const,
+        jobId: job.id,
+        data: job.data
+      }
+    } catch (error) {
+      console.error('Failed to add post sync job to queue:', error)
+      return {
+        success: false as const,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+  }
+
   static async getJobStatus(jobId: string) {
     let retries = 2
     
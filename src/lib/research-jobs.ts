@@ -0,0 +1,478 @@
+// Lead research jobs: each request to the research automation (Make.com, Zapier, n8n...) is a research_jobs row.
+// The trigger route queues and sends it, the automation calls /api/research/webhook with the job id, and the result
+// is saved onto the lead that asked for it. Jobs that fail to send or never call back are retried, then timed out.
+import { z } from 'zod'
+import { supabase, supabaseAdmin } from './supabase'
+import { getRepository } from './storage'
+import type { ICPCategory } from './icp-engine'
+import type { Lead } from './airtable'
+
+export const TriggerResearchSchema = z.object({
+  profileUrl: z.string().url('Valid LinkedIn profile URL required')
+    .refine(url => url.includes('linkedin.com/in/'), 'Invalid LinkedIn profile URL format'),
+  leadId: z.string().min(1).optional(), // Re-research an existing lead; otherwise the lead is matched by profile URL or created
+  priority: z.enum(['low', 'medium', 'high']).optional().default('medium'),
+  tags: z.array(z.string()).optional(),
+  notes: z.string().optional()
+})
+
+export type TriggerResearchInput = z.infer<typeof TriggerResearchSchema>
+
+export type ResearchJobStatus = 'queued' | 'sent' | 'completed' | 'partial' | 'failed' | 'timed_out'
+
+// Still waiting on the automation; everything else is final until retried by hand
+export const OPEN_RESEARCH_STATUSES: ResearchJobStatus[] = ['queued', 'sent']
+
+// Row in research_jobs
+export interface ResearchJob {
+  id: string // Sent to the automation as jobId
+  workspace_id: string
+  profile_url: string
+  lead_id?: string | null
+  priority: 'low' | 'medium' | 'high'
+  tags: string[]
+  notes?: string | null
+  status: ResearchJobStatus
+  attempts: number
+  max_attempts: number
+  automation_job_id?: string | null
+  error?: string | null
+  icp_score?: number | null
+  recommendation?: ICPCategory | null
+  payload?: unknown // Last webhook body, as received
+  sent_at?: string | null
+  deadline_at?: string | null // When a sent job stops waiting for its callback
+  next_attempt_at?: string | null // When a queued retry goes out
+  completed_at?: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface ResearchJobResult {
+  status: 'completed' | 'partial' | 'failed'
+  error?: string
+  payload: unknown
+  // Set when the payload had enough data to score
+  lead?: {
+    fields: Lead['fields']
+    score: number
+    recommendation: ICPCategory
+  }
+}
+
+export class ResearchJobError extends Error {
+  constructor(message: string, public readonly status: 404 | 409 | 503) {
+    super(message)
+    this.name = 'ResearchJobError'
+  }
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3
+// Waits between send attempts, in minutes
+const RETRY_BACKOFF_MINUTES = [1, 5, 15]
+const SWEEP_LIMIT = 100
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const getClient = () => supabaseAdmin || supabase
+
+const timeoutMinutes = () => Number(process.env.RESEARCH_JOB_TIMEOUT_MINUTES) || 15
+
+const minutesFromNow = (minutes: number) => new Date(Date.now() + minutes * 60 * 1000).toISOString()
+
+const isDue = (at?: string | null) => !!at && new Date(at).getTime() <= Date.now()
+
+export class ResearchJobService {
+  // Queues the job and sends it straight away; a failed send is retried on the next status check or sweep
+  static async createJob(workspaceId: string, input: TriggerResearchInput): Promise<ResearchJob> {
+    if (!process.env.RESEARCH_AUTOMATION_WEBHOOK_URL) {
+      throw new ResearchJobError('Research automation not configured', 503)
+    }
+
+    const { data, error } = await getClient()
+      .from('research_jobs')
+      .insert({
+        workspace_id: workspaceId,
+        profile_url: input.profileUrl,
+        lead_id: input.leadId || null,
+        priority: input.priority,
+        tags: input.tags || [],
+        notes: input.notes || null,
+        status: 'queued',
+        attempts: 0,
+        max_attempts: DEFAULT_MAX_ATTEMPTS
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error creating research job:', error)
+      throw new Error(`Failed to create research job: ${error.message}`)
+    }
+
+    return this.dispatch(data)
+  }
+
+  // Current state of a job, after applying any retry or timeout that has come due
+  static async getJob(workspaceId: string, jobId: string): Promise<ResearchJob> {
+    const job = await this.findJob(workspaceId, jobId)
+    if (!job) {
+      throw new ResearchJobError('Research job not found', 404)
+    }
+
+    return this.refresh(job)
+  }
+
+  static async listJobs(
+    workspaceId: string,
+    filter: { leadId?: string; status?: ResearchJobStatus; limit?: number } = {}
+  ): Promise<ResearchJob[]> {
+    let query = getClient()
+      .from('research_jobs')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+
+    if (filter.leadId) query = query.eq('lead_id', filter.leadId)
+    if (filter.status) query = query.eq('status', filter.status)
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(filter.limit || 50)
+
+    if (error) {
+      console.error('Error fetching research jobs:', error)
+      throw new Error(`Failed to fetch research jobs: ${error.message}`)
+    }
+
+    return data || []
+  }
+
+  // Sends a finished job again with a fresh set of attempts
+  static async retryJob(workspaceId: string, jobId: string): Promise<ResearchJob> {
+    const job = await this.getJob(workspaceId, jobId)
+
+    if (OPEN_RESEARCH_STATUSES.includes(job.status)) {
+      throw new ResearchJobError('This research job is still running', 409)
+    }
+
+    if (job.status === 'completed') {
+      throw new ResearchJobError('This research job already completed; start a new one to research again', 409)
+    }
+
+    const reset = await this.updateIf(job, { status: 'queued', attempts: 0, error: null, completed_at: null, next_attempt_at: null })
+    if (!reset) {
+      throw new ResearchJobError('This research job is already being retried', 409)
+    }
+
+    return this.dispatch(reset)
+  }
+
+  // Sends queued retries that are due and times out jobs whose callback never came; meant for a scheduled automation
+  static async sweep(workspaceId: string): Promise<{ checked: number; sent: number; timedOut: number }> {
+    const now = new Date().toISOString()
+
+    const { data, error } = await getClient()
+      .from('research_jobs')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .or(`and(status.eq.queued,next_attempt_at.lte.${now}),and(status.eq.sent,deadline_at.lte.${now})`)
+      .order('created_at', { ascending: true })
+      .limit(SWEEP_LIMIT)
+
+    if (error) {
+      console.error('Error fetching due research jobs:', error)
+      throw new Error(`Failed to sweep research jobs: ${error.message}`)
+    }
+
+    const result = { checked: 0, sent: 0, timedOut: 0 }
+    for (const job of data || []) {
+      const refreshed = await this.refresh(job)
+      result.checked++
+      if (refreshed.status === 'sent') result.sent++
+      if (refreshed.status === 'timed_out') result.timedOut++
+    }
+
+    return result
+  }
+
+  // The automation's callbacks carry no session; the job's own row says which workspace it belongs to
+  static async getCallbackJob(jobId: string): Promise<ResearchJob> {
+    const job = await this.findJob(null, jobId)
+    if (!job) {
+      throw new ResearchJobError('Research job not found', 404)
+    }
+    return job
+  }
+
+  // Saves the automation's callback. Results land on the job's lead: the one that asked for research,
+  // else the lead with the same profile URL, else a new lead. Callbacks after a timeout are still accepted.
+  static async completeJob(
+    workspaceId: string,
+    jobId: string,
+    result: ResearchJobResult
+  ): Promise<{ job: ResearchJob; leadId?: string; duplicate: boolean }> {
+    const job = await this.findJob(workspaceId, jobId)
+    if (!job) {
+      throw new ResearchJobError('Research job not found', 404)
+    }
+
+    // The automation may deliver the same callback more than once
+    if (job.status === 'completed' && job.lead_id) {
+      return { job, leadId: job.lead_id, duplicate: true }
+    }
+
+    let leadId = job.lead_id || undefined
+    if (result.lead) {
+      leadId = await this.saveLead(workspaceId, job, result.lead.fields)
+    }
+
+    const saved = await this.saveJob(workspaceId, job.id, {
+      status: result.status,
+      error: result.error || null,
+      payload: result.payload,
+      lead_id: leadId || null,
+      icp_score: result.lead?.score ?? null,
+      recommendation: result.lead?.recommendation ?? null,
+      completed_at: new Date().toISOString(),
+      next_attempt_at: null
+    })
+
+    return { job: saved, leadId, duplicate: false }
+  }
+
+  // A null workspace looks the job up by its id alone (callbacks only)
+  private static async findJob(workspaceId: string | null, jobId: string): Promise<ResearchJob | null> {
+    // Jobs from before research_jobs existed used made-up ids; they can't match a row
+    if (!UUID_PATTERN.test(jobId)) return null
+
+    let query = getClient()
+      .from('research_jobs')
+      .select('*')
+      .eq('id', jobId)
+
+    if (workspaceId) query = query.eq('workspace_id', workspaceId)
+
+    const { data, error } = await query.maybeSingle()
+
+    if (error) {
+      console.error('Error fetching research job:', error)
+      throw new Error(`Failed to fetch research job: ${error.message}`)
+    }
+
+    return data
+  }
+
+  private static async refresh(job: ResearchJob): Promise<ResearchJob> {
+    if (job.status === 'queued' && (!job.next_attempt_at || isDue(job.next_attempt_at))) {
+      return this.dispatch(job)
+    }
+
+    if (job.status === 'sent' && isDue(job.deadline_at)) {
+      if (job.attempts < job.max_attempts) {
+        console.log(`⏱️ Research job ${job.id} got no callback in ${timeoutMinutes()} minutes, resending (attempt ${job.attempts + 1}/${job.max_attempts})`)
+        return this.dispatch(job)
+      }
+
+      const timedOut = await this.updateIf(job, {
+        status: 'timed_out',
+        error: `No results after ${job.attempts} attempt${job.attempts !== 1 ? 's' : ''}`,
+        completed_at: new Date().toISOString()
+      })
+      return timedOut || this.currentJob(job)
+    }
+
+    return job
+  }
+
+  // One send attempt. Success waits for the callback until the deadline; failure queues a retry until attempts run out.
+  // The attempt is claimed before anything is sent, so concurrent polls, sweeps and retries send it once.
+  private static async dispatch(job: ResearchJob): Promise<ResearchJob> {
+    const attempts = job.attempts + 1
+
+    // Marked sent up front: if this request dies mid-send, the deadline brings the job back round
+    const claimed = await this.updateIf(job, {
+      status: 'sent',
+      attempts,
+      sent_at: new Date().toISOString(),
+      deadline_at: minutesFromNow(timeoutMinutes()),
+      next_attempt_at: null
+    })
+
+    if (!claimed) {
+      return this.currentJob(job)
+    }
+
+    let update: Partial<ResearchJob>
+    try {
+      const automationJobId = await this.send(claimed)
+
+      console.log(`🔎 Research job ${job.id} sent for ${job.profile_url} (attempt ${attempts}/${job.max_attempts})`)
+      update = { automation_job_id: automationJobId || job.automation_job_id || null, error: null }
+    } catch (error: any) {
+      console.error(`Error sending research job ${job.id}:`, error.message)
+
+      update = attempts < job.max_attempts
+        ? {
+            status: 'queued',
+            error: error.message,
+            next_attempt_at: minutesFromNow(RETRY_BACKOFF_MINUTES[Math.min(attempts, RETRY_BACKOFF_MINUTES.length) - 1])
+          }
+        : {
+            status: 'failed',
+            error: error.message,
+            completed_at: new Date().toISOString()
+          }
+    }
+
+    // The callback may already have completed the job; it wins
+    return (await this.updateIf(claimed, update)) || this.currentJob(claimed)
+  }
+
+  // Compare-and-set on status and attempts. Returns null when the job has moved on since it was read.
+  private static async updateIf(job: ResearchJob, fields: Partial<ResearchJob>): Promise<ResearchJob | null> {
+    const { data, error } = await getClient()
+      .from('research_jobs')
+      .update({ ...fields, updated_at: new Date().toISOString() })
+      .eq('workspace_id', job.workspace_id)
+      .eq('id', job.id)
+      .eq('status', job.status)
+      .eq('attempts', job.attempts)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error saving research job:', error)
+      throw new Error(`Failed to save research job: ${error.message}`)
+    }
+
+    return data
+  }
+
+  private static async currentJob(job: ResearchJob): Promise<ResearchJob> {
+    return (await this.findJob(job.workspace_id, job.id)) || job
+  }
+
+  private static async send(job: ResearchJob): Promise<string | undefined> {
+    const automationWebhookUrl = process.env.RESEARCH_AUTOMATION_WEBHOOK_URL
+    const webhookToken = process.env.RESEARCH_AUTOMATION_TOKEN
+
+    if (!automationWebhookUrl) {
+      throw new Error('Research automation not configured')
+    }
+
+    const name = extractNameFromProfile(job.profile_url)
+    const company = extractCompanyFromProfile(job.profile_url)
+    const response = await fetch(automationWebhookUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(webhookToken && { 'Authorization': `Bearer ${webhookToken}` })
+      },
+      body: JSON.stringify({
+        jobId: job.id,
+        profileUrl: job.profile_url,
+        priority: job.priority,
+        tags: job.tags,
+        notes: job.notes,
+        attempt: job.attempts, // Already counts this send
+        callbackUrl: `${process.env.NEXTAUTH_URL || 'http://localhost:3000'}/api/research/webhook`,
+        requestedAt: new Date().toISOString(),
+
+        // Research instructions for automation platform
+        instructions: {
+          firecrawl: {
+            url: job.profile_url,
+            extractData: [
+              'name', 'headline', 'location', 'summary',
+              'currentRole', 'experience', 'education'
+            ]
+          },
+          perplexity: {
+            queries: [
+              `company information for ${company}`,
+              `recent news about ${name}`,
+              `leadership changes at ${company}`
+            ]
+          },
+          linkedinSearch: {
+            queries: [
+              `${name} recent posts`,
+              `${name} company news`
+            ]
+          }
+        }
+      })
+    })
+
+    if (!response.ok) {
+      throw new Error(`Automation returned ${response.status} ${response.statusText}`)
+    }
+
+    const result = await response.json().catch(() => ({}))
+    return result.id || result.jobId
+  }
+
+  private static async saveLead(workspaceId: string, job: ResearchJob, fields: Lead['fields']): Promise<string> {
+    const leads = await getRepository(workspaceId, 'leads')
+
+    let existing = job.lead_id ? await leads.get(job.lead_id) : null
+    if (!existing) {
+      const [match] = await leads.list({ filters: [{ field: 'Profile URL', op: 'eq', value: job.profile_url }], limit: 1 })
+      existing = match || null
+    }
+
+    if (existing?.id) {
+      // Keep the lead's status, creation date and the tags people added by hand
+      const { 'Status': _status, 'Created': _created, ...research } = fields
+      await leads.update(existing.id, {
+        ...research,
+        'Tags': Array.from(new Set([...(existing.fields['Tags'] || []), ...(fields['Tags'] || [])]))
+      })
+      return existing.id
+    }
+
+    const lead = await leads.create({
+      ...fields,
+      'Tags': Array.from(new Set([...(fields['Tags'] || []), ...job.tags]))
+    })
+    return lead.id!
+  }
+
+  private static async saveJob(workspaceId: string, jobId: string, fields: Partial<ResearchJob>): Promise<ResearchJob> {
+    const { data, error } = await getClient()
+      .from('research_jobs')
+      .update({ ...fields, updated_at: new Date().toISOString() })
+      .eq('workspace_id', workspaceId)
+      .eq('id', jobId)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error saving research job:', error)
+      throw new Error(`Failed to save research job: ${error.message}`)
+    }
+
+    return data
+  }
+}
+
+// Utility functions to extract information from LinkedIn URLs
+function extractNameFromProfile(url: string): string {
+  try {
+    // Extract from URL like https://linkedin.com/in/john-smith-12345/
+    const matches = url.match(/\/in\/([^\/]+)/)
+    if (matches && matches[1]) {
+      return matches[1].replace(/-/g, ' ').replace(/\d/g, '').trim()
+    }
+    return 'Unknown'
+  } catch {
+    return 'Unknown'
+  }
+}
+
+function extractCompanyFromProfile(url: string): string {
+  // This would need to be enhanced with actual company extraction
+  // For now, return placeholder
+  return 'Unknown Company'
+}
+
+export default ResearchJobService
@@ -0,0 +1,172 @@
+import { z } from 'zod'
+import { supabase, supabaseAdmin } from './supabase'
+import { DEFAULT_WORKSPACE_ID } from './auth'
+import { ContentWorkflowService, WorkflowError } from './content-workflow'
+import type { ContentRef, WorkflowActor, WorkflowBackend } from './content-workflow'
+
+export const ReviewCommentInputSchema = z.object({
+  body: z.string().trim().min(1, 'Comment is required').max(5000),
+  parentId: z.string().uuid().optional()
+})
+
+export interface ReviewComment {
+  id: string
+  backend: WorkflowBackend
+  content_id: string
+  parent_id?: string
+  author: string
+  body: string
+  resolved_at?: string
+  resolved_by?: string
+  created_at: string
+  updated_at: string
+}
+
+export interface ReviewCommentThread extends ReviewComment {
+  replies: ReviewCommentThread[]
+}
+
+const getClient = () => supabaseAdmin || supabase
+
+export class ReviewCommentService {
+  // Top-level comments in posting order, each with its nested replies
+  static async listThreads(ref: ContentRef): Promise<ReviewCommentThread[]> {
+    const client = getClient()
+    const { data, error } = await client
+      .from('content_review_comments')
+      .select('*')
+      .eq('workspace_id', ref.workspaceId || DEFAULT_WORKSPACE_ID)
+      .eq('backend', ref.backend)
+      .eq('content_id', ref.id)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching review comments:', error)
+      throw new Error(`Failed to fetch review comments: ${error.message}`)
+    }
+
+    const nodes = new Map<string, ReviewCommentThread>()
+    for (const comment of (data || []) as ReviewComment[]) {
+      nodes.set(comment.id, { ...comment, replies: [] })
+    }
+
+    const threads: ReviewCommentThread[] = []
+    nodes.forEach(node => {
+      const parent = node.parent_id ? nodes.get(node.parent_id) : undefined
+      if (parent) {
+        parent.replies.push(node)
+      } else {
+        threads.push(node)
+      }
+    })
+
+    return threads
+  }
+
+  static async addComment(
+    ref: ContentRef,
+    input: z.infer<typeof ReviewCommentInputSchema>,
+    actor: WorkflowActor
+  ): Promise<ReviewComment> {
+    // Makes sure the post or draft exists before anyone comments on it
+    await ContentWorkflowService.getItem(ref)
+
+    const client = getClient()
+    const workspaceId = ref.workspaceId || DEFAULT_WORKSPACE_ID
+
+    if (input.parentId) {
+      const parent = await this.getComment(workspaceId, input.parentId)
+      if (!parent || parent.backend !== ref.backend || parent.content_id !== ref.id) {
+        throw new WorkflowError('Parent comment not found on this content', 400)
+      }
+    }
+
+    const { data, error } = await client
+      .from('content_review_comments')
+      .insert({
+        workspace_id: workspaceId,
+        backend: ref.backend,
+        content_id: ref.id,
+        parent_id: input.parentId,
+        author: actor.name,
+        body: input.body
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error creating review comment:', error)
+      throw new Error(`Failed to create review comment: ${error.message}`)
+    }
+
+    await ContentWorkflowService.recordAudit(ref, actor, {
+      action: 'comment',
+      details: { comment_id: data.id, parent_id: input.parentId, body: input.body }
+    })
+
+    return data
+  }
+
+  // Only whole threads are resolved, so this always acts on the top-level comment
+  static async setResolved(
+    workspaceId: string,
+    commentId: string,
+    resolved: boolean,
+    actor: WorkflowActor
+  ): Promise<ReviewComment> {
+    let comment = await this.getComment(workspaceId, commentId)
+    while (comment?.parent_id) {
+      comment = await this.getComment(workspaceId, comment.parent_id)
+    }
+
+    if (!comment) {
+      throw new WorkflowError('Comment not found', 404)
+    }
+
+    const ref = { backend: comment.backend, id: comment.content_id, workspaceId }
+    const client = getClient()
+    const { data, error } = await client
+      .from('content_review_comments')
+      .update({
+        resolved_at: resolved ? new Date().toISOString() : null,
+        resolved_by: resolved ? actor.name : null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('workspace_id', workspaceId)
+      .eq('id', comment.id)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error resolving review comment:', error)
+      throw new Error(`Failed to update review comment: ${error.message}`)
+    }
+
+    await ContentWorkflowService.recordAudit(ref, actor, {
+      action: 'comment',
+      details: { comment_id: comment.id, resolved }
+    })
+
+    return data
+  }
+
+  // Comments from another workspace don't exist as far as the caller is concerned
+  private static async getComment(workspaceId: string, id: string): Promise<ReviewComment | null> {
+    const client = getClient()
+    const { data, error } = await client
+      .from('content_review_comments')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching review comment:', error)
+      throw new Error(`Failed to fetch review comment: ${error.message}`)
+    }
+
+    return data
+  }
+}
+
+export default ReviewCommentService
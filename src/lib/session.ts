@@ -0,0 +1,72 @@
+// Signed session cookies and token hashing. Uses Web Crypto only, so it runs in middleware (edge) and in routes.
+
+export const SESSION_COOKIE = 'la_session'
+export const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60
+
+export interface SessionPayload {
+  userId: string
+  email: string
+  workspaceId: string
+  exp: number // Unix seconds
+}
+
+const encoder = new TextEncoder()
+
+const toBase64Url = (bytes: Uint8Array): string =>
+  btoa(Array.from(bytes, byte => String.fromCharCode(byte)).join(''))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+
+const fromBase64Url = (value: string): Uint8Array<ArrayBuffer> => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/')
+  const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4))
+  return Uint8Array.from(binary, char => char.charCodeAt(0))
+}
+
+const getSigningKey = async (): Promise<CryptoKey> => {
+  const secret = process.env.AUTH_SECRET
+  if (!secret) {
+    throw new Error('AUTH_SECRET is not configured')
+  }
+
+  return crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify'])
+}
+
+export const signSession = async (session: Omit<SessionPayload, 'exp'>, ttlSeconds: number = SESSION_TTL_SECONDS): Promise<string> => {
+  const payload: SessionPayload = { ...session, exp: Math.floor(Date.now() / 1000) + ttlSeconds }
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)))
+  const signature = await crypto.subtle.sign('HMAC', await getSigningKey(), encoder.encode(body))
+
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`
+}
+
+// Null for anything tampered with, malformed or expired
+export const verifySession = async (token: string | undefined): Promise<SessionPayload | null> => {
+  if (!token) return null
+
+  const [body, signature] = token.split('.')
+  if (!body || !signature) return null
+
+  try {
+    const valid = await crypto.subtle.verify('HMAC', await getSigningKey(), fromBase64Url(signature), encoder.encode(body))
+    if (!valid) return null
+
+    const payload = JSON.parse(new TextDecoder().decode(fromBase64Url(body))) as SessionPayload
+    return payload.exp > Math.floor(Date.now() / 1000) ? payload : null
+  } catch {
+    return null
+  }
+}
+
+// API tokens are stored as SHA-256 hashes; the plain token is only shown once
+export const hashToken = async (token: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(token))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+export const generateApiToken = (): string => {
+  const bytes = new Uint8Array(32)
+  crypto.getRandomValues(bytes)
+  return `lat_${toBase64Url(bytes)}`
+}
@@ -0,0 +1,78 @@
+import type { AirtableClient } from '../airtable'
+import type { EntityName, FieldFilter, ListOptions, Repository, StoredRecord } from './types'
+
+const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+
+const toFormula = <T extends StoredRecord>(filter: FieldFilter<T>): string => {
+  const ref = `{${filter.field}}`
+
+  switch (filter.op) {
+    case 'eq':
+    case 'neq': {
+      const negate = filter.op === 'neq'
+      if (typeof filter.value === 'boolean') {
+        return filter.value !== negate ? ref : `NOT(${ref})`
+      }
+      const value = typeof filter.value === 'number' ? String(filter.value) : quote(filter.value)
+      return `${ref} ${negate ? '!=' : '='} ${value}`
+    }
+    case 'in':
+      return `OR(${filter.value.map(value => `${ref} = ${typeof value === 'number' ? value : quote(value)}`).join(', ')})`
+    case 'has':
+      return `FIND(${quote(filter.value)}, ARRAYJOIN(${ref}))`
+    case 'gte':
+      return typeof filter.value === 'number'
+        ? `${ref} >= ${filter.value}`
+        : `AND(${ref} != "", NOT(IS_BEFORE(${ref}, ${quote(filter.value)})))`
+    case 'lt':
+      return typeof filter.value === 'number'
+        ? `${ref} < ${filter.value}`
+        : `AND(${ref} != "", IS_BEFORE(${ref}, ${quote(filter.value)}))`
+    case 'empty':
+      return `${ref} = ""`
+    case 'notEmpty':
+      return `${ref} != ""`
+  }
+}
+
+export const buildFormula = <T extends StoredRecord>(filters: FieldFilter<T>[] = []): string | undefined => {
+  if (filters.length === 0) return undefined
+  return filters.length === 1 ? toFormula(filters[0]) : `AND(${filters.map(toFormula).join(', ')})`
+}
+
+// One table in the workspace's Airtable base; field names are the Airtable column names
+export class AirtableRepository<T extends StoredRecord> implements Repository<T> {
+  readonly backend = 'airtable' as const
+
+  // The client is resolved on first use, so a workspace without a base only fails when it touches Airtable
+  constructor(readonly entity: EntityName, private readonly getClient: () => Promise<AirtableClient>) {}
+
+  async list(options: ListOptions<T> = {}): Promise<T[]> {
+    return (await this.getClient()).selectRecords<T>(this.entity, {
+      maxRecords: options.limit,
+      filterByFormula: buildFormula(options.filters),
+      sort: options.sort
+    })
+  }
+
+  async get(id: string): Promise<T | null> {
+    return (await this.getClient()).findRecord<T>(this.entity, id)
+  }
+
+  async create(fields: T['fields']): Promise<T> {
+    return (await this.getClient()).createRecord<T>(this.entity, fields)
+  }
+
+  async update(id: string, fields: Partial<T['fields']>): Promise<T> {
+    return (await this.getClient()).updateRecord<T>(this.entity, id, fields)
+  }
+
+  async delete(id: string): Promise<void> {
+    await (await this.getClient()).destroyRecord(this.entity, id)
+  }
+
+  // Airtable has no count endpoint, so this pages through the matching records
+  async count(filters?: FieldFilter<T>[]): Promise<number> {
+    return (await this.list({ filters })).length
+  }
+}
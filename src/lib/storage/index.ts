@@ -0,0 +1,55 @@
+import { WorkspaceService } from '../workspaces'
+import type { AirtableClient } from '../airtable'
+import { AirtableRepository } from './airtable'
+import { MemoryRepository } from './memory'
+import { SupabaseRepository } from './supabase'
+import type { EntityName, EntityRecords, Repositories, Repository, StorageBackend } from './types'
+import { ENTITY_NAMES } from './types'
+
+export * from './types'
+export { buildFormula } from './airtable'
+export { createMemoryRepositories } from './memory'
+
+// Connections moved to Supabase before this layer existed; everything else starts in Airtable
+const DEFAULT_BACKENDS: Record<EntityName, StorageBackend> = {
+  contentPosts: 'airtable',
+  influencers: 'airtable',
+  influencerPosts: 'airtable',
+  leads: 'airtable',
+  generatedComments: 'airtable',
+  connections: 'supabase'
+}
+
+const isBackend = (value: string | undefined): value is StorageBackend =>
+  value === 'airtable' || value === 'supabase' || value === 'memory'
+
+// Workspace setting, then STORAGE_BACKEND, then the built-in default
+export function resolveBackend(entity: EntityName, overrides: Partial<Record<EntityName, StorageBackend>> = {}): StorageBackend {
+  const fromEnv = process.env.STORAGE_BACKEND
+  return overrides[entity] || (isBackend(fromEnv) ? fromEnv : DEFAULT_BACKENDS[entity])
+}
+
+// Repositories for one workspace; routes use these instead of talking to Airtable or Supabase directly
+export async function getRepositories(workspaceId: string): Promise<Repositories> {
+  const workspace = await WorkspaceService.getWorkspace(workspaceId)
+  const backends = workspace?.settings?.storage
+
+  let airtable: Promise<AirtableClient> | undefined
+  const getAirtable = () => (airtable ??= WorkspaceService.getAirtableClient(workspaceId))
+
+  const repositories = {} as Record<EntityName, Repository<any>>
+  for (const entity of ENTITY_NAMES) {
+    const backend = resolveBackend(entity, backends)
+    repositories[entity] = backend === 'airtable'
+      ? new AirtableRepository(entity, getAirtable)
+      : backend === 'supabase'
+        ? new SupabaseRepository(entity, workspaceId)
+        : new MemoryRepository(entity, workspaceId)
+  }
+
+  return repositories as Repositories
+}
+
+export async function getRepository<E extends EntityName>(workspaceId: string, entity: E): Promise<Repository<EntityRecords[E]>> {
+  return (await getRepositories(workspaceId))[entity]
+}
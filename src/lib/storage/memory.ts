@@ -0,0 +1,122 @@
+import { randomUUID } from 'crypto'
+import type { EntityName, EntityRecords, FieldFilter, ListOptions, Repositories, Repository, StoredRecord } from './types'
+import { ENTITY_NAMES } from './types'
+
+type Fields = Record<string, any>
+
+// Shared by every MemoryRepository for the same workspace and entity, for the life of the process
+const stores = new Map<string, Map<string, Fields>>()
+
+const isBlank = (value: unknown) =>
+  value === undefined || value === null || value === '' || value === false || (Array.isArray(value) && value.length === 0)
+
+const compare = (a: unknown, b: unknown): number =>
+  typeof a === 'number' && typeof b === 'number' ? a - b : String(a).localeCompare(String(b))
+
+// Blanks sort last in either direction, like Supabase with nullsFirst: false
+const compareForSort = (a: unknown, b: unknown, direction: 'asc' | 'desc'): number => {
+  if (isBlank(a) || isBlank(b)) return Number(isBlank(a)) - Number(isBlank(b))
+  return (direction === 'asc' ? 1 : -1) * compare(a, b)
+}
+
+const matches = <T extends StoredRecord>(fields: Fields, filter: FieldFilter<T>): boolean => {
+  const value = fields[filter.field]
+
+  switch (filter.op) {
+    case 'eq':
+      return typeof filter.value === 'boolean' ? !isBlank(value) === filter.value : value === filter.value
+    case 'neq':
+      return typeof filter.value === 'boolean' ? !isBlank(value) !== filter.value : value !== filter.value
+    case 'in':
+      return filter.value.includes(value)
+    case 'has':
+      return Array.isArray(value) && value.includes(filter.value)
+    case 'gte':
+      return !isBlank(value) && compare(value, filter.value) >= 0
+    case 'lt':
+      return !isBlank(value) && compare(value, filter.value) < 0
+    case 'empty':
+      return isBlank(value)
+    case 'notEmpty':
+      return !isBlank(value)
+  }
+}
+
+// Process-local storage with the same filter semantics as the Airtable adapter; for tests and local development
+export class MemoryRepository<T extends StoredRecord> implements Repository<T> {
+  readonly backend = 'memory' as const
+  private readonly records: Map<string, Fields>
+
+  constructor(readonly entity: EntityName, workspaceId: string) {
+    const key = `${workspaceId}:${entity}`
+    if (!stores.has(key)) {
+      stores.set(key, new Map())
+    }
+    this.records = stores.get(key)!
+  }
+
+  private toRecord(id: string, fields: Fields): T {
+    return { id, fields: { ...fields } } as T
+  }
+
+  async list(options: ListOptions<T> = {}): Promise<T[]> {
+    let entries = Array.from(this.records.entries())
+      .filter(([, fields]) => (options.filters || []).every(filter => matches(fields, filter)))
+
+    for (const { field, direction } of [...(options.sort || [])].reverse()) {
+      entries = entries.sort(([, a], [, b]) => compareForSort(a[field], b[field], direction))
+    }
+
+    return entries.slice(0, options.limit).map(([id, fields]) => this.toRecord(id, fields))
+  }
+
+  async get(id: string): Promise<T | null> {
+    const fields = this.records.get(id)
+    return fields ? this.toRecord(id, fields) : null
+  }
+
+  async create(fields: T['fields']): Promise<T> {
+    const id = `mem${randomUUID().replace(/-/g, '').slice(0, 14)}`
+    this.records.set(id, { ...fields })
+    return this.toRecord(id, fields)
+  }
+
+  async update(id: string, fields: Partial<T['fields']>): Promise<T> {
+    const existing = this.records.get(id)
+    if (!existing) {
+      throw new Error(`Failed to update ${this.entity}: record ${id} not found`)
+    }
+    const updated = { ...existing, ...fields }
+    this.records.set(id, updated)
+    return this.toRecord(id, updated)
+  }
+
+  async delete(id: string): Promise<void> {
+    this.records.delete(id)
+  }
+
+  async count(filters?: FieldFilter<T>[]): Promise<number> {
+    return (await this.list({ filters })).length
+  }
+}
+
+// In-memory repositories for every entity, optionally seeded with existing records
+export function createMemoryRepositories(
+  workspaceId: string,
+  seed: { [E in EntityName]?: EntityRecords[E][] } = {}
+): Repositories {
+  const repositories = {} as Record<EntityName, Repository<any>>
+  for (const entity of ENTITY_NAMES) {
+    repositories[entity] = new MemoryRepository(entity, workspaceId)
+  }
+
+  for (const entity of ENTITY_NAMES) {
+    const store = stores.get(`${workspaceId}:${entity}`)!
+    store.clear()
+    for (const record of seed[entity] || []) {
+      store.set(record.id || `mem${randomUUID().replace(/-/g, '').slice(0, 14)}`, { ...record.fields })
+    }
+  }
+
+  return repositories as Repositories
+}
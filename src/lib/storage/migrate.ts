@@ -0,0 +1,82 @@
+import { WorkspaceService } from '../workspaces'
+import { AirtableRepository } from './airtable'
+import { SupabaseRepository } from './supabase'
+import type { EntityName, StorageBackend, StoredRecord } from './types'
+import { ENTITY_NAMES } from './types'
+
+export interface MigrationOptions {
+  entities?: EntityName[]
+  dryRun?: boolean
+  // Point the workspace at Supabase for every table that verified
+  switchBackend?: boolean
+}
+
+export interface TableMigrationResult {
+  entity: EntityName
+  status: 'migrated' | 'skipped' | 'failed'
+  airtableCount: number
+  supabaseCount: number
+  verified: boolean
+  error?: string
+}
+
+// Copies every Airtable table into Supabase and checks that the record counts match
+export async function migrateAirtableToSupabase(
+  workspaceId: string,
+  options: MigrationOptions = {}
+): Promise<TableMigrationResult[]> {
+  const airtable = await WorkspaceService.getAirtableClient(workspaceId)
+  const results: TableMigrationResult[] = []
+
+  for (const entity of options.entities || ENTITY_NAMES) {
+    if (!airtable.hasTable(entity)) {
+      results.push({ entity, status: 'skipped', airtableCount: 0, supabaseCount: 0, verified: false, error: 'No Airtable table configured' })
+      continue
+    }
+
+    const source = new AirtableRepository<StoredRecord>(entity, async () => airtable)
+    const target = new SupabaseRepository<StoredRecord>(entity, workspaceId)
+    let airtableCount = 0
+
+    try {
+      const records = await source.list()
+      airtableCount = records.length
+
+      if (!options.dryRun) {
+        await target.importFromAirtable(records)
+      }
+
+      const supabaseCount = await target.countImported()
+      results.push({
+        entity,
+        status: 'migrated',
+        airtableCount,
+        supabaseCount,
+        verified: supabaseCount === airtableCount
+      })
+    } catch (error) {
+      results.push({
+        entity,
+        status: 'failed',
+        airtableCount,
+        supabaseCount: 0,
+        verified: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  }
+
+  if (options.switchBackend && !options.dryRun) {
+    const verified = results.filter(result => result.verified)
+    if (verified.length > 0) {
+      const workspace = await WorkspaceService.getWorkspace(workspaceId)
+      const storage: Partial<Record<EntityName, StorageBackend>> = { ...workspace?.settings?.storage }
+      for (const result of verified) {
+        storage[result.entity] = 'supabase'
+      }
+      await WorkspaceService.updateSettings(workspaceId, { storage })
+    }
+  }
+
+  return results
+}
@@ -0,0 +1,158 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { createMemoryRepositories, MemoryRepository } from './memory'
+import type { EntityName, EntityRecords, Repository } from './types'
+import type { GeneratedComment, Lead } from '../airtable'
+
+// The behaviour every adapter must share; routes rely on it whichever backend a workspace uses.
+// Point `open` at another adapter (e.g. a scratch Supabase workspace) to hold it to the same contract.
+const describeRepositoryContract = (
+  backend: string,
+  open: <E extends EntityName>(entity: E) => Promise<Repository<EntityRecords[E]>>
+) => {
+  describe(`${backend} repository contract`, () => {
+    let leads: Repository<Lead>
+    let comments: Repository<GeneratedComment>
+
+    const lead = (name: string, fields: Partial<Lead['fields']> = {}): Lead['fields'] => ({
+      'Name': name,
+      'Profile URL': `https://linkedin.com/in/${name.toLowerCase()}`,
+      ...fields
+    })
+
+    const names = (records: Lead[]) => records.map(record => record.fields['Name'])
+
+    beforeEach(async () => {
+      leads = await open('leads')
+      comments = await open('generatedComments')
+    })
+
+    it('creates, reads, updates and deletes records', async () => {
+      const created = await leads.create(lead('Ada', { 'ICP Score': 80, 'Tags': ['founder'] }))
+      expect(created.id).toBeTruthy()
+      expect(created.fields).toMatchObject({ 'Name': 'Ada', 'ICP Score': 80, 'Tags': ['founder'] })
+
+      expect(await leads.get(created.id!)).toEqual(created)
+
+      // Updates merge into the stored fields
+      const updated = await leads.update(created.id!, { 'Status': 'Qualified' })
+      expect(updated.fields).toMatchObject({ 'Name': 'Ada', 'ICP Score': 80, 'Status': 'Qualified' })
+      expect((await leads.get(created.id!))?.fields['Status']).toBe('Qualified')
+
+      await leads.delete(created.id!)
+      expect(await leads.get(created.id!)).toBeNull()
+    })
+
+    it('returns null for a missing record and refuses to update one', async () => {
+      const created = await leads.create(lead('Ada'))
+      await leads.delete(created.id!)
+
+      expect(await leads.get(created.id!)).toBeNull()
+      await expect(leads.update(created.id!, { 'Status': 'New' })).rejects.toThrow()
+    })
+
+    it('filters on equality, membership and array contents', async () => {
+      await leads.create(lead('Ada', { 'Status': 'Qualified', 'Tags': ['founder', 'uk'] }))
+      await leads.create(lead('Grace', { 'Status': 'New', 'Tags': ['uk'] }))
+      await leads.create(lead('Linus', { 'Status': 'Not ICP' }))
+
+      const sorted = { sort: [{ field: 'Name' as const, direction: 'asc' as const }] }
+
+      expect(names(await leads.list({ ...sorted, filters: [{ field: 'Status', op: 'eq', value: 'New' }] }))).toEqual(['Grace'])
+      expect(names(await leads.list({ ...sorted, filters: [{ field: 'Status', op: 'neq', value: 'New' }] }))).toEqual(['Ada', 'Linus'])
+      expect(names(await leads.list({ ...sorted, filters: [{ field: 'Status', op: 'in', value: ['Qualified', 'Not ICP'] }] })))
+        .toEqual(['Ada', 'Linus'])
+      expect(names(await leads.list({ ...sorted, filters: [{ field: 'Tags', op: 'has', value: 'uk' }] }))).toEqual(['Ada', 'Grace'])
+      expect(names(await leads.list({
+        ...sorted,
+        filters: [
+          { field: 'Tags', op: 'has', value: 'uk' },
+          { field: 'Status', op: 'eq', value: 'New' }
+        ]
+      }))).toEqual(['Grace'])
+    })
+
+    it('filters on ranges and blanks', async () => {
+      await leads.create(lead('Ada', { 'ICP Score': 85, 'Created': '2024-03-01T00:00:00.000Z' }))
+      await leads.create(lead('Grace', { 'ICP Score': 60, 'Created': '2024-01-15T00:00:00.000Z' }))
+      await leads.create(lead('Linus'))
+
+      const sorted = { sort: [{ field: 'Name' as const, direction: 'asc' as const }] }
+
+      // Blank values never fall inside a range
+      expect(names(await leads.list({ ...sorted, filters: [{ field: 'ICP Score', op: 'gte', value: 60 }] }))).toEqual(['Ada', 'Grace'])
+      expect(names(await leads.list({ ...sorted, filters: [{ field: 'ICP Score', op: 'lt', value: 70 }] }))).toEqual(['Grace'])
+      expect(names(await leads.list({ ...sorted, filters: [{ field: 'Created', op: 'gte', value: '2024-02-01T00:00:00.000Z' }] })))
+        .toEqual(['Ada'])
+
+      expect(names(await leads.list({ ...sorted, filters: [{ field: 'ICP Score', op: 'empty' }] }))).toEqual(['Linus'])
+      expect(names(await leads.list({ ...sorted, filters: [{ field: 'ICP Score', op: 'notEmpty' }] }))).toEqual(['Ada', 'Grace'])
+    })
+
+    it('treats an unset checkbox as false', async () => {
+      await comments.create({ 'Comment Variations': '["Posted"]', 'Posted Status': true })
+      await comments.create({ 'Comment Variations': '["Unchecked"]', 'Posted Status': false })
+      await comments.create({ 'Comment Variations': '["Never set"]' })
+
+      expect(await comments.count([{ field: 'Posted Status', op: 'eq', value: true }])).toBe(1)
+      expect(await comments.count([{ field: 'Posted Status', op: 'eq', value: false }])).toBe(2)
+    })
+
+    it('sorts on several fields with blanks last, and limits', async () => {
+      await leads.create(lead('Ada', { 'ICP Score': 70, 'Company': 'Acme' }))
+      await leads.create(lead('Grace', { 'ICP Score': 90, 'Company': 'Acme' }))
+      await leads.create(lead('Linus', { 'Company': 'Acme' }))
+      await leads.create(lead('Margaret', { 'ICP Score': 90, 'Company': 'Beta' }))
+
+      const byScore = await leads.list({
+        sort: [
+          { field: 'ICP Score', direction: 'desc' },
+          { field: 'Name', direction: 'asc' }
+        ]
+      })
+      expect(names(byScore)).toEqual(['Grace', 'Margaret', 'Ada', 'Linus'])
+
+      const ascending = await leads.list({ sort: [{ field: 'ICP Score', direction: 'asc' }, { field: 'Name', direction: 'asc' }] })
+      expect(names(ascending)).toEqual(['Ada', 'Grace', 'Margaret', 'Linus'])
+
+      expect(names(await leads.list({ sort: [{ field: 'Name', direction: 'asc' }], limit: 2 }))).toEqual(['Ada', 'Grace'])
+    })
+
+    it('counts everything or only the matching records', async () => {
+      await leads.create(lead('Ada', { 'Status': 'New' }))
+      await leads.create(lead('Grace', { 'Status': 'New' }))
+      await leads.create(lead('Linus', { 'Status': 'Engaged' }))
+
+      expect(await leads.count()).toBe(3)
+      expect(await leads.count([{ field: 'Status', op: 'eq', value: 'New' }])).toBe(2)
+    })
+  })
+}
+
+const WORKSPACE_ID = 'workspace-contract'
+
+describeRepositoryContract('memory', async entity => {
+  // Fresh, empty stores for every test
+  createMemoryRepositories(WORKSPACE_ID)
+  return new MemoryRepository(entity, WORKSPACE_ID)
+})
+
+describe('memory repositories', () => {
+  it('keeps each workspace\'s records apart', async () => {
+    const first = createMemoryRepositories('workspace-a')
+    const second = createMemoryRepositories('workspace-b')
+
+    const created = await first.leads.create({ 'Name': 'Ada', 'Profile URL': 'https://linkedin.com/in/ada' })
+
+    expect(await second.leads.get(created.id!)).toBeNull()
+    expect(await second.leads.count()).toBe(0)
+    expect(await first.leads.count()).toBe(1)
+  })
+
+  it('seeds records with their existing ids', async () => {
+    const { leads } = createMemoryRepositories(WORKSPACE_ID, {
+      leads: [{ id: 'recSeeded000000001', fields: { 'Name': 'Ada', 'Profile URL': 'https://linkedin.com/in/ada' } }]
+    })
+
+    expect((await leads.get('recSeeded000000001'))?.fields['Name']).toBe('Ada')
+  })
+})
@@ -0,0 +1,410 @@
+import { supabase, supabaseAdmin } from '../supabase'
+import type { EntityName, FieldFilter, ListOptions, Repository, StoredRecord } from './types'
+
+interface ColumnMapping {
+  column: string
+  // For fields Airtable stores differently, e.g. attachments kept here as a plain URL
+  toColumn?: (value: any) => any
+  fromColumn?: (value: any) => any
+}
+
+interface TableMapping {
+  table: string
+  // Airtable field name -> column
+  fields: Record<string, string | ColumnMapping>
+  // Reuse Airtable record IDs as row IDs so references to them (publications, audit log, linked records) stay valid
+  keepAirtableIds: boolean
+  // Rows created in Supabase before the migration are matched on this field instead of being duplicated
+  naturalKey?: string
+}
+
+const attachmentUrl = {
+  toColumn: (value: any) => Array.isArray(value) ? value[0]?.url ?? null : value,
+  fromColumn: (value: any) => value ? [{ url: value }] : undefined
+}
+
+// See supabase-storage-schema.sql
+export const TABLE_MAPPINGS: Record<EntityName, TableMapping> = {
+  contentPosts: {
+    table: 'content_posts',
+    keepAirtableIds: true,
+    fields: {
+      'Post ID': 'post_id',
+      'Content': 'content',
+      'Post Type': 'post_type',
+      'Status': 'status',
+      'Hashtags': 'hashtags',
+      'Scheduled Date': 'scheduled_date',
+      'Created By': 'created_by',
+      'Views': 'views',
+      'Likes': 'likes',
+      'Comments': 'comments',
+      'Created': 'created_at',
+      'LinkedIn URL': 'linkedin_url',
+      'Published At': 'published_at'
+    }
+  },
+  influencers: {
+    table: 'influencers',
+    keepAirtableIds: true,
+    fields: {
+      'Full Name': 'full_name',
+      'Username': 'username',
+      'Profile URL': 'profile_url',
+      'Role': 'role',
+      'Company': 'company',
+      'Priority Rank': 'priority_rank',
+      'Last Engaged': 'last_engaged',
+      'Status': 'status',
+      'Engagement Count': 'engagement_count',
+      'Created': 'created_at'
+    }
+  },
+  influencerPosts: {
+    table: 'influencer_posts',
+    keepAirtableIds: true,
+    fields: {
+      'Influencer': 'influencer_ids',
+      'Content': 'content',
+      'Posted At': 'posted_at',
+      'LinkedIn Post ID': 'linkedin_post_id',
+      'Likes Count': 'likes_count',
+      'Comments Count': 'comments_count',
+      'Engagement Status': 'engagement_status',
+      'Scraped At': 'scraped_at'
+    }
+  },
+  leads: {
+    table: 'leads',
+    keepAirtableIds: true,
+    fields: {
+      'Name': 'name',
+      'Profile URL': 'profile_url',
+      'Role': 'role',
+      'Company': 'company',
+      'Company Size': 'company_size',
+      'Tenure Months': 'tenure_months',
+      'ICP Score': 'icp_score',
+      'ICP Version': 'icp_version',
+      'Score Breakdown': 'score_breakdown',
+      'Tags': 'tags',
+      'Notes': 'notes',
+      'Status': 'status',
+      'Research Data': 'research_data',
+      'Created': 'created_at'
+    }
+  },
+  generatedComments: {
+    table: 'generated_comments',
+    keepAirtableIds: true,
+    fields: {
+      'Post': 'post_ids',
+      'Comment Variations': 'comment_variations',
+      'Selected Comment': 'selected_comment',
+      'Posted Status': 'posted_status',
+      'Posted At': 'posted_at',
+      'Created': 'created_at'
+    }
+  },
+  // The connections table the LinkedIn sync already writes to (supabase-connections-schema.sql)
+  connections: {
+    table: 'linkedin_connections',
+    keepAirtableIds: false,
+    naturalKey: 'Username',
+    fields: {
+      'Full Name': 'full_name',
+      'First Name': 'first_name',
+      'Last Name': 'last_name',
+      'Headline': 'headline',
+      'Username': 'username',
+      'About': 'about',
+      'Profile Picture URL': { column: 'profile_picture_url', ...attachmentUrl },
+      'Full Location': 'full_location',
+      'Hashtags': 'hashtags',
+      'Is Creator': 'is_creator',
+      'Is Influencer': 'is_influencer',
+      'Is Premium': 'is_premium',
+      'URN': 'urn',
+      'Follower Count': 'follower_count',
+      'Connection Count': 'connection_count',
+      'Current Company': 'current_company',
+      'Title': 'title',
+      'Company Location': 'company_location',
+      'Duration': 'duration',
+      'Start Date': 'start_date',
+      'Is Current': 'is_current',
+      'Company LinkedIn URL': 'company_linkedin_url',
+      'Current Company URN': 'current_company_urn'
+    }
+  }
+}
+
+const PAGE_SIZE = 1000
+const IMPORT_BATCH_SIZE = 500
+
+const getClient = () => supabaseAdmin || supabase
+
+// Airtable leaves empty cells out, so blanks are stored as NULL rather than '' or {}
+const isBlank = (value: unknown) => value === undefined || value === '' || (Array.isArray(value) && value.length === 0)
+
+// Rows scoped to one workspace; field names stay the Airtable ones
+export class SupabaseRepository<T extends StoredRecord> implements Repository<T> {
+  readonly backend = 'supabase' as const
+  private readonly mapping: TableMapping
+
+  constructor(readonly entity: EntityName, private readonly workspaceId: string) {
+    this.mapping = TABLE_MAPPINGS[entity]
+  }
+
+  private column(field: string): ColumnMapping {
+    const mapping = this.mapping.fields[field]
+    if (!mapping) {
+      throw new Error(`${field} is not stored in ${this.mapping.table}`)
+    }
+    return typeof mapping === 'string' ? { column: mapping } : mapping
+  }
+
+  private toRow(fields: Partial<T['fields']>): Record<string, any> {
+    const row: Record<string, any> = {}
+    for (const [field, value] of Object.entries(fields)) {
+      if (!this.mapping.fields[field]) continue // Legacy Airtable fields with no column
+      const { column, toColumn } = this.column(field)
+      row[column] = isBlank(value) ? null : toColumn ? toColumn(value) : value
+    }
+    return row
+  }
+
+  private fromRow(row: Record<string, any>): T {
+    const fields: Record<string, any> = {}
+    for (const field of Object.keys(this.mapping.fields)) {
+      const { column, fromColumn } = this.column(field)
+      const value = fromColumn ? fromColumn(row[column]) : row[column]
+      if (value !== null && value !== undefined) {
+        fields[field] = value
+      }
+    }
+    return { id: row.id, fields } as T
+  }
+
+  private applyFilter(query: any, filter: FieldFilter<T>) {
+    const { column } = this.column(filter.field)
+
+    switch (filter.op) {
+      case 'eq':
+        // Airtable treats an unticked checkbox and a blank one the same
+        return filter.value === false ? query.or(`${column}.is.null,${column}.eq.false`) : query.eq(column, filter.value)
+      case 'neq':
+        return filter.value === true ? query.or(`${column}.is.null,${column}.eq.false`) : query.neq(column, filter.value)
+      case 'in':
+        return query.in(column, filter.value)
+      case 'has':
+        return query.contains(column, [filter.value])
+      case 'gte':
+        return query.gte(column, filter.value)
+      case 'lt':
+        return query.lt(column, filter.value)
+      case 'empty':
+        return query.is(column, null)
+      case 'notEmpty':
+        return query.not(column, 'is', null)
+    }
+  }
+
+  private select(options: ListOptions<T> = {}) {
+    let query: any = getClient()
+      .from(this.mapping.table)
+      .select('*')
+      .eq('workspace_id', this.workspaceId)
+
+    for (const filter of options.filters || []) {
+      query = this.applyFilter(query, filter)
+    }
+
+    for (const { field, direction } of options.sort || []) {
+      query = query.order(this.column(field).column, { ascending: direction === 'asc', nullsFirst: false })
+    }
+
+    // Stable order, so paging doesn't skip or repeat rows
+    return query.order('id', { ascending: true })
+  }
+
+  async list(options: ListOptions<T> = {}): Promise<T[]> {
+    const rows: Record<string, any>[] = []
+
+    while (options.limit === undefined || rows.length < options.limit) {
+      const pageSize = Math.min(PAGE_SIZE, (options.limit ?? Infinity) - rows.length)
+      const { data, error } = await this.select(options).range(rows.length, rows.length + pageSize - 1)
+
+      if (error) {
+        console.error(`Error fetching ${this.mapping.table}:`, error)
+        throw new Error(`Failed to fetch ${this.entity}: ${error.message}`)
+      }
+
+      rows.push(...(data || []))
+      if (!data || data.length < pageSize) break
+    }
+
+    return rows.map(row => this.fromRow(row))
+  }
+
+  async get(id: string): Promise<T | null> {
+    const { data, error } = await getClient()
+      .from(this.mapping.table)
+      .select('*')
+      .eq('workspace_id', this.workspaceId)
+      .eq('id', id)
+      .maybeSingle()
+
+    // 22P02: not a valid uuid, e.g. an Airtable record ID looked up in linkedin_connections
+    if (error && error.code !== '22P02') {
+      console.error(`Error fetching ${this.mapping.table} row:`, error)
+      throw new Error(`Failed to fetch ${this.entity}: ${error.message}`)
+    }
+
+    return data ? this.fromRow(data) : null
+  }
+
+  async create(fields: T['fields']): Promise<T> {
+    const { data, error } = await getClient()
+      .from(this.mapping.table)
+      .insert({ ...this.toRow(fields), workspace_id: this.workspaceId })
+      .select()
+      .single()
+
+    if (error) {
+      console.error(`Error creating ${this.mapping.table} row:`, error)
+      throw new Error(`Failed to create ${this.entity}: ${error.message}`)
+    }
+
+    return this.fromRow(data)
+  }
+
+  async update(id: string, fields: Partial<T['fields']>): Promise<T> {
+    const { data, error } = await getClient()
+      .from(this.mapping.table)
+      .update({ ...this.toRow(fields), updated_at: new Date().toISOString() })
+      .eq('workspace_id', this.workspaceId)
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) {
+      console.error(`Error updating ${this.mapping.table} row:`, error)
+      throw new Error(`Failed to update ${this.entity}: ${error.message}`)
+    }
+
+    return this.fromRow(data)
+  }
+
+  async delete(id: string): Promise<void> {
+    const { error } = await getClient()
+      .from(this.mapping.table)
+      .delete()
+      .eq('workspace_id', this.workspaceId)
+      .eq('id', id)
+
+    if (error) {
+      console.error(`Error deleting ${this.mapping.table} row:`, error)
+      throw new Error(`Failed to delete ${this.entity}: ${error.message}`)
+    }
+  }
+
+  async count(filters?: FieldFilter<T>[]): Promise<number> {
+    let query: any = getClient()
+      .from(this.mapping.table)
+      .select('id', { count: 'exact', head: true })
+      .eq('workspace_id', this.workspaceId)
+
+    for (const filter of filters || []) {
+      query = this.applyFilter(query, filter)
+    }
+
+    const { count, error } = await query
+
+    if (error) {
+      console.error(`Error counting ${this.mapping.table}:`, error)
+      throw new Error(`Failed to count ${this.entity}: ${error.message}`)
+    }
+
+    return count || 0
+  }
+
+  // Copies Airtable records in, keyed on airtable_id, so re-running the migration updates instead of duplicating
+  async importFromAirtable(records: T[]): Promise<void> {
+    const client = getClient()
+
+    for (let start = 0; start < records.length; start += IMPORT_BATCH_SIZE) {
+      const batch = records.slice(start, start + IMPORT_BATCH_SIZE)
+
+      if (this.mapping.naturalKey) {
+        await this.linkExistingRows(batch)
+      }
+
+      const rows = batch.map(record => ({
+        ...this.toRow(record.fields),
+        ...(this.mapping.keepAirtableIds && { id: record.id }),
+        airtable_id: record.id,
+        workspace_id: this.workspaceId
+      }))
+
+      const { error } = await client
+        .from(this.mapping.table)
+        .upsert(rows, { onConflict: 'workspace_id,airtable_id' })
+
+      if (error) {
+        console.error(`Error importing into ${this.mapping.table}:`, error)
+        throw new Error(`Failed to import ${this.entity}: ${error.message}`)
+      }
+    }
+  }
+
+  // Records that came from Airtable, for verifying the migration
+  async countImported(): Promise<number> {
+    const { count, error } = await getClient()
+      .from(this.mapping.table)
+      .select('id', { count: 'exact', head: true })
+      .eq('workspace_id', this.workspaceId)
+      .not('airtable_id', 'is', null)
+
+    if (error) {
+      console.error(`Error counting imported ${this.mapping.table}:`, error)
+      throw new Error(`Failed to count imported ${this.entity}: ${error.message}`)
+    }
+
+    return count || 0
+  }
+
+  private async linkExistingRows(records: T[]): Promise<void> {
+    const keyField = this.mapping.naturalKey!
+    const { column } = this.column(keyField)
+    const byKey = new Map<string, string>()
+    for (const record of records) {
+      const key = (record.fields as Record<string, any>)[keyField]
+      if (!isBlank(key)) byKey.set(key, record.id!)
+    }
+    if (byKey.size === 0) return
+
+    const client = getClient()
+    const { data, error } = await client
+      .from(this.mapping.table)
+      .select(`id, ${column}`)
+      .eq('workspace_id', this.workspaceId)
+      .is('airtable_id', null)
+      .in(column, Array.from(byKey.keys()))
+
+    if (error) {
+      throw new Error(`Failed to match existing ${this.entity}: ${error.message}`)
+    }
+
+    for (const row of (data || []) as Record<string, any>[]) {
+      const { error: linkError } = await client
+        .from(this.mapping.table)
+        .update({ airtable_id: byKey.get(row[column]) })
+        .eq('id', row.id)
+
+      if (linkError) {
+        throw new Error(`Failed to link existing ${this.entity}: ${linkError.message}`)
+      }
+    }
+  }
+}
@@ -0,0 +1,51 @@
+import type { AirtableTable, Connection, ContentPost, GeneratedComment, Influencer, InfluencerPost, Lead } from '../airtable'
+
+export type StorageBackend = 'airtable' | 'supabase' | 'memory'
+
+// Entities keep the Airtable record shape ({ id, fields }) the rest of the app already uses, whichever backend holds them
+export interface EntityRecords {
+  contentPosts: ContentPost
+  influencers: Influencer
+  influencerPosts: InfluencerPost
+  leads: Lead
+  generatedComments: GeneratedComment
+  connections: Connection
+}
+
+export type EntityName = keyof EntityRecords & AirtableTable
+
+export const ENTITY_NAMES = ['contentPosts', 'influencers', 'influencerPosts', 'leads', 'generatedComments', 'connections'] as const satisfies readonly EntityName[]
+
+export interface StoredRecord {
+  id?: string
+  fields: object
+}
+
+export type FieldName<T extends StoredRecord> = keyof T['fields'] & string
+
+// String values in range filters (gte/lt) are ISO dates
+export type FieldFilter<T extends StoredRecord> =
+  | { field: FieldName<T>; op: 'eq' | 'neq'; value: string | number | boolean }
+  | { field: FieldName<T>; op: 'in'; value: Array<string | number> }
+  | { field: FieldName<T>; op: 'has'; value: string } // Array field (e.g. linked records) contains the value
+  | { field: FieldName<T>; op: 'gte' | 'lt'; value: string | number }
+  | { field: FieldName<T>; op: 'empty' | 'notEmpty' }
+
+export interface ListOptions<T extends StoredRecord> {
+  filters?: FieldFilter<T>[]
+  sort?: Array<{ field: FieldName<T>; direction: 'asc' | 'desc' }>
+  limit?: number // Everything when unset
+}
+
+export interface Repository<T extends StoredRecord> {
+  readonly entity: EntityName
+  readonly backend: StorageBackend
+  list(options?: ListOptions<T>): Promise<T[]>
+  get(id: string): Promise<T | null>
+  create(fields: T['fields']): Promise<T>
+  update(id: string, fields: Partial<T['fields']>): Promise<T>
+  delete(id: string): Promise<void>
+  count(filters?: FieldFilter<T>[]): Promise<number>
+}
+
+export type Repositories = { [E in EntityName]: Repository<EntityRecords[E]> }
@@ -1,6 +1,9 @@
 import { createClient } from '@supabase/supabase-js'
-import { icpScorer, ProspectProfile } from './icp-scorer'
-import { enhancedICPScorer, type LinkedInCommentAuthor, type EnhancedProspectProfile } from './enhanced-icp-scorer'
+import type { ProspectProfile } from './icp-scorer'
+import { EnhancedICPScorer, type LinkedInCommentAuthor, type EnhancedProspectProfile } from './enhanced-icp-scorer'
+import { ICPDefinitionService } from './icp-definitions'
+import type { ICPEngine } from './icp-engine'
+import { DEFAULT_WORKSPACE_ID } from './auth'
 
 const supabaseUrl = process.env.SUPABASE_URL
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
@@ -51,7 +54,7 @@ export interface LinkedInPost {
 export interface LinkedInComment {
   comment_id: string
   text: string
-  posted_at: string
+  posted_at: LinkedInPost['posted_at']
   is_edited: boolean
   is_pinned: boolean
   comment_url: string
@@ -72,12 +75,13 @@ export interface LinkedInComment {
     }
     comments: number
   }
-  replies?: any[]
+  replies?: LinkedInComment[]
 }
 
 // Database row types
 export interface DBLinkedInPost {
   id: string
+  workspace_id: string
   urn: string
   full_urn?: string
   posted_at: string
@@ -102,6 +106,8 @@ export interface DBLinkedInPost {
   document_page_count?: number
   document_url?: string
   document_thumbnail?: string
+  comments_synced_at?: string | null
+  comments_synced_count?: number | null // Post's comment count when its comments were last synced
   created_at: string
   updated_at: string
   last_synced_at: string
@@ -109,6 +115,7 @@ export interface DBLinkedInPost {
 
 export interface DBLinkedInComment {
   id: string
+  workspace_id: string
   comment_id: string
   post_urn: string
   text: string
@@ -129,11 +136,19 @@ export interface DBLinkedInComment {
   comments_count: number
   replies?: any
   replies_count: number
+  // Threading: replies point at their top-level comment; the thread state lives on the top-level row
+  parent_comment_id?: string | null
+  is_owner_comment: boolean
+  owner_replied_at?: string | null
+  needs_reply: boolean
+  last_activity_at?: string | null
   icp_score?: number
   icp_category?: string
   icp_breakdown?: any
   icp_tags?: string[]
   icp_reasoning?: string[]
+  icp_version?: number | null
+  icp_version_id?: string | null
   profile_researched: boolean
   research_completed_at?: string
   created_at: string
@@ -171,6 +186,7 @@ export interface LinkedInConnection {
 
 export interface DBLinkedInConnection {
   id: string
+  workspace_id: string
   full_name: string
   first_name?: string
   last_name?: string
@@ -203,6 +219,7 @@ export interface DBLinkedInConnection {
 
 export interface DBConnectionPost {
   id: string
+  workspace_id: string
   connection_id: string
   post_urn: string
   full_urn?: string
@@ -231,7 +248,37 @@ export interface DBConnectionPost {
   created_at: string
 }
 
+// Handle different timestamp formats from LinkedIn API
+export const toPostedAt = (postedAt: LinkedInPost['posted_at'] | undefined): string | undefined => {
+  if (!postedAt) return undefined
+  if (typeof postedAt === 'string') return postedAt
+  // Handle new format: {"date":"2025-07-31 13:46:46","relative":"...","timestamp":...}
+  if (postedAt.date) return new Date(postedAt.date).toISOString()
+  // Fallback to timestamp if date not available
+  if (postedAt.timestamp) return new Date(postedAt.timestamp).toISOString()
+  return undefined
+}
+
+// A commenter's profile score, as copied onto each of their comments
+export const commentICPFields = (profile: EnhancedProspectProfile): Partial<DBLinkedInComment> => ({
+  icp_score: profile.icpScore.totalScore,
+  icp_category: profile.icpScore.category,
+  icp_breakdown: profile.icpScore.breakdown,
+  icp_tags: profile.icpScore.tags,
+  icp_reasoning: profile.icpScore.reasoning,
+  icp_version: profile.icpScore.icpVersion ?? null,
+  icp_version_id: profile.icpScore.icpVersionId ?? null,
+  profile_researched: true,
+  research_completed_at: new Date().toISOString()
+})
+
 export class SupabaseLinkedInService {
+  // Posts, connections and connection posts are scoped to one workspace; comments follow their post
+  constructor(private readonly workspaceId: string = DEFAULT_WORKSPACE_ID) {}
+
+  forWorkspace(workspaceId: string): SupabaseLinkedInService {
+    return new SupabaseLinkedInService(workspaceId)
+  }
   
   private checkSupabaseConnection() {
     if (!supabase) {
@@ -243,12 +290,12 @@ export class SupabaseLinkedInService {
   async upsertPost(linkedInPost: LinkedInPost): Promise<DBLinkedInPost> {
     this.checkSupabaseConnection()
     
-    const dbPost = this.transformPostToDB(linkedInPost)
+    const dbPost = { ...this.transformPostToDB(linkedInPost), workspace_id: this.workspaceId }
     
     const { data, error } = await supabase!
       .from('linkedin_posts')
       .upsert(dbPost, { 
-        onConflict: 'urn',
+        onConflict: 'workspace_id,urn',
         ignoreDuplicates: false 
       })
       .select()
@@ -271,6 +318,7 @@ export class SupabaseLinkedInService {
     const { data, error } = await supabase!
       .from('linkedin_posts')
       .select('*')
+      .eq('workspace_id', this.workspaceId)
       .eq('author_username', username)
       .order('posted_at', { ascending: false })
       .limit(limit)
@@ -289,6 +337,7 @@ export class SupabaseLinkedInService {
     const { data, error } = await supabase!
       .from('linkedin_posts')
       .select('*')
+      .eq('workspace_id', this.workspaceId)
       .eq('urn', urn)
       .single()
 
@@ -301,15 +350,15 @@ export class SupabaseLinkedInService {
   }
 
   // Comments Operations
-  async upsertComment(comment: LinkedInComment, postUrn: string): Promise<DBLinkedInComment> {
+  async upsertComment(comment: LinkedInComment, postUrn: string, fields: Partial<DBLinkedInComment> = {}): Promise<DBLinkedInComment> {
     this.checkSupabaseConnection()
     
-    const dbComment = this.transformCommentToDB(comment, postUrn)
+    const dbComment = { ...this.transformCommentToDB(comment, postUrn), ...fields, workspace_id: this.workspaceId }
     
     const { data, error } = await supabase!
       .from('linkedin_comments')
       .upsert(dbComment, { 
-        onConflict: 'comment_id',
+        onConflict: 'workspace_id,comment_id',
         ignoreDuplicates: false 
       })
       .select()
@@ -325,10 +374,15 @@ export class SupabaseLinkedInService {
 
   async getCommentsByPostUrn(postUrn: string): Promise<DBLinkedInComment[]> {
     this.checkSupabaseConnection()
+
+    if (!await this.getPostByUrn(postUrn)) {
+      return []
+    }
     
     const { data, error } = await supabase!
       .from('linkedin_comments')
       .select('*')
+      .eq('workspace_id', this.workspaceId)
       .eq('post_urn', postUrn)
       .order('posted_at', { ascending: false })
 
@@ -341,12 +395,16 @@ export class SupabaseLinkedInService {
   }
 
   // Profile Research & ICP Scoring
-  async researchCommentAuthor(comment: LinkedInComment): Promise<EnhancedProspectProfile | null> {
+  // Scores a commenter from their headline against the workspace's current ICP definition. A profile scored
+  // under that same definition version in the last 7 days is reused; pass the engine when scoring many at once.
+  async researchCommentAuthor(comment: Pick<LinkedInComment, 'author'>, engine?: ICPEngine): Promise<EnhancedProspectProfile | null> {
     try {
+      const icpEngine = engine || await ICPDefinitionService.getEngine(this.workspaceId)
+
       // Check if profile already exists
       const existingProfile = await this.getProfileByUrl(comment.author.profile_url)
       
-      if (existingProfile && existingProfile.last_researched_at) {
+      if (existingProfile && existingProfile.last_researched_at && existingProfile.icp_version_id === icpEngine.version.id) {
         // If researched within last 7 days, return existing data (shorter cache for better accuracy)
         const lastResearch = new Date(existingProfile.last_researched_at)
         const sevenDaysAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)
@@ -356,15 +414,14 @@ export class SupabaseLinkedInService {
         }
       }
 
-      // Use enhanced ICP scorer for LinkedIn comment authors
       const author: LinkedInCommentAuthor = {
         name: comment.author.name,
         headline: comment.author.headline,
         profile_url: comment.author.profile_url,
-        profile_picture: comment.author.profile_picture
+        profile_picture: comment.author.profile_picture || ''
       }
 
-      const prospectProfile = enhancedICPScorer.createEnhancedProspectProfile(author, comment.author.profile_url)
+      const prospectProfile = new EnhancedICPScorer(icpEngine).createEnhancedProspectProfile(author, comment.author.profile_url)
       
       // Save enhanced data to database
       await this.upsertProfile({
@@ -379,6 +436,8 @@ export class SupabaseLinkedInService {
         icp_breakdown: prospectProfile.icpScore.breakdown,
         icp_tags: prospectProfile.icpScore.tags,
         icp_reasoning: prospectProfile.icpScore.reasoning,
+        icp_version: prospectProfile.icpScore.icpVersion,
+        icp_version_id: prospectProfile.icpScore.icpVersionId,
         // Enhanced fields
         icp_confidence: prospectProfile.icpScore.confidence,
         data_quality: prospectProfile.icpScore.dataQuality,
@@ -386,7 +445,7 @@ export class SupabaseLinkedInService {
         red_flags: prospectProfile.icpScore.redFlags
       })
 
-      console.log(`✅ Enhanced ICP scoring for ${comment.author.name}: ${prospectProfile.icpScore.totalScore}/100 (${prospectProfile.icpScore.category}) - Confidence: ${prospectProfile.icpScore.confidence}%`)
+      console.log(`✅ ICP scoring for ${comment.author.name}: ${prospectProfile.icpScore.totalScore}/100 (${prospectProfile.icpScore.category}, ICP v${prospectProfile.icpScore.icpVersion}) - Confidence: ${prospectProfile.icpScore.confidence}%`)
 
       return prospectProfile
     } catch (error) {
@@ -461,7 +520,7 @@ export class SupabaseLinkedInService {
   async upsertConnection(connectionData: LinkedInConnection): Promise<DBLinkedInConnection> {
     this.checkSupabaseConnection()
     
-    const dbConnection = this.transformConnectionToDB(connectionData)
+    const dbConnection = { ...this.transformConnectionToDB(connectionData), workspace_id: this.workspaceId }
     
     // If username exists, check if connection already exists
     if (dbConnection.username) {
@@ -505,6 +564,7 @@ export class SupabaseLinkedInService {
     const { data, error } = await supabase!
       .from('linkedin_connections')
       .select('*')
+      .eq('workspace_id', this.workspaceId)
       .order('created_at', { ascending: false })
       .limit(limit)
 
@@ -522,6 +582,7 @@ export class SupabaseLinkedInService {
     const { data, error } = await supabase!
       .from('linkedin_connections')
       .select('*')
+      .eq('workspace_id', this.workspaceId)
       .eq('username', username)
       .maybeSingle() // Use maybeSingle() instead of single() to handle no results gracefully
 
@@ -539,6 +600,7 @@ export class SupabaseLinkedInService {
     const { data, error } = await supabase!
       .from('linkedin_connections')
       .select('*')
+      .eq('workspace_id', this.workspaceId)
       .or(`full_name.ilike.%${searchTerm}%,current_company.ilike.%${searchTerm}%,title.ilike.%${searchTerm}%,headline.ilike.%${searchTerm}%`)
       .order('created_at', { ascending: false })
 
@@ -554,12 +616,12 @@ export class SupabaseLinkedInService {
   async upsertConnectionPost(connectionId: string, postData: any): Promise<DBConnectionPost> {
     this.checkSupabaseConnection()
     
-    const dbPost = this.transformConnectionPostToDB(connectionId, postData)
+    const dbPost = { ...this.transformConnectionPostToDB(connectionId, postData), workspace_id: this.workspaceId }
     
     const { data, error } = await supabase!
       .from('connection_posts')
       .upsert(dbPost, { 
-        onConflict: 'post_urn',
+        onConflict: 'workspace_id,post_urn',
         ignoreDuplicates: false 
       })
       .select()
@@ -579,6 +641,7 @@ export class SupabaseLinkedInService {
     const { data, error } = await supabase!
       .from('connection_posts')
       .select('*')
+      .eq('workspace_id', this.workspaceId)
       .eq('connection_id', connectionId)
       .order('posted_date', { ascending: false })
 
@@ -626,24 +689,10 @@ export class SupabaseLinkedInService {
 
   // Transform functions
   private transformPostToDB(post: LinkedInPost): Partial<DBLinkedInPost> {
-    // Handle different timestamp formats from LinkedIn API
-    let postedAt: string | undefined = undefined
-    if (post.posted_at) {
-      if (typeof post.posted_at === 'string') {
-        postedAt = post.posted_at
-      } else if (typeof post.posted_at === 'object' && post.posted_at.date) {
-        // Handle new format: {"date":"2025-07-31 13:46:46","relative":"...","timestamp":...}
-        postedAt = new Date(post.posted_at.date).toISOString()
-      } else if (typeof post.posted_at === 'object' && post.posted_at.timestamp) {
-        // Fallback to timestamp if date not available
-        postedAt = new Date(post.posted_at.timestamp).toISOString()
-      }
-    }
-
     return {
       urn: post.urn,
       full_urn: post.full_urn,
-      posted_at: postedAt,
+      posted_at: toPostedAt(post.posted_at),
       text: post.text,
       url: post.url,
       post_type: post.post_type,
@@ -675,7 +724,7 @@ export class SupabaseLinkedInService {
       comment_id: comment.comment_id,
       post_urn: postUrn,
       text: comment.text,
-      posted_at: comment.posted_at,
+      posted_at: toPostedAt(comment.posted_at),
       is_edited: comment.is_edited,
       is_pinned: comment.is_pinned,
       comment_url: comment.comment_url,
@@ -713,7 +762,8 @@ export class SupabaseLinkedInService {
         category: dbProfile.icp_category,
         breakdown: dbProfile.icp_breakdown,
         tags: dbProfile.icp_tags || [],
-        reasoning: dbProfile.icp_reasoning || []
+        reasoning: dbProfile.icp_reasoning || [],
+        icpVersion: dbProfile.icp_version ?? undefined
       }
     }
   }
@@ -735,6 +785,8 @@ export class SupabaseLinkedInService {
         breakdown: dbProfile.icp_breakdown,
         tags: dbProfile.icp_tags || [],
         reasoning: dbProfile.icp_reasoning || [],
+        icpVersion: dbProfile.icp_version ?? undefined,
+        icpVersionId: dbProfile.icp_version_id ?? undefined,
         confidence: dbProfile.icp_confidence || 75,
         dataQuality: dbProfile.data_quality || 'medium',
         signals: dbProfile.signals || [],
@@ -25,12 +25,47 @@ export const supabaseAdmin = supabaseServiceKey ? createClient(supabaseUrl, supa
   }
 }) : null
 
+// Short-lived client for verifying a login; never shares auth state between requests
+export const createAuthClient = () => createClient(supabaseUrl, supabaseAnonKey, {
+  auth: {
+    persistSession: false,
+    autoRefreshToken: false
+  }
+})
+
+export type Platform = 'linkedin' | 'twitter' | 'facebook' | 'instagram'
+
+export type ResearchProviderName = 'firecrawl' | 'perplexity' | 'rss' | 'manual'
+
+export interface ResearchSourceRef {
+  url: string
+  title?: string
+  source: ResearchProviderName
+}
+
+export interface FactCheckClaim {
+  kind: 'number' | 'quote'
+  text: string
+  sentence: string
+  status: 'supported' | 'unsupported'
+  source?: ResearchSourceRef & { excerpt: string }
+}
+
+export interface FactCheckReport {
+  checked_at: string
+  supported_count: number
+  unsupported_count: number
+  claims: FactCheckClaim[]
+}
+
 export interface ContentJob {
   id: string
+  workspace_id?: string
   queue_job_id?: string
   status: 'pending' | 'processing' | 'completed' | 'failed'
   topic: string
-  platform: 'linkedin' | 'twitter' | 'facebook' | 'instagram'
+  platform: Platform
+  platforms?: Platform[]
   voice_guide_id?: string
   research_data?: any
   progress: number
@@ -51,27 +86,88 @@ export interface ContentDraft {
     hashtags: string[]
     estimated_voice_score?: number
     approach?: string
+    platform?: Platform
+    platform_content?: PlatformContent
   }
   metadata: {
     token_count?: number
     generation_time_ms?: number
     model_used?: string
     research_sources?: string[]
+    research_provenance?: ResearchSourceRef[]
+    voice_profile_id?: string
+    voice_profile_version?: number
+    idea_number?: number
+    voice_score_breakdown?: VoiceScoreBreakdown
+    style_lint?: StyleLintReport
+    platform_validation?: PlatformValidationIssue[]
+    fact_check?: FactCheckReport
   }
   score?: number
+  parent_draft_id?: string
+  root_draft_id?: string
+  revision_number?: number
+  feedback?: string
+  workflow_status?: 'Draft' | 'Review' | 'Approved' | 'Published'
   created_at: string
 }
 
+export type PlatformContent =
+  | { platform: 'linkedin'; text: string }
+  | { platform: 'facebook'; text: string }
+  | { platform: 'twitter'; tweets: string[] }
+  | { platform: 'instagram'; caption: string; hashtags: string[] }
+
+export interface PlatformValidationIssue {
+  rule: 'empty' | 'max_length' | 'tweet_length' | 'thread_length' | 'hashtag_count' | 'caption_hook'
+  message: string
+}
+
+export interface VoiceScoreRule {
+  rule: 'hashtags' | 'paragraph_length' | 'em_dash_density' | 'question_density' | 'signature_cta' | 'hook_pattern'
+  score: number
+  weight: number
+  draft_value: number
+  baseline_value: number
+  detail: string
+}
+
+export interface StyleLintIssue {
+  rule: 'markdown' | 'hashtags' | 'paragraph_length' | 'missing_cta' | 'max_length'
+  message: string
+  fixable: boolean
+}
+
+export interface StyleLintReport {
+  issues_found: StyleLintIssue[]
+  auto_fixed: StyleLintIssue['rule'][]
+  revised: boolean
+  remaining: StyleLintIssue[]
+}
+
+export interface VoiceScoreBreakdown {
+  overall: number
+  rules: VoiceScoreRule[]
+  baseline_post_count: number
+  scored_at: string
+}
+
 export class SupabaseService {
-  static async getJob(jobId: string): Promise<ContentJob | null> {
+  // Passing workspaceId limits lookups to that workspace's jobs (see supabase-workspaces-schema.sql)
+  static async getJob(jobId: string, workspaceId?: string): Promise<ContentJob | null> {
     try {
       // Use admin client for server-side operations to bypass RLS
       const client = supabaseAdmin || supabase
-      const { data, error } = await client
+      let query = client
         .from('content_jobs')
         .select('*')
         .eq('id', jobId)
-        .single()
+
+      if (workspaceId) {
+        query = query.eq('workspace_id', workspaceId)
+      }
+
+      const { data, error } = await query.single()
 
       if (error) {
         console.error('Error fetching job:', error)
@@ -85,7 +181,7 @@ export class SupabaseService {
     }
   }
 
-  static async getJobWithDrafts(jobId: string): Promise<{
+  static async getJobWithDrafts(jobId: string, workspaceId?: string): Promise<{
     job: ContentJob | null
     drafts: ContentDraft[]
   }> {
@@ -93,18 +189,19 @@ export class SupabaseService {
       // Use admin client for server-side operations to bypass RLS
       const client = supabaseAdmin || supabase
       
+      const jobs = () => {
+        const query = client.from('content_jobs').select('*')
+        return workspaceId ? query.eq('workspace_id', workspaceId) : query
+      }
+
       // First try to find by queue_job_id, then by regular id
-      let { data: job } = await client
-        .from('content_jobs')
-        .select('*')
+      let { data: job } = await jobs()
         .eq('queue_job_id', jobId)
         .single()
 
       // If not found by queue_job_id, try by regular id
       if (!job) {
-        const result = await client
-          .from('content_jobs')
-          .select('*')
+        const result = await jobs()
           .eq('id', jobId)
           .single()
         job = result.data
@@ -121,6 +218,7 @@ export class SupabaseService {
         .from('content_drafts')
         .select('*')
         .eq('job_id', job.id) // Use the database job ID for drafts
+        .is('parent_draft_id', null) // Revisions are listed through getDraftVersions
         .order('variant_number')
 
       return {
@@ -136,13 +234,77 @@ export class SupabaseService {
     }
   }
 
-  static async getRecentJobs(limit: number = 10): Promise<ContentJob[]> {
+  // Drafts belong to a workspace through their job
+  static async getDraft(draftId: string, workspaceId?: string): Promise<ContentDraft | null> {
     try {
-      // Use admin client for server-side operations to bypass RLS
       const client = supabaseAdmin || supabase
+      const query = workspaceId
+        ? client
+            .from('content_drafts')
+            .select('*, content_jobs!inner(workspace_id)')
+            .eq('content_jobs.workspace_id', workspaceId)
+        : client
+            .from('content_drafts')
+            .select('*')
+
+      const { data, error } = await query
+        .eq('id', draftId)
+        .single()
+
+      if (error) {
+        console.error('Error fetching draft:', error)
+        return null
+      }
+
+      const { content_jobs: _job, ...draft } = data as ContentDraft & { content_jobs?: unknown }
+      return draft
+    } catch (error) {
+      console.error('Error fetching draft:', error)
+      return null
+    }
+  }
+
+  // All versions of a draft, original first
+  static async getDraftVersions(draftId: string, workspaceId?: string): Promise<ContentDraft[]> {
+    try {
+      const draft = await this.getDraft(draftId, workspaceId)
+      if (!draft) {
+        return []
+      }
+
+      const client = supabaseAdmin || supabase
+      const rootDraftId = draft.root_draft_id || draft.id
       const { data, error } = await client
+        .from('content_drafts')
+        .select('*')
+        .or(`id.eq.${rootDraftId},root_draft_id.eq.${rootDraftId}`)
+        .order('revision_number')
+
+      if (error) {
+        console.error('Error fetching draft versions:', error)
+        return []
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('Error fetching draft versions:', error)
+      return []
+    }
+  }
+
+  static async getRecentJobs(limit: number = 10, workspaceId?: string): Promise<ContentJob[]> {
+    try {
+      // Use admin client for server-side operations to bypass RLS
+      const client = supabaseAdmin || supabase
+      let query = client
         .from('content_jobs')
         .select('*')
+
+      if (workspaceId) {
+        query = query.eq('workspace_id', workspaceId)
+      }
+
+      const { data, error } = await query
         .order('created_at', { ascending: false })
         .limit(limit)
 
@@ -0,0 +1,106 @@
+// Lightweight topic similarity for the idea backlog: TF-IDF term vectors compared by cosine.
+// Runs in-process with no embedding API, so overlap checks are free and deterministic.
+
+const STOP_WORDS = new Set([
+  'a', 'about', 'after', 'again', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'because',
+  'been', 'before', 'being', 'but', 'by', 'can', 'could', 'did', 'do', 'does', 'doing', 'don', 'down', 'even',
+  'every', 'for', 'from', 'get', 'got', 'had', 'has', 'have', 'he', 'her', 'here', 'him', 'his', 'how', 'i', 'if',
+  'in', 'into', 'is', 'it', 'its', 'just', 'let', 'like', 'll', 'me', 'more', 'most', 'much', 'my', 'no', 'not',
+  'now', 'of', 'off', 'on', 'one', 'only', 'or', 'other', 'our', 'out', 'over', 're', 's', 'same', 'she', 'so',
+  'some', 'still', 't', 'than', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'thing', 'this',
+  'those', 'through', 'to', 'too', 'up', 'us', 've', 'very', 'was', 'we', 'were', 'what', 'when', 'where', 'which',
+  'while', 'who', 'why', 'will', 'with', 'won', 'would', 'you', 'your', 'yours',
+  // Words in nearly every one of Andrew's posts, which say nothing about the topic
+  'ceo', 'ceos', 'founder', 'founders', 'leader', 'leaders', 'business', 'follow', 'repost', 'post', 'today'
+])
+
+// Doc vectors keep only their strongest terms so long posts are compared on what they're about
+const MAX_TERMS_PER_DOCUMENT = 25
+
+export type TermVector = Map<string, number>
+
+// Crude suffix stemming: enough to treat "delegating", "delegation" and "delegate" as one term
+export const stem = (word: string): string =>
+  word
+    .replace(/(?:ational|ation|ations)$/, 'ate')
+    .replace(/(?:ing|ings|ed|er|ers|ly|ness|ment|ments|ful)$/, '')
+    .replace(/(?:ies)$/, 'y')
+    .replace(/(?:es|s)$/, '')
+    .replace(/e$/, '')
+
+export const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/[’']/g, '')
+    .split(/[^a-z]+/)
+    .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+    .map(stem)
+    .filter(word => word.length > 2)
+
+const termCounts = (text: string): Map<string, number> => {
+  const counts = new Map<string, number>()
+  for (const term of tokenize(text)) {
+    counts.set(term, (counts.get(term) || 0) + 1)
+  }
+  return counts
+}
+
+export class TopicCorpus {
+  private documentFrequency = new Map<string, number>()
+  private documentCount = 0
+
+  constructor(texts: string[] = []) {
+    texts.forEach(text => this.add(text))
+  }
+
+  add(text: string) {
+    this.documentCount++
+    for (const term of Array.from(termCounts(text).keys())) {
+      this.documentFrequency.set(term, (this.documentFrequency.get(term) || 0) + 1)
+    }
+  }
+
+  vectorize(text: string): TermVector {
+    const weights = Array.from(termCounts(text).entries()).map(([term, count]) => {
+      const idf = Math.log((this.documentCount + 1) / ((this.documentFrequency.get(term) || 0) + 1)) + 1
+      return [term, (1 + Math.log(count)) * idf] as [string, number]
+    })
+
+    return new Map(
+      weights.sort((a, b) => b[1] - a[1]).slice(0, MAX_TERMS_PER_DOCUMENT)
+    )
+  }
+}
+
+export const cosineSimilarity = (a: TermVector, b: TermVector): number => {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+
+  a.forEach((weight, term) => {
+    normA += weight * weight
+    const other = b.get(term)
+    if (other) dot += weight * other
+  })
+  b.forEach(weight => {
+    normB += weight * weight
+  })
+
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0
+}
+
+// Sum of member vectors; cosine ignores magnitude, so no need to average
+export const centroid = (vectors: TermVector[]): TermVector => {
+  const sum: TermVector = new Map()
+  for (const vector of vectors) {
+    vector.forEach((weight, term) => sum.set(term, (sum.get(term) || 0) + weight))
+  }
+  return sum
+}
+
+export const topTerms = (vector: TermVector, count: number = 3): string[] =>
+  Array.from(vector.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, count)
+    .map(([term]) => term)
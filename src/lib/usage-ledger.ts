@@ -0,0 +1,292 @@
+import { supabase, supabaseAdmin } from './supabase'
+import type { LLMCompletion } from './llm'
+
+export type UsageCategory = 'llm' | 'research' | 'scraper'
+
+export interface UsageTags {
+  workspaceId?: string // The database default (the default workspace) applies when unset
+  jobId?: string
+  queueJobId?: string
+  agentName?: string
+  route?: string
+  userId?: string
+}
+
+export interface UsageLedgerEntry {
+  id: string
+  occurred_at: string
+  workspace_id?: string
+  category: UsageCategory
+  provider: string
+  operation: string
+  model?: string
+  prompt_tokens: number
+  completion_tokens: number
+  total_tokens: number
+  request_count: number
+  estimated_cost_usd: number
+  job_id?: string
+  queue_job_id?: string
+  agent_name?: string
+  route?: string
+  user_id?: string
+  metadata?: Record<string, any>
+}
+
+export interface BudgetPeriod {
+  spentUsd: number
+  capUsd?: number
+}
+
+export interface BudgetStatus {
+  allowed: boolean
+  daily: BudgetPeriod
+  monthly: BudgetPeriod
+  exceeded?: 'daily' | 'monthly'
+}
+
+export interface UsageBreakdownRow {
+  key: string
+  totalTokens: number
+  requestCount: number
+  costUsd: number
+}
+
+export interface UsageSummary {
+  days: number
+  budget: BudgetStatus
+  daily: Array<{ day: string; costUsd: number; totalTokens: number; requestCount: number }>
+  byCategory: UsageBreakdownRow[]
+  byProvider: UsageBreakdownRow[]
+  byAgent: UsageBreakdownRow[]
+  byRoute: UsageBreakdownRow[]
+}
+
+// USD per 1M tokens [prompt, completion]; kept in step with worker-service/src/services/usage-ledger.ts
+const LLM_PRICING: Record<string, [number, number]> = {
+  'gpt-4o-mini': [0.15, 0.6],
+  'gpt-4o': [2.5, 10],
+  'gpt-4-turbo': [10, 30],
+  'gpt-4': [30, 60],
+  'gpt-3.5-turbo': [0.5, 1.5],
+  'claude-3-5-haiku': [0.8, 4],
+  'claude-3-5-sonnet': [3, 15],
+  'claude-3-opus': [15, 75],
+  'stub': [0, 0]
+}
+
+const FALLBACK_LLM_PRICING: [number, number] = [10, 30]
+
+// Estimated USD per request for paid APIs called from the web app
+const SERVICE_PRICING = {
+  rapidapi: 0.002
+} as const
+
+export type MeteredService = keyof typeof SERVICE_PRICING
+
+const PAGE_SIZE = 1000
+
+const parseCap = (value?: string): number | undefined => {
+  if (!value) return undefined
+  const parsed = parseFloat(value)
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined
+}
+
+const startOfUTCDay = (date: Date) =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+
+const startOfUTCMonth = (date: Date) =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1))
+
+const groupRows = (rows: UsageLedgerEntry[], keyOf: (row: UsageLedgerEntry) => string | undefined): UsageBreakdownRow[] => {
+  const groups = new Map<string, UsageBreakdownRow>()
+
+  for (const row of rows) {
+    const key = keyOf(row) || 'untagged'
+    const group = groups.get(key) || { key, totalTokens: 0, requestCount: 0, costUsd: 0 }
+    group.totalTokens += row.total_tokens || 0
+    group.requestCount += row.request_count || 0
+    group.costUsd += Number(row.estimated_cost_usd) || 0
+    groups.set(key, group)
+  }
+
+  return Array.from(groups.values()).sort((a, b) => b.costUsd - a.costUsd)
+}
+
+export class UsageLedgerService {
+  static estimateLLMCost(model: string, promptTokens: number, completionTokens: number): number {
+    const key = Object.keys(LLM_PRICING)
+      .sort((a, b) => b.length - a.length)
+      .find(prefix => model.startsWith(prefix))
+    const [promptRate, completionRate] = key ? LLM_PRICING[key] : FALLBACK_LLM_PRICING
+
+    return (promptTokens * promptRate + completionTokens * completionRate) / 1_000_000
+  }
+
+  // Ledger writes never fail the caller; a missed row is logged instead
+  private static async insert(entry: Omit<UsageLedgerEntry, 'id' | 'occurred_at' | 'request_count'>) {
+    try {
+      const client = supabaseAdmin || supabase
+      const { error } = await client.from('usage_ledger').insert(entry)
+
+      if (error) {
+        console.error('Error recording usage:', error)
+      }
+    } catch (error) {
+      console.error('Error recording usage:', error)
+    }
+  }
+
+  private static tagColumns(tags?: UsageTags) {
+    return {
+      workspace_id: tags?.workspaceId,
+      job_id: tags?.jobId,
+      queue_job_id: tags?.queueJobId,
+      agent_name: tags?.agentName,
+      route: tags?.route,
+      user_id: tags?.userId
+    }
+  }
+
+  static async recordLLMUsage(completion: LLMCompletion, tags?: UsageTags, operation: string = 'chat_completion') {
+    await this.insert({
+      category: 'llm',
+      provider: completion.provider,
+      operation,
+      model: completion.model,
+      prompt_tokens: completion.usage.promptTokens,
+      completion_tokens: completion.usage.completionTokens,
+      total_tokens: completion.usage.totalTokens,
+      estimated_cost_usd: this.estimateLLMCost(
+        completion.model,
+        completion.usage.promptTokens,
+        completion.usage.completionTokens
+      ),
+      ...this.tagColumns(tags)
+    })
+  }
+
+  static async recordServiceCall(service: MeteredService, operation: string, tags?: UsageTags, metadata?: Record<string, any>) {
+    await this.insert({
+      category: 'scraper',
+      provider: service,
+      operation,
+      prompt_tokens: 0,
+      completion_tokens: 0,
+      total_tokens: 0,
+      estimated_cost_usd: SERVICE_PRICING[service],
+      metadata,
+      ...this.tagColumns(tags)
+    })
+  }
+
+  static async getSpend(workspaceId: string, since: Date): Promise<number | null> {
+    try {
+      const client = supabaseAdmin || supabase
+      const { data, error } = await client.rpc('get_usage_spend', { since: since.toISOString(), workspace: workspaceId })
+
+      if (error) {
+        console.error('Error fetching usage spend:', error)
+        return null
+      }
+
+      return Number(data) || 0
+    } catch (error) {
+      console.error('Error fetching usage spend:', error)
+      return null
+    }
+  }
+
+  static getBudgetCaps() {
+    return {
+      dailyUsd: parseCap(process.env.BUDGET_DAILY_USD),
+      monthlyUsd: parseCap(process.env.BUDGET_MONTHLY_USD)
+    }
+  }
+
+  // BUDGET_DAILY_USD and BUDGET_MONTHLY_USD cap each workspace's own spend
+  static async checkBudget(workspaceId: string, now: Date = new Date()): Promise<BudgetStatus> {
+    const { dailyUsd, monthlyUsd } = this.getBudgetCaps()
+    const [dailySpend, monthlySpend] = await Promise.all([
+      this.getSpend(workspaceId, startOfUTCDay(now)),
+      this.getSpend(workspaceId, startOfUTCMonth(now))
+    ])
+
+    // If spend can't be read, don't block generation on a ledger outage
+    const status: BudgetStatus = {
+      allowed: true,
+      daily: { spentUsd: dailySpend || 0, capUsd: dailyUsd },
+      monthly: { spentUsd: monthlySpend || 0, capUsd: monthlyUsd }
+    }
+
+    if (dailyUsd !== undefined && status.daily.spentUsd >= dailyUsd) {
+      status.allowed = false
+      status.exceeded = 'daily'
+    } else if (monthlyUsd !== undefined && status.monthly.spentUsd >= monthlyUsd) {
+      status.allowed = false
+      status.exceeded = 'monthly'
+    }
+
+    return status
+  }
+
+  static describeBudget(status: BudgetStatus): string {
+    const period = status.exceeded === 'daily' ? status.daily : status.monthly
+    const label = status.exceeded === 'daily' ? 'Daily' : 'Monthly'
+    return `${label} budget cap of $${period.capUsd?.toFixed(2)} reached ($${period.spentUsd.toFixed(2)} spent)`
+  }
+
+  static async getSummary(workspaceId: string, days: number = 30, now: Date = new Date()): Promise<UsageSummary> {
+    const since = startOfUTCDay(new Date(now.getTime() - (days - 1) * 24 * 60 * 60 * 1000))
+    const budget = await this.checkBudget(workspaceId, now)
+    const rows: UsageLedgerEntry[] = []
+    const client = supabaseAdmin || supabase
+
+    // PostgREST caps each response, so page through the window rather than dropping the newest rows
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await client
+        .from('usage_ledger')
+        .select('*')
+        .eq('workspace_id', workspaceId)
+        .gte('occurred_at', since.toISOString())
+        .order('occurred_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1)
+
+      if (error) {
+        console.error('Error fetching usage ledger:', error)
+        throw new Error(`Failed to fetch usage ledger: ${error.message}`)
+      }
+
+      rows.push(...((data || []) as UsageLedgerEntry[]))
+      if (!data || data.length < PAGE_SIZE) break
+    }
+
+    // One entry per day, including days with no spend, so the chart has no gaps
+    const daily = Array.from({ length: days }, (_, index) => {
+      const day = new Date(since.getTime() + index * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+      return { day, costUsd: 0, totalTokens: 0, requestCount: 0 }
+    })
+    const dayIndex = new Map(daily.map((entry, index) => [entry.day, index]))
+
+    for (const row of rows) {
+      const entry = daily[dayIndex.get(row.occurred_at.slice(0, 10)) ?? -1]
+      if (!entry) continue
+      entry.costUsd += Number(row.estimated_cost_usd) || 0
+      entry.totalTokens += row.total_tokens || 0
+      entry.requestCount += row.request_count || 0
+    }
+
+    return {
+      days,
+      budget,
+      daily,
+      byCategory: groupRows(rows, row => row.category),
+      byProvider: groupRows(rows, row => row.provider),
+      byAgent: groupRows(rows, row => row.agent_name),
+      byRoute: groupRows(rows, row => row.route)
+    }
+  }
+}
+
+export default UsageLedgerService
@@ -0,0 +1,298 @@
+import { z } from 'zod'
+import { supabase, supabaseAdmin } from './supabase'
+
+// Voice profile payload schema (used by create and update routes)
+export const VoiceProfileInputSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  description: z.string().optional(),
+  is_default: z.boolean().optional(),
+  tone_rules: z.array(z.string()).default([]),
+  hooks: z.array(z.string()).default([]),
+  cta_patterns: z.array(z.string()).default([]),
+  banned_phrases: z.array(z.string()).default([]),
+  example_posts: z.array(z.string()).default([])
+})
+
+export type VoiceProfileInput = z.infer<typeof VoiceProfileInputSchema>
+
+export interface VoiceProfileVersion {
+  id: string
+  profile_id: string
+  version: number
+  tone_rules: string[]
+  hooks: string[]
+  cta_patterns: string[]
+  banned_phrases: string[]
+  example_posts: string[]
+  created_at: string
+}
+
+export interface VoiceProfile {
+  id: string
+  name: string
+  description?: string
+  is_default: boolean
+  current_version: number
+  created_at: string
+  updated_at: string
+  // Rules from the current version
+  tone_rules: string[]
+  hooks: string[]
+  cta_patterns: string[]
+  banned_phrases: string[]
+  example_posts: string[]
+}
+
+const getClient = () => supabaseAdmin || supabase
+
+export class VoiceProfileService {
+  static async listProfiles(workspaceId: string): Promise<VoiceProfile[]> {
+    const client = getClient()
+    const { data: profiles, error } = await client
+      .from('voice_profiles')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .order('name')
+
+    if (error) {
+      console.error('Error fetching voice profiles:', error)
+      throw new Error(`Failed to fetch voice profiles: ${error.message}`)
+    }
+
+    const results: VoiceProfile[] = []
+    for (const profile of profiles || []) {
+      const version = await this.getVersion(profile.id, profile.current_version)
+      results.push(this.mergeVersion(profile, version))
+    }
+
+    return results
+  }
+
+  static async getProfile(workspaceId: string, id: string): Promise<VoiceProfile | null> {
+    const client = getClient()
+    const { data: profile, error } = await client
+      .from('voice_profiles')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching voice profile:', error)
+      throw new Error(`Failed to fetch voice profile: ${error.message}`)
+    }
+
+    if (!profile) {
+      return null
+    }
+
+    const version = await this.getVersion(profile.id, profile.current_version)
+    return this.mergeVersion(profile, version)
+  }
+
+  static async getDefaultProfile(workspaceId: string): Promise<VoiceProfile | null> {
+    const client = getClient()
+    const { data, error } = await client
+      .from('voice_profiles')
+      .select('id')
+      .eq('workspace_id', workspaceId)
+      .eq('is_default', true)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching default voice profile:', error)
+      return null
+    }
+
+    return data ? this.getProfile(workspaceId, data.id) : null
+  }
+
+  // Callers check the profile is in their workspace first; versions are only reachable through it
+  static async getVersions(profileId: string): Promise<VoiceProfileVersion[]> {
+    const client = getClient()
+    const { data, error } = await client
+      .from('voice_profile_versions')
+      .select('*')
+      .eq('profile_id', profileId)
+      .order('version', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching voice profile versions:', error)
+      throw new Error(`Failed to fetch voice profile versions: ${error.message}`)
+    }
+
+    return data || []
+  }
+
+  static async createProfile(workspaceId: string, input: VoiceProfileInput): Promise<VoiceProfile> {
+    const client = getClient()
+
+    if (input.is_default) {
+      await this.clearDefault(workspaceId)
+    }
+
+    const { data: profile, error } = await client
+      .from('voice_profiles')
+      .insert({
+        workspace_id: workspaceId,
+        name: input.name,
+        description: input.description,
+        is_default: input.is_default || false,
+        current_version: 1
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error creating voice profile:', error)
+      throw new Error(`Failed to create voice profile: ${error.message}`)
+    }
+
+    const version = await this.insertVersion(profile.id, 1, input)
+    return this.mergeVersion(profile, version)
+  }
+
+  // Every update writes a new version row so earlier prompts stay reproducible
+  static async updateProfile(workspaceId: string, id: string, input: VoiceProfileInput): Promise<VoiceProfile | null> {
+    const client = getClient()
+    const existing = await this.getProfile(workspaceId, id)
+
+    if (!existing) {
+      return null
+    }
+
+    if (input.is_default && !existing.is_default) {
+      await this.clearDefault(workspaceId)
+    }
+
+    const nextVersion = existing.current_version + 1
+    const version = await this.insertVersion(id, nextVersion, input)
+
+    const { data: profile, error } = await client
+      .from('voice_profiles')
+      .update({
+        name: input.name,
+        description: input.description,
+        is_default: input.is_default ?? existing.is_default,
+        current_version: nextVersion,
+        updated_at: new Date().toISOString()
+      })
+      .eq('workspace_id', workspaceId)
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error updating voice profile:', error)
+      throw new Error(`Failed to update voice profile: ${error.message}`)
+    }
+
+    return this.mergeVersion(profile, version)
+  }
+
+  static async deleteProfile(workspaceId: string, id: string): Promise<void> {
+    const client = getClient()
+    const { error } = await client
+      .from('voice_profiles')
+      .delete()
+      .eq('workspace_id', workspaceId)
+      .eq('id', id)
+
+    if (error) {
+      console.error('Error deleting voice profile:', error)
+      throw new Error(`Failed to delete voice profile: ${error.message}`)
+    }
+  }
+
+  private static async getVersion(profileId: string, version: number): Promise<VoiceProfileVersion | null> {
+    const client = getClient()
+    const { data, error } = await client
+      .from('voice_profile_versions')
+      .select('*')
+      .eq('profile_id', profileId)
+      .eq('version', version)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching voice profile version:', error)
+      return null
+    }
+
+    return data
+  }
+
+  private static async insertVersion(
+    profileId: string,
+    version: number,
+    input: VoiceProfileInput
+  ): Promise<VoiceProfileVersion> {
+    const client = getClient()
+    const { data, error } = await client
+      .from('voice_profile_versions')
+      .insert({
+        profile_id: profileId,
+        version,
+        tone_rules: input.tone_rules,
+        hooks: input.hooks,
+        cta_patterns: input.cta_patterns,
+        banned_phrases: input.banned_phrases,
+        example_posts: input.example_posts
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error saving voice profile version:', error)
+      throw new Error(`Failed to save voice profile version: ${error.message}`)
+    }
+
+    return data
+  }
+
+  private static async clearDefault(workspaceId: string): Promise<void> {
+    const client = getClient()
+    await client
+      .from('voice_profiles')
+      .update({ is_default: false })
+      .eq('workspace_id', workspaceId)
+      .eq('is_default', true)
+  }
+
+  private static mergeVersion(profile: any, version: VoiceProfileVersion | null): VoiceProfile {
+    return {
+      id: profile.id,
+      name: profile.name,
+      description: profile.description || undefined,
+      is_default: !!profile.is_default,
+      current_version: profile.current_version,
+      created_at: profile.created_at,
+      updated_at: profile.updated_at,
+      tone_rules: version?.tone_rules || [],
+      hooks: version?.hooks || [],
+      cta_patterns: version?.cta_patterns || [],
+      banned_phrases: version?.banned_phrases || [],
+      example_posts: version?.example_posts || []
+    }
+  }
+}
+
+// Render a profile as the voice guideline block used in generation prompts
+export const renderVoiceGuidelines = (profile: Pick<VoiceProfile, 'name' | 'tone_rules' | 'hooks' | 'cta_patterns' | 'banned_phrases' | 'example_posts'>): string => {
+  const section = (title: string, items: string[]) =>
+    items.length > 0 ? `**${title}:**\n${items.map(item => `- ${item}`).join('\n')}` : ''
+
+  const examples = profile.example_posts.length > 0
+    ? `**Example Posts (match this voice):**\n${profile.example_posts.map((post, index) => `Example ${index + 1}:\n${post}`).join('\n\n')}`
+    : ''
+
+  return [
+    `**Voice Profile: ${profile.name}**`,
+    section('Tone Rules', profile.tone_rules),
+    section('Opening Hooks', profile.hooks),
+    section('Call to Action Patterns', profile.cta_patterns),
+    section('Never Use These Phrases', profile.banned_phrases),
+    examples
+  ].filter(Boolean).join('\n\n')
+}
+
+export default VoiceProfileService
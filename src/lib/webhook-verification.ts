@@ -0,0 +1,342 @@
+// Inbound webhook verification shared by the Lindy, research, influencer and comment generation webhooks.
+// Senders sign each delivery with their source's secret:
+//   <signature header>: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">
+// or, when the delivery carries an X-Webhook-Nonce header, of "<t>.<nonce>.<raw body>" so the nonce can't be swapped.
+// Deliveries outside the timestamp tolerance, or repeating a nonce (the signed X-Webhook-Nonce, else the body's
+// jobId with the timestamp, else the signature) already accepted, are rejected. Sources still on a static bearer token are accepted
+// unsigned until their secret is set; a source with neither is refused. Every delivery is logged to
+// webhook_events so rejected ones can be inspected and replayed (once each) after the sender or secret is fixed.
+import { createHmac, timingSafeEqual } from 'crypto'
+import { supabase, supabaseAdmin } from './supabase'
+import { DEFAULT_WORKSPACE_ID } from './auth'
+
+export type WebhookSource = 'lindy' | 'research' | 'influencers' | 'comment_generation'
+
+export const WEBHOOK_SOURCES: WebhookSource[] = ['lindy', 'research', 'influencers', 'comment_generation']
+
+interface WebhookSourceConfig {
+  path: string // Route the webhook is delivered to; replays are sent here
+  secretEnv: string
+  signatureHeader: string
+  workspaceEnv: string // Workspace the deliveries belong to (senders have no session); unset means the default one
+  legacyTokenEnv?: string // Static bearer token checked when no secret is configured
+}
+
+const SOURCE_CONFIG: Record<WebhookSource, WebhookSourceConfig> = {
+  lindy: {
+    path: '/api/webhooks/lindy',
+    secretEnv: 'LINDY_WEBHOOK_SECRET',
+    signatureHeader: 'lindy-signature',
+    workspaceEnv: 'LINDY_WEBHOOK_WORKSPACE_ID'
+  },
+  research: {
+    path: '/api/research/webhook',
+    secretEnv: 'RESEARCH_WEBHOOK_SECRET',
+    signatureHeader: 'x-webhook-signature',
+    workspaceEnv: 'RESEARCH_WEBHOOK_WORKSPACE_ID',
+    legacyTokenEnv: 'RESEARCH_AUTOMATION_TOKEN'
+  },
+  influencers: {
+    path: '/api/influencers/webhook',
+    secretEnv: 'INFLUENCER_WEBHOOK_SECRET',
+    signatureHeader: 'x-webhook-signature',
+    workspaceEnv: 'INFLUENCER_WEBHOOK_WORKSPACE_ID',
+    legacyTokenEnv: 'INFLUENCER_AUTOMATION_TOKEN'
+  },
+  comment_generation: {
+    path: '/api/generate-comment-webhook',
+    secretEnv: 'COMMENT_WEBHOOK_SECRET',
+    signatureHeader: 'x-webhook-signature',
+    workspaceEnv: 'COMMENT_WEBHOOK_WORKSPACE_ID'
+  }
+}
+
+export const NONCE_HEADER = 'x-webhook-nonce'
+const REPLAY_HEADER = 'x-webhook-replay-of'
+
+// Headers kept on the event for inspection; credentials are never stored
+const LOGGED_HEADERS = ['content-type', 'user-agent', NONCE_HEADER, REPLAY_HEADER]
+
+// Rejection reason for a nonce that was already accepted; such deliveries already ran and are never replayed
+const REPLAYED_DELIVERY = 'Replayed delivery'
+
+const toleranceSeconds = () => Number(process.env.WEBHOOK_TOLERANCE_SECONDS) || 300
+
+export type WebhookEventStatus = 'accepted' | 'rejected'
+
+// Row in webhook_events
+export interface WebhookEvent {
+  id: string
+  workspace_id: string
+  source: WebhookSource
+  status: WebhookEventStatus
+  reason?: string | null // Why it was rejected
+  verified: boolean // Signature checked; false for deliveries authenticated by a legacy static token
+  nonce?: string | null
+  signed_at?: string | null
+  headers: Record<string, string>
+  body: string
+  replay_of?: string | null
+  created_at: string
+}
+
+export interface VerifiedWebhook {
+  body: any
+  event: WebhookEvent
+}
+
+export class WebhookVerificationError extends Error {
+  constructor(message: string, public readonly status: 400 | 401 | 404 | 409 | 503) {
+    super(message)
+    this.name = 'WebhookVerificationError'
+  }
+}
+
+const getClient = () => supabaseAdmin || supabase
+
+// Recently accepted nonces per instance; webhook_events' unique index catches repeats across instances
+const seenNonces = new Map<string, number>()
+
+const rememberNonce = (key: string) => {
+  const now = Date.now()
+  seenNonces.forEach((expiresAt, seen) => {
+    if (expiresAt <= now) seenNonces.delete(seen)
+  })
+  seenNonces.set(key, now + toleranceSeconds() * 2 * 1000)
+}
+
+const hmac = (secret: string, timestamp: string, rawBody: string, nonce?: string | null) =>
+  createHmac('sha256', secret).update(nonce ? `${timestamp}.${nonce}.${rawBody}` : `${timestamp}.${rawBody}`).digest('hex')
+
+// Header value for a delivery signed now; senders (and replays) use the same scheme.
+// A nonce sent in X-Webhook-Nonce must be signed too.
+export const signWebhookPayload = (
+  secret: string,
+  rawBody: string,
+  timestamp: number = Math.floor(Date.now() / 1000),
+  nonce?: string
+): string =>
+  `t=${timestamp},v1=${hmac(secret, String(timestamp), rawBody, nonce)}`
+
+const parseSignature = (header: string): { timestamp: string; signatures: string[] } | null => {
+  const parts = header.split(',').map(part => part.trim().split('='))
+  const timestamp = parts.find(([key]) => key === 't')?.[1]
+  const signatures = parts.filter(([key, value]) => key === 'v1' && value).map(([, value]) => value)
+
+  return timestamp && /^\d+$/.test(timestamp) && signatures.length > 0 ? { timestamp, signatures } : null
+}
+
+const signatureMatches = (expected: string, candidate: string) => {
+  const a = Buffer.from(expected, 'hex')
+  const b = Buffer.from(candidate, 'hex')
+  return a.length === b.length && timingSafeEqual(a, b)
+}
+
+// Reads and checks a delivery. Throws WebhookVerificationError (after logging the rejection) when it fails;
+// otherwise returns the parsed body and its accepted event, whose workspace_id is the source's workspace.
+export async function verifyWebhook(request: Request, source: WebhookSource): Promise<VerifiedWebhook> {
+  const config = SOURCE_CONFIG[source]
+  const workspaceId = process.env[config.workspaceEnv] || DEFAULT_WORKSPACE_ID
+  const rawBody = await request.text()
+  const headers: Record<string, string> = {}
+  LOGGED_HEADERS.forEach(name => {
+    const value = request.headers.get(name)
+    if (value) headers[name] = value
+  })
+  const signatureHeader = request.headers.get(config.signatureHeader)
+  if (signatureHeader) headers[config.signatureHeader] = signatureHeader
+
+  const replayOf = request.headers.get(REPLAY_HEADER)
+  const event = {
+    workspace_id: workspaceId,
+    source,
+    headers,
+    body: rawBody,
+    verified: false,
+    nonce: null as string | null,
+    signed_at: null as string | null,
+    replay_of: replayOf && /^[0-9a-f-]{36}$/i.test(replayOf) ? replayOf : null
+  }
+
+  const reject = async (reason: string, status: 400 | 401 | 409 | 503): Promise<never> => {
+    console.warn(`Rejected ${source} webhook: ${reason}`)
+    await WebhookEventService.record({ ...event, status: 'rejected', reason })
+    throw new WebhookVerificationError(reason, status)
+  }
+
+  let body: any
+  try {
+    body = rawBody ? JSON.parse(rawBody) : {}
+  } catch {
+    return reject('Body is not valid JSON', 400)
+  }
+
+  const secret = process.env[config.secretEnv]
+
+  if (!secret) {
+    // Unsigned deliveries are only accepted from sources still on a static token, until their secret is configured
+    const legacyToken = config.legacyTokenEnv && process.env[config.legacyTokenEnv]
+    if (!legacyToken) {
+      return reject(`${config.secretEnv} is not configured`, 503)
+    }
+    if (request.headers.get('authorization') !== `Bearer ${legacyToken}`) {
+      return reject('Unauthorized', 401)
+    }
+
+    // Only replays carry a nonce here; it stops the same rejected event being replayed twice
+    event.nonce = request.headers.get(NONCE_HEADER)
+    const accepted = await WebhookEventService.record({ ...event, status: 'accepted' })
+    return accepted ? { body, event: accepted } : reject(REPLAYED_DELIVERY, 409)
+  }
+
+  if (!signatureHeader) {
+    return reject(`Missing ${config.signatureHeader} header`, 401)
+  }
+
+  const parsed = parseSignature(signatureHeader)
+  if (!parsed) {
+    return reject(`Malformed ${config.signatureHeader} header`, 401)
+  }
+
+  event.signed_at = new Date(Number(parsed.timestamp) * 1000).toISOString()
+
+  // A nonce header is part of the signed payload, so adding, changing or dropping one breaks the signature
+  const nonceHeader = request.headers.get(NONCE_HEADER)
+  const expected = hmac(secret, parsed.timestamp, rawBody, nonceHeader)
+  if (!parsed.signatures.some(candidate => signatureMatches(expected, candidate))) {
+    return reject('Signature does not match', 401)
+  }
+
+  event.verified = true
+
+  const age = Math.abs(Date.now() / 1000 - Number(parsed.timestamp))
+  if (age > toleranceSeconds()) {
+    return reject(`Timestamp outside the ${toleranceSeconds()}s tolerance`, 401)
+  }
+
+  event.nonce = nonceHeader || (typeof body?.jobId === 'string' ? `${body.jobId}@${parsed.timestamp}` : `sig:${expected}`)
+
+  const cacheKey = `${workspaceId}:${source}:${event.nonce}`
+  if (seenNonces.has(cacheKey) && seenNonces.get(cacheKey)! > Date.now()) {
+    return reject(REPLAYED_DELIVERY, 409)
+  }
+
+  const accepted = await WebhookEventService.record({ ...event, status: 'accepted' })
+  if (!accepted) {
+    return reject(REPLAYED_DELIVERY, 409)
+  }
+
+  rememberNonce(cacheKey)
+  return { body, event: accepted }
+}
+
+export class WebhookEventService {
+  // Returns null when an accepted event with the same nonce already exists (a replay)
+  static async record(event: Omit<WebhookEvent, 'id' | 'created_at'>): Promise<WebhookEvent | null> {
+    const { data, error } = await getClient()
+      .from('webhook_events')
+      .insert(event)
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        return null
+      }
+
+      console.error('Error recording webhook event:', error)
+      throw new Error(`Failed to record webhook event: ${error.message}`)
+    }
+
+    return data
+  }
+
+  static async listEvents(
+    workspaceId: string,
+    filter: { source?: WebhookSource; status?: WebhookEventStatus; limit?: number } = {}
+  ): Promise<Omit<WebhookEvent, 'body'>[]> {
+    let query = getClient()
+      .from('webhook_events')
+      .select('id, workspace_id, source, status, reason, verified, nonce, signed_at, headers, replay_of, created_at')
+      .eq('workspace_id', workspaceId)
+
+    if (filter.source) query = query.eq('source', filter.source)
+    if (filter.status) query = query.eq('status', filter.status)
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(filter.limit || 50)
+
+    if (error) {
+      console.error('Error fetching webhook events:', error)
+      throw new Error(`Failed to fetch webhook events: ${error.message}`)
+    }
+
+    return data || []
+  }
+
+  static async getEvent(workspaceId: string, eventId: string): Promise<WebhookEvent> {
+    const { data, error } = await getClient()
+      .from('webhook_events')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .eq('id', eventId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching webhook event:', error)
+      throw new Error(`Failed to fetch webhook event: ${error.message}`)
+    }
+
+    if (!data) {
+      throw new WebhookVerificationError('Webhook event not found', 404)
+    }
+
+    return data
+  }
+
+  // Delivers a rejected event's body to its webhook again, freshly signed with the source's current secret
+  // (or with its static token while it has none). Accepted events already ran their handler, so they can't be
+  // replayed, and neither can duplicates of them; the fixed nonce means a rejected event is accepted at most once.
+  // Replays only go to the app's configured NEXTAUTH_URL, never to a host taken from the request.
+  static async replay(workspaceId: string, eventId: string): Promise<{ status: number; response: unknown }> {
+    const event = await this.getEvent(workspaceId, eventId)
+    if (event.status !== 'rejected') {
+      throw new WebhookVerificationError('Only rejected deliveries can be replayed', 409)
+    }
+    if (event.reason === REPLAYED_DELIVERY) {
+      throw new WebhookVerificationError('Duplicate deliveries can\'t be replayed', 409)
+    }
+
+    const baseUrl = process.env.NEXTAUTH_URL
+    if (!baseUrl) {
+      throw new WebhookVerificationError('NEXTAUTH_URL is not configured', 503)
+    }
+
+    const config = SOURCE_CONFIG[event.source]
+    const secret = process.env[config.secretEnv]
+    const legacyToken = config.legacyTokenEnv && process.env[config.legacyTokenEnv]
+
+    const nonce = `replay:${event.id}`
+    const headers: Record<string, string> = {
+      'Content-Type': event.headers['content-type'] || 'application/json',
+      [REPLAY_HEADER]: event.id,
+      [NONCE_HEADER]: nonce
+    }
+    if (secret) {
+      headers[config.signatureHeader] = signWebhookPayload(secret, event.body, undefined, nonce)
+    } else if (legacyToken) {
+      headers['Authorization'] = `Bearer ${legacyToken}`
+    }
+
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}${config.path}`, {
+      method: 'POST',
+      headers,
+      body: event.body
+    })
+
+    return { status: response.status, response: await response.json().catch(() => null) }
+  }
+}
+
+export default WebhookEventService
@@ -0,0 +1,163 @@
+import { supabase, supabaseAdmin } from './supabase'
+import { createAirtableClient } from './airtable'
+import { DEFAULT_WORKSPACE_ID } from './auth'
+import type { EntityName, StorageBackend } from './storage/types'
+
+export type WorkspaceRole = 'owner' | 'admin' | 'member'
+
+export interface WorkspaceSettings {
+  // Each workspace can point at its own Airtable base; unset fields fall back to the env configuration
+  airtable?: {
+    apiKey?: string
+    baseId?: string
+    tables?: {
+      contentPosts?: string
+      influencers?: string
+      influencerPosts?: string
+      leads?: string
+      generatedComments?: string
+      connections?: string
+    }
+  }
+  // Where each entity lives; set per entity by POST /api/storage/migrate with switchBackend
+  storage?: Partial<Record<EntityName, StorageBackend>>
+  // The workspace's own LinkedIn profile; its synced posts are the backlog's and posting slots' past content
+  linkedin?: {
+    username?: string
+    authorId?: string // Lindy's id for the account that replies as this profile
+  }
+}
+
+export interface Workspace {
+  id: string
+  name: string
+  slug: string
+  settings: WorkspaceSettings
+  created_at: string
+  updated_at: string
+}
+
+export interface WorkspaceMember {
+  user_id: string
+  role: WorkspaceRole
+  display_name?: string | null
+}
+
+export interface WorkspaceMembership {
+  workspace_id: string
+  user_id: string
+  role: WorkspaceRole
+  display_name?: string
+  workspace: Pick<Workspace, 'id' | 'name' | 'slug'>
+}
+
+// The default workspace's profile from before workspaces had settings
+const DEFAULT_OWN_USERNAME = 'andrewtallents'
+const DEFAULT_LINDY_AUTHOR_ID = 'andrew-tallents'
+
+const getClient = () => supabaseAdmin || supabase
+
+export class WorkspaceService {
+  static async getMemberships(userId: string): Promise<WorkspaceMembership[]> {
+    const client = getClient()
+    const { data, error } = await client
+      .from('workspace_members')
+      .select('workspace_id, user_id, role, display_name, workspace:workspaces(id, name, slug)')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching workspace memberships:', error)
+      throw new Error(`Failed to fetch workspaces: ${error.message}`)
+    }
+
+    return (data || []) as unknown as WorkspaceMembership[]
+  }
+
+  static async getMembership(userId: string, workspaceId: string): Promise<WorkspaceMembership | null> {
+    const memberships = await this.getMemberships(userId)
+    return memberships.find(membership => membership.workspace_id === workspaceId) || null
+  }
+
+  static async listMembers(workspaceId: string): Promise<WorkspaceMember[]> {
+    const client = getClient()
+    const { data, error } = await client
+      .from('workspace_members')
+      .select('user_id, role, display_name')
+      .eq('workspace_id', workspaceId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching workspace members:', error)
+      throw new Error(`Failed to fetch workspace members: ${error.message}`)
+    }
+
+    return data || []
+  }
+
+  static async getWorkspace(workspaceId: string): Promise<Workspace | null> {
+    const client = getClient()
+    const { data, error } = await client
+      .from('workspaces')
+      .select('*')
+      .eq('id', workspaceId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching workspace:', error)
+      throw new Error(`Failed to fetch workspace: ${error.message}`)
+    }
+
+    return data
+  }
+
+  // Shallow merge, so callers pass whole top-level sections
+  static async updateSettings(workspaceId: string, settings: Partial<WorkspaceSettings>): Promise<Workspace> {
+    const workspace = await this.getWorkspace(workspaceId)
+    if (!workspace) {
+      throw new Error('Workspace not found')
+    }
+
+    const client = getClient()
+    const { data, error } = await client
+      .from('workspaces')
+      .update({ settings: { ...workspace.settings, ...settings }, updated_at: new Date().toISOString() })
+      .eq('id', workspaceId)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error updating workspace settings:', error)
+      throw new Error(`Failed to update workspace settings: ${error.message}`)
+    }
+
+    return data
+  }
+
+  static async getOwnUsername(workspaceId: string): Promise<string | null> {
+    const workspace = await this.getWorkspace(workspaceId)
+    return workspace?.settings?.linkedin?.username
+      || (workspaceId === DEFAULT_WORKSPACE_ID ? DEFAULT_OWN_USERNAME : null)
+  }
+
+  static async getLindyAuthorId(workspaceId: string): Promise<string | null> {
+    const workspace = await this.getWorkspace(workspaceId)
+    return workspace?.settings?.linkedin?.authorId
+      || (workspaceId === DEFAULT_WORKSPACE_ID ? DEFAULT_LINDY_AUTHOR_ID : null)
+  }
+
+  // Airtable client for the workspace's own base
+  static async getAirtableClient(workspaceId: string) {
+    const workspace = await this.getWorkspace(workspaceId)
+    const airtable = workspace?.settings?.airtable
+
+    if (!airtable?.baseId && workspaceId !== DEFAULT_WORKSPACE_ID) {
+      // Falling back to the shared base would leak the default workspace's posts
+      throw new Error('This workspace has no Airtable base configured')
+    }
+
+    return createAirtableClient(airtable?.apiKey, airtable?.baseId, airtable?.tables)
+  }
+}
+
+export default WorkspaceService
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SESSION_COOKIE, verifySession } from '@/lib/session'
+import { ApiTokenService } from '@/lib/api-tokens'
+import { AUTH_HEADERS, AuthContext, DEFAULT_WORKSPACE_ID, isAuthDisabled } from '@/lib/auth'
+
+// Reachable without a session: the login flow itself
+const PUBLIC_PATHS = ['/api/auth/login', '/api/auth/logout']
+
+// Inbound webhook deliveries: senders hold a signing secret (or a legacy static token), not a session or
+// API token, so these routes authenticate the delivery themselves (src/lib/webhook-verification.ts).
+// A session or API token is still forwarded when present, e.g. the dashboard calling generate-comment-webhook.
+const WEBHOOK_PATHS = ['/api/webhooks/lindy', '/api/research/webhook', '/api/influencers/webhook', '/api/generate-comment-webhook']
+
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl
+  const isApi = pathname.startsWith('/api/')
+
+  // Never trust identity headers from the client
+  const headers = new Headers(request.headers)
+  Object.values(AUTH_HEADERS).forEach(header => headers.delete(header))
+
+  const forward = (auth?: AuthContext) => {
+    if (auth) {
+      headers.set(AUTH_HEADERS.workspaceId, auth.workspaceId)
+      headers.set(AUTH_HEADERS.method, auth.method)
+      if (auth.userId) headers.set(AUTH_HEADERS.userId, auth.userId)
+      if (auth.email) headers.set(AUTH_HEADERS.email, auth.email)
+      if (auth.tokenId) headers.set(AUTH_HEADERS.tokenId, auth.tokenId)
+    }
+    return NextResponse.next({ request: { headers } })
+  }
+
+  if (PUBLIC_PATHS.includes(pathname)) {
+    return forward()
+  }
+
+  const isWebhook = request.method === 'POST' && WEBHOOK_PATHS.includes(pathname)
+
+  if (isAuthDisabled()) {
+    return forward({ workspaceId: DEFAULT_WORKSPACE_ID, method: 'disabled' })
+  }
+
+  const session = await verifySession(request.cookies.get(SESSION_COOKIE)?.value)
+  if (session) {
+    return forward({
+      workspaceId: session.workspaceId,
+      method: 'session',
+      userId: session.userId,
+      email: session.email
+    })
+  }
+
+  // Automations (Lindy, n8n, cron jobs) authenticate with workspace API tokens
+  const bearer = request.headers.get('authorization')?.match(/^Bearer\s+(lat_\S+)$/i)?.[1]
+  if (bearer && isApi) {
+    const verified = await ApiTokenService.verifyToken(bearer)
+    if (verified) {
+      return forward({ workspaceId: verified.workspaceId, method: 'token', tokenId: verified.tokenId })
+    }
+    if (isWebhook) {
+      return forward()
+    }
+    return NextResponse.json({ error: 'Invalid or revoked API token' }, { status: 401 })
+  }
+
+  if (isWebhook) {
+    return forward()
+  }
+
+  if (isApi) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  const loginUrl = new URL('/login', request.url)
+  loginUrl.searchParams.set('next', pathname)
+  return NextResponse.redirect(loginUrl)
+}
+
+export const config = {
+  matcher: ['/dashboard/:path*', '/api/:path*']
+}
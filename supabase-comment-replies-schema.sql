@@ -0,0 +1,46 @@
+-- Comment replies: AI-drafted replies to comments on our own LinkedIn posts
+-- Execute this SQL in your Supabase SQL Editor
+
+-- Each generation (src/lib/comment-replies.ts) stores its variations as a draft. Sending claims the
+-- draft (draft/failed -> sending) before calling Lindy, so the same reply can't go out twice. A send Lindy
+-- refused is failed and can be retried; one that timed out or lost its response is unknown and never resent.
+-- Replies go out as the workspace's Lindy author (workspaces.settings.linkedin.authorId).
+
+-- Create comment_replies table
+CREATE TABLE comment_replies (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id uuid NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  comment_id text NOT NULL, -- linkedin_comments.comment_id being replied to
+  post_urn text NOT NULL,
+
+  -- Draft
+  style text NOT NULL,
+  voice_profile_id uuid REFERENCES voice_profiles(id) ON DELETE SET NULL,
+  variations jsonb NOT NULL DEFAULT '[]', -- [{ text, approach, length }]
+
+  -- Sending
+  selected_text text, -- The approved text, as edited before sending
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'sending', 'sent', 'failed', 'unknown')),
+  lindy_job_id text,
+  error text,
+  sent_at timestamp with time zone,
+
+  -- Metadata
+  created_at timestamp with time zone DEFAULT NOW(),
+  updated_at timestamp with time zone DEFAULT NOW()
+);
+
+-- Create performance indexes
+CREATE INDEX idx_comment_replies_comment ON comment_replies(workspace_id, comment_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE comment_replies ENABLE ROW LEVEL SECURITY;
+
+-- Signed-in users only reach their own workspaces' rows; the app's server routes use the service role
+CREATE POLICY "Members can access their workspace rows" ON comment_replies
+  FOR ALL TO authenticated
+  USING (workspace_id IN (SELECT workspace_id FROM workspace_members WHERE user_id = auth.uid()))
+  WITH CHECK (workspace_id IN (SELECT workspace_id FROM workspace_members WHERE user_id = auth.uid()));
+
+-- Grant necessary permissions
+GRANT ALL ON comment_replies TO authenticated;
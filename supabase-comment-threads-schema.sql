@@ -0,0 +1,22 @@
+-- Comment threads: reply threading and unanswered-comment tracking for linkedin_comments
+-- Execute this SQL in your Supabase SQL Editor
+
+-- Comment sync (src/lib/comment-threads.ts) reads every page of a post's comments and stores each
+-- reply as its own row pointing at its top-level comment. The top-level row carries the thread
+-- state: when the post author last replied, and whether someone else has had the last word since.
+
+-- Threading and reply tracking
+ALTER TABLE linkedin_comments ADD COLUMN IF NOT EXISTS parent_comment_id text; -- NULL for top-level comments
+ALTER TABLE linkedin_comments ADD COLUMN IF NOT EXISTS is_owner_comment boolean NOT NULL DEFAULT false; -- Written by the post author
+ALTER TABLE linkedin_comments ADD COLUMN IF NOT EXISTS owner_replied_at timestamp with time zone;
+ALTER TABLE linkedin_comments ADD COLUMN IF NOT EXISTS needs_reply boolean NOT NULL DEFAULT false;
+ALTER TABLE linkedin_comments ADD COLUMN IF NOT EXISTS last_activity_at timestamp with time zone;
+
+-- Lets the inbox sync skip posts whose comment count hasn't moved
+ALTER TABLE linkedin_posts ADD COLUMN IF NOT EXISTS comments_synced_at timestamp with time zone;
+ALTER TABLE linkedin_posts ADD COLUMN IF NOT EXISTS comments_synced_count integer;
+
+-- Create performance indexes
+CREATE INDEX IF NOT EXISTS idx_linkedin_comments_parent ON linkedin_comments(parent_comment_id);
+CREATE INDEX IF NOT EXISTS idx_linkedin_comments_unanswered ON linkedin_comments(post_urn, icp_score DESC NULLS LAST)
+  WHERE needs_reply AND parent_comment_id IS NULL;
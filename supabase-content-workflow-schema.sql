@@ -0,0 +1,106 @@
+-- Content Approval Workflow: review status, threaded review comments, audit trail and notifications
+-- Execute this SQL in your Supabase SQL Editor
+
+-- Workflow status of generated drafts (Airtable content posts keep theirs in the Status field)
+ALTER TABLE content_drafts ADD COLUMN workflow_status text NOT NULL DEFAULT 'Draft'
+  CHECK (workflow_status IN ('Draft', 'Review', 'Approved', 'Published'));
+
+CREATE INDEX idx_content_drafts_workflow_status ON content_drafts(workflow_status);
+
+-- Create content_review_comments table (threaded via parent_id)
+CREATE TABLE content_review_comments (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+
+  -- What is being reviewed: an Airtable content post or a Supabase draft
+  backend text NOT NULL CHECK (backend IN ('airtable', 'supabase')),
+  content_id text NOT NULL,
+
+  parent_id uuid REFERENCES content_review_comments(id) ON DELETE CASCADE,
+  author text NOT NULL,
+  body text NOT NULL,
+
+  -- Set on the thread's first comment
+  resolved_at timestamp with time zone,
+  resolved_by text,
+
+  -- Metadata
+  created_at timestamp with time zone DEFAULT NOW(),
+  updated_at timestamp with time zone DEFAULT NOW()
+);
+
+CREATE INDEX idx_content_review_comments_content ON content_review_comments(backend, content_id, created_at);
+CREATE INDEX idx_content_review_comments_parent ON content_review_comments(parent_id);
+
+-- Create content_audit_log table (append-only: one row per status change, edit or comment)
+CREATE TABLE content_audit_log (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+
+  backend text NOT NULL CHECK (backend IN ('airtable', 'supabase')),
+  content_id text NOT NULL,
+
+  action text NOT NULL CHECK (action IN ('created', 'status_change', 'edit', 'comment')),
+  from_status text,
+  to_status text,
+
+  actor text NOT NULL,
+  actor_role text NOT NULL CHECK (actor_role IN ('writer', 'approver', 'system')),
+
+  -- Edit before/after values, comment ids, linked records, review notes
+  details jsonb DEFAULT '{}',
+
+  created_at timestamp with time zone DEFAULT NOW()
+);
+
+CREATE INDEX idx_content_audit_log_content ON content_audit_log(backend, content_id, created_at);
+
+-- Audit rows can never be changed or removed, whichever key the client uses
+CREATE OR REPLACE FUNCTION prevent_content_audit_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'content_audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER content_audit_log_immutable
+  BEFORE UPDATE OR DELETE ON content_audit_log
+  FOR EACH ROW EXECUTE FUNCTION prevent_content_audit_log_changes();
+
+-- Create workflow_notifications table (in-app inbox, one row per recipient)
+CREATE TABLE workflow_notifications (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+
+  recipient text NOT NULL, -- Supabase Auth user id of the approver
+  kind text NOT NULL DEFAULT 'review_requested' CHECK (kind IN ('review_requested')),
+
+  backend text NOT NULL CHECK (backend IN ('airtable', 'supabase')),
+  content_id text NOT NULL,
+  message text NOT NULL,
+
+  read_at timestamp with time zone,
+  created_at timestamp with time zone DEFAULT NOW()
+);
+
+CREATE INDEX idx_workflow_notifications_recipient ON workflow_notifications(recipient, read_at, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE content_review_comments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE content_audit_log ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workflow_notifications ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for authenticated users
+CREATE POLICY "Allow full access to authenticated users" ON content_review_comments
+  FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE POLICY "Allow read access to authenticated users" ON content_audit_log
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Allow insert access to authenticated users" ON content_audit_log
+  FOR INSERT TO authenticated WITH CHECK (true);
+
+CREATE POLICY "Allow full access to authenticated users" ON workflow_notifications
+  FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+-- Grant necessary permissions
+GRANT ALL ON content_review_comments TO authenticated;
+GRANT SELECT, INSERT ON content_audit_log TO authenticated;
+GRANT ALL ON workflow_notifications TO authenticated;
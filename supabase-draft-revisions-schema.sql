@@ -0,0 +1,21 @@
+-- Draft revisions: feedback-driven versions of generated content drafts
+-- Execute this SQL in your Supabase SQL Editor
+
+-- Link each revision to the draft it was generated from
+ALTER TABLE content_drafts ADD COLUMN parent_draft_id uuid REFERENCES content_drafts(id) ON DELETE CASCADE;
+
+-- First draft in the chain (NULL for original drafts)
+ALTER TABLE content_drafts ADD COLUMN root_draft_id uuid REFERENCES content_drafts(id) ON DELETE CASCADE;
+
+-- 0 for the original draft, 1, 2, ... for each revision
+ALTER TABLE content_drafts ADD COLUMN revision_number integer DEFAULT 0;
+
+-- Free-text feedback that produced this revision
+ALTER TABLE content_drafts ADD COLUMN feedback text;
+
+-- Extra voice guidelines the job was generated with, reused when its drafts are revised
+ALTER TABLE content_jobs ADD COLUMN voice_guidelines text;
+
+-- Create performance indexes
+CREATE INDEX idx_content_drafts_parent ON content_drafts(parent_draft_id);
+CREATE INDEX idx_content_drafts_root ON content_drafts(root_draft_id, revision_number);
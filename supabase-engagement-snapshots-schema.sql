@@ -0,0 +1,11 @@
+-- Engagement snapshots: indexes for the worker's periodic re-fetch and the post velocity view
+-- Execute this SQL in your Supabase SQL Editor
+
+-- The worker (worker-service/src/services/engagement-tracker.ts) appends a row to
+-- post_engagement_history each time it re-reads a post younger than ENGAGEMENT_TRACKING_DAYS,
+-- and stamps linkedin_posts.last_synced_at with the snapshot time so the next scan knows when it is due.
+
+-- Create performance indexes
+CREATE INDEX IF NOT EXISTS idx_post_engagement_history_post ON post_engagement_history(post_urn, recorded_at);
+CREATE INDEX IF NOT EXISTS idx_linkedin_posts_posted_at ON linkedin_posts(posted_at DESC);
+CREATE INDEX IF NOT EXISTS idx_linkedin_posts_author ON linkedin_posts(workspace_id, author_username, posted_at DESC);
@@ -0,0 +1,51 @@
+-- ICP calibration: outcomes recorded against leads and connections
+-- Execute this SQL in your Supabase SQL Editor
+-- Run after supabase-icp-definitions-schema.sql
+
+-- Each row says what happened with a lead or connection (replied, booked a call, became a client, not interested)
+-- and keeps the ICP subject it was scored from plus the score at that moment. The calibration report in Settings
+-- uses each subject's latest outcome to show conversion by score band and criterion, and to suggest new weights.
+
+-- Create icp_outcomes table
+CREATE TABLE icp_outcomes (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id uuid NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+
+  -- Lead or connection record id, in whichever storage backend the workspace uses
+  subject_type text NOT NULL CHECK (subject_type IN ('lead', 'connection')),
+  subject_id text NOT NULL,
+  name text NOT NULL,
+  profile_url text,
+
+  outcome text NOT NULL CHECK (outcome IN ('replied', 'booked_call', 'became_client', 'not_interested')),
+  note text,
+
+  -- ICPSubject the score was computed from; reports rescore it under the current definition
+  subject jsonb NOT NULL DEFAULT '{}',
+
+  -- Score when the outcome was recorded
+  icp_score integer NOT NULL,
+  icp_category text NOT NULL,
+  icp_version integer NOT NULL,
+  icp_version_id uuid REFERENCES icp_definition_versions(id) ON DELETE SET NULL,
+  breakdown jsonb NOT NULL DEFAULT '{}',
+
+  -- Metadata
+  recorded_at timestamp with time zone DEFAULT NOW()
+);
+
+-- Create performance indexes
+CREATE INDEX idx_icp_outcomes_workspace ON icp_outcomes(workspace_id, recorded_at DESC);
+CREATE INDEX idx_icp_outcomes_subject ON icp_outcomes(workspace_id, subject_type, subject_id, recorded_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE icp_outcomes ENABLE ROW LEVEL SECURITY;
+
+-- Signed-in users only reach their own workspaces' rows; the app's server routes use the service role
+CREATE POLICY "Members can access their workspace rows" ON icp_outcomes
+  FOR ALL TO authenticated
+  USING (workspace_id IN (SELECT workspace_id FROM workspace_members WHERE user_id = auth.uid()))
+  WITH CHECK (workspace_id IN (SELECT workspace_id FROM workspace_members WHERE user_id = auth.uid()));
+
+-- Grant necessary permissions
+GRANT ALL ON icp_outcomes TO authenticated;
@@ -0,0 +1,82 @@
+-- ICP definitions: the versioned Ideal Customer Profile each workspace scores prospects against
+-- Execute this SQL in your Supabase SQL Editor
+
+-- Every scorer (commenter research, comment sync, the research webhook) runs the rule engine in
+-- src/lib/icp-engine.ts against the workspace's latest definition. Saving in Settings writes a new
+-- version row; stored scores record the version that produced them, and a rescore run brings
+-- everyone onto the current one. A workspace without a definition is seeded with the built-in default.
+
+-- Create icp_definition_versions table (immutable snapshot per edit)
+CREATE TABLE icp_definition_versions (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id uuid NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  version integer NOT NULL,
+
+  -- { criteria, weights, redFlags, categories } (ICPDefinitionSchema)
+  definition jsonb NOT NULL,
+  note text,
+
+  -- Metadata
+  created_at timestamp with time zone DEFAULT NOW(),
+
+  UNIQUE (workspace_id, version)
+);
+
+-- Create icp_rescore_runs table (one row per "rescore everyone" run)
+CREATE TABLE icp_rescore_runs (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id uuid NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  icp_version_id uuid REFERENCES icp_definition_versions(id) ON DELETE SET NULL,
+  icp_version integer NOT NULL,
+  status text NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+
+  -- Progress
+  commenters_total integer NOT NULL DEFAULT 0,
+  commenters_rescored integer NOT NULL DEFAULT 0,
+  leads_total integer NOT NULL DEFAULT 0,
+  leads_rescored integer NOT NULL DEFAULT 0,
+  skipped integer NOT NULL DEFAULT 0,
+  failed integer NOT NULL DEFAULT 0,
+  error text,
+
+  -- Metadata
+  started_at timestamp with time zone DEFAULT NOW(),
+  finished_at timestamp with time zone,
+  updated_at timestamp with time zone DEFAULT NOW()
+);
+
+-- Which ICP version produced each stored score
+ALTER TABLE linkedin_profiles ADD COLUMN IF NOT EXISTS icp_version integer;
+ALTER TABLE linkedin_profiles ADD COLUMN IF NOT EXISTS icp_version_id uuid REFERENCES icp_definition_versions(id) ON DELETE SET NULL;
+ALTER TABLE linkedin_comments ADD COLUMN IF NOT EXISTS icp_version integer;
+ALTER TABLE linkedin_comments ADD COLUMN IF NOT EXISTS icp_version_id uuid REFERENCES icp_definition_versions(id) ON DELETE SET NULL;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS icp_version integer; -- Airtable: add an "ICP Version" number field to Leads
+
+-- Create performance indexes
+CREATE INDEX idx_icp_definition_versions_workspace ON icp_definition_versions(workspace_id, version DESC);
+CREATE INDEX idx_icp_rescore_runs_workspace ON icp_rescore_runs(workspace_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_linkedin_comments_author ON linkedin_comments(author_profile_url);
+
+-- Only one rescore at a time per workspace
+CREATE UNIQUE INDEX idx_icp_rescore_runs_single_running
+ON icp_rescore_runs(workspace_id)
+WHERE status = 'running';
+
+-- Enable Row Level Security
+ALTER TABLE icp_definition_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE icp_rescore_runs ENABLE ROW LEVEL SECURITY;
+
+-- Signed-in users only reach their own workspaces' rows; the app's server routes use the service role
+CREATE POLICY "Members can access their workspace rows" ON icp_definition_versions
+  FOR ALL TO authenticated
+  USING (workspace_id IN (SELECT workspace_id FROM workspace_members WHERE user_id = auth.uid()))
+  WITH CHECK (workspace_id IN (SELECT workspace_id FROM workspace_members WHERE user_id = auth.uid()));
+
+CREATE POLICY "Members can access their workspace rows" ON icp_rescore_runs
+  FOR ALL TO authenticated
+  USING (workspace_id IN (SELECT workspace_id FROM workspace_members WHERE user_id = auth.uid()))
+  WITH CHECK (workspace_id IN (SELECT workspace_id FROM workspace_members WHERE user_id = auth.uid()));
+
+-- Grant necessary permissions
+GRANT ALL ON icp_definition_versions TO authenticated;
+GRANT ALL ON icp_rescore_runs TO authenticated;
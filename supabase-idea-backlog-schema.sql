@@ -0,0 +1,49 @@
+-- Content Idea Backlog: topics saved for later, clustered into themes
+-- Execute this SQL in your Supabase SQL Editor
+
+-- Create content_ideas table (one row per saved idea)
+CREATE TABLE content_ideas (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+
+  -- The idea itself
+  topic text NOT NULL,
+  angle text,
+  notes text,
+
+  -- Where it came from
+  source text NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'research', 'influencer_post')),
+  source_ref text, -- "<job id>:idea_<n>" for research, Airtable record id for influencer posts
+  source_url text,
+  job_id uuid REFERENCES content_jobs(id) ON DELETE SET NULL,
+
+  -- Clustering and overlap with past posts (recomputed when the idea is saved)
+  theme text,
+  overlap jsonb DEFAULT '{}',
+
+  -- Lifecycle
+  status text NOT NULL DEFAULT 'new' CHECK (status IN ('new', 'planned', 'used', 'dismissed')),
+  used_job_id uuid REFERENCES content_jobs(id) ON DELETE SET NULL,
+
+  -- Metadata
+  created_at timestamp with time zone DEFAULT NOW(),
+  updated_at timestamp with time zone DEFAULT NOW()
+);
+
+-- Create performance indexes
+CREATE INDEX idx_content_ideas_status ON content_ideas(status, created_at DESC);
+CREATE INDEX idx_content_ideas_theme ON content_ideas(theme);
+
+-- The same research idea or influencer post is only imported once
+CREATE UNIQUE INDEX idx_content_ideas_source_ref
+ON content_ideas(source, source_ref)
+WHERE source_ref IS NOT NULL;
+
+-- Enable Row Level Security
+ALTER TABLE content_ideas ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for authenticated users
+CREATE POLICY "Allow full access to authenticated users" ON content_ideas
+  FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+-- Grant necessary permissions
+GRANT ALL ON content_ideas TO authenticated;
@@ -0,0 +1,97 @@
+-- Lead pipeline: workspace-defined stages, the leads/connections/profiles on them, and every stage change
+-- Execute this SQL in your Supabase SQL Editor
+
+-- The Pipeline page shows one column per stage. A workspace without stages is seeded with
+-- Identified, Engaging, Conversation, Call Booked and Client. Cards point at a lead or connection record
+-- (Airtable or Supabase, per the workspace's storage settings) or a researched profile in linkedin_profiles,
+-- and keep a snapshot of name, headline and ICP score. Each stay in a stage is a pipeline_stage_visits row,
+-- so time-in-stage survives later moves.
+
+-- Create pipeline_stages table
+CREATE TABLE pipeline_stages (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id uuid NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  position integer NOT NULL DEFAULT 0,
+
+  -- Metadata
+  created_at timestamp with time zone DEFAULT NOW(),
+
+  UNIQUE (workspace_id, name)
+);
+
+-- Create pipeline_cards table (one per lead, connection or profile on the board)
+CREATE TABLE pipeline_cards (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id uuid NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  stage_id uuid NOT NULL REFERENCES pipeline_stages(id) ON DELETE RESTRICT,
+  position double precision NOT NULL DEFAULT 0, -- Sort key within the column
+
+  -- Record id for leads and connections, profile URL for profiles
+  subject_type text NOT NULL CHECK (subject_type IN ('lead', 'connection', 'profile')),
+  subject_id text NOT NULL,
+
+  -- Snapshot of the subject when it was added
+  name text NOT NULL,
+  headline text,
+  company text,
+  profile_url text,
+  profile_picture text,
+  icp_score integer,
+
+  -- Follow-up
+  owner_user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  next_action text,
+  next_action_at date,
+
+  -- Metadata
+  stage_entered_at timestamp with time zone NOT NULL DEFAULT NOW(),
+  created_at timestamp with time zone DEFAULT NOW(),
+  updated_at timestamp with time zone DEFAULT NOW(),
+
+  UNIQUE (workspace_id, subject_type, subject_id)
+);
+
+-- Create pipeline_stage_visits table (one row per stay in a stage)
+CREATE TABLE pipeline_stage_visits (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id uuid NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  card_id uuid NOT NULL REFERENCES pipeline_cards(id) ON DELETE CASCADE,
+  stage_id uuid REFERENCES pipeline_stages(id) ON DELETE SET NULL,
+  stage_name text NOT NULL, -- Kept so history reads the same after a stage is renamed or deleted
+  entered_at timestamp with time zone NOT NULL DEFAULT NOW(),
+  exited_at timestamp with time zone, -- Unset for the card's current stage
+  moved_by uuid REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+-- Create performance indexes
+CREATE INDEX idx_pipeline_stages_workspace ON pipeline_stages(workspace_id, position);
+CREATE INDEX idx_pipeline_cards_stage ON pipeline_cards(workspace_id, stage_id, position);
+CREATE INDEX idx_pipeline_cards_next_action ON pipeline_cards(workspace_id, next_action_at) WHERE next_action_at IS NOT NULL;
+CREATE INDEX idx_pipeline_stage_visits_card ON pipeline_stage_visits(card_id, entered_at);
+
+-- Enable Row Level Security
+ALTER TABLE pipeline_stages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pipeline_cards ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pipeline_stage_visits ENABLE ROW LEVEL SECURITY;
+
+-- Signed-in users only reach their own workspaces' rows; the app's server routes use the service role
+CREATE POLICY "Members can access their workspace rows" ON pipeline_stages
+  FOR ALL TO authenticated
+  USING (workspace_id IN (SELECT workspace_id FROM workspace_members WHERE user_id = auth.uid()))
+  WITH CHECK (workspace_id IN (SELECT workspace_id FROM workspace_members WHERE user_id = auth.uid()));
+
+CREATE POLICY "Members can access their workspace rows" ON pipeline_cards
+  FOR ALL TO authenticated
+  USING (workspace_id IN (SELECT workspace_id FROM workspace_members WHERE user_id = auth.uid()))
+  WITH CHECK (workspace_id IN (SELECT workspace_id FROM workspace_members WHERE user_id = auth.uid()));
+
+CREATE POLICY "Members can access their workspace rows" ON pipeline_stage_visits
+  FOR ALL TO authenticated
+  USING (workspace_id IN (SELECT workspace_id FROM workspace_members WHERE user_id = auth.uid()))
+  WITH CHECK (workspace_id IN (SELECT workspace_id FROM workspace_members WHERE user_id = auth.uid()));
+
+-- Grant necessary permissions
+GRANT ALL ON pipeline_stages TO authenticated;
+GRANT ALL ON pipeline_cards TO authenticated;
+GRANT ALL ON pipeline_stage_visits TO authenticated;
@@ -0,0 +1,11 @@
+-- Multi-platform content: one research run fanned out to several platforms
+-- Execute this SQL in your Supabase SQL Editor
+
+-- All platforms requested for the job (platform remains the primary one)
+ALTER TABLE content_jobs ADD COLUMN platforms text[] DEFAULT '{}';
+
+-- Backfill existing jobs with their single platform
+UPDATE content_jobs SET platforms = ARRAY[platform] WHERE platforms = '{}' OR platforms IS NULL;
+
+-- Drafts keep their platform-specific structure in content (content.platform, content.platform_content)
+CREATE INDEX idx_content_drafts_platform ON content_drafts((content->>'platform'));
@@ -0,0 +1,45 @@
+-- Post Publications: idempotency ledger for scheduled publishing
+-- Execute this SQL in your Supabase SQL Editor
+
+-- Create post_publications table (one row per Airtable content post, ever)
+CREATE TABLE post_publications (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+
+  -- Airtable Content Posts record id; unique so a post can only be claimed once
+  airtable_post_id text NOT NULL UNIQUE,
+  publisher text NOT NULL CHECK (publisher IN ('lindy', 'mock')),
+
+  -- pending -> submitting -> submitted -> published
+  -- 'submitting' only persists if a worker died mid-submit, and 'unknown' means the submit timed out or the
+  -- publisher gave up after accepting the post: check LinkedIn, then mark published or reset to pending by hand
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'submitting', 'submitted', 'published', 'failed', 'unknown', 'cancelled')),
+  scheduled_for timestamp with time zone,
+  attempts integer NOT NULL DEFAULT 0,
+
+  -- Publisher job id (Lindy job) and the resulting post
+  external_id text,
+  linkedin_url text,
+  error text,
+  published_at timestamp with time zone,
+
+  -- Metadata
+  created_at timestamp with time zone DEFAULT NOW(),
+  updated_at timestamp with time zone DEFAULT NOW()
+);
+
+-- Create performance indexes
+CREATE INDEX idx_post_publications_status ON post_publications(status, updated_at);
+
+-- Enable Row Level Security
+ALTER TABLE post_publications ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for authenticated users
+CREATE POLICY "Allow full access to authenticated users" ON post_publications
+  FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+-- Grant necessary permissions
+GRANT ALL ON post_publications TO authenticated;
+
+-- Airtable: add two fields to the Content Posts table for the write-back
+--   "LinkedIn URL" (URL) and "Published At" (Date with time)
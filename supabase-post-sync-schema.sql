@@ -0,0 +1,53 @@
+-- Post sync: per-profile cursors for the worker's background LinkedIn post sync
+-- Execute this SQL in your Supabase SQL Editor
+
+-- One row per synced profile. The web app creates the row and queues a job; the worker
+-- (worker-service/src/services/post-sync.ts) pages through the profile's feed, stops at the
+-- first page with posts it already had, and keeps resume_page/pagination_token up to date so
+-- a failed or timed-out run carries on where it stopped instead of starting at page 1.
+
+-- Create linkedin_sync_cursors table
+CREATE TABLE linkedin_sync_cursors (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id uuid NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  username text NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('own', 'connection')), -- own: linkedin_posts, connection: connection_posts
+  connection_id uuid REFERENCES linkedin_connections(id) ON DELETE CASCADE,
+
+  -- Cursor
+  status text NOT NULL DEFAULT 'idle' CHECK (status IN ('idle', 'queued', 'running', 'partial', 'completed', 'failed')),
+  newest_urn text, -- First post of the feed when page 1 was last read
+  resume_page integer, -- Set while a run is unfinished
+  pagination_token text,
+  run_started_at timestamp with time zone, -- Posts saved before this are "already known"
+
+  -- Progress of the current (or last) run
+  pages_fetched integer NOT NULL DEFAULT 0,
+  posts_synced integer NOT NULL DEFAULT 0,
+  new_posts integer NOT NULL DEFAULT 0,
+  last_error text,
+  queued_at timestamp with time zone,
+  started_at timestamp with time zone,
+  finished_at timestamp with time zone,
+  last_completed_at timestamp with time zone,
+
+  -- Metadata
+  created_at timestamp with time zone DEFAULT NOW(),
+  updated_at timestamp with time zone DEFAULT NOW(),
+  UNIQUE (workspace_id, username)
+);
+
+-- Create performance indexes
+CREATE INDEX idx_linkedin_sync_cursors_status ON linkedin_sync_cursors(status, updated_at);
+
+-- Enable Row Level Security
+ALTER TABLE linkedin_sync_cursors ENABLE ROW LEVEL SECURITY;
+
+-- Signed-in users only reach their own workspaces' rows; the app's server routes use the service role
+CREATE POLICY "Members can access their workspace rows" ON linkedin_sync_cursors
+  FOR ALL TO authenticated
+  USING (workspace_id IN (SELECT workspace_id FROM workspace_members WHERE user_id = auth.uid()))
+  WITH CHECK (workspace_id IN (SELECT workspace_id FROM workspace_members WHERE user_id = auth.uid()));
+
+-- Grant necessary permissions
+GRANT ALL ON linkedin_sync_cursors TO authenticated;
@@ -0,0 +1,58 @@
+-- Lead research jobs: every research request sent to the automation platform and what came back
+-- Execute this SQL in your Supabase SQL Editor
+
+-- /api/research/trigger queues a job and sends it to RESEARCH_AUTOMATION_WEBHOOK_URL with the row id as jobId.
+-- The automation reports back through /api/research/webhook with the same jobId, and the result is saved onto
+-- the job's lead. A failed send is retried up to max_attempts with backoff; a sent job whose callback doesn't arrive
+-- by deadline_at (RESEARCH_JOB_TIMEOUT_MINUTES, 15 by default) is resent, then marked timed_out.
+-- Timeouts are applied when the job is polled and by POST /api/research/jobs/sweep.
+
+-- Create research_jobs table
+CREATE TABLE research_jobs (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id uuid NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  profile_url text NOT NULL,
+  lead_id text, -- Lead record id (Airtable or Supabase); set on request or once results are saved
+
+  -- Request
+  priority text NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high')),
+  tags text[] NOT NULL DEFAULT '{}',
+  notes text,
+
+  -- Progress
+  status text NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'sent', 'completed', 'partial', 'failed', 'timed_out')),
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 3,
+  automation_job_id text, -- Id the automation platform returned, if any
+  error text,
+
+  -- Result
+  icp_score integer,
+  recommendation text,
+  payload jsonb, -- Last webhook body, as received
+
+  -- Metadata
+  sent_at timestamp with time zone,
+  deadline_at timestamp with time zone,
+  next_attempt_at timestamp with time zone,
+  completed_at timestamp with time zone,
+  created_at timestamp with time zone DEFAULT NOW(),
+  updated_at timestamp with time zone DEFAULT NOW()
+);
+
+-- Create performance indexes
+CREATE INDEX idx_research_jobs_workspace ON research_jobs(workspace_id, created_at DESC);
+CREATE INDEX idx_research_jobs_lead ON research_jobs(workspace_id, lead_id) WHERE lead_id IS NOT NULL;
+CREATE INDEX idx_research_jobs_open ON research_jobs(workspace_id, status) WHERE status IN ('queued', 'sent');
+
+-- Enable Row Level Security
+ALTER TABLE research_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Signed-in users only reach their own workspaces' rows; the app's server routes use the service role
+CREATE POLICY "Members can access their workspace rows" ON research_jobs
+  FOR ALL TO authenticated
+  USING (workspace_id IN (SELECT workspace_id FROM workspace_members WHERE user_id = auth.uid()))
+  WITH CHECK (workspace_id IN (SELECT workspace_id FROM workspace_members WHERE user_id = auth.uid()));
+
+-- Grant necessary permissions
+GRANT ALL ON research_jobs TO authenticated;
@@ -0,0 +1,11 @@
+-- Research providers: Firecrawl, Perplexity, RSS/Atom feeds and pasted URLs share research_cache
+-- Execute this SQL in your Supabase SQL Editor
+
+-- research_cache.source now names the provider that produced the cached results
+ALTER TABLE research_cache DROP CONSTRAINT IF EXISTS research_cache_source_check;
+ALTER TABLE research_cache ADD CONSTRAINT research_cache_source_check
+  CHECK (source IN ('firecrawl', 'perplexity', 'rss', 'manual'));
+
+-- Jobs record which providers and source URLs their research came from
+-- (content_jobs.research_data->'providers' and ->'sources'; drafts keep metadata->'research_provenance')
+CREATE INDEX idx_content_jobs_research_providers ON content_jobs USING gin ((research_data->'providers'));
@@ -0,0 +1,171 @@
+-- Storage: Supabase tables for the entities that used to live only in Airtable
+-- Execute this SQL in your Supabase SQL Editor
+-- Then copy the data across with `POST /api/storage/migrate` as a workspace owner (add {"switchBackend": true} to start reading from Supabase)
+
+-- Column names follow the Airtable fields (src/lib/storage/supabase.ts has the mapping).
+-- Migrated rows keep their Airtable record id as id, so references stored elsewhere
+-- (post_publications, content_workflow_events, linked records) still resolve.
+
+-- Create content_posts table (Airtable: Content Posts)
+CREATE TABLE content_posts (
+  id text DEFAULT gen_random_uuid()::text PRIMARY KEY,
+  workspace_id uuid NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  airtable_id text,
+
+  post_id text,
+  content text NOT NULL,
+  post_type text,
+  status text,
+  hashtags text[],
+  scheduled_date timestamp with time zone,
+  created_by text,
+  views integer,
+  likes integer,
+  comments integer,
+  linkedin_url text,
+  published_at timestamp with time zone,
+
+  -- Metadata
+  created_at timestamp with time zone DEFAULT NOW(),
+  updated_at timestamp with time zone DEFAULT NOW(),
+  UNIQUE (workspace_id, airtable_id)
+);
+
+-- Create influencers table (Airtable: Influencers)
+CREATE TABLE influencers (
+  id text DEFAULT gen_random_uuid()::text PRIMARY KEY,
+  workspace_id uuid NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  airtable_id text,
+
+  full_name text NOT NULL,
+  username text NOT NULL,
+  profile_url text,
+  role text,
+  company text,
+  priority_rank integer,
+  last_engaged timestamp with time zone,
+  status text,
+  engagement_count integer,
+
+  -- Metadata
+  created_at timestamp with time zone DEFAULT NOW(),
+  updated_at timestamp with time zone DEFAULT NOW(),
+  UNIQUE (workspace_id, airtable_id)
+);
+
+-- Create influencer_posts table (Airtable: Influencer Posts)
+CREATE TABLE influencer_posts (
+  id text DEFAULT gen_random_uuid()::text PRIMARY KEY,
+  workspace_id uuid NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  airtable_id text,
+
+  influencer_ids text[], -- influencers.id, as Airtable linked records
+  content text NOT NULL,
+  posted_at timestamp with time zone,
+  linkedin_post_id text,
+  likes_count integer,
+  comments_count integer,
+  engagement_status text,
+  scraped_at timestamp with time zone,
+
+  -- Metadata
+  created_at timestamp with time zone DEFAULT NOW(),
+  updated_at timestamp with time zone DEFAULT NOW(),
+  UNIQUE (workspace_id, airtable_id)
+);
+
+-- Create leads table (Airtable: Leads)
+CREATE TABLE leads (
+  id text DEFAULT gen_random_uuid()::text PRIMARY KEY,
+  workspace_id uuid NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  airtable_id text,
+
+  name text NOT NULL,
+  profile_url text,
+  role text,
+  company text,
+  company_size text,
+  tenure_months integer,
+  icp_score integer,
+  score_breakdown text, -- JSON string, as in Airtable
+  tags text[],
+  notes text,
+  status text,
+  research_data text, -- JSON string, as in Airtable
+
+  -- Metadata
+  created_at timestamp with time zone DEFAULT NOW(),
+  updated_at timestamp with time zone DEFAULT NOW(),
+  UNIQUE (workspace_id, airtable_id)
+);
+
+-- Create generated_comments table (Airtable: Generated Comments)
+CREATE TABLE generated_comments (
+  id text DEFAULT gen_random_uuid()::text PRIMARY KEY,
+  workspace_id uuid NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  airtable_id text,
+
+  post_ids text[], -- influencer_posts.id, as Airtable linked records
+  comment_variations text NOT NULL, -- JSON array
+  selected_comment text,
+  posted_status boolean,
+  posted_at timestamp with time zone,
+
+  -- Metadata
+  created_at timestamp with time zone DEFAULT NOW(),
+  updated_at timestamp with time zone DEFAULT NOW(),
+  UNIQUE (workspace_id, airtable_id)
+);
+
+-- Connections already live in linkedin_connections; remember which Airtable record each came from
+ALTER TABLE linkedin_connections ADD COLUMN airtable_id text;
+ALTER TABLE linkedin_connections ADD CONSTRAINT linkedin_connections_workspace_airtable_id_key
+  UNIQUE (workspace_id, airtable_id);
+
+-- Create performance indexes
+CREATE INDEX idx_content_posts_workspace ON content_posts(workspace_id, created_at DESC);
+CREATE INDEX idx_content_posts_schedule ON content_posts(workspace_id, status, scheduled_date);
+CREATE INDEX idx_influencers_workspace ON influencers(workspace_id, priority_rank);
+CREATE INDEX idx_influencer_posts_workspace ON influencer_posts(workspace_id, posted_at DESC);
+CREATE INDEX idx_leads_workspace ON leads(workspace_id, icp_score DESC);
+CREATE INDEX idx_generated_comments_workspace ON generated_comments(workspace_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE content_posts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE influencers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE influencer_posts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE leads ENABLE ROW LEVEL SECURITY;
+ALTER TABLE generated_comments ENABLE ROW LEVEL SECURITY;
+
+-- Signed-in users only reach their own workspaces' rows; the app's server routes use the service role
+CREATE POLICY "Members can access their workspace rows" ON content_posts
+  FOR ALL TO authenticated
+  USING (workspace_id IN (SELECT workspace_id FROM workspace_members WHERE user_id = auth.uid()))
+  WITH CHECK (workspace_id IN (SELECT workspace_id FROM workspace_members WHERE user_id = auth.uid()));
+
+CREATE POLICY "Members can access their workspace rows" ON influencers
+  FOR ALL TO authenticated
+  USING (workspace_id IN (SELECT workspace_id FROM workspace_members WHERE user_id = auth.uid()))
+  WITH CHECK (workspace_id IN (SELECT workspace_id FROM workspace_members WHERE user_id = auth.uid()));
+
+CREATE POLICY "Members can access their workspace rows" ON influencer_posts
+  FOR ALL TO authenticated
+  USING (workspace_id IN (SELECT workspace_id FROM workspace_members WHERE user_id = auth.uid()))
+  WITH CHECK (workspace_id IN (SELECT workspace_id FROM workspace_members WHERE user_id = auth.uid()));
+
+CREATE POLICY "Members can access their workspace rows" ON leads
+  FOR ALL TO authenticated
+  USING (workspace_id IN (SELECT workspace_id FROM workspace_members WHERE user_id = auth.uid()))
+  WITH CHECK (workspace_id IN (SELECT workspace_id FROM workspace_members WHERE user_id = auth.uid()));
+
+CREATE POLICY "Members can access their workspace rows" ON generated_comments
+  FOR ALL TO authenticated
+  USING (workspace_id IN (SELECT workspace_id FROM workspace_members WHERE user_id = auth.uid()))
+  WITH CHECK (workspace_id IN (SELECT workspace_id FROM workspace_members WHERE user_id = auth.uid()));
+
+-- Grant necessary permissions
+GRANT ALL ON content_posts TO authenticated;
+GRANT ALL ON influencers TO authenticated;
+GRANT ALL ON influencer_posts TO authenticated;
+GRANT ALL ON leads TO authenticated;
+GRANT ALL ON generated_comments TO authenticated;
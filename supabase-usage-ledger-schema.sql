@@ -0,0 +1,78 @@
+-- Usage Ledger: tokens and estimated cost for every LLM, research and scraper call
+-- Execute this SQL in your Supabase SQL Editor
+
+-- Create usage_ledger table (one row per billable call)
+CREATE TABLE usage_ledger (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  occurred_at timestamp with time zone DEFAULT NOW(),
+
+  -- What was called
+  category text NOT NULL CHECK (category IN ('llm', 'research', 'scraper')),
+  provider text NOT NULL, -- openai, anthropic, stub, firecrawl, perplexity, rapidapi
+  operation text NOT NULL, -- chat_completion, search, profile_posts, ...
+  model text,
+
+  -- Usage
+  prompt_tokens integer DEFAULT 0,
+  completion_tokens integer DEFAULT 0,
+  total_tokens integer DEFAULT 0,
+  request_count integer DEFAULT 1,
+  estimated_cost_usd numeric(12, 6) DEFAULT 0,
+
+  -- Tags
+  job_id uuid REFERENCES content_jobs(id) ON DELETE SET NULL,
+  queue_job_id text,
+  agent_name text,
+  route text,
+  user_id text,
+  metadata jsonb DEFAULT '{}'
+);
+
+-- Create performance indexes
+CREATE INDEX idx_usage_ledger_occurred_at ON usage_ledger(occurred_at DESC);
+CREATE INDEX idx_usage_ledger_job ON usage_ledger(job_id);
+CREATE INDEX idx_usage_ledger_category ON usage_ledger(category, provider);
+
+-- Total spend since a point in time (used for budget caps)
+CREATE OR REPLACE FUNCTION get_usage_spend(since timestamp with time zone)
+RETURNS numeric AS $$
+  SELECT COALESCE(SUM(estimated_cost_usd), 0)
+  FROM usage_ledger
+  WHERE occurred_at >= since;
+$$ LANGUAGE sql STABLE;
+
+-- Daily and monthly spend (UTC)
+CREATE VIEW usage_daily_spend AS
+SELECT
+  date_trunc('day', occurred_at) AS day,
+  category,
+  provider,
+  SUM(total_tokens) AS total_tokens,
+  SUM(request_count) AS request_count,
+  SUM(estimated_cost_usd) AS estimated_cost_usd
+FROM usage_ledger
+GROUP BY 1, 2, 3;
+
+CREATE VIEW usage_monthly_spend AS
+SELECT
+  date_trunc('month', occurred_at) AS month,
+  category,
+  provider,
+  SUM(total_tokens) AS total_tokens,
+  SUM(request_count) AS request_count,
+  SUM(estimated_cost_usd) AS estimated_cost_usd
+FROM usage_ledger
+GROUP BY 1, 2, 3;
+
+-- Enable Row Level Security
+ALTER TABLE usage_ledger ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for authenticated users
+CREATE POLICY "Allow full access to authenticated users" ON usage_ledger
+  FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+-- Grant necessary permissions
+GRANT ALL ON usage_ledger TO authenticated;
+GRANT SELECT ON usage_daily_spend TO authenticated;
+GRANT SELECT ON usage_monthly_spend TO authenticated;
+GRANT EXECUTE ON FUNCTION get_usage_spend TO authenticated;
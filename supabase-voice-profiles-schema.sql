@@ -0,0 +1,62 @@
+-- Voice Profiles for AI content generation
+-- Execute this SQL in your Supabase SQL Editor
+
+-- Create voice_profiles table (one row per named voice)
+CREATE TABLE voice_profiles (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+
+  -- Profile identity
+  name text NOT NULL,
+  description text,
+  is_default boolean DEFAULT false,
+
+  -- Latest version number (see voice_profile_versions)
+  current_version integer NOT NULL DEFAULT 1,
+
+  -- Metadata
+  created_at timestamp with time zone DEFAULT NOW(),
+  updated_at timestamp with time zone DEFAULT NOW()
+);
+
+-- Create voice_profile_versions table (immutable snapshot per edit)
+CREATE TABLE voice_profile_versions (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  profile_id uuid REFERENCES voice_profiles(id) ON DELETE CASCADE,
+  version integer NOT NULL,
+
+  -- Voice rules
+  tone_rules text[] DEFAULT '{}',
+  hooks text[] DEFAULT '{}',
+  cta_patterns text[] DEFAULT '{}',
+  banned_phrases text[] DEFAULT '{}',
+  example_posts text[] DEFAULT '{}',
+
+  -- Metadata
+  created_at timestamp with time zone DEFAULT NOW(),
+
+  UNIQUE (profile_id, version)
+);
+
+-- Create performance indexes
+CREATE INDEX idx_voice_profiles_name ON voice_profiles(name);
+CREATE INDEX idx_voice_profile_versions_profile ON voice_profile_versions(profile_id, version DESC);
+
+-- Only one default profile at a time
+CREATE UNIQUE INDEX idx_voice_profiles_single_default
+ON voice_profiles(is_default)
+WHERE is_default = true;
+
+-- Enable Row Level Security
+ALTER TABLE voice_profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE voice_profile_versions ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for authenticated users
+CREATE POLICY "Allow full access to authenticated users" ON voice_profiles
+  FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE POLICY "Allow full access to authenticated users" ON voice_profile_versions
+  FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+-- Grant necessary permissions
+GRANT ALL ON voice_profiles TO authenticated;
+GRANT ALL ON voice_profile_versions TO authenticated;
@@ -0,0 +1,49 @@
+-- Webhook events: every delivery to the Lindy, research, influencer and comment generation webhooks
+-- Execute this SQL in your Supabase SQL Editor
+
+-- Deliveries are checked against their source's HMAC-SHA256 secret (LINDY_WEBHOOK_SECRET, RESEARCH_WEBHOOK_SECRET,
+-- INFLUENCER_WEBHOOK_SECRET, COMMENT_WEBHOOK_SECRET), a signed timestamp within WEBHOOK_TOLERANCE_SECONDS
+-- (300 by default) and a signed nonce that hasn't been accepted before. Accepted and rejected deliveries are both kept
+-- with their raw body, so rejected ones can be inspected and replayed from Settings > Security.
+
+-- Create webhook_events table
+CREATE TABLE webhook_events (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id uuid NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  source text NOT NULL CHECK (source IN ('lindy', 'research', 'influencers', 'comment_generation')),
+  status text NOT NULL CHECK (status IN ('accepted', 'rejected')),
+  reason text, -- Why the delivery was rejected
+
+  -- Verification
+  verified boolean NOT NULL DEFAULT false, -- Signature checked; false for deliveries on a legacy static token
+  nonce text, -- Signed X-Webhook-Nonce, else jobId@timestamp, else sig:<signature>; replays use replay:<event id>
+  signed_at timestamp with time zone,
+
+  -- Delivery (credentials are not stored)
+  headers jsonb NOT NULL DEFAULT '{}',
+  body text NOT NULL,
+  replay_of uuid REFERENCES webhook_events(id) ON DELETE SET NULL,
+
+  -- Metadata
+  created_at timestamp with time zone DEFAULT NOW()
+);
+
+-- Replay protection: a nonce is accepted once per source
+CREATE UNIQUE INDEX idx_webhook_events_nonce ON webhook_events(workspace_id, source, nonce)
+  WHERE status = 'accepted' AND nonce IS NOT NULL;
+
+-- Create performance indexes
+CREATE INDEX idx_webhook_events_workspace ON webhook_events(workspace_id, created_at DESC);
+CREATE INDEX idx_webhook_events_rejected ON webhook_events(workspace_id, source, created_at DESC) WHERE status = 'rejected';
+
+-- Enable Row Level Security
+ALTER TABLE webhook_events ENABLE ROW LEVEL SECURITY;
+
+-- Signed-in users only reach their own workspaces' rows; the app's server routes use the service role
+CREATE POLICY "Members can access their workspace rows" ON webhook_events
+  FOR ALL TO authenticated
+  USING (workspace_id IN (SELECT workspace_id FROM workspace_members WHERE user_id = auth.uid()))
+  WITH CHECK (workspace_id IN (SELECT workspace_id FROM workspace_members WHERE user_id = auth.uid()));
+
+-- Grant necessary permissions
+GRANT ALL ON webhook_events TO authenticated;
@@ -0,0 +1,260 @@
+-- Workspaces: login sessions, per-workspace data isolation and API tokens for automations
+-- Execute this SQL in your Supabase SQL Editor
+-- Users sign in with Supabase Auth (Authentication > Users); add them to a workspace in workspace_members
+
+-- Create workspaces table (one per coach or client account)
+CREATE TABLE workspaces (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  name text NOT NULL,
+  slug text NOT NULL UNIQUE,
+
+  -- Per-workspace integrations, e.g. {"airtable": {"baseId": "app...", "tables": {"contentPosts": "tbl..."}}}
+  -- and the workspace's own LinkedIn profile, {"linkedin": {"username": "...", "authorId": "<Lindy author id>"}}
+  settings jsonb DEFAULT '{}',
+
+  -- Metadata
+  created_at timestamp with time zone DEFAULT NOW(),
+  updated_at timestamp with time zone DEFAULT NOW()
+);
+
+-- Create workspace_members table (Supabase Auth users in each workspace)
+CREATE TABLE workspace_members (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id uuid NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role text NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'admin', 'member')),
+  display_name text,
+  created_at timestamp with time zone DEFAULT NOW(),
+  UNIQUE (workspace_id, user_id)
+);
+
+CREATE INDEX idx_workspace_members_user ON workspace_members(user_id);
+
+-- Create api_tokens table (bearer tokens for webhooks and automations; only the hash is stored)
+CREATE TABLE api_tokens (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id uuid NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  token_hash text NOT NULL UNIQUE,
+  token_prefix text NOT NULL, -- first characters, to tell tokens apart in the UI
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  last_used_at timestamp with time zone,
+  revoked_at timestamp with time zone,
+  created_at timestamp with time zone DEFAULT NOW()
+);
+
+CREATE INDEX idx_api_tokens_workspace ON api_tokens(workspace_id, created_at DESC);
+
+-- Existing data belongs to the default workspace (DEFAULT_WORKSPACE_ID in the app)
+INSERT INTO workspaces (id, name, slug)
+VALUES ('00000000-0000-0000-0000-000000000001', 'Default', 'default');
+
+-- Scope jobs, posts and connections to a workspace
+ALTER TABLE content_jobs ADD COLUMN workspace_id uuid REFERENCES workspaces(id) ON DELETE CASCADE
+  DEFAULT '00000000-0000-0000-0000-000000000001';
+ALTER TABLE linkedin_posts ADD COLUMN workspace_id uuid REFERENCES workspaces(id) ON DELETE CASCADE
+  DEFAULT '00000000-0000-0000-0000-000000000001';
+ALTER TABLE linkedin_connections ADD COLUMN workspace_id uuid REFERENCES workspaces(id) ON DELETE CASCADE
+  DEFAULT '00000000-0000-0000-0000-000000000001';
+ALTER TABLE connection_posts ADD COLUMN workspace_id uuid REFERENCES workspaces(id) ON DELETE CASCADE
+  DEFAULT '00000000-0000-0000-0000-000000000001';
+
+UPDATE content_jobs SET workspace_id = '00000000-0000-0000-0000-000000000001' WHERE workspace_id IS NULL;
+UPDATE linkedin_posts SET workspace_id = '00000000-0000-0000-0000-000000000001' WHERE workspace_id IS NULL;
+UPDATE linkedin_connections SET workspace_id = '00000000-0000-0000-0000-000000000001' WHERE workspace_id IS NULL;
+UPDATE connection_posts SET workspace_id = '00000000-0000-0000-0000-000000000001' WHERE workspace_id IS NULL;
+
+ALTER TABLE content_jobs ALTER COLUMN workspace_id SET NOT NULL;
+ALTER TABLE linkedin_posts ALTER COLUMN workspace_id SET NOT NULL;
+ALTER TABLE linkedin_connections ALTER COLUMN workspace_id SET NOT NULL;
+ALTER TABLE connection_posts ALTER COLUMN workspace_id SET NOT NULL;
+
+-- Create performance indexes
+CREATE INDEX idx_content_jobs_workspace ON content_jobs(workspace_id, created_at DESC);
+CREATE INDEX idx_linkedin_posts_workspace ON linkedin_posts(workspace_id, posted_at DESC);
+CREATE INDEX idx_linkedin_connections_workspace ON linkedin_connections(workspace_id, created_at DESC);
+CREATE INDEX idx_connection_posts_workspace ON connection_posts(workspace_id);
+
+-- Posts, comments and connections are unique within a workspace, so two workspaces can track the same profile or post
+-- without a sync in one taking over the other's rows
+ALTER TABLE linkedin_posts DROP CONSTRAINT IF EXISTS linkedin_posts_urn_key;
+ALTER TABLE linkedin_posts ADD CONSTRAINT linkedin_posts_workspace_urn_key UNIQUE (workspace_id, urn);
+
+ALTER TABLE connection_posts DROP CONSTRAINT IF EXISTS connection_posts_post_urn_key;
+ALTER TABLE connection_posts ADD CONSTRAINT connection_posts_workspace_post_urn_key UNIQUE (workspace_id, post_urn);
+
+ALTER TABLE linkedin_comments ADD COLUMN workspace_id uuid REFERENCES workspaces(id) ON DELETE CASCADE
+  DEFAULT '00000000-0000-0000-0000-000000000001';
+UPDATE linkedin_comments SET workspace_id = '00000000-0000-0000-0000-000000000001' WHERE workspace_id IS NULL;
+ALTER TABLE linkedin_comments ALTER COLUMN workspace_id SET NOT NULL;
+ALTER TABLE linkedin_comments DROP CONSTRAINT IF EXISTS linkedin_comments_comment_id_key;
+ALTER TABLE linkedin_comments ADD CONSTRAINT linkedin_comments_workspace_comment_id_key UNIQUE (workspace_id, comment_id);
+CREATE INDEX idx_linkedin_comments_workspace ON linkedin_comments(workspace_id, post_urn);
+
+DROP INDEX idx_linkedin_connections_username_unique;
+CREATE UNIQUE INDEX idx_linkedin_connections_username_unique
+ON linkedin_connections(workspace_id, username)
+WHERE username IS NOT NULL AND username != '';
+
+-- Scope ideas, voice profiles, usage and the approval workflow to a workspace
+ALTER TABLE content_ideas ADD COLUMN workspace_id uuid REFERENCES workspaces(id) ON DELETE CASCADE
+  DEFAULT '00000000-0000-0000-0000-000000000001';
+ALTER TABLE voice_profiles ADD COLUMN workspace_id uuid REFERENCES workspaces(id) ON DELETE CASCADE
+  DEFAULT '00000000-0000-0000-0000-000000000001';
+ALTER TABLE usage_ledger ADD COLUMN workspace_id uuid REFERENCES workspaces(id) ON DELETE CASCADE
+  DEFAULT '00000000-0000-0000-0000-000000000001';
+ALTER TABLE content_review_comments ADD COLUMN workspace_id uuid REFERENCES workspaces(id) ON DELETE CASCADE
+  DEFAULT '00000000-0000-0000-0000-000000000001';
+ALTER TABLE content_audit_log ADD COLUMN workspace_id uuid REFERENCES workspaces(id) ON DELETE CASCADE
+  DEFAULT '00000000-0000-0000-0000-000000000001';
+ALTER TABLE workflow_notifications ADD COLUMN workspace_id uuid REFERENCES workspaces(id) ON DELETE CASCADE
+  DEFAULT '00000000-0000-0000-0000-000000000001';
+
+-- content_audit_log is append-only, so its existing rows take the column default instead of an UPDATE
+UPDATE content_ideas SET workspace_id = '00000000-0000-0000-0000-000000000001' WHERE workspace_id IS NULL;
+UPDATE voice_profiles SET workspace_id = '00000000-0000-0000-0000-000000000001' WHERE workspace_id IS NULL;
+UPDATE usage_ledger SET workspace_id = '00000000-0000-0000-0000-000000000001' WHERE workspace_id IS NULL;
+UPDATE content_review_comments SET workspace_id = '00000000-0000-0000-0000-000000000001' WHERE workspace_id IS NULL;
+UPDATE workflow_notifications SET workspace_id = '00000000-0000-0000-0000-000000000001' WHERE workspace_id IS NULL;
+
+ALTER TABLE content_ideas ALTER COLUMN workspace_id SET NOT NULL;
+ALTER TABLE voice_profiles ALTER COLUMN workspace_id SET NOT NULL;
+ALTER TABLE usage_ledger ALTER COLUMN workspace_id SET NOT NULL;
+ALTER TABLE content_review_comments ALTER COLUMN workspace_id SET NOT NULL;
+ALTER TABLE content_audit_log ALTER COLUMN workspace_id SET NOT NULL;
+ALTER TABLE workflow_notifications ALTER COLUMN workspace_id SET NOT NULL;
+
+CREATE INDEX idx_content_ideas_workspace ON content_ideas(workspace_id, status, created_at DESC);
+CREATE INDEX idx_voice_profiles_workspace ON voice_profiles(workspace_id, name);
+CREATE INDEX idx_usage_ledger_workspace ON usage_ledger(workspace_id, occurred_at DESC);
+CREATE INDEX idx_content_review_comments_workspace ON content_review_comments(workspace_id, backend, content_id, created_at);
+CREATE INDEX idx_content_audit_log_workspace ON content_audit_log(workspace_id, backend, content_id, created_at);
+CREATE INDEX idx_workflow_notifications_workspace ON workflow_notifications(workspace_id, recipient, read_at, created_at DESC);
+
+-- Imports are deduplicated and the default voice profile chosen within each workspace
+DROP INDEX idx_content_ideas_source_ref;
+CREATE UNIQUE INDEX idx_content_ideas_source_ref
+ON content_ideas(workspace_id, source, source_ref)
+WHERE source_ref IS NOT NULL;
+
+DROP INDEX idx_voice_profiles_single_default;
+CREATE UNIQUE INDEX idx_voice_profiles_single_default
+ON voice_profiles(workspace_id)
+WHERE is_default = true;
+
+-- Budget caps (BUDGET_DAILY_USD, BUDGET_MONTHLY_USD) apply to each workspace's own spend
+DROP FUNCTION get_usage_spend(timestamp with time zone);
+CREATE OR REPLACE FUNCTION get_usage_spend(since timestamp with time zone, workspace uuid)
+RETURNS numeric AS $$
+  SELECT COALESCE(SUM(estimated_cost_usd), 0)
+  FROM usage_ledger
+  WHERE occurred_at >= since
+    AND workspace_id = workspace;
+$$ LANGUAGE sql STABLE;
+
+-- Daily and monthly spend (UTC) per workspace; security_invoker applies the ledger's policies to readers
+DROP VIEW usage_daily_spend;
+DROP VIEW usage_monthly_spend;
+
+CREATE VIEW usage_daily_spend WITH (security_invoker = true) AS
+SELECT
+  workspace_id,
+  date_trunc('day', occurred_at) AS day,
+  category,
+  provider,
+  SUM(total_tokens) AS total_tokens,
+  SUM(request_count) AS request_count,
+  SUM(estimated_cost_usd) AS estimated_cost_usd
+FROM usage_ledger
+GROUP BY 1, 2, 3, 4;
+
+CREATE VIEW usage_monthly_spend WITH (security_invoker = true) AS
+SELECT
+  workspace_id,
+  date_trunc('month', occurred_at) AS month,
+  category,
+  provider,
+  SUM(total_tokens) AS total_tokens,
+  SUM(request_count) AS request_count,
+  SUM(estimated_cost_usd) AS estimated_cost_usd
+FROM usage_ledger
+GROUP BY 1, 2, 3, 4;
+
+-- Enable Row Level Security
+ALTER TABLE workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workspace_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE api_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Signed-in users only see the workspaces they belong to; the app's server routes use the service role
+CREATE POLICY "Members can read their workspaces" ON workspaces
+  FOR SELECT TO authenticated
+  USING (id IN (SELECT workspace_id FROM workspace_members WHERE user_id = auth.uid()));
+
+CREATE POLICY "Members can read their memberships" ON workspace_members
+  FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+
+-- Workspace-scoped tables: signed-in users only reach their own workspaces' rows
+DROP POLICY "Allow full access to authenticated users" ON content_ideas;
+DROP POLICY "Allow full access to authenticated users" ON voice_profiles;
+DROP POLICY "Allow full access to authenticated users" ON voice_profile_versions;
+DROP POLICY "Allow full access to authenticated users" ON usage_ledger;
+DROP POLICY "Allow full access to authenticated users" ON content_review_comments;
+DROP POLICY "Allow read access to authenticated users" ON content_audit_log;
+DROP POLICY "Allow insert access to authenticated users" ON content_audit_log;
+DROP POLICY "Allow full access to authenticated users" ON workflow_notifications;
+
+CREATE POLICY "Members can access their workspace rows" ON content_ideas
+  FOR ALL TO authenticated
+  USING (workspace_id IN (SELECT workspace_id FROM workspace_members WHERE user_id = auth.uid()))
+  WITH CHECK (workspace_id IN (SELECT workspace_id FROM workspace_members WHERE user_id = auth.uid()));
+
+CREATE POLICY "Members can access their workspace rows" ON voice_profiles
+  FOR ALL TO authenticated
+  USING (workspace_id IN (SELECT workspace_id FROM workspace_members WHERE user_id = auth.uid()))
+  WITH CHECK (workspace_id IN (SELECT workspace_id FROM workspace_members WHERE user_id = auth.uid()));
+
+-- Versions belong to the workspace of their profile
+CREATE POLICY "Members can access their workspace rows" ON voice_profile_versions
+  FOR ALL TO authenticated
+  USING (profile_id IN (
+    SELECT id FROM voice_profiles
+    WHERE workspace_id IN (SELECT workspace_id FROM workspace_members WHERE user_id = auth.uid())
+  ))
+  WITH CHECK (profile_id IN (
+    SELECT id FROM voice_profiles
+    WHERE workspace_id IN (SELECT workspace_id FROM workspace_members WHERE user_id = auth.uid())
+  ));
+
+CREATE POLICY "Members can access their workspace rows" ON usage_ledger
+  FOR ALL TO authenticated
+  USING (workspace_id IN (SELECT workspace_id FROM workspace_members WHERE user_id = auth.uid()))
+  WITH CHECK (workspace_id IN (SELECT workspace_id FROM workspace_members WHERE user_id = auth.uid()));
+
+CREATE POLICY "Members can access their workspace rows" ON content_review_comments
+  FOR ALL TO authenticated
+  USING (workspace_id IN (SELECT workspace_id FROM workspace_members WHERE user_id = auth.uid()))
+  WITH CHECK (workspace_id IN (SELECT workspace_id FROM workspace_members WHERE user_id = auth.uid()));
+
+CREATE POLICY "Members can read their workspace rows" ON content_audit_log
+  FOR SELECT TO authenticated
+  USING (workspace_id IN (SELECT workspace_id FROM workspace_members WHERE user_id = auth.uid()));
+
+CREATE POLICY "Members can add to their workspace rows" ON content_audit_log
+  FOR INSERT TO authenticated
+  WITH CHECK (workspace_id IN (SELECT workspace_id FROM workspace_members WHERE user_id = auth.uid()));
+
+CREATE POLICY "Members can access their workspace rows" ON workflow_notifications
+  FOR ALL TO authenticated
+  USING (workspace_id IN (SELECT workspace_id FROM workspace_members WHERE user_id = auth.uid()))
+  WITH CHECK (workspace_id IN (SELECT workspace_id FROM workspace_members WHERE user_id = auth.uid()));
+
+-- Token hashes are never exposed to clients
+REVOKE ALL ON api_tokens FROM authenticated;
+
+-- Grant necessary permissions
+GRANT SELECT ON workspaces TO authenticated;
+GRANT SELECT ON workspace_members TO authenticated;
+GRANT EXECUTE ON FUNCTION get_usage_spend(timestamp with time zone, uuid) TO authenticated;
+GRANT SELECT ON usage_daily_spend TO authenticated;
+GRANT SELECT ON usage_monthly_spend TO authenticated;
@@ -5,37 +5,115 @@ import type { WorkerConfig } from '../types'
 // Load environment variables
 config()
 
+// The workspace every row belonged to before workspaces existed; untagged jobs run in it
+export const DEFAULT_WORKSPACE_ID = '00000000-0000-0000-0000-000000000001'
+
 const configSchema = z.object({
   REDIS_URL: z.string().url('REDIS_URL must be a valid URL'),
   SUPABASE_URL: z.string().url('SUPABASE_URL must be a valid URL'),
   SUPABASE_SERVICE_ROLE_KEY: z.string().min(1, 'SUPABASE_SERVICE_ROLE_KEY is required'),
-  OPENAI_API_KEY: z.string().min(1, 'OPENAI_API_KEY is required'),
+  LLM_PROVIDER: z.enum(['openai', 'anthropic', 'stub']).default('openai'),
+  LLM_MODEL: z.string().optional(),
+  LLM_RESEARCH_MODEL: z.string().optional(),
+  OPENAI_API_KEY: z.string().optional(),
+  ANTHROPIC_API_KEY: z.string().optional(),
+  ANTHROPIC_BASE_URL: z.string().url('ANTHROPIC_BASE_URL must be a valid URL').default('https://api.anthropic.com'),
   FIRECRAWL_API_KEY: z.string().min(1, 'FIRECRAWL_API_KEY is required'),
   PERPLEXITY_API_KEY: z.string().optional(), // Optional since Perplexity is disabled
+  RESEARCH_RSS_FEEDS: z.string().optional(), // Comma-separated RSS/Atom feed URLs
   LOG_LEVEL: z.enum(['trace', 'debug', 'info', 'warn', 'error', 'fatal']).default('info'),
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
   WORKER_CONCURRENCY: z.string().transform(Number).pipe(z.number().min(1).max(10)).default('3'),
   MAX_JOB_ATTEMPTS: z.string().transform(Number).pipe(z.number().min(1).max(5)).default('3'),
-  RAPIDAPI_KEY: z.string().optional()
+  RAPIDAPI_KEY: z.string().optional(),
+  RAPIDAPI_HOST: z.string().default('linkedin-scraper-api-real-time-fast-affordable.p.rapidapi.com'),
+  ENGAGEMENT_SCAN_INTERVAL_SECONDS: z.string().transform(Number).pipe(z.number().min(300).max(3600)).default('900'),
+  ENGAGEMENT_TRACKING_DAYS: z.string().transform(Number).pipe(z.number().min(1).max(30)).default('14'),
+  POST_SYNC_MAX_PAGES: z.string().transform(Number).pipe(z.number().min(1).max(20)).default('5'),
+  POST_SYNC_INTERVAL_MINUTES: z.string().transform(Number).pipe(z.number().min(15).max(1440)).default('360'),
+  POST_SYNC_MAX_ATTEMPTS: z.string().transform(Number).pipe(z.number().min(1).max(10)).default('5'),
+  VOICE_BASELINE_USERNAME: z.string().default('andrewtallents'),
+  AIRTABLE_API_KEY: z.string().optional(),
+  AIRTABLE_BASE_ID: z.string().optional(),
+  AIRTABLE_CONTENT_POSTS_TABLE_ID: z.string().optional(),
+  CONTENT_POSTS_BACKEND: z.enum(['airtable', 'supabase']).default('airtable'),
+  PUBLISH_WORKSPACE_ID: z.string().uuid('PUBLISH_WORKSPACE_ID must be a workspace id').default(DEFAULT_WORKSPACE_ID),
+  PUBLISHER: z.enum(['lindy', 'mock']).default('mock'),
+  PUBLISH_POLL_INTERVAL_SECONDS: z.string().transform(Number).pipe(z.number().min(15).max(3600)).default('60'),
+  PUBLISH_MAX_ATTEMPTS: z.string().transform(Number).pipe(z.number().min(1).max(10)).default('5'),
+  LINDY_WEBHOOK_URL: z.string().url('LINDY_WEBHOOK_URL must be a valid URL').optional(),
+  LINDY_WEBHOOK_TOKEN: z.string().optional(),
+  LINDY_AUTHOR_ID: z.string().default('andrew-tallents'),
+  BUDGET_DAILY_USD: z.string().transform(Number).pipe(z.number().positive()).optional(),
+  BUDGET_MONTHLY_USD: z.string().transform(Number).pipe(z.number().positive()).optional()
+}).superRefine((env, ctx) => {
+  // Only the selected provider needs credentials; the stub runs offline
+  if (env.LLM_PROVIDER === 'openai' && !env.OPENAI_API_KEY) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['OPENAI_API_KEY'], message: 'OPENAI_API_KEY is required when LLM_PROVIDER=openai' })
+  }
+  if (env.LLM_PROVIDER === 'anthropic' && !env.ANTHROPIC_API_KEY) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['ANTHROPIC_API_KEY'], message: 'ANTHROPIC_API_KEY is required when LLM_PROVIDER=anthropic' })
+  }
+  if (env.PUBLISHER === 'lindy' && (!env.LINDY_WEBHOOK_URL || !env.LINDY_WEBHOOK_TOKEN)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['LINDY_WEBHOOK_URL'], message: 'LINDY_WEBHOOK_URL and LINDY_WEBHOOK_TOKEN are required when PUBLISHER=lindy' })
+  }
 })
 
+const DEFAULT_MODELS = {
+  openai: 'gpt-4-turbo-preview',
+  anthropic: 'claude-3-5-sonnet-latest',
+  stub: 'stub-fixtures'
+} as const
+
+const DEFAULT_RSS_FEEDS = [
+  'https://feeds.bbci.co.uk/news/business/rss.xml',
+  'https://www.theguardian.com/uk/business/rss'
+]
+
 const parseConfig = () => {
   try {
     const rawConfig = {
       REDIS_URL: process.env.REDIS_URL,
       SUPABASE_URL: process.env.SUPABASE_URL,
       SUPABASE_SERVICE_ROLE_KEY: process.env.SUPABASE_SERVICE_ROLE_KEY,
+      LLM_PROVIDER: process.env.LLM_PROVIDER,
+      LLM_MODEL: process.env.LLM_MODEL,
+      LLM_RESEARCH_MODEL: process.env.LLM_RESEARCH_MODEL,
       OPENAI_API_KEY: process.env.OPENAI_API_KEY,
+      ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY,
+      ANTHROPIC_BASE_URL: process.env.ANTHROPIC_BASE_URL,
       FIRECRAWL_API_KEY: process.env.FIRECRAWL_API_KEY,
       PERPLEXITY_API_KEY: process.env.PERPLEXITY_API_KEY,
+      RESEARCH_RSS_FEEDS: process.env.RESEARCH_RSS_FEEDS,
       LOG_LEVEL: process.env.LOG_LEVEL,
       NODE_ENV: process.env.NODE_ENV,
       WORKER_CONCURRENCY: process.env.WORKER_CONCURRENCY,
       MAX_JOB_ATTEMPTS: process.env.MAX_JOB_ATTEMPTS,
-      RAPIDAPI_KEY: process.env.RAPIDAPI_KEY
+      RAPIDAPI_KEY: process.env.RAPIDAPI_KEY,
+      RAPIDAPI_HOST: process.env.RAPIDAPI_HOST,
+      ENGAGEMENT_SCAN_INTERVAL_SECONDS: process.env.ENGAGEMENT_SCAN_INTERVAL_SECONDS,
+      ENGAGEMENT_TRACKING_DAYS: process.env.ENGAGEMENT_TRACKING_DAYS,
+      POST_SYNC_MAX_PAGES: process.env.POST_SYNC_MAX_PAGES,
+      POST_SYNC_INTERVAL_MINUTES: process.env.POST_SYNC_INTERVAL_MINUTES,
+      POST_SYNC_MAX_ATTEMPTS: process.env.POST_SYNC_MAX_ATTEMPTS,
+      VOICE_BASELINE_USERNAME: process.env.VOICE_BASELINE_USERNAME,
+      AIRTABLE_API_KEY: process.env.AIRTABLE_API_KEY,
+      AIRTABLE_BASE_ID: process.env.AIRTABLE_BASE_ID,
+      AIRTABLE_CONTENT_POSTS_TABLE_ID: process.env.AIRTABLE_CONTENT_POSTS_TABLE_ID || process.env.AIRTABLE_TABLE_ID,
+      CONTENT_POSTS_BACKEND: process.env.CONTENT_POSTS_BACKEND,
+      PUBLISH_WORKSPACE_ID: process.env.PUBLISH_WORKSPACE_ID,
+      PUBLISHER: process.env.PUBLISHER,
+      PUBLISH_POLL_INTERVAL_SECONDS: process.env.PUBLISH_POLL_INTERVAL_SECONDS,
+      PUBLISH_MAX_ATTEMPTS: process.env.PUBLISH_MAX_ATTEMPTS,
+      LINDY_WEBHOOK_URL: process.env.LINDY_WEBHOOK_URL,
+      LINDY_WEBHOOK_TOKEN: process.env.LINDY_WEBHOOK_TOKEN,
+      LINDY_AUTHOR_ID: process.env.LINDY_AUTHOR_ID,
+      BUDGET_DAILY_USD: process.env.BUDGET_DAILY_USD,
+      BUDGET_MONTHLY_USD: process.env.BUDGET_MONTHLY_USD
     }
 
     const validatedConfig = configSchema.parse(rawConfig)
+    const model = validatedConfig.LLM_MODEL || DEFAULT_MODELS[validatedConfig.LLM_PROVIDER]
     
     return {
       redis: {
@@ -45,9 +123,17 @@ const parseConfig = () => {
         url: validatedConfig.SUPABASE_URL,
         serviceKey: validatedConfig.SUPABASE_SERVICE_ROLE_KEY
       },
-      openai: {
-        apiKey: validatedConfig.OPENAI_API_KEY,
-        model: 'gpt-4-turbo-preview'
+      llm: {
+        provider: validatedConfig.LLM_PROVIDER,
+        model,
+        researchModel: validatedConfig.LLM_RESEARCH_MODEL || model,
+        openai: {
+          apiKey: validatedConfig.OPENAI_API_KEY
+        },
+        anthropic: {
+          apiKey: validatedConfig.ANTHROPIC_API_KEY,
+          baseUrl: validatedConfig.ANTHROPIC_BASE_URL
+        }
       },
       research: {
         firecrawl: {
@@ -56,10 +142,49 @@ const parseConfig = () => {
         perplexity: {
           apiKey: validatedConfig.PERPLEXITY_API_KEY
         },
+        rss: {
+          feeds: validatedConfig.RESEARCH_RSS_FEEDS
+            ? validatedConfig.RESEARCH_RSS_FEEDS.split(',').map(feed => feed.trim()).filter(Boolean)
+            : DEFAULT_RSS_FEEDS
+        },
         rapidapi: {
-          apiKey: validatedConfig.RAPIDAPI_KEY
+          apiKey: validatedConfig.RAPIDAPI_KEY,
+          host: validatedConfig.RAPIDAPI_HOST
+        }
+      },
+      voice: {
+        baselineUsername: validatedConfig.VOICE_BASELINE_USERNAME
+      },
+      airtable: {
+        apiKey: validatedConfig.AIRTABLE_API_KEY,
+        baseId: validatedConfig.AIRTABLE_BASE_ID,
+        contentPostsTable: validatedConfig.AIRTABLE_CONTENT_POSTS_TABLE_ID
+      },
+      publishing: {
+        publisher: validatedConfig.PUBLISHER,
+        contentPostsBackend: validatedConfig.CONTENT_POSTS_BACKEND,
+        workspaceId: validatedConfig.PUBLISH_WORKSPACE_ID,
+        pollIntervalSeconds: validatedConfig.PUBLISH_POLL_INTERVAL_SECONDS,
+        maxAttempts: validatedConfig.PUBLISH_MAX_ATTEMPTS,
+        lindy: {
+          webhookUrl: validatedConfig.LINDY_WEBHOOK_URL,
+          webhookToken: validatedConfig.LINDY_WEBHOOK_TOKEN,
+          authorId: validatedConfig.LINDY_AUTHOR_ID
         }
       },
+      engagement: {
+        scanIntervalSeconds: validatedConfig.ENGAGEMENT_SCAN_INTERVAL_SECONDS,
+        trackingDays: validatedConfig.ENGAGEMENT_TRACKING_DAYS
+      },
+      postSync: {
+        maxPagesPerRun: validatedConfig.POST_SYNC_MAX_PAGES,
+        intervalMinutes: validatedConfig.POST_SYNC_INTERVAL_MINUTES,
+        maxAttempts: validatedConfig.POST_SYNC_MAX_ATTEMPTS
+      },
+      budget: {
+        dailyUsd: validatedConfig.BUDGET_DAILY_USD,
+        monthlyUsd: validatedConfig.BUDGET_MONTHLY_USD
+      },
       worker: {
         concurrency: validatedConfig.WORKER_CONCURRENCY,
         maxJobAttempts: validatedConfig.MAX_JOB_ATTEMPTS
@@ -3,11 +3,17 @@ import { appConfig } from './config'
 import logger from './lib/logger'
 import { checkQueueHealth, closeQueue } from './queue/setup'
 import ContentGenerationWorker from './workers/content-generation'
+import PublishingWorker from './workers/publishing'
+import EngagementWorker from './workers/engagement'
+import PostSyncWorker from './workers/post-sync'
 import { supabaseService } from './services/supabase'
 import { debugHandler, testJobHandler } from './api/debug'
 
 class WorkerService {
   private contentWorker: ContentGenerationWorker | null = null
+  private publishingWorker: PublishingWorker | null = null
+  private engagementWorker: EngagementWorker | null = null
+  private postSyncWorker: PostSyncWorker | null = null
   private isShuttingDown = false
   private app: express.Application
   private server: any
@@ -41,6 +47,18 @@ class WorkerService {
       this.contentWorker = new ContentGenerationWorker()
       await this.contentWorker.start()
 
+      // Start scheduled publishing (no-op without a content posts backend)
+      this.publishingWorker = new PublishingWorker()
+      await this.publishingWorker.start()
+
+      // Start engagement snapshots (no-op without a RapidAPI key)
+      this.engagementWorker = new EngagementWorker()
+      await this.engagementWorker.start()
+
+      // Start background post sync (no-op without a RapidAPI key)
+      this.postSyncWorker = new PostSyncWorker()
+      await this.postSyncWorker.start()
+
       // Set up graceful shutdown
       this.setupGracefulShutdown()
 
@@ -94,6 +112,18 @@ class WorkerService {
 
       try {
         // Stop accepting new jobs
+        if (this.publishingWorker) {
+          await this.publishingWorker.pause()
+        }
+
+        if (this.engagementWorker) {
+          await this.engagementWorker.pause()
+        }
+
+        if (this.postSyncWorker) {
+          await this.postSyncWorker.pause()
+        }
+
         if (this.contentWorker) {
           await this.contentWorker.pause()
           logger.info('Worker paused, waiting for active jobs to complete')
@@ -105,6 +135,18 @@ class WorkerService {
           logger.info('Worker stopped')
         }
 
+        if (this.publishingWorker) {
+          await this.publishingWorker.stop()
+        }
+
+        if (this.engagementWorker) {
+          await this.engagementWorker.stop()
+        }
+
+        if (this.postSyncWorker) {
+          await this.postSyncWorker.stop()
+        }
+
         // Close debug server
         if (this.server) {
           this.server.close()
@@ -175,6 +217,9 @@ class WorkerService {
       const queueHealth = await checkQueueHealth()
       const cacheStats = await supabaseService.getCacheStats()
       const workerState = this.contentWorker?.getWorkerState() || null
+      const publishingState = this.publishingWorker?.getWorkerState() || null
+      const engagementState = this.engagementWorker?.getWorkerState() || null
+      const postSyncState = this.postSyncWorker?.getWorkerState() || null
 
       return {
         status: 'healthy',
@@ -183,6 +228,9 @@ class WorkerService {
         queue: queueHealth,
         cache: cacheStats,
         worker: workerState,
+        publishing: publishingState,
+        engagement: engagementState,
+        postSync: postSyncState,
         environment: appConfig.environment,
         timestamp: new Date().toISOString()
       }
@@ -1,7 +1,9 @@
 import { Job } from 'bullmq'
-import { contentGenerationQueue } from './setup'
+import { contentGenerationQueue, JOB_NAMES } from './setup'
+import { DEFAULT_WORKSPACE_ID } from '../config'
 import logger from '../lib/logger'
-import type { JobData } from '../types'
+import { usageLedgerService } from '../services/usage-ledger'
+import type { JobData, RevisionJobData } from '../types'
 
 export class ContentGenerationJobs {
   static async addJob(data: JobData, options?: {
@@ -9,9 +11,12 @@ export class ContentGenerationJobs {
     delay?: number
     jobId?: string
   }) {
+    // Refuse new work once the workspace's daily or monthly budget cap is hit (throws BudgetExceededError)
+    await usageLedgerService.assertWithinBudget(data.workspaceId || DEFAULT_WORKSPACE_ID)
+
     try {
       const job = await contentGenerationQueue.add(
-        'generate-content',
+        JOB_NAMES.GENERATE_CONTENT,
         data,
         {
           priority: options?.priority || 0,
@@ -33,6 +38,34 @@ export class ContentGenerationJobs {
     }
   }
 
+  static async addRevisionJob(data: RevisionJobData, options?: {
+    priority?: number
+    jobId?: string
+  }) {
+    await usageLedgerService.assertWithinBudget(data.workspaceId || DEFAULT_WORKSPACE_ID)
+
+    try {
+      const job = await contentGenerationQueue.add(
+        JOB_NAMES.REVISE_DRAFT,
+        data,
+        {
+          priority: options?.priority || 0,
+          jobId: options?.jobId
+        }
+      )
+
+      logger.info({ 
+        jobId: job.id, 
+        draftId: data.draftId 
+      }, 'Draft revision job added to queue')
+
+      return job
+    } catch (error) {
+      logger.error({ error, data }, 'Failed to add revision job to queue')
+      throw error
+    }
+  }
+
   static async getJob(jobId: string) {
     try {
       return await Job.fromId(contentGenerationQueue, jobId)
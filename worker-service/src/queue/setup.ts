@@ -2,7 +2,7 @@ import { Queue, Worker, QueueEvents } from 'bullmq'
 import Redis from 'ioredis'
 import { appConfig } from '../config'
 import logger from '../lib/logger'
-import type { JobData } from '../types'
+import type { JobData, RevisionJobData, PublishJobData, PostSyncJobData } from '../types'
 
 // Parse Redis URL to extract components
 function parseRedisUrl(url: string) {
@@ -131,11 +131,25 @@ export const redis = createRedisConnection()
 
 // Queue names
 export const QUEUE_NAMES = {
-  CONTENT_GENERATION: 'content-generation'
+  CONTENT_GENERATION: 'content-generation',
+  PUBLISHING: 'publishing',
+  ENGAGEMENT: 'engagement-snapshots',
+  POST_SYNC: 'post-sync'
+} as const
+
+// Job names on the content generation queue
+export const JOB_NAMES = {
+  GENERATE_CONTENT: 'generate-content',
+  REVISE_DRAFT: 'revise-draft',
+  SCAN_DUE_POSTS: 'scan-due-posts',
+  PUBLISH_POST: 'publish-post',
+  SNAPSHOT_ENGAGEMENT: 'snapshot-engagement',
+  SCAN_POST_SYNC: 'scan-post-sync',
+  SYNC_PROFILE_POSTS: 'sync-profile-posts'
 } as const
 
 // Create content generation queue
-export const contentGenerationQueue = new Queue<JobData>(
+export const contentGenerationQueue = new Queue<JobData | RevisionJobData>(
   QUEUE_NAMES.CONTENT_GENERATION,
   {
     connection: redis,
@@ -151,6 +165,55 @@ export const contentGenerationQueue = new Queue<JobData>(
   }
 )
 
+// Scheduled publishing queue: a repeatable scan job fans out one publish job per due post.
+// Finished jobs are removed so a post's job id is free again; post_publications is the record.
+export const publishingQueue = new Queue<PublishJobData | Record<string, never>>(
+  QUEUE_NAMES.PUBLISHING,
+  {
+    connection: redis,
+    defaultJobOptions: {
+      attempts: appConfig.publishing.maxAttempts,
+      backoff: {
+        type: 'exponential',
+        delay: 30000
+      },
+      removeOnComplete: true,
+      removeOnFail: true
+    }
+  }
+)
+
+// Engagement snapshots: one repeatable job re-fetches stats for young posts that are due
+export const engagementQueue = new Queue<Record<string, never>>(
+  QUEUE_NAMES.ENGAGEMENT,
+  {
+    connection: redis,
+    defaultJobOptions: {
+      attempts: 1,
+      removeOnComplete: { count: 20 },
+      removeOnFail: { count: 20 }
+    }
+  }
+)
+
+// LinkedIn post sync: one job per profile, queued by the web app or the periodic scan.
+// Progress lives in linkedin_sync_cursors, so finished jobs are removed and the job id is free again
+export const postSyncQueue = new Queue<PostSyncJobData | Record<string, never>>(
+  QUEUE_NAMES.POST_SYNC,
+  {
+    connection: redis,
+    defaultJobOptions: {
+      attempts: appConfig.postSync.maxAttempts,
+      backoff: {
+        type: 'exponential',
+        delay: 60000
+      },
+      removeOnComplete: true,
+      removeOnFail: true
+    }
+  }
+)
+
 // Queue events for monitoring
 export const queueEvents = new QueueEvents(QUEUE_NAMES.CONTENT_GENERATION, {
   connection: redis
@@ -188,6 +251,9 @@ export const checkQueueHealth = async (retries = 3) => {
       const active = await contentGenerationQueue.getActive()
       const completed = await contentGenerationQueue.getCompleted()
       const failed = await contentGenerationQueue.getFailed()
+      const publishing = await publishingQueue.getJobCounts('waiting', 'active', 'delayed')
+      const engagement = await engagementQueue.getJobCounts('waiting', 'active', 'delayed', 'failed')
+      const postSync = await postSyncQueue.getJobCounts('waiting', 'active', 'delayed')
       
       return {
         redis: 'connected',
@@ -197,7 +263,10 @@ export const checkQueueHealth = async (retries = 3) => {
             active: active.length,
             completed: completed.length,
             failed: failed.length
-          }
+          },
+          [QUEUE_NAMES.PUBLISHING]: publishing,
+          [QUEUE_NAMES.ENGAGEMENT]: engagement,
+          [QUEUE_NAMES.POST_SYNC]: postSync
         }
       }
     } catch (error) {
@@ -233,6 +302,9 @@ export const closeQueue = async () => {
   try {
     await queueEvents.close()
     await contentGenerationQueue.close()
+    await publishingQueue.close()
+    await engagementQueue.close()
+    await postSyncQueue.close()
     await redis.quit()
     logger.info('Queue connections closed successfully')
   } catch (error) {
@@ -273,6 +345,9 @@ redis.on('node error', (error, node) => {
 
 export default {
   contentGenerationQueue,
+  publishingQueue,
+  engagementQueue,
+  postSyncQueue,
   queueEvents,
   checkQueueHealth,
   closeQueue
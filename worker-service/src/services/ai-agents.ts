@@ -1,46 +1,20 @@
-import { OpenAI } from 'openai'
-import { appConfig } from '../config'
 import logger from '../lib/logger'
-import type { AIAgentResult } from '../types'
-
-interface ResearchIdea {
-  concise_summary: string
-  angle_approach: string
-  details: string
-  relevance: string
-}
-
-interface EnhancedResearch {
-  idea_1: ResearchIdea
-  idea_2: ResearchIdea
-  idea_3: ResearchIdea
-}
+import { llmProvider } from './llm'
+import type { AIAgentResult, EnhancedResearch, ResearchIdea, UsageTags, VoiceProfile } from '../types'
+import type { PlatformAdapter } from './platform-adapters'
 
 export class AIAgentsService {
-  private openai: OpenAI
-
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: appConfig.openai.apiKey
-    })
-  }
-
-  private createAndrewTallentsPrompt(ideaNumber: 1 | 2 | 3): string {
-    return `Act as an informed LinkedIn expert specializing in content for CEOs and Founders of established businesses. You will be provided with specific details about a news topic relevant to this audience. You must only provide the output required. Do not include any other additional information about how or why the response is good. Provide only the output according to the below guidelines.
 
-**Mandatory Tone of Voice:**
-You must consult the tone of voice guidelines in all responses you create. The required tone is Andrew Tallents' authentic leadership coaching voice - conversational but authoritative, vulnerable yet confident, focused on self-leadership and inner transformation.
-
-**Output Format:**
-Please provide your response in **plain text format only**, without any special formatting elements such as hashtags, asterisks, or other markdown syntax in the main body. Use clear and concise language, and structure your response using paragraphs. Emojis may be used appropriately for emphasis and engagement if they fit the specified tone of voice.
+  private createVoiceGuidelines(voiceProfile?: VoiceProfile | null, voiceGuidelines?: string): string {
+    const additional = voiceGuidelines?.trim()
+      ? `\n\n**Additional Voice Guidelines:**\n${voiceGuidelines.trim()}`
+      : ''
 
-**Target Audience Details:**
-Problem We Solve: Most CEOs and Founders are world-class at building businesses but terrible at leading themselves. They've achieved everything they thought they wanted - growing companies, hitting targets, industry respect - but privately they're stuck, burned out, and feeling empty. They react instead of respond, control instead of trust, and have become the bottleneck in their own success. The real problem isn't strategy or skills - it's that they're getting in their own way. I help successful leaders develop self-leadership so they can get out of their own way, lead authentically, and build lives that feel as successful privately as they look publicly. Because the greatest competitive advantage isn't strategy - it's self-awareness.
-
-Target Country: UK 
-Target Avatar - CEOs and Founders of established businesses (typically $5M-$100M+ revenue) who are outwardly successful but privately struggling. They're 35-55 years old, have built something significant, and are recognized in their industry - but they feel trapped by their own success. They're working 60+ hour weeks, have difficulty delegating, and despite achieving their professional goals, they feel disconnected from their original purpose and personal relationships. They've tried traditional leadership development but it hasn't stuck because it doesn't address the real issue: they've become the bottleneck in their own business and life. They're smart enough to know something needs to change but don't have time for lengthy coaching programs. They want practical, real-time solutions that help them lead more effectively while reclaiming their personal fulfillment - without having to slow down or step back from their responsibilities.
+    if (voiceProfile) {
+      return `${this.renderVoiceProfile(voiceProfile)}${additional}`
+    }
 
-**LinkedIn Post Creation Guidelines - Andrew Tallents Style**
+    return `**LinkedIn Post Creation Guidelines - Andrew Tallents Style**
 
 **1. Opening Hook - Start with Impact**
 Begin with one of Andrew's signature opening patterns:
@@ -91,40 +65,133 @@ End with Andrew's signature patterns:
 - Self-coaching focus rather than external solutions
 - Questions that provoke self-examination
 - Emphasis on inner work and authentic leadership
-- Specific call-to-action patterns that build community
+- Specific call-to-action patterns that build community${additional}`
+  }
+
+  private renderVoiceProfile(profile: VoiceProfile): string {
+    const section = (title: string, items: string[]) =>
+      items.length > 0 ? `**${title}:**\n${items.map(item => `- ${item}`).join('\n')}` : ''
+
+    const examples = profile.example_posts.length > 0
+      ? `**Example Posts (match this voice):**\n${profile.example_posts.map((post, index) => `Example ${index + 1}:\n${post}`).join('\n\n')}`
+      : ''
+
+    return [
+      `**LinkedIn Post Creation Guidelines - ${profile.name} Voice Profile (v${profile.version})**`,
+      section('Tone Rules', profile.tone_rules),
+      section('Opening Hooks', profile.hooks),
+      section('Call to Action Patterns', profile.cta_patterns),
+      section('Never Use These Phrases', profile.banned_phrases),
+      examples
+    ].filter(Boolean).join('\n\n')
+  }
+
+  // Persona, tone and audience come from the voice profile; Andrew's text is only the fallback
+  private createPersona(voiceProfile?: VoiceProfile | null): { expertise: string; tone: string; audience: string } {
+    if (!voiceProfile) {
+      return {
+        expertise: 'content for CEOs and Founders of established businesses',
+        tone: 'The required tone is Andrew Tallents\' authentic leadership coaching voice - conversational but authoritative, vulnerable yet confident, focused on self-leadership and inner transformation.',
+        audience: `Problem We Solve: Most CEOs and Founders are world-class at building businesses but terrible at leading themselves. They've achieved everything they thought they wanted - growing companies, hitting targets, industry respect - but privately they're stuck, burned out, and feeling empty. They react instead of respond, control instead of trust, and have become the bottleneck in their own success. The real problem isn't strategy or skills - it's that they're getting in their own way. I help successful leaders develop self-leadership so they can get out of their own way, lead authentically, and build lives that feel as successful privately as they look publicly. Because the greatest competitive advantage isn't strategy - it's self-awareness.
+
+Target Country: UK 
+Target Avatar - CEOs and Founders of established businesses (typically $5M-$100M+ revenue) who are outwardly successful but privately struggling. They're 35-55 years old, have built something significant, and are recognized in their industry - but they feel trapped by their own success. They're working 60+ hour weeks, have difficulty delegating, and despite achieving their professional goals, they feel disconnected from their original purpose and personal relationships. They've tried traditional leadership development but it hasn't stuck because it doesn't address the real issue: they've become the bottleneck in their own business and life. They're smart enough to know something needs to change but don't have time for lengthy coaching programs. They want practical, real-time solutions that help them lead more effectively while reclaiming their personal fulfillment - without having to slow down or step back from their responsibilities.`
+      }
+    }
+
+    const toneRules = voiceProfile.tone_rules.map(rule => rule.trim()).filter(Boolean)
+
+    return {
+      expertise: `content written in the ${voiceProfile.name} voice`,
+      tone: toneRules.length > 0
+        ? `The required tone is the ${voiceProfile.name} voice: ${toneRules.join('; ')}.`
+        : `The required tone is the ${voiceProfile.name} voice shown in the voice profile and example posts below.`,
+      audience: voiceProfile.description?.trim()
+        || `Write for the readers the ${voiceProfile.name} voice profile and its example posts are aimed at.`
+    }
+  }
+
+  private createSystemPrompt(
+    ideaNumber: 1 | 2 | 3,
+    adapter: PlatformAdapter,
+    voiceProfile?: VoiceProfile | null,
+    voiceGuidelines?: string
+  ): string {
+    const platformGuidelines = adapter.promptGuidelines ? `\n\n${adapter.promptGuidelines}` : ''
+    const persona = this.createPersona(voiceProfile)
+
+    return `Act as an informed LinkedIn expert specializing in ${persona.expertise}. You will be provided with specific details about a news topic relevant to this audience. You must only provide the output required. Do not include any other additional information about how or why the response is good. Provide only the output according to the below guidelines.
+
+**Mandatory Tone of Voice:**
+You must consult the tone of voice guidelines in all responses you create. ${persona.tone}
+
+**Output Format:**
+Please provide your response in **plain text format only**, without any special formatting elements such as hashtags, asterisks, or other markdown syntax in the main body. Use clear and concise language, and structure your response using paragraphs. Emojis may be used appropriately for emphasis and engagement if they fit the specified tone of voice.
+
+**Target Audience Details:**
+${persona.audience}
+
+${this.createVoiceGuidelines(voiceProfile, voiceGuidelines)}${platformGuidelines}
 
 **Your Role: Content Agent ${ideaNumber}**
-You will process research idea_${ideaNumber} and create a LinkedIn post using the above guidelines.`
+You will process research idea_${ideaNumber} and create a ${adapter.contentType} using the above guidelines.`
+  }
+
+  // Drafts keep the URLs their research idea was built from; older jobs only know the idea number
+  private researchSources(idea: ResearchIdea, ideaNumber: number): string[] {
+    return idea.sources && idea.sources.length > 0
+      ? idea.sources.map(source => source.url)
+      : [`Enhanced research idea ${ideaNumber}`]
   }
 
-  private createUserPrompt(idea: ResearchIdea): string {
+  private createUserPrompt(idea: ResearchIdea, adapter: PlatformAdapter, voiceProfile?: VoiceProfile | null): string {
+    const voice = voiceProfile
+      ? `the ${voiceProfile.name} voice profile guidelines provided above`
+      : 'the Andrew Tallents style guidelines provided above'
+    const speaker = voiceProfile
+      ? `the ${voiceProfile.name} voice speaking to the target audience`
+      : 'Andrew Tallents speaking to UK CEOs and Founders about self-leadership'
+
     return `**Input Topic Data (Use this information to craft the post):**
 * **Concise Summary:** ${idea.concise_summary}
 * **Suggested Angle / Hook:** ${idea.angle_approach}
 * **Key Details / Stats:** ${idea.details}
 * **Relevance to Audience:** ${idea.relevance}
 
-Create a LinkedIn post using this research data and the Andrew Tallents style guidelines provided above. 
+Create a ${adapter.contentType} using this research data and ${voice}. 
+
+Write the post content directly - no need for JSON format, just return the complete ${adapter.contentType} text that sounds authentically like ${speaker}.`
+  }
 
-Write the post content directly - no need for JSON format, just return the complete LinkedIn post text that sounds authentically like Andrew Tallents speaking to UK CEOs and Founders about self-leadership.`
+  private voiceName(voiceProfile?: VoiceProfile | null): string {
+    return voiceProfile?.name || 'Andrew Tallents'
+  }
+
+  private agentName(ideaNumber: 1 | 2 | 3, adapter: PlatformAdapter): string {
+    // LinkedIn keeps the original agent names so existing drafts stay comparable
+    return adapter.platform === 'linkedin'
+      ? `andrew_tallents_agent_${ideaNumber}`
+      : `andrew_tallents_${adapter.platform}_agent_${ideaNumber}`
   }
 
   private async generateSingleVariation(
     ideaNumber: 1 | 2 | 3,
     idea: ResearchIdea,
-    voiceGuidelines?: string
+    adapter: PlatformAdapter,
+    voiceGuidelines?: string,
+    voiceProfile?: VoiceProfile | null,
+    usage?: UsageTags
   ): Promise<AIAgentResult | null> {
     const startTime = Date.now()
-    const agentName = `andrew_tallents_agent_${ideaNumber}`
+    const agentName = this.agentName(ideaNumber, adapter)
     
-    logger.info({ agentName, ideaNumber }, 'Starting AI agent content generation')
+    logger.info({ agentName, ideaNumber, platform: adapter.platform }, 'Starting AI agent content generation')
 
     try {
-      const systemPrompt = this.createAndrewTallentsPrompt(ideaNumber)
-      const userPrompt = this.createUserPrompt(idea)
+      const systemPrompt = this.createSystemPrompt(ideaNumber, adapter, voiceProfile, voiceGuidelines)
+      const userPrompt = this.createUserPrompt(idea, adapter, voiceProfile)
 
-      const completion = await this.openai.chat.completions.create({
-        model: appConfig.openai.model,
+      const completion = await llmProvider.complete({
         messages: [
           {
             role: 'system',
@@ -135,11 +202,12 @@ Write the post content directly - no need for JSON format, just return the compl
             content: userPrompt
           }
         ],
-        max_tokens: 1000,
-        temperature: 0.7
+        maxTokens: 1000,
+        temperature: 0.7,
+        usage: { ...usage, agentName }
       })
 
-      const content = completion.choices[0]?.message?.content || ''
+      const content = completion.content
       
       if (!content.trim()) {
         throw new Error('Empty content generated')
@@ -150,19 +218,23 @@ Write the post content directly - no need for JSON format, just return the compl
       const result: AIAgentResult = {
         agent_name: agentName,
         content: {
-          title: `Andrew Tallents Post ${ideaNumber}`,
+          title: `${this.voiceName(voiceProfile)} ${adapter.label} Post ${ideaNumber}`,
           body: content,
           hashtags: [], // Andrew rarely uses hashtags
-          estimated_voice_score: 90, // High score for authentic Andrew style
-          approach: `Andrew Tallents authentic style - Idea ${ideaNumber}`
+          estimated_voice_score: 0, // Filled in by the voice scorer
+          approach: `${this.voiceName(voiceProfile)} authentic style - Idea ${ideaNumber}`,
+          platform: adapter.platform
         },
         metadata: {
-          token_count: completion.usage?.total_tokens || 0,
+          token_count: completion.usage.totalTokens,
           generation_time_ms: generationTime,
-          model_used: appConfig.openai.model,
-          research_sources: [`Enhanced research idea ${ideaNumber}`]
-        },
-        score: 0.9 // High confidence in Andrew Tallents style
+          model_used: completion.model,
+          research_sources: this.researchSources(idea, ideaNumber),
+          research_provenance: idea.sources?.map(({ snippet, ...source }) => source),
+          idea_number: ideaNumber,
+          voice_profile_id: voiceProfile?.id,
+          voice_profile_version: voiceProfile?.version
+        }
       }
 
       logger.info({ 
@@ -180,20 +252,140 @@ Write the post content directly - no need for JSON format, just return the compl
     }
   }
 
+  async generateRevision(
+    ideaNumber: 1 | 2 | 3,
+    idea: ResearchIdea,
+    previousBody: string,
+    feedback: string,
+    adapter: PlatformAdapter,
+    voiceGuidelines?: string,
+    voiceProfile?: VoiceProfile | null,
+    usage?: UsageTags
+  ): Promise<AIAgentResult | null> {
+    const startTime = Date.now()
+    const agentName = this.agentName(ideaNumber, adapter)
+
+    logger.info({ agentName, ideaNumber, platform: adapter.platform }, 'Starting feedback revision')
+
+    try {
+      const completion = await llmProvider.complete({
+        messages: [
+          {
+            role: 'system',
+            content: this.createSystemPrompt(ideaNumber, adapter, voiceProfile, voiceGuidelines)
+          },
+          {
+            role: 'user',
+            content: this.createUserPrompt(idea, adapter, voiceProfile)
+          },
+          {
+            role: 'assistant',
+            content: previousBody
+          },
+          {
+            role: 'user',
+            content: `Rewrite this post based on the following feedback. Keep what works and change only what the feedback asks for. Return only the complete revised post text.\n\nFeedback: ${feedback}`
+          }
+        ],
+        maxTokens: 1000,
+        temperature: 0.7,
+        usage: { ...usage, agentName }
+      })
+
+      const content = completion.content
+
+      if (!content.trim()) {
+        throw new Error('Empty revision generated')
+      }
+
+      return {
+        agent_name: agentName,
+        content: {
+          title: `${this.voiceName(voiceProfile)} ${adapter.label} Post ${ideaNumber}`,
+          body: content,
+          hashtags: [],
+          estimated_voice_score: 0, // Filled in by the voice scorer
+          approach: `Revision: ${feedback}`,
+          platform: adapter.platform
+        },
+        metadata: {
+          token_count: completion.usage.totalTokens,
+          generation_time_ms: Date.now() - startTime,
+          model_used: completion.model,
+          research_sources: this.researchSources(idea, ideaNumber),
+          research_provenance: idea.sources?.map(({ snippet, ...source }) => source),
+          idea_number: ideaNumber,
+          voice_profile_id: voiceProfile?.id,
+          voice_profile_version: voiceProfile?.version
+        }
+      }
+    } catch (error) {
+      logger.error({ error, agentName, ideaNumber }, 'Feedback revision failed')
+      return null
+    }
+  }
+
+  async reviseDraft(
+    body: string,
+    instructions: string[],
+    usage?: UsageTags
+  ): Promise<{ body: string; tokenCount: number } | null> {
+    logger.info({ instructionCount: instructions.length }, 'Requesting targeted draft revision')
+
+    try {
+      const completion = await llmProvider.complete({
+        messages: [
+          {
+            role: 'system',
+            content: 'You are an editor for LinkedIn posts. Fix only the listed problems and keep the voice, story and structure otherwise unchanged. Return only the revised post text in plain text - no markdown, no hashtags, no commentary.'
+          },
+          {
+            role: 'user',
+            content: `Fix these problems:\n${instructions.map(instruction => `- ${instruction}`).join('\n')}\n\nPost:\n${body}`
+          }
+        ],
+        maxTokens: 1000,
+        temperature: 0.3,
+        usage
+      })
+
+      const revised = completion.content.trim()
+      if (!revised) {
+        throw new Error('Empty revision generated')
+      }
+
+      return {
+        body: revised,
+        tokenCount: completion.usage.totalTokens
+      }
+    } catch (error) {
+      logger.error({ error }, 'Draft revision failed')
+      return null
+    }
+  }
+
   async generateAllVariations(
     topic: string,
     research: EnhancedResearch,
-    voiceGuidelines?: string
+    adapter: PlatformAdapter,
+    voiceGuidelines?: string,
+    voiceProfile?: VoiceProfile | null,
+    usage?: UsageTags
   ): Promise<AIAgentResult[]> {
     const startTime = Date.now()
-    logger.info({ topic }, 'Generating all Andrew Tallents content variations')
+    logger.info({ 
+      topic,
+      platform: adapter.platform,
+      voiceProfileId: voiceProfile?.id,
+      voiceProfileVersion: voiceProfile?.version
+    }, 'Generating all Andrew Tallents content variations')
 
     try {
       // Generate content for each research idea in parallel
       const generationPromises = [
-        this.generateSingleVariation(1, research.idea_1, voiceGuidelines),
-        this.generateSingleVariation(2, research.idea_2, voiceGuidelines),
-        this.generateSingleVariation(3, research.idea_3, voiceGuidelines)
+        this.generateSingleVariation(1, research.idea_1, adapter, voiceGuidelines, voiceProfile, usage),
+        this.generateSingleVariation(2, research.idea_2, adapter, voiceGuidelines, voiceProfile, usage),
+        this.generateSingleVariation(3, research.idea_3, adapter, voiceGuidelines, voiceProfile, usage)
       ]
 
       const results = await Promise.all(generationPromises)
@@ -208,6 +400,7 @@ Write the post content directly - no need for JSON format, just return the compl
       const totalTime = Date.now() - startTime
       logger.info({ 
         topic,
+        platform: adapter.platform,
         totalTimeMs: totalTime,
         successfulAgents: validResults.length,
         failedAgents: 3 - validResults.length
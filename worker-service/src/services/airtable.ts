@@ -0,0 +1,102 @@
+import { appConfig } from '../config'
+import logger from '../lib/logger'
+import type { ScheduledPost } from '../types'
+
+const AIRTABLE_API_URL = 'https://api.airtable.com/v0'
+
+interface AirtableRecord {
+  id: string
+  fields: Record<string, any>
+}
+
+const toScheduledPost = (record: AirtableRecord): ScheduledPost => ({
+  id: record.id,
+  content: record.fields['Content'] || '',
+  hashtags: record.fields['Hashtags'] || [],
+  scheduledDate: record.fields['Scheduled Date'],
+  status: record.fields['Status']
+})
+
+// Minimal REST client for the Content Posts table; the web app owns the rest of the base
+export class AirtableService {
+  get isConfigured(): boolean {
+    const { apiKey, baseId, contentPostsTable } = appConfig.airtable
+    return !!(apiKey && baseId && contentPostsTable)
+  }
+
+  // Approved posts whose Scheduled Date has passed, oldest first
+  async getDuePosts(now: Date = new Date()): Promise<ScheduledPost[]> {
+    const records: AirtableRecord[] = []
+    let offset: string | undefined
+
+    do {
+      const params = new URLSearchParams({
+        filterByFormula: 'AND({Status} = "Approved", {Scheduled Date} != "", NOT(IS_AFTER({Scheduled Date}, NOW())))',
+        'sort[0][field]': 'Scheduled Date',
+        'sort[0][direction]': 'asc',
+        pageSize: '100'
+      })
+      if (offset) params.set('offset', offset)
+
+      const page = await this.request<{ records: AirtableRecord[]; offset?: string }>(`?${params}`)
+      records.push(...page.records)
+      offset = page.offset
+    } while (offset)
+
+    // Airtable evaluates NOW() in its own timezone; re-check here so nothing goes out early
+    return records
+      .map(toScheduledPost)
+      .filter(post => post.content && new Date(post.scheduledDate) <= now)
+  }
+
+  async getContentPost(id: string): Promise<ScheduledPost | null> {
+    try {
+      return toScheduledPost(await this.request<AirtableRecord>(`/${id}`))
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('404')) {
+        return null
+      }
+      throw error
+    }
+  }
+
+  async markPublished(id: string, result: { url?: string; publishedAt: string }): Promise<void> {
+    await this.request(`/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify({
+        fields: {
+          'Status': 'Published',
+          'Published At': result.publishedAt,
+          ...(result.url && { 'LinkedIn URL': result.url })
+        }
+      })
+    })
+
+    logger.info({ postId: id, url: result.url }, 'Content post marked published in Airtable')
+  }
+
+  private async request<T>(path: string, init: RequestInit = {}): Promise<T> {
+    const { apiKey, baseId, contentPostsTable } = appConfig.airtable
+
+    if (!this.isConfigured) {
+      throw new Error('Airtable is not configured (AIRTABLE_API_KEY, AIRTABLE_BASE_ID, AIRTABLE_CONTENT_POSTS_TABLE_ID)')
+    }
+
+    const response = await fetch(`${AIRTABLE_API_URL}/${baseId}/${encodeURIComponent(contentPostsTable!)}${path}`, {
+      ...init,
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json'
+      }
+    })
+
+    if (!response.ok) {
+      throw new Error(`Airtable request failed: ${response.status} ${await response.text()}`)
+    }
+
+    return response.json() as Promise<T>
+  }
+}
+
+export const airtableService = new AirtableService()
+export default airtableService
@@ -0,0 +1,39 @@
+import { appConfig } from '../config'
+import logger from '../lib/logger'
+import { airtableService } from './airtable'
+import { supabaseService } from './supabase'
+import type { ScheduledPost } from '../types'
+
+// The Content Posts the publisher reads and writes back to; CONTENT_POSTS_BACKEND should match
+// where the web app's storage setting keeps them for PUBLISH_WORKSPACE_ID
+export interface ContentPostsSource {
+  readonly isConfigured: boolean
+  getDuePosts(now?: Date): Promise<ScheduledPost[]>
+  getContentPost(id: string): Promise<ScheduledPost | null>
+  markPublished(id: string, result: { url?: string; publishedAt: string }): Promise<void>
+}
+
+const supabaseSource: ContentPostsSource = {
+  isConfigured: true,
+
+  getDuePosts(now = new Date()) {
+    return supabaseService.getDueContentPosts(appConfig.publishing.workspaceId, now)
+  },
+
+  getContentPost(id) {
+    return supabaseService.getContentPost(id)
+  },
+
+  async markPublished(id, result) {
+    if (!await supabaseService.markContentPostPublished(id, result)) {
+      throw new Error(`Failed to mark content post ${id} published`)
+    }
+    logger.info({ postId: id, url: result.url }, 'Content post marked published in Supabase')
+  }
+}
+
+export const contentPosts: ContentPostsSource = appConfig.publishing.contentPostsBackend === 'supabase'
+  ? supabaseSource
+  : airtableService
+
+export default contentPosts
@@ -0,0 +1,136 @@
+import { appConfig } from '../config'
+import logger from '../lib/logger'
+import { supabaseService, toEngagementSnapshot } from './supabase'
+import { usageLedgerService } from './usage-ledger'
+import { linkedInScraperService } from './linkedin-scraper'
+import type { ScrapedLinkedInPost, TrackedPost } from '../types'
+
+// Decaying re-fetch schedule as [post age in hours up to, minutes between snapshots]:
+// dense enough early on to read first-hour and first-day velocity, daily once a post has settled
+const SNAPSHOT_SCHEDULE: Array<[number, number]> = [
+  [2, 15],
+  [24, 60],
+  [72, 240],
+  [Infinity, 1440]
+]
+
+// Scans don't land on exact minutes, so a snapshot this close to due is taken now rather than a scan later
+const SCHEDULE_TOLERANCE_MINUTES = 2
+
+// Young posts are on the first pages of the author's feed; stop paging after this
+const MAX_PAGES_PER_AUTHOR = 2
+const REQUEST_DELAY_MS = 1000
+
+export interface SnapshotRunResult {
+  due: number
+  recorded: number
+  missing: number
+  skipped?: 'not_configured' | 'budget'
+}
+
+export const snapshotIntervalMinutes = (ageHours: number): number =>
+  SNAPSHOT_SCHEDULE.find(([maxAgeHours]) => ageHours < maxAgeHours)![1]
+
+export const isSnapshotDue = (post: TrackedPost, now: Date = new Date()): boolean => {
+  if (!post.last_synced_at) return true
+
+  const ageHours = (now.getTime() - new Date(post.posted_at).getTime()) / (60 * 60 * 1000)
+  const minutesSinceSnapshot = (now.getTime() - new Date(post.last_synced_at).getTime()) / (60 * 1000)
+  return minutesSinceSnapshot >= snapshotIntervalMinutes(ageHours) - SCHEDULE_TOLERANCE_MINUTES
+}
+
+export class EngagementTrackerService {
+  get isConfigured(): boolean {
+    return linkedInScraperService.isConfigured
+  }
+
+  async findDuePosts(now: Date = new Date()): Promise<TrackedPost[]> {
+    const since = new Date(now.getTime() - appConfig.engagement.trackingDays * 24 * 60 * 60 * 1000)
+    const posts = await supabaseService.getTrackedPosts(since)
+    return posts.filter(post => isSnapshotDue(post, now))
+  }
+
+  // The scraper has no single-post endpoint, so due posts are re-read from their author's feed
+  async snapshotDuePosts(now: Date = new Date()): Promise<SnapshotRunResult> {
+    if (!this.isConfigured) {
+      return { due: 0, recorded: 0, missing: 0, skipped: 'not_configured' }
+    }
+
+    const duePosts = await this.findDuePosts(now)
+    if (duePosts.length === 0) {
+      return { due: 0, recorded: 0, missing: 0 }
+    }
+
+    // Each workspace's scraper calls count against its own budget
+    const workspaceIds = Array.from(new Set(duePosts.map(post => post.workspace_id)))
+    const overBudget = new Set<string>()
+    for (const workspaceId of workspaceIds) {
+      const budget = await usageLedgerService.checkBudget(workspaceId, now)
+      if (!budget.allowed) {
+        logger.warn({ workspaceId, exceeded: budget.exceeded }, 'Budget cap reached, skipping engagement snapshots')
+        overBudget.add(workspaceId)
+      }
+    }
+
+    const trackable = duePosts.filter(post => !overBudget.has(post.workspace_id))
+    if (trackable.length === 0) {
+      return { due: duePosts.length, recorded: 0, missing: 0, skipped: 'budget' }
+    }
+
+    // The same author can be tracked by several workspaces; each reads the feed on its own budget
+    const byAuthor = new Map<string, { workspaceId: string; username: string; pending: Set<string> }>()
+    for (const post of trackable) {
+      const key = `${post.workspace_id}:${post.author_username}`
+      const group = byAuthor.get(key) || { workspaceId: post.workspace_id, username: post.author_username, pending: new Set<string>() }
+      group.pending.add(post.urn)
+      byAuthor.set(key, group)
+    }
+
+    let recorded = 0
+    let missing = 0
+    let isFirstRequest = true
+
+    for (const { workspaceId, username, pending } of byAuthor.values()) {
+      for (let page = 1; page <= MAX_PAGES_PER_AUTHOR && pending.size > 0; page++) {
+        if (!isFirstRequest) {
+          await new Promise(resolve => setTimeout(resolve, REQUEST_DELAY_MS))
+        }
+        isFirstRequest = false
+
+        const posts = await this.fetchAuthorPosts(workspaceId, username, page)
+        if (posts.length === 0) break
+
+        const recordedAt = new Date().toISOString()
+        for (const post of posts) {
+          if (!pending.has(post.urn) || !post.stats) continue
+          pending.delete(post.urn)
+
+          if (await supabaseService.recordEngagementSnapshot(toEngagementSnapshot(post.urn, post.stats, recordedAt))) {
+            recorded++
+          }
+        }
+      }
+
+      if (pending.size > 0) {
+        missing += pending.size
+        logger.debug({ workspaceId, username, urns: Array.from(pending) }, 'Due posts not found in author feed')
+      }
+    }
+
+    logger.info({ due: duePosts.length, recorded, missing, authors: byAuthor.size }, 'Engagement snapshots recorded')
+    return { due: duePosts.length, recorded, missing }
+  }
+
+  private async fetchAuthorPosts(workspaceId: string, username: string, page: number): Promise<ScrapedLinkedInPost[]> {
+    try {
+      const { posts } = await linkedInScraperService.getProfilePosts(username, page, null, { route: 'engagement-snapshots', workspaceId })
+      return posts
+    } catch (error) {
+      logger.warn({ workspaceId, username, page, error: error instanceof Error ? error.message : error }, 'Failed to fetch posts for engagement snapshots')
+      return []
+    }
+  }
+}
+
+export const engagementTrackerService = new EngagementTrackerService()
+export default engagementTrackerService
@@ -0,0 +1,212 @@
+import logger from '../lib/logger'
+import { splitParagraphs } from './style-linter'
+import type { AIAgentResult, FactCheckClaim, FactCheckReport, ResearchIdea, ResearchSourceRef } from '../types'
+
+// A figure, optionally with currency, magnitude or percent: £2.5m, 1,200, 72%, 40 per cent
+const NUMBER_PATTERN = /([£$€]\s?)?(\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?)(\s?(?:%|per ?cent\b|percent\b|million\b|billion\b|bn\b|m\b|k\b))?/gi
+const RATIO_PATTERN = /\b(\d+)\s+(?:in|out of)\s+(\d+)\b/gi
+const QUOTE_PATTERN = /["“]([^"“”]{12,300})["”]/g
+
+// Plain integers below this are counting words ("3 lessons"), not statistics
+const MIN_PLAIN_NUMBER = 20
+const MIN_QUOTE_WORDS = 4
+const EXCERPT_RADIUS = 120
+
+const MAGNITUDES: Record<string, number> = { k: 1e3, m: 1e6, million: 1e6, bn: 1e9, billion: 1e9 }
+
+interface ParsedNumber {
+  text: string
+  value: number
+  percent: boolean
+  index: number
+}
+
+// Unlike the style linter's splitter, never breaks inside a figure like £2.5m
+const splitSentences = (paragraph: string) =>
+  paragraph.split(/(?<=[.!?…]["'”’)]*)\s+/).map(sentence => sentence.trim()).filter(Boolean)
+
+const normalizeText = (text: string) =>
+  text.toLowerCase().replace(/[‘’]/g, '\'').replace(/[^a-z0-9%' ]+/g, ' ').replace(/\s+/g, ' ').trim()
+
+const parseNumbers = (text: string): ParsedNumber[] => {
+  const numbers: ParsedNumber[] = []
+
+  for (const match of text.matchAll(NUMBER_PATTERN)) {
+    const [raw, currency, digits, suffix = ''] = match
+    const index = match.index || 0
+    const before = text[index - 1] || ''
+    const after = text[index + raw.length] || ''
+
+    // Skip parts of words and thread numbering (100s, 3rd, 1/5, v2)
+    if (/[\p{L}/]/u.test(before) || /[\p{L}/]/u.test(after)) continue
+
+    const unit = suffix.trim().toLowerCase().replace(/\s/g, '')
+    const percent = unit === '%' || unit.startsWith('percent') || unit.startsWith('per')
+    const value = parseFloat(digits.replace(/,/g, '')) * (MAGNITUDES[unit] || 1)
+    const significant = !!currency || !!unit || (value >= MIN_PLAIN_NUMBER && !(value >= 1900 && value <= 2100 && !digits.includes(',')))
+
+    if (Number.isFinite(value) && significant) {
+      numbers.push({ text: raw.trim(), value, percent, index })
+    }
+  }
+
+  return numbers
+}
+
+const excerptAround = (text: string, index: number, length: number): string => {
+  const start = Math.max(0, index - EXCERPT_RADIUS)
+  const end = Math.min(text.length, index + length + EXCERPT_RADIUS)
+  return `${start > 0 ? '...' : ''}${text.slice(start, end).trim()}${end < text.length ? '...' : ''}`
+}
+
+export class FactCheckerService {
+
+  // Extract each statistic and quotation from a draft and look for it in the research the draft was written from
+  check(body: string, sources: ResearchSourceRef[]): FactCheckReport {
+    const claims: FactCheckClaim[] = []
+    const seen = new Set<string>()
+    const checkable = sources.filter(source => source.snippet)
+
+    for (const paragraph of splitParagraphs(body)) {
+      for (const sentence of splitSentences(paragraph)) {
+        for (const claim of this.extractClaims(sentence)) {
+          const key = `${claim.kind}:${claim.text.toLowerCase()}`
+          if (seen.has(key)) continue
+          seen.add(key)
+
+          const source = claim.kind === 'number'
+            ? this.findNumber(claim.number!, checkable)
+            : this.findQuote(claim.text, checkable)
+
+          claims.push({
+            kind: claim.kind,
+            text: claim.text,
+            sentence,
+            status: source ? 'supported' : 'unsupported',
+            ...(source && { source })
+          })
+        }
+      }
+    }
+
+    const supported = claims.filter(claim => claim.status === 'supported').length
+
+    return {
+      checked_at: new Date().toISOString(),
+      supported_count: supported,
+      unsupported_count: claims.length - supported,
+      claims
+    }
+  }
+
+  applyFactCheck(result: AIAgentResult, idea?: ResearchIdea, fallbackSources: ResearchSourceRef[] = []): AIAgentResult {
+    // Claims are matched against the sources the idea cited first, then anything else the job researched
+    const sources = [...(idea?.sources || []), ...fallbackSources]
+    const report = this.check(result.content.body, sources)
+
+    if (report.unsupported_count > 0) {
+      logger.warn({
+        agentName: result.agent_name,
+        unsupported: report.claims.filter(claim => claim.status === 'unsupported').map(claim => claim.text)
+      }, 'Draft contains claims not found in its research')
+    }
+
+    return {
+      ...result,
+      metadata: {
+        ...result.metadata,
+        fact_check: report
+      }
+    }
+  }
+
+  private extractClaims(sentence: string): Array<{ kind: FactCheckClaim['kind']; text: string; number?: ParsedNumber }> {
+    const claims: Array<{ kind: FactCheckClaim['kind']; text: string; number?: ParsedNumber }> = []
+
+    for (const match of sentence.matchAll(QUOTE_PATTERN)) {
+      if (match[1].trim().split(/\s+/).length >= MIN_QUOTE_WORDS) {
+        claims.push({ kind: 'quote', text: match[1].trim() })
+      }
+    }
+
+    // "1 in 3" is a statistic even though both numbers are small
+    const ratioSpans: Array<[number, number]> = []
+    for (const match of sentence.matchAll(RATIO_PATTERN)) {
+      const index = match.index || 0
+      ratioSpans.push([index, index + match[0].length])
+      claims.push({
+        kind: 'number',
+        text: match[0],
+        number: { text: match[0], value: Number(match[1]) / Number(match[2]) * 100, percent: true, index }
+      })
+    }
+
+    for (const number of parseNumbers(sentence)) {
+      if (!ratioSpans.some(([start, end]) => number.index >= start && number.index < end)) {
+        claims.push({ kind: 'number', text: number.text, number })
+      }
+    }
+
+    return claims
+  }
+
+  private findNumber(claim: ParsedNumber, sources: ResearchSourceRef[]): FactCheckClaim['source'] | undefined {
+    for (const source of sources) {
+      const snippet = source.snippet!
+      const candidates = [
+        ...parseNumbers(snippet),
+        ...Array.from(snippet.matchAll(RATIO_PATTERN)).map(match => ({
+          text: match[0],
+          value: Number(match[1]) / Number(match[2]) * 100,
+          percent: true,
+          index: match.index || 0
+        }))
+      ]
+
+      // Ratios are compared as whole percentages so "1 in 3" matches "33%"
+      const match = candidates.find(candidate =>
+        candidate.percent === claim.percent &&
+        (claim.percent ? Math.round(candidate.value) === Math.round(claim.value) : candidate.value === claim.value)
+      )
+
+      if (match) {
+        return {
+          url: source.url,
+          title: source.title,
+          source: source.source,
+          excerpt: excerptAround(snippet, match.index, match.text.length)
+        }
+      }
+    }
+
+    return undefined
+  }
+
+  private findQuote(quote: string, sources: ResearchSourceRef[]): FactCheckClaim['source'] | undefined {
+    const normalizedQuote = normalizeText(quote)
+
+    for (const source of sources) {
+      const snippet = source.snippet!
+      const normalizedSnippet = normalizeText(snippet)
+      const position = normalizedSnippet.indexOf(normalizedQuote)
+
+      if (position !== -1) {
+        // Show the original wording where it survives normalization unchanged
+        const originalPosition = snippet.toLowerCase().indexOf(quote.toLowerCase())
+        return {
+          url: source.url,
+          title: source.title,
+          source: source.source,
+          excerpt: originalPosition !== -1
+            ? excerptAround(snippet, originalPosition, quote.length)
+            : excerptAround(normalizedSnippet, position, normalizedQuote.length)
+        }
+      }
+    }
+
+    return undefined
+  }
+}
+
+export const factCheckerService = new FactCheckerService()
+export default factCheckerService
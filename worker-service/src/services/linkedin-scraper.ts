@@ -0,0 +1,75 @@
+import { appConfig } from '../config'
+import { usageLedgerService } from './usage-ledger'
+import type { ScrapedLinkedInPost, UsageTags } from '../types'
+
+const REQUEST_TIMEOUT_MS = 30000
+
+// A failed feed request; status is the HTTP status, or undefined for network errors and timeouts
+export class LinkedInScraperError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message)
+    this.name = 'LinkedInScraperError'
+  }
+}
+
+export interface ProfilePostsPage {
+  posts: ScrapedLinkedInPost[]
+  paginationToken?: string
+}
+
+// RapidAPI LinkedIn scraper, the same API the web app's sync routes call
+export class LinkedInScraperService {
+  get isConfigured(): boolean {
+    return !!appConfig.research.rapidapi.apiKey
+  }
+
+  async getProfilePosts(username: string, page: number, paginationToken?: string | null, usage?: UsageTags): Promise<ProfilePostsPage> {
+    const { apiKey, host } = appConfig.research.rapidapi
+    const params = new URLSearchParams({ username, page_number: String(page) })
+    if (paginationToken) {
+      params.set('pagination_token', paginationToken)
+    }
+
+    let response: Response
+    try {
+      response = await fetch(`https://${host}/profile/posts?${params}`, {
+        headers: {
+          'x-rapidapi-host': host,
+          'x-rapidapi-key': apiKey!
+        },
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+      })
+    } catch (error) {
+      throw new LinkedInScraperError(`RapidAPI request failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+
+    await usageLedgerService.recordServiceCall('rapidapi', 'profile_posts', usage, {
+      metadata: { username, page, status: response.status }
+    })
+
+    if (!response.ok) {
+      throw new LinkedInScraperError(`RapidAPI error: ${response.status} ${response.statusText}`, response.status)
+    }
+
+    // Posts come back under data.posts, or at the root from some API versions
+    const data = await response.json() as {
+      success?: boolean
+      message?: string
+      data?: { posts?: ScrapedLinkedInPost[]; pagination_token?: string }
+      posts?: ScrapedLinkedInPost[]
+    }
+
+    if (data.success === false) {
+      throw new LinkedInScraperError(`RapidAPI returned an error: ${data.message || 'Unknown error'}`)
+    }
+
+    const posts = data.data?.posts || data.posts || []
+    return {
+      posts: Array.isArray(posts) ? posts : [],
+      paginationToken: data.data?.pagination_token
+    }
+  }
+}
+
+export const linkedInScraperService = new LinkedInScraperService()
+export default linkedInScraperService
@@ -0,0 +1,101 @@
+import { BaseLLMProvider, LLMProviderError } from './base'
+import type { LLMCompletion, LLMCompletionRequest, LLMMessage } from '../../types'
+
+const ANTHROPIC_VERSION = '2023-06-01'
+const DEFAULT_MAX_TOKENS = 1024
+
+interface MessagesResponse {
+  model: string
+  content: Array<{ type: string; text?: string }>
+  usage?: {
+    input_tokens: number
+    output_tokens: number
+  }
+}
+
+// Talks to any endpoint that implements the Anthropic Messages API (set ANTHROPIC_BASE_URL for proxies)
+export class AnthropicProvider extends BaseLLMProvider {
+  readonly name = 'anthropic' as const
+
+  constructor(
+    private apiKey: string,
+    private defaultModel: string,
+    private baseUrl: string
+  ) {
+    super()
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const model = request.model || this.defaultModel
+    const system = request.messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n')
+    const messages = this.toMessages(request.messages)
+
+    // No native JSON mode: instruct, then prefill the assistant turn with "{"
+    const prefill = request.json && messages[messages.length - 1]?.role === 'user' ? '{' : ''
+    const jsonInstruction = request.json
+      ? '\n\nRespond with a single valid JSON object only. No markdown, no code blocks, no commentary.'
+      : ''
+
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION
+      },
+      body: JSON.stringify({
+        model,
+        max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+        temperature: request.temperature,
+        ...((system || jsonInstruction) && { system: `${system}${jsonInstruction}`.trim() }),
+        messages: prefill ? [...messages, { role: 'assistant', content: prefill }] : messages
+      })
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw new LLMProviderError(this.name, `Anthropic request failed: ${response.status} ${errorText}`, response.status)
+    }
+
+    const data = await response.json() as MessagesResponse
+    const text = data.content
+      .filter(block => block.type === 'text')
+      .map(block => block.text || '')
+      .join('')
+
+    const promptTokens = data.usage?.input_tokens || 0
+    const completionTokens = data.usage?.output_tokens || 0
+
+    return {
+      content: `${prefill}${text}`,
+      model: data.model || model,
+      provider: this.name,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens
+      }
+    }
+  }
+
+  // System prompts travel separately; consecutive turns from the same role are merged
+  private toMessages(messages: LLMMessage[]): Array<{ role: 'user' | 'assistant'; content: string }> {
+    const result: Array<{ role: 'user' | 'assistant'; content: string }> = []
+
+    for (const message of messages) {
+      if (message.role === 'system') continue
+
+      const previous = result[result.length - 1]
+      if (previous && previous.role === message.role) {
+        previous.content = `${previous.content}\n\n${message.content}`
+      } else {
+        result.push({ role: message.role, content: message.content })
+      }
+    }
+
+    return result
+  }
+}
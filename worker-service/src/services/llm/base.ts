@@ -0,0 +1,61 @@
+import logger from '../../lib/logger'
+import type { LLMCompletion, LLMCompletionRequest, LLMProvider, LLMProviderName } from '../../types'
+
+export class LLMProviderError extends Error {
+  constructor(
+    public readonly provider: LLMProviderName,
+    message: string,
+    public readonly status?: number
+  ) {
+    super(message)
+    this.name = 'LLMProviderError'
+  }
+}
+
+// Parse a model response that should be JSON, tolerating code fences and surrounding prose
+export const parseJSONContent = <T = any>(content: string): T | null => {
+  const attempts = [
+    content,
+    // JSON between ```json and ```
+    content.match(/```(?:json)?\s*([\s\S]*?)\s*```/)?.[1],
+    // First { to last }
+    content.match(/(\{[\s\S]*\})/)?.[1],
+    // JSON after "output:" or similar
+    content.match(/(?:output|result|json):\s*(\{[\s\S]*\})/i)?.[1]
+  ]
+
+  for (const attempt of attempts) {
+    if (!attempt) continue
+
+    try {
+      return JSON.parse(attempt.trim())
+    } catch {
+      continue
+    }
+  }
+
+  return null
+}
+
+// Rough token estimate (~4 characters per token) for providers that don't report usage
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4)
+
+export abstract class BaseLLMProvider implements LLMProvider {
+  abstract readonly name: LLMProviderName
+
+  abstract complete(request: LLMCompletionRequest): Promise<LLMCompletion>
+
+  async completeJSON<T = any>(request: Omit<LLMCompletionRequest, 'json'>): Promise<{ data: T | null; completion: LLMCompletion }> {
+    const completion = await this.complete({ ...request, json: true })
+    const data = parseJSONContent<T>(completion.content)
+
+    if (data === null) {
+      logger.warn({
+        provider: this.name,
+        responsePreview: completion.content.substring(0, 200)
+      }, 'LLM response was not valid JSON')
+    }
+
+    return { data, completion }
+  }
+}
@@ -0,0 +1,176 @@
+import type { LLMCompletionRequest, ResearchResult } from '../../types'
+
+export interface LLMFixture {
+  name: string
+  match: (request: LLMCompletionRequest) => boolean
+  respond: (request: LLMCompletionRequest) => string
+}
+
+const systemPrompt = (request: LLMCompletionRequest) =>
+  request.messages.filter(message => message.role === 'system').map(message => message.content).join('\n')
+
+const lastUserMessage = (request: LLMCompletionRequest) =>
+  [...request.messages].reverse().find(message => message.role === 'user')?.content || ''
+
+// Offline stand-in for provider search results, used by the research service with LLM_PROVIDER=stub
+export const STUB_RESEARCH_RESULTS: ResearchResult[] = [
+  {
+    source: 'firecrawl',
+    title: 'UK founders report record burnout levels',
+    content: 'A survey of 1,200 UK founders found 72% experienced burnout in the last year, with 58% saying they had no one to talk to about it.',
+    url: 'https://example.com/founder-burnout',
+    relevance_score: 0.8
+  },
+  {
+    source: 'firecrawl',
+    title: 'Four-day week pilot results published',
+    content: 'Companies in the UK four-day week pilot kept 92% of the policy after the trial, citing retention and productivity gains.',
+    url: 'https://example.com/four-day-week',
+    relevance_score: 0.8
+  },
+  {
+    source: 'firecrawl',
+    title: 'CEOs delegate less as markets tighten',
+    content: 'New research shows CEOs of mid-sized firms took back decisions they had delegated during the downturn, slowing teams down.',
+    url: 'https://example.com/ceo-delegation',
+    relevance_score: 0.8
+  }
+]
+
+export const STUB_RESEARCH = {
+  idea_1: {
+    concise_summary: 'A survey of 1,200 UK founders found 72% experienced burnout in the last year.',
+    angle_approach: 'Burnout is a self-leadership problem before it is a workload problem.',
+    details: '72% of founders report burnout; 58% have no one to talk to about it.',
+    relevance: 'Outwardly successful founders are privately struggling - exactly the gap self-leadership closes.',
+    sources: [1]
+  },
+  idea_2: {
+    concise_summary: 'Most UK companies in the four-day week pilot kept the policy after the trial.',
+    angle_approach: 'What if working less is the test of whether you have built a business or a job?',
+    details: '92% of pilot companies kept the four-day week, citing retention and productivity.',
+    relevance: 'CEOs working 60+ hour weeks can see what trust and delegation make possible.',
+    sources: [2]
+  },
+  idea_3: {
+    concise_summary: 'CEOs of mid-sized firms are taking back delegated decisions as markets tighten.',
+    angle_approach: 'Control may have built your business - but it won\'t grow it.',
+    details: 'Research shows leaders reclaiming decisions under pressure, slowing their teams down.',
+    relevance: 'Becoming the bottleneck under pressure is the core pattern Andrew coaches leaders out of.',
+    sources: [3]
+  }
+}
+
+const LINKEDIN_POSTS = [
+  `Most founders won't admit this:
+
+They're exhausted. Not from the work - from carrying it alone.
+
+I've coached 100s of CEOs and Founders. The ones who burn out rarely lack resilience. They lack somewhere to put it down.
+
+The key? Treat your own energy like a business asset - because it is.
+
+What helps you put the weight down?
+
+♻️ Repost if this might help another Founder today`,
+  `What if working less… was the real test of your leadership?
+
+Most CEOs would say they can't step away. The business needs them.
+
+But a business that needs you every day isn't a business - it's a job with a bigger salary.
+
+Here's what helped me - and what I now teach other leaders: build trust before you need it.
+
+♻️ Repost if this might help another Founder today`,
+  `Control may have built your business - but it won't grow it.
+
+When pressure rises, leaders pull decisions back. It feels responsible.
+
+It isn't. It teaches your team to wait for you.
+
+Where are you still proving yourself - when you could be leading differently?
+
+🔔 Follow me for more on self-leadership`
+]
+
+const TWITTER_THREAD = `Most founders won't admit this: they're exhausted, and it isn't from the work.
+
+I've coached 100s of CEOs. The ones who burn out rarely lack resilience - they lack somewhere to put it down.
+
+Treat your own energy like a business asset. Because it is.
+
+What helps you put the weight down? Repost if this might help another founder today.`
+
+const INSTAGRAM_CAPTION = `Most founders won't admit this 👇
+
+They're exhausted. Not from the work - from carrying it alone.
+
+The key? Treat your energy like a business asset.
+
+Save this for the next time you're running on empty 💡
+
+#leadership #founders #selfleadership #ceo #burnout`
+
+const FACEBOOK_POST = `Most founders won't admit this: they're exhausted.
+
+Not from the work - from carrying it alone. I've coached hundreds of leaders and the pattern is always the same.
+
+Treat your own energy like a business asset. Because it is.
+
+What helps you put the weight down?`
+
+const REVISED_POST = `Founders don't burn out from hard work. They burn out from carrying it alone.
+
+I've coached 100s of CEOs. The strongest ones know where to put the weight down.
+
+Treat your energy like a business asset - because it is.
+
+♻️ Repost if this might help another Founder today`
+
+// First match wins; order from most to least specific
+export const DEFAULT_FIXTURES: LLMFixture[] = [
+  {
+    name: 'research-ideas',
+    match: (request) => !!request.json && lastUserMessage(request).includes('"idea_1"'),
+    respond: () => JSON.stringify(STUB_RESEARCH)
+  },
+  {
+    name: 'style-repair',
+    match: (request) => lastUserMessage(request).startsWith('Fix these problems:'),
+    respond: (request) => {
+      const message = lastUserMessage(request)
+      const post = message.split('\nPost:\n')[1]?.trim() || LINKEDIN_POSTS[0]
+      return /call to action/i.test(message) && !post.includes('♻️')
+        ? `${post}\n\n♻️ Repost if this might help another Founder today`
+        : post
+    }
+  },
+  {
+    name: 'feedback-revision',
+    match: (request) => lastUserMessage(request).startsWith('Rewrite this post based on the following feedback'),
+    respond: () => REVISED_POST
+  },
+  {
+    name: 'twitter-thread',
+    match: (request) => systemPrompt(request).includes('X (Twitter) thread'),
+    respond: () => TWITTER_THREAD
+  },
+  {
+    name: 'instagram-caption',
+    match: (request) => systemPrompt(request).includes('Instagram caption'),
+    respond: () => INSTAGRAM_CAPTION
+  },
+  {
+    name: 'facebook-post',
+    match: (request) => systemPrompt(request).includes('create a Facebook post'),
+    respond: () => FACEBOOK_POST
+  },
+  {
+    name: 'linkedin-post',
+    match: (request) => systemPrompt(request).includes('Content Agent'),
+    respond: (request) => {
+      const agent = Number(systemPrompt(request).match(/Content Agent (\d)/)?.[1] || 1)
+      return LINKEDIN_POSTS[(agent - 1) % LINKEDIN_POSTS.length]
+    }
+  }
+]
@@ -0,0 +1,29 @@
+import { appConfig } from '../../config'
+import logger from '../../lib/logger'
+import { OpenAIProvider } from './openai'
+import { AnthropicProvider } from './anthropic'
+import { StubLLMProvider } from './stub'
+import { MeteredLLMProvider } from './metered'
+import type { LLMProvider, WorkerConfig } from '../../types'
+
+export { LLMProviderError, parseJSONContent } from './base'
+export { StubLLMProvider } from './stub'
+export type { LLMFixture } from './fixtures'
+
+export const createLLMProvider = (config: WorkerConfig['llm'] = appConfig.llm): LLMProvider => {
+  switch (config.provider) {
+    case 'anthropic':
+      return new AnthropicProvider(config.anthropic.apiKey!, config.model, config.anthropic.baseUrl)
+    case 'stub':
+      return new StubLLMProvider(config.model)
+    case 'openai':
+    default:
+      return new OpenAIProvider(config.openai.apiKey!, config.model)
+  }
+}
+
+export const llmProvider: LLMProvider = new MeteredLLMProvider(createLLMProvider())
+
+logger.info({ provider: llmProvider.name, model: appConfig.llm.model }, 'LLM provider initialized')
+
+export default llmProvider
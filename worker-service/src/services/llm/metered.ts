@@ -0,0 +1,19 @@
+import { BaseLLMProvider } from './base'
+import { usageLedgerService } from '../usage-ledger'
+import type { LLMCompletion, LLMCompletionRequest, LLMProvider } from '../../types'
+
+// Records every completion in the usage ledger, tagged with request.usage
+export class MeteredLLMProvider extends BaseLLMProvider {
+  readonly name: LLMProvider['name']
+
+  constructor(private inner: LLMProvider) {
+    super()
+    this.name = inner.name
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const completion = await this.inner.complete(request)
+    await usageLedgerService.recordLLMUsage(completion, request.usage)
+    return completion
+  }
+}
@@ -0,0 +1,43 @@
+import { OpenAI } from 'openai'
+import { BaseLLMProvider, LLMProviderError } from './base'
+import type { LLMCompletion, LLMCompletionRequest } from '../../types'
+
+export class OpenAIProvider extends BaseLLMProvider {
+  readonly name = 'openai' as const
+  private client: OpenAI
+
+  constructor(apiKey: string, private defaultModel: string) {
+    super()
+    this.client = new OpenAI({ apiKey })
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const model = request.model || this.defaultModel
+
+    try {
+      const completion = await this.client.chat.completions.create({
+        model,
+        messages: request.messages,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        ...(request.json && { response_format: { type: 'json_object' as const } })
+      })
+
+      return {
+        content: completion.choices[0]?.message?.content || '',
+        model: completion.model || model,
+        provider: this.name,
+        usage: {
+          promptTokens: completion.usage?.prompt_tokens || 0,
+          completionTokens: completion.usage?.completion_tokens || 0,
+          totalTokens: completion.usage?.total_tokens || 0
+        }
+      }
+    } catch (error) {
+      if (error instanceof OpenAI.APIError) {
+        throw new LLMProviderError(this.name, error.message, error.status)
+      }
+      throw error
+    }
+  }
+}
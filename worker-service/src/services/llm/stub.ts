@@ -0,0 +1,48 @@
+import { BaseLLMProvider, estimateTokens } from './base'
+import { DEFAULT_FIXTURES, type LLMFixture } from './fixtures'
+import type { LLMCompletion, LLMCompletionRequest } from '../../types'
+
+// Deterministic, network-free provider: answers from fixtures so the pipeline can run end-to-end in tests
+export class StubLLMProvider extends BaseLLMProvider {
+  readonly name = 'stub' as const
+  readonly calls: LLMCompletionRequest[] = []
+  private fixtures: LLMFixture[]
+
+  constructor(private defaultModel: string = 'stub-fixtures', fixtures: LLMFixture[] = DEFAULT_FIXTURES) {
+    super()
+    this.fixtures = [...fixtures]
+  }
+
+  // Fixtures added later take precedence, so tests can override the defaults
+  addFixture(fixture: LLMFixture): void {
+    this.fixtures.unshift(fixture)
+  }
+
+  reset(): void {
+    this.calls.length = 0
+    this.fixtures = [...DEFAULT_FIXTURES]
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    this.calls.push(request)
+
+    const fixture = this.fixtures.find(candidate => candidate.match(request))
+    const content = fixture
+      ? fixture.respond(request)
+      : request.json ? '{}' : 'Stub response'
+
+    const promptTokens = estimateTokens(request.messages.map(message => message.content).join('\n'))
+    const completionTokens = estimateTokens(content)
+
+    return {
+      content,
+      model: request.model || this.defaultModel,
+      provider: this.name,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens
+      }
+    }
+  }
+}
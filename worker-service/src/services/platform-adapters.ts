@@ -0,0 +1,261 @@
+import logger from '../lib/logger'
+import { LINKEDIN_MAX_LENGTH, HASHTAG_PATTERN, stripMarkdown, splitParagraphs, splitSentences } from './style-linter'
+import type { AIAgentResult, Platform, PlatformContent, PlatformValidationIssue } from '../types'
+
+export interface PlatformAdapter {
+  platform: Platform
+  label: string
+  // What the model is asked to write, e.g. "LinkedIn post"
+  contentType: string
+  maxLength: number
+  // LinkedIn-style lint (no hashtags, short paragraphs, signature CTA) applies before formatting
+  styleLint: boolean
+  // Appended to the generation prompt; empty for LinkedIn, which the base prompt targets
+  promptGuidelines: string
+  format(body: string): PlatformContent
+  validate(content: PlatformContent): PlatformValidationIssue[]
+}
+
+const TWEET_MAX_LENGTH = 280
+const TWITTER_MAX_THREAD = 10
+const INSTAGRAM_MAX_CAPTION = 2200
+const INSTAGRAM_MAX_HASHTAGS = 30
+// Instagram truncates captions after roughly this many characters behind "more"
+const INSTAGRAM_PREVIEW_LENGTH = 125
+const FACEBOOK_MAX_LENGTH = 63206
+
+const checkLength = (text: string, maxLength: number, label: string): PlatformValidationIssue[] => {
+  if (!text.trim()) {
+    return [{ rule: 'empty', message: 'Draft is empty' }]
+  }
+
+  return text.length > maxLength
+    ? [{ rule: 'max_length', message: `${text.length} characters exceeds ${label}'s ${maxLength} limit` }]
+    : []
+}
+
+// Split text into pieces no longer than maxLength, breaking on sentences and then words
+const packText = (text: string, maxLength: number): string[] => {
+  const pieces: string[] = []
+  let current = ''
+
+  const push = (part: string) => {
+    const candidate = current ? `${current} ${part}` : part
+    if (candidate.length <= maxLength) {
+      current = candidate
+      return
+    }
+
+    if (current) {
+      pieces.push(current)
+    }
+    current = part
+  }
+
+  for (const sentence of splitSentences(text)) {
+    if (sentence.length <= maxLength) {
+      push(sentence)
+      continue
+    }
+
+    for (const word of sentence.split(/\s+/)) {
+      push(word.length > maxLength ? word.slice(0, maxLength) : word)
+    }
+  }
+
+  if (current) {
+    pieces.push(current)
+  }
+
+  return pieces
+}
+
+const linkedInAdapter: PlatformAdapter = {
+  platform: 'linkedin',
+  label: 'LinkedIn',
+  contentType: 'LinkedIn post',
+  maxLength: LINKEDIN_MAX_LENGTH,
+  styleLint: true,
+  promptGuidelines: '',
+  format: (body) => ({ platform: 'linkedin', text: body.trim() }),
+  validate(content) {
+    return content.platform === 'linkedin' ? checkLength(content.text, this.maxLength, this.label) : []
+  }
+}
+
+const twitterAdapter: PlatformAdapter = {
+  platform: 'twitter',
+  label: 'X',
+  contentType: 'X (Twitter) thread',
+  maxLength: TWEET_MAX_LENGTH * TWITTER_MAX_THREAD,
+  styleLint: false,
+  promptGuidelines: `**Platform Override: X (Twitter) Thread**
+This content is for X, not LinkedIn. Where the guidelines above conflict, follow these rules:
+- Write a thread of 3-${TWITTER_MAX_THREAD} tweets, one tweet per paragraph, separated by a blank line
+- Keep every tweet under ${TWEET_MAX_LENGTH - 10} characters - numbering is added automatically, do not number tweets yourself
+- The first tweet is the hook and must stand alone
+- End with the call to action in the final tweet
+- No hashtags`,
+  format(body) {
+    // Reserve room for the "n/N " prefix added below
+    const maxTweet = TWEET_MAX_LENGTH - 6
+    // Hashtags at the end of a line go entirely, inline hashtags keep their word
+    const text = stripMarkdown(body)
+      .replace(/(?:\s*#[\p{L}\d_]+)+[ \t]*$/gmu, '')
+      .replace(HASHTAG_PATTERN, '$1$2')
+    const tweets = splitParagraphs(text)
+      .flatMap(paragraph => packText(paragraph.replace(/\s*\n\s*/g, ' '), maxTweet))
+
+    if (tweets.length <= 1) {
+      return { platform: 'twitter', tweets }
+    }
+
+    return {
+      platform: 'twitter',
+      tweets: tweets.map((tweet, index) => `${index + 1}/${tweets.length} ${tweet}`)
+    }
+  },
+  validate(content) {
+    if (content.platform !== 'twitter') return []
+
+    if (content.tweets.length === 0) {
+      return [{ rule: 'empty', message: 'Thread has no tweets' }]
+    }
+
+    const issues: PlatformValidationIssue[] = content.tweets
+      .map((tweet, index) => ({ tweet, index }))
+      .filter(({ tweet }) => tweet.length > TWEET_MAX_LENGTH)
+      .map(({ tweet, index }) => ({
+        rule: 'tweet_length' as const,
+        message: `Tweet ${index + 1} is ${tweet.length} characters (limit ${TWEET_MAX_LENGTH})`
+      }))
+
+    if (content.tweets.length > TWITTER_MAX_THREAD) {
+      issues.push({
+        rule: 'thread_length',
+        message: `${content.tweets.length} tweets is longer than the ${TWITTER_MAX_THREAD}-tweet thread limit`
+      })
+    }
+
+    return issues
+  }
+}
+
+const instagramAdapter: PlatformAdapter = {
+  platform: 'instagram',
+  label: 'Instagram',
+  contentType: 'Instagram caption',
+  maxLength: INSTAGRAM_MAX_CAPTION,
+  styleLint: false,
+  promptGuidelines: `**Platform Override: Instagram Caption**
+This content is for Instagram, not LinkedIn. Where the guidelines above conflict, follow these rules:
+- The first line is the hook and must land within ${INSTAGRAM_PREVIEW_LENGTH} characters (the rest is hidden behind "more")
+- Keep the whole caption under ${INSTAGRAM_MAX_CAPTION - 300} characters with short, airy paragraphs
+- Finish with a call to action, then a final line of 5-10 relevant hashtags
+- Emojis are welcome where they fit the voice`,
+  format(body) {
+    const text = stripMarkdown(body)
+    const hashtags = Array.from(new Set(
+      (text.match(HASHTAG_PATTERN) || []).map(tag => tag.trim())
+    ))
+
+    // Hashtag-only lines move to the hashtag list; inline hashtags stay in the caption
+    const caption = text
+      .split('\n')
+      .filter(line => !/^\s*(#[\p{L}\d_]+\s*)+$/u.test(line))
+      .join('\n')
+      .trim()
+
+    return { platform: 'instagram', caption, hashtags }
+  },
+  validate(content) {
+    if (content.platform !== 'instagram') return []
+
+    const issues = checkLength(content.caption, this.maxLength, this.label)
+    const firstLine = content.caption.split('\n')[0] || ''
+
+    if (firstLine.length > INSTAGRAM_PREVIEW_LENGTH) {
+      issues.push({
+        rule: 'caption_hook',
+        message: `Opening line is ${firstLine.length} characters, so the hook is cut off at ${INSTAGRAM_PREVIEW_LENGTH}`
+      })
+    }
+
+    if (content.hashtags.length > INSTAGRAM_MAX_HASHTAGS) {
+      issues.push({
+        rule: 'hashtag_count',
+        message: `${content.hashtags.length} hashtags exceeds Instagram's ${INSTAGRAM_MAX_HASHTAGS} limit`
+      })
+    }
+
+    return issues
+  }
+}
+
+const facebookAdapter: PlatformAdapter = {
+  platform: 'facebook',
+  label: 'Facebook',
+  contentType: 'Facebook post',
+  maxLength: FACEBOOK_MAX_LENGTH,
+  styleLint: true,
+  promptGuidelines: `**Platform Override: Facebook Post**
+This content is for Facebook, not LinkedIn. Where the guidelines above conflict, follow these rules:
+- Slightly warmer, more personal tone - write for a community rather than a professional network
+- Keep it under 1,500 characters; shorter posts perform better on Facebook
+- Open with the hook in the first sentence and end with a question that invites comments`,
+  format: (body) => ({ platform: 'facebook', text: body.trim() }),
+  validate(content) {
+    return content.platform === 'facebook' ? checkLength(content.text, this.maxLength, this.label) : []
+  }
+}
+
+const PLATFORM_ADAPTERS: Record<Platform, PlatformAdapter> = {
+  linkedin: linkedInAdapter,
+  twitter: twitterAdapter,
+  instagram: instagramAdapter,
+  facebook: facebookAdapter
+}
+
+export const getPlatformAdapter = (platform: Platform): PlatformAdapter =>
+  PLATFORM_ADAPTERS[platform] || linkedInAdapter
+
+// Plain-text rendering of the platform structure, used for scoring and copy/paste
+export const renderPlatformContent = (content: PlatformContent): string => {
+  switch (content.platform) {
+    case 'twitter':
+      return content.tweets.join('\n\n')
+    case 'instagram':
+      return content.caption
+    default:
+      return content.text
+  }
+}
+
+// Build the platform structure for a generated draft and record any rule violations
+export const applyPlatformFormat = (result: AIAgentResult, adapter: PlatformAdapter): AIAgentResult => {
+  const platformContent = adapter.format(result.content.body)
+  const issues = adapter.validate(platformContent)
+
+  if (issues.length > 0) {
+    logger.warn({
+      agentName: result.agent_name,
+      platform: adapter.platform,
+      issues: issues.map(issue => issue.rule)
+    }, 'Draft failed platform validation')
+  }
+
+  return {
+    ...result,
+    content: {
+      ...result.content,
+      body: renderPlatformContent(platformContent),
+      hashtags: platformContent.platform === 'instagram' ? platformContent.hashtags : result.content.hashtags,
+      platform: adapter.platform,
+      platform_content: platformContent
+    },
+    metadata: {
+      ...result.metadata,
+      platform_validation: issues
+    }
+  }
+}
@@ -0,0 +1,169 @@
+import { appConfig } from '../config'
+import logger from '../lib/logger'
+import { supabaseService } from './supabase'
+import { linkedInScraperService, LinkedInScraperError } from './linkedin-scraper'
+import type { SyncCursor } from '../types'
+
+// The scraper returns ten posts a page; a short page without a token is the end of the feed
+const FULL_PAGE_SIZE = 10
+const REQUEST_DELAY_MS = 3000
+
+export interface PostSyncProgress {
+  page: number
+  pagesFetched: number
+  postsSynced: number
+  newPosts: number
+}
+
+export interface PostSyncResult extends PostSyncProgress {
+  username: string
+  status: 'completed' | 'partial'
+  reason: 'caught_up' | 'end_of_feed' | 'page_limit'
+}
+
+// Thrown for failures a retry can't fix, so the job isn't retried
+export class PostSyncFatalError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PostSyncFatalError'
+  }
+}
+
+// BullMQ rejects custom job ids containing ':'; kept in step with the web app's src/lib/queue.ts
+export const postSyncJobId = (workspaceId: string, username: string) => `post-sync-${workspaceId}-${username}`
+
+export class PostSyncService {
+  get isConfigured(): boolean {
+    return linkedInScraperService.isConfigured
+  }
+
+  // Pages through a profile's feed from its cursor: a fresh run starts at page 1 and stops at
+  // the first page holding posts saved before the run began; an unfinished run resumes where it stopped
+  async syncProfile(
+    workspaceId: string,
+    username: string,
+    onProgress?: (progress: PostSyncProgress) => Promise<void>
+  ): Promise<PostSyncResult> {
+    const cursor = await supabaseService.getSyncCursor(workspaceId, username)
+    if (!cursor) {
+      throw new PostSyncFatalError(`No sync cursor for ${username} in workspace ${workspaceId}`)
+    }
+    if (cursor.kind === 'connection' && !cursor.connection_id) {
+      throw new PostSyncFatalError(`Sync cursor for ${username} has no connection`)
+    }
+
+    const resuming = !!cursor.resume_page
+    const now = new Date().toISOString()
+    const runStartedAt = resuming && cursor.run_started_at ? cursor.run_started_at : now
+
+    const progress: PostSyncProgress = resuming
+      ? { page: cursor.resume_page!, pagesFetched: cursor.pages_fetched, postsSynced: cursor.posts_synced, newPosts: cursor.new_posts }
+      : { page: 1, pagesFetched: 0, postsSynced: 0, newPosts: 0 }
+    let paginationToken = resuming ? cursor.pagination_token : null
+
+    await this.saveCursor(cursor, {
+      status: 'running',
+      run_started_at: runStartedAt,
+      resume_page: progress.page,
+      pagination_token: paginationToken,
+      pages_fetched: progress.pagesFetched,
+      posts_synced: progress.postsSynced,
+      new_posts: progress.newPosts,
+      last_error: null,
+      ...(!resuming && { started_at: now, finished_at: null })
+    })
+
+    logger.info({ workspaceId, username, kind: cursor.kind, page: progress.page, resuming }, 'Starting post sync')
+
+    for (let pagesThisRun = 0; pagesThisRun < appConfig.postSync.maxPagesPerRun; pagesThisRun++) {
+      if (pagesThisRun > 0) {
+        await new Promise(resolve => setTimeout(resolve, REQUEST_DELAY_MS))
+      }
+
+      let page
+      try {
+        page = await linkedInScraperService.getProfilePosts(username, progress.page, paginationToken, { route: 'post-sync', workspaceId })
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error'
+        // The cursor already points at this page, so the retry starts here
+        await this.saveCursor(cursor, { status: 'failed', last_error: message })
+        if (error instanceof LinkedInScraperError && error.status === 404) {
+          throw new PostSyncFatalError(`LinkedIn profile ${username} not found`)
+        }
+        throw error
+      }
+
+      const posts = page.posts.filter(post => post.urn)
+      if (posts.length === 0) {
+        return this.complete(cursor, username, progress, 'end_of_feed')
+      }
+
+      const urns = posts.map(post => post.urn)
+      const known = await supabaseService.getKnownPostUrns(cursor.kind, workspaceId, urns, runStartedAt)
+
+      if (cursor.kind === 'own') {
+        await supabaseService.upsertLinkedInPosts(workspaceId, posts)
+      } else {
+        await supabaseService.upsertConnectionPosts(workspaceId, cursor.connection_id!, posts)
+      }
+
+      const isFirstPage = progress.page === 1
+      progress.page++
+      progress.pagesFetched++
+      progress.postsSynced += posts.length
+      progress.newPosts += posts.length - known.size
+      paginationToken = page.paginationToken || null
+
+      await this.saveCursor(cursor, {
+        resume_page: progress.page,
+        pagination_token: paginationToken,
+        pages_fetched: progress.pagesFetched,
+        posts_synced: progress.postsSynced,
+        new_posts: progress.newPosts,
+        ...(isFirstPage && { newest_urn: urns[0] })
+      })
+      await onProgress?.({ ...progress })
+
+      if (known.size > 0) {
+        return this.complete(cursor, username, progress, 'caught_up')
+      }
+      if (!paginationToken && posts.length < FULL_PAGE_SIZE) {
+        return this.complete(cursor, username, progress, 'end_of_feed')
+      }
+    }
+
+    // Out of pages for this run; the next run resumes from the cursor
+    await this.saveCursor(cursor, { status: 'partial', finished_at: new Date().toISOString() })
+    logger.info({ workspaceId, username, ...progress }, 'Post sync paused at page limit')
+    return { username, status: 'partial', reason: 'page_limit', ...progress }
+  }
+
+  private async complete(
+    cursor: SyncCursor,
+    username: string,
+    progress: PostSyncProgress,
+    reason: PostSyncResult['reason']
+  ): Promise<PostSyncResult> {
+    const finishedAt = new Date().toISOString()
+    await this.saveCursor(cursor, {
+      status: 'completed',
+      resume_page: null,
+      pagination_token: null,
+      run_started_at: null,
+      finished_at: finishedAt,
+      last_completed_at: finishedAt
+    })
+
+    logger.info({ workspaceId: cursor.workspace_id, username, reason, ...progress }, 'Post sync completed')
+    return { username, status: 'completed', reason, ...progress }
+  }
+
+  private async saveCursor(cursor: SyncCursor, updates: Partial<SyncCursor>) {
+    if (!await supabaseService.updateSyncCursor(cursor.id, updates)) {
+      throw new Error(`Failed to save sync cursor for ${cursor.username}`)
+    }
+  }
+}
+
+export const postSyncService = new PostSyncService()
+export default postSyncService
@@ -0,0 +1,8 @@
+// The publisher answered with an explicit refusal, so nothing went out and the post can be submitted again.
+// Any other submit error (timeout, dropped connection, 5xx) leaves the outcome unknown.
+export class PublishRejectedError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message)
+    this.name = 'PublishRejectedError'
+  }
+}
@@ -0,0 +1,24 @@
+import { appConfig } from '../../config'
+import logger from '../../lib/logger'
+import { LindyPublisher } from './lindy'
+import { MockPublisher } from './mock'
+import { PublishRejectedError } from './errors'
+import type { Publisher, WorkerConfig } from '../../types'
+
+export { LindyPublisher, MockPublisher, PublishRejectedError }
+
+export const createPublisher = (config: WorkerConfig['publishing'] = appConfig.publishing): Publisher => {
+  switch (config.publisher) {
+    case 'lindy':
+      return new LindyPublisher(config.lindy.webhookUrl!, config.lindy.webhookToken!, config.lindy.authorId)
+    case 'mock':
+    default:
+      return new MockPublisher()
+  }
+}
+
+export const publisher: Publisher = createPublisher()
+
+logger.info({ publisher: publisher.name }, 'Publisher initialized')
+
+export default publisher
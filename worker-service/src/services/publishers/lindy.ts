@@ -0,0 +1,79 @@
+import { PublishRejectedError } from './errors'
+import type { Publisher, PublishRequest, PublishStatus } from '../../types'
+
+interface LindyJobResponse {
+  status: 'pending' | 'processing' | 'completed' | 'failed'
+  result?: { postUrl?: string; url?: string }
+  error?: string
+}
+
+// Same webhook contract as the web app's LindyClient: submit returns a Lindy job id, the job reports the post URL
+export class LindyPublisher implements Publisher {
+  readonly name = 'lindy' as const
+
+  constructor(
+    private baseUrl: string,
+    private webhookToken: string,
+    private authorId: string
+  ) {}
+
+  async submit(request: PublishRequest): Promise<{ externalId: string; url?: string }> {
+    const response = await fetch(`${this.baseUrl}/webhooks/linkedin/post`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify({
+        content: request.content,
+        hashtags: request.hashtags,
+        mentions: [],
+        scheduledTime: request.scheduledTime,
+        authorId: this.authorId,
+        postId: request.postId,
+        idempotencyKey: request.idempotencyKey
+      })
+    })
+
+    if (!response.ok) {
+      const message = `Lindy rejected post: ${response.status} ${await response.text()}`
+      // 4xx means Lindy refused the request. A timeout or a conflict on the idempotency key may mean it is live.
+      if (response.status >= 400 && response.status < 500 && response.status !== 408 && response.status !== 409) {
+        throw new PublishRejectedError(message, response.status)
+      }
+      throw new Error(message)
+    }
+
+    const result = await response.json() as { jobId?: string }
+    if (!result.jobId) {
+      throw new Error('Lindy accepted post but returned no job id')
+    }
+
+    return { externalId: result.jobId }
+  }
+
+  async getStatus(externalId: string): Promise<PublishStatus> {
+    const response = await fetch(`${this.baseUrl}/webhooks/jobs/${externalId}`, {
+      headers: this.headers()
+    })
+
+    if (!response.ok) {
+      throw new Error(`Lindy job status failed: ${response.status}`)
+    }
+
+    const job = await response.json() as LindyJobResponse
+
+    switch (job.status) {
+      case 'completed':
+        return { state: 'published', url: job.result?.postUrl || job.result?.url }
+      case 'failed':
+        return { state: 'failed', error: job.error || 'Lindy reported the post failed' }
+      default:
+        return { state: 'pending' }
+    }
+  }
+
+  private headers() {
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${this.webhookToken}`
+    }
+  }
+}
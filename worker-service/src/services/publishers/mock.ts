@@ -0,0 +1,26 @@
+import { createHash } from 'crypto'
+import logger from '../../lib/logger'
+import type { Publisher, PublishRequest, PublishStatus } from '../../types'
+
+// Local stand-in for development: logs the post and hands back a deterministic fake LinkedIn URL
+export class MockPublisher implements Publisher {
+  readonly name = 'mock' as const
+  readonly submissions: PublishRequest[] = []
+
+  async submit(request: PublishRequest): Promise<{ externalId: string; url?: string }> {
+    this.submissions.push(request)
+
+    const externalId = `mock-${createHash('sha256').update(request.idempotencyKey).digest('hex').substring(0, 16)}`
+    logger.info({ postId: request.postId, externalId, length: request.content.length }, 'Mock publisher received post')
+
+    return { externalId, url: this.urlFor(externalId) }
+  }
+
+  async getStatus(externalId: string): Promise<PublishStatus> {
+    return { state: 'published', url: this.urlFor(externalId) }
+  }
+
+  private urlFor(externalId: string): string {
+    return `https://www.linkedin.com/feed/update/urn:li:activity:${externalId}/`
+  }
+}
@@ -0,0 +1,216 @@
+import { appConfig } from '../config'
+import logger from '../lib/logger'
+import { contentPosts } from './content-posts'
+import { supabaseService } from './supabase'
+import { publisher as defaultPublisher, PublishRejectedError } from './publishers'
+import type { PostPublication, Publisher, PublishStatus, ScheduledPost } from '../types'
+
+// A publication stuck in 'submitting' this long means a worker died mid-submit; the post may or may not be live
+const STUCK_SUBMITTING_MINUTES = 10
+
+// Statuses the scheduler leaves alone: done, given up on, or needing a human to check LinkedIn
+const TERMINAL_STATUSES: PostPublication['status'][] = ['failed', 'submitting', 'unknown', 'cancelled']
+
+// Thrown while the publisher is still working on a submitted post, so BullMQ polls again after backoff
+export class PublishPendingError extends Error {
+  constructor(postId: string) {
+    super(`Post ${postId} submitted, waiting for publisher to confirm`)
+    this.name = 'PublishPendingError'
+  }
+}
+
+export type PublishOutcome = 'published' | 'already_published' | 'pending' | 'skipped'
+
+export class PublishingService {
+  constructor(private publisher: Publisher = defaultPublisher) {}
+
+  // Approved posts that are due and not already handled (or deliberately parked)
+  async findDuePosts(now: Date = new Date()): Promise<ScheduledPost[]> {
+    const posts = await contentPosts.getDuePosts(now)
+    const publications = await supabaseService.getPublications(posts.map(post => post.id))
+    const byPostId = new Map(publications.map(publication => [publication.airtable_post_id, publication]))
+
+    for (const publication of publications) {
+      const minutesStuck = (now.getTime() - new Date(publication.updated_at).getTime()) / 60000
+      if (publication.status === 'submitting' && minutesStuck > STUCK_SUBMITTING_MINUTES) {
+        logger.warn({
+          postId: publication.airtable_post_id,
+          publicationId: publication.id
+        }, 'Publication stuck while submitting; check LinkedIn and reset it by hand')
+      }
+    }
+
+    return posts.filter(post => {
+      const publication = byPostId.get(post.id)
+      return !publication || !TERMINAL_STATUSES.includes(publication.status)
+    })
+  }
+
+  // Publish one content post at most once. Safe to call repeatedly: every step is keyed on the
+  // post_publications row, and a post is only ever submitted from the 'pending' state.
+  async publishPost(postId: string, isFinalAttempt: boolean = false): Promise<PublishOutcome> {
+    const post = await contentPosts.getContentPost(postId)
+    let publication = await supabaseService.getOrCreatePublication({
+      airtablePostId: postId,
+      publisher: this.publisher.name,
+      scheduledFor: post?.scheduledDate
+    })
+
+    if (!publication) {
+      throw new Error(`Could not record publication for post ${postId}`)
+    }
+
+    if (publication.status === 'published') {
+      // An earlier run published but failed to write back to the post
+      if (post && post.status !== 'Published') {
+        await contentPosts.markPublished(postId, {
+          url: publication.linkedin_url,
+          publishedAt: publication.published_at || new Date().toISOString()
+        })
+      }
+      return 'already_published'
+    }
+
+    if (TERMINAL_STATUSES.includes(publication.status)) {
+      logger.info({ postId, status: publication.status }, 'Skipping publication in terminal state')
+      return 'skipped'
+    }
+
+    if (publication.status === 'pending') {
+      if (!post || post.status !== 'Approved') {
+        await supabaseService.transitionPublication(publication.id, ['pending'], {
+          status: 'cancelled',
+          error: post ? `Post status changed to ${post.status || 'none'}` : 'Post deleted'
+        })
+        logger.info({ postId, status: post?.status }, 'Post no longer approved, publication cancelled')
+        return 'skipped'
+      }
+
+      const submitted = await this.submit(publication, post, isFinalAttempt)
+      if (!submitted) {
+        return 'skipped'
+      }
+      publication = submitted
+    }
+
+    return this.confirm(publication, isFinalAttempt)
+  }
+
+  private async submit(
+    publication: PostPublication,
+    post: ScheduledPost,
+    isFinalAttempt: boolean
+  ): Promise<PostPublication | null> {
+    const attempts = publication.attempts + 1
+    const claimed = await supabaseService.transitionPublication(publication.id, ['pending'], {
+      status: 'submitting',
+      attempts
+    })
+
+    if (!claimed) {
+      logger.warn({ postId: post.id }, 'Publication claimed by another worker, skipping')
+      return null
+    }
+
+    let result: { externalId: string; url?: string }
+    try {
+      result = await this.publisher.submit({
+        postId: post.id,
+        content: post.content,
+        hashtags: post.hashtags,
+        scheduledTime: post.scheduledDate,
+        // One key per publication, so a resubmission after a lost response is deduped by the publisher
+        idempotencyKey: publication.id
+      })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+
+      if (error instanceof PublishRejectedError) {
+        // The publisher refused the request, so nothing went out and it is safe to try again
+        await supabaseService.transitionPublication(publication.id, ['submitting'], {
+          status: isFinalAttempt ? 'failed' : 'pending',
+          error: message
+        })
+        logger.error({ postId: post.id, attempts, error: message, isFinalAttempt }, 'Publisher rejected post')
+        throw error
+      }
+
+      // Timed out or lost the response: the post may be live, so never resubmit without a human checking LinkedIn
+      await supabaseService.transitionPublication(publication.id, ['submitting'], {
+        status: 'unknown',
+        error: message
+      })
+      logger.error({ postId: post.id, attempts, error: message }, 'Publish outcome unknown; check LinkedIn and reset it by hand')
+      throw error
+    }
+
+    const submitted = await supabaseService.transitionPublication(publication.id, ['submitting'], {
+      status: 'submitted',
+      external_id: result.externalId,
+      linkedin_url: result.url,
+      error: null
+    })
+
+    if (!submitted) {
+      // Left in 'submitting' on purpose: the post went out but we couldn't record it, so never resubmit
+      logger.error({ postId: post.id, externalId: result.externalId }, 'Post submitted but publication could not be recorded')
+      return null
+    }
+
+    logger.info({ postId: post.id, externalId: result.externalId, publisher: this.publisher.name }, 'Post submitted to publisher')
+    return submitted
+  }
+
+  private async confirm(publication: PostPublication, isFinalAttempt: boolean): Promise<PublishOutcome> {
+    const postId = publication.airtable_post_id
+    const status: PublishStatus = publication.linkedin_url
+      ? { state: 'published', url: publication.linkedin_url }
+      : await this.publisher.getStatus(publication.external_id!)
+
+    if (status.state === 'pending') {
+      // Stays 'submitted'; the next scheduler scan picks it up and polls again
+      if (isFinalAttempt) {
+        logger.warn({ postId, externalId: publication.external_id }, 'Publisher has not confirmed post yet')
+        return 'pending'
+      }
+      throw new PublishPendingError(postId)
+    }
+
+    if (status.state === 'failed') {
+      // The publisher accepted the post and then gave up, possibly after it went out; a human has to check LinkedIn
+      await supabaseService.transitionPublication(publication.id, ['submitted'], {
+        status: 'unknown',
+        error: status.error
+      })
+      logger.error({ postId, externalId: publication.external_id, error: status.error }, 'Publisher failed after accepting post; check LinkedIn and reset it by hand')
+      throw new Error(status.error || `Publisher failed to publish post ${postId}`)
+    }
+
+    const publishedAt = new Date().toISOString()
+    await supabaseService.transitionPublication(publication.id, ['submitted'], {
+      status: 'published',
+      linkedin_url: status.url,
+      published_at: publishedAt,
+      error: null
+    })
+
+    await contentPosts.markPublished(postId, { url: status.url, publishedAt })
+    await supabaseService.recordContentAudit({
+      workspace_id: appConfig.publishing.workspaceId,
+      backend: 'airtable',
+      content_id: postId,
+      action: 'status_change',
+      from_status: 'Approved',
+      to_status: 'Published',
+      actor: 'system',
+      actor_role: 'system',
+      details: { publisher: this.publisher.name, linkedin_url: status.url, external_id: publication.external_id }
+    })
+
+    logger.info({ postId, url: status.url }, 'Post published')
+    return 'published'
+  }
+}
+
+export const publishingService = new PublishingService()
+export default publishingService
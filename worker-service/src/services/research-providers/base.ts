@@ -0,0 +1,66 @@
+import { createHash } from 'crypto'
+import logger from '../../lib/logger'
+import { supabaseService } from '../supabase'
+import type { ResearchProvider, ResearchProviderName, ResearchRequest, ResearchResult } from '../../types'
+
+// Reduce an HTML page or feed fragment to readable text. Entities are decoded first
+// because feeds often carry escaped markup (&lt;p&gt;) inside <description>.
+export const stripHtml = (html: string): string =>
+  html
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/<(script|style|noscript|svg|nav|footer|header)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<br\s*\/?>|<\/(p|div|li|h[1-6])>/gi, '\n')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;|&apos;/g, '\'')
+    .replace(/&amp;/g, '&')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\s*\n\s*/g, '\n')
+    .trim()
+
+export const summarize = (content: string, length: number = 200): string =>
+  content.length > length ? `${content.substring(0, length)}...` : content
+
+export abstract class BaseResearchProvider implements ResearchProvider {
+  abstract readonly name: ResearchProviderName
+  // How long results stay in research_cache before the provider is called again
+  abstract readonly cacheTtlHours: number
+
+  abstract search(request: ResearchRequest): Promise<ResearchResult[]>
+
+  private cacheKey(key: string): string {
+    return createHash('sha256').update(`${this.name}:${key}`).digest('hex')
+  }
+
+  // Serve from research_cache when fresh, otherwise fetch and cache for this provider's TTL.
+  // Only the fetch function is metered, so cache hits cost nothing in the usage ledger.
+  protected async withCache(key: string, fetchResults: () => Promise<ResearchResult[]>): Promise<ResearchResult[]> {
+    const queryHash = this.cacheKey(key)
+    const cached = await supabaseService.getCachedResearch(queryHash)
+
+    if (cached) {
+      logger.info({ source: this.name, queryHash }, 'Using cached research data')
+      return cached.results
+    }
+
+    const results = await fetchResults()
+
+    // Empty results are not cached so a transient failure is retried next time
+    if (results.length > 0) {
+      await supabaseService.setCachedResearch({
+        queryHash,
+        source: this.name,
+        queryText: key,
+        results,
+        expiresAt: new Date(Date.now() + this.cacheTtlHours * 60 * 60 * 1000)
+      })
+
+      logger.debug({ source: this.name, queryHash, ttlHours: this.cacheTtlHours }, 'Cached research data')
+    }
+
+    return results
+  }
+}
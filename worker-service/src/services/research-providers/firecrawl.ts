@@ -0,0 +1,71 @@
+import { appConfig } from '../../config'
+import logger from '../../lib/logger'
+import { usageLedgerService } from '../usage-ledger'
+import { BaseResearchProvider, summarize } from './base'
+import type { ResearchRequest, ResearchResult, UsageTags } from '../../types'
+
+export class FirecrawlResearchProvider extends BaseResearchProvider {
+  readonly name = 'firecrawl' as const
+  readonly cacheTtlHours = 24
+  private resultsPerQuery = 3
+
+  async search(request: ResearchRequest): Promise<ResearchResult[]> {
+    const results: ResearchResult[] = []
+
+    for (const query of request.queries) {
+      const queryResults = await this.searchQuery(query, request.usage)
+      results.push(...queryResults.slice(0, this.resultsPerQuery))
+    }
+
+    return results
+  }
+
+  async searchQuery(query: string, usage?: UsageTags): Promise<ResearchResult[]> {
+    try {
+      return await this.withCache(query, async () => {
+        logger.info({ query }, 'Searching with Firecrawl')
+
+        const response = await fetch('https://api.firecrawl.dev/v0/search', {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${appConfig.research.firecrawl.apiKey}`,
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({
+            query,
+            pageOptions: {
+              fetchPageContent: true,
+              includeHtml: false
+            },
+            searchOptions: {
+              limit: 5
+            }
+          })
+        })
+
+        await usageLedgerService.recordServiceCall('firecrawl', 'search', usage, { metadata: { query, status: response.status } })
+
+        if (!response.ok) {
+          throw new Error(`Firecrawl API error: ${response.status} ${response.statusText}`)
+        }
+
+        const data: any = await response.json()
+
+        const results: ResearchResult[] = (data.data || []).map((item: any) => ({
+          source: this.name,
+          title: item.metadata?.title || 'No title',
+          content: item.content || item.markdown || '',
+          url: item.metadata?.sourceURL || item.url,
+          relevance_score: 0.8,
+          summary: summarize(item.content || '')
+        }))
+
+        logger.info({ query, resultCount: results.length }, 'Firecrawl search completed')
+        return results
+      })
+    } catch (error) {
+      logger.error({ error, query }, 'Firecrawl search failed')
+      return []
+    }
+  }
+}
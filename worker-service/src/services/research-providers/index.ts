@@ -0,0 +1,38 @@
+import { FirecrawlResearchProvider } from './firecrawl'
+import { PerplexityResearchProvider } from './perplexity'
+import { RSSResearchProvider } from './rss'
+import { ManualURLResearchProvider } from './manual'
+import type { ResearchProvider, ResearchProviderName } from '../../types'
+
+export { BaseResearchProvider, stripHtml } from './base'
+export { parseFeed } from './rss'
+export { FirecrawlResearchProvider, PerplexityResearchProvider, RSSResearchProvider, ManualURLResearchProvider }
+
+export const researchProviders: Record<ResearchProviderName, ResearchProvider> = {
+  firecrawl: new FirecrawlResearchProvider(),
+  perplexity: new PerplexityResearchProvider(),
+  rss: new RSSResearchProvider(),
+  manual: new ManualURLResearchProvider()
+}
+
+export const RESEARCH_PROVIDER_NAMES = Object.keys(researchProviders) as ResearchProviderName[]
+
+export const getResearchProvider = (name: ResearchProviderName): ResearchProvider => {
+  const provider = researchProviders[name]
+  if (!provider) {
+    throw new Error(`Unknown research provider: ${name}`)
+  }
+  return provider
+}
+
+// Explicit choices win; pasted URLs alone mean "research just these"; otherwise keep the Firecrawl default
+export const resolveResearchProviders = (requested?: ResearchProviderName[], sourceUrls?: string[]): ResearchProviderName[] => {
+  if (requested && requested.length > 0) {
+    const providers = Array.from(new Set(requested))
+    return sourceUrls && sourceUrls.length > 0 && !providers.includes('manual')
+      ? [...providers, 'manual']
+      : providers
+  }
+
+  return sourceUrls && sourceUrls.length > 0 ? ['manual'] : ['firecrawl']
+}
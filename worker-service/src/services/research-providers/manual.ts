@@ -0,0 +1,57 @@
+import logger from '../../lib/logger'
+import { BaseResearchProvider, stripHtml, summarize } from './base'
+import type { ResearchRequest, ResearchResult } from '../../types'
+
+// "Research these URLs I pasted": reads each page directly instead of searching
+export class ManualURLResearchProvider extends BaseResearchProvider {
+  readonly name = 'manual' as const
+  readonly cacheTtlHours = 24 * 7 // A pasted article rarely changes
+  private maxContentLength = 6000
+
+  async search(request: ResearchRequest): Promise<ResearchResult[]> {
+    const urls = Array.from(new Set(request.urls || []))
+
+    if (urls.length === 0) {
+      logger.warn({ topic: request.topic }, 'Manual research requested without any URLs')
+      return []
+    }
+
+    const results = await Promise.all(urls.map(url => this.fetchPage(url)))
+    return results.flat()
+  }
+
+  private async fetchPage(url: string): Promise<ResearchResult[]> {
+    try {
+      return await this.withCache(url, async () => {
+        logger.info({ url }, 'Fetching pasted research URL')
+
+        const response = await fetch(url, {
+          headers: { 'Accept': 'text/html, text/plain' },
+          signal: AbortSignal.timeout(15000)
+        })
+
+        if (!response.ok) {
+          throw new Error(`Page request failed: ${response.status} ${response.statusText}`)
+        }
+
+        const html = await response.text()
+        const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1]
+        const body = html.match(/<(article|main)\b[^>]*>([\s\S]*?)<\/\1>/i)?.[2] || html
+        const content = stripHtml(body).substring(0, this.maxContentLength)
+
+        // Pasted URLs were chosen by the user, so they outrank anything a search turned up
+        return [{
+          source: this.name,
+          title: title ? stripHtml(title) : url,
+          content,
+          url,
+          relevance_score: 1,
+          summary: summarize(content)
+        }]
+      })
+    } catch (error) {
+      logger.error({ error, url }, 'Failed to fetch pasted research URL')
+      return []
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import { appConfig } from '../../config'
+import logger from '../../lib/logger'
+import { usageLedgerService } from '../usage-ledger'
+import { BaseResearchProvider, summarize } from './base'
+import type { ResearchRequest, ResearchResult, UsageTags } from '../../types'
+
+export class PerplexityResearchProvider extends BaseResearchProvider {
+  readonly name = 'perplexity' as const
+  readonly cacheTtlHours = 12 // Answers track recent news, so expire sooner than Firecrawl
+
+  // Perplexity answers the topic as a whole; the per-query searches are Firecrawl's job
+  async search(request: ResearchRequest): Promise<ResearchResult[]> {
+    if (!appConfig.research.perplexity.apiKey) {
+      logger.warn('Perplexity requested but PERPLEXITY_API_KEY is not set')
+      return []
+    }
+
+    return this.searchQuery(request.topic, request.usage)
+  }
+
+  async searchQuery(query: string, usage?: UsageTags): Promise<ResearchResult[]> {
+    try {
+      return await this.withCache(query, async () => {
+        logger.info({ query }, 'Searching with Perplexity')
+
+        const response = await fetch('https://api.perplexity.ai/chat/completions', {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${appConfig.research.perplexity.apiKey}`,
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({
+            model: 'llama-3.1-sonar-small-128k-online',
+            messages: [
+              {
+                role: 'system',
+                content: 'You are a research assistant. Provide comprehensive, factual information about the given topic. Include relevant statistics, recent developments, and key insights. Format your response as structured information that would be useful for creating LinkedIn content.'
+              },
+              {
+                role: 'user',
+                content: `Research the topic: ${query}. Provide key insights, recent trends, statistics, and practical information that would be valuable for creating professional LinkedIn content about this topic.`
+              }
+            ],
+            max_tokens: 1000,
+            temperature: 0.3,
+            return_citations: true,
+            return_images: false
+          })
+        })
+
+        if (!response.ok) {
+          throw new Error(`Perplexity API error: ${response.status} ${response.statusText}`)
+        }
+
+        const data: any = await response.json()
+        await usageLedgerService.recordServiceCall('perplexity', 'chat_completion', usage, {
+          model: data.model,
+          promptTokens: data.usage?.prompt_tokens,
+          completionTokens: data.usage?.completion_tokens,
+          metadata: { query }
+        })
+
+        const content = data.choices?.[0]?.message?.content || ''
+        const citations = data.citations || []
+
+        const results: ResearchResult[] = [{
+          source: this.name,
+          title: `Research: ${query}`,
+          content,
+          url: typeof citations[0] === 'string' ? citations[0] : citations[0]?.url,
+          relevance_score: 0.9,
+          summary: summarize(content, 300)
+        }]
+
+        // Add citations as separate results
+        citations.forEach((citation: any) => {
+          if (citation.url && citation.title) {
+            results.push({
+              source: this.name,
+              title: citation.title,
+              content: citation.snippet || '',
+              url: citation.url,
+              relevance_score: 0.7,
+              summary: summarize(citation.snippet || '')
+            })
+          }
+        })
+
+        logger.info({ query, resultCount: results.length }, 'Perplexity search completed')
+        return results
+      })
+    } catch (error) {
+      logger.error({ error, query }, 'Perplexity search failed')
+      return []
+    }
+  }
+}
@@ -0,0 +1,98 @@
+import { appConfig } from '../../config'
+import logger from '../../lib/logger'
+import { BaseResearchProvider, stripHtml, summarize } from './base'
+import type { ResearchRequest, ResearchResult } from '../../types'
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'your', 'are', 'was', 'how', 'why', 'what', 'uk', '2024', '2025'
+])
+
+const readTag = (xml: string, tag: string): string | undefined =>
+  xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'i'))?.[1]
+
+// Atom links carry the URL in an attribute: <link href="..." rel="alternate"/>
+const readAtomLink = (xml: string): string | undefined => {
+  const links = xml.match(/<link\b[^>]*>/gi) || []
+  const alternate = links.find(link => !/rel=["'](?!alternate)/i.test(link)) || links[0]
+  return alternate?.match(/href=["']([^"']+)["']/i)?.[1]
+}
+
+const keywordsOf = (text: string): string[] =>
+  Array.from(new Set(
+    text.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 2 && !STOP_WORDS.has(word))
+  ))
+
+// RSS 2.0 <item> and Atom <entry> elements, without pulling in an XML parser
+export const parseFeed = (xml: string, feedUrl: string): ResearchResult[] => {
+  const items = xml.match(/<item\b[\s\S]*?<\/item>/gi) || xml.match(/<entry\b[\s\S]*?<\/entry>/gi) || []
+
+  return items.map(item => {
+    const content = stripHtml(
+      readTag(item, 'content:encoded') || readTag(item, 'content') || readTag(item, 'description') || readTag(item, 'summary') || ''
+    )
+    const published = readTag(item, 'pubDate') || readTag(item, 'published') || readTag(item, 'updated') || readTag(item, 'dc:date')
+    const publishedAt = published ? new Date(stripHtml(published)) : null
+
+    return {
+      source: 'rss' as const,
+      title: stripHtml(readTag(item, 'title') || 'No title'),
+      content,
+      url: stripHtml(readTag(item, 'link') || '') || readAtomLink(item) || feedUrl,
+      relevance_score: 0.5,
+      summary: summarize(content),
+      published_at: publishedAt && !isNaN(publishedAt.getTime()) ? publishedAt.toISOString() : undefined
+    }
+  })
+}
+
+export class RSSResearchProvider extends BaseResearchProvider {
+  readonly name = 'rss' as const
+  readonly cacheTtlHours = 1 // Feeds are free to poll and change often
+  private maxAgeDays = 7
+  private maxResults = 8
+
+  async search(request: ResearchRequest): Promise<ResearchResult[]> {
+    const feeds = request.feeds && request.feeds.length > 0 ? request.feeds : appConfig.research.rss.feeds
+    const keywords = keywordsOf([request.topic, ...request.queries].join(' '))
+    const cutoff = Date.now() - this.maxAgeDays * 24 * 60 * 60 * 1000
+
+    const feedResults = await Promise.all(feeds.map(feed => this.fetchFeed(feed)))
+
+    // Keep the past week's items, ranked by how many topic keywords they mention
+    return feedResults
+      .flat()
+      .filter(item => !item.published_at || new Date(item.published_at).getTime() >= cutoff)
+      .map(item => {
+        const text = `${item.title} ${item.content}`.toLowerCase()
+        const matches = keywords.filter(keyword => text.includes(keyword)).length
+        return { ...item, relevance_score: keywords.length > 0 ? Math.min(0.3 + matches / keywords.length, 0.9) : 0.5 }
+      })
+      .filter(item => item.relevance_score > 0.3)
+      .sort((a, b) => b.relevance_score - a.relevance_score)
+      .slice(0, this.maxResults)
+  }
+
+  private async fetchFeed(feedUrl: string): Promise<ResearchResult[]> {
+    try {
+      return await this.withCache(feedUrl, async () => {
+        logger.info({ feedUrl }, 'Fetching RSS feed')
+
+        const response = await fetch(feedUrl, {
+          headers: { 'Accept': 'application/rss+xml, application/atom+xml, application/xml, text/xml' },
+          signal: AbortSignal.timeout(15000)
+        })
+
+        if (!response.ok) {
+          throw new Error(`Feed request failed: ${response.status} ${response.statusText}`)
+        }
+
+        const results = parseFeed(await response.text(), feedUrl)
+        logger.info({ feedUrl, itemCount: results.length }, 'RSS feed fetched')
+        return results
+      })
+    } catch (error) {
+      logger.error({ error, feedUrl }, 'RSS feed fetch failed')
+      return []
+    }
+  }
+}
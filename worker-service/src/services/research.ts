@@ -1,236 +1,90 @@
-import { createHash } from 'crypto'
 import { appConfig } from '../config'
 import logger from '../lib/logger'
-import { supabaseService } from './supabase'
-import type { ResearchResult } from '../types'
+import { llmProvider } from './llm'
+import { STUB_RESEARCH_RESULTS } from './llm/fixtures'
+import { getResearchProvider, resolveResearchProviders } from './research-providers'
+import type {
+  EnhancedResearch,
+  ResearchIdea,
+  ResearchProviderName,
+  ResearchRequest,
+  ResearchResult,
+  ResearchSourceRef,
+  UsageTags
+} from '../types'
+
+export interface ResearchOptions {
+  providers?: ResearchProviderName[]
+  sourceUrls?: string[]
+  rssFeeds?: string[]
+}
 
-export class ResearchService {
-  
-  private generateQueryHash(query: string, source: string): string {
-    return createHash('sha256').update(`${source}:${query}`).digest('hex')
-  }
+export interface EnhancedResearchOutput {
+  ideas: EnhancedResearch
+  providers: ResearchProviderName[]
+  sources: ResearchSourceRef[]
+}
 
-  private async getCachedResearch(query: string, source: string): Promise<any | null> {
-    const queryHash = this.generateQueryHash(query, source)
-    const cached = await supabaseService.getCachedResearch(queryHash)
-    
-    if (cached) {
-      logger.info({ source, queryHash }, 'Using cached research data')
-      return cached.results
-    }
-    
-    return null
-  }
+// Source text kept with each idea for fact-checking drafts (research_data stays a manageable size)
+const SOURCE_SNIPPET_LENGTH = 2000
 
-  private async setCachedResearch(query: string, source: string, results: any, ttlHours: number = 24): Promise<void> {
-    const queryHash = this.generateQueryHash(query, source)
-    const expiresAt = new Date(Date.now() + ttlHours * 60 * 60 * 1000)
-    
-    await supabaseService.setCachedResearch({
-      queryHash,
-      source,
-      queryText: query,
-      results,
-      expiresAt
-    })
-    
-    logger.debug({ source, queryHash, ttlHours }, 'Cached research data')
-  }
+// Search queries for recent UK business news related to CEOs and leadership
+const NEWS_QUERIES = [
+  'UK CEO leadership challenges 2024',
+  'UK business founders burnout stress',
+  'UK tech startup leadership self-leadership',
+  'UK executive coaching leadership development'
+]
 
-  async searchWithFirecrawl(query: string): Promise<ResearchResult[]> {
-    try {
-      // Check cache first
-      const cached = await this.getCachedResearch(query, 'firecrawl')
-      if (cached) {
-        return cached
-      }
+export class ResearchService {
 
-      logger.info({ query }, 'Searching with Firecrawl')
-
-      // Use Firecrawl search API
-      const response = await fetch('https://api.firecrawl.dev/v0/search', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${appConfig.research.firecrawl.apiKey}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          query,
-          pageOptions: {
-            fetchPageContent: true,
-            includeHtml: false
-          },
-          searchOptions: {
-            limit: 5
-          }
-        })
-      })
+  // Run the chosen providers side by side and merge their results into one ranked list
+  async gatherResearch(request: ResearchRequest, providers: ResearchProviderName[]): Promise<ResearchResult[]> {
+    const settled = await Promise.allSettled(
+      providers.map(name => getResearchProvider(name).search(request))
+    )
 
-      if (!response.ok) {
-        throw new Error(`Firecrawl API error: ${response.status} ${response.statusText}`)
+    const allResults: ResearchResult[] = []
+    settled.forEach((outcome, index) => {
+      if (outcome.status === 'fulfilled') {
+        allResults.push(...outcome.value)
+      } else {
+        logger.warn({ provider: providers[index], error: outcome.reason }, 'Research provider failed')
       }
+    })
 
-      const data: any = await response.json()
-      
-      const results: ResearchResult[] = (data.data || []).map((item: any) => ({
-        source: 'firecrawl',
-        title: item.metadata?.title || 'No title',
-        content: item.content || item.markdown || '',
-        url: item.metadata?.sourceURL || item.url,
-        relevance_score: 0.8,
-        summary: item.content?.substring(0, 200) + '...' || ''
-      }))
-
-      // Cache results for 24 hours
-      await this.setCachedResearch(query, 'firecrawl', results, 24)
-
-      logger.info({ query, resultCount: results.length }, 'Firecrawl search completed')
-      return results
-
-    } catch (error) {
-      logger.error({ error, query }, 'Firecrawl search failed')
-      return []
-    }
+    return this.deduplicateResults(allResults)
   }
 
-  async searchWithPerplexity(query: string): Promise<ResearchResult[]> {
-    try {
-      // Check cache first
-      const cached = await this.getCachedResearch(query, 'perplexity')
-      if (cached) {
-        return cached
-      }
-
-      logger.info({ query }, 'Searching with Perplexity')
-
-      // Use Perplexity API for research
-      const response = await fetch('https://api.perplexity.ai/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${appConfig.research.perplexity.apiKey}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: 'llama-3.1-sonar-small-128k-online',
-          messages: [
-            {
-              role: 'system',
-              content: 'You are a research assistant. Provide comprehensive, factual information about the given topic. Include relevant statistics, recent developments, and key insights. Format your response as structured information that would be useful for creating LinkedIn content.'
-            },
-            {
-              role: 'user',
-              content: `Research the topic: ${query}. Provide key insights, recent trends, statistics, and practical information that would be valuable for creating professional LinkedIn content about this topic.`
-            }
-          ],
-          max_tokens: 1000,
-          temperature: 0.3,
-          return_citations: true,
-          return_images: false
-        })
-      })
-
-      if (!response.ok) {
-        throw new Error(`Perplexity API error: ${response.status} ${response.statusText}`)
-      }
-
-      const data: any = await response.json()
-      const content = data.choices?.[0]?.message?.content || ''
-      const citations = data.citations || []
-
-      const results: ResearchResult[] = [{
-        source: 'perplexity',
-        title: `Research: ${query}`,
-        content,
-        url: citations[0]?.url || null,
-        relevance_score: 0.9,
-        summary: content.substring(0, 300) + '...'
-      }]
-
-      // Add citations as separate results
-      citations.forEach((citation: any, index: number) => {
-        if (citation.url && citation.title) {
-          results.push({
-            source: 'perplexity',
-            title: citation.title,
-            content: citation.snippet || '',
-            url: citation.url,
-            relevance_score: 0.7,
-            summary: citation.snippet?.substring(0, 200) + '...' || ''
-          })
-        }
-      })
-
-      // Cache results for 12 hours (more dynamic content)
-      await this.setCachedResearch(query, 'perplexity', results, 12)
-
-      logger.info({ query, resultCount: results.length }, 'Perplexity search completed')
-      return results
-
-    } catch (error) {
-      logger.error({ error, query }, 'Perplexity search failed')
-      return []
-    }
-  }
-
-  async enhancedFirecrawlResearch(topic: string): Promise<{
-    idea_1: {
-      concise_summary: string
-      angle_approach: string
-      details: string
-      relevance: string
-    }
-    idea_2: {
-      concise_summary: string
-      angle_approach: string
-      details: string
-      relevance: string
-    }
-    idea_3: {
-      concise_summary: string
-      angle_approach: string
-      details: string
-      relevance: string
-    }
-  }> {
+  async enhancedResearch(topic: string, options: ResearchOptions = {}, usage?: UsageTags): Promise<EnhancedResearchOutput> {
     const startTime = Date.now()
-    logger.info({ topic }, 'Starting enhanced Firecrawl research')
+    const providers = resolveResearchProviders(options.providers, options.sourceUrls)
+    logger.info({ topic, providers }, 'Starting enhanced research')
 
     try {
-      // Calculate 7-day date range
       const now = new Date()
-      const sevenDaysAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000)
-      
-      // Search for recent UK business news related to CEOs and leadership
-      const searchQueries = [
-        'UK CEO leadership challenges 2024',
-        'UK business founders burnout stress',
-        'UK tech startup leadership self-leadership',
-        'UK executive coaching leadership development'
-      ]
-
-      // Get news from multiple searches
-      let allNewsContent = ''
-      for (const query of searchQueries) {
-        try {
-          const searchResults = await this.searchWithFirecrawl(query)
-          const recentResults = searchResults.slice(0, 3) // Top 3 results per query
-          
-          for (const result of recentResults) {
-            allNewsContent += `\n\n=== ${result.title} ===\n${result.content}\nSource: ${result.url}\n`
-          }
-        } catch (error) {
-          logger.warn({ query, error }, 'Failed to search with query')
-        }
-      }
 
-      if (!allNewsContent.trim()) {
+      // The stub provider runs offline on fixture news
+      const results = llmProvider.name === 'stub'
+        ? STUB_RESEARCH_RESULTS
+        : await this.gatherResearch({
+          topic,
+          queries: NEWS_QUERIES,
+          urls: options.sourceUrls,
+          feeds: options.rssFeeds,
+          usage
+        }, providers)
+
+      if (results.length === 0) {
         throw new Error('No research content found')
       }
 
-      // Use OpenAI to analyze the news with the user's research prompt
-      const { OpenAI } = await import('openai')
-      const openai = new OpenAI({ apiKey: appConfig.openai.apiKey })
+      // Number each item so the analysis can cite which ones each idea draws on
+      const allNewsContent = results
+        .map((result, index) => `\n\n=== [${index + 1}] ${result.title} ===\n${result.content}\nSource: ${result.url || result.source}\n`)
+        .join('')
 
+      // Use the LLM to analyze the news with the user's research prompt
       const researchPrompt = `You are a helpful assistant
 
 Role: You are a specialized Research Analyst. Your sole purpose is to identify and research recent news topics relevant to a specific professional audience and compile the findings into a structured JSON output. You do not create the final content, only provide the research material.
@@ -249,6 +103,7 @@ Your Task:
 1. Analyze the provided news content covering the immediately preceding 7 days from ${now.toISOString()}.
 2. Identify exactly three (3) distinct news topics that are highly relevant to CEOs and Founders operating in the UK. Focus on topics impacting their industry, business operations, challenges, or opportunities, particularly relating to the self-leadership problems I solve.
 3. Extract Key Information: For each topic, determine a concise summary, a potential angle, key details, and its relevance to the target audience.
+4. Cite Sources: For each topic, list the [number] of every news item it draws on.
 
 Required Output Format:
 CRITICAL: Your response must be ONLY valid JSON. No explanations, no markdown, no code blocks, no additional text. 
@@ -262,19 +117,22 @@ Return exactly this JSON structure:
     "concise_summary": "A brief (1-2 sentence) overview identifying the core news topic or idea found.",
     "angle_approach": "Suggest a specific angle or hook (1-2 sentences) for framing this topic in a LinkedIn post for the Target Avatar. Consider how it relates to self-leadership challenges.",
     "details": "List key details extracted from the research (2-4 bullet points or sentences). Include specific statistics, names, key findings, data points, source names, or update summaries mentioned in the source articles.",
-    "relevance": "Explain clearly (2-3 sentences) WHY this topic and its details are relevant and insightful for the Target Avatar, considering their business challenges and self-leadership development opportunities in the UK."
+    "relevance": "Explain clearly (2-3 sentences) WHY this topic and its details are relevant and insightful for the Target Avatar, considering their business challenges and self-leadership development opportunities in the UK.",
+    "sources": [1]
   },
   "idea_2": {
     "concise_summary": "A brief (1-2 sentence) overview identifying the core news topic or idea found.",
     "angle_approach": "Suggest a specific angle or hook (1-2 sentences) for framing this topic in a LinkedIn post for the Target Avatar. Consider how it relates to self-leadership challenges.",
     "details": "List key details extracted from the research (2-4 bullet points or sentences). Include specific statistics, names, key findings, data points, source names, or update summaries mentioned in the source articles.",
-    "relevance": "Explain clearly (2-3 sentences) WHY this topic and its details are relevant and insightful for the Target Avatar, considering their business challenges and self-leadership development opportunities in the UK."
+    "relevance": "Explain clearly (2-3 sentences) WHY this topic and its details are relevant and insightful for the Target Avatar, considering their business challenges and self-leadership development opportunities in the UK.",
+    "sources": [1]
   },
   "idea_3": {
     "concise_summary": "A brief (1-2 sentence) overview identifying the core news topic or idea found.",
     "angle_approach": "Suggest a specific angle or hook (1-2 sentences) for framing this topic in a LinkedIn post for the Target Avatar. Consider how it relates to self-leadership challenges.",
     "details": "List key details extracted from the research (2-4 bullet points or sentences). Include specific statistics, names, key findings, data points, source names, or update summaries mentioned in the source articles.",
-    "relevance": "Explain clearly (2-3 sentences) WHY this topic and its details are relevant and insightful for the Target Avatar, considering their business challenges and self-leadership development opportunities in the UK."
+    "relevance": "Explain clearly (2-3 sentences) WHY this topic and its details are relevant and insightful for the Target Avatar, considering their business challenges and self-leadership development opportunities in the UK.",
+    "sources": [1]
   }
 }
 
@@ -283,8 +141,8 @@ DO NOT include any text before or after the JSON object. DO NOT wrap in markdown
 Here is the news content to analyze:
 ${allNewsContent}`
 
-      const completion = await openai.chat.completions.create({
-        model: appConfig.openai.model,
+      const { data, completion } = await llmProvider.completeJSON({
+        model: appConfig.llm.researchModel,
         messages: [
           {
             role: 'system',
@@ -295,57 +153,23 @@ ${allNewsContent}`
             content: researchPrompt
           }
         ],
-        max_tokens: 2000,
+        maxTokens: 2000,
         temperature: 0.1, // Lower temperature for more consistent JSON output
-        response_format: { type: "json_object" } // Force JSON mode if available
+        usage: { ...usage, agentName: 'research_analyst' }
       })
 
-      const responseContent = completion.choices[0]?.message?.content || ''
-      
-      // Add debug logging for the raw response
       logger.debug({ 
-        responseLength: responseContent.length,
-        responsePreview: responseContent.substring(0, 200) + '...'
-      }, 'Raw OpenAI response received')
-      
-      // Robust JSON parsing with fallback handling
-      let researchData
-      try {
-        // Try direct JSON parsing first
-        researchData = JSON.parse(responseContent)
-      } catch (parseError) {
-        logger.warn({ parseError }, 'Direct JSON parsing failed, trying extraction methods')
-        
-        // Try to extract JSON from response (handle markdown code blocks, etc.)
-        const jsonExtractionAttempts = [
-          // Try to find JSON between ```json and ``` 
-          responseContent.match(/```json\s*([\s\S]*?)\s*```/)?.[1],
-          // Try to find JSON between { and }
-          responseContent.match(/(\{[\s\S]*\})/)?.[1],
-          // Try to find JSON after "output:" or similar
-          responseContent.match(/(?:output|result|json):\s*(\{[\s\S]*\})/i)?.[1]
-        ]
-        
-        let extractedJson = null
-        for (const attempt of jsonExtractionAttempts) {
-          if (attempt) {
-            try {
-              extractedJson = JSON.parse(attempt.trim())
-              logger.info('Successfully extracted JSON from response')
-              break
-            } catch (extractError) {
-              continue
-            }
-          }
-        }
-        
-        if (extractedJson) {
-          researchData = extractedJson
-        } else {
-          // Final fallback - create structured data from the response
-          logger.warn('All JSON parsing failed, creating fallback research data')
-          researchData = this.createFallbackResearchData(responseContent, topic)
-        }
+        provider: completion.provider,
+        model: completion.model,
+        responseLength: completion.content.length,
+        tokenCount: completion.usage.totalTokens
+      }, 'Research analysis response received')
+
+      // Final fallback - create structured data from the response
+      let researchData = data
+      if (!researchData) {
+        logger.warn('All JSON parsing failed, creating fallback research data')
+        researchData = this.createFallbackResearchData(completion.content, topic)
       }
 
       // Validate the structure (with more detailed logging)
@@ -361,23 +185,63 @@ ${allNewsContent}`
         researchData = this.ensureRequiredIdeas(researchData, topic)
       }
 
+      const ideas = this.attachSources(researchData, results)
+
       const totalTime = Date.now() - startTime
       logger.info({ 
         totalTimeMs: totalTime,
+        providers,
+        sourceCount: results.length,
         ideasFound: 3 
-      }, 'Enhanced Firecrawl research completed')
+      }, 'Enhanced research completed')
 
-      return researchData
+      return {
+        ideas,
+        providers,
+        sources: results.filter(result => result.url).map(result => this.toSourceRef(result))
+      }
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-      logger.error({ error: errorMessage }, 'Enhanced Firecrawl research failed')
+      logger.error({ error: errorMessage, providers }, 'Enhanced research failed')
       throw error
     }
   }
 
+  private toSourceRef(result: ResearchResult): ResearchSourceRef {
+    return {
+      url: result.url!,
+      title: result.title,
+      source: result.source,
+      snippet: result.content.substring(0, SOURCE_SNIPPET_LENGTH)
+    }
+  }
+
+  // Replace the [n] citations in each idea with the results they point at. Ideas without
+  // usable citations fall back to every result the analysis saw, so provenance is never empty.
+  private attachSources(research: EnhancedResearch, results: ResearchResult[]): EnhancedResearch {
+    const allSources = results.filter(result => result.url).map(result => this.toSourceRef(result))
+
+    const withSources = (idea: ResearchIdea & { sources?: unknown }): ResearchIdea => {
+      const cited = Array.isArray(idea.sources)
+        ? idea.sources
+          .map(citation => results[Number(citation) - 1])
+          .filter((result): result is ResearchResult => !!result?.url)
+          .map(result => this.toSourceRef(result))
+        : []
+
+      return { ...idea, sources: cited.length > 0 ? cited : allSources }
+    }
+
+    return {
+      idea_1: withSources(research.idea_1),
+      idea_2: withSources(research.idea_2),
+      idea_3: withSources(research.idea_3)
+    }
+  }
+
   private createFallbackResearchData(responseContent: string, topic: string) {
-    logger.info('Creating fallback research data from OpenAI response')
+    logger.info('Creating fallback research data from LLM response')
     
     // Create basic structured data if JSON parsing completely fails
     return {
@@ -419,13 +283,13 @@ ${allNewsContent}`
     }
   }
 
-  async comprehensiveResearch(topic: string, platform: string = 'linkedin'): Promise<{
+  async comprehensiveResearch(topic: string, platform: string = 'linkedin', providers: ResearchProviderName[] = ['firecrawl']): Promise<{
     results: ResearchResult[]
     summary: string
     keyInsights: string[]
   }> {
     const startTime = Date.now()
-    logger.info({ topic, platform }, 'Starting comprehensive research')
+    logger.info({ topic, platform, providers }, 'Starting comprehensive research')
 
     try {
       // Prepare research queries
@@ -436,34 +300,9 @@ ${allNewsContent}`
         `${topic} industry insights`
       ]
 
-      // Run searches with Firecrawl only (Perplexity disabled)
-      const searchPromises = queries.map(async (query) => {
-        const [firecrawlResults] = await Promise.allSettled([
-          this.searchWithFirecrawl(query)
-          // Perplexity disabled for enhanced research approach
-          // this.searchWithPerplexity(query)
-        ])
-
-        const results: ResearchResult[] = []
-        
-        if (firecrawlResults.status === 'fulfilled') {
-          results.push(...firecrawlResults.value)
-        }
-        
-        // Perplexity results disabled
-        // if (perplexityResults.status === 'fulfilled') {
-        //   results.push(...perplexityResults.value)
-        // }
-
-        return results
-      })
-
-      const searchResults = await Promise.all(searchPromises)
-      const allResults = searchResults.flat()
-
       // Filter and rank results
-      const uniqueResults = this.deduplicateResults(allResults)
-      const rankedResults = this.rankResults(uniqueResults, topic)
+      const allResults = await this.gatherResearch({ topic, queries }, providers)
+      const rankedResults = this.rankResults(allResults, topic)
 
       // Generate summary and insights
       const summary = this.generateSummary(rankedResults, topic)
@@ -495,7 +334,8 @@ ${allNewsContent}`
   private deduplicateResults(results: ResearchResult[]): ResearchResult[] {
     const seen = new Set<string>()
     return results.filter(result => {
-      const key = `${result.title}:${result.url}`
+      // The same article often turns up from several providers; the URL alone identifies it
+      const key = result.url || `${result.source}:${result.title}`
       if (seen.has(key)) {
         return false
       }
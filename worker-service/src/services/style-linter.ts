@@ -0,0 +1,183 @@
+import logger from '../lib/logger'
+import { aiAgentsService } from './ai-agents'
+import type { AIAgentResult, StyleLintIssue, StyleLintReport, UsageTags } from '../types'
+
+// LinkedIn rejects posts over 3,000 characters
+export const LINKEDIN_MAX_LENGTH = 3000
+const MAX_SENTENCES_PER_PARAGRAPH = 3
+
+const MARKDOWN_PATTERNS = [
+  /\*\*[^*\n]+\*\*/,
+  /__[^_\n]+__/,
+  /(?:^|\s)\*[^*\s][^*\n]*\*(?=\s|$|[.,!?])/m,
+  /^#{1,6}\s+/m,
+  /`[^`\n]+`/,
+  /\[[^\]\n]+\]\([^)\n]+\)/
+]
+
+export const HASHTAG_PATTERN = /(^|\s)#([\p{L}\d_]+)/gu
+
+// Markdown: keep the text, drop the syntax
+export const stripMarkdown = (text: string) =>
+  text
+    .replace(/\*\*([^*\n]+)\*\*/g, '$1')
+    .replace(/__([^_\n]+)__/g, '$1')
+    .replace(/(^|\s)\*([^*\s][^*\n]*)\*(?=\s|$|[.,!?])/gm, '$1$2')
+    .replace(/^#{1,6}\s+/gm, '')
+    .replace(/`([^`\n]+)`/g, '$1')
+    .replace(/\[([^\]\n]+)\]\(([^)\n]+)\)/g, '$1 ($2)')
+
+export const splitSentences = (paragraph: string) =>
+  paragraph.match(/[^.!?…]+[.!?…]+["'”’)]*\s*|[^.!?…]+$/g)?.map(sentence => sentence.trim()).filter(Boolean) || [paragraph]
+
+export const splitParagraphs = (text: string) =>
+  text.split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(Boolean)
+
+export class StyleLinterService {
+
+  lint(body: string, ctaPatterns: RegExp[]): StyleLintIssue[] {
+    const issues: StyleLintIssue[] = []
+
+    if (MARKDOWN_PATTERNS.some(pattern => pattern.test(body))) {
+      issues.push({ rule: 'markdown', message: 'Contains markdown formatting', fixable: true })
+    }
+
+    const hashtags = body.match(HASHTAG_PATTERN) || []
+    if (hashtags.length > 0) {
+      issues.push({ rule: 'hashtags', message: `Contains ${hashtags.length} hashtag(s)`, fixable: true })
+    }
+
+    const longParagraphs = this.findLongParagraphs(body)
+    if (longParagraphs.length > 0) {
+      issues.push({
+        rule: 'paragraph_length',
+        message: `${longParagraphs.length} paragraph(s) longer than ${MAX_SENTENCES_PER_PARAGRAPH} sentences`,
+        fixable: true
+      })
+    }
+
+    const closing = splitParagraphs(body).slice(-2).join('\n')
+    if (!ctaPatterns.some(pattern => pattern.test(closing))) {
+      issues.push({ rule: 'missing_cta', message: 'No signature call to action at the end', fixable: false })
+    }
+
+    if (body.length > LINKEDIN_MAX_LENGTH) {
+      issues.push({
+        rule: 'max_length',
+        message: `${body.length} characters exceeds LinkedIn's ${LINKEDIN_MAX_LENGTH} limit`,
+        fixable: false
+      })
+    }
+
+    return issues
+  }
+
+  autoFix(body: string): string {
+    let fixed = stripMarkdown(body)
+      // Hashtag-only lines go entirely, inline hashtags keep their word
+      .split('\n')
+      .filter(line => !/^\s*(#[\p{L}\d_]+\s*)+$/u.test(line))
+      .join('\n')
+      .replace(HASHTAG_PATTERN, '$1$2')
+
+    // Split paragraphs into chunks of at most three sentences
+    fixed = splitParagraphs(fixed).map(paragraph => {
+      if (paragraph.includes('\n')) {
+        return paragraph
+      }
+
+      const sentences = splitSentences(paragraph)
+      if (sentences.length <= MAX_SENTENCES_PER_PARAGRAPH) {
+        return paragraph
+      }
+
+      const chunks: string[] = []
+      const chunkCount = Math.ceil(sentences.length / MAX_SENTENCES_PER_PARAGRAPH)
+      const chunkSize = Math.ceil(sentences.length / chunkCount)
+      for (let i = 0; i < sentences.length; i += chunkSize) {
+        chunks.push(sentences.slice(i, i + chunkSize).join(' '))
+      }
+      return chunks.join('\n\n')
+    }).join('\n\n')
+
+    return fixed.trim()
+  }
+
+  async lintAndRepair(result: AIAgentResult, ctaPatterns: RegExp[], usage?: UsageTags): Promise<AIAgentResult> {
+    const issuesFound = this.lint(result.content.body, ctaPatterns)
+
+    let body = this.autoFix(result.content.body)
+    let tokenCount = result.metadata.token_count
+    let revised = false
+
+    // Anything auto-fix couldn't handle gets one targeted LLM revision
+    const unresolved = this.lint(body, ctaPatterns)
+    if (unresolved.length > 0) {
+      const revision = await aiAgentsService.reviseDraft(
+        body,
+        unresolved.map(issue => this.toInstruction(issue)),
+        { ...usage, agentName: result.agent_name }
+      )
+
+      if (revision) {
+        body = this.autoFix(revision.body)
+        tokenCount += revision.tokenCount
+        revised = true
+      }
+    }
+
+    const remaining = this.lint(body, ctaPatterns)
+    const report: StyleLintReport = {
+      issues_found: issuesFound,
+      auto_fixed: issuesFound
+        .filter(issue => issue.fixable && !remaining.some(rest => rest.rule === issue.rule))
+        .map(issue => issue.rule),
+      revised,
+      remaining
+    }
+
+    logger.info({
+      agentName: result.agent_name,
+      issuesFound: issuesFound.length,
+      revised,
+      remaining: remaining.map(issue => issue.rule)
+    }, 'Style lint completed')
+
+    return {
+      ...result,
+      content: {
+        ...result.content,
+        body,
+        hashtags: []
+      },
+      metadata: {
+        ...result.metadata,
+        token_count: tokenCount,
+        style_lint: report
+      }
+    }
+  }
+
+  private findLongParagraphs(body: string): string[] {
+    return splitParagraphs(body).filter(paragraph =>
+      !paragraph.includes('\n') && splitSentences(paragraph).length > MAX_SENTENCES_PER_PARAGRAPH
+    )
+  }
+
+  private toInstruction(issue: StyleLintIssue): string {
+    switch (issue.rule) {
+      case 'missing_cta':
+        return 'End with one of Andrew\'s signature calls to action, e.g. "♻️ Repost if this might help another Founder today" or a reflective question'
+      case 'max_length':
+        return `Shorten the post to under ${LINKEDIN_MAX_LENGTH - 200} characters while keeping the hook and call to action`
+      case 'paragraph_length':
+        return `Keep every paragraph to ${MAX_SENTENCES_PER_PARAGRAPH} sentences or fewer`
+      case 'hashtags':
+        return 'Remove all hashtags'
+      case 'markdown':
+        return 'Remove all markdown formatting (asterisks, headings, backticks, links)'
+    }
+  }
+}
+
+export const styleLinterService = new StyleLinterService()
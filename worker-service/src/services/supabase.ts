@@ -1,7 +1,97 @@
 import { createClient } from '@supabase/supabase-js'
 import { appConfig } from '../config'
 import logger from '../lib/logger'
-import type { ContentJob, ContentDraft, ResearchCache, AIAgentResult } from '../types'
+import type { ContentJob, ContentDraft, ResearchCache, AIAgentResult, VoiceProfile, Platform, UsageLedgerEntry, PostPublication, PublicationStatus, PublisherName, ContentAuditEntry, ScheduledPost, TrackedPost, EngagementSnapshot, ScrapedLinkedInPost, SyncCursor, LinkedInPostStats } from '../types'
+
+// The scraper has returned posted_at as a string and as { date, relative, timestamp }
+const toPostedAt = (postedAt: ScrapedLinkedInPost['posted_at']): string | undefined => {
+  if (!postedAt) return undefined
+  if (typeof postedAt === 'string') return postedAt
+  if (postedAt.date) return new Date(postedAt.date).toISOString()
+  if (postedAt.timestamp) return new Date(postedAt.timestamp).toISOString()
+  return undefined
+}
+
+// Same columns as the web app's SupabaseLinkedInService.transformPostToDB
+const toLinkedInPostRow = (workspaceId: string, post: ScrapedLinkedInPost, syncedAt: string) => ({
+  workspace_id: workspaceId,
+  urn: post.urn,
+  full_urn: post.full_urn,
+  posted_at: toPostedAt(post.posted_at),
+  text: post.text,
+  url: post.url,
+  post_type: post.post_type,
+  author_first_name: post.author?.first_name,
+  author_last_name: post.author?.last_name,
+  author_headline: post.author?.headline,
+  author_username: post.author?.username,
+  author_profile_url: post.author?.profile_url,
+  author_profile_picture: post.author?.profile_picture,
+  total_reactions: post.stats?.total_reactions || 0,
+  like_count: post.stats?.like || 0,
+  support_count: post.stats?.support || 0,
+  love_count: post.stats?.love || 0,
+  insight_count: post.stats?.insight || 0,
+  celebrate_count: post.stats?.celebrate || 0,
+  comments_count: post.stats?.comments || 0,
+  reposts_count: post.stats?.reposts || 0,
+  document_title: post.document?.title,
+  document_page_count: post.document?.page_count,
+  document_url: post.document?.url,
+  document_thumbnail: post.document?.thumbnail,
+  last_synced_at: syncedAt
+})
+
+// Same columns as the web app's SupabaseLinkedInService.transformConnectionPostToDB
+const toConnectionPostRow = (workspaceId: string, connectionId: string, post: ScrapedLinkedInPost) => ({
+  workspace_id: workspaceId,
+  connection_id: connectionId,
+  post_urn: post.urn,
+  full_urn: post.full_urn,
+  posted_date: toPostedAt(post.posted_at),
+  relative_posted: typeof post.posted_at === 'object' ? post.posted_at.relative : undefined,
+  post_type: post.post_type || 'regular',
+  post_text: post.text,
+  post_url: post.url,
+  author_first_name: post.author?.first_name,
+  author_last_name: post.author?.last_name,
+  author_headline: post.author?.headline,
+  username: post.author?.username,
+  author_linkedin_url: post.author?.profile_url,
+  author_profile_picture: post.author?.profile_picture,
+  total_reactions: post.stats?.total_reactions || 0,
+  likes: post.stats?.like || 0,
+  support: post.stats?.support || 0,
+  love: post.stats?.love || 0,
+  insight: post.stats?.insight || 0,
+  celebrate: post.stats?.celebrate || 0,
+  comments_count: post.stats?.comments || 0,
+  reposts: post.stats?.reposts || 0,
+  media_type: post.media?.type,
+  media_url: post.media?.url,
+  media_thumbnail: post.media?.thumbnail
+})
+
+export const toEngagementSnapshot = (urn: string, stats: LinkedInPostStats, recordedAt: string): EngagementSnapshot => ({
+  post_urn: urn,
+  total_reactions: stats.total_reactions || 0,
+  like_count: stats.like || 0,
+  support_count: stats.support || 0,
+  love_count: stats.love || 0,
+  insight_count: stats.insight || 0,
+  celebrate_count: stats.celebrate || 0,
+  comments_count: stats.comments || 0,
+  reposts_count: stats.reposts || 0,
+  recorded_at: recordedAt
+})
+
+const toScheduledPost = (row: any): ScheduledPost => ({
+  id: row.id,
+  content: row.content || '',
+  hashtags: row.hashtags || [],
+  scheduledDate: row.scheduled_date,
+  status: row.status
+})
 
 export class SupabaseService {
   private client
@@ -22,9 +112,12 @@ export class SupabaseService {
   // Content Jobs Methods
   async createJob(data: {
     topic: string
-    platform: string
+    platform: Platform
+    platforms?: Platform[]
     voice_guide_id?: string
+    voice_guidelines?: string
     queue_job_id?: string
+    workspace_id?: string
   }): Promise<ContentJob | null> {
     try {
       const { data: job, error } = await this.client
@@ -32,8 +125,11 @@ export class SupabaseService {
         .insert({
           topic: data.topic,
           platform: data.platform,
+          platforms: data.platforms || [data.platform],
           voice_guide_id: data.voice_guide_id,
+          voice_guidelines: data.voice_guidelines,
           queue_job_id: data.queue_job_id,
+          ...(data.workspace_id && { workspace_id: data.workspace_id }),
           status: 'pending',
           progress: 0
         })
@@ -213,6 +309,562 @@ export class SupabaseService {
     }
   }
 
+  // Content Draft Methods
+  async getDraft(draftId: string): Promise<ContentDraft | null> {
+    try {
+      const { data, error } = await this.client
+        .from('content_drafts')
+        .select('*')
+        .eq('id', draftId)
+        .single()
+
+      if (error) {
+        logger.error({ error, draftId }, 'Failed to get draft')
+        return null
+      }
+
+      return data
+    } catch (error) {
+      logger.error({ error, draftId }, 'Error getting draft')
+      return null
+    }
+  }
+
+  async createDraftRevision(parent: ContentDraft, revision: AIAgentResult, feedback: string): Promise<ContentDraft | null> {
+    try {
+      const rootDraftId = parent.root_draft_id || parent.id
+
+      // Next revision number in the chain, not just parent + 1, so branching revisions stay unique
+      const { data: latest } = await this.client
+        .from('content_drafts')
+        .select('revision_number')
+        .eq('root_draft_id', rootDraftId)
+        .order('revision_number', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+
+      const { data: draft, error } = await this.client
+        .from('content_drafts')
+        .insert({
+          job_id: parent.job_id,
+          variant_number: parent.variant_number,
+          agent_name: revision.agent_name,
+          content: revision.content,
+          metadata: revision.metadata,
+          score: revision.score?.toString() || null,
+          parent_draft_id: parent.id,
+          root_draft_id: rootDraftId,
+          revision_number: (latest?.revision_number || 0) + 1,
+          feedback
+        })
+        .select()
+        .single()
+
+      if (error) {
+        logger.error({ error, parentDraftId: parent.id }, 'Failed to save draft revision')
+        return null
+      }
+
+      logger.info({ draftId: draft.id, parentDraftId: parent.id, revision: draft.revision_number }, 'Draft revision saved')
+      return draft
+    } catch (error) {
+      logger.error({ error, parentDraftId: parent.id }, 'Error saving draft revision')
+      return null
+    }
+  }
+
+  // Voice Profile Methods
+  async getVoiceProfile(workspaceId: string, profileId: string): Promise<VoiceProfile | null> {
+    try {
+      const { data: profile, error } = await this.client
+        .from('voice_profiles')
+        .select('id, name, description, current_version')
+        .eq('workspace_id', workspaceId)
+        .eq('id', profileId)
+        .single()
+
+      if (error || !profile) {
+        logger.warn({ error, workspaceId, profileId }, 'Voice profile not found')
+        return null
+      }
+
+      const { data: version, error: versionError } = await this.client
+        .from('voice_profile_versions')
+        .select('*')
+        .eq('profile_id', profileId)
+        .eq('version', profile.current_version)
+        .single()
+
+      if (versionError || !version) {
+        logger.warn({ error: versionError, profileId }, 'Voice profile version not found')
+        return null
+      }
+
+      return {
+        id: profile.id,
+        name: profile.name,
+        description: profile.description || undefined,
+        version: version.version,
+        tone_rules: version.tone_rules || [],
+        hooks: version.hooks || [],
+        cta_patterns: version.cta_patterns || [],
+        banned_phrases: version.banned_phrases || [],
+        example_posts: version.example_posts || []
+      }
+    } catch (error) {
+      logger.error({ error, profileId }, 'Error getting voice profile')
+      return null
+    }
+  }
+
+  async getDefaultVoiceProfile(workspaceId: string): Promise<VoiceProfile | null> {
+    try {
+      const { data, error } = await this.client
+        .from('voice_profiles')
+        .select('id')
+        .eq('workspace_id', workspaceId)
+        .eq('is_default', true)
+        .maybeSingle()
+
+      if (error || !data) {
+        return null
+      }
+
+      return this.getVoiceProfile(workspaceId, data.id)
+    } catch (error) {
+      logger.error({ error, workspaceId }, 'Error getting default voice profile')
+      return null
+    }
+  }
+
+  // Workspace Methods
+  async getWorkspaceUsername(workspaceId: string): Promise<string | null> {
+    try {
+      const { data, error } = await this.client
+        .from('workspaces')
+        .select('settings')
+        .eq('id', workspaceId)
+        .maybeSingle()
+
+      if (error) {
+        logger.error({ error, workspaceId }, 'Failed to get workspace settings')
+        return null
+      }
+
+      return data?.settings?.linkedin?.username || null
+    } catch (error) {
+      logger.error({ error, workspaceId }, 'Error getting workspace settings')
+      return null
+    }
+  }
+
+  // LinkedIn Posts Methods
+  async getPostsByUsername(workspaceId: string, username: string, limit: number = 50): Promise<Array<{ urn: string; text: string; posted_at: string }>> {
+    try {
+      const { data, error } = await this.client
+        .from('linkedin_posts')
+        .select('urn, text, posted_at')
+        .eq('workspace_id', workspaceId)
+        .eq('author_username', username)
+        .order('posted_at', { ascending: false })
+        .limit(limit)
+
+      if (error) {
+        logger.error({ error, username }, 'Failed to get LinkedIn posts')
+        return []
+      }
+
+      return data || []
+    } catch (error) {
+      logger.error({ error, username }, 'Error getting LinkedIn posts')
+      return []
+    }
+  }
+
+  // Posts of every workspace published since the given time; urns are unique across workspaces
+  async getTrackedPosts(since: Date): Promise<TrackedPost[]> {
+    try {
+      const { data, error } = await this.client
+        .from('linkedin_posts')
+        .select('urn, workspace_id, author_username, posted_at, last_synced_at')
+        .gte('posted_at', since.toISOString())
+        .not('author_username', 'is', null)
+        .order('posted_at', { ascending: false })
+
+      if (error) {
+        logger.error({ error }, 'Failed to get tracked LinkedIn posts')
+        return []
+      }
+
+      return data || []
+    } catch (error) {
+      logger.error({ error }, 'Error getting tracked LinkedIn posts')
+      return []
+    }
+  }
+
+  // Appends to the engagement time series and refreshes the post's current stats
+  async recordEngagementSnapshot(snapshot: EngagementSnapshot): Promise<boolean> {
+    try {
+      const { error } = await this.client
+        .from('post_engagement_history')
+        .insert(snapshot)
+
+      if (error) {
+        logger.error({ error, postUrn: snapshot.post_urn }, 'Failed to record engagement snapshot')
+        return false
+      }
+
+      const { post_urn: urn, recorded_at: recordedAt, ...stats } = snapshot
+      const { error: updateError } = await this.client
+        .from('linkedin_posts')
+        .update({ ...stats, last_synced_at: recordedAt, updated_at: recordedAt })
+        .eq('urn', urn)
+
+      if (updateError) {
+        logger.error({ error: updateError, postUrn: urn }, 'Failed to update LinkedIn post stats')
+        return false
+      }
+
+      return true
+    } catch (error) {
+      logger.error({ error, postUrn: snapshot.post_urn }, 'Error recording engagement snapshot')
+      return false
+    }
+  }
+
+  // Post Sync Methods
+  async getSyncCursor(workspaceId: string, username: string): Promise<SyncCursor | null> {
+    try {
+      const { data, error } = await this.client
+        .from('linkedin_sync_cursors')
+        .select('*')
+        .eq('workspace_id', workspaceId)
+        .eq('username', username)
+        .maybeSingle()
+
+      if (error) {
+        logger.error({ error, workspaceId, username }, 'Failed to get sync cursor')
+        return null
+      }
+
+      return data
+    } catch (error) {
+      logger.error({ error, workspaceId, username }, 'Error getting sync cursor')
+      return null
+    }
+  }
+
+  async listSyncCursors(): Promise<SyncCursor[]> {
+    try {
+      const { data, error } = await this.client
+        .from('linkedin_sync_cursors')
+        .select('*')
+        .order('updated_at', { ascending: true })
+
+      if (error) {
+        logger.error({ error }, 'Failed to list sync cursors')
+        return []
+      }
+
+      return data || []
+    } catch (error) {
+      logger.error({ error }, 'Error listing sync cursors')
+      return []
+    }
+  }
+
+  async updateSyncCursor(id: string, updates: Partial<SyncCursor>): Promise<boolean> {
+    try {
+      const { error } = await this.client
+        .from('linkedin_sync_cursors')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', id)
+
+      if (error) {
+        logger.error({ error, cursorId: id }, 'Failed to update sync cursor')
+        return false
+      }
+
+      return true
+    } catch (error) {
+      logger.error({ error, cursorId: id }, 'Error updating sync cursor')
+      return false
+    }
+  }
+
+  // Urns among the given posts that were already saved before the time given
+  async getKnownPostUrns(kind: SyncCursor['kind'], workspaceId: string, urns: string[], before: string): Promise<Set<string>> {
+    const [table, column] = kind === 'own' ? ['linkedin_posts', 'urn'] : ['connection_posts', 'post_urn']
+
+    const { data, error } = await this.client
+      .from(table)
+      .select(column)
+      .eq('workspace_id', workspaceId)
+      .in(column, urns)
+      .lt('created_at', before)
+
+    if (error) {
+      logger.error({ error, table }, 'Failed to get known post urns')
+      throw new Error(`Failed to get known post urns: ${error.message}`)
+    }
+
+    return new Set(((data || []) as unknown as Array<Record<string, string>>).map(row => row[column]))
+  }
+
+  // Saves a page of the profile's own posts, with an engagement snapshot each, like a manual sync
+  async upsertLinkedInPosts(workspaceId: string, posts: ScrapedLinkedInPost[]): Promise<void> {
+    const syncedAt = new Date().toISOString()
+
+    const { error } = await this.client
+      .from('linkedin_posts')
+      .upsert(posts.map(post => toLinkedInPostRow(workspaceId, post, syncedAt)), { onConflict: 'workspace_id,urn' })
+
+    if (error) {
+      logger.error({ error, workspaceId }, 'Failed to upsert LinkedIn posts')
+      throw new Error(`Failed to save posts: ${error.message}`)
+    }
+
+    const snapshots = posts
+      .filter(post => post.stats)
+      .map(post => toEngagementSnapshot(post.urn, post.stats!, syncedAt))
+
+    if (snapshots.length > 0) {
+      const { error: historyError } = await this.client
+        .from('post_engagement_history')
+        .insert(snapshots)
+
+      // History is non-critical, as in the web app's sync
+      if (historyError) {
+        logger.warn({ error: historyError, workspaceId }, 'Failed to record engagement history')
+      }
+    }
+  }
+
+  async upsertConnectionPosts(workspaceId: string, connectionId: string, posts: ScrapedLinkedInPost[]): Promise<void> {
+    const { error } = await this.client
+      .from('connection_posts')
+      .upsert(posts.map(post => toConnectionPostRow(workspaceId, connectionId, post)), { onConflict: 'workspace_id,post_urn' })
+
+    if (error) {
+      logger.error({ error, workspaceId, connectionId }, 'Failed to upsert connection posts')
+      throw new Error(`Failed to save connection posts: ${error.message}`)
+    }
+  }
+
+  // Usage Ledger Methods
+  async recordUsage(entry: UsageLedgerEntry): Promise<boolean> {
+    try {
+      const { error } = await this.client
+        .from('usage_ledger')
+        .insert(entry)
+
+      if (error) {
+        logger.error({ error, provider: entry.provider }, 'Failed to record usage')
+        return false
+      }
+
+      return true
+    } catch (error) {
+      logger.error({ error, provider: entry.provider }, 'Error recording usage')
+      return false
+    }
+  }
+
+  async getUsageSpend(workspaceId: string, since: Date): Promise<number | null> {
+    try {
+      const { data, error } = await this.client.rpc('get_usage_spend', {
+        since: since.toISOString(),
+        workspace: workspaceId
+      })
+
+      if (error) {
+        logger.error({ error, workspaceId }, 'Failed to get usage spend')
+        return null
+      }
+
+      return Number(data) || 0
+    } catch (error) {
+      logger.error({ error, workspaceId }, 'Error getting usage spend')
+      return null
+    }
+  }
+
+  // Content Post Methods (content_posts, once the web app has migrated them from Airtable)
+  async getDueContentPosts(workspaceId: string, now: Date = new Date()): Promise<ScheduledPost[]> {
+    try {
+      const { data, error } = await this.client
+        .from('content_posts')
+        .select('id, content, hashtags, scheduled_date, status')
+        .eq('workspace_id', workspaceId)
+        .eq('status', 'Approved')
+        .lte('scheduled_date', now.toISOString())
+        .order('scheduled_date', { ascending: true })
+
+      if (error) {
+        logger.error({ error }, 'Failed to get due content posts')
+        return []
+      }
+
+      return (data || []).map(toScheduledPost).filter(post => post.content)
+    } catch (error) {
+      logger.error({ error }, 'Error getting due content posts')
+      return []
+    }
+  }
+
+  async getContentPost(id: string): Promise<ScheduledPost | null> {
+    try {
+      const { data, error } = await this.client
+        .from('content_posts')
+        .select('id, content, hashtags, scheduled_date, status')
+        .eq('id', id)
+        .maybeSingle()
+
+      if (error) {
+        logger.error({ error, postId: id }, 'Failed to get content post')
+        return null
+      }
+
+      return data ? toScheduledPost(data) : null
+    } catch (error) {
+      logger.error({ error, postId: id }, 'Error getting content post')
+      return null
+    }
+  }
+
+  async markContentPostPublished(id: string, result: { url?: string; publishedAt: string }): Promise<boolean> {
+    try {
+      const { error } = await this.client
+        .from('content_posts')
+        .update({
+          status: 'Published',
+          published_at: result.publishedAt,
+          ...(result.url && { linkedin_url: result.url }),
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', id)
+
+      if (error) {
+        logger.error({ error, postId: id }, 'Failed to mark content post published')
+        return false
+      }
+
+      return true
+    } catch (error) {
+      logger.error({ error, postId: id }, 'Error marking content post published')
+      return false
+    }
+  }
+
+  // Post Publication Methods
+  async getPublications(airtablePostIds: string[]): Promise<PostPublication[]> {
+    if (airtablePostIds.length === 0) return []
+
+    try {
+      const { data, error } = await this.client
+        .from('post_publications')
+        .select('*')
+        .in('airtable_post_id', airtablePostIds)
+
+      if (error) {
+        logger.error({ error }, 'Failed to get post publications')
+        return []
+      }
+
+      return data || []
+    } catch (error) {
+      logger.error({ error }, 'Error getting post publications')
+      return []
+    }
+  }
+
+  // One row per Airtable post (unique airtable_post_id); returns the existing row if there is one
+  async getOrCreatePublication(data: {
+    airtablePostId: string
+    publisher: PublisherName
+    scheduledFor?: string
+  }): Promise<PostPublication | null> {
+    try {
+      const { error } = await this.client
+        .from('post_publications')
+        .upsert({
+          airtable_post_id: data.airtablePostId,
+          publisher: data.publisher,
+          scheduled_for: data.scheduledFor,
+          status: 'pending'
+        }, { onConflict: 'airtable_post_id', ignoreDuplicates: true })
+
+      if (error) {
+        logger.error({ error, postId: data.airtablePostId }, 'Failed to create post publication')
+        return null
+      }
+
+      const { data: publication, error: fetchError } = await this.client
+        .from('post_publications')
+        .select('*')
+        .eq('airtable_post_id', data.airtablePostId)
+        .single()
+
+      if (fetchError) {
+        logger.error({ error: fetchError, postId: data.airtablePostId }, 'Failed to get post publication')
+        return null
+      }
+
+      return publication
+    } catch (error) {
+      logger.error({ error, postId: data.airtablePostId }, 'Error creating post publication')
+      return null
+    }
+  }
+
+  // Compare-and-set: only updates while the row is still in one of the expected states,
+  // so two workers can never both move a post into 'submitting'
+  async transitionPublication(
+    id: string,
+    from: PublicationStatus[],
+    updates: Partial<Omit<PostPublication, 'id' | 'airtable_post_id' | 'created_at'>>
+  ): Promise<PostPublication | null> {
+    try {
+      const { data, error } = await this.client
+        .from('post_publications')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .in('status', from)
+        .select()
+        .maybeSingle()
+
+      if (error) {
+        logger.error({ error, publicationId: id }, 'Failed to update post publication')
+        return null
+      }
+
+      return data
+    } catch (error) {
+      logger.error({ error, publicationId: id }, 'Error updating post publication')
+      return null
+    }
+  }
+
+  // Content Audit Methods
+  async recordContentAudit(entry: ContentAuditEntry): Promise<boolean> {
+    try {
+      const { error } = await this.client
+        .from('content_audit_log')
+        .insert(entry)
+
+      if (error) {
+        logger.error({ error, contentId: entry.content_id }, 'Failed to record content audit entry')
+        return false
+      }
+
+      return true
+    } catch (error) {
+      logger.error({ error, contentId: entry.content_id }, 'Error recording content audit entry')
+      return false
+    }
+  }
+
   // Research Cache Methods
   async getCachedResearch(queryHash: string): Promise<ResearchCache | null> {
     try {
@@ -0,0 +1,153 @@
+import { appConfig } from '../config'
+import logger from '../lib/logger'
+import { supabaseService } from './supabase'
+import type { BudgetStatus, LLMCompletion, UsageLedgerEntry, UsageTags } from '../types'
+
+// USD per 1M tokens [prompt, completion]; matched by model name prefix, longest first
+const LLM_PRICING: Record<string, [number, number]> = {
+  'gpt-4o-mini': [0.15, 0.6],
+  'gpt-4o': [2.5, 10],
+  'gpt-4-turbo': [10, 30],
+  'gpt-4': [30, 60],
+  'gpt-3.5-turbo': [0.5, 1.5],
+  'claude-3-5-haiku': [0.8, 4],
+  'claude-3-5-sonnet': [3, 15],
+  'claude-3-opus': [15, 75],
+  'stub': [0, 0]
+}
+
+// Used when a model isn't in the table, so unknown models are never metered as free
+const FALLBACK_LLM_PRICING: [number, number] = [10, 30]
+
+// Estimated USD per request for paid research and scraper APIs
+const SERVICE_PRICING = {
+  firecrawl: 0.01,
+  perplexity: 0.005,
+  rapidapi: 0.002
+} as const
+
+export type MeteredService = keyof typeof SERVICE_PRICING
+
+const SERVICE_CATEGORY: Record<MeteredService, UsageLedgerEntry['category']> = {
+  firecrawl: 'research',
+  perplexity: 'research',
+  rapidapi: 'scraper'
+}
+
+export class BudgetExceededError extends Error {
+  constructor(public readonly status: BudgetStatus) {
+    const period = status.exceeded === 'daily' ? status.daily : status.monthly
+    super(`${status.exceeded === 'daily' ? 'Daily' : 'Monthly'} budget cap of $${period.capUsd?.toFixed(2)} reached ($${period.spentUsd.toFixed(2)} spent)`)
+    this.name = 'BudgetExceededError'
+  }
+}
+
+const toTagColumns = (tags?: UsageTags) => ({
+  job_id: tags?.jobId,
+  queue_job_id: tags?.queueJobId,
+  agent_name: tags?.agentName,
+  route: tags?.route,
+  user_id: tags?.userId,
+  workspace_id: tags?.workspaceId
+})
+
+export class UsageLedgerService {
+
+  estimateLLMCost(model: string, promptTokens: number, completionTokens: number): number {
+    const key = Object.keys(LLM_PRICING)
+      .sort((a, b) => b.length - a.length)
+      .find(prefix => model.startsWith(prefix))
+    const [promptRate, completionRate] = key ? LLM_PRICING[key] : FALLBACK_LLM_PRICING
+
+    return (promptTokens * promptRate + completionTokens * completionRate) / 1_000_000
+  }
+
+  // Ledger writes never fail the caller; a missed row is logged instead
+  async recordLLMUsage(completion: LLMCompletion, tags?: UsageTags, operation: string = 'chat_completion'): Promise<void> {
+    await supabaseService.recordUsage({
+      category: 'llm',
+      provider: completion.provider,
+      operation,
+      model: completion.model,
+      prompt_tokens: completion.usage.promptTokens,
+      completion_tokens: completion.usage.completionTokens,
+      total_tokens: completion.usage.totalTokens,
+      estimated_cost_usd: this.estimateLLMCost(
+        completion.model,
+        completion.usage.promptTokens,
+        completion.usage.completionTokens
+      ),
+      ...toTagColumns(tags)
+    })
+  }
+
+  async recordServiceCall(
+    service: MeteredService,
+    operation: string,
+    tags?: UsageTags,
+    usage?: { promptTokens?: number; completionTokens?: number; model?: string; metadata?: Record<string, any> }
+  ): Promise<void> {
+    const promptTokens = usage?.promptTokens || 0
+    const completionTokens = usage?.completionTokens || 0
+
+    await supabaseService.recordUsage({
+      category: SERVICE_CATEGORY[service],
+      provider: service,
+      operation,
+      model: usage?.model,
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens,
+      estimated_cost_usd: SERVICE_PRICING[service],
+      metadata: usage?.metadata,
+      ...toTagColumns(tags)
+    })
+  }
+
+  // BUDGET_DAILY_USD and BUDGET_MONTHLY_USD cap each workspace's own spend
+  async checkBudget(workspaceId: string, now: Date = new Date()): Promise<BudgetStatus> {
+    const { dailyUsd, monthlyUsd } = appConfig.budget
+    const startOfDay = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+    const startOfMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))
+
+    const [dailySpend, monthlySpend] = await Promise.all([
+      supabaseService.getUsageSpend(workspaceId, startOfDay),
+      supabaseService.getUsageSpend(workspaceId, startOfMonth)
+    ])
+
+    // If spend can't be read, don't block generation on a ledger outage
+    if (dailySpend === null || monthlySpend === null) {
+      logger.warn({ workspaceId }, 'Usage spend unavailable, skipping budget check')
+    }
+
+    const status: BudgetStatus = {
+      allowed: true,
+      daily: { spentUsd: dailySpend || 0, capUsd: dailyUsd },
+      monthly: { spentUsd: monthlySpend || 0, capUsd: monthlyUsd }
+    }
+
+    if (dailyUsd !== undefined && status.daily.spentUsd >= dailyUsd) {
+      status.allowed = false
+      status.exceeded = 'daily'
+    } else if (monthlyUsd !== undefined && status.monthly.spentUsd >= monthlyUsd) {
+      status.allowed = false
+      status.exceeded = 'monthly'
+    }
+
+    return status
+  }
+
+  async assertWithinBudget(workspaceId: string): Promise<BudgetStatus> {
+    const status = await this.checkBudget(workspaceId)
+
+    if (!status.allowed) {
+      logger.warn({ workspaceId, daily: status.daily, monthly: status.monthly, exceeded: status.exceeded }, 'Budget cap reached')
+      throw new BudgetExceededError(status)
+    }
+
+    return status
+  }
+}
+
+export const usageLedgerService = new UsageLedgerService()
+export default usageLedgerService
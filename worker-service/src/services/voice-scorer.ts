@@ -0,0 +1,247 @@
+import { appConfig, DEFAULT_WORKSPACE_ID } from '../config'
+import logger from '../lib/logger'
+import { supabaseService } from './supabase'
+import type { AIAgentResult, VoiceProfile, VoiceScoreBreakdown, VoiceScoreRule } from '../types'
+
+export interface VoiceBaseline {
+  postCount: number
+  hashtagsPerPost: number
+  sentencesPerParagraph: number
+  emDashesPer100Words: number
+  questionsPer100Words: number
+  ctaRate: number
+  hookRate: number
+  ctaPatterns: RegExp[]
+  hookPatterns: RegExp[]
+}
+
+interface TextStats {
+  hashtags: number
+  sentencesPerParagraph: number
+  emDashesPer100Words: number
+  questionsPer100Words: number
+  hasCta: boolean
+  hasHook: boolean
+}
+
+// Signature patterns from Andrew's posts (see the generation prompt in ai-agents.ts)
+const SIGNATURE_CTA_PATTERNS = [
+  /♻️/,
+  /🔔/,
+  /\brepost\b/i,
+  /\bfollow me\b/i,
+  /\bcomment\s+["'“]?\w+["'”]?\s+(?:and|&)\s+i'?ll\b/i,
+  /\bwhat helps\b/i
+]
+
+const SIGNATURE_HOOK_PATTERNS = [
+  /^what if\b/i,
+  /^most (?:ceos|founders|leaders|people)\b/i,
+  /won['’]t admit/i,
+  /^(?:ceos|founders|leaders) don['’]t\b/i,
+  /^early in my\b/i
+]
+
+// Used when no historical posts have been synced yet
+const DEFAULT_BASELINE: Omit<VoiceBaseline, 'ctaPatterns' | 'hookPatterns'> = {
+  postCount: 0,
+  hashtagsPerPost: 0,
+  sentencesPerParagraph: 1.8,
+  emDashesPer100Words: 1,
+  questionsPer100Words: 1.2,
+  ctaRate: 0.8,
+  hookRate: 0.7
+}
+
+const RULE_WEIGHTS: Record<VoiceScoreRule['rule'], number> = {
+  hashtags: 15,
+  paragraph_length: 20,
+  em_dash_density: 15,
+  question_density: 15,
+  signature_cta: 20,
+  hook_pattern: 15
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+export class VoiceScorerService {
+
+  // Each workspace is scored against its own synced posts; VOICE_BASELINE_USERNAME only covers the default workspace
+  async buildBaseline(workspaceId: string, voiceProfile?: VoiceProfile | null): Promise<VoiceBaseline> {
+    const username = await supabaseService.getWorkspaceUsername(workspaceId)
+      || (workspaceId === DEFAULT_WORKSPACE_ID ? appConfig.voice.baselineUsername : null)
+    const posts = username ? await supabaseService.getPostsByUsername(workspaceId, username, 100) : []
+    const texts = posts.map(post => post.text).filter(text => text && text.trim().length > 0)
+
+    // Voice profile hooks and CTAs extend the built-in signature patterns; a blank entry would match every draft
+    const ctaPatterns = [
+      ...SIGNATURE_CTA_PATTERNS,
+      ...this.toPrefixPatterns(voiceProfile?.cta_patterns)
+    ]
+    const hookPatterns = [
+      ...SIGNATURE_HOOK_PATTERNS,
+      ...this.toPrefixPatterns(voiceProfile?.hooks)
+    ]
+
+    if (texts.length === 0) {
+      logger.warn({ workspaceId, username }, 'No historical posts found, using default voice baseline')
+      return { ...DEFAULT_BASELINE, ctaPatterns, hookPatterns }
+    }
+
+    const stats = texts.map(text => this.analyze(text, ctaPatterns, hookPatterns))
+    const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length
+
+    const baseline: VoiceBaseline = {
+      postCount: texts.length,
+      hashtagsPerPost: mean(stats.map(stat => stat.hashtags)),
+      sentencesPerParagraph: mean(stats.map(stat => stat.sentencesPerParagraph)),
+      emDashesPer100Words: mean(stats.map(stat => stat.emDashesPer100Words)),
+      questionsPer100Words: mean(stats.map(stat => stat.questionsPer100Words)),
+      ctaRate: mean(stats.map(stat => stat.hasCta ? 1 : 0)),
+      hookRate: mean(stats.map(stat => stat.hasHook ? 1 : 0)),
+      ctaPatterns,
+      hookPatterns
+    }
+
+    logger.info({
+      workspaceId,
+      username,
+      postCount: baseline.postCount,
+      hashtagsPerPost: baseline.hashtagsPerPost,
+      sentencesPerParagraph: baseline.sentencesPerParagraph
+    }, 'Voice baseline built from historical posts')
+
+    return baseline
+  }
+
+  scoreDraft(body: string, baseline: VoiceBaseline): VoiceScoreBreakdown {
+    const draft = this.analyze(body, baseline.ctaPatterns, baseline.hookPatterns)
+
+    const rules: VoiceScoreRule[] = [
+      {
+        rule: 'hashtags',
+        score: this.closeness(draft.hashtags, baseline.hashtagsPerPost, Math.max(baseline.hashtagsPerPost, 2)),
+        weight: RULE_WEIGHTS.hashtags,
+        draft_value: draft.hashtags,
+        baseline_value: this.round(baseline.hashtagsPerPost),
+        detail: `${draft.hashtags} hashtags vs ${this.round(baseline.hashtagsPerPost)} per historical post`
+      },
+      {
+        rule: 'paragraph_length',
+        score: this.closeness(draft.sentencesPerParagraph, baseline.sentencesPerParagraph, Math.max(baseline.sentencesPerParagraph, 1.5)),
+        weight: RULE_WEIGHTS.paragraph_length,
+        draft_value: this.round(draft.sentencesPerParagraph),
+        baseline_value: this.round(baseline.sentencesPerParagraph),
+        detail: `${this.round(draft.sentencesPerParagraph)} sentences per paragraph vs ${this.round(baseline.sentencesPerParagraph)}`
+      },
+      {
+        rule: 'em_dash_density',
+        score: this.closeness(draft.emDashesPer100Words, baseline.emDashesPer100Words, Math.max(baseline.emDashesPer100Words, 0.5)),
+        weight: RULE_WEIGHTS.em_dash_density,
+        draft_value: this.round(draft.emDashesPer100Words),
+        baseline_value: this.round(baseline.emDashesPer100Words),
+        detail: `${this.round(draft.emDashesPer100Words)} em-dashes per 100 words vs ${this.round(baseline.emDashesPer100Words)}`
+      },
+      {
+        rule: 'question_density',
+        score: this.closeness(draft.questionsPer100Words, baseline.questionsPer100Words, Math.max(baseline.questionsPer100Words, 0.5)),
+        weight: RULE_WEIGHTS.question_density,
+        draft_value: this.round(draft.questionsPer100Words),
+        baseline_value: this.round(baseline.questionsPer100Words),
+        detail: `${this.round(draft.questionsPer100Words)} questions per 100 words vs ${this.round(baseline.questionsPer100Words)}`
+      },
+      {
+        rule: 'signature_cta',
+        score: draft.hasCta ? 100 : Math.round(100 * (1 - baseline.ctaRate)),
+        weight: RULE_WEIGHTS.signature_cta,
+        draft_value: draft.hasCta ? 1 : 0,
+        baseline_value: this.round(baseline.ctaRate),
+        detail: draft.hasCta
+          ? 'Ends with a signature call to action'
+          : `No signature call to action (used in ${Math.round(baseline.ctaRate * 100)}% of historical posts)`
+      },
+      {
+        rule: 'hook_pattern',
+        score: draft.hasHook ? 100 : Math.round(100 * (1 - baseline.hookRate)),
+        weight: RULE_WEIGHTS.hook_pattern,
+        draft_value: draft.hasHook ? 1 : 0,
+        baseline_value: this.round(baseline.hookRate),
+        detail: draft.hasHook
+          ? 'Opens with a signature hook'
+          : `Opening line doesn't match a signature hook (used in ${Math.round(baseline.hookRate * 100)}% of historical posts)`
+      }
+    ]
+
+    const totalWeight = rules.reduce((sum, rule) => sum + rule.weight, 0)
+    const overall = Math.round(rules.reduce((sum, rule) => sum + rule.score * rule.weight, 0) / totalWeight)
+
+    return {
+      overall,
+      rules,
+      baseline_post_count: baseline.postCount,
+      scored_at: new Date().toISOString()
+    }
+  }
+
+  applyScores(results: AIAgentResult[], baseline: VoiceBaseline): AIAgentResult[] {
+    return results.map(result => {
+      const breakdown = this.scoreDraft(result.content.body, baseline)
+
+      logger.debug({
+        agentName: result.agent_name,
+        overall: breakdown.overall
+      }, 'Draft voice score calculated')
+
+      return {
+        ...result,
+        content: {
+          ...result.content,
+          estimated_voice_score: breakdown.overall
+        },
+        metadata: {
+          ...result.metadata,
+          voice_score_breakdown: breakdown
+        },
+        score: breakdown.overall / 100
+      }
+    })
+  }
+
+  private analyze(text: string, ctaPatterns: RegExp[], hookPatterns: RegExp[]): TextStats {
+    const paragraphs = text.split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(Boolean)
+    const words = text.split(/\s+/).filter(Boolean).length || 1
+    const sentenceCounts = paragraphs.map(paragraph => (paragraph.match(/[^.!?…]+[.!?…]+/g) || [paragraph]).length)
+
+    const firstLine = (paragraphs[0] || '').split('\n')[0].trim()
+    const closing = paragraphs.slice(-2).join('\n')
+
+    return {
+      hashtags: (text.match(/(?:^|\s)#[\p{L}\d_]+/gu) || []).length,
+      sentencesPerParagraph: sentenceCounts.length > 0
+        ? sentenceCounts.reduce((sum, count) => sum + count, 0) / sentenceCounts.length
+        : 0,
+      emDashesPer100Words: ((text.match(/—|\s[-–]\s/g) || []).length / words) * 100,
+      questionsPer100Words: ((text.match(/\?/g) || []).length / words) * 100,
+      hasCta: ctaPatterns.some(pattern => pattern.test(closing)),
+      hasHook: hookPatterns.some(pattern => pattern.test(firstLine))
+    }
+  }
+
+  // Match the first few words of a configured hook or CTA, ignoring case
+  private toPrefixPatterns(values: string[] = []): RegExp[] {
+    return values
+      .map(value => value.trim())
+      .filter(Boolean)
+      .map(value => new RegExp(escapeRegExp(value.split(/\s+/).slice(0, 4).join(' ')), 'i'))
+  }
+
+  private closeness(value: number, target: number, scale: number): number {
+    return Math.round(100 * Math.max(0, 1 - Math.abs(value - target) / scale))
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100
+  }
+}
+
+export const voiceScorerService = new VoiceScorerService()
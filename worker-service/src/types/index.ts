@@ -1,10 +1,15 @@
+export type Platform = 'linkedin' | 'twitter' | 'facebook' | 'instagram'
+
 export interface ContentJob {
   id: string
   queue_job_id?: string
+  workspace_id?: string
   status: 'pending' | 'processing' | 'completed' | 'failed'
   topic: string
-  platform: 'linkedin' | 'twitter' | 'facebook' | 'instagram'
+  platform: Platform
+  platforms?: Platform[]
   voice_guide_id?: string
+  voice_guidelines?: string
   research_data?: any
   progress: number
   error?: string
@@ -24,21 +29,35 @@ export interface ContentDraft {
     hashtags: string[]
     estimated_voice_score?: number
     approach?: string
+    platform?: Platform
+    platform_content?: PlatformContent
   }
   metadata: {
     token_count?: number
     generation_time_ms?: number
     model_used?: string
     research_sources?: string[]
+    research_provenance?: ResearchSourceRef[]
+    voice_profile_id?: string
+    voice_profile_version?: number
+    idea_number?: number
+    voice_score_breakdown?: VoiceScoreBreakdown
+    style_lint?: StyleLintReport
+    platform_validation?: PlatformValidationIssue[]
+    fact_check?: FactCheckReport
   }
   score?: number
+  parent_draft_id?: string
+  root_draft_id?: string
+  revision_number?: number
+  feedback?: string
   created_at: string
 }
 
 export interface ResearchCache {
   id: string
   query_hash: string
-  source: 'firecrawl' | 'perplexity' | 'rapidapi' | 'openai' | 'other'
+  source: ResearchProviderName
   query_text: string
   results: any
   created_at: string
@@ -49,20 +68,84 @@ export interface ResearchCache {
 
 export interface JobData {
   topic: string
-  platform: 'linkedin' | 'twitter' | 'facebook' | 'instagram'
+  platform: Platform
+  platforms?: Platform[] // Fan the same research out to several platforms
   voiceGuidelines?: string
   postType?: string
   tone?: string
   userId?: string
+  workspaceId?: string // Set by the web app from the signed-in workspace; the database default applies when unset
+  voiceGuideId?: string
+  researchProviders?: ResearchProviderName[] // Defaults to Firecrawl, or to the pasted URLs when sourceUrls is set
+  sourceUrls?: string[]
+  rssFeeds?: string[] // Overrides RESEARCH_RSS_FEEDS for this job
+}
+
+export interface RevisionJobData {
+  draftId: string
+  feedback: string
+  userId?: string
+  workspaceId?: string
 }
 
+export interface VoiceProfile {
+  id: string
+  name: string
+  description?: string // Who the voice speaks to; used as the prompt's audience
+  version: number
+  tone_rules: string[]
+  hooks: string[]
+  cta_patterns: string[]
+  banned_phrases: string[]
+  example_posts: string[]
+}
+
+export type ResearchProviderName = 'firecrawl' | 'perplexity' | 'rss' | 'manual'
+
 export interface ResearchResult {
-  source: string
+  source: ResearchProviderName
   title?: string
   content: string
   url?: string
   relevance_score?: number
   summary?: string
+  published_at?: string
+}
+
+export interface ResearchRequest {
+  topic: string
+  queries: string[]
+  urls?: string[]
+  feeds?: string[]
+  usage?: UsageTags
+}
+
+export interface ResearchProvider {
+  readonly name: ResearchProviderName
+  readonly cacheTtlHours: number
+  search(request: ResearchRequest): Promise<ResearchResult[]>
+}
+
+// Where a research idea (and every draft written from it) came from
+export interface ResearchSourceRef {
+  url: string
+  title?: string
+  source: ResearchProviderName
+  snippet?: string // Excerpt of the source text, kept so claims can be checked after research
+}
+
+export interface ResearchIdea {
+  concise_summary: string
+  angle_approach: string
+  details: string
+  relevance: string
+  sources?: ResearchSourceRef[]
+}
+
+export interface EnhancedResearch {
+  idea_1: ResearchIdea
+  idea_2: ResearchIdea
+  idea_3: ResearchIdea
 }
 
 export interface AIAgentResult {
@@ -73,16 +156,320 @@ export interface AIAgentResult {
     hashtags: string[]
     estimated_voice_score: number
     approach: string
+    platform?: Platform
+    platform_content?: PlatformContent
   }
   metadata: {
     token_count: number
     generation_time_ms: number
     model_used: string
     research_sources: string[]
+    research_provenance?: ResearchSourceRef[]
+    voice_profile_id?: string
+    voice_profile_version?: number
+    idea_number?: number
+    voice_score_breakdown?: VoiceScoreBreakdown
+    style_lint?: StyleLintReport
+    platform_validation?: PlatformValidationIssue[]
+    fact_check?: FactCheckReport
   }
   score?: number
 }
 
+export interface StyleLintIssue {
+  rule: 'markdown' | 'hashtags' | 'paragraph_length' | 'missing_cta' | 'max_length'
+  message: string
+  fixable: boolean
+}
+
+export interface StyleLintReport {
+  issues_found: StyleLintIssue[]
+  auto_fixed: StyleLintIssue['rule'][]
+  revised: boolean
+  remaining: StyleLintIssue[]
+}
+
+// Platform-specific draft structure, stored alongside the plain-text body
+export type PlatformContent =
+  | { platform: 'linkedin'; text: string }
+  | { platform: 'facebook'; text: string }
+  | { platform: 'twitter'; tweets: string[] }
+  | { platform: 'instagram'; caption: string; hashtags: string[] }
+
+export interface FactCheckClaim {
+  kind: 'number' | 'quote'
+  text: string // The figure or quotation as written in the draft
+  sentence: string
+  status: 'supported' | 'unsupported'
+  source?: {
+    url: string
+    title?: string
+    source: ResearchProviderName
+    excerpt: string
+  }
+}
+
+export interface FactCheckReport {
+  checked_at: string
+  supported_count: number
+  unsupported_count: number
+  claims: FactCheckClaim[]
+}
+
+export interface PlatformValidationIssue {
+  rule: 'empty' | 'max_length' | 'tweet_length' | 'thread_length' | 'hashtag_count' | 'caption_hook'
+  message: string
+}
+
+export interface VoiceScoreRule {
+  rule: 'hashtags' | 'paragraph_length' | 'em_dash_density' | 'question_density' | 'signature_cta' | 'hook_pattern'
+  score: number
+  weight: number
+  draft_value: number
+  baseline_value: number
+  detail: string
+}
+
+export interface VoiceScoreBreakdown {
+  overall: number
+  rules: VoiceScoreRule[]
+  baseline_post_count: number
+  scored_at: string
+}
+
+export type LLMProviderName = 'openai' | 'anthropic' | 'stub'
+
+export interface UsageTags {
+  jobId?: string
+  queueJobId?: string
+  agentName?: string
+  route?: string
+  userId?: string
+  workspaceId?: string // The database default (the default workspace) applies when unset
+}
+
+export interface UsageLedgerEntry {
+  category: 'llm' | 'research' | 'scraper'
+  provider: string
+  operation: string
+  model?: string
+  prompt_tokens?: number
+  completion_tokens?: number
+  total_tokens?: number
+  request_count?: number
+  estimated_cost_usd: number
+  job_id?: string
+  queue_job_id?: string
+  agent_name?: string
+  route?: string
+  user_id?: string
+  workspace_id?: string
+  metadata?: Record<string, any>
+}
+
+export interface BudgetStatus {
+  allowed: boolean
+  daily: { spentUsd: number; capUsd?: number }
+  monthly: { spentUsd: number; capUsd?: number }
+  exceeded?: 'daily' | 'monthly'
+}
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export interface LLMCompletionRequest {
+  messages: LLMMessage[]
+  model?: string // Defaults to appConfig.llm.model
+  maxTokens?: number
+  temperature?: number
+  json?: boolean // Ask the provider for a single JSON object
+  usage?: UsageTags // Recorded against the usage ledger
+}
+
+export interface LLMUsage {
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+}
+
+export interface LLMCompletion {
+  content: string
+  model: string
+  provider: LLMProviderName
+  usage: LLMUsage
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName
+  complete(request: LLMCompletionRequest): Promise<LLMCompletion>
+  // data is null when the response could not be parsed; the raw completion is always returned
+  completeJSON<T = any>(request: Omit<LLMCompletionRequest, 'json'>): Promise<{ data: T | null; completion: LLMCompletion }>
+}
+
+export type PublisherName = 'lindy' | 'mock'
+
+// An approved Airtable content post that is due to go out
+export interface ScheduledPost {
+  id: string
+  content: string
+  hashtags: string[]
+  scheduledDate: string
+  status?: 'Draft' | 'Review' | 'Approved' | 'Published'
+}
+
+export interface PublishRequest {
+  postId: string
+  content: string
+  hashtags: string[]
+  scheduledTime: string
+  // Stable per post, so a publisher that dedupes can drop a repeat submission
+  idempotencyKey: string
+}
+
+export interface PublishStatus {
+  state: 'pending' | 'published' | 'failed'
+  url?: string
+  error?: string
+}
+
+// Publishing is split into submit and status so a retry after a successful submit
+// only polls and never posts again
+export interface Publisher {
+  readonly name: PublisherName
+  submit(request: PublishRequest): Promise<{ externalId: string; url?: string }>
+  getStatus(externalId: string): Promise<PublishStatus>
+}
+
+export type PublicationStatus = 'pending' | 'submitting' | 'submitted' | 'published' | 'failed' | 'unknown' | 'cancelled'
+
+export interface PostPublication {
+  id: string
+  airtable_post_id: string
+  publisher: PublisherName
+  status: PublicationStatus
+  scheduled_for?: string
+  attempts: number
+  external_id?: string | null
+  linkedin_url?: string
+  error?: string | null
+  published_at?: string
+  created_at: string
+  updated_at: string
+}
+
+export interface PublishJobData {
+  postId: string
+}
+
+// A synced linkedin_posts row young enough for the engagement tracker to re-fetch
+export interface TrackedPost {
+  urn: string
+  workspace_id: string
+  author_username: string
+  posted_at: string
+  last_synced_at?: string // Time of the latest engagement snapshot; every sync writes one
+}
+
+// Stats block of a post from the RapidAPI LinkedIn scraper
+export interface LinkedInPostStats {
+  total_reactions: number
+  like: number
+  support: number
+  love: number
+  insight: number
+  celebrate: number
+  comments: number
+  reposts: number
+}
+
+// Post from the RapidAPI LinkedIn scraper's profile feed
+export interface ScrapedLinkedInPost {
+  urn: string
+  full_urn?: string
+  posted_at?: string | { date?: string; relative?: string; timestamp?: number }
+  text?: string
+  url?: string
+  post_type?: string
+  author?: {
+    first_name?: string
+    last_name?: string
+    headline?: string
+    username?: string
+    profile_url?: string
+    profile_picture?: string
+  }
+  stats?: LinkedInPostStats
+  document?: {
+    title?: string
+    page_count?: number
+    url?: string
+    thumbnail?: string
+  }
+  media?: {
+    type?: string
+    url?: string
+    thumbnail?: string
+  }
+}
+
+export type SyncCursorStatus = 'idle' | 'queued' | 'running' | 'partial' | 'completed' | 'failed'
+
+// Row in linkedin_sync_cursors: where a profile's post sync got to
+export interface SyncCursor {
+  id: string
+  workspace_id: string
+  username: string
+  kind: 'own' | 'connection'
+  connection_id?: string | null
+  status: SyncCursorStatus
+  newest_urn?: string | null
+  resume_page?: number | null
+  pagination_token?: string | null
+  run_started_at?: string | null
+  pages_fetched: number
+  posts_synced: number
+  new_posts: number
+  last_error?: string | null
+  queued_at?: string | null
+  started_at?: string | null
+  finished_at?: string | null
+  last_completed_at?: string | null
+}
+
+export interface PostSyncJobData {
+  workspaceId: string
+  username: string
+}
+
+// Row in post_engagement_history, the time series behind post velocity
+export interface EngagementSnapshot {
+  post_urn: string
+  total_reactions: number
+  like_count: number
+  support_count: number
+  love_count: number
+  insight_count: number
+  celebrate_count: number
+  comments_count: number
+  reposts_count: number
+  recorded_at: string
+}
+
+// Row in the web app's content_audit_log (append-only), written when the scheduler publishes a post
+export interface ContentAuditEntry {
+  workspace_id: string
+  backend: 'airtable' | 'supabase'
+  content_id: string
+  action: 'created' | 'status_change' | 'edit' | 'comment'
+  from_status?: string
+  to_status?: string
+  actor: string
+  actor_role: 'writer' | 'approver' | 'system'
+  details?: Record<string, any>
+}
+
 export interface WorkerConfig {
   redis: {
     url: string
@@ -91,9 +478,18 @@ export interface WorkerConfig {
     url: string
     serviceKey: string
   }
-  openai: {
-    apiKey: string
+  llm: {
+    provider: LLMProviderName
     model: string
+    // Research analysis runs at low temperature and can use a different (cheaper) model
+    researchModel: string
+    openai: {
+      apiKey?: string
+    }
+    anthropic: {
+      apiKey?: string
+      baseUrl: string
+    }
   }
   research: {
     firecrawl: {
@@ -102,6 +498,46 @@ export interface WorkerConfig {
     perplexity: {
       apiKey: string
     }
+    rss: {
+      feeds: string[]
+    }
+    rapidapi: {
+      apiKey?: string
+      host: string
+    }
+  }
+  voice: {
+    baselineUsername: string
+  }
+  airtable: {
+    apiKey?: string
+    baseId?: string
+    contentPostsTable?: string
+  }
+  publishing: {
+    publisher: PublisherName
+    contentPostsBackend: 'airtable' | 'supabase'
+    workspaceId: string // Only used with the supabase backend; Airtable has one base per deployment
+    pollIntervalSeconds: number
+    maxAttempts: number
+    lindy: {
+      webhookUrl?: string
+      webhookToken?: string
+      authorId: string
+    }
+  }
+  engagement: {
+    scanIntervalSeconds: number
+    trackingDays: number
+  }
+  postSync: {
+    maxPagesPerRun: number
+    intervalMinutes: number
+    maxAttempts: number
+  }
+  budget: {
+    dailyUsd?: number
+    monthlyUsd?: number
   }
   worker: {
     concurrency: number
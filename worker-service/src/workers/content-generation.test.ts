@@ -0,0 +1,146 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { ContentGenerationWorker } from './content-generation'
+import type { AIAgentResult, UsageLedgerEntry } from '../types'
+
+// Config is parsed at import time (vi.hoisted runs before the imports above); run the pipeline on the offline stub provider
+vi.hoisted(() => {
+  Object.assign(process.env, {
+    NODE_ENV: 'test',
+    LLM_PROVIDER: 'stub',
+    REDIS_URL: 'redis://localhost:6379',
+    SUPABASE_URL: 'http://localhost:54321',
+    SUPABASE_SERVICE_ROLE_KEY: 'test-service-role-key',
+    FIRECRAWL_API_KEY: 'test-firecrawl-key',
+    LOG_LEVEL: 'fatal'
+  })
+})
+
+// No Redis: the worker is driven directly instead of through a queue
+vi.mock('bullmq', () => ({
+  Worker: class {
+    on() {}
+  }
+}))
+
+vi.mock('../queue/setup', () => ({
+  redis: {},
+  QUEUE_NAMES: { CONTENT_GENERATION: 'content-generation' },
+  JOB_NAMES: { GENERATE_CONTENT: 'generate-content', REVISE_DRAFT: 'revise-draft' }
+}))
+
+// In-memory stand-in for the tables the generation flow reads and writes
+const db = vi.hoisted(() => ({
+  usage: [] as UsageLedgerEntry[],
+  drafts: [] as AIAgentResult[],
+  researchData: null as any,
+  failures: [] as string[]
+}))
+
+vi.mock('../services/supabase', () => {
+  const supabaseService = {
+    createJob: async (job: Record<string, any>) => ({ id: 'job-1', status: 'pending', ...job }),
+    updateJobProgress: async () => true,
+    updateJobResearchData: async (_jobId: string, data: any) => {
+      db.researchData = data
+      return true
+    },
+    getVoiceProfile: async () => null,
+    getDefaultVoiceProfile: async () => null,
+    getWorkspaceUsername: async () => null,
+    getPostsByUsername: async () => [],
+    getCachedResearch: async () => null,
+    setCachedResearch: async () => true,
+    completeJob: async (_jobId: string, drafts: AIAgentResult[]) => {
+      db.drafts = drafts
+      return true
+    },
+    failJob: async (_jobId: string, error: string) => {
+      db.failures.push(error)
+      return true
+    },
+    recordUsage: async (entry: UsageLedgerEntry) => {
+      db.usage.push(entry)
+      return true
+    },
+    getUsageSpend: async () => 0
+  }
+  return { supabaseService, default: supabaseService }
+})
+
+const runGeneration = (data: Record<string, any>) => {
+  const worker = new ContentGenerationWorker() as any
+  return worker.processJob({
+    id: 'queue-1',
+    name: 'generate-content',
+    data,
+    updateProgress: vi.fn()
+  })
+}
+
+describe('content generation with the stub LLM provider', () => {
+  beforeEach(() => {
+    db.usage.length = 0
+    db.drafts = []
+    db.researchData = null
+    db.failures.length = 0
+  })
+
+  it('researches, drafts and saves one LinkedIn post per idea', async () => {
+    const result = await runGeneration({ topic: 'Founder burnout', platform: 'linkedin', userId: 'user-1' })
+
+    expect(result).toMatchObject({ success: true, jobId: 'job-1', draftsCount: 3, platforms: ['linkedin'] })
+    expect(db.failures).toEqual([])
+
+    expect(Object.keys(db.researchData.research_ideas)).toEqual(['idea_1', 'idea_2', 'idea_3'])
+
+    expect(db.drafts.map(draft => draft.agent_name)).toEqual([
+      'andrew_tallents_agent_1',
+      'andrew_tallents_agent_2',
+      'andrew_tallents_agent_3'
+    ])
+    for (const draft of db.drafts) {
+      expect(draft.content.platform).toBe('linkedin')
+      expect(draft.content.body.length).toBeGreaterThan(0)
+      expect(draft.metadata.model_used).toBe('stub-fixtures')
+      expect(draft.content.estimated_voice_score).toBeGreaterThan(0)
+    }
+    expect(db.drafts[0].content.body).toContain("Most founders won't admit this")
+  })
+
+  it('meters every completion in the usage ledger, tagged with the job', async () => {
+    await runGeneration({ topic: 'Founder burnout', platform: 'linkedin', userId: 'user-1' })
+
+    expect(db.usage.length).toBeGreaterThanOrEqual(4) // Research analysis plus one call per agent
+    for (const entry of db.usage) {
+      expect(entry).toMatchObject({
+        category: 'llm',
+        provider: 'stub',
+        model: 'stub-fixtures',
+        estimated_cost_usd: 0,
+        job_id: 'job-1',
+        queue_job_id: 'queue-1',
+        route: 'worker:generate-content',
+        user_id: 'user-1',
+        workspace_id: '00000000-0000-0000-0000-000000000001' // Untagged jobs run in the default workspace
+      })
+      expect(entry.total_tokens).toBe((entry.prompt_tokens || 0) + (entry.completion_tokens || 0))
+      expect(entry.total_tokens).toBeGreaterThan(0)
+    }
+
+    const agentEntries = db.usage.filter(entry => entry.agent_name?.startsWith('andrew_tallents_agent_'))
+    expect(agentEntries.map(entry => entry.agent_name).sort()).toEqual([
+      'andrew_tallents_agent_1',
+      'andrew_tallents_agent_2',
+      'andrew_tallents_agent_3'
+    ])
+  })
+
+  it('fans one research run out to every requested platform', async () => {
+    const result = await runGeneration({ topic: 'Founder burnout', platform: 'linkedin', platforms: ['linkedin', 'twitter'] })
+
+    expect(result).toMatchObject({ success: true, draftsCount: 6, platforms: ['linkedin', 'twitter'] })
+    const twitterDrafts = db.drafts.filter(draft => draft.content.platform === 'twitter')
+    expect(twitterDrafts).toHaveLength(3)
+    expect(twitterDrafts[0].content.body).toContain('somewhere to put it down')
+  })
+})
@@ -1,11 +1,16 @@
 import { Worker, Job } from 'bullmq'
-import { redis, QUEUE_NAMES } from '../queue/setup'
-import { appConfig } from '../config'
+import { redis, QUEUE_NAMES, JOB_NAMES } from '../queue/setup'
+import { appConfig, DEFAULT_WORKSPACE_ID } from '../config'
 import logger from '../lib/logger'
 import { supabaseService } from '../services/supabase'
 import { researchService } from '../services/research'
 import { aiAgentsService } from '../services/ai-agents'
-import type { JobData, AIAgentResult } from '../types'
+import { voiceScorerService } from '../services/voice-scorer'
+import { styleLinterService } from '../services/style-linter'
+import { factCheckerService } from '../services/fact-checker'
+import { getPlatformAdapter, applyPlatformFormat, type PlatformAdapter } from '../services/platform-adapters'
+import type { VoiceBaseline } from '../services/voice-scorer'
+import type { JobData, RevisionJobData, AIAgentResult, Platform, UsageTags, EnhancedResearch, ResearchSourceRef } from '../types'
 
 export class ContentGenerationWorker {
   private worker: Worker
@@ -71,14 +76,40 @@ export class ContentGenerationWorker {
     })
   }
 
-  private async processJob(job: Job<JobData>) {
-    const { topic, platform, voiceGuidelines, postType, tone, userId } = job.data
+  private async processJob(job: Job<JobData | RevisionJobData>) {
+    if (job.name === JOB_NAMES.REVISE_DRAFT) {
+      return this.processRevisionJob(job as Job<RevisionJobData>)
+    }
+
+    return this.processGenerationJob(job as Job<JobData>)
+  }
+
+  private async processGenerationJob(job: Job<JobData>) {
+    const {
+      topic,
+      platform,
+      platforms: requestedPlatforms,
+      voiceGuidelines,
+      postType,
+      tone,
+      userId,
+      voiceGuideId,
+      researchProviders,
+      sourceUrls,
+      rssFeeds
+    } = job.data
+    const workspaceId = job.data.workspaceId || DEFAULT_WORKSPACE_ID
     const startTime = Date.now()
 
+    // One research run can fan out to several platforms; the first is the job's primary platform
+    const platforms: Platform[] = requestedPlatforms && requestedPlatforms.length > 0
+      ? Array.from(new Set(requestedPlatforms))
+      : [platform]
+
     logger.info({ 
       jobId: job.id, 
       topic, 
-      platform,
+      platforms,
       postType 
     }, 'Starting content generation job')
 
@@ -86,15 +117,27 @@ export class ContentGenerationWorker {
       // Step 1: Create job in database with queue job ID
       const dbJob = await supabaseService.createJob({
         topic,
-        platform,
-        voice_guide_id: userId,
-        queue_job_id: job.id // Store the queue job ID in the database
+        platform: platforms[0],
+        platforms,
+        voice_guide_id: voiceGuideId,
+        voice_guidelines: voiceGuidelines,
+        queue_job_id: job.id, // Store the queue job ID in the database
+        workspace_id: workspaceId
       })
 
       if (!dbJob) {
         throw new Error('Failed to create job in database')
       }
 
+      // Every LLM and research call for this job is tagged in the usage ledger
+      const usage: UsageTags = {
+        jobId: dbJob.id,
+        queueJobId: job.id,
+        route: `worker:${JOB_NAMES.GENERATE_CONTENT}`,
+        userId,
+        workspaceId
+      }
+
       // Update job progress: Job created
       await job.updateProgress(10)
       await supabaseService.updateJobProgress(dbJob.id, 10, 'processing')
@@ -104,12 +147,19 @@ export class ContentGenerationWorker {
       await job.updateProgress(15)
       await supabaseService.updateJobProgress(dbJob.id, 15)
 
-      const research = await researchService.enhancedFirecrawlResearch(topic)
+      const { ideas: research, providers, sources } = await researchService.enhancedResearch(
+        topic,
+        { providers: researchProviders, sourceUrls, rssFeeds },
+        usage
+      )
       
+      // Each idea carries its own source URLs; the job keeps the full list it was researched from
       const researchData = {
         research_ideas: research,
         timestamp: new Date().toISOString(),
-        method: 'enhanced_firecrawl'
+        method: 'enhanced_research',
+        providers,
+        sources
       }
 
       await supabaseService.updateJobResearchData(dbJob.id, researchData)
@@ -118,30 +168,58 @@ export class ContentGenerationWorker {
 
       logger.info({ 
         jobId: job.id, 
+        providers,
+        sourceCount: sources.length,
         ideasFound: 3
       }, 'Enhanced research phase completed')
 
       // Step 3: AI Agents phase
-      logger.info({ jobId: job.id }, 'Starting Andrew Tallents content generation with 3 agents')
-      
-      const agentResults = await aiAgentsService.generateAllVariations(
-        topic,
-        research,
-        voiceGuidelines
-      )
+      // Resolve the voice profile named by voice_guide_id, falling back to the default profile
+      const voiceProfile = voiceGuideId
+        ? await supabaseService.getVoiceProfile(workspaceId, voiceGuideId)
+        : await supabaseService.getDefaultVoiceProfile(workspaceId)
 
-      // Update progress for each completed agent
-      for (let i = 0; i < agentResults.length; i++) {
-        const progress = 40 + ((i + 1) * 20) // 60%, 80%, 100%
+      if (voiceGuideId && !voiceProfile) {
+        logger.warn({ jobId: job.id, voiceGuideId }, 'Voice profile not found, using built-in guidelines')
+      }
+
+      logger.info({ 
+        jobId: job.id,
+        platforms,
+        voiceProfileId: voiceProfile?.id,
+        voiceProfileVersion: voiceProfile?.version
+      }, 'Starting Andrew Tallents content generation with 3 agents')
+
+      const voiceBaseline = await voiceScorerService.buildBaseline(workspaceId, voiceProfile)
+      const agentResults: AIAgentResult[] = []
+
+      for (let i = 0; i < platforms.length; i++) {
+        const adapter = getPlatformAdapter(platforms[i])
+
+        const generatedResults = await aiAgentsService.generateAllVariations(
+          topic,
+          research,
+          adapter,
+          voiceGuidelines,
+          voiceProfile,
+          usage
+        )
+
+        const platformResults = await this.finalizeDrafts(generatedResults, adapter, voiceBaseline, usage, { ideas: research, sources })
+        agentResults.push(...platformResults)
+
+        // Update progress as each platform completes
+        const progress = Math.round(40 + ((i + 1) / platforms.length) * 55) // up to 95%
         await job.updateProgress(progress)
         await supabaseService.updateJobProgress(dbJob.id, progress)
-        
+
         logger.info({ 
           jobId: job.id, 
-          agentName: agentResults[i].agent_name,
-          voiceScore: agentResults[i].content.estimated_voice_score,
+          platform: adapter.platform,
+          draftCount: platformResults.length,
+          voiceScores: platformResults.map(result => result.content.estimated_voice_score),
           progress 
-        }, 'Agent completed content generation')
+        }, 'Platform content generation completed')
       }
 
       // Step 4: Complete job
@@ -163,6 +241,7 @@ export class ContentGenerationWorker {
         success: true,
         jobId: dbJob.id,
         draftsCount: agentResults.length,
+        platforms,
         totalTimeMs: totalTime,
         researchMethod: researchData.method
       }
@@ -176,7 +255,8 @@ export class ContentGenerationWorker {
         // Create a failed job record if we don't have a database job yet
         const dbJob = await supabaseService.createJob({
           topic: job.data.topic,
-          platform: job.data.platform || 'linkedin'
+          platform: job.data.platform || 'linkedin',
+          workspace_id: workspaceId
         })
         
         if (dbJob) {
@@ -188,6 +268,132 @@ export class ContentGenerationWorker {
     }
   }
 
+  private async processRevisionJob(job: Job<RevisionJobData>) {
+    const { draftId, feedback, userId } = job.data
+    const startTime = Date.now()
+
+    logger.info({ jobId: job.id, draftId }, 'Starting draft revision job')
+
+    try {
+      // Step 1: Load the draft and the research stored on its job
+      const parentDraft = await supabaseService.getDraft(draftId)
+      if (!parentDraft) {
+        throw new Error(`Draft ${draftId} not found`)
+      }
+
+      const contentJob = await supabaseService.getJob(parentDraft.job_id)
+      if (!contentJob) {
+        throw new Error(`Content job ${parentDraft.job_id} not found`)
+      }
+
+      // Fan-out jobs number drafts across platforms, so prefer the stored idea number
+      const ideaNumber = (parentDraft.metadata.idea_number || parentDraft.variant_number) as 1 | 2 | 3
+      const adapter = getPlatformAdapter(parentDraft.content.platform || contentJob.platform)
+      const idea = contentJob.research_data?.research_ideas?.[`idea_${ideaNumber}`]
+      if (!idea) {
+        throw new Error(`Research idea ${ideaNumber} not found on job ${contentJob.id}`)
+      }
+
+      // The draft's own job decides the workspace, whatever the queue payload says
+      const workspaceId = contentJob.workspace_id || DEFAULT_WORKSPACE_ID
+      const usage: UsageTags = {
+        jobId: contentJob.id,
+        queueJobId: job.id,
+        route: `worker:${JOB_NAMES.REVISE_DRAFT}`,
+        userId,
+        workspaceId
+      }
+
+      await job.updateProgress(20)
+
+      // Step 2: Regenerate with the same voice profile and guidelines the job used
+      const voiceProfile = contentJob.voice_guide_id
+        ? await supabaseService.getVoiceProfile(workspaceId, contentJob.voice_guide_id)
+        : await supabaseService.getDefaultVoiceProfile(workspaceId)
+
+      const revision = await aiAgentsService.generateRevision(
+        ideaNumber,
+        idea,
+        parentDraft.content.body,
+        feedback,
+        adapter,
+        contentJob.voice_guidelines,
+        voiceProfile,
+        usage
+      )
+
+      if (!revision) {
+        throw new Error('Failed to generate draft revision')
+      }
+
+      await job.updateProgress(70)
+
+      // Step 3: Same lint, formatting and scoring pipeline as new drafts
+      const voiceBaseline = await voiceScorerService.buildBaseline(workspaceId, voiceProfile)
+      const [scored] = await this.finalizeDrafts([revision], adapter, voiceBaseline, usage, {
+        ideas: contentJob.research_data.research_ideas,
+        sources: contentJob.research_data.sources || []
+      })
+
+      // Step 4: Save as a new version linked to its parent
+      const savedDraft = await supabaseService.createDraftRevision(parentDraft, scored, feedback)
+      if (!savedDraft) {
+        throw new Error('Failed to save draft revision to database')
+      }
+
+      await job.updateProgress(100)
+
+      const totalTime = Date.now() - startTime
+      logger.info({ 
+        jobId: job.id,
+        draftId: savedDraft.id,
+        parentDraftId: parentDraft.id,
+        revisionNumber: savedDraft.revision_number,
+        totalTimeMs: totalTime
+      }, 'Draft revision completed successfully')
+
+      return {
+        success: true,
+        draftId: savedDraft.id,
+        parentDraftId: parentDraft.id,
+        revisionNumber: savedDraft.revision_number,
+        totalTimeMs: totalTime
+      }
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      logger.error({ jobId: job.id, draftId, error: errorMessage }, 'Draft revision failed')
+      throw error
+    }
+  }
+
+  // Lint (where the platform uses the LinkedIn style rules), format for the platform, fact-check, then score
+  private async finalizeDrafts(
+    results: AIAgentResult[],
+    adapter: PlatformAdapter,
+    voiceBaseline: VoiceBaseline,
+    usage?: UsageTags,
+    research?: { ideas: EnhancedResearch; sources: ResearchSourceRef[] }
+  ): Promise<AIAgentResult[]> {
+    const lintedResults = adapter.styleLint
+      ? await Promise.all(results.map(result => styleLinterService.lintAndRepair(result, voiceBaseline.ctaPatterns, usage)))
+      : results
+
+    const formattedResults = lintedResults.map(result => applyPlatformFormat(result, adapter))
+
+    // Map every statistic and quote back to the research snippets the draft was written from
+    const checkedResults = research
+      ? formattedResults.map(result => factCheckerService.applyFactCheck(
+        result,
+        research.ideas[`idea_${result.metadata.idea_number}` as keyof EnhancedResearch],
+        research.sources
+      ))
+      : formattedResults
+
+    // Score each draft against Andrew's historical posts so the variants can be ranked
+    return voiceScorerService.applyScores(checkedResults, voiceBaseline)
+  }
+
   async start() {
     logger.info({ 
       concurrency: appConfig.worker.concurrency,
@@ -0,0 +1,86 @@
+import { Worker, Job } from 'bullmq'
+import { redis, engagementQueue, QUEUE_NAMES, JOB_NAMES } from '../queue/setup'
+import { appConfig } from '../config'
+import logger from '../lib/logger'
+import { engagementTrackerService } from '../services/engagement-tracker'
+
+const SNAPSHOT_JOB_ID = 'snapshot-engagement'
+
+export class EngagementWorker {
+  private worker: Worker | null = null
+
+  get isEnabled(): boolean {
+    return engagementTrackerService.isConfigured
+  }
+
+  private setupEventListeners(worker: Worker) {
+    worker.on('failed', (job, err) => {
+      logger.error({ jobId: job?.id, error: err.message }, 'Engagement snapshot job failed')
+    })
+
+    worker.on('error', (err) => {
+      if (err.message?.includes('Command timed out')) {
+        logger.debug({ error: err.message }, 'Redis command timeout (expected on Railway)')
+      } else {
+        logger.error({ error: err.message }, 'Engagement worker error')
+      }
+    })
+  }
+
+  private async processJob(job: Job) {
+    if (job.name !== JOB_NAMES.SNAPSHOT_ENGAGEMENT) {
+      throw new Error(`Unknown engagement job: ${job.name}`)
+    }
+    return engagementTrackerService.snapshotDuePosts()
+  }
+
+  async start() {
+    if (!this.isEnabled) {
+      logger.warn('RapidAPI not configured, engagement snapshots disabled')
+      return null
+    }
+
+    this.worker = new Worker(QUEUE_NAMES.ENGAGEMENT, this.processJob.bind(this), {
+      connection: redis,
+      // A run pages through every due author; overlapping runs would fetch the same feeds twice
+      concurrency: 1
+    })
+    this.setupEventListeners(this.worker)
+
+    await engagementQueue.add(JOB_NAMES.SNAPSHOT_ENGAGEMENT, {}, {
+      jobId: SNAPSHOT_JOB_ID,
+      repeat: { every: appConfig.engagement.scanIntervalSeconds * 1000 }
+    })
+
+    logger.info({
+      queueName: QUEUE_NAMES.ENGAGEMENT,
+      scanIntervalSeconds: appConfig.engagement.scanIntervalSeconds,
+      trackingDays: appConfig.engagement.trackingDays
+    }, 'Starting engagement snapshot worker')
+
+    return this.worker
+  }
+
+  async stop() {
+    if (!this.worker) return
+    logger.info('Stopping engagement snapshot worker')
+    await this.worker.close()
+  }
+
+  async pause() {
+    if (!this.worker) return
+    logger.info('Pausing engagement snapshot worker')
+    await this.worker.pause()
+  }
+
+  getWorkerState() {
+    return {
+      enabled: this.isEnabled,
+      isRunning: this.worker?.isRunning() || false,
+      isPaused: this.worker?.isPaused() || false,
+      trackingDays: appConfig.engagement.trackingDays
+    }
+  }
+}
+
+export default EngagementWorker
@@ -0,0 +1,128 @@
+import { Worker, Job, UnrecoverableError } from 'bullmq'
+import { redis, postSyncQueue, QUEUE_NAMES, JOB_NAMES } from '../queue/setup'
+import { appConfig } from '../config'
+import logger from '../lib/logger'
+import { supabaseService } from '../services/supabase'
+import { postSyncService, postSyncJobId, PostSyncFatalError } from '../services/post-sync'
+import type { PostSyncJobData } from '../types'
+
+const SCAN_JOB_ID = 'scan-post-sync'
+
+export class PostSyncWorker {
+  private worker: Worker | null = null
+
+  get isEnabled(): boolean {
+    return postSyncService.isConfigured
+  }
+
+  private setupEventListeners(worker: Worker) {
+    worker.on('completed', (job, result) => {
+      if (job.name === JOB_NAMES.SYNC_PROFILE_POSTS) {
+        logger.info({ jobId: job.id, result }, 'Post sync job completed')
+      }
+    })
+
+    worker.on('failed', (job, err) => {
+      logger.error({
+        jobId: job?.id,
+        username: job?.data?.username,
+        attemptsMade: job?.attemptsMade,
+        error: err.message
+      }, 'Post sync job failed')
+    })
+
+    worker.on('error', (err) => {
+      if (err.message?.includes('Command timed out')) {
+        logger.debug({ error: err.message }, 'Redis command timeout (expected on Railway)')
+      } else {
+        logger.error({ error: err.message }, 'Post sync worker error')
+      }
+    })
+  }
+
+  private async processJob(job: Job<PostSyncJobData>) {
+    if (job.name === JOB_NAMES.SCAN_POST_SYNC) {
+      return this.queueAllProfiles()
+    }
+
+    const { workspaceId, username } = job.data
+    try {
+      return await postSyncService.syncProfile(workspaceId, username, progress => job.updateProgress({ ...progress }))
+    } catch (error) {
+      if (error instanceof PostSyncFatalError) {
+        throw new UnrecoverableError(error.message)
+      }
+      throw error
+    }
+  }
+
+  // Re-queues every profile that has been synced before; the job id skips profiles already queued
+  private async queueAllProfiles() {
+    const cursors = await supabaseService.listSyncCursors()
+
+    for (const cursor of cursors) {
+      await postSyncQueue.add(
+        JOB_NAMES.SYNC_PROFILE_POSTS,
+        { workspaceId: cursor.workspace_id, username: cursor.username },
+        { jobId: postSyncJobId(cursor.workspace_id, cursor.username) }
+      )
+    }
+
+    if (cursors.length > 0) {
+      logger.info({ count: cursors.length }, 'Queued profiles for post sync')
+    }
+
+    return { queued: cursors.length }
+  }
+
+  async start() {
+    if (!this.isEnabled) {
+      logger.warn('RapidAPI not configured, post sync disabled')
+      return null
+    }
+
+    this.worker = new Worker(QUEUE_NAMES.POST_SYNC, this.processJob.bind(this), {
+      connection: redis,
+      // Profiles sync one at a time to stay inside the scraper's rate limit
+      concurrency: 1
+    })
+    this.setupEventListeners(this.worker)
+
+    await postSyncQueue.add(JOB_NAMES.SCAN_POST_SYNC, {}, {
+      jobId: SCAN_JOB_ID,
+      repeat: { every: appConfig.postSync.intervalMinutes * 60 * 1000 },
+      attempts: 1
+    })
+
+    logger.info({
+      queueName: QUEUE_NAMES.POST_SYNC,
+      intervalMinutes: appConfig.postSync.intervalMinutes,
+      maxPagesPerRun: appConfig.postSync.maxPagesPerRun
+    }, 'Starting post sync worker')
+
+    return this.worker
+  }
+
+  async stop() {
+    if (!this.worker) return
+    logger.info('Stopping post sync worker')
+    await this.worker.close()
+  }
+
+  async pause() {
+    if (!this.worker) return
+    logger.info('Pausing post sync worker')
+    await this.worker.pause()
+  }
+
+  getWorkerState() {
+    return {
+      enabled: this.isEnabled,
+      isRunning: this.worker?.isRunning() || false,
+      isPaused: this.worker?.isPaused() || false,
+      maxPagesPerRun: appConfig.postSync.maxPagesPerRun
+    }
+  }
+}
+
+export default PostSyncWorker
@@ -0,0 +1,119 @@
+import { Worker, Job } from 'bullmq'
+import { redis, publishingQueue, QUEUE_NAMES, JOB_NAMES } from '../queue/setup'
+import { appConfig } from '../config'
+import logger from '../lib/logger'
+import { contentPosts } from '../services/content-posts'
+import { publishingService, PublishPendingError } from '../services/publishing'
+import type { PublishJobData } from '../types'
+
+const SCAN_JOB_ID = 'scan-due-posts'
+
+export class PublishingWorker {
+  private worker: Worker | null = null
+
+  get isEnabled(): boolean {
+    return contentPosts.isConfigured
+  }
+
+  private setupEventListeners(worker: Worker) {
+    worker.on('completed', (job, result) => {
+      if (job.name === JOB_NAMES.PUBLISH_POST) {
+        logger.info({ jobId: job.id, postId: job.data.postId, result }, 'Publish job completed')
+      }
+    })
+
+    worker.on('failed', (job, err) => {
+      // Waiting on the publisher is expected, not a failure worth an error log
+      if (err instanceof PublishPendingError || err.name === 'PublishPendingError') {
+        logger.debug({ jobId: job?.id, attemptsMade: job?.attemptsMade }, err.message)
+      } else {
+        logger.error({ jobId: job?.id, postId: job?.data?.postId, attemptsMade: job?.attemptsMade, error: err.message }, 'Publish job failed')
+      }
+    })
+
+    worker.on('error', (err) => {
+      if (err.message?.includes('Command timed out')) {
+        logger.debug({ error: err.message }, 'Redis command timeout (expected on Railway)')
+      } else {
+        logger.error({ error: err.message }, 'Publishing worker error')
+      }
+    })
+  }
+
+  private async processJob(job: Job<PublishJobData>) {
+    if (job.name === JOB_NAMES.SCAN_DUE_POSTS) {
+      return this.scanDuePosts()
+    }
+
+    // attemptsMade counts previous attempts, so this is the last one when it reaches attempts - 1
+    const isFinalAttempt = job.attemptsMade + 1 >= (job.opts.attempts || 1)
+    const outcome = await publishingService.publishPost(job.data.postId, isFinalAttempt)
+    return { outcome }
+  }
+
+  private async scanDuePosts() {
+    const duePosts = await publishingService.findDuePosts()
+
+    // One job per post; the job id makes a second enqueue of the same post a no-op while it's in flight
+    for (const post of duePosts) {
+      await publishingQueue.add(JOB_NAMES.PUBLISH_POST, { postId: post.id }, { jobId: `publish-${post.id}` })
+    }
+
+    if (duePosts.length > 0) {
+      logger.info({ count: duePosts.length, postIds: duePosts.map(post => post.id) }, 'Queued due posts for publishing')
+    }
+
+    return { queued: duePosts.length }
+  }
+
+  async start() {
+    if (!this.isEnabled) {
+      logger.warn('Content posts not configured, scheduled publishing disabled')
+      return null
+    }
+
+    this.worker = new Worker(QUEUE_NAMES.PUBLISHING, this.processJob.bind(this), {
+      connection: redis,
+      // One post at a time keeps posts going out in scheduled order
+      concurrency: 1
+    })
+    this.setupEventListeners(this.worker)
+
+    await publishingQueue.add(JOB_NAMES.SCAN_DUE_POSTS, {}, {
+      jobId: SCAN_JOB_ID,
+      repeat: { every: appConfig.publishing.pollIntervalSeconds * 1000 },
+      attempts: 1
+    })
+
+    logger.info({
+      queueName: QUEUE_NAMES.PUBLISHING,
+      pollIntervalSeconds: appConfig.publishing.pollIntervalSeconds,
+      publisher: appConfig.publishing.publisher
+    }, 'Starting publishing worker')
+
+    return this.worker
+  }
+
+  async stop() {
+    if (!this.worker) return
+    logger.info('Stopping publishing worker')
+    await this.worker.close()
+  }
+
+  async pause() {
+    if (!this.worker) return
+    logger.info('Pausing publishing worker')
+    await this.worker.pause()
+  }
+
+  getWorkerState() {
+    return {
+      enabled: this.isEnabled,
+      isRunning: this.worker?.isRunning() || false,
+      isPaused: this.worker?.isPaused() || false,
+      publisher: appConfig.publishing.publisher
+    }
+  }
+}
+
+export default PublishingWorker